@@ -0,0 +1,386 @@
+import { Agent } from '@mastra/core/agent';
+import { readFileSync, readdirSync, statSync } from 'fs';
+import { extname, join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+
+import type { MBTIType } from '../types/mbti-types';
+import { ALL_MBTI_TYPES } from '../utils/mbti-characteristics';
+import { createAgentModelResolver } from '../utils/llm-provider-registry';
+import {
+  DISCUSSION_LANGUAGES,
+  DEFAULT_DISCUSSION_LANGUAGE,
+  createLocalizedInstructions,
+  type DiscussionLanguage
+} from '../utils/discussion-language';
+import { BUILTIN_PERSONAS } from './builtin-personas';
+
+/**
+ * ペルソナエージェントファクトリー
+ * MBTIタイプ＋ペルソナ定義（役割・専門領域・議論での姿勢・特徴的な表現）からエージェントを構築する
+ * 組み込みの16タイプも同じ定義形式で登録し、カスタムペルソナ（「懐疑的なINTJのCFO」・タイプの派生・
+ * MBTIを重ねたドメイン専門家）は YAML/JSON ファイルから読み込んでレジストリへ登録する
+ */
+
+// ===========================================
+// スキーマ定義
+// ===========================================
+
+const mbtiTypeSchema = z.enum(ALL_MBTI_TYPES as [MBTIType, ...MBTIType[]]);
+
+/**
+ * 言語別テキスト（文字列は全言語で共通、未指定の言語は既定言語のテキストを使用）
+ */
+export const localizedTextSchema = z.union([
+  z.string().min(1),
+  z.object({
+    ja: z.string().min(1).optional(),
+    en: z.string().min(1).optional()
+  })
+]);
+
+export const personaDefinitionSchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9][A-Za-z0-9_-]*$/).describe('Persona id (selected with the workflow personas input)'),
+  name: z.string().min(1).optional().describe('Mastra agent name (default: <MBTI type>-<id>)'),
+  mbtiType: mbtiTypeSchema,
+  description: z.string().optional(),
+  role: z.string().min(1).optional().describe('Role or position, e.g. CFO'),
+  expertise: z.array(z.string().min(1)).optional().describe('Domain expertise'),
+  stance: z.string().min(1).optional().describe('Attitude in the discussion, e.g. skeptical of optimistic forecasts'),
+  expressions: z.array(z.string().min(1)).optional().describe('Characteristic expressions of the persona'),
+  instructions: localizedTextSchema.optional().describe('Additional instructions (the full instructions when inheritTypeInstructions is false)'),
+  inheritTypeInstructions: z.boolean().default(true).describe('Build on the built-in instructions of the MBTI type')
+});
+
+/**
+ * ペルソナファイル（単一定義・定義の配列・{ personas: [...] } のいずれか）
+ */
+export const personaFileSchema = z.union([
+  personaDefinitionSchema,
+  z.array(personaDefinitionSchema),
+  z.object({ personas: z.array(personaDefinitionSchema) })
+]);
+
+// ===========================================
+// 型定義
+// ===========================================
+
+export type PersonaDefinition = z.infer<typeof personaDefinitionSchema>;
+export type PersonaDefinitionInput = z.input<typeof personaDefinitionSchema>;
+export type LocalizedText = z.infer<typeof localizedTextSchema>;
+
+/**
+ * 登録済みペルソナ（定義と構築済みエージェント）
+ */
+export interface RegisteredPersona {
+  definition: PersonaDefinition;
+  agentName: string;
+  agent: Agent;
+  builtin: boolean;
+}
+
+// ===========================================
+// 指示文の組み立て
+// ===========================================
+
+interface PersonaOverlayText {
+  heading: string;
+  role: (role: string) => string;
+  expertise: (expertise: string) => string;
+  stance: (stance: string) => string;
+  expressionsHeading: string;
+  expression: (expression: string) => string;
+  listSeparator: string;
+  closing: (mbtiType: MBTIType) => string;
+}
+
+const PERSONA_OVERLAY_TEXT: Record<DiscussionLanguage, PersonaOverlayText> = {
+  ja: {
+    heading: '【ペルソナ】',
+    role: role => `- 役割: ${role}`,
+    expertise: expertise => `- 専門領域: ${expertise}`,
+    stance: stance => `- 議論での姿勢: ${stance}`,
+    expressionsHeading: '【ペルソナの特徴的な表現】',
+    expression: expression => `- 「${expression}」`,
+    listSeparator: '、',
+    closing: mbtiType => `${mbtiType}の認知特性を保ちながら、上記の役割・専門領域の立場から発言してください。`
+  },
+  en: {
+    heading: '[Persona]',
+    role: role => `- Role: ${role}`,
+    expertise: expertise => `- Areas of expertise: ${expertise}`,
+    stance: stance => `- Stance in the discussion: ${stance}`,
+    expressionsHeading: '[Characteristic persona expressions]',
+    expression: expression => `- "${expression}"`,
+    listSeparator: ', ',
+    closing: mbtiType => `Keep the cognitive traits of ${mbtiType} while speaking from the standpoint of the role and expertise above.\nAlways respond in English.`
+  }
+};
+
+/**
+ * 言語別テキストを解決
+ */
+function resolveLocalizedText(text: LocalizedText | undefined, language: DiscussionLanguage): string | undefined {
+  if (text === undefined || typeof text === 'string') return text;
+  return text[language] ?? text[DEFAULT_DISCUSSION_LANGUAGE] ?? Object.values(text).find(Boolean);
+}
+
+/**
+ * ペルソナ固有の指示（役割・専門領域・姿勢・表現・追加指示）を組み立て
+ */
+function buildPersonaOverlay(definition: PersonaDefinition, language: DiscussionLanguage): string {
+  const text = PERSONA_OVERLAY_TEXT[language];
+  const profile = [
+    definition.role && text.role(definition.role),
+    definition.expertise?.length && text.expertise(definition.expertise.join(text.listSeparator)),
+    definition.stance && text.stance(definition.stance)
+  ].filter((line): line is string => Boolean(line));
+
+  const sections: string[] = [];
+  if (profile.length > 0) {
+    sections.push(`${text.heading}\n${profile.join('\n')}`);
+  }
+  if (definition.expressions?.length) {
+    sections.push(`${text.expressionsHeading}\n${definition.expressions.map(text.expression).join('\n')}`);
+  }
+  const instructions = resolveLocalizedText(definition.instructions, language);
+  if (instructions) {
+    sections.push(instructions);
+  }
+  sections.push(text.closing(definition.mbtiType));
+  return sections.join('\n\n');
+}
+
+/**
+ * ペルソナ定義から言語別の指示文を作成
+ * inheritTypeInstructions の場合はタイプの組み込み指示文にペルソナ固有の指示を重ねる
+ */
+export function buildPersonaInstructions(
+  definition: PersonaDefinition,
+  typeInstructions?: Partial<Record<DiscussionLanguage, string>>
+): Record<DiscussionLanguage, string> {
+  const instructions = {} as Record<DiscussionLanguage, string>;
+  DISCUSSION_LANGUAGES.forEach(language => {
+    if (!definition.inheritTypeInstructions) {
+      const fullInstructions = resolveLocalizedText(definition.instructions, language);
+      if (!fullInstructions) {
+        throw new Error(`ペルソナ ${definition.id} の指示文がありません（inheritTypeInstructions: false には instructions が必要です）`);
+      }
+      instructions[language] = fullInstructions;
+      return;
+    }
+
+    const base = typeInstructions?.[language];
+    if (!base) {
+      throw new Error(`ペルソナ ${definition.id} の土台となる ${definition.mbtiType} の指示文（${language}）がありません`);
+    }
+    instructions[language] = `${base}\n\n${buildPersonaOverlay(definition, language)}`;
+  });
+  return instructions;
+}
+
+/**
+ * ペルソナのエージェント名（未指定時は「タイプ-ID」）
+ */
+export function getPersonaAgentName(definition: PersonaDefinition): string {
+  return definition.name ?? `${definition.mbtiType}-${definition.id}`;
+}
+
+/**
+ * ペルソナ定義からエージェントを作成（モデルはMBTIタイプのモデル選択に従う）
+ */
+export function createPersonaAgent(
+  definition: PersonaDefinition,
+  typeInstructions?: Partial<Record<DiscussionLanguage, string>>
+): Agent {
+  return new Agent({
+    name: getPersonaAgentName(definition),
+    description: definition.description ?? `${definition.mbtiType} ペルソナ: ${definition.role ?? definition.id}`,
+    instructions: createLocalizedInstructions(buildPersonaInstructions(definition, typeInstructions)),
+    model: createAgentModelResolver(definition.mbtiType),
+    tools: {
+      // エージェントは議論に参加するだけなので、ツールは直接使用しない
+      // ツールはオーケストレータとワークフローで使用される
+    }
+  });
+}
+
+// ===========================================
+// レジストリ
+// ===========================================
+
+export class PersonaRegistry {
+  private personas = new Map<string, RegisteredPersona>();
+
+  /**
+   * 組み込みの16タイプを登録（ペルソナIDはMBTIタイプ）
+   */
+  constructor(builtinPersonas: Record<MBTIType, PersonaDefinitionInput> = BUILTIN_PERSONAS) {
+    Object.values(builtinPersonas).forEach(persona => this.registerDefinition(persona, true));
+  }
+
+  /**
+   * ペルソナを登録してエージェントを構築（同一IDのカスタムペルソナは上書き、組み込みは上書き不可）
+   */
+  register(input: PersonaDefinitionInput): RegisteredPersona {
+    return this.registerDefinition(input, false);
+  }
+
+  private registerDefinition(input: PersonaDefinitionInput, builtin: boolean): RegisteredPersona {
+    const definition = personaDefinitionSchema.parse(input);
+    if (!builtin && this.personas.get(definition.id)?.builtin) {
+      throw new Error(`組み込みペルソナのIDは使用できません: ${definition.id}`);
+    }
+
+    const agentName = getPersonaAgentName(definition);
+    const conflicting = Array.from(this.personas.values())
+      .find(persona => persona.agentName === agentName && persona.definition.id !== definition.id);
+    if (conflicting) {
+      throw new Error(`エージェント名 ${agentName} はペルソナ ${conflicting.definition.id} が使用しています`);
+    }
+
+    const typeInstructions = definition.inheritTypeInstructions
+      ? this.getTypeInstructions(definition.mbtiType)
+      : undefined;
+    const persona: RegisteredPersona = {
+      definition,
+      agentName,
+      agent: createPersonaAgent(definition, typeInstructions),
+      builtin
+    };
+    this.personas.set(definition.id, persona);
+    return persona;
+  }
+
+  /**
+   * カスタムペルソナを削除（組み込みは削除不可）
+   */
+  unregister(id: string): boolean {
+    if (this.personas.get(id)?.builtin) return false;
+    return this.personas.delete(id);
+  }
+
+  has(id: string): boolean {
+    return this.personas.has(id);
+  }
+
+  get(id: string): RegisteredPersona | undefined {
+    return this.personas.get(id);
+  }
+
+  /**
+   * 登録済みペルソナを取得（未登録はエラー）
+   */
+  require(id: string): RegisteredPersona {
+    const persona = this.personas.get(id);
+    if (!persona) {
+      throw new Error(`未登録のペルソナです: ${id} (登録済み: ${Array.from(this.personas.keys()).join(', ')})`);
+    }
+    return persona;
+  }
+
+  /**
+   * 議論で使うカスタムペルソナをMBTIタイプの枠へ割り当て（1タイプにつき1ペルソナ）
+   * @returns MBTIタイプ → ペルソナID
+   */
+  assignToTypes(ids: string[]): Partial<Record<MBTIType, string>> {
+    const assignments: Partial<Record<MBTIType, string>> = {};
+    ids.forEach(id => {
+      const { definition, builtin } = this.require(id);
+      if (builtin) {
+        throw new Error(`組み込みペルソナは指定不要です: ${id}`);
+      }
+      const assigned = assignments[definition.mbtiType];
+      if (assigned && assigned !== id) {
+        throw new Error(`${definition.mbtiType} の枠に複数のペルソナが指定されています: ${assigned}, ${id}`);
+      }
+      assignments[definition.mbtiType] = id;
+    });
+    return assignments;
+  }
+
+  /**
+   * 組み込みペルソナのエージェント
+   */
+  getBuiltinAgent(mbtiType: MBTIType): Agent {
+    return this.require(mbtiType).agent;
+  }
+
+  /**
+   * 登録済みペルソナ一覧（customOnly でカスタムペルソナのみ）
+   */
+  list(options: { customOnly?: boolean } = {}): RegisteredPersona[] {
+    return Array.from(this.personas.values()).filter(persona => !options.customOnly || !persona.builtin);
+  }
+
+  /**
+   * タイプの組み込み指示文（カスタムペルソナの土台）
+   */
+  private getTypeInstructions(mbtiType: MBTIType): Record<DiscussionLanguage, string> {
+    const builtin = this.personas.get(mbtiType);
+    if (!builtin?.builtin) {
+      throw new Error(`${mbtiType} の組み込みペルソナが登録されていません`);
+    }
+    return buildPersonaInstructions(builtin.definition);
+  }
+}
+
+export const personaRegistry = new PersonaRegistry();
+
+// ===========================================
+// ペルソナファイルの読み込み
+// ===========================================
+
+const PERSONA_FILE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+/**
+ * ペルソナファイル（JSON / YAML）を読み込んで検証
+ */
+export function loadPersonaFile(filePath: string): PersonaDefinition[] {
+  let raw: unknown;
+  try {
+    const content = readFileSync(filePath, 'utf8');
+    raw = extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(`ペルソナファイルを読み込めません: ${filePath} (${error})`);
+  }
+
+  const parsed = personaFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`ペルソナファイルの形式が不正です: ${filePath} (${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')})`);
+  }
+  if (Array.isArray(parsed.data)) return parsed.data;
+  return 'personas' in parsed.data ? parsed.data.personas : [parsed.data];
+}
+
+/**
+ * ファイルまたはディレクトリ（直下の .json / .yaml / .yml）からペルソナ定義を読み込み
+ */
+export function loadPersonaDefinitions(paths: string[]): PersonaDefinition[] {
+  return paths.flatMap(path => {
+    if (!statSync(path).isDirectory()) return loadPersonaFile(path);
+    return readdirSync(path)
+      .filter(fileName => PERSONA_FILE_EXTENSIONS.includes(extname(fileName).toLowerCase()))
+      .sort()
+      .flatMap(fileName => loadPersonaFile(join(path, fileName)));
+  });
+}
+
+// ===========================================
+// 登録
+// ===========================================
+
+/**
+ * ペルソナ定義をレジストリへ登録（議論ではワークフローがレジストリからエージェントを解決する）
+ * @returns 登録したペルソナID
+ */
+export function registerPersonaAgents(definitions: PersonaDefinitionInput[]): string[] {
+  return definitions.map(definition => personaRegistry.register(definition).definition.id);
+}
+
+/**
+ * 登録済みカスタムペルソナのエージェント（エージェント名 → エージェント、Mastra インスタンスの構築時に渡す）
+ */
+export function getCustomPersonaAgents(): Record<string, Agent> {
+  return Object.fromEntries(personaRegistry.list({ customOnly: true }).map(persona => [persona.agentName, persona.agent]));
+}
@@ -1,89 +1,69 @@
 import type { Agent } from '@mastra/core/agent';
 import type { MBTIType } from '../types/mbti-types';
+import { personaRegistry } from './agent-factory';
 
-// NT (Rational) Agents
-import { intjAgent, getINTJCharacteristics } from './intj-agent';
-import { intpAgent, getINTPCharacteristics } from './intp-agent';
-import { entjAgent, getENTJCharacteristics } from './entj-agent';
-import { entpAgent, getENTPCharacteristics } from './entp-agent';
+// Orchestrator
+import { orchestratorAgent } from './orchestrator-agent';
 
-// NF (Idealist) Agents
-import { infjAgent, getINFJCharacteristics } from './infj-agent';
-import { infpAgent, getINFPCharacteristics } from './infp-agent';
-import { enfjAgent, getENFJCharacteristics } from './enfj-agent';
-import { enfpAgent, getENFPCharacteristics } from './enfp-agent';
+// 全MBTIエージェントのマップ（組み込みペルソナ定義からファクトリーで構築）
+export const ALL_MBTI_AGENTS: Record<MBTIType, Agent> = {
+  // NT (Rational)
+  INTJ: personaRegistry.getBuiltinAgent('INTJ'),
+  INTP: personaRegistry.getBuiltinAgent('INTP'),
+  ENTJ: personaRegistry.getBuiltinAgent('ENTJ'),
+  ENTP: personaRegistry.getBuiltinAgent('ENTP'),
 
-// SJ (Guardian) Agents
-import { istjAgent, getISTJCharacteristics } from './istj-agent';
-import { isfjAgent, getISFJCharacteristics } from './isfj-agent';
-import { estjAgent, getESTJCharacteristics } from './estj-agent';
-import { esfjAgent, getESFJCharacteristics } from './esfj-agent';
+  // NF (Idealist)
+  INFJ: personaRegistry.getBuiltinAgent('INFJ'),
+  INFP: personaRegistry.getBuiltinAgent('INFP'),
+  ENFJ: personaRegistry.getBuiltinAgent('ENFJ'),
+  ENFP: personaRegistry.getBuiltinAgent('ENFP'),
 
-// SP (Artisan) Agents
-import { istpAgent, getISTPCharacteristics } from './istp-agent';
-import { isfpAgent, getISFPCharacteristics } from './isfp-agent';
-import { estpAgent, getESTPCharacteristics } from './estp-agent';
-import { esfpAgent, getESFPCharacteristics } from './esfp-agent';
+  // SJ (Guardian)
+  ISTJ: personaRegistry.getBuiltinAgent('ISTJ'),
+  ISFJ: personaRegistry.getBuiltinAgent('ISFJ'),
+  ESTJ: personaRegistry.getBuiltinAgent('ESTJ'),
+  ESFJ: personaRegistry.getBuiltinAgent('ESFJ'),
 
-// Orchestrator
-import { orchestratorAgent } from './orchestrator-agent';
+  // SP (Artisan)
+  ISTP: personaRegistry.getBuiltinAgent('ISTP'),
+  ISFP: personaRegistry.getBuiltinAgent('ISFP'),
+  ESTP: personaRegistry.getBuiltinAgent('ESTP'),
+  ESFP: personaRegistry.getBuiltinAgent('ESFP'),
+} as const;
 
-// Re-export all agents and characteristics
-export {
+// Re-export all agents
+export const {
   // NT Agents
-  intjAgent, getINTJCharacteristics,
-  intpAgent, getINTPCharacteristics,
-  entjAgent, getENTJCharacteristics,
-  entpAgent, getENTPCharacteristics,
-  
+  INTJ: intjAgent, INTP: intpAgent, ENTJ: entjAgent, ENTP: entpAgent,
   // NF Agents
-  infjAgent, getINFJCharacteristics,
-  infpAgent, getINFPCharacteristics,
-  enfjAgent, getENFJCharacteristics,
-  enfpAgent, getENFPCharacteristics,
-  
+  INFJ: infjAgent, INFP: infpAgent, ENFJ: enfjAgent, ENFP: enfpAgent,
   // SJ Agents
-  istjAgent, getISTJCharacteristics,
-  isfjAgent, getISFJCharacteristics,
-  estjAgent, getESTJCharacteristics,
-  esfjAgent, getESFJCharacteristics,
-  
+  ISTJ: istjAgent, ISFJ: isfjAgent, ESTJ: estjAgent, ESFJ: esfjAgent,
   // SP Agents
-  istpAgent, getISTPCharacteristics,
-  isfpAgent, getISFPCharacteristics,
-  estpAgent, getESTPCharacteristics,
-  esfpAgent, getESFPCharacteristics,
-  
-  // Orchestrator
-  orchestratorAgent
-};
+  ISTP: istpAgent, ISFP: isfpAgent, ESTP: estpAgent, ESFP: esfpAgent
+} = ALL_MBTI_AGENTS;
 
-// 全MBTIエージェントのマップ
-export const ALL_MBTI_AGENTS: Record<MBTIType, Agent> = {
-  // NT (Rational)
-  INTJ: intjAgent,
-  INTP: intpAgent,
-  ENTJ: entjAgent,
-  ENTP: entpAgent,
-  
-  // NF (Idealist)
-  INFJ: infjAgent,
-  INFP: infpAgent,
-  ENFJ: enfjAgent,
-  ENFP: enfpAgent,
-  
-  // SJ (Guardian)
-  ISTJ: istjAgent,
-  ISFJ: isfjAgent,
-  ESTJ: estjAgent,
-  ESFJ: esfjAgent,
-  
-  // SP (Artisan)
-  ISTP: istpAgent,
-  ISFP: isfpAgent,
-  ESTP: estpAgent,
-  ESFP: esfpAgent,
-} as const;
+export { orchestratorAgent };
+
+// ペルソナエージェントファクトリー（カスタムペルソナの定義・読み込み・レジストリへの登録）
+export {
+  personaRegistry,
+  PersonaRegistry,
+  createPersonaAgent,
+  buildPersonaInstructions,
+  getPersonaAgentName,
+  loadPersonaFile,
+  loadPersonaDefinitions,
+  registerPersonaAgents,
+  getCustomPersonaAgents,
+  personaDefinitionSchema,
+  personaFileSchema,
+  type PersonaDefinition,
+  type PersonaDefinitionInput,
+  type RegisteredPersona
+} from './agent-factory';
+export { BUILTIN_PERSONAS } from './builtin-personas';
 
 /**
  * MBTIタイプに基づいてエージェントを取得
@@ -117,4 +97,4 @@ export function getAgentsByTypes(mbtiTypes: MBTIType[]): Record<string, Agent> {
  */
 export function getAllAgents(): Record<MBTIType, Agent> {
   return ALL_MBTI_AGENTS;
-} 
\ No newline at end of file
+}
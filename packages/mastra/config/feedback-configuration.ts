@@ -5,7 +5,8 @@ import type {
     OptimizationStrategy,
     PerformanceTarget,
     AdaptiveSettings,
-    FeedbackConfigurationUpdate
+    FeedbackConfigurationUpdate,
+    LLMJudgeSettings
 } from '../types/feedback-system-types';
 
 /**
@@ -107,6 +108,29 @@ export class FeedbackConfigurationBuilder {
         return this.withEvaluatorWeights({ progressTracking: weight });
     }
 
+    withLLMJudgeWeight(weight: number): this {
+        return this.withEvaluatorWeights({ llmJudge: weight });
+    }
+
+    /**
+     * 審判モデル評価器を有効化
+     * 他の評価器の重みを (1 - 審判の重み) 倍に縮小し、重みの合計を保つ
+     */
+    withLLMJudge(settings: LLMJudgeSettings = {}): this {
+        const judgeWeight = settings.weight ?? DEFAULT_LLM_JUDGE_WEIGHT;
+        const current = { ...DEFAULT_EVALUATOR_WEIGHTS, ...this.config.evaluatorWeights };
+        const scale = (1 - judgeWeight) / Math.max(1 - current.llmJudge, Number.EPSILON);
+
+        this.config.llmJudge = { ...settings, weight: judgeWeight };
+        return this.withEvaluatorWeights({
+            sevenDimension: current.sevenDimension * scale,
+            performance: current.performance * scale,
+            mbtiAlignment: current.mbtiAlignment * scale,
+            progressTracking: current.progressTracking * scale,
+            llmJudge: judgeWeight
+        });
+    }
+
     // ===========================================
     // 最適化戦略設定
     // ===========================================
@@ -403,9 +427,12 @@ export const DEFAULT_EVALUATOR_WEIGHTS: EvaluatorWeights = {
     sevenDimension: 0.4,
     performance: 0.3,
     mbtiAlignment: 0.25,
-    progressTracking: 0.05
+    progressTracking: 0.05,
+    llmJudge: 0 // 審判モデル評価器は withLLMJudge で有効化
 };
 
+export const DEFAULT_LLM_JUDGE_WEIGHT = 0.3;
+
 export const DEFAULT_PERFORMANCE_TARGET: PerformanceTarget = {
     responseTime: 2000, // 2秒
     accuracy: 0.85,
@@ -5,12 +5,80 @@ import type {
     EvaluatorType,
     EvaluatorConfig
 } from '../../types/feedback-system-types';
+import {
+    DEFAULT_DISCUSSION_LANGUAGE,
+    getLanguageProfile,
+    measureStatementLength,
+    splitSentences,
+    type DiscussionLanguage
+} from '../../utils/discussion-language';
 
 /**
  * 基本評価器の実装
  * 簡略版フィードバックシステム用
  */
 
+/**
+ * 言語別の評価キーワード
+ */
+interface EvaluatorLexicon {
+    typeKeywords: Record<string, string[]>;
+    defaultTypeKeywords: string[];
+    // 指標（I/E・N/S・T/F）ごとの特徴語
+    preferenceWords: Record<'I' | 'E' | 'N' | 'S' | 'T' | 'F', string[]>;
+    socialKeywords: string[];
+    unethicalKeywords: string[];
+}
+
+const EVALUATOR_LEXICONS: Record<DiscussionLanguage, EvaluatorLexicon> = {
+    ja: {
+        typeKeywords: {
+            'INTJ': ['計画', '戦略', '論理', '分析', '効率', '独立'],
+            'INFJ': ['理想', '洞察', '価値観', '調和', '深い', '意味'],
+            'ISTJ': ['責任', '実用的', '伝統', '安定', '計画', '信頼'],
+            'ISFJ': ['配慮', '支援', '伝統', '調和', '責任感', '協力'],
+            'ENTP': ['アイデア', '可能性', '革新', '議論', '創造', '柔軟'],
+            'ENFP': ['情熱', '創造', '人間関係', '可能性', '自由', 'インスピレーション'],
+            'ESTP': ['行動', '実用的', '現実', '柔軟', '適応', '体験'],
+            'ESFP': ['楽しい', '人間関係', '現在', '協力', '自由', '表現']
+        },
+        defaultTypeKeywords: ['思考', '分析', '協力', '創造'],
+        preferenceWords: {
+            I: ['考え', '分析', '思う'],
+            E: ['みんな', '一緒', '行動'],
+            N: ['可能性', 'アイデア', '未来'],
+            S: ['具体的', '実際', '現実'],
+            T: ['論理', '分析', '効率'],
+            F: ['価値', '調和', '配慮']
+        },
+        socialKeywords: ['協力', '配慮', '議論', '合意', 'みんな', '一緒'],
+        unethicalKeywords: ['差別', '偏見', '攻撃', '否定']
+    },
+    en: {
+        typeKeywords: {
+            'INTJ': ['plan', 'strategy', 'logic', 'analysis', 'efficien', 'independen'],
+            'INFJ': ['ideal', 'insight', 'values', 'harmony', 'deep', 'meaning'],
+            'ISTJ': ['responsib', 'practical', 'tradition', 'stab', 'plan', 'trust'],
+            'ISFJ': ['care', 'support', 'tradition', 'harmony', 'duty', 'cooperat'],
+            'ENTP': ['idea', 'possibilit', 'innovat', 'debate', 'creat', 'flexib'],
+            'ENFP': ['passion', 'creat', 'relationship', 'possibilit', 'freedom', 'inspir'],
+            'ESTP': ['action', 'practical', 'reality', 'flexib', 'adapt', 'experience'],
+            'ESFP': ['fun', 'relationship', 'right now', 'together', 'freedom', 'express']
+        },
+        defaultTypeKeywords: ['think', 'analy', 'cooperat', 'creat'],
+        preferenceWords: {
+            I: ['reflect', 'consider', 'i think'],
+            E: ['everyone', 'together', 'action'],
+            N: ['possibilit', 'idea', 'future'],
+            S: ['concrete', 'in practice', 'reality'],
+            T: ['logic', 'analy', 'efficien'],
+            F: ['value', 'harmony', 'care']
+        },
+        socialKeywords: ['cooperat', 'consider', 'discuss', 'agree', 'everyone', 'together'],
+        unethicalKeywords: ['discriminat', 'prejudice', 'attack', 'inferior']
+    }
+};
+
 /**
  * 基本評価器の抽象クラス
  */
@@ -48,14 +116,14 @@ abstract class BaseEvaluator implements QualityEvaluator {
     /**
      * 基本的なスコア計算
      */
-    protected calculateBasicScore(statement: string): number {
+    protected calculateBasicScore(statement: string, language?: DiscussionLanguage): number {
         if (!statement || statement.trim().length === 0) {
             return 0.1;
         }
 
-        const length = statement.trim().length;
+        const length = measureStatementLength(statement, language);
 
-        // 長さによる基本スコア (50-300文字が理想)
+        // 長さによる基本スコア (50-300文字が理想、英語等は日本語の文字数に換算)
         let lengthScore = 0.5;
         if (length >= 50 && length <= 300) {
             lengthScore = 0.9;
@@ -81,6 +149,18 @@ abstract class BaseEvaluator implements QualityEvaluator {
 
         return Math.min(1.0, matchCount / Math.max(1, keywords.length * 0.5));
     }
+
+    /**
+     * いずれかの語を含むか（大文字小文字を区別しない）
+     */
+    protected containsAny(statement: string, words: string[]): boolean {
+        const lowerStatement = statement.toLowerCase();
+        return words.some(word => lowerStatement.includes(word.toLowerCase()));
+    }
+
+    protected getLexicon(language?: DiscussionLanguage): EvaluatorLexicon {
+        return EVALUATOR_LEXICONS[language ?? DEFAULT_DISCUSSION_LANGUAGE];
+    }
 }
 
 /**
@@ -92,17 +172,17 @@ export class PerformanceEvaluator extends BaseEvaluator {
     }
 
     async evaluate(context: EvaluationContext): Promise<EvaluationResult> {
-        const { statement, topic } = context;
+        const { statement, topic, language } = context;
 
         // 基本スコア計算
-        const basicScore = this.calculateBasicScore(statement);
+        const basicScore = this.calculateBasicScore(statement, language);
 
         // トピック関連性チェック
         const topicKeywords = topic.split(/\s+/).filter(word => word.length > 2);
         const relevanceScore = this.analyzeKeywords(statement, topicKeywords);
 
         // 構造的品質（句読点、段落構成など）
-        const structureScore = this.evaluateStructure(statement);
+        const structureScore = this.evaluateStructure(statement, language);
 
         // 総合スコア
         const overallScore = (basicScore * 0.4 + relevanceScore * 0.4 + structureScore * 0.2);
@@ -124,13 +204,13 @@ export class PerformanceEvaluator extends BaseEvaluator {
         };
     }
 
-    private evaluateStructure(statement: string): number {
+    private evaluateStructure(statement: string, language?: DiscussionLanguage): number {
         if (!statement) return 0.0;
 
         let score = 0.5;
 
         // 句読点の適切な使用
-        const punctuationCount = (statement.match(/[。！？、]/g) || []).length;
+        const punctuationCount = (statement.match(getLanguageProfile(language).punctuation) || []).length;
         if (punctuationCount > 0) {
             score += 0.2;
         }
@@ -142,8 +222,8 @@ export class PerformanceEvaluator extends BaseEvaluator {
         }
 
         // 極端に長い文の回避
-        const sentences = statement.split(/[。！？]/).filter(s => s.trim().length > 0);
-        const averageSentenceLength = sentences.reduce((sum, s) => sum + s.length, 0) / sentences.length;
+        const sentences = splitSentences(statement, language);
+        const averageSentenceLength = sentences.reduce((sum, s) => sum + measureStatementLength(s, language), 0) / sentences.length;
         if (averageSentenceLength > 0 && averageSentenceLength < 100) {
             score += 0.2;
         }
@@ -194,11 +274,11 @@ export class MBTIAlignmentEvaluator extends BaseEvaluator {
     }
 
     async evaluate(context: EvaluationContext): Promise<EvaluationResult> {
-        const { statement, mbtiType } = context;
+        const { statement, mbtiType, language } = context;
 
         // MBTI特性に基づく評価
-        const alignmentScore = this.evaluateMBTIAlignment(statement, mbtiType);
-        const characteristicScore = this.evaluateCharacteristics(statement, mbtiType);
+        const alignmentScore = this.evaluateMBTIAlignment(statement, mbtiType, language);
+        const characteristicScore = this.evaluateCharacteristics(statement, mbtiType, language);
 
         const overallScore = (alignmentScore * 0.6 + characteristicScore * 0.4);
 
@@ -213,18 +293,18 @@ export class MBTIAlignmentEvaluator extends BaseEvaluator {
             suggestions: this.generateMBTISuggestions(mbtiType, alignmentScore),
             metadata: {
                 mbtiType,
-                detectedCharacteristics: this.detectCharacteristics(statement, mbtiType)
+                detectedCharacteristics: this.detectCharacteristics(statement, mbtiType, language)
             }
         };
     }
 
-    private evaluateMBTIAlignment(statement: string, mbtiType: string): number {
-        const characteristics = this.getMBTICharacteristics(mbtiType);
+    private evaluateMBTIAlignment(statement: string, mbtiType: string, language?: DiscussionLanguage): number {
+        const characteristics = this.getMBTICharacteristics(mbtiType, language);
         return this.analyzeKeywords(statement, characteristics.keywords);
     }
 
-    private evaluateCharacteristics(statement: string, mbtiType: string): number {
-        const characteristics = this.getMBTICharacteristics(mbtiType);
+    private evaluateCharacteristics(statement: string, mbtiType: string, language?: DiscussionLanguage): number {
+        const { preferenceWords } = this.getLexicon(language);
 
         // 思考スタイルの評価
         let score = 0.5;
@@ -232,12 +312,12 @@ export class MBTIAlignmentEvaluator extends BaseEvaluator {
         // 内向型(I)vs外向型(E)の評価
         if (mbtiType.startsWith('I')) {
             // 内向型: 深い思考、内省的
-            if (statement.includes('考え') || statement.includes('分析') || statement.includes('思う')) {
+            if (this.containsAny(statement, preferenceWords.I)) {
                 score += 0.2;
             }
         } else {
             // 外向型: 行動的、社交的
-            if (statement.includes('みんな') || statement.includes('一緒') || statement.includes('行動')) {
+            if (this.containsAny(statement, preferenceWords.E)) {
                 score += 0.2;
             }
         }
@@ -245,12 +325,12 @@ export class MBTIAlignmentEvaluator extends BaseEvaluator {
         // 直感型(N)vs感覚型(S)の評価
         if (mbtiType.includes('N')) {
             // 直感型: 可能性、未来志向
-            if (statement.includes('可能性') || statement.includes('アイデア') || statement.includes('未来')) {
+            if (this.containsAny(statement, preferenceWords.N)) {
                 score += 0.15;
             }
         } else {
             // 感覚型: 具体性、現実的
-            if (statement.includes('具体的') || statement.includes('実際') || statement.includes('現実')) {
+            if (this.containsAny(statement, preferenceWords.S)) {
                 score += 0.15;
             }
         }
@@ -258,12 +338,12 @@ export class MBTIAlignmentEvaluator extends BaseEvaluator {
         // 思考型(T)vs感情型(F)の評価
         if (mbtiType.includes('T')) {
             // 思考型: 論理的、客観的
-            if (statement.includes('論理') || statement.includes('分析') || statement.includes('効率')) {
+            if (this.containsAny(statement, preferenceWords.T)) {
                 score += 0.15;
             }
         } else {
             // 感情型: 価値観、調和
-            if (statement.includes('価値') || statement.includes('調和') || statement.includes('配慮')) {
+            if (this.containsAny(statement, preferenceWords.F)) {
                 score += 0.15;
             }
         }
@@ -271,26 +351,17 @@ export class MBTIAlignmentEvaluator extends BaseEvaluator {
         return Math.min(1.0, score);
     }
 
-    private getMBTICharacteristics(mbtiType: string): { keywords: string[] } {
+    private getMBTICharacteristics(mbtiType: string, language?: DiscussionLanguage): { keywords: string[] } {
         // 簡略版のMBTI特性キーワード
-        const characteristics: Record<string, string[]> = {
-            'INTJ': ['計画', '戦略', '論理', '分析', '効率', '独立'],
-            'INFJ': ['理想', '洞察', '価値観', '調和', '深い', '意味'],
-            'ISTJ': ['責任', '実用的', '伝統', '安定', '計画', '信頼'],
-            'ISFJ': ['配慮', '支援', '伝統', '調和', '責任感', '協力'],
-            'ENTP': ['アイデア', '可能性', '革新', '議論', '創造', '柔軟'],
-            'ENFP': ['情熱', '創造', '人間関係', '可能性', '自由', 'インスピレーション'],
-            'ESTP': ['行動', '実用的', '現実', '柔軟', '適応', '体験'],
-            'ESFP': ['楽しい', '人間関係', '現在', '協力', '自由', '表現']
-        };
+        const lexicon = this.getLexicon(language);
 
         return {
-            keywords: characteristics[mbtiType] || ['思考', '分析', '協力', '創造']
+            keywords: lexicon.typeKeywords[mbtiType] || lexicon.defaultTypeKeywords
         };
     }
 
-    private detectCharacteristics(statement: string, mbtiType: string): string[] {
-        const characteristics = this.getMBTICharacteristics(mbtiType);
+    private detectCharacteristics(statement: string, mbtiType: string, language?: DiscussionLanguage): string[] {
+        const characteristics = this.getMBTICharacteristics(mbtiType, language);
         return characteristics.keywords.filter(keyword =>
             statement.toLowerCase().includes(keyword.toLowerCase())
         );
@@ -333,17 +404,17 @@ export class SevenDimensionEvaluator extends BaseEvaluator {
     }
 
     async evaluate(context: EvaluationContext): Promise<EvaluationResult> {
-        const { statement, topic, mbtiType } = context;
+        const { statement, topic, mbtiType, language } = context;
 
         // 7次元の簡略評価
         const dimensions = {
-            performance: this.calculateBasicScore(statement),
-            psychological: this.evaluatePsychological(statement, mbtiType),
+            performance: this.calculateBasicScore(statement, language),
+            psychological: this.evaluatePsychological(statement, mbtiType, language),
             externalAlignment: this.evaluateAlignment(statement, topic),
-            internalConsistency: this.evaluateConsistency(statement),
-            socialDecisionMaking: this.evaluateSocial(statement),
-            contentQuality: this.evaluateContent(statement),
-            ethics: this.evaluateEthics(statement)
+            internalConsistency: this.evaluateConsistency(statement, language),
+            socialDecisionMaking: this.evaluateSocial(statement, language),
+            contentQuality: this.evaluateContent(statement, language),
+            ethics: this.evaluateEthics(statement, language)
         };
 
         // 重み付き平均
@@ -375,9 +446,9 @@ export class SevenDimensionEvaluator extends BaseEvaluator {
         };
     }
 
-    private evaluatePsychological(statement: string, mbtiType: string): number {
+    private evaluatePsychological(statement: string, mbtiType: string, language?: DiscussionLanguage): number {
         // 心理的適切性の簡易評価
-        return this.calculateBasicScore(statement) * 0.8 + 0.2;
+        return this.calculateBasicScore(statement, language) * 0.8 + 0.2;
     }
 
     private evaluateAlignment(statement: string, topic: string): number {
@@ -386,28 +457,24 @@ export class SevenDimensionEvaluator extends BaseEvaluator {
         return this.analyzeKeywords(statement, topicWords);
     }
 
-    private evaluateConsistency(statement: string): number {
+    private evaluateConsistency(statement: string, language?: DiscussionLanguage): number {
         // 内部一貫性の簡易評価
-        return statement.length > 20 ? 0.8 : 0.5;
+        return measureStatementLength(statement, language) > 20 ? 0.8 : 0.5;
     }
 
-    private evaluateSocial(statement: string): number {
+    private evaluateSocial(statement: string, language?: DiscussionLanguage): number {
         // 社会的意思決定の評価
-        const socialKeywords = ['協力', '配慮', '議論', '合意', 'みんな', '一緒'];
-        return this.analyzeKeywords(statement, socialKeywords) * 0.5 + 0.5;
+        return this.analyzeKeywords(statement, this.getLexicon(language).socialKeywords) * 0.5 + 0.5;
     }
 
-    private evaluateContent(statement: string): number {
+    private evaluateContent(statement: string, language?: DiscussionLanguage): number {
         // コンテンツ品質
-        return this.calculateBasicScore(statement);
+        return this.calculateBasicScore(statement, language);
     }
 
-    private evaluateEthics(statement: string): number {
+    private evaluateEthics(statement: string, language?: DiscussionLanguage): number {
         // 倫理性（否定的な表現の検出）
-        const negativeKeywords = ['差別', '偏見', '攻撃', '否定'];
-        const hasNegative = negativeKeywords.some(keyword =>
-            statement.toLowerCase().includes(keyword)
-        );
+        const hasNegative = this.containsAny(statement, this.getLexicon(language).unethicalKeywords);
         return hasNegative ? 0.3 : 0.9;
     }
 
@@ -0,0 +1,357 @@
+import { Agent } from '@mastra/core/agent';
+import type { LanguageModelV1 } from '@ai-sdk/provider';
+import { z } from 'zod';
+
+import type {
+    QualityEvaluator,
+    EvaluationContext,
+    EvaluationResult,
+    EvaluatorType,
+    EvaluatorConfig,
+    LLMJudgeSettings,
+    SevenDimensionKey
+} from '../../types/feedback-system-types';
+import {
+    llmProviderRegistry,
+    llmSelectionSchema,
+    resolveAgentModel,
+    type LLMSelection
+} from '../../utils/llm-provider-registry';
+import { DEFAULT_DISCUSSION_LANGUAGE, type DiscussionLanguage } from '../../utils/discussion-language';
+import { DEFAULT_LLM_JUDGE_WEIGHT } from '../../config/feedback-configuration';
+import type { LLMUsageTracker } from '../../utils/llm-usage';
+
+/**
+ * 審判モデル評価器（LLM-as-judge）
+ * 7次元それぞれをルーブリックに沿って審判モデルに採点させ、根拠とともに返す
+ * 同じ発言の再評価（再採点・評価のやり直し）は発言単位のキャッシュから返す
+ */
+
+// ===========================================
+// 設定
+// ===========================================
+
+/**
+ * 審判モデル評価器の設定スキーマ（ワークフロー入力用）
+ */
+export const llmJudgeSettingsSchema = z.object({
+    model: llmSelectionSchema.optional().describe('Judge model (default: M_ADS_JUDGE_PROVIDER / M_ADS_JUDGE_MODEL, or the orchestrator model)'),
+    weight: z.number().min(0).max(1).optional().describe('Weight of the judge in the evaluator chain (default: 0.3)'),
+    cacheSize: z.number().int().positive().optional().describe('Maximum number of cached statement gradings')
+});
+
+const DEFAULT_CACHE_SIZE = 256;
+
+// 総合スコアの次元別重み（SevenDimensionEvaluator と同じ配分）
+const DIMENSION_WEIGHTS: Record<SevenDimensionKey, number> = {
+    performance: 0.15,
+    psychological: 0.15,
+    externalAlignment: 0.15,
+    internalConsistency: 0.15,
+    socialDecisionMaking: 0.1,
+    contentQuality: 0.2,
+    ethics: 0.1
+};
+
+const SEVEN_DIMENSIONS = Object.keys(DIMENSION_WEIGHTS) as SevenDimensionKey[];
+
+// ===========================================
+// ルーブリック
+// ===========================================
+
+interface DimensionRubric {
+    name: string;
+    // 1・3・5点の基準
+    levels: [string, string, string];
+}
+
+interface JudgePromptText {
+    system: string;
+    rubric: Record<SevenDimensionKey, DimensionRubric>;
+    request: (context: EvaluationContext) => string;
+}
+
+const JUDGE_PROMPTS: Record<DiscussionLanguage, JudgePromptText> = {
+    ja: {
+        system: 'あなたは多人数議論の発言品質を採点する厳格な審査員です。ルーブリックに従って各次元を1〜5の整数で採点し、指定されたJSONのみを出力してください。',
+        rubric: {
+            performance: { name: '論証の質', levels: ['主張が曖昧で根拠がない', '主張は明確だが根拠が部分的', '明確な主張を具体的な根拠と推論で支えている'] },
+            psychological: { name: '心理的適切性', levels: ['発言者のMBTIタイプの思考様式と矛盾する', 'タイプらしさが一部に表れている', 'タイプの認知特性が自然に議論へ活かされている'] },
+            externalAlignment: { name: '外部整合性', levels: ['トピックから逸脱している', 'トピックに関連するが焦点が広い', 'トピックの核心に直接応答している'] },
+            internalConsistency: { name: '内部一貫性', levels: ['主張同士が矛盾している', '概ね一貫しているが飛躍がある', '前提から結論まで一貫している'] },
+            socialDecisionMaking: { name: '社会的意思決定', levels: ['他者の意見を無視・否定するだけ', '他者の意見に触れている', '他者の意見を踏まえ合意形成に貢献している'] },
+            contentQuality: { name: '内容の質', levels: ['新しい情報や視点がない', '妥当だが一般的な内容', '具体的で独自の洞察がある'] },
+            ethics: { name: '倫理性', levels: ['差別・攻撃的・有害な内容を含む', '配慮に欠ける表現がある', '公正で敬意のある表現'] }
+        },
+        request: ({ topic, mbtiType, phase, statement }) => `
+**トピック**: ${topic}
+**発言者**: ${mbtiType}（議論フェーズ: ${phase}）
+
+**発言**:
+${statement}
+
+次の形式のJSONのみで回答してください（rationale・summary・suggestions は日本語）:
+{"dimensions": {"<次元キー>": {"score": 1-5, "rationale": "採点根拠（1文）"}, ...}, "summary": "総評（1文）", "suggestions": ["改善提案", ...]}
+次元キー: ${SEVEN_DIMENSIONS.join(', ')}
+`
+    },
+    en: {
+        system: 'You are a strict judge grading the quality of statements in a multi-party discussion. Grade every dimension with an integer from 1 to 5 following the rubric and output only the requested JSON.',
+        rubric: {
+            performance: { name: 'Argument quality', levels: ['Vague claim without support', 'Clear claim with partial support', 'Clear claim backed by concrete evidence and reasoning'] },
+            psychological: { name: 'Psychological fit', levels: ['Contradicts the thinking style of the speaker\'s MBTI type', 'Some traits of the type show', 'The type\'s cognitive traits are naturally put to use'] },
+            externalAlignment: { name: 'External alignment', levels: ['Drifts away from the topic', 'Related to the topic but unfocused', 'Directly addresses the core of the topic'] },
+            internalConsistency: { name: 'Internal consistency', levels: ['Claims contradict each other', 'Mostly consistent with some leaps', 'Consistent from premises to conclusion'] },
+            socialDecisionMaking: { name: 'Social decision-making', levels: ['Ignores or dismisses others', 'Acknowledges others\' views', 'Builds on others\' views and moves toward agreement'] },
+            contentQuality: { name: 'Content quality', levels: ['No new information or perspective', 'Sound but generic', 'Specific, original insight'] },
+            ethics: { name: 'Ethics', levels: ['Discriminatory, hostile or harmful', 'Some inconsiderate wording', 'Fair and respectful'] }
+        },
+        request: ({ topic, mbtiType, phase, statement }) => `
+**Topic**: ${topic}
+**Speaker**: ${mbtiType} (discussion phase: ${phase})
+
+**Statement**:
+${statement}
+
+Answer only with JSON in the following form (rationale, summary and suggestions in English):
+{"dimensions": {"<dimension key>": {"score": 1-5, "rationale": "reason for the score (one sentence)"}, ...}, "summary": "overall assessment (one sentence)", "suggestions": ["improvement", ...]}
+Dimension keys: ${SEVEN_DIMENSIONS.join(', ')}
+`
+    }
+};
+
+/**
+ * ルーブリックをプロンプト用に整形
+ */
+function formatRubric(text: JudgePromptText): string {
+    return SEVEN_DIMENSIONS.map(key => {
+        const { name, levels } = text.rubric[key];
+        return `- ${key}（${name}）: 1=${levels[0]} / 3=${levels[1]} / 5=${levels[2]}`;
+    }).join('\n');
+}
+
+// ===========================================
+// 審判モデルの応答
+// ===========================================
+
+const judgeDimensionSchema = z.object({
+    score: z.coerce.number().min(1).max(5),
+    rationale: z.string().default('')
+});
+
+const judgeResponseSchema = z.object({
+    dimensions: z.object({
+        performance: judgeDimensionSchema,
+        psychological: judgeDimensionSchema,
+        externalAlignment: judgeDimensionSchema,
+        internalConsistency: judgeDimensionSchema,
+        socialDecisionMaking: judgeDimensionSchema,
+        contentQuality: judgeDimensionSchema,
+        ethics: judgeDimensionSchema
+    }),
+    summary: z.string().default(''),
+    suggestions: z.array(z.string()).default([])
+});
+
+type JudgeResponse = z.infer<typeof judgeResponseSchema>;
+
+/**
+ * 応答テキストからJSONを取り出して検証（コードブロックや前置きは無視）
+ */
+export function parseJudgeResponse(text: string): JudgeResponse {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+        throw new Error('審判モデルの応答にJSONが含まれていません');
+    }
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text.slice(start, end + 1));
+    } catch (error) {
+        throw new Error(`審判モデルの応答JSONを解析できません: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const parsed = judgeResponseSchema.safeParse(raw);
+    if (!parsed.success) {
+        throw new Error(`審判モデルの応答が採点形式と一致しません: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')}`);
+    }
+    return parsed.data;
+}
+
+// ===========================================
+// 評価器
+// ===========================================
+
+/**
+ * 審判モデルを解決（明示指定 → 環境変数 → オーケストレーターのモデル）
+ */
+function resolveJudgeModel(selection?: LLMSelection): LanguageModelV1 {
+    if (selection) {
+        return llmProviderRegistry.createModel(selection, 'ORCHESTRATOR');
+    }
+
+    const provider = process.env.M_ADS_JUDGE_PROVIDER;
+    if (provider) {
+        return llmProviderRegistry.createModel({ provider, model: process.env.M_ADS_JUDGE_MODEL || undefined }, 'ORCHESTRATOR');
+    }
+    return resolveAgentModel('ORCHESTRATOR');
+}
+
+/**
+ * 審判モデル評価器
+ * 審判モデルの呼び出しに失敗した場合は例外を投げ、評価器チェーン側で他の評価器の結果のみを統合する
+ */
+export class LLMJudgeEvaluator implements QualityEvaluator {
+    private weight: number;
+    private enabled = true;
+    private config: EvaluatorConfig;
+    private readonly settings: LLMJudgeSettings;
+    private readonly cacheSize: number;
+    private readonly usageTracker?: LLMUsageTracker;
+    // 発言単位の採点キャッシュ（挿入順で古いものから破棄、採点中の同一発言は同じ Promise を共有）
+    private readonly cache = new Map<string, Promise<EvaluationResult>>();
+    private judge?: Agent;
+
+    /**
+     * @param usageTracker 審判モデルの呼び出し（キャッシュ済みの再評価を除く）を記録する使用量トラッカー
+     */
+    constructor(
+        settings: LLMJudgeSettings = {},
+        weight: number = settings.weight ?? DEFAULT_LLM_JUDGE_WEIGHT,
+        usageTracker?: LLMUsageTracker
+    ) {
+        this.settings = settings;
+        this.weight = weight;
+        this.usageTracker = usageTracker;
+        this.cacheSize = settings.cacheSize ?? DEFAULT_CACHE_SIZE;
+        this.config = {
+            weight,
+            thresholds: {},
+            enabled: true
+        };
+    }
+
+    getType(): EvaluatorType {
+        return 'llm-judge';
+    }
+
+    getWeight(): number {
+        return this.weight;
+    }
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    configure(config: EvaluatorConfig): void {
+        this.config = { ...this.config, ...config };
+        this.weight = config.weight;
+        this.enabled = config.enabled;
+    }
+
+    async evaluate(context: EvaluationContext): Promise<EvaluationResult> {
+        const key = this.getCacheKey(context);
+        const cached = this.cache.get(key);
+        if (cached) {
+            return cached;
+        }
+
+        const evaluation = this.grade(context);
+        this.cache.set(key, evaluation);
+        if (this.cache.size > this.cacheSize) {
+            this.cache.delete(this.cache.keys().next().value as string);
+        }
+
+        // 失敗した採点はキャッシュせず次回再試行する
+        evaluation.catch(() => this.cache.delete(key));
+        return evaluation;
+    }
+
+    /**
+     * 採点キャッシュをクリア
+     */
+    clearCache(): void {
+        this.cache.clear();
+    }
+
+    getCacheSize(): number {
+        return this.cache.size;
+    }
+
+    /**
+     * 審判モデルで採点
+     */
+    private async grade(context: EvaluationContext): Promise<EvaluationResult> {
+        const language = context.language ?? DEFAULT_DISCUSSION_LANGUAGE;
+        const text = JUDGE_PROMPTS[language];
+
+        const startedAt = Date.now();
+        const response = await this.getJudge().generate([
+            {
+                role: 'system',
+                content: `${text.system}\n\n${formatRubric(text)}`
+            },
+            {
+                role: 'user',
+                content: text.request(context)
+            }
+        ]);
+        this.usageTracker?.recordResponse(response, { agent: 'JUDGE', purpose: 'judge', latencyMs: Date.now() - startedAt });
+
+        const judgement = parseJudgeResponse(response.text);
+        return this.toEvaluationResult(judgement);
+    }
+
+    /**
+     * 1〜5点の採点を0〜1のスコアへ変換して評価結果にする
+     */
+    private toEvaluationResult(judgement: JudgeResponse): EvaluationResult {
+        const breakdown = {} as Record<SevenDimensionKey, number>;
+        const rubricScores = {} as Record<SevenDimensionKey, number>;
+        const rationales = {} as Record<SevenDimensionKey, string>;
+
+        SEVEN_DIMENSIONS.forEach(key => {
+            const { score, rationale } = judgement.dimensions[key];
+            const rubricScore = Math.round(score);
+            rubricScores[key] = rubricScore;
+            breakdown[key] = (rubricScore - 1) / 4;
+            rationales[key] = rationale;
+        });
+
+        const overallScore = SEVEN_DIMENSIONS.reduce(
+            (sum, key) => sum + breakdown[key] * DIMENSION_WEIGHTS[key],
+            0
+        );
+
+        return {
+            score: overallScore,
+            confidence: 0.9,
+            breakdown,
+            feedback: judgement.summary,
+            suggestions: judgement.suggestions,
+            metadata: {
+                rubricScores,
+                rationales,
+                judgeModel: this.settings.model
+                    ? `${this.settings.model.provider}${this.settings.model.model ? `:${this.settings.model.model}` : ''}`
+                    : process.env.M_ADS_JUDGE_PROVIDER ?? 'orchestrator'
+            }
+        };
+    }
+
+    private getJudge(): Agent {
+        if (!this.judge) {
+            this.judge = new Agent({
+                name: 'LLM-Judge',
+                instructions: JUDGE_PROMPTS[DEFAULT_DISCUSSION_LANGUAGE].system,
+                model: resolveJudgeModel(this.settings.model)
+            });
+        }
+        return this.judge;
+    }
+
+    private getCacheKey(context: EvaluationContext): string {
+        return [context.language ?? DEFAULT_DISCUSSION_LANGUAGE, context.mbtiType, context.phase, context.topic, context.statement].join('\u0000');
+    }
+}
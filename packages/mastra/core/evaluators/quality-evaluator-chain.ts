@@ -5,20 +5,50 @@ import type {
     QualityScores,
     QualityBreakdown,
     EvaluatorType,
-    EvaluatorConfig
+    EvaluatorConfig,
+    EvaluatorWeights,
+    SevenDimensionKey
 } from '../../types/feedback-system-types';
+import { discussionLogger, type DiscussionLogger } from '../../utils/discussion-logger';
 
 /**
  * 品質評価器チェーンシステム
  * Strategy パターンによる交換可能な評価アルゴリズム
  */
 
+// 評価器重み設定のキー → 評価器タイプ
+const EVALUATOR_WEIGHT_TYPES: Record<keyof EvaluatorWeights, EvaluatorType> = {
+    sevenDimension: 'seven-dimension',
+    performance: 'performance',
+    mbtiAlignment: 'mbti-alignment',
+    progressTracking: 'progress-tracking',
+    llmJudge: 'llm-judge'
+};
+
+const SEVEN_DIMENSION_KEYS: SevenDimensionKey[] = [
+    'performance',
+    'psychological',
+    'externalAlignment',
+    'internalConsistency',
+    'socialDecisionMaking',
+    'contentQuality',
+    'ethics'
+];
+
 export class QualityEvaluatorChain {
     private evaluators: Map<EvaluatorType, QualityEvaluator> = new Map();
     private evaluationOrder: EvaluatorType[] = [];
     private lastEvaluation?: ChainEvaluationResult;
+    private logger: DiscussionLogger;
 
-    constructor(evaluators: QualityEvaluator[] = []) {
+    /**
+     * @param logger 構造化ロガー（未指定時はルートロガー）
+     */
+    constructor(
+        evaluators: QualityEvaluator[] = [],
+        logger: DiscussionLogger = discussionLogger.child({ component: 'QualityEvaluatorChain' })
+    ) {
+        this.logger = logger;
         evaluators.forEach(evaluator => this.addEvaluator(evaluator));
     }
 
@@ -70,6 +100,18 @@ export class QualityEvaluatorChain {
         return false;
     }
 
+    /**
+     * 評価器重み設定（EvaluatorWeights）を登録済みの評価器へ反映
+     */
+    updateWeights(weights: Partial<EvaluatorWeights>): void {
+        Object.entries(weights).forEach(([key, weight]) => {
+            const evaluator = this.evaluators.get(EVALUATOR_WEIGHT_TYPES[key as keyof EvaluatorWeights]);
+            if (evaluator && weight !== undefined) {
+                evaluator.configure({ weight, thresholds: {}, enabled: evaluator.isEnabled() });
+            }
+        });
+    }
+
     /**
      * すべての評価器設定を更新
      */
@@ -104,7 +146,11 @@ export class QualityEvaluatorChain {
                     const result = await evaluator.evaluate(context);
                     results.set(evaluator.getType(), result);
                 } catch (error) {
-                    console.error(`評価器 ${evaluator.getType()} でエラー:`, error);
+                    this.logger.error(`❌ 評価器 ${evaluator.getType()} でエラー:`, {
+                        mbtiType: context.mbtiType,
+                        evaluator: evaluator.getType(),
+                        error
+                    });
                     errors.set(evaluator.getType(), error as Error);
                 }
             });
@@ -196,10 +242,29 @@ export class QualityEvaluatorChain {
             contentQuality: dimensionScores.contentQuality,
             mbtiAlignment: dimensionScores.mbtiAlignment,
             overallScore,
-            breakdown
+            breakdown,
+            judgedDimensions: this.extractJudgedDimensions(results)
         };
     }
 
+    /**
+     * 審判モデル評価器の7次元スコアを抽出（審判評価器の結果がなければ undefined）
+     */
+    private extractJudgedDimensions(
+        results: Map<EvaluatorType, EvaluationResult>
+    ): QualityScores['judgedDimensions'] {
+        const judged = results.get('llm-judge');
+        if (!judged) return undefined;
+
+        const dimensions: Partial<Record<SevenDimensionKey, number>> = {};
+        SEVEN_DIMENSION_KEYS.forEach(key => {
+            if (typeof judged.breakdown[key] === 'number') {
+                dimensions[key] = judged.breakdown[key];
+            }
+        });
+        return dimensions;
+    }
+
     /**
      * 次元別スコアを抽出
      */
@@ -223,11 +288,11 @@ export class QualityEvaluatorChain {
         results: Map<EvaluatorType, EvaluationResult>,
         dimension: string
     ): number | undefined {
-        // 評価器タイプから次元スコアをマッピング
+        // 評価器タイプから次元スコアをマッピング（審判モデルの採点を優先）
         const typeMapping: Record<string, EvaluatorType[]> = {
-            performance: ['performance', 'seven-dimension'],
-            psychological: ['mbti-alignment', 'seven-dimension'],
-            contentQuality: ['seven-dimension', 'performance'],
+            performance: ['llm-judge', 'performance', 'seven-dimension'],
+            psychological: ['llm-judge', 'mbti-alignment', 'seven-dimension'],
+            contentQuality: ['llm-judge', 'seven-dimension', 'performance'],
             mbtiAlignment: ['mbti-alignment']
         };
 
@@ -6,6 +6,7 @@ import type {
 } from '../../types/feedback-system-types';
 
 import type { MBTIType } from '../../types/mbti-types';
+import { discussionLogger, type DiscussionLogger } from '../../utils/discussion-logger';
 
 /**
  * イベントタイプ定義
@@ -74,8 +75,13 @@ export class EventBus {
   // 設定
   private readonly MAX_HISTORY_SIZE = 1000;
   private readonly MAX_QUEUE_SIZE = 100;
+  private logger: DiscussionLogger;
 
-  constructor() {
+  /**
+   * @param logger 構造化ロガー（未指定時はルートロガー）
+   */
+  constructor(logger: DiscussionLogger = discussionLogger.child({ component: 'EventBus' })) {
+    this.logger = logger;
     this.listeners = new Map();
     this.eventHistory = [];
 
@@ -120,7 +126,7 @@ export class EventBus {
 
     listeners.splice(insertIndex, 0, registration);
 
-    console.log(`📡 イベントリスナー登録: ${eventType} (${listenerId})`);
+    this.logger.debug(`📡 イベントリスナー登録: ${eventType} (${listenerId})`, { eventType, listenerId });
 
     return listenerId;
   }
@@ -154,7 +160,7 @@ export class EventBus {
       this.listeners.delete(eventType);
     }
 
-    console.log(`📡 イベントリスナー削除: ${eventType} (${listenerId})`);
+    this.logger.debug(`📡 イベントリスナー削除: ${eventType} (${listenerId})`, { eventType, listenerId });
 
     return true;
   }
@@ -217,10 +223,10 @@ export class EventBus {
   removeAllListeners(eventType?: EventType): void {
     if (eventType) {
       this.listeners.delete(eventType);
-      console.log(`📡 全リスナー削除: ${eventType}`);
+      this.logger.debug(`📡 全リスナー削除: ${eventType}`, { eventType });
     } else {
       this.listeners.clear();
-      console.log('📡 全イベントリスナーを削除');
+      this.logger.debug('📡 全イベントリスナーを削除');
     }
   }
 
@@ -291,7 +297,10 @@ export class EventBus {
   private registerDefaultListeners(): void {
     // 評価完了イベントの処理
     this.on('evaluation_completed', async (data: { mbtiType: MBTIType; scores: QualityScores }) => {
-      console.log(`✅ 評価完了: ${data.mbtiType} - スコア: ${data.scores.overallScore.toFixed(3)}`);
+      this.logger.debug(`✅ 評価完了: ${data.mbtiType} - スコア: ${data.scores.overallScore.toFixed(3)}`, {
+        mbtiType: data.mbtiType,
+        score: data.scores.overallScore
+      });
 
       // 品質閾値チェック
       if (data.scores.overallScore < 0.6) {
@@ -306,17 +315,19 @@ export class EventBus {
 
     // フィードバック生成イベントの処理
     this.on('feedback_generated', async (data: { mbtiType: MBTIType; feedback: unknown }) => {
-      console.log(`💬 フィードバック生成: ${data.mbtiType}`);
+      this.logger.debug(`💬 フィードバック生成: ${data.mbtiType}`, { mbtiType: data.mbtiType });
     }, { priority: 8 });
 
     // 最適化完了イベントの処理
     this.on('optimization_completed', async (data: { result: OptimizationResult }) => {
-      console.log(`🔧 最適化完了: 品質改善 ${(data.result.qualityImprovement * 100).toFixed(1)}%`);
+      this.logger.info(`🔧 最適化完了: 品質改善 ${(data.result.qualityImprovement * 100).toFixed(1)}%`, {
+        qualityImprovement: data.result.qualityImprovement
+      });
     }, { priority: 8 });
 
     // エラーイベントの処理
     this.on('system_error', async (data: { error: Error; context: string }) => {
-      console.error(`❌ システムエラー [${data.context}]:`, data.error);
+      this.logger.error(`❌ システムエラー [${data.context}]:`, { context: data.context, error: data.error });
     }, { priority: 100 });
 
     // 品質閾値超過アラート
@@ -327,13 +338,16 @@ export class EventBus {
       severity: 'info' | 'warning' | 'critical'
     }) => {
       const emoji = data.severity === 'critical' ? '🚨' : data.severity === 'warning' ? '⚠️' : 'ℹ️';
-      console.log(`${emoji} 品質閾値アラート: ${data.mbtiType} スコア${data.score.toFixed(3)} < 閾値${data.threshold}`);
+      this.logger[data.severity === 'info' ? 'info' : 'warn'](
+        `${emoji} 品質閾値アラート: ${data.mbtiType} スコア${data.score.toFixed(3)} < 閾値${data.threshold}`,
+        { mbtiType: data.mbtiType, score: data.score, threshold: data.threshold, severity: data.severity }
+      );
     }, { priority: 20 });
   }
 
   private async enqueueEvent(event: InternalEvent): Promise<void> {
     if (this.eventQueue.length >= this.MAX_QUEUE_SIZE) {
-      console.warn('⚠️ イベントキューが満杯です。古いイベントを削除します。');
+      this.logger.warn('⚠️ イベントキューが満杯です。古いイベントを削除します。', { queueSize: this.eventQueue.length });
       this.eventQueue.shift();
     }
 
@@ -364,7 +378,7 @@ export class EventBus {
         await this.processEvent(event);
       }
     } catch (error) {
-      console.error('❌ イベント処理エラー:', error);
+      this.logger.error('❌ イベント処理エラー:', { error });
     } finally {
       this.isProcessing = false;
     }
@@ -400,7 +414,7 @@ export class EventBus {
         }
 
       } catch (error) {
-        console.error(`❌ リスナー実行エラー [${event.type}]:`, error);
+        this.logger.error(`❌ リスナー実行エラー [${event.type}]:`, { eventType: event.type, error });
       }
     }
 
@@ -433,7 +447,7 @@ export class EventBus {
         const result = registration.listener(event.data);
 
         if (result instanceof Promise) {
-          console.warn('⚠️ 同期イベントで非同期リスナーが呼ばれました');
+          this.logger.warn('⚠️ 同期イベントで非同期リスナーが呼ばれました', { eventType: event.type });
         }
 
         // 一回限りリスナーの場合は削除予約
@@ -442,7 +456,7 @@ export class EventBus {
         }
 
       } catch (error) {
-        console.error(`❌ 同期リスナー実行エラー [${event.type}]:`, error);
+        this.logger.error(`❌ 同期リスナー実行エラー [${event.type}]:`, { eventType: event.type, error });
       }
     }
 
@@ -503,6 +517,6 @@ export class EventBus {
     this.eventHistory.length = 0;
     this.isProcessing = false;
 
-    console.log('🔌 EventBus stopped');
+    this.logger.debug('🔌 EventBus stopped');
   }
 }
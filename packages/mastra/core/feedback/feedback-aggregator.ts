@@ -6,6 +6,7 @@ import type {
   EvaluationContext,
   FeedbackAggregationInput,
   AdaptivePromptParams,
+  DiscussionPhase,
   ProgressTrend,
   MBTIAlignmentAnalysis,
   ProgressTracking,
@@ -14,6 +15,12 @@ import type {
 
 import type { MBTIType } from '../../types/mbti-types';
 import { MBTI_COGNITIVE_FUNCTIONS } from '../../utils/mbti-characteristics';
+import {
+  DEFAULT_DISCUSSION_LANGUAGE,
+  measureStatementLength,
+  type DiscussionLanguage
+} from '../../utils/discussion-language';
+import { discussionLogger, type DiscussionLogger } from '../../utils/discussion-logger';
 
 /**
  * フィードバック統合データ
@@ -25,6 +32,111 @@ interface FeedbackAggregationData {
   historicalData?: unknown;
 }
 
+/**
+ * 言語別のプロンプト・改善提案テキスト（エージェントへのプロンプトに含まれる文言）
+ */
+interface AggregatorText {
+  phaseInstructions: Record<DiscussionPhase, string>;
+  basePrompt: (mbtiType: MBTIType, topic: string, instruction: string) => string;
+  fallbackPrompt: (mbtiType: MBTIType, topic: string) => string;
+  focusOnAreas: (areas: string[]) => string;
+  progressImproving: string;
+  progressDeclining: string;
+  weightHigh: string;
+  weightLow: string;
+  improveStructure: string;
+  improveContent: string;
+  // 日本語は改善戦略、それ以外は認知機能で特性を示す
+  mbtiImprovement: (mbtiType: MBTIType, strategies: string[]) => string;
+  weaknessImprovements: { structure: string; specificity: string; characteristics: string; general: string };
+}
+
+const AGGREGATOR_TEXT: Record<DiscussionLanguage, AggregatorText> = {
+  ja: {
+    phaseInstructions: {
+      'initial': '初期の見解を述べてください',
+      'interaction': '他の意見を踏まえて議論してください',
+      'synthesis': 'これまでの議論を統合してください',
+      'consensus': '合意形成に向けた意見を述べてください'
+    },
+    basePrompt: (mbtiType, topic, instruction) =>
+      `${mbtiType}として「${topic}」について${instruction}。あなたの特性を活かした発言をお願いします。`,
+    fallbackPrompt: (mbtiType, topic) => `${mbtiType}として「${topic}」について発言してください。`,
+    focusOnAreas: areas => `特に${areas.join('と')}の向上を意識してください。`,
+    progressImproving: ' この調子で継続的な改善を図ってください。',
+    progressDeclining: ' より注意深く、質の高い発言を心がけてください。',
+    weightHigh: ' より積極的で主導的な発言を期待します。',
+    weightLow: ' 他の参加者の意見を踏まえた建設的な発言をお願いします。',
+    improveStructure: '発言の構造化と論点の明確化を強化してください',
+    improveContent: '具体例や根拠の提示を増やして内容を充実させてください',
+    mbtiImprovement: (mbtiType, strategies) => `${mbtiType}の特性（${strategies.slice(0, 2).join('、')}）をより活用してください`,
+    weaknessImprovements: {
+      structure: '発言の論理的構造を改善してください',
+      specificity: 'より具体的な例や根拠を提示してください',
+      characteristics: 'あなたの強みをより積極的に表現してください',
+      general: '発言品質の向上を図ってください'
+    }
+  },
+  en: {
+    phaseInstructions: {
+      'initial': 'share your initial view',
+      'interaction': 'respond to the other participants\' opinions',
+      'synthesis': 'synthesize the discussion so far',
+      'consensus': 'state your position with a view to reaching consensus'
+    },
+    basePrompt: (mbtiType, topic, instruction) =>
+      `As ${mbtiType}, ${instruction} on "${topic}". Make the most of your personality traits. Respond in English.`,
+    fallbackPrompt: (mbtiType, topic) => `As ${mbtiType}, share your view on "${topic}". Respond in English.`,
+    focusOnAreas: areas => `Pay particular attention to the following: ${areas.join('; ')}.`,
+    progressImproving: ' Keep up this steady improvement.',
+    progressDeclining: ' Be more careful and aim for a higher-quality contribution.',
+    weightHigh: ' We expect you to take a more active, leading role.',
+    weightLow: ' Please make a constructive contribution that builds on the other participants\' views.',
+    improveStructure: 'Structure your statement and make your main points clearer',
+    improveContent: 'Add concrete examples and evidence to strengthen your content',
+    mbtiImprovement: mbtiType => {
+      const functions = MBTI_COGNITIVE_FUNCTIONS[mbtiType];
+      return `Make more use of your ${mbtiType} strengths (${functions.dominant} / ${functions.auxiliary})`;
+    },
+    weaknessImprovements: {
+      structure: 'Improve the logical structure of your statement',
+      specificity: 'Give more concrete examples and evidence',
+      characteristics: 'Express your strengths more actively',
+      general: 'Raise the overall quality of your statement'
+    }
+  }
+};
+
+/**
+ * 言語別の発言特性キーワード（検出結果のラベルは言語によらず共通）
+ */
+const CHARACTERISTIC_KEYWORDS: Record<DiscussionLanguage, Array<{ label: string; keywords: string[] }>> = {
+  ja: [
+    { label: '戦略的思考', keywords: ['戦略', '計画', '長期'] },
+    { label: '具体的思考', keywords: ['具体', '実際', '例えば'] },
+    { label: '論理的思考', keywords: ['論理', '分析', 'なぜなら'] },
+    { label: '創造的思考', keywords: ['アイデア', '可能性', '新しい'] },
+    { label: '協調的思考', keywords: ['協力', '一緒', 'みんな'] }
+  ],
+  en: [
+    { label: '戦略的思考', keywords: ['strateg', 'plan', 'long-term', 'long term'] },
+    { label: '具体的思考', keywords: ['concrete', 'in practice', 'for example', 'for instance'] },
+    { label: '論理的思考', keywords: ['logic', 'analy', 'because'] },
+    { label: '創造的思考', keywords: ['idea', 'possibilit', 'new '] },
+    { label: '協調的思考', keywords: ['cooperat', 'together', 'everyone'] }
+  ]
+};
+
+const SOCIAL_KEYWORDS: Record<DiscussionLanguage, string[]> = {
+  ja: ['協力', '配慮', '議論', '合意', 'みんな', '一緒', '協調', '調和'],
+  en: ['cooperat', 'consider', 'discuss', 'agree', 'everyone', 'together', 'collaborat', 'harmony']
+};
+
+const UNETHICAL_KEYWORDS: Record<DiscussionLanguage, string[]> = {
+  ja: ['差別', '偏見', '攻撃', '否定', '排除', '軽視'],
+  en: ['discriminat', 'prejudice', 'attack', 'inferior', 'exclude', 'belittl']
+};
+
 /**
  * フィードバック統合エンジン
  * 7次元評価結果を統合し、包括的なフィードバックを生成
@@ -34,10 +146,19 @@ export class FeedbackAggregator {
   private config: unknown;
   private feedbackTemplates: Map<string, string>;
   private improvementStrategies: Map<string, string[]>;
+  private logger: DiscussionLogger;
 
-  constructor(historyManager: unknown, config: unknown) {
+  /**
+   * @param logger 構造化ロガー（未指定時はルートロガー）
+   */
+  constructor(
+    historyManager: unknown,
+    config: unknown,
+    logger: DiscussionLogger = discussionLogger.child({ component: 'FeedbackAggregator' })
+  ) {
     this.historyManager = historyManager;
     this.config = config;
+    this.logger = logger;
     this.feedbackTemplates = new Map();
     this.improvementStrategies = new Map();
     this.initializeFeedbackTemplates();
@@ -82,7 +203,7 @@ export class FeedbackAggregator {
       };
 
     } catch (error) {
-      console.error('❌ フィードバック統合エラー:', error);
+      this.logger.error('❌ フィードバック統合エラー:', { mbtiType: input.context.mbtiType, error });
       return this.createFallbackFeedback(input);
     }
   }
@@ -116,7 +237,7 @@ export class FeedbackAggregator {
       return adaptivePrompt;
 
     } catch (error) {
-      console.error('❌ 適応的プロンプト生成エラー:', error);
+      this.logger.error('❌ 適応的プロンプト生成エラー:', { mbtiType: params.mbtiType, error });
       return this.generateFallbackPrompt(params);
     }
   }
@@ -138,7 +259,7 @@ export class FeedbackAggregator {
       return guidance;
 
     } catch (error) {
-      console.error('❌ 次ステップガイダンス生成エラー:', error);
+      this.logger.error('❌ 次ステップガイダンス生成エラー:', { mbtiType, error });
       return `${mbtiType}として、次回はより建設的で具体的な発言を心がけてください。`;
     }
   }
@@ -206,7 +327,7 @@ export class FeedbackAggregator {
     const expectedCharacteristics = this.getExpectedCharacteristics(mbtiType);
 
     // 実際に示された特性
-    const demonstratedCharacteristics = this.analyzeStatementCharacteristics(statement, mbtiType);
+    const demonstratedCharacteristics = this.analyzeStatementCharacteristics(statement, mbtiType, context.language);
 
     // 整合性スコア計算
     const alignmentScore = this.calculateAlignmentScore(expectedCharacteristics, demonstratedCharacteristics);
@@ -258,15 +379,17 @@ export class FeedbackAggregator {
    */
   private async integrateSevenDimensions(input: FeedbackAggregationData): Promise<SevenDimensionEvaluation> {
     const { scores } = input;
+    // 審判モデルの採点がある次元はヒューリスティクスより優先
+    const judged = scores.judgedDimensions ?? {};
 
     // 各次元のスコア統合
     const performance = scores.performance || 0.8;
     const psychological = scores.psychological || 0.8;
-    const externalAlignment = this.calculateExternalAlignment(input);
-    const internalConsistency = this.calculateInternalConsistency(input);
-    const socialDecisionMaking = this.calculateSocialDecisionMaking(input);
+    const externalAlignment = judged.externalAlignment ?? this.calculateExternalAlignment(input);
+    const internalConsistency = judged.internalConsistency ?? this.calculateInternalConsistency(input);
+    const socialDecisionMaking = judged.socialDecisionMaking ?? this.calculateSocialDecisionMaking(input);
     const contentQuality = scores.contentQuality || 0.8;
-    const ethics = this.calculateEthics(input);
+    const ethics = judged.ethics ?? this.calculateEthics(input);
 
     // 総合品質スコア
     const overallQuality = this.calculateOverallQuality({
@@ -300,24 +423,26 @@ export class FeedbackAggregator {
   ): Promise<string[]> {
     const improvements: string[] = [];
     const { scores, context } = input;
+    // 改善提案は履歴経由で次回のプロンプトに含まれるため、議論言語で生成
+    const text = this.getText(context.language);
 
     // スコアベースの改善提案
     if (scores.performance < 0.8) {
-      improvements.push('発言の構造化と論点の明確化を強化してください');
+      improvements.push(text.improveStructure);
     }
 
     if (scores.contentQuality < 0.8) {
-      improvements.push('具体例や根拠の提示を増やして内容を充実させてください');
+      improvements.push(text.improveContent);
     }
 
     // MBTI特性ベースの改善提案
-    const mbtiImprovements = this.generateMBTISpecificImprovements(context.mbtiType, scores);
+    const mbtiImprovements = this.generateMBTISpecificImprovements(context.mbtiType, scores, context.language);
     improvements.push(...mbtiImprovements);
 
     // 弱点ベースの改善提案（型安全性向上）
     if (detailedAnalysis && typeof detailedAnalysis === 'object' && 'weaknesses' in detailedAnalysis) {
       const weaknesses = Array.isArray(detailedAnalysis.weaknesses) ? detailedAnalysis.weaknesses : [];
-      const weaknessImprovements = this.convertWeaknessesToImprovements(weaknesses);
+      const weaknessImprovements = this.convertWeaknessesToImprovements(weaknesses, context.language);
       improvements.push(...weaknessImprovements);
     }
 
@@ -361,6 +486,10 @@ export class FeedbackAggregator {
   /**
    * ヘルパーメソッド
    */
+  private getText(language?: DiscussionLanguage): AggregatorText {
+    return AGGREGATOR_TEXT[language ?? DEFAULT_DISCUSSION_LANGUAGE];
+  }
+
   private getTemplate(category: string, mbtiType: MBTIType): string {
     const template = this.feedbackTemplates.get(category) || '標準的な発言でした。';
     return template.replace('{mbtiType}', mbtiType);
@@ -439,14 +568,8 @@ export class FeedbackAggregator {
 
   // その他のメソッド（簡略実装）
   private generateMBTIBasePrompt(params: AdaptivePromptParams): string {
-    const phaseInstructions = {
-      'initial': '初期の見解を述べてください',
-      'interaction': '他の意見を踏まえて議論してください',
-      'synthesis': 'これまでの議論を統合してください',
-      'consensus': '合意形成に向けた意見を述べてください'
-    };
-
-    return `${params.mbtiType}として「${params.topic}」について${phaseInstructions[params.phase]}。あなたの特性を活かした発言をお願いします。`;
+    const text = this.getText(params.language);
+    return text.basePrompt(params.mbtiType, params.topic, text.phaseInstructions[params.phase]);
   }
 
   private async adjustForFeedbackHistory(params: AdaptivePromptParams): Promise<string> {
@@ -468,26 +591,28 @@ export class FeedbackAggregator {
         .flat();
 
       if (lowScoreDimensions.length > 0) {
-        return `特に${lowScoreDimensions.slice(0, 2).join('と')}の向上を意識してください。`;
+        return this.getText(params.language).focusOnAreas(lowScoreDimensions.slice(0, 2));
       }
     }
     return '';
   }
 
   private adjustForProgressTrend(params: AdaptivePromptParams): string {
+    const text = this.getText(params.language);
     if (params.progressTrend === 'improving') {
-      return ' この調子で継続的な改善を図ってください。';
+      return text.progressImproving;
     } else if (params.progressTrend === 'declining') {
-      return ' より注意深く、質の高い発言を心がけてください。';
+      return text.progressDeclining;
     }
     return '';
   }
 
   private adjustForCurrentWeight(params: AdaptivePromptParams): string {
+    const text = this.getText(params.language);
     if (params.currentWeight > 1.2) {
-      return ' より積極的で主導的な発言を期待します。';
+      return text.weightHigh;
     } else if (params.currentWeight < 0.8) {
-      return ' 他の参加者の意見を踏まえた建設的な発言をお願いします。';
+      return text.weightLow;
     }
     return '';
   }
@@ -502,8 +627,11 @@ export class FeedbackAggregator {
     return base + feedback + progress + weight;
   }
 
-  private generateFallbackPrompt(params: AdaptivePromptParams): string {
-    return `${params.mbtiType}として「${params.topic}」について発言してください。`;
+  /**
+   * フォールバックプロンプト（履歴・調整を含まない最小限のプロンプト）
+   */
+  generateFallbackPrompt(params: AdaptivePromptParams): string {
+    return this.getText(params.language).fallbackPrompt(params.mbtiType, params.topic);
   }
 
   private async analyzePerformanceTrend(mbtiType: MBTIType): Promise<any> {
@@ -528,35 +656,13 @@ export class FeedbackAggregator {
     return strategies || ['論理的思考', '建設的提案', '協調性'];
   }
 
-  private analyzeStatementCharacteristics(statement: string, mbtiType: MBTIType): string[] {
-    const characteristics: string[] = [];
-
-    // 戦略的思考
-    if (statement.includes('戦略') || statement.includes('計画') || statement.includes('長期')) {
-      characteristics.push('戦略的思考');
-    }
-
-    // 具体的思考
-    if (statement.includes('具体') || statement.includes('実際') || statement.includes('例えば')) {
-      characteristics.push('具体的思考');
-    }
-
-    // 論理的思考
-    if (statement.includes('論理') || statement.includes('分析') || statement.includes('なぜなら')) {
-      characteristics.push('論理的思考');
-    }
-
-    // 創造的思考
-    if (statement.includes('アイデア') || statement.includes('可能性') || statement.includes('新しい')) {
-      characteristics.push('創造的思考');
-    }
-
-    // 協調的思考
-    if (statement.includes('協力') || statement.includes('一緒') || statement.includes('みんな')) {
-      characteristics.push('協調的思考');
-    }
+  private analyzeStatementCharacteristics(statement: string, mbtiType: MBTIType, language?: DiscussionLanguage): string[] {
+    const lowerStatement = statement.toLowerCase();
 
-    return characteristics;
+    // 戦略的・具体的・論理的・創造的・協調的思考
+    return CHARACTERISTIC_KEYWORDS[language ?? DEFAULT_DISCUSSION_LANGUAGE]
+      .filter(({ keywords }) => keywords.some(keyword => lowerStatement.includes(keyword)))
+      .map(({ label }) => label);
   }
 
   private calculateAlignmentScore(expected: string[], demonstrated: string[]): number {
@@ -619,7 +725,7 @@ export class FeedbackAggregator {
   private calculateInternalConsistency(input: FeedbackAggregationData): number {
     // 内部一貫性計算
     const { context } = input;
-    const statementLength = context.statement.length;
+    const statementLength = measureStatementLength(context.statement, context.language);
 
     // 適切な長さと構造の評価
     if (statementLength > 50 && statementLength < 500) {
@@ -634,7 +740,7 @@ export class FeedbackAggregator {
   private calculateSocialDecisionMaking(input: FeedbackAggregationData): number {
     // 社会的意思決定計算
     const { context } = input;
-    const socialKeywords = ['協力', '配慮', '議論', '合意', 'みんな', '一緒', '協調', '調和'];
+    const socialKeywords = SOCIAL_KEYWORDS[context.language ?? DEFAULT_DISCUSSION_LANGUAGE];
     const statement = context.statement.toLowerCase();
 
     const socialCount = socialKeywords.filter(keyword => statement.includes(keyword)).length;
@@ -644,7 +750,7 @@ export class FeedbackAggregator {
   private calculateEthics(input: FeedbackAggregationData): number {
     // 倫理性計算
     const { context } = input;
-    const negativeKeywords = ['差別', '偏見', '攻撃', '否定', '排除', '軽視'];
+    const negativeKeywords = UNETHICAL_KEYWORDS[context.language ?? DEFAULT_DISCUSSION_LANGUAGE];
     const statement = context.statement.toLowerCase();
 
     const hasNegative = negativeKeywords.some(keyword => statement.includes(keyword));
@@ -678,23 +784,25 @@ export class FeedbackAggregator {
     return totalScore;
   }
 
-  private generateMBTISpecificImprovements(mbtiType: MBTIType, scores: QualityScores): string[] {
+  private generateMBTISpecificImprovements(mbtiType: MBTIType, scores: QualityScores, language?: DiscussionLanguage): string[] {
     const improvements: string[] = [];
     const strategies = this.improvementStrategies.get(mbtiType) || [];
 
     if (scores.mbtiAlignment < 0.8) {
-      improvements.push(`${mbtiType}の特性（${strategies.slice(0, 2).join('、')}）をより活用してください`);
+      improvements.push(this.getText(language).mbtiImprovement(mbtiType, strategies));
     }
 
     return improvements;
   }
 
-  private convertWeaknessesToImprovements(weaknesses: string[]): string[] {
+  private convertWeaknessesToImprovements(weaknesses: string[], language?: DiscussionLanguage): string[] {
+    const { weaknessImprovements } = this.getText(language);
+    // 弱点のラベルは言語によらず日本語で判定
     return weaknesses.map(weakness => {
-      if (weakness.includes('構造')) return '発言の論理的構造を改善してください';
-      if (weakness.includes('具体性')) return 'より具体的な例や根拠を提示してください';
-      if (weakness.includes('特性')) return 'あなたの強みをより積極的に表現してください';
-      return '発言品質の向上を図ってください';
+      if (weakness.includes('構造')) return weaknessImprovements.structure;
+      if (weakness.includes('具体性')) return weaknessImprovements.specificity;
+      if (weakness.includes('特性')) return weaknessImprovements.characteristics;
+      return weaknessImprovements.general;
     });
   }
 
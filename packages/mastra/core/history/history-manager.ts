@@ -9,6 +9,16 @@ import type {
 } from '../../types/feedback-system-types';
 
 import type { MBTIType } from '../../types/mbti-types';
+import {
+  HISTORY_SNAPSHOT_VERSION,
+  clearHistorySnapshot,
+  updateHistorySnapshot,
+  type HistorySnapshot,
+  type HistoryStore,
+  type SerializedAgentHistory,
+  type SerializedEvaluationRecord
+} from './history-store';
+import { discussionLogger, type DiscussionLogger } from '../../utils/discussion-logger';
 
 /**
  * 評価記録の内部構造
@@ -44,20 +54,35 @@ interface AgentHistoryData {
 /**
  * 履歴・学習管理エンジン
  * リアルタイム学習とパフォーマンス追跡を実行
+ * 履歴ストア指定時は保存済みの学習結果を引き継ぎ、議論で追加した評価を統合して保存する
  */
 export class HistoryManager {
   private agentHistories: Map<MBTIType, AgentHistoryData>;
   private globalHistory: InternalEvaluationRecord[];
   private adaptiveSettings: AdaptiveSettings;
+  private store: HistoryStore | null;
+  // 前回の保存以降に追加された評価（保存時に最新のスナップショットへ統合）
+  private pendingRecords: Array<{ mbtiType: MBTIType; record: InternalEvaluationRecord }> = [];
 
   // 学習パラメータ
   private readonly LEARNING_WINDOW_SIZE = 10;
   private readonly TREND_ANALYSIS_WINDOW = 20;
   private readonly PATTERN_THRESHOLD = 0.3;
   private readonly CONSISTENCY_THRESHOLD = 0.8;
+  private readonly PERSISTED_GLOBAL_HISTORY_LIMIT = 500;
+  private logger: DiscussionLogger;
 
-  constructor(adaptiveSettings: AdaptiveSettings) {
+  /**
+   * @param logger 構造化ロガー（未指定時はルートロガー）
+   */
+  constructor(
+    adaptiveSettings: AdaptiveSettings,
+    store: HistoryStore | null = null,
+    logger: DiscussionLogger = discussionLogger.child({ component: 'HistoryManager' })
+  ) {
     this.adaptiveSettings = adaptiveSettings;
+    this.store = store;
+    this.logger = logger;
     this.agentHistories = new Map();
     this.globalHistory = [];
 
@@ -85,17 +110,171 @@ export class HistoryManager {
         }
       };
 
-      await this.addToAgentHistory(mbtiType, internalRecord);
-      this.globalHistory.push(internalRecord);
-      await this.performRealtimeLearning(mbtiType, internalRecord);
-      await this.updatePerformanceMetrics(mbtiType);
+      await this.applyEvaluationRecord(mbtiType, internalRecord);
+      if (this.store) {
+        this.pendingRecords.push({ mbtiType, record: internalRecord });
+      }
 
     } catch (error) {
-      console.error('❌ 評価記録保存エラー:', error);
+      this.logger.error('❌ 評価記録保存エラー:', { mbtiType, error });
       throw error;
     }
   }
 
+  private async applyEvaluationRecord(
+    mbtiType: MBTIType,
+    record: InternalEvaluationRecord
+  ): Promise<void> {
+    await this.addToAgentHistory(mbtiType, record);
+    this.globalHistory.push(record);
+    await this.performRealtimeLearning(mbtiType, record);
+    await this.updatePerformanceMetrics(mbtiType);
+  }
+
+  // ===========================================
+  // 永続化（議論をまたいだ学習の蓄積）
+  // ===========================================
+
+  /**
+   * 履歴ストアから保存済みの学習結果を読み込み（未保存・ストア未指定時はnull）
+   * @returns 読み込んだスナップショット
+   */
+  async loadPersistedHistory(): Promise<HistorySnapshot | null> {
+    if (!this.store) return null;
+
+    const snapshot = await this.store.load();
+    if (!snapshot) return null;
+
+    this.restoreSnapshot(snapshot);
+    this.logger.info(`📚 保存済みの学習履歴を読み込みました（評価${this.globalHistory.length}件）`, {
+      evaluations: this.globalHistory.length,
+      savedAt: snapshot.savedAt
+    });
+    return snapshot;
+  }
+
+  /**
+   * 未保存の評価を履歴ストアへ保存
+   * 並行する議論の保存結果を失わないよう、最新のスナップショットに未保存分を再適用して保存する
+   */
+  async persistHistory(): Promise<boolean> {
+    if (!this.store || this.pendingRecords.length === 0) return false;
+
+    const pendingRecords = this.pendingRecords;
+    this.pendingRecords = [];
+
+    try {
+      await updateHistorySnapshot(this.store, async current => {
+        const merged = new HistoryManager(this.adaptiveSettings, null, this.logger);
+        if (current) merged.restoreSnapshot(current);
+        for (const { mbtiType, record } of pendingRecords) {
+          await merged.applyEvaluationRecord(mbtiType, record);
+        }
+        return merged.exportHistory();
+      });
+      return true;
+    } catch (error) {
+      // 次回の保存で再試行できるよう未保存分を戻す
+      this.pendingRecords = [...pendingRecords, ...this.pendingRecords];
+      throw error;
+    }
+  }
+
+  /**
+   * 学習履歴をリセット（メモリ上の履歴と履歴ストアの両方）
+   */
+  async resetHistory(): Promise<void> {
+    this.agentHistories = new Map();
+    this.globalHistory = [];
+    this.pendingRecords = [];
+    this.initializeAgentHistories();
+
+    if (this.store) {
+      await clearHistorySnapshot(this.store);
+    }
+  }
+
+  /**
+   * 現在の学習履歴をJSONシリアライズ可能なスナップショットとしてエクスポート
+   */
+  exportHistory(): HistorySnapshot {
+    const agents: HistorySnapshot['agents'] = {};
+
+    this.agentHistories.forEach((historyData, mbtiType) => {
+      if (historyData.evaluationHistory.length === 0) return;
+
+      agents[mbtiType] = {
+        mbtiType,
+        evaluationHistory: historyData.evaluationHistory.map(record => this.serializeRecord(record)),
+        performanceMetrics: { ...historyData.performanceMetrics },
+        learningData: {
+          strengthPatterns: Object.fromEntries(historyData.learningData.strengthPatterns),
+          weaknessPatterns: Object.fromEntries(historyData.learningData.weaknessPatterns),
+          improvementTrends: [...historyData.learningData.improvementTrends],
+          consistencyScores: [...historyData.learningData.consistencyScores]
+        },
+        lastUpdated: historyData.lastUpdated.toISOString()
+      };
+    });
+
+    return {
+      version: HISTORY_SNAPSHOT_VERSION,
+      savedAt: new Date().toISOString(),
+      agents,
+      globalHistory: this.globalHistory
+        .slice(-this.PERSISTED_GLOBAL_HISTORY_LIMIT)
+        .map(record => this.serializeRecord(record))
+    };
+  }
+
+  private restoreSnapshot(snapshot: HistorySnapshot): void {
+    if (snapshot.version !== HISTORY_SNAPSHOT_VERSION) {
+      throw new Error(`未対応の学習履歴バージョンです: ${snapshot.version}`);
+    }
+
+    this.agentHistories = new Map();
+    this.initializeAgentHistories();
+
+    Object.values(snapshot.agents).forEach((agent: SerializedAgentHistory | undefined) => {
+      if (!agent || !this.agentHistories.has(agent.mbtiType)) return;
+
+      this.agentHistories.set(agent.mbtiType, {
+        mbtiType: agent.mbtiType,
+        evaluationHistory: agent.evaluationHistory.map(record => this.deserializeRecord(record)),
+        performanceMetrics: { ...agent.performanceMetrics },
+        learningData: {
+          strengthPatterns: new Map(Object.entries(agent.learningData.strengthPatterns)),
+          weaknessPatterns: new Map(Object.entries(agent.learningData.weaknessPatterns)),
+          improvementTrends: [...agent.learningData.improvementTrends],
+          consistencyScores: [...agent.learningData.consistencyScores]
+        },
+        lastUpdated: new Date(agent.lastUpdated)
+      });
+    });
+
+    this.globalHistory = snapshot.globalHistory.map(record => this.deserializeRecord(record));
+  }
+
+  private serializeRecord(record: InternalEvaluationRecord): SerializedEvaluationRecord {
+    return {
+      statement: record.statement,
+      scores: record.scores,
+      feedback: record.feedback,
+      timestamp: new Date(record.timestamp).toISOString(),
+      context: { ...record.context }
+    };
+  }
+
+  private deserializeRecord(record: SerializedEvaluationRecord): InternalEvaluationRecord {
+    return {
+      statement: record.statement,
+      scores: record.scores,
+      feedback: record.feedback,
+      timestamp: new Date(record.timestamp),
+      context: { ...record.context }
+    };
+  }
+
   private initializeAgentHistories(): void {
     const mbtiTypes: MBTIType[] = [
       'INTJ', 'INTP', 'ENTJ', 'ENTP', 'INFJ', 'INFP', 'ENFJ', 'ENFP',
@@ -574,6 +753,6 @@ export class HistoryManager {
 
   updateSettings(newSettings: AdaptiveSettings): void {
     this.adaptiveSettings = { ...this.adaptiveSettings, ...newSettings };
-    console.log('📝 HistoryManager設定を更新しました');
+    this.logger.debug('📝 HistoryManager設定を更新しました');
   }
 }
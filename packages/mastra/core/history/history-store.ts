@@ -0,0 +1,267 @@
+import type { MastraStorage, StorageColumn, TABLE_NAMES } from '@mastra/core/storage';
+import type { QualityScores, PerformanceMetrics } from '../../types/feedback-system-types';
+import type { MBTIType } from '../../types/mbti-types';
+
+/**
+ * 履歴永続化ストア
+ * HistoryManager が蓄積するエージェント別の評価履歴・パターン学習・トレンド分析を
+ * 議論（プロセス）をまたいで保持するための差し替え可能な保存先
+ */
+
+// ===========================================
+// スナップショット型定義（JSONシリアライズ可能な形式）
+// ===========================================
+
+export const HISTORY_SNAPSHOT_VERSION = 1;
+
+export interface SerializedEvaluationRecord {
+  statement: string;
+  scores: QualityScores;
+  feedback: unknown;
+  // ISO 8601 形式
+  timestamp: string;
+  context: {
+    topic: string;
+    phase: string;
+    turnNumber: number;
+  };
+}
+
+export interface SerializedAgentHistory {
+  mbtiType: MBTIType;
+  evaluationHistory: SerializedEvaluationRecord[];
+  performanceMetrics: PerformanceMetrics;
+  learningData: {
+    strengthPatterns: Record<string, number>;
+    weaknessPatterns: Record<string, number>;
+    improvementTrends: number[];
+    consistencyScores: number[];
+  };
+  lastUpdated: string;
+}
+
+export interface HistorySnapshot {
+  version: number;
+  savedAt: string;
+  agents: Partial<Record<MBTIType, SerializedAgentHistory>>;
+  globalHistory: SerializedEvaluationRecord[];
+}
+
+/**
+ * 議論が使った学習履歴スナップショットの記録（実行メタデータに保存し、再現時の差異を追跡する）
+ */
+export interface HistorySnapshotReference {
+  mode: HistoryPersistenceMode;
+  // 読み込んだスナップショットの保存日時（未読み込み時はnull）
+  savedAt: string | null;
+  // 読み込んだ評価件数
+  evaluations: number;
+}
+
+/**
+ * 学習履歴の永続化モード
+ * - persistent: 保存済みの履歴を読み込み、議論で追加した評価を保存する
+ * - read-only: 保存済みの履歴を読み込むが、保存はしない
+ * - isolated: 履歴ストアを使わない（シード指定・再開した議論の既定。保存済み履歴の影響を受けず再現できる）
+ */
+export type HistoryPersistenceMode = 'persistent' | 'read-only' | 'isolated';
+
+export const HISTORY_PERSISTENCE_MODES = ['persistent', 'read-only', 'isolated'] as const;
+
+// ===========================================
+// ストアインターフェース
+// ===========================================
+
+export interface HistoryStore {
+  /** 保存済みスナップショットを読み込み（未保存時はnull） */
+  load(): Promise<HistorySnapshot | null>;
+  /** スナップショットを保存（既存の内容を置き換え） */
+  save(snapshot: HistorySnapshot): Promise<void>;
+  /** 保存済みの履歴を削除 */
+  clear(): Promise<void>;
+}
+
+/**
+ * インメモリストア（同一プロセス内での議論間共有・動作確認用）
+ */
+export class InMemoryHistoryStore implements HistoryStore {
+  private snapshot: HistorySnapshot | null = null;
+
+  async load(): Promise<HistorySnapshot | null> {
+    return this.snapshot ? structuredClone(this.snapshot) : null;
+  }
+
+  async save(snapshot: HistorySnapshot): Promise<void> {
+    this.snapshot = structuredClone(snapshot);
+  }
+
+  async clear(): Promise<void> {
+    this.snapshot = null;
+  }
+}
+
+/**
+ * 読み込み専用ストア（保存・削除を無視し、他の議論が蓄積した履歴を変更しない）
+ */
+export class ReadOnlyHistoryStore implements HistoryStore {
+  constructor(private store: HistoryStore) {}
+
+  load(): Promise<HistorySnapshot | null> {
+    return this.store.load();
+  }
+
+  async save(): Promise<void> {
+    // 読み込み専用
+  }
+
+  async clear(): Promise<void> {
+    // 読み込み専用
+  }
+}
+
+// Mastraストレージ上の履歴テーブル（スナップショット1行を保持）
+export const HISTORY_STORAGE_TABLE = 'mads_agent_history';
+const HISTORY_RECORD_ID = 'agent-history';
+
+const HISTORY_TABLE_SCHEMA: Record<string, StorageColumn> = {
+  id: { type: 'text', primaryKey: true },
+  snapshot: { type: 'jsonb' },
+  createdAt: { type: 'timestamp' },
+  updatedAt: { type: 'timestamp' }
+};
+
+/**
+ * Mastraストレージ（LibSQLStore 等）を保存先とするストア
+ */
+export class MastraStorageHistoryStore implements HistoryStore {
+  private tableReady: Promise<void> | null = null;
+
+  constructor(private storage: MastraStorage) {}
+
+  // 独自テーブルのため TABLE_NAMES にキャストして渡す
+  private get tableName(): TABLE_NAMES {
+    return HISTORY_STORAGE_TABLE as TABLE_NAMES;
+  }
+
+  private ensureTable(): Promise<void> {
+    if (!this.tableReady) {
+      this.tableReady = this.storage
+        .createTable({ tableName: this.tableName, schema: HISTORY_TABLE_SCHEMA })
+        .catch(error => {
+          this.tableReady = null;
+          throw error;
+        });
+    }
+    return this.tableReady;
+  }
+
+  async load(): Promise<HistorySnapshot | null> {
+    await this.ensureTable();
+    const row = await this.storage.load<{ snapshot: HistorySnapshot | string }>({
+      tableName: this.tableName,
+      keys: { id: HISTORY_RECORD_ID }
+    });
+    if (!row?.snapshot) return null;
+
+    return typeof row.snapshot === 'string' ? JSON.parse(row.snapshot) as HistorySnapshot : row.snapshot;
+  }
+
+  async save(snapshot: HistorySnapshot): Promise<void> {
+    await this.ensureTable();
+    const now = new Date();
+    await this.storage.insert({
+      tableName: this.tableName,
+      record: {
+        id: HISTORY_RECORD_ID,
+        snapshot,
+        createdAt: now,
+        updatedAt: now
+      }
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.ensureTable();
+    await this.storage.clearTable({ tableName: this.tableName });
+  }
+}
+
+// ===========================================
+// 既定ストアの設定
+// ===========================================
+
+let configuredHistoryStore: HistoryStore | null = null;
+
+/**
+ * 議論ランタイムが使う既定の履歴ストアを設定（null で永続化を無効化）
+ */
+export function setHistoryStore(store: HistoryStore | null): void {
+  configuredHistoryStore = store;
+}
+
+/**
+ * 既定の履歴ストアを取得（未設定時はnull = 永続化なし）
+ */
+export function getHistoryStore(): HistoryStore | null {
+  return configuredHistoryStore;
+}
+
+/**
+ * 永続化モードに応じた履歴ストアを取得（isolated・ストア未設定時はnull）
+ */
+export function getHistoryStoreForMode(mode: HistoryPersistenceMode): HistoryStore | null {
+  const store = getHistoryStore();
+  if (!store || mode === 'isolated') return null;
+  return mode === 'read-only' ? new ReadOnlyHistoryStore(store) : store;
+}
+
+// 同じストアへの読み込み→統合→保存・削除が並行実行で競合しないようストア単位で直列化
+const storeQueues = new WeakMap<HistoryStore, Promise<unknown>>();
+
+function enqueueStoreTask<T>(store: HistoryStore, task: () => Promise<T>): Promise<T> {
+  const previous = storeQueues.get(store) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  storeQueues.set(store, next);
+  return next;
+}
+
+/**
+ * 保存済みスナップショットを読み込んで更新し、保存する（同一ストアへの更新は直列に実行）
+ */
+export function updateHistorySnapshot(
+  store: HistoryStore,
+  updater: (current: HistorySnapshot | null) => Promise<HistorySnapshot> | HistorySnapshot
+): Promise<HistorySnapshot> {
+  return enqueueStoreTask(store, async () => {
+    const updated = await updater(await store.load());
+    await store.save(updated);
+    return updated;
+  });
+}
+
+/**
+ * 保存済みの履歴を削除（実行中の更新の完了後に削除）
+ */
+export function clearHistorySnapshot(store: HistoryStore): Promise<void> {
+  return enqueueStoreTask(store, () => store.clear());
+}
+
+/**
+ * 保存済みの履歴をエクスポート（ストア未設定・未保存時はnull）
+ */
+export async function exportPersistedHistory(
+  store: HistoryStore | null = getHistoryStore()
+): Promise<HistorySnapshot | null> {
+  return store ? store.load() : null;
+}
+
+/**
+ * 保存済みの履歴をリセット（ストア未設定時は何もしない）
+ */
+export async function resetPersistedHistory(
+  store: HistoryStore | null = getHistoryStore()
+): Promise<boolean> {
+  if (!store) return false;
+  await clearHistorySnapshot(store);
+  return true;
+}
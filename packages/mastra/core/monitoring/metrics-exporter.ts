@@ -0,0 +1,373 @@
+import { writeFileSync, mkdirSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { createServer, type Server } from 'http';
+
+/**
+ * OpenMetrics エクスポーター
+ * PerformanceMonitor が記録した処理時間・エラー数・品質スコア・メモリ使用量を
+ * OpenMetrics テキスト形式（Prometheus 互換）で公開する
+ */
+
+// ===========================================
+// 型定義
+// ===========================================
+
+export type MetricLabels = Record<string, string | undefined>;
+
+type MetricKind = 'counter' | 'gauge' | 'histogram';
+
+interface HistogramSeries {
+  buckets: number[];
+  count: number;
+  sum: number;
+}
+
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+// 処理時間（秒）のバケット
+export const DURATION_BUCKETS = [0.005, 0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+// 品質スコア（0-1）のバケット
+export const SCORE_BUCKETS = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1];
+
+// ===========================================
+// メトリクス
+// ===========================================
+
+/**
+ * ラベルを系列キーへ（未指定のラベルは除外し、名前順で正規化）
+ */
+function toSeriesKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.keys(labels)
+    .filter(name => labels[name] !== undefined)
+    .sort()
+    .map(name => [name, labels[name]]));
+}
+
+function fromSeriesKey(key: string): Array<[string, string]> {
+  return JSON.parse(key) as Array<[string, string]>;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Array<[string, string]>): string {
+  if (labels.length === 0) return '';
+  return `{${labels.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return Number.isNaN(value) ? 'NaN' : String(value);
+}
+
+abstract class Metric {
+  abstract readonly kind: MetricKind;
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  protected abstract renderSamples(): string[];
+
+  abstract reset(): void;
+
+  render(): string {
+    return [
+      `# TYPE ${this.name} ${this.kind}`,
+      `# HELP ${this.name} ${this.help}`,
+      ...this.renderSamples()
+    ].join('\n');
+  }
+}
+
+/**
+ * カウンター（単調増加、サンプル名は <name>_total）
+ */
+export class Counter extends Metric {
+  readonly kind = 'counter';
+  private series = new Map<string, number>();
+
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    if (value < 0) {
+      throw new Error(`カウンターは減少できません: ${this.name}`);
+    }
+    const key = toSeriesKey(labels);
+    this.series.set(key, (this.series.get(key) ?? 0) + value);
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(toSeriesKey(labels)) ?? 0;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  protected renderSamples(): string[] {
+    return Array.from(this.series.entries()).map(([key, value]) =>
+      `${this.name}_total${formatLabels(fromSeriesKey(key))} ${formatValue(value)}`
+    );
+  }
+}
+
+/**
+ * ゲージ（任意の現在値）
+ */
+export class Gauge extends Metric {
+  readonly kind = 'gauge';
+  private series = new Map<string, number>();
+
+  set(labels: MetricLabels, value: number): void {
+    this.series.set(toSeriesKey(labels), value);
+  }
+
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    const key = toSeriesKey(labels);
+    this.series.set(key, (this.series.get(key) ?? 0) + value);
+  }
+
+  dec(labels: MetricLabels = {}, value: number = 1): void {
+    this.inc(labels, -value);
+  }
+
+  get(labels: MetricLabels = {}): number | undefined {
+    return this.series.get(toSeriesKey(labels));
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  protected renderSamples(): string[] {
+    return Array.from(this.series.entries()).map(([key, value]) =>
+      `${this.name}${formatLabels(fromSeriesKey(key))} ${formatValue(value)}`
+    );
+  }
+}
+
+/**
+ * ヒストグラム（累積バケット・件数・合計）
+ */
+export class Histogram extends Metric {
+  readonly kind = 'histogram';
+  private series = new Map<string, HistogramSeries>();
+  readonly bucketBounds: number[];
+
+  constructor(name: string, help: string, buckets: number[]) {
+    super(name, help);
+    this.bucketBounds = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = toSeriesKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { buckets: this.bucketBounds.map(() => 0), count: 0, sum: 0 };
+      this.series.set(key, series);
+    }
+
+    const { buckets } = series;
+    this.bucketBounds.forEach((bound, index) => {
+      if (value <= bound) buckets[index]++;
+    });
+    series.count++;
+    series.sum += value;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  protected renderSamples(): string[] {
+    const samples: string[] = [];
+    this.series.forEach((series, key) => {
+      const labels = fromSeriesKey(key);
+      this.bucketBounds.forEach((bound, index) => {
+        samples.push(`${this.name}_bucket${formatLabels([...labels, ['le', formatValue(bound)]])} ${series.buckets[index]}`);
+      });
+      samples.push(`${this.name}_bucket${formatLabels([...labels, ['le', '+Inf']])} ${series.count}`);
+      samples.push(`${this.name}_count${formatLabels(labels)} ${series.count}`);
+      samples.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(series.sum)}`);
+    });
+    return samples;
+  }
+}
+
+// ===========================================
+// レジストリ
+// ===========================================
+
+/**
+ * メトリクスレジストリ
+ * コレクターはエクスポート直前に呼ばれ、ゲージを現在値へ更新する（メモリ使用量など）
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+  private collectors: Array<() => void> = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(name, () => new Counter(name, help), 'counter') as Counter;
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(name, () => new Gauge(name, help), 'gauge') as Gauge;
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(name, () => new Histogram(name, help, buckets), 'histogram') as Histogram;
+  }
+
+  /**
+   * エクスポート直前に呼ぶコレクターを登録（戻り値で登録解除）
+   */
+  addCollector(collector: () => void): () => void {
+    this.collectors.push(collector);
+    return () => {
+      this.collectors = this.collectors.filter(registered => registered !== collector);
+    };
+  }
+
+  /**
+   * OpenMetrics テキスト形式で出力（末尾は # EOF）
+   */
+  render(): string {
+    this.collectors.forEach(collector => {
+      try {
+        collector();
+      } catch (error) {
+        console.warn('⚠️ メトリクスコレクターの実行に失敗しました:', error);
+      }
+    });
+
+    const families = Array.from(this.metrics.values()).map(metric => metric.render());
+    return `${[...families, '# EOF'].join('\n')}\n`;
+  }
+
+  /**
+   * 全系列を削除（メトリクス定義とコレクターは維持）
+   */
+  reset(): void {
+    this.metrics.forEach(metric => metric.reset());
+  }
+
+  private register(name: string, create: () => Metric, kind: MetricKind): Metric {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (existing.kind !== kind) {
+        throw new Error(`メトリクス ${name} は ${existing.kind} として登録済みです`);
+      }
+      return existing;
+    }
+
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+/**
+ * 共通メトリクスレジストリ（プロセス内の全議論セッションで共有）
+ */
+export const metricsRegistry = new MetricsRegistry();
+
+// ===========================================
+// M-ADS メトリクス
+// ===========================================
+
+/**
+ * PerformanceMonitor が記録する M-ADS のメトリクス
+ * ラベル: operation（処理種別）, mbti_type, phase（議論フェーズの種類）
+ */
+export const performanceMetrics = {
+  operationDuration: metricsRegistry.histogram(
+    'mads_operation_duration_seconds',
+    'Duration of feedback system operations (evaluation, optimization, aggregation, ...)',
+    DURATION_BUCKETS
+  ),
+  errors: metricsRegistry.counter(
+    'mads_errors',
+    'Errors recorded by the performance monitor'
+  ),
+  qualityScore: metricsRegistry.histogram(
+    'mads_quality_score',
+    'Overall quality score of evaluated statements (0-1)',
+    SCORE_BUCKETS
+  ),
+  agentQuality: metricsRegistry.gauge(
+    'mads_agent_quality_score',
+    'Latest overall quality score per MBTI type (0-1)'
+  ),
+  evaluations: metricsRegistry.counter(
+    'mads_evaluations',
+    'Statements evaluated by the realtime feedback system'
+  ),
+  activeMonitors: metricsRegistry.gauge(
+    'mads_active_monitors',
+    'Performance monitors currently running (one per active discussion session)'
+  ),
+  heapUsed: metricsRegistry.gauge(
+    'mads_process_heap_used_bytes',
+    'Heap used by the Node.js process'
+  ),
+  heapTotal: metricsRegistry.gauge(
+    'mads_process_heap_total_bytes',
+    'Heap allocated by the Node.js process'
+  ),
+  memoryUsage: metricsRegistry.gauge(
+    'mads_memory_usage_ratio',
+    'Latest heap usage ratio snapshot taken by the performance monitor'
+  )
+};
+
+// 🧠 プロセスのヒープ使用量はエクスポート時点の値
+metricsRegistry.addCollector(() => {
+  const memory = process.memoryUsage();
+  performanceMetrics.heapUsed.set({}, memory.heapUsed);
+  performanceMetrics.heapTotal.set({}, memory.heapTotal);
+});
+
+/**
+ * 共通レジストリのメトリクスを OpenMetrics テキストで取得
+ */
+export function renderOpenMetrics(): string {
+  return metricsRegistry.render();
+}
+
+// ===========================================
+// スタンドアロン出力（CLI実行用）
+// ===========================================
+
+/**
+ * OpenMetrics テキストをファイルへ書き出し（node_exporter の textfile collector 等で収集）
+ */
+export function writeMetricsFile(filePath: string): string {
+  const resolvedPath = resolve(filePath);
+  mkdirSync(dirname(resolvedPath), { recursive: true });
+  writeFileSync(resolvedPath, renderOpenMetrics(), 'utf8');
+  return resolvedPath;
+}
+
+/**
+ * GET /metrics で OpenMetrics テキストを返す HTTP サーバーを起動
+ */
+export function startMetricsServer(port: number, host: string = '127.0.0.1'): Promise<Server> {
+  const server = createServer((request, response) => {
+    if (request.method !== 'GET' || request.url?.split('?')[0] !== '/metrics') {
+      response.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+      response.end('Not Found\n');
+      return;
+    }
+
+    response.writeHead(200, { 'Content-Type': OPENMETRICS_CONTENT_TYPE });
+    response.end(renderOpenMetrics());
+  });
+
+  return new Promise((resolveServer, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolveServer(server);
+    });
+  });
+}
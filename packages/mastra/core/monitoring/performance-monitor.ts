@@ -1,10 +1,13 @@
 import type {
   SystemMetrics,
   PerformanceMetrics,
-  QualityScores
+  QualityScores,
+  DiscussionPhase
 } from '../../types/feedback-system-types';
 
 import type { MBTIType } from '../../types/mbti-types';
+import { performanceMetrics } from './metrics-exporter';
+import { discussionLogger, type DiscussionLogger } from '../../utils/discussion-logger';
 
 /**
  * パフォーマンスメトリクス詳細（メモリ使用量・レスポンス時間監視は削除済み）
@@ -64,6 +67,7 @@ interface AlertThresholds {
 /**
  * パフォーマンス監視システム
  * リアルタイムシステム監視とアラート機能
+ * 記録した値は OpenMetrics エクスポーター（metrics-exporter）にも反映する
  */
 export class PerformanceMonitor {
   private metrics: Map<string, DetailedPerformanceMetrics>;
@@ -83,12 +87,20 @@ export class PerformanceMonitor {
   private errorCounts: number[] = [];
   private memorySnapshots: number[] = [];
 
+  // メトリクスのラベルに付与する議論フェーズ
+  private currentPhase?: DiscussionPhase;
+
   // 設定
   private readonly MONITORING_INTERVAL = 5000; // 5秒
   private readonly HISTORY_RETENTION_SIZE = 1000;
   private readonly METRICS_WINDOW_SIZE = 100;
+  private logger: DiscussionLogger;
 
-  constructor() {
+  /**
+   * @param logger 構造化ロガー（未指定時はルートロガー）
+   */
+  constructor(logger: DiscussionLogger = discussionLogger.child({ component: 'PerformanceMonitor' })) {
+    this.logger = logger;
     this.metrics = new Map();
     this.systemMetrics = this.createInitialSystemMetrics();
     this.alertThresholds = this.createDefaultAlertThresholds();
@@ -102,17 +114,18 @@ export class PerformanceMonitor {
    */
   startMonitoring(): void {
     if (this.isMonitoring) {
-      console.log('⚠️ 監視は既に開始されています');
+      this.logger.debug('⚠️ 監視は既に開始されています');
       return;
     }
 
     this.isMonitoring = true;
+    performanceMetrics.activeMonitors.inc();
 
     this.monitoringInterval = setInterval(() => {
       this.collectMetrics();
     }, this.MONITORING_INTERVAL);
 
-    console.log('📊 パフォーマンス監視を開始しました');
+    this.logger.debug('📊 パフォーマンス監視を開始しました');
   }
 
   /**
@@ -120,25 +133,37 @@ export class PerformanceMonitor {
    */
   stopMonitoring(): void {
     if (!this.isMonitoring) {
-      console.log('⚠️ 監視は開始されていません');
+      this.logger.debug('⚠️ 監視は開始されていません');
       return;
     }
 
     this.isMonitoring = false;
+    performanceMetrics.activeMonitors.dec();
 
     if (this.monitoringInterval) {
       clearInterval(this.monitoringInterval);
       this.monitoringInterval = null;
     }
 
-    console.log('📊 パフォーマンス監視を停止しました');
+    this.logger.debug('📊 パフォーマンス監視を停止しました');
+  }
+
+  /**
+   * 以降の記録に付与する議論フェーズを設定（未指定でフェーズ外）
+   */
+  setPhase(phase?: DiscussionPhase): void {
+    this.currentPhase = phase;
   }
 
   /**
    * レスポンス時間記録（閾値チェックは削除済み）
    */
-  recordResponseTime(operationType: string, duration: number): void {
+  recordResponseTime(operationType: string, duration: number, mbtiType?: MBTIType): void {
     this.responseTimes.push(duration);
+    performanceMetrics.operationDuration.observe(
+      { operation: operationType, mbti_type: mbtiType, phase: this.currentPhase },
+      duration / 1000
+    );
 
     // ウィンドウサイズ制限
     if (this.responseTimes.length > this.METRICS_WINDOW_SIZE) {
@@ -153,6 +178,7 @@ export class PerformanceMonitor {
    */
   recordError(errorType: string, error: Error): void {
     this.errorCounts.push(Date.now());
+    performanceMetrics.errors.inc({ operation: errorType, phase: this.currentPhase });
 
     // 古いエラーカウントの削除（1時間以内のみ保持）
     const oneHourAgo = Date.now() - 3600000;
@@ -161,7 +187,7 @@ export class PerformanceMonitor {
     // エラー率チェック
     this.checkErrorRateThresholds();
 
-    console.error(`❌ エラー記録 [${errorType}]:`, error.message);
+    this.logger.error(`❌ エラー記録 [${errorType}]:`, { errorType, phaseType: this.currentPhase, error });
   }
 
   /**
@@ -177,6 +203,10 @@ export class PerformanceMonitor {
     }
 
     // メトリクス更新
+    performanceMetrics.evaluations.inc({ mbti_type: mbtiType, phase: this.currentPhase });
+    performanceMetrics.qualityScore.observe({ mbti_type: mbtiType, phase: this.currentPhase }, scores.overallScore);
+    performanceMetrics.agentQuality.set({ mbti_type: mbtiType }, scores.overallScore);
+
     agentMetrics.averageScore = scores.overallScore;
     agentMetrics.bestScore = Math.max(agentMetrics.bestScore, scores.overallScore);
     agentMetrics.worstScore = Math.min(agentMetrics.worstScore, scores.overallScore);
@@ -264,7 +294,7 @@ export class PerformanceMonitor {
    */
   setAlertThresholds(thresholds: Partial<AlertThresholds>): void {
     this.alertThresholds = { ...this.alertThresholds, ...thresholds };
-    console.log('🔧 アラートしきい値を更新しました');
+    this.logger.debug('🔧 アラートしきい値を更新しました', { thresholds });
   }
 
   /**
@@ -352,6 +382,7 @@ export class PerformanceMonitor {
       // メモリ使用量記録
       const memoryUsage = this.getMemoryUsage();
       this.memorySnapshots.push(memoryUsage.percentage);
+      performanceMetrics.memoryUsage.set({}, memoryUsage.percentage);
 
       if (this.memorySnapshots.length > this.METRICS_WINDOW_SIZE) {
         this.memorySnapshots = this.memorySnapshots.slice(-this.METRICS_WINDOW_SIZE);
@@ -366,7 +397,7 @@ export class PerformanceMonitor {
       this.addToHistory();
 
     } catch (error) {
-      console.error('❌ メトリクス収集エラー:', error);
+      this.logger.error('❌ メトリクス収集エラー:', { error });
     }
   }
 
@@ -561,9 +592,9 @@ export class PerformanceMonitor {
     const thresholds = this.alertThresholds.errorRate;
 
     if (errorRate >= thresholds.critical) {
-      console.warn(`🚨 クリティカル: エラー率 ${(errorRate * 100).toFixed(1)}%`);
+      this.logger.warn(`🚨 クリティカル: エラー率 ${(errorRate * 100).toFixed(1)}%`, { errorRate, severity: 'critical' });
     } else if (errorRate >= thresholds.warning) {
-      console.warn(`⚠️ 警告: エラー率 ${(errorRate * 100).toFixed(1)}%`);
+      this.logger.warn(`⚠️ 警告: エラー率 ${(errorRate * 100).toFixed(1)}%`, { errorRate, severity: 'warning' });
     }
   }
 
@@ -571,9 +602,19 @@ export class PerformanceMonitor {
     const thresholds = this.alertThresholds.qualityScore;
 
     if (score <= thresholds.critical) {
-      console.warn(`🚨 クリティカル: ${mbtiType} 品質スコア ${(score * 100).toFixed(1)}%`);
+      this.logger.warn(`🚨 クリティカル: ${mbtiType} 品質スコア ${(score * 100).toFixed(1)}%`, {
+        mbtiType,
+        phaseType: this.currentPhase,
+        score,
+        severity: 'critical'
+      });
     } else if (score <= thresholds.warning) {
-      console.warn(`⚠️ 警告: ${mbtiType} 品質スコア ${(score * 100).toFixed(1)}%`);
+      this.logger.warn(`⚠️ 警告: ${mbtiType} 品質スコア ${(score * 100).toFixed(1)}%`, {
+        mbtiType,
+        phaseType: this.currentPhase,
+        score,
+        severity: 'warning'
+      });
     }
   }
 
@@ -589,7 +630,7 @@ export class PerformanceMonitor {
     this.metricsHistory.length = 0;
     this.metrics.clear();
 
-    console.log('🔄 パフォーマンスメトリクスをリセットしました');
+    this.logger.debug('🔄 パフォーマンスメトリクスをリセットしました');
   }
 
   // デバッグ用
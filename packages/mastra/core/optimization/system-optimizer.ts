@@ -20,6 +20,8 @@ import type {
   HealthCheckResult
 } from '../../types/system-types';
 import { MBTI_COGNITIVE_FUNCTIONS, MBTI_COMPATIBILITY_MATRIX } from '../../utils/mbti-characteristics';
+import type { RandomSource } from '../../utils/seeded-random';
+import { discussionLogger, type DiscussionLogger } from '../../utils/discussion-logger';
 
 /**
  * 変分EM最適化のための統計的パラメータ
@@ -48,6 +50,7 @@ interface LatentGraphStructure {
 export class SystemOptimizer {
   private config: SystemOptimizerConfig;
   private historyManager: HistoryManager;
+  private random: RandomSource;
   private optimizationHistory: OptimizationResult[] = [];
   private currentGraphState: LatentGraphStructure = {
     nodeEmbeddings: new Map(),
@@ -67,10 +70,21 @@ export class SystemOptimizer {
   private readonly MAX_ITERATIONS = 50;
   private readonly CONVERGENCE_THRESHOLD = 1e-4;
   private readonly LEARNING_RATE = 0.01;
+  private logger: DiscussionLogger;
 
-  constructor(config: SystemOptimizerConfig, historyManager: HistoryManager) {
+  /**
+   * @param logger 構造化ロガー（未指定時はルートロガー）
+   */
+  constructor(
+    config: SystemOptimizerConfig,
+    historyManager: HistoryManager,
+    random: RandomSource = Math.random,
+    logger: DiscussionLogger = discussionLogger.child({ component: 'SystemOptimizer' })
+  ) {
     this.config = config;
     this.historyManager = historyManager;
+    this.random = random;
+    this.logger = logger;
 
     // 初期グラフ状態の設定
     this.initializeGraphState();
@@ -133,7 +147,7 @@ export class SystemOptimizer {
       return result;
 
     } catch (error) {
-      console.error('❌ システム最適化エラー:', error);
+      this.logger.error('❌ システム最適化エラー:', { error });
       return this.createFallbackOptimization();
     }
   }
@@ -377,7 +391,7 @@ export class SystemOptimizer {
   private calculateExpectedInteraction(mbtiType: MBTIType, systemState: SystemState): number {
     const baseInteraction = 0.5;
     const qualityBonus = (systemState.averageQuality - 0.5) * 0.3;
-    const randomVariation = (Math.random() - 0.5) * 0.1;
+    const randomVariation = (this.random() - 0.5) * 0.1;
     return Math.max(0.1, Math.min(0.9, baseInteraction + qualityBonus + randomVariation));
   }
 
@@ -410,7 +424,7 @@ export class SystemOptimizer {
 
     // ランダムノイズ追加
     for (let i = 8; i < this.EMBEDDING_DIMENSION; i++) {
-      embedding[i] = (Math.random() - 0.5) * 0.2;
+      embedding[i] = (this.random() - 0.5) * 0.2;
     }
 
     return embedding;
@@ -453,7 +467,7 @@ export class SystemOptimizer {
 
   private calculateVariationalLowerBound(): number {
     // 変分下界の計算実装
-    return Math.random(); // 仮実装
+    return this.random(); // 仮実装
   }
 
   private async generateOptimizedGraph(): Promise<LatentGraphStructure> {
@@ -547,11 +561,11 @@ export class SystemOptimizer {
   }
 
   private calculateParticipationAdjustment(mbtiType: MBTIType, stats: ParticipationStats): number {
-    return 0.9 + Math.random() * 0.2; // 0.9-1.1の範囲
+    return 0.9 + this.random() * 0.2; // 0.9-1.1の範囲
   }
 
   private calculateQualityAdjustment(mbtiType: MBTIType, stats: QualityStats): number {
-    return 0.95 + Math.random() * 0.1; // 0.95-1.05の範囲
+    return 0.95 + this.random() * 0.1; // 0.95-1.05の範囲
   }
 
   private calculateGraphPositionAdjustment(mbtiType: MBTIType): number {
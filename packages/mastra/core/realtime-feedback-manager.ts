@@ -16,6 +16,9 @@ import type {
 
 import type { MBTIType } from '../types/mbti-types';
 import type { HealthCheckResult } from '../types/system-types';
+import type { RandomSource } from '../utils/seeded-random';
+import type { LLMUsageTracker } from '../utils/llm-usage';
+import { discussionLogger, type DiscussionLogger, type LogFields } from '../utils/discussion-logger';
 import { QualityEvaluatorChain } from './evaluators/quality-evaluator-chain';
 import { SystemOptimizer } from './optimization/system-optimizer';
 import { FeedbackAggregator } from './feedback/feedback-aggregator';
@@ -57,11 +60,26 @@ export class RealtimeFeedbackManager {
   private performanceMonitor: PerformanceMonitor;
 
   private config: FeedbackConfiguration;
+  private usageTracker?: LLMUsageTracker;
+  private logger: DiscussionLogger;
   private controlState: ControlState;
   private systemStatistics: SystemStatistics;
 
-  constructor(config: FeedbackConfiguration) {
+  /**
+   * @param historyManager 議論セッションで共有する履歴マネージャー（未指定時は新規作成）
+   * @param usageTracker 審判モデル評価器の呼び出しを記録する使用量トラッカー
+   * @param logger 構造化ロガー（各コンポーネントには component を付与した子ロガーを渡す）
+   */
+  constructor(
+    config: FeedbackConfiguration,
+    random: RandomSource = Math.random,
+    historyManager?: HistoryManager,
+    usageTracker?: LLMUsageTracker,
+    logger: DiscussionLogger = discussionLogger
+  ) {
     this.config = config;
+    this.usageTracker = usageTracker;
+    this.logger = logger.child({ component: 'RealtimeFeedbackManager' });
 
     // 制御状態初期化
     this.controlState = {
@@ -81,17 +99,30 @@ export class RealtimeFeedbackManager {
     };
 
     // コンポーネント初期化（依存関係に注意）
-    this.eventBus = new EventBus();
-    this.performanceMonitor = new PerformanceMonitor();
-    this.historyManager = new HistoryManager(config.adaptiveSettings);
+    this.eventBus = new EventBus(logger.child({ component: 'EventBus' }));
+    this.performanceMonitor = new PerformanceMonitor(logger.child({ component: 'PerformanceMonitor' }));
+    this.historyManager = historyManager ?? new HistoryManager(
+      config.adaptiveSettings,
+      null,
+      logger.child({ component: 'HistoryManager' })
+    );
 
     // SystemOptimizer用の設定（型安全性向上は別途実装）
-    this.systemOptimizer = new SystemOptimizer(config as any, this.historyManager as any);
-
-    this.feedbackAggregator = new FeedbackAggregator(this.historyManager, config);
-    this.evaluatorChain = new QualityEvaluatorChain();
-
-    console.log('🎯 RealtimeFeedbackManager (本格版) を作成しました');
+    this.systemOptimizer = new SystemOptimizer(
+      config as any,
+      this.historyManager as any,
+      random,
+      logger.child({ component: 'SystemOptimizer' })
+    );
+
+    this.feedbackAggregator = new FeedbackAggregator(
+      this.historyManager,
+      config,
+      logger.child({ component: 'FeedbackAggregator' })
+    );
+    this.evaluatorChain = new QualityEvaluatorChain([], logger.child({ component: 'QualityEvaluatorChain' }));
+
+    this.logger.debug('🎯 RealtimeFeedbackManager (本格版) を作成しました');
   }
 
   // ===========================================
@@ -103,12 +134,12 @@ export class RealtimeFeedbackManager {
    */
   async initialize(): Promise<void> {
     if (this.controlState.isInitialized) {
-      console.log('⚠️ システムは既に初期化されています');
+      this.logger.debug('⚠️ システムは既に初期化されています');
       return;
     }
 
     const startTime = Date.now();
-    console.log('🚀 システム初期化を開始します...');
+    this.logger.debug('🚀 システム初期化を開始します...');
 
     try {
       // 1. イベントシステム初期化
@@ -140,10 +171,10 @@ export class RealtimeFeedbackManager {
         timestamp: new Date()
       });
 
-      console.log(`✅ システム初期化完了 (${initTime}ms)`);
+      this.logger.debug(`✅ システム初期化完了 (${initTime}ms)`, { durationMs: initTime });
 
     } catch (error) {
-      console.error('❌ システム初期化失敗:', error);
+      this.logger.error('❌ システム初期化失敗:', { error });
 
       // エラーイベント発行
       this.eventBus.emitSync('system_error', {
@@ -159,7 +190,7 @@ export class RealtimeFeedbackManager {
    * 設定の動的更新
    */
   async updateConfiguration(updates: FeedbackConfigurationUpdate): Promise<void> {
-    console.log('🔧 設定を更新中...', updates);
+    this.logger.info('🔧 設定を更新中...', { updates });
 
     try {
       // 部分的な設定を安全にマージ
@@ -194,12 +225,7 @@ export class RealtimeFeedbackManager {
       }
 
       if (updates.evaluatorWeights) {
-        // updateWeightsメソッドが存在しない場合のガード
-        if (typeof (this.evaluatorChain as any).updateWeights === 'function') {
-          await (this.evaluatorChain as any).updateWeights(updates.evaluatorWeights);
-        } else {
-          console.warn('⚠️ evaluatorChain.updateWeights メソッドが存在しません');
-        }
+        this.evaluatorChain.updateWeights(updates.evaluatorWeights);
       }
 
       // 設定更新イベント
@@ -208,10 +234,10 @@ export class RealtimeFeedbackManager {
         timestamp: new Date()
       });
 
-      console.log('✅ 設定更新完了');
+      this.logger.debug('✅ 設定更新完了');
 
     } catch (error) {
-      console.error('❌ 設定更新失敗:', error);
+      this.logger.error('❌ 設定更新失敗:', { error });
 
       this.eventBus.emitSync('system_error', {
         error: error as Error,
@@ -235,14 +261,14 @@ export class RealtimeFeedbackManager {
     }
 
     if (this.controlState.isProcessing) {
-      console.warn('⚠️ 別の評価が進行中です。キューに追加します。');
+      this.logger.warn('⚠️ 別の評価が進行中です。キューに追加します。', this.contextFields(context));
     }
 
     this.controlState.isProcessing = true;
     const startTime = Date.now();
 
     try {
-      console.log(`📊 発言評価開始: ${context.mbtiType} - "${context.statement.substring(0, 50)}..."`);
+      this.logger.debug(`📊 発言評価開始: ${context.mbtiType} - "${context.statement.substring(0, 50)}..."`, this.contextFields(context));
 
       // 1. エージェント活性化
       this.controlState.activeAgents.add(context.mbtiType);
@@ -276,7 +302,8 @@ export class RealtimeFeedbackManager {
           mbtiType: context.mbtiType,
           topic: context.topic,
           phase: 'interaction',
-          currentWeight: 1.0
+          currentWeight: 1.0,
+          language: context.language
         }),
         nextGuidance: `${context.mbtiType}として次回の発言を改善してください`,
         systemRecommendations: optimizationResult.recommendations || [],
@@ -286,7 +313,7 @@ export class RealtimeFeedbackManager {
       };
 
       // 7. パフォーマンス記録
-      this.performanceMonitor.recordResponseTime('evaluation', result.executionTime);
+      this.performanceMonitor.recordResponseTime('evaluation', result.executionTime, context.mbtiType);
       this.performanceMonitor.recordQualityScore(context.mbtiType, qualityScores);
 
       // 8. 統計更新
@@ -299,12 +326,16 @@ export class RealtimeFeedbackManager {
         executionTime: result.executionTime
       });
 
-      console.log(`✅ 発言評価完了: ${context.mbtiType} - スコア: ${qualityScores.overallScore.toFixed(3)} (${result.executionTime}ms)`);
+      this.logger.debug(`✅ 発言評価完了: ${context.mbtiType} - スコア: ${qualityScores.overallScore.toFixed(3)} (${result.executionTime}ms)`, {
+        ...this.contextFields(context),
+        score: qualityScores.overallScore,
+        durationMs: result.executionTime
+      });
 
       return result;
 
     } catch (error) {
-      console.error('❌ 発言評価エラー:', error);
+      this.logger.error('❌ 発言評価エラー:', { ...this.contextFields(context), error });
 
       // エラー記録
       this.performanceMonitor.recordError('evaluation', error as Error);
@@ -346,17 +377,20 @@ export class RealtimeFeedbackManager {
       const processingTime = Date.now() - startTime;
       this.performanceMonitor.recordResponseTime('prompt_generation', processingTime);
 
-      console.log(`🎯 適応的プロンプト生成: ${params.mbtiType} (${processingTime}ms)`);
+      this.logger.debug(`🎯 適応的プロンプト生成: ${params.mbtiType} (${processingTime}ms)`, {
+        mbtiType: params.mbtiType,
+        durationMs: processingTime
+      });
 
       return adaptivePrompt;
 
     } catch (error) {
-      console.error('❌ 適応的プロンプト生成エラー:', error);
+      this.logger.error('❌ 適応的プロンプト生成エラー:', { mbtiType: params.mbtiType, error });
 
       this.performanceMonitor.recordError('prompt_generation', error as Error);
 
       // フォールバックプロンプト
-      return `${params.mbtiType}として「${params.topic}」について発言してください。`;
+      return this.feedbackAggregator.generateFallbackPrompt(params);
     }
   }
 
@@ -416,7 +450,7 @@ export class RealtimeFeedbackManager {
    * イベントシステム初期化
    */
   private async initializeEventSystem(): Promise<void> {
-    console.log('📡 イベントシステム初期化中...');
+    this.logger.debug('📡 イベントシステム初期化中...');
 
     // カスタムイベントハンドラー登録
     this.eventBus.on('quality_threshold_crossed', async (data) => {
@@ -427,14 +461,14 @@ export class RealtimeFeedbackManager {
       this.controlState.lastOptimization = new Date();
     }, { priority: 10 });
 
-    console.log('✅ イベントシステム初期化完了');
+    this.logger.debug('✅ イベントシステム初期化完了');
   }
 
   /**
    * 評価器の初期化
    */
   private async initializeEvaluators(): Promise<void> {
-    console.log('📊 評価器を初期化中...');
+    this.logger.debug('📊 評価器を初期化中...');
 
     try {
       // 基本評価器を動的インポート
@@ -447,10 +481,19 @@ export class RealtimeFeedbackManager {
         .addEvaluator(new PerformanceEvaluator(this.config.evaluatorWeights.performance))
         .addEvaluator(new MBTIAlignmentEvaluator(this.config.evaluatorWeights.mbtiAlignment));
 
-      console.log('✅ 評価器初期化完了');
+      // 審判モデル評価器（設定されている場合のみ）
+      if (this.config.llmJudge && this.config.evaluatorWeights.llmJudge > 0) {
+        const { LLMJudgeEvaluator } = await import('./evaluators/llm-judge-evaluator');
+        this.evaluatorChain.addEvaluator(new LLMJudgeEvaluator(this.config.llmJudge, this.config.evaluatorWeights.llmJudge, this.usageTracker));
+        this.logger.info(`⚖️ 審判モデル評価器を追加しました (重み: ${this.config.evaluatorWeights.llmJudge.toFixed(2)})`, {
+          weight: this.config.evaluatorWeights.llmJudge
+        });
+      }
+
+      this.logger.debug('✅ 評価器初期化完了');
 
     } catch (error) {
-      console.error('❌ 評価器初期化失敗:', error);
+      this.logger.error('❌ 評価器初期化失敗:', { error });
       throw error;
     }
   }
@@ -459,14 +502,14 @@ export class RealtimeFeedbackManager {
    * 初期健全性チェック
    */
   private async performInitialHealthCheck(): Promise<unknown> {
-    console.log('🏥 初期健全性チェック中...');
+    this.logger.debug('🏥 初期健全性チェック中...');
 
     const healthCheck = await this.performanceMonitor.performHealthCheck();
 
     if (healthCheck.overall) {
-      console.log('✅ システム健全性チェック完了');
+      this.logger.debug('✅ システム健全性チェック完了');
     } else {
-      console.warn('⚠️ システム健全性に問題があります:', healthCheck.recommendations);
+      this.logger.warn('⚠️ システム健全性に問題があります:', { recommendations: healthCheck.recommendations });
     }
 
     return healthCheck;
@@ -475,8 +518,8 @@ export class RealtimeFeedbackManager {
   /**
    * 7次元品質評価実行
    */
-  private async performQualityEvaluation(context: EvaluationContext): Promise<any> {
-    console.log(`📊 品質評価実行: ${context.mbtiType}`);
+  private async performQualityEvaluation(context: EvaluationContext): Promise<QualityScores> {
+    this.logger.debug(`📊 品質評価実行: ${context.mbtiType}`, this.contextFields(context));
 
     const startTime = Date.now();
 
@@ -488,13 +531,10 @@ export class RealtimeFeedbackManager {
       const evaluationTime = Date.now() - startTime;
       this.performanceMonitor.recordResponseTime('quality_evaluation', evaluationTime);
 
-      // 型安全性向上：scoresプロパティの安全なアクセス
-      return (evaluationResult && typeof evaluationResult === 'object' && 'scores' in evaluationResult)
-        ? (evaluationResult as any).scores
-        : this.createFallbackQualityScores();
+      return evaluationResult;
 
     } catch (error) {
-      console.error('❌ 品質評価エラー:', error);
+      this.logger.error('❌ 品質評価エラー:', { ...this.contextFields(context), error });
       this.performanceMonitor.recordError('quality_evaluation', error as Error);
 
       // フォールバック品質スコア
@@ -506,7 +546,7 @@ export class RealtimeFeedbackManager {
    * システム最適化実行
    */
   private async performSystemOptimization(qualityScores: unknown, context: EvaluationContext): Promise<any> {
-    console.log('🔧 システム最適化実行中...');
+    this.logger.debug('🔧 システム最適化実行中...', this.contextFields(context));
 
     const startTime = Date.now();
 
@@ -530,7 +570,7 @@ export class RealtimeFeedbackManager {
       return optimizationResult;
 
     } catch (error) {
-      console.error('❌ システム最適化エラー:', error);
+      this.logger.error('❌ システム最適化エラー:', { ...this.contextFields(context), error });
       this.performanceMonitor.recordError('optimization', error as Error);
 
       return this.systemOptimizer.createEmptyOptimization();
@@ -545,7 +585,7 @@ export class RealtimeFeedbackManager {
     optimizationResult: any,
     context: EvaluationContext
   ): Promise<DetailedFeedback> {
-    console.log(`💬 フィードバック統合: ${context.mbtiType}`);
+    this.logger.debug(`💬 フィードバック統合: ${context.mbtiType}`, this.contextFields(context));
 
     const startTime = Date.now();
 
@@ -570,7 +610,7 @@ export class RealtimeFeedbackManager {
       return detailedFeedback;
 
     } catch (error) {
-      console.error('❌ フィードバック統合エラー:', error);
+      this.logger.error('❌ フィードバック統合エラー:', { ...this.contextFields(context), error });
       this.performanceMonitor.recordError('feedback_aggregation', error as Error);
 
       // フォールバックフィードバック
@@ -595,7 +635,7 @@ export class RealtimeFeedbackManager {
       });
 
     } catch (error) {
-      console.error('❌ 履歴記録エラー:', error);
+      this.logger.error('❌ 履歴記録エラー:', { ...this.contextFields(context), error });
       this.performanceMonitor.recordError('history_recording', error as Error);
     }
   }
@@ -626,7 +666,7 @@ export class RealtimeFeedbackManager {
       this.systemStatistics.systemHealth = healthCheck.status;
 
     } catch (error) {
-      console.error('❌ 健全性チェックエラー:', error);
+      this.logger.error('❌ 健全性チェックエラー:', { error });
       this.systemStatistics.systemHealth = 'critical';
     }
   }
@@ -661,7 +701,10 @@ export class RealtimeFeedbackManager {
    * 品質アラート処理
    */
   private async handleQualityAlert(data: any): Promise<void> {
-    console.log(`🚨 品質アラート処理: ${data.mbtiType} - ${data.severity}`);
+    this.logger.debug(`🚨 品質アラート処理: ${data.mbtiType} - ${data.severity}`, {
+      mbtiType: data.mbtiType,
+      severity: data.severity
+    });
 
     // 重要度に応じた対応
     if (data.severity === 'critical') {
@@ -674,7 +717,7 @@ export class RealtimeFeedbackManager {
    * 緊急最適化実行
    */
   private async performEmergencyOptimization(mbtiType: MBTIType): Promise<void> {
-    console.log(`🚨 緊急最適化実行: ${mbtiType}`);
+    this.logger.warn(`🚨 緊急最適化実行: ${mbtiType}`, { mbtiType });
 
     try {
       // 緊急最適化ロジック
@@ -684,13 +727,20 @@ export class RealtimeFeedbackManager {
         participants
       );
 
-      console.log('✅ 緊急最適化完了');
+      this.logger.info('✅ 緊急最適化完了', { mbtiType });
 
     } catch (error) {
-      console.error('❌ 緊急最適化失敗:', error);
+      this.logger.error('❌ 緊急最適化失敗:', { mbtiType, error });
     }
   }
 
+  /**
+   * 評価コンテキストのログフィールド
+   */
+  private contextFields(context: EvaluationContext): LogFields {
+    return { mbtiType: context.mbtiType, phaseType: context.phase, turn: context.turnNumber };
+  }
+
   // ===========================================
   // フォールバック作成メソッド
   // ===========================================
@@ -787,13 +837,18 @@ export class RealtimeFeedbackManager {
 
   setCurrentPhase(phase: DiscussionPhase): void {
     this.controlState.currentPhase = phase;
-    console.log(`🔄 議論フェーズを変更: ${phase}`);
+    this.performanceMonitor.setPhase(phase);
+    this.logger.debug(`🔄 議論フェーズを変更: ${phase}`, { phaseType: phase });
   }
 
   getActiveAgents(): MBTIType[] {
     return Array.from(this.controlState.activeAgents);
   }
 
+  getHistoryManager(): HistoryManager {
+    return this.historyManager;
+  }
+
   // デバッグ用
   debug(): void {
     console.log('🔍 RealtimeFeedbackManager Debug Info:');
@@ -811,7 +866,7 @@ export class RealtimeFeedbackManager {
 
   // システム停止
   async shutdown(): Promise<void> {
-    console.log('🔌 システムを停止中...');
+    this.logger.debug('🔌 システムを停止中...');
 
     try {
       this.performanceMonitor.stopMonitoring();
@@ -820,10 +875,10 @@ export class RealtimeFeedbackManager {
       this.controlState.isInitialized = false;
       this.controlState.activeAgents.clear();
 
-      console.log('✅ システム停止完了');
+      this.logger.debug('✅ システム停止完了');
 
     } catch (error) {
-      console.error('❌ システム停止エラー:', error);
+      this.logger.error('❌ システム停止エラー:', { error });
     }
   }
 }
@@ -13,17 +13,41 @@ import {
   // SP Agents
   istpAgent, isfpAgent, estpAgent, esfpAgent,
   // Orchestrator
-  orchestratorAgent
+  orchestratorAgent,
+  // カスタムペルソナ
+  loadPersonaDefinitions,
+  registerPersonaAgents,
+  getCustomPersonaAgents
 } from './agents/index';
 
 // ワークフローのインポート
 import { mbtiDiscussionWorkflow } from './workflows/mbti-discussion-workflow';
+import { MastraStorageHistoryStore, setHistoryStore } from './core/history/history-store';
+import { registerMastraLogger } from './utils/discussion-logger';
+
+const storage = new LibSQLStore({
+  // stores telemetry, evals, ... into memory storage, if it needs to persist, change to file:../mastra.db
+  url: "file:../mastra.db",
+});
+
+// 📚 エージェントの学習履歴を議論をまたいで保存（M_ADS_HISTORY_PERSISTENCE=off で無効化）
+if (process.env.M_ADS_HISTORY_PERSISTENCE !== 'off') {
+  setHistoryStore(new MastraStorageHistoryStore(storage));
+}
+
+// 🎭 カスタムペルソナを起動時に登録（M_ADS_PERSONA_FILES: カンマ区切りの YAML/JSON ファイルまたはディレクトリ）
+if (process.env.M_ADS_PERSONA_FILES) {
+  registerPersonaAgents(loadPersonaDefinitions(process.env.M_ADS_PERSONA_FILES.split(',').map(path => path.trim()).filter(Boolean)));
+}
 
 export const mastra = new Mastra({
   workflows: {
     mbtiDiscussionWorkflow
   },
   agents: {
+    // 🎭 起動時に登録したカスタムペルソナ（組み込みエージェントと同名の場合は組み込みを優先）
+    ...getCustomPersonaAgents(),
+
     // 🧠 NT (Rational) - 理論的・戦略的思考
     'INTJ-Architect': intjAgent,
     'INTP-Thinker': intpAgent,
@@ -51,12 +75,276 @@ export const mastra = new Mastra({
     // 🎯 Orchestrator - 中央制御
     'M-ADS-Orchestrator': orchestratorAgent
   },
-  storage: new LibSQLStore({
-    // stores telemetry, evals, ... into memory storage, if it needs to persist, change to file:../mastra.db
-    url: "file:../mastra.db",
-  }),
+  storage,
   logger: new PinoLogger({
     name: 'M-ADS Phase 2',
     level: 'info',
   }),
 });
+
+// 📝 M_ADS_LOG_FORMAT=mastra の場合、議論ログ（構造化フィールド付き）を Mastra のロガーへ出力
+registerMastraLogger(mastra.getLogger());
+
+// 🔌 外部パッケージ（webapp等）向けの進行イベント購読API
+export {
+  subscribeDiscussionProgress,
+  type DiscussionProgressEvent,
+  type ConversationFlowTurn
+} from './utils/discussion-progress';
+
+// 🤖 LLMプロバイダーレジストリ（独自プロバイダーの登録・実行単位のモデル選択）
+export {
+  llmProviderRegistry,
+  createDefaultLLMProviderRegistry,
+  LLMProviderRegistry,
+  type LLMProviderFactory,
+  type LLMRunConfiguration,
+  type LLMSelection
+} from './utils/llm-provider-registry';
+
+export { createScriptedModel, ScriptedLanguageModel } from './utils/scripted-language-model';
+
+// 🔁 保存済み議論（JSON）の読み込み・復元
+export {
+  loadConversationFromJson,
+  loadDiscussionForResume,
+  restoreDiscussion,
+  type ResumedDiscussion
+} from './utils/conversation-loader';
+
+// 🗺️ 宣言的フェーズプラン（プリセット・スケジュール・発言者選択ポリシー）
+export {
+  phasePlanSchema,
+  phasePlanInputSchema,
+  PHASE_PLAN_PRESETS,
+  PHASE_PLAN_PRESET_NAMES,
+  resolvePhasePlan,
+  scheduleDiscussionPhases,
+  estimatePlanTurns,
+  selectPhaseSpeaker,
+  type PhaseDefinition,
+  type PhasePlan,
+  type PhasePlanInput,
+  type PhasePlanPresetName,
+  type PhaseExecutionResult,
+  type SpeakerSelectionPolicy
+} from './utils/phase-plan';
+
+// 🧩 議論ワークフローの個別ステップ（差し替え・個別実行・観測用）
+export {
+  advancedMBTIDiscussionWorkflow,
+  selectParticipantsStep,
+  initialRoundStep,
+  runDiscussionPhaseStep,
+  evaluateDiscussionStep,
+  decisionVoteStep,
+  summarizeDiscussionStep,
+  saveConversationStep
+} from './workflows/mbti-discussion-workflow';
+
+// 🔍 議論実行の比較（7次元スコア・発言バランス・重み推移・テーマ・設定の差分）
+export {
+  compareDiscussions,
+  toComparableDiscussion,
+  formatDiscussionComparison,
+  SEVEN_DIMENSION_KEYS,
+  SEVEN_DIMENSION_LABELS,
+  type ComparableDiscussion,
+  type ComparisonRow,
+  type DiscussionComparison,
+  type SevenDimensionKey
+} from './utils/discussion-comparison';
+
+// 👤 人間参加者（発言ターンでの中断・入力による再開）
+export {
+  humanParticipantInputSchema,
+  humanTurnRequestSchema,
+  humanTurnResponseSchema,
+  resolveHumanParticipant,
+  HUMAN_TURN_STEP_ID,
+  type HumanParticipant,
+  type HumanParticipantInput,
+  type HumanTurnRequest,
+  type HumanTurnResponse
+} from './utils/human-participant';
+
+// ⚔️ ディベートモード（賛成・反対の陣営割り当て・交互の反論・陣営別の論証採点）
+export {
+  debateInputSchema,
+  debateSettingsSchema,
+  debateResultSchema,
+  resolveDebateSettings,
+  selectDebateSpeaker,
+  planDebateTurn,
+  evaluateDebate,
+  DEBATE_SIDES,
+  DEBATE_SCORE_WEIGHTS,
+  type DebateInput,
+  type DebateSettings,
+  type DebateSide,
+  type DebateResult,
+  type DebateSideResult
+} from './utils/debate-mode';
+
+// 🗳️ 意思決定モード（候補案の賛否の議論・最終投票ラウンド・加重投票/即時決選による順位付け）
+export {
+  decisionInputSchema,
+  decisionSettingsSchema,
+  decisionResultSchema,
+  resolveDecisionSettings,
+  createBallotPrompt,
+  parseBallot,
+  tallyDecisionVotes,
+  DECISION_VOTING_METHODS,
+  type DecisionInput,
+  type DecisionSettings,
+  type DecisionVotingMethod,
+  type DecisionVote,
+  type DecisionOptionResult,
+  type DecisionResult
+} from './utils/decision-mode';
+
+// 🗂️ 議論セッション（runId 単位のグラフ・重み・履歴、並行実行時の状態分離と解放）
+export {
+  discussionSessionRegistry,
+  DiscussionSessionRegistry,
+  bindDiscussionSession,
+  resolveDiscussionSession,
+  releaseDiscussionSession,
+  DISCUSSION_SESSION_CONTEXT_KEY,
+  type DiscussionSession
+} from './utils/discussion-session';
+
+// 📚 学習履歴の永続化（保存先の差し替え・エクスポート・リセット）
+export {
+  setHistoryStore,
+  getHistoryStore,
+  exportPersistedHistory,
+  resetPersistedHistory,
+  InMemoryHistoryStore,
+  MastraStorageHistoryStore,
+  HISTORY_STORAGE_TABLE,
+  type HistoryStore,
+  type HistorySnapshot
+} from './core/history/history-store';
+
+// 🧪 バッチ実験（パラメータスイープの全組み合わせ実行・条件別の平均/分散集計）
+export {
+  runExperiment,
+  planExperimentRuns,
+  aggregateExperimentRuns,
+  formatExperimentTable,
+  saveExperimentResult,
+  experimentSpecSchema,
+  EXPERIMENT_METRICS,
+  type ExperimentSpec,
+  type ExperimentSpecInput,
+  type ExperimentRunRecord,
+  type ExperimentConditionAggregate,
+  type ExperimentResult
+} from './utils/experiment-runner';
+
+// 🧭 話題関連性（類似度プロバイダーの差し替え・既定はオフラインの TF-IDF）
+export {
+  calculateTopicRelevance,
+  calculateTfIdfTopicRelevance,
+  createEmbeddingSimilarityProvider,
+  setTopicSimilarityProvider,
+  getTopicSimilarityProvider,
+  TfIdfSimilarityProvider,
+  TOPIC_RELEVANCE_MAX_BOOST,
+  type TopicRelevance,
+  type TopicRelevanceScore,
+  type TopicSimilarityProvider
+} from './utils/topic-relevance';
+
+// 🌐 議論言語（指示文・プロンプト・総括・レポート・言語依存の評価ヒューリスティクスを切り替え）
+export {
+  DISCUSSION_LANGUAGES,
+  DEFAULT_DISCUSSION_LANGUAGE,
+  LANGUAGE_PROFILES,
+  discussionLanguageSchema,
+  getLanguageProfile,
+  bindDiscussionLanguage,
+  resolveDiscussionLanguage,
+  createLocalizedInstructions,
+  type DiscussionLanguage,
+  type LanguageProfile
+} from './utils/discussion-language';
+
+// 🎭 ペルソナエージェントファクトリー（YAML/JSON のペルソナ定義からエージェントを構築し、レジストリへ登録）
+export {
+  personaRegistry,
+  PersonaRegistry,
+  createPersonaAgent,
+  buildPersonaInstructions,
+  loadPersonaFile,
+  loadPersonaDefinitions,
+  registerPersonaAgents,
+  getCustomPersonaAgents,
+  personaDefinitionSchema,
+  personaFileSchema,
+  BUILTIN_PERSONAS,
+  type PersonaDefinition,
+  type PersonaDefinitionInput,
+  type RegisteredPersona
+} from './agents/index';
+
+// 💰 LLM使用量（トークン数・レイテンシ・見積もりコストをエージェント別・フェーズ別・実行全体で集計）
+export {
+  LLMUsageTracker,
+  ModelPriceTable,
+  modelPriceTable,
+  summarizeLLMUsage,
+  formatEstimatedCost,
+  llmUsageSummarySchema,
+  type LLMUsageRecord,
+  type LLMUsageTotals,
+  type LLMUsageSummary
+} from './utils/llm-usage';
+export { BEDROCK_MODEL_PRICING, type ModelPricing } from './utils/bedrock-config';
+
+// 📈 OpenMetrics エクスポーター（PerformanceMonitor の処理時間・エラー数・品質スコア・メモリ使用量）
+export {
+  metricsRegistry,
+  performanceMetrics,
+  renderOpenMetrics,
+  writeMetricsFile,
+  startMetricsServer,
+  MetricsRegistry,
+  OPENMETRICS_CONTENT_TYPE,
+  type MetricLabels
+} from './core/monitoring/metrics-exporter';
+
+// 🔭 OpenTelemetry トレーシング（ターン・評価・最適化・総括のスパンを runId 単位のトレースとして出力）
+export {
+  DiscussionTracer,
+  JsonFileSpanExporter,
+  configureTracing,
+  resolveTracingOptions,
+  flushTracing,
+  traceDiscussionSpan,
+  TRACE_ATTRIBUTES,
+  TRACE_EXPORTERS,
+  DEFAULT_TRACE_FILE,
+  type TracingOptions,
+  type TraceExporterKind
+} from './utils/discussion-tracing';
+
+// 📝 構造化ロガー（レベル付き、runId・MBTIタイプ・フェーズ・ターンを構造化フィールドとして付与）
+export {
+  DiscussionLogger,
+  discussionLogger,
+  configureLogging,
+  resolveLoggingOptions,
+  createComponentLogger,
+  registerMastraLogger,
+  LOG_LEVELS,
+  LOG_FORMATS,
+  type LogLevel,
+  type LogFormat,
+  type LogFields,
+  type LogRecord,
+  type LogSink,
+  type LoggingOptions
+} from './utils/discussion-logger';
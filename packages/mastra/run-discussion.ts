@@ -3,8 +3,42 @@
 import 'dotenv/config';
 import { mastra } from './index';
 import { parseArgs } from 'util';
-import type { MBTIType, ComprehensiveQualityReport, DiscussionTurn } from './types/mbti-types';
+import { readFileSync, writeFileSync } from 'fs';
+import { createInterface } from 'readline/promises';
+import type { MBTIType, MBTIGroup, ComprehensiveQualityReport, DiscussionTurn } from './types/mbti-types';
 import { saveConversationAsMarkdown, saveConversationAsJson, type ConversationData } from './utils/conversation-saver';
+import { loadDiscussionForResume } from './utils/conversation-loader';
+import { ALL_MBTI_TYPES } from './utils/mbti-characteristics';
+import type { ParticipantSelection } from './utils/discussion-helpers';
+import type { LLMJudgeSettings } from './types/feedback-system-types';
+import { resolvePhasePlan, PHASE_PLAN_PRESET_NAMES, type PhasePlan, type PhasePlanInput, type PhasePlanPresetName } from './utils/phase-plan';
+import { llmProviderRegistry, type LLMRunConfiguration, type LLMSelection } from './utils/llm-provider-registry';
+import { DEFAULT_LLM_JUDGE_WEIGHT } from './config/feedback-configuration';
+import { HUMAN_TURN_STEP_ID, type HumanTurnRequest } from './utils/human-participant';
+import { DEBATE_SIDES, getDebateSideLabel, type DebateInput, type DebateSide } from './utils/debate-mode';
+import { DECISION_VOTING_METHODS, getVotingMethodLabel, type DecisionInput, type DecisionResult, type DecisionVotingMethod } from './utils/decision-mode';
+import {
+  exportPersistedHistory,
+  resetPersistedHistory,
+  getHistoryStore,
+  HISTORY_PERSISTENCE_MODES,
+  type HistoryPersistenceMode
+} from './core/history/history-store';
+import { compareDiscussions, formatDiscussionComparison, toComparableDiscussion } from './utils/discussion-comparison';
+import { runExperiment, saveExperimentResult, formatExperimentTable } from './utils/experiment-runner';
+import { personaRegistry, loadPersonaDefinitions, registerPersonaAgents } from './agents/agent-factory';
+import { formatEstimatedCost, type LLMUsageTotals } from './utils/llm-usage';
+import { startMetricsServer, writeMetricsFile } from './core/monitoring/metrics-exporter';
+import {
+  configureTracing,
+  flushTracing,
+  resolveTracingOptions,
+  DEFAULT_TRACE_FILE,
+  TRACE_EXPORTERS,
+  type TraceExporterKind
+} from './utils/discussion-tracing';
+import { configureLogging, LOG_FORMATS, LOG_LEVELS, type LogFormat, type LogLevel } from './utils/discussion-logger';
+import { DISCUSSION_LANGUAGES, discussionLanguageSchema, getLanguageProfile, type DiscussionLanguage } from './utils/discussion-language';
 
 /**
  * M-ADS (MBTI Multi-Agent Discussion System) 実行スクリプト
@@ -17,10 +51,15 @@ import { saveConversationAsMarkdown, saveConversationAsJson, type ConversationDa
  * または直接認証情報:
  * - AWS_ACCESS_KEY_ID: AWSアクセスキーID
  * - AWS_SECRET_ACCESS_KEY: AWSシークレットアクセスキー
+ *
+ * Bedrock以外のプロバイダー（--provider / M_ADS_LLM_PROVIDER）:
+ * - anthropic: ANTHROPIC_API_KEY
+ * - openai-compatible: OPENAI_COMPATIBLE_BASE_URL（既定: http://localhost:11434/v1）
+ * - scripted: 認証不要（オフライン実行用の定型応答）
  */
 
 // 🎯 コマンドライン引数解析
-const { values } = parseArgs({
+const { values, positionals } = parseArgs({
   args: process.argv.slice(2),
   options: {
     'participants': { type: 'string', short: 'p' },
@@ -32,11 +71,474 @@ const { values } = parseArgs({
     'show-realtime': { type: 'boolean', short: 'r' },
     'save-conversation': { type: 'boolean', short: 's' },  // 🆕 保存オプション
     'output-format': { type: 'string', short: 'f' },      // 🆕 出力形式
-    'output-dir': { type: 'string', short: 'o' }          // 🆕 出力ディレクトリ
+    'output-dir': { type: 'string', short: 'o' },         // 🆕 出力ディレクトリ
+    'provider': { type: 'string' },                       // 🆕 LLMプロバイダー
+    'model': { type: 'string' },                          // 🆕 プロバイダー固有のモデルID
+    'base-url': { type: 'string' },                       // 🆕 OpenAI互換サーバーのURL
+    'type-provider': { type: 'string', multiple: true },  // 🆕 タイプ別プロバイダー (INTJ=scripted)
+    'judge': { type: 'string' },                          // 🆕 審判モデル (provider[:model])
+    'judge-weight': { type: 'string' },                   // 🆕 審判モデル評価器の重み
+    'types': { type: 'string' },                          // 🆕 参加タイプの明示指定 (INTJ,ENFP,...)
+    'quota': { type: 'string', multiple: true },          // 🆕 グループ割当 (NT=2,SJ=1)
+    'exclude': { type: 'string' },                        // 🆕 除外タイプ (ESTP,ESFP)
+    'seed': { type: 'string' },                           // 🆕 再現用シード
+    'history': { type: 'string' },                        // 🆕 学習履歴の永続化モード (persistent/read-only/isolated)
+    'phase-plan': { type: 'string' },                     // 🆕 フェーズプラン（プリセット名またはJSON）
+    'phases': { type: 'string' },                         // 🆕 resume時の継続フェーズ数
+    'human': { type: 'string' },                          // 🆕 人間参加者の表示名
+    'human-type': { type: 'string' },                     // 🆕 人間参加者のMBTIタイプ
+    'language': { type: 'string', short: 'l' },           // 🆕 議論言語 (ja/en)
+    'persona-file': { type: 'string', multiple: true },   // 🆕 カスタムペルソナの定義ファイル/ディレクトリ
+    'personas': { type: 'string' },                       // 🆕 議論に参加させるカスタムペルソナID
+    'debate': { type: 'boolean' },                        // 🆕 ディベートモード（賛成・反対の陣営で交互に反論）
+    'pro-team': { type: 'string' },                       // 🆕 賛成側に固定するタイプ (INTJ,ENTP)
+    'contra-team': { type: 'string' },                    // 🆕 反対側に固定するタイプ
+    'pro-position': { type: 'string' },                   // 🆕 賛成側の立場
+    'contra-position': { type: 'string' },                // 🆕 反対側の立場
+    'decision': { type: 'string' },                       // 🆕 意思決定モードの候補案 (案A|案B|案C)
+    'voting': { type: 'string' },                         // 🆕 投票方式 (weighted/ranked-choice)
+    'concurrency': { type: 'string' },                    // 🆕 experiment の同時実行数
+    'metrics-port': { type: 'string' },                   // 🆕 実行中に OpenMetrics を公開するポート
+    'metrics-file': { type: 'string' },                   // 🆕 実行後に OpenMetrics を書き出すファイル
+    'trace': { type: 'string' },                          // 🆕 トレース出力先 (otlp/file/off)
+    'trace-endpoint': { type: 'string' },                 // 🆕 OTLP/HTTP の送信先URL
+    'trace-file': { type: 'string' },                     // 🆕 トレースの JSON Lines 出力先
+    'log-level': { type: 'string' },                      // 🆕 ログレベル (debug/info/warn/error/silent)
+    'log-format': { type: 'string' },                     // 🆕 ログ形式 (pretty/json/mastra)
+    'quiet': { type: 'boolean', short: 'q' },             // 🆕 警告・エラーのみ表示 (--log-level warn)
+    'verbose': { type: 'boolean', short: 'v' }            // 🆕 詳細ログを表示 (--log-level debug)
   },
   allowPositionals: true
 });
 
+// 💬 --topic 未指定時の議論トピック（議論言語別）
+const DEFAULT_TOPICS: Record<DiscussionLanguage, string> = {
+  ja: 'AIが人間の創造性にもたらす影響について',
+  en: 'The impact of AI on human creativity'
+};
+
+/**
+ * CLI引数からLLM実行設定を構築
+ * --type-provider は "TYPE=provider" または "TYPE=provider:model" 形式
+ */
+function buildLLMRunConfiguration(): LLMRunConfiguration | undefined {
+  const llmConfig: LLMRunConfiguration = {};
+
+  if (values.provider) {
+    llmConfig.default = {
+      provider: values.provider,
+      model: values.model,
+      baseURL: values['base-url']
+    };
+  }
+
+  for (const entry of values['type-provider'] ?? []) {
+    const [agentKey, spec] = entry.split('=');
+    if (!agentKey || !spec) {
+      throw new Error(`--type-provider の形式が不正です: ${entry} (例: INTJ=scripted)`);
+    }
+    llmConfig.perType = { ...llmConfig.perType, [agentKey.toUpperCase()]: parseProviderSpec(spec) };
+  }
+
+  const selections = [llmConfig.default, ...Object.values(llmConfig.perType ?? {})];
+  for (const selection of selections) {
+    if (selection) {
+      assertProviderRegistered(selection);
+    }
+  }
+
+  return llmConfig.default || llmConfig.perType ? llmConfig : undefined;
+}
+
+/**
+ * "provider" または "provider:model" 形式のプロバイダー指定を解析
+ */
+function parseProviderSpec(spec: string): LLMSelection {
+  const separatorIndex = spec.indexOf(':');
+  return separatorIndex === -1
+    ? { provider: spec }
+    : { provider: spec.slice(0, separatorIndex), model: spec.slice(separatorIndex + 1) };
+}
+
+function assertProviderRegistered(selection: LLMSelection): void {
+  if (!llmProviderRegistry.has(selection.provider)) {
+    const available = llmProviderRegistry.list().map(p => p.id).join(', ');
+    throw new Error(`未登録のLLMプロバイダーです: ${selection.provider} (利用可能: ${available})`);
+  }
+}
+
+/**
+ * CLI引数から審判モデル評価器の設定を構築
+ * --judge-weight のみの指定時は既定の審判モデル（M_ADS_JUDGE_PROVIDER またはオーケストレーターのモデル）を使用
+ */
+function buildLLMJudgeSettings(): LLMJudgeSettings | undefined {
+  if (!values.judge && !values['judge-weight']) return undefined;
+
+  const settings: LLMJudgeSettings = {};
+  if (values.judge) {
+    settings.model = parseProviderSpec(values.judge);
+    assertProviderRegistered(settings.model);
+  }
+  if (values['judge-weight']) {
+    const weight = Number(values['judge-weight']);
+    if (!Number.isFinite(weight) || weight <= 0 || weight > 1) {
+      throw new Error(`--judge-weight は0より大きく1以下の数値で指定してください: ${values['judge-weight']}`);
+    }
+    settings.weight = weight;
+  }
+  return settings;
+}
+
+/**
+ * カンマ区切りのMBTIタイプ一覧を解析
+ */
+function parseMBTITypeList(value: string, optionName: string): MBTIType[] {
+  const types = value.split(/[\s,]+/).filter(Boolean).map(type => type.toUpperCase());
+  const invalidTypes = types.filter(type => !ALL_MBTI_TYPES.includes(type as MBTIType));
+  if (invalidTypes.length > 0) {
+    throw new Error(`${optionName} に不正なMBTIタイプがあります: ${invalidTypes.join(', ')}`);
+  }
+  return types as MBTIType[];
+}
+
+/**
+ * CLI引数から参加者選択指定を構築
+ * --quota は "NT=2,SJ=1" 形式（複数指定可）
+ */
+function buildParticipantSelection(): ParticipantSelection | undefined {
+  const selection: ParticipantSelection = {};
+
+  if (values.types) {
+    selection.types = parseMBTITypeList(values.types, '--types');
+  }
+
+  if (values.exclude) {
+    selection.exclude = parseMBTITypeList(values.exclude, '--exclude');
+  }
+
+  const quotaEntries = (values.quota ?? []).flatMap(entry => entry.split(',')).filter(Boolean);
+  for (const entry of quotaEntries) {
+    const [group, quota] = entry.split('=');
+    const groupKey = group?.trim().toUpperCase() as MBTIGroup;
+    const quotaValue = Number(quota);
+    if (!['NT', 'NF', 'SJ', 'SP'].includes(groupKey) || !Number.isInteger(quotaValue) || quotaValue < 0 || quotaValue > 4) {
+      throw new Error(`--quota の形式が不正です: ${entry} (例: NT=2,SJ=1)`);
+    }
+    selection.groupQuotas = { ...selection.groupQuotas, [groupKey]: quotaValue };
+  }
+
+  return selection.types || selection.exclude || selection.groupQuotas ? selection : undefined;
+}
+
+/**
+ * --seed を整数として解析
+ */
+function parseSeed(): number | undefined {
+  if (values.seed === undefined) return undefined;
+  const seed = Number(values.seed);
+  if (!Number.isSafeInteger(seed)) {
+    throw new Error(`--seed は整数で指定してください: ${values.seed}`);
+  }
+  return seed;
+}
+
+/**
+ * --history を学習履歴の永続化モードとして解析（未指定時はワークフローがシード指定・再開の有無から決定）
+ */
+function parseHistoryMode(): HistoryPersistenceMode | undefined {
+  if (values.history === undefined) return undefined;
+  const mode = HISTORY_PERSISTENCE_MODES.find(candidate => candidate === values.history);
+  if (!mode) {
+    throw new Error(`--history は ${HISTORY_PERSISTENCE_MODES.join('/')} のいずれかで指定してください: ${values.history}`);
+  }
+  return mode;
+}
+
+/**
+ * --language を議論言語として解析（未指定時はワークフローが再開元または既定言語を使用）
+ */
+function parseLanguage(): DiscussionLanguage | undefined {
+  if (values.language === undefined) return undefined;
+  const parsed = discussionLanguageSchema.safeParse(values.language);
+  if (!parsed.success) {
+    throw new Error(`--language は ${DISCUSSION_LANGUAGES.join('/')} のいずれかで指定してください: ${values.language}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * --persona-file のペルソナ定義を登録し、--personas で指定されたペルソナIDを返す
+ */
+function loadPersonas(): string[] | undefined {
+  if (values['persona-file']) {
+    const ids = registerPersonaAgents(loadPersonaDefinitions(values['persona-file']));
+    console.log(`🎭 カスタムペルソナを登録しました: ${ids.join(', ')}`);
+  }
+  if (values.personas === undefined) return undefined;
+  return values.personas.split(',').map(id => id.trim()).filter(Boolean);
+}
+
+/**
+ * --phase-plan をプリセット名またはフェーズ配列JSONファイルとして解析
+ */
+function parsePhasePlan(): PhasePlanPresetName | PhasePlan | undefined {
+  const value = values['phase-plan'];
+  if (value === undefined) return undefined;
+  if ((PHASE_PLAN_PRESET_NAMES as readonly string[]).includes(value)) {
+    return value as PhasePlanPresetName;
+  }
+
+  let definitions: unknown;
+  try {
+    definitions = JSON.parse(readFileSync(value, 'utf8'));
+  } catch (error) {
+    throw new Error(`--phase-plan はプリセット名（${PHASE_PLAN_PRESET_NAMES.join(', ')}）またはJSONファイルで指定してください: ${value} (${error})`);
+  }
+  return resolvePhasePlan(definitions as PhasePlanInput);
+}
+
+/**
+ * --human / --human-type から人間参加者指定を構築（--human-type のみの場合は既定の表示名）
+ */
+function buildHumanParticipant(): { name: string; mbtiType?: MBTIType } | undefined {
+  if (values.human === undefined && values['human-type'] === undefined) return undefined;
+  const [mbtiType] = values['human-type'] ? parseMBTITypeList(values['human-type'], '--human-type') : [];
+  return { name: values.human || 'あなた', mbtiType };
+}
+
+/**
+ * --debate / --pro-team / --contra-team / --pro-position / --contra-position からディベート指定を構築
+ * 陣営・立場のいずれかを指定した場合も --debate を指定したものとして扱う
+ */
+function buildDebateSettings(): DebateInput | undefined {
+  const teamOptions = { pro: values['pro-team'], contra: values['contra-team'] };
+  const positionOptions = { pro: values['pro-position'], contra: values['contra-position'] };
+  if (!values.debate && DEBATE_SIDES.every(side => teamOptions[side] === undefined && positionOptions[side] === undefined)) {
+    return undefined;
+  }
+
+  return {
+    positions: { pro: positionOptions.pro, contra: positionOptions.contra },
+    teams: {
+      pro: teamOptions.pro ? parseMBTITypeList(teamOptions.pro, '--pro-team') : undefined,
+      contra: teamOptions.contra ? parseMBTITypeList(teamOptions.contra, '--contra-team') : undefined
+    }
+  };
+}
+
+/**
+ * --decision（| 区切りの候補案）/ --voting から意思決定指定を構築
+ */
+function buildDecisionSettings(): DecisionInput | undefined {
+  const votingMethod = values.voting;
+  if (votingMethod !== undefined && !(DECISION_VOTING_METHODS as readonly string[]).includes(votingMethod)) {
+    throw new Error(`--voting は ${DECISION_VOTING_METHODS.join('/')} のいずれかを指定してください: ${votingMethod}`);
+  }
+  if (values.decision === undefined) {
+    if (votingMethod !== undefined) {
+      throw new Error('--voting は --decision と併用してください');
+    }
+    return undefined;
+  }
+
+  const options = values.decision.split('|').map(option => option.trim()).filter(Boolean);
+  if (options.length < 2) {
+    throw new Error(`--decision には候補案を | 区切りで2つ以上指定してください: ${values.decision}`);
+  }
+  return { options, votingMethod: votingMethod as DecisionVotingMethod | undefined };
+}
+
+/**
+ * 人間参加者の発言をターミナルから入力（空行は再入力）
+ */
+async function promptHumanStatement(request: HumanTurnRequest): Promise<string> {
+  console.log(`\n👤 === ${request.participantName}（${request.mbtiType}）の発言ターン ===`);
+  console.log(`Phase ${request.phase}: ${request.phaseName} / Turn ${request.turnNumber}（${request.selectionReason}）`);
+  console.log(`\n${request.guidance}\n`);
+
+  const readline = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    while (true) {
+      const statement = (await readline.question('💬 発言を入力してください > ')).trim();
+      if (statement) return statement;
+      console.log('⚠️ 発言が空です。もう一度入力してください');
+    }
+  } finally {
+    readline.close();
+  }
+}
+
+/**
+ * サブコマンドから議論再開オプションを構築
+ * - resume <file.json> [--phases N]: 保存済み議論をNフェーズ継続
+ * - rescore <file.json>: 保存済み議論を現在の評価器で再採点（新規発言なし）
+ */
+function buildResumeOptions(): { filePath: string; additionalPhases: number; rescoreTurns: boolean } | undefined {
+  const [command, filePath] = positionals;
+  if (command !== 'resume' && command !== 'rescore') return undefined;
+
+  if (!filePath) {
+    throw new Error(`${command} には保存済み会話のJSONファイルを指定してください (例: ${command} ./conversations/discussion.json)`);
+  }
+
+  if (command === 'rescore') {
+    return { filePath, additionalPhases: 0, rescoreTurns: true };
+  }
+
+  const additionalPhases = values.phases ? Number(values.phases) : 1;
+  if (!Number.isInteger(additionalPhases) || additionalPhases < 0 || additionalPhases > 8) {
+    throw new Error(`--phases は0-8の整数で指定してください: ${values.phases}`);
+  }
+  return { filePath, additionalPhases, rescoreTurns: false };
+}
+
+/**
+ * 学習履歴サブコマンド
+ * - history export [file.json]: 保存済みの学習履歴をJSONで出力（ファイル未指定時は標準出力）
+ * - history reset: 保存済みの学習履歴を削除
+ */
+async function runHistoryCommand(): Promise<void> {
+  const [, action, filePath] = positionals;
+
+  if (!getHistoryStore()) {
+    throw new Error('学習履歴の永続化が無効です（M_ADS_HISTORY_PERSISTENCE=off）');
+  }
+
+  if (action === 'export') {
+    const snapshot = await exportPersistedHistory();
+    if (!snapshot) {
+      console.log('📚 保存済みの学習履歴はありません');
+      return;
+    }
+
+    const json = JSON.stringify(snapshot, null, 2);
+    if (filePath) {
+      writeFileSync(filePath, json, 'utf8');
+      console.log(`📚 学習履歴をエクスポートしました: ${filePath}（${Object.keys(snapshot.agents).length}タイプ / 評価${snapshot.globalHistory.length}件）`);
+    } else {
+      console.log(json);
+    }
+    return;
+  }
+
+  if (action === 'reset') {
+    await resetPersistedHistory();
+    console.log('🗑️ 保存済みの学習履歴をリセットしました');
+    return;
+  }
+
+  throw new Error(`history には export または reset を指定してください: ${action ?? '(未指定)'}`);
+}
+
+/**
+ * 比較サブコマンド
+ * - compare <a.json> <b.json> [...]: 保存済み議論を並べて1件目との差分を表示
+ */
+function runCompareCommand(): void {
+  const filePaths = positionals.slice(1);
+  if (filePaths.length < 2) {
+    throw new Error('compare には保存済み会話のJSONファイルを2つ以上指定してください (例: compare a.json b.json)');
+  }
+
+  const discussions = filePaths.map(filePath => toComparableDiscussion(loadDiscussionForResume(filePath), filePath));
+  console.log('🔍 === 議論の比較 ===\n');
+  console.log(formatDiscussionComparison(compareDiscussions(discussions)));
+}
+
+/**
+ * ログレベル・形式を設定（--quiet / --verbose は --log-level の短縮形、未指定時は M_ADS_LOG_LEVEL / M_ADS_LOG_FORMAT）
+ */
+function configureCliLogging(): void {
+  const level = values['log-level'] ?? (values.verbose ? 'debug' : values.quiet ? 'warn' : undefined);
+  const format = values['log-format'];
+  if (level !== undefined && !(LOG_LEVELS as readonly string[]).includes(level)) {
+    throw new Error(`--log-level は ${LOG_LEVELS.join('/')} のいずれかを指定してください: ${level}`);
+  }
+  if (format !== undefined && !(LOG_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(`--log-format は ${LOG_FORMATS.join('/')} のいずれかを指定してください: ${format}`);
+  }
+
+  configureLogging({
+    ...(level !== undefined ? { level: level as LogLevel } : {}),
+    ...(format !== undefined ? { format: format as LogFormat } : {})
+  });
+}
+
+/**
+ * ログ設定・メトリクス・トレースのスタンドアロン出力付きで実行
+ * - --metrics-port <port>: 実行中は http://127.0.0.1:<port>/metrics で OpenMetrics を公開
+ * - --metrics-file <path>: 実行後に OpenMetrics テキストをファイルへ書き出し
+ * - --trace <otlp|file|off>: スパンの出力先（未指定時は M_ADS_TRACE_EXPORTER）、終了前に未送信分を送信
+ */
+async function withTelemetryExport(run: () => Promise<void>): Promise<void> {
+  configureCliLogging();
+
+  const tracing = resolveTracingOptions();
+  const exporter = values.trace ?? (values['trace-file'] ? 'file' : undefined);
+  if (exporter !== undefined && !(TRACE_EXPORTERS as readonly string[]).includes(exporter)) {
+    throw new Error(`--trace は ${TRACE_EXPORTERS.join('/')} のいずれかを指定してください: ${exporter}`);
+  }
+  configureTracing({
+    exporter: (exporter as TraceExporterKind | undefined) ?? tracing.exporter,
+    endpoint: values['trace-endpoint'] ?? tracing.endpoint,
+    filePath: values['trace-file'] ?? tracing.filePath
+  });
+
+  const port = values['metrics-port'] !== undefined ? Number(values['metrics-port']) : undefined;
+  if (port !== undefined && (!Number.isInteger(port) || port < 1 || port > 65535)) {
+    throw new Error(`--metrics-port は1〜65535の整数で指定してください: ${values['metrics-port']}`);
+  }
+
+  const server = port !== undefined ? await startMetricsServer(port) : undefined;
+  if (server) {
+    console.log(`📈 メトリクスを公開中: http://127.0.0.1:${port}/metrics`);
+  }
+
+  try {
+    await run();
+  } finally {
+    if (values['metrics-file']) {
+      console.log(`📈 メトリクスを書き出しました: ${writeMetricsFile(values['metrics-file'])}`);
+    }
+    server?.close();
+    await flushTracing();
+  }
+}
+
+/**
+ * 実験サブコマンド
+ * - experiment <spec.json> [--concurrency N]: 実験仕様の全組み合わせを実行し、条件ごとの平均・分散を集計
+ */
+async function runExperimentCommand(): Promise<void> {
+  const specPath = positionals[1];
+  if (!specPath) {
+    throw new Error('experiment には実験仕様のJSONファイルを指定してください (例: experiment sweep.json)');
+  }
+
+  const concurrency = values.concurrency ? Number(values.concurrency) : undefined;
+  if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > 8)) {
+    throw new Error(`--concurrency は1〜8の整数で指定してください: ${values.concurrency}`);
+  }
+
+  const workflow = mastra.getWorkflow('mbtiDiscussionWorkflow');
+  const spec = JSON.parse(readFileSync(specPath, 'utf8'));
+  const result = await runExperiment(workflow, spec, {
+    concurrency,
+    onRunComplete: (record, completed, total) => {
+      const status = record.status === 'success' && record.metrics
+        ? `✅ ${(record.metrics.overallScore * 100).toFixed(1)}% (${record.grade})`
+        : `❌ ${record.error}`;
+      console.log(`  [${completed}/${total}] ${record.conditionId} #${record.repetition + 1}: ${status}（${(record.durationMs / 1000).toFixed(1)}秒）`);
+    }
+  });
+
+  const { jsonPath, markdownPath } = saveExperimentResult(result);
+  console.log('\n📊 === 実験結果 ===\n');
+  console.log(formatExperimentTable(result));
+  console.log(`\n💾 保存しました: ${jsonPath}`);
+  console.log(`💾 保存しました: ${markdownPath}`);
+}
+
 async function runDiscussion(): Promise<void> {
   console.log('🚀 === M-ADS Phase 2 完全版 ===');
   console.log('MBTI Multi-Agent Discussion System');
@@ -45,8 +547,12 @@ async function runDiscussion(): Promise<void> {
   console.log('- リアルタイム最適化機能');
   console.log('- グラフトポロジー最適化\n');
   
+  const resume = buildResumeOptions();
+  const resumed = resume ? loadDiscussionForResume(resume.filePath) : undefined;
+  const language = parseLanguage();
+
   const config = {
-    topic: values.topic || 'AIが人間の創造性にもたらす影響について',
+    topic: resumed?.topic || values.topic || DEFAULT_TOPICS[language ?? 'ja'],
     participantCount: values.participants ? parseInt(values.participants) : 8, // Phase 2完全版: 8エージェントでテスト
     enableRealtimeOptimization: !values['no-realtime'],
     enableGraphOptimization: !values['no-graph'],
@@ -55,12 +561,41 @@ async function runDiscussion(): Promise<void> {
     showRealtimeDetails: values['show-realtime'] || false,
     saveConversation: values['save-conversation'] || false,              // 🆕 
     outputFormat: values['output-format'] || 'markdown',                 // 🆕 markdown or json
-    outputDir: values['output-dir'] || './conversations'                 // 🆕
+    outputDir: values['output-dir'] || './conversations',                // 🆕
+    llm: buildLLMRunConfiguration(),                                     // 🆕 LLMプロバイダー設定
+    llmJudge: buildLLMJudgeSettings(),                                   // 🆕 審判モデル評価器
+    participants: buildParticipantSelection(),                           // 🆕 参加者選択指定
+    seed: parseSeed(),                                                   // 🆕 再現用シード
+    historyMode: parseHistoryMode(),                                     // 🆕 学習履歴の永続化モード
+    phasePlan: parsePhasePlan(),                                         // 🆕 フェーズプラン
+    humanParticipant: buildHumanParticipant(),                           // 🆕 人間参加者
+    language,                                                            // 🆕 議論言語
+    personas: loadPersonas(),                                            // 🆕 カスタムペルソナ
+    debate: buildDebateSettings(),                                       // 🆕 ディベートモード
+    decision: buildDecisionSettings(),                                   // 🆕 意思決定モード
+    resume                                                               // 🆕 議論再開・再採点
   };
   
   console.log('\n🎯 議論設定:');
   console.log(`  トピック: "${config.topic}"`);
-  console.log(`  参加者数: ${config.participantCount} MBTIタイプ`);
+  if (resume && resumed) {
+    console.log(`  再開元: ${resumed.sourcePath}`);
+    console.log(`  復元: ${resumed.participantTypes.join(', ')} / ${resumed.conversationFlow.length}ターン / ${resumed.completedPhases}フェーズ完了済み`);
+    console.log(resume.additionalPhases > 0
+      ? `  継続フェーズ数: ${resume.additionalPhases}`
+      : '  モード: 再採点（新規発言なし）');
+  }
+  if (config.participants?.types) {
+    console.log(`  参加タイプ: ${config.participants.types.join(', ')}`);
+  } else {
+    console.log(`  参加者数: ${config.participantCount} MBTIタイプ`);
+  }
+  if (config.participants?.groupQuotas) {
+    console.log(`  グループ割当: ${Object.entries(config.participants.groupQuotas).map(([group, quota]) => `${group}=${quota}`).join(', ')}`);
+  }
+  if (config.participants?.exclude) {
+    console.log(`  除外タイプ: ${config.participants.exclude.join(', ')}`);
+  }
   console.log(`  リアルタイム最適化: ${config.enableRealtimeOptimization ? 'ON' : 'OFF'}`);
   console.log(`  グラフ最適化: ${config.enableGraphOptimization ? 'ON' : 'OFF'}`);
   console.log(`  品質閾値: ${(config.qualityThreshold * 100).toFixed(0)}%`);
@@ -68,6 +603,44 @@ async function runDiscussion(): Promise<void> {
     console.log(`  会話保存: ON (${config.outputFormat.toUpperCase()}形式)`);
     console.log(`  出力先: ${config.outputDir}`);
   }
+  if (config.seed !== undefined) {
+    console.log(`  シード: ${config.seed}`);
+  }
+  if (config.historyMode !== undefined) {
+    console.log(`  学習履歴: ${config.historyMode}`);
+  }
+  if (config.language !== undefined) {
+    console.log(`  議論言語: ${getLanguageProfile(config.language).label}`);
+  }
+  if (config.personas) {
+    console.log(`  カスタムペルソナ: ${config.personas.map(id => `${id} (${personaRegistry.require(id).definition.mbtiType})`).join(', ')}`);
+  }
+  if (config.humanParticipant) {
+    console.log(`  人間参加者: ${config.humanParticipant.name}${config.humanParticipant.mbtiType ? ` (${config.humanParticipant.mbtiType})` : '（タイプ自動割当）'}`);
+  }
+  if (config.debate) {
+    const { teams, positions } = config.debate;
+    DEBATE_SIDES.forEach(side => {
+      const members = teams?.[side];
+      console.log(`  ディベート ${getDebateSideLabel(side)}側: ${positions?.[side] ?? '既定の立場'}${members ? ` (${members.join(', ')})` : '（タイプ自動割当）'}`);
+    });
+  }
+  if (config.decision) {
+    console.log(`  意思決定の候補案: ${config.decision.options.join(' / ')}（${getVotingMethodLabel(config.decision.votingMethod ?? 'weighted')}）`);
+  }
+  if (config.phasePlan !== undefined) {
+    console.log(`  フェーズプラン: ${typeof config.phasePlan === 'string' ? config.phasePlan : config.phasePlan.map(phase => phase.name).join(' → ')}`);
+  }
+  console.log(`  LLMプロバイダー: ${config.llm?.default?.provider ?? process.env.M_ADS_LLM_PROVIDER ?? 'bedrock'}`);
+  if (config.llm?.perType) {
+    Object.entries(config.llm.perType).forEach(([agentKey, selection]) => {
+      console.log(`    ${agentKey}: ${selection.provider}${selection.model ? ` (${selection.model})` : ''}`);
+    });
+  }
+  if (config.llmJudge) {
+    const judgeModel = config.llmJudge.model;
+    console.log(`  審判モデル: ${judgeModel ? `${judgeModel.provider}${judgeModel.model ? ` (${judgeModel.model})` : ''}` : process.env.M_ADS_JUDGE_PROVIDER ?? 'オーケストレーターのモデル'}（重み: ${config.llmJudge.weight ?? DEFAULT_LLM_JUDGE_WEIGHT}）`);
+  }
   
   console.log('\n📊 Phase 2 完全版議論を開始します...\n');
   
@@ -91,19 +664,47 @@ async function runDiscussion(): Promise<void> {
     const run = await workflow.createRunAsync();
     
     // ワークフローを開始
-    const workflowResult = await run.start({
+    let workflowResult = await run.start({
       inputData: {
         topic: config.topic,
         participantCount: config.participantCount,
+        participants: config.participants,
         enableRealtimeOptimization: config.enableRealtimeOptimization,
         enableGraphOptimization: config.enableGraphOptimization,
         qualityThreshold: config.qualityThreshold,
         saveConversation: config.saveConversation,
         outputFormat: config.outputFormat as 'markdown' | 'json',
-        outputDirectory: config.outputDir
+        outputDirectory: config.outputDir,
+        llm: config.llm,
+        llmJudge: config.llmJudge,
+        seed: config.seed,
+        historyMode: config.historyMode,
+        language: config.language,
+        personas: config.personas,
+        resume: config.resume,
+        phasePlan: config.phasePlan,
+        humanParticipant: config.humanParticipant,
+        debate: config.debate,
+        decision: config.decision
       }
     });
 
+    // 👤 人間参加者の発言ターンで中断した場合は入力を受けて再開
+    while (workflowResult.status === 'suspended') {
+      const suspendedStep = workflowResult.steps[HUMAN_TURN_STEP_ID];
+      const request = suspendedStep?.status === 'suspended' ? suspendedStep.suspendPayload as HumanTurnRequest : undefined;
+      if (!request) {
+        console.error(`❌ 想定外のステップで中断しました: ${workflowResult.suspended.map(path => path.join('.')).join(', ')}`);
+        return;
+      }
+
+      const statement = await promptHumanStatement(request);
+      workflowResult = await run.resume({
+        step: HUMAN_TURN_STEP_ID,
+        resumeData: { turnNumber: request.turnNumber, statement }
+      });
+    }
+
     // 実行結果を確認
     if (workflowResult.status !== 'success') {
       console.error(`❌ ワークフローの実行に失敗しました: ${workflowResult.status}`);
@@ -119,7 +720,13 @@ async function runDiscussion(): Promise<void> {
     // 🔄 会話データの抽出と変換
     if (result.conversationFlow) {
       conversationTurns = result.conversationFlow.map((turn: any): DiscussionTurn => ({
-        agentType: turn.speakerMbtiType as MBTIType,
+        agentType: turn.speakerMbtiType as DiscussionTurn['agentType'],
+        speakerKind: turn.speakerKind,
+        speakerName: turn.speakerName,
+        interventionType: turn.interventionType,
+        debateSide: turn.debateSide,
+        rebuttalTo: turn.rebuttalTo,
+        phaseType: turn.phaseType,
         message: turn.statement,
         timestamp: turn.timestamp,
         weight: turn.dynamicWeight,
@@ -146,13 +753,30 @@ async function runDiscussion(): Promise<void> {
         turns: conversationTurns,
         qualityReport: convertToQualityReport(result),
         metadata: {
-          participantCount: config.participantCount,
+          participantCount: participantTypes.length,
           totalTurns: conversationTurns.length,
+          seed: result.seed,
+          language: result.language,
+          personas: result.personas,
+          completedPhases: result.completedPhases,
+          phasePlan: result.phasePlan,
+          resumedFrom: resumed?.sourcePath,
+          humanParticipant: result.humanParticipant,
+          debate: result.debate,
+          decision: result.decision,
           enabledFeatures: {
             realtimeOptimization: config.enableRealtimeOptimization,
             graphOptimization: config.enableGraphOptimization
           }
-        }
+        },
+        debateResult: result.debateResult,
+        decisionResult: result.decisionResult,
+        conversationFlow: result.conversationFlow,
+        participantStates: result.participantStates.map(state => ({
+          ...state,
+          mbtiType: state.mbtiType as MBTIType
+        })),
+        usage: result.usage
       }, config.outputFormat, config.outputDir);
     }
 
@@ -260,6 +884,65 @@ function displayDetailedResults(result: any, config: any) {
   console.log(`  参加MBTIタイプ: ${participantTypes.join(', ')}`);
   console.log(`  総発言数: ${totalStatements}`);
   console.log(`  総ターン数: ${totalTurns}`);
+  if (result.seed !== undefined) {
+    console.log(`  シード: ${result.seed}（--seed ${result.seed} で再現）`);
+  }
+  if (result.history) {
+    console.log(`  学習履歴: ${result.history.mode}${result.history.savedAt ? `（${result.history.savedAt} 保存・評価${result.history.evaluations}件）` : ''}`);
+  }
+
+  // 🗺️ フェーズ実行結果
+  if (result.phases?.length > 0) {
+    console.log('\n🗺️ フェーズ:');
+    result.phases.forEach((phase: any) => {
+      const exitNote = phase.exitedEarly
+        ? `（終了条件により早期終了: ${(phase.exitMetricValue * 100).toFixed(1)}%）`
+        : '';
+      console.log(`  Phase ${phase.phase} ${phase.name} [${phase.type}]: ${phase.turns}/${phase.turnBudget}ターン${exitNote}`);
+    });
+  }
+
+  // ⚔️ ディベート結果（陣営別の論証の強さと勝敗）
+  const debateResult = result.debateResult;
+  if (debateResult) {
+    console.log('\n⚔️ ディベート結果:');
+    DEBATE_SIDES.forEach(side => {
+      const sideResult = debateResult.sides[side];
+      console.log(`  ${getDebateSideLabel(side)}側（${sideResult.position}）: ${sideResult.members.join(', ')}`);
+      console.log(`    発言 ${sideResult.statements}回（反論 ${sideResult.rebuttals}回） | 論証の強さ ${(sideResult.argumentStrength * 100).toFixed(1)}% | 対立解決 ${(sideResult.conflictResolution * 100).toFixed(1)}% | スコア ${(sideResult.score * 100).toFixed(1)}%`);
+    });
+    if (debateResult.unscoredSides.length > 0) {
+      console.log(`  ⚠️ 判定なし（発言のない陣営: ${debateResult.unscoredSides.map((side: DebateSide) => getDebateSideLabel(side)).join(', ')}）`);
+    } else {
+      console.log(`  🏆 ${debateResult.winner === 'draw' ? '引き分け' : `${getDebateSideLabel(debateResult.winner)}側の勝ち`}（差 ${(debateResult.margin * 100).toFixed(1)}pt）`);
+    }
+  }
+
+  // 🗳️ 意思決定の投票結果（順位付きの決定とタイプ別の投票理由）
+  const decisionResult: DecisionResult | undefined = result.decisionResult;
+  if (decisionResult) {
+    console.log(`\n🗳️ 意思決定（${getVotingMethodLabel(decisionResult.votingMethod)}）:`);
+    decisionResult.ranking.forEach(entry => {
+      console.log(`  ${entry.rank}. ${entry.option} - スコア ${(entry.score * 100).toFixed(1)}% | 第1希望 ${entry.firstChoiceVotes}票${entry.supporters.length > 0 ? ` (${entry.supporters.join(', ')})` : ''}`);
+    });
+    console.log(decisionResult.winner === null
+      ? `  ⚠️ 決定なし（有効票なし / 棄権 ${decisionResult.abstentions.length}票）`
+      : `  🏆 決定: ${decisionResult.winner}（有効票 ${decisionResult.validVotes}票 / 棄権 ${decisionResult.abstentions.length}票）`);
+    decisionResult.votes.forEach(vote => {
+      console.log(`  ${vote.mbtiType} (重み ${vote.weight.toFixed(2)}): ${vote.parsed ? vote.ranking.join(' > ') : '棄権（順位を読み取れず）'}`);
+      console.log(`    ${vote.rationale.replace(/\s+/g, ' ')}`);
+    });
+  }
+
+  // 🧭 話題関連性（初期重みの修正係数）
+  if (result.topicRelevance) {
+    console.log(`\n🧭 話題関連性 (${result.topicRelevance.provider}):`);
+    Object.entries(result.topicRelevance.types)
+      .sort(([, a]: any, [, b]: any) => b.similarity - a.similarity)
+      .forEach(([type, relevance]: [string, any]) => {
+        console.log(`  ${type}: 類似度 ${relevance.similarity.toFixed(3)} → 重み×${relevance.modifier.toFixed(2)}`);
+      });
+  }
 
   // 🎯 7次元品質評価
   const metrics = result.comprehensiveMetrics;
@@ -295,6 +978,24 @@ function displayDetailedResults(result: any, config: any) {
     console.log(`  グラフ最適化回数: ${optimization.graphOptimizations}回`);
   }
 
+  // 💰 LLM使用量（トークン数・見積もりコスト）
+  const usage = result.usage;
+  if (usage?.total.calls > 0) {
+    const formatTotals = (totals: LLMUsageTotals) =>
+      `${totals.calls}回 / 入力 ${totals.promptTokens.toLocaleString()} + 出力 ${totals.completionTokens.toLocaleString()} トークン / ${formatEstimatedCost(totals)}`;
+    console.log('\n💰 LLM使用量:');
+    console.log(`  合計: ${formatTotals(usage.total)}`);
+    console.log('  エージェント別:');
+    Object.entries(usage.byAgent).forEach(([agent, totals]: [string, any]) => {
+      console.log(`    ${agent}: ${formatTotals(totals)}`);
+    });
+    console.log('  フェーズ別:');
+    usage.byPhase.forEach((entry: any) => {
+      const label = entry.phase === null ? 'フェーズ外（総括）' : `${entry.phase}. ${entry.phaseName}`;
+      console.log(`    ${label}: ${formatTotals(entry)}`);
+    });
+  }
+
   // 🏆 総合評価レポート
   const report = result.advancedReport;
   if (report) {
@@ -340,7 +1041,16 @@ function displayDetailedResults(result: any, config: any) {
     console.log('\n💬 === 会話の流れ ===');
     result.conversationFlow.forEach((turn: any, index: number) => {
       const timestamp = new Date(turn.timestamp).toLocaleTimeString('ja-JP');
-      console.log(`\n[Turn ${turn.turnNumber}] ${turn.speakerMbtiType} (${timestamp})`);
+      if (turn.speakerKind === 'orchestrator') {
+        console.log(`\n[Turn ${turn.turnNumber}] 🎯 オーケストレーター介入 - ${turn.interventionType} (${timestamp})`);
+        console.log(turn.statement);
+        return;
+      }
+      const speaker = turn.speakerName ? `👤 ${turn.speakerName} / ${turn.speakerMbtiType}` : turn.speakerMbtiType;
+      const debate = turn.debateSide
+        ? ` [${getDebateSideLabel(turn.debateSide)}${turn.rebuttalTo !== undefined ? ` ↩️ Turn ${turn.rebuttalTo} への反論` : ''}]`
+        : '';
+      console.log(`\n[Turn ${turn.turnNumber}] ${speaker}${debate} (${timestamp})`);
       console.log(turn.statement);
       console.log(`信頼度: ${(turn.confidence * 100).toFixed(1)}% | 関連度: ${(turn.relevance * 100).toFixed(1)}% | 重み: ${turn.dynamicWeight.toFixed(2)} | 品質: ${(turn.qualityContribution * 100).toFixed(1)}%`);
     });
@@ -362,10 +1072,42 @@ function showHelp() {
   console.log('基本実行:');
   console.log('  npm run discussion');
   console.log('  npm run discussion "カスタムトピック"\n');
+
+  console.log('保存済み議論（JSON）の再開・再採点:');
+  console.log('  npm run discussion -- resume <file.json> [--phases N]  Nフェーズ継続（既定: 1）');
+  console.log('  npm run discussion -- rescore <file.json>              現在の評価器で再採点\n');
+
+  console.log('保存済み議論（JSON）の比較:');
+  console.log('  npm run discussion -- compare <a.json> <b.json> [...]  7次元スコア・発言バランス・重み推移・テーマ・設定の差分\n');
+
+  console.log('パラメータスイープ実験（トピック × 参加者セット × 機能フラグ × 繰り返し）:');
+  console.log('  npm run discussion -- experiment <spec.json> [--concurrency N]  全組み合わせを実行し指標の平均・分散を集計\n');
+
+  console.log('エージェントの学習履歴（議論をまたいで蓄積、M_ADS_HISTORY_PERSISTENCE=off で無効化）:');
+  console.log('  npm run discussion -- history export [file.json]      保存済みの学習履歴をJSONで出力');
+  console.log('  npm run discussion -- history reset                   保存済みの学習履歴を削除\n');
   
   console.log('オプション:');
   console.log('  --topic, -t <text>         議論トピックを指定');
   console.log('  --participants, -p <num>   参加MBTIタイプ数 (4-16)');
+  console.log('  --types <list>             参加タイプを明示指定 (例: INTJ,ENFP,ISTJ,ESFP)');
+  console.log('  --quota <G=n,...>          グループ別の参加人数 (例: NT=2,SJ=1、残りは他グループから選択)');
+  console.log('  --exclude <list>           参加させないタイプ (例: ESTP,ESFP)');
+  console.log('  --seed <int>               再現用シード（同じシードで参加者・発言順を再現）');
+  console.log(`  --history <mode>           学習履歴の永続化 (${HISTORY_PERSISTENCE_MODES.join('/')}, 既定: --seed・再開時は isolated)`);
+  console.log(`  --language, -l <lang>      議論言語 (${DISCUSSION_LANGUAGES.join('/')}, 既定: ja / 再開時は保存時の言語)`);
+  console.log('  --persona-file <path>      カスタムペルソナの定義 (YAML/JSON ファイルまたはディレクトリ, 複数可)');
+  console.log('  --personas <id,...>        参加させるカスタムペルソナ (各ペルソナが自分のMBTIタイプの枠を担当)');
+  console.log(`  --phase-plan <name|file>   フェーズプラン (${PHASE_PLAN_PRESET_NAMES.join('/')} またはフェーズ配列のJSONファイル)`);
+  console.log('  --human <name>             人間参加者として議論に参加（発言ターンで入力待ち）');
+  console.log('  --human-type <type>        人間参加者のMBTIタイプ（未指定時は未参加のタイプを自動割当）');
+  console.log('  --debate                   ディベートモード（賛成・反対の陣営で交互に反論、既定のフェーズプラン: debate）');
+  console.log('  --pro-team <list>          賛成側に固定するタイプ (例: INTJ,ENTP、残りは自動割当)');
+  console.log('  --contra-team <list>       反対側に固定するタイプ');
+  console.log('  --pro-position <text>      賛成側の立場 (既定: トピックの主張を支持する)');
+  console.log('  --contra-position <text>   反対側の立場 (既定: トピックの主張に異議を唱える)');
+  console.log('  --decision <A|B|...>       意思決定モード（| 区切りの候補案の賛否を論じ、最後に投票して順位付け）');
+  console.log(`  --voting <method>          投票方式 (${DECISION_VOTING_METHODS.join('/')}, 既定: weighted = 動的重みによる加重投票)`);
   console.log('  --no-realtime             リアルタイム最適化を無効化');
   console.log('  --no-graph                グラフ最適化を無効化');
   console.log('  --quality-threshold, -q    品質閾値 (0.5-1.0)');
@@ -373,12 +1115,44 @@ function showHelp() {
   console.log('  --show-realtime, -r        リアルタイム最適化詳細を表示');
   console.log('  --save-conversation, -s     会話をファイルに保存');
   console.log('  --output-format, -f         出力形式 (markdown/json)');
-  console.log('  --output-dir, -o           出力ディレクトリ\n');
+  console.log('  --output-dir, -o           出力ディレクトリ');
+  console.log('  --provider <id>            LLMプロバイダー (bedrock/anthropic/openai-compatible/scripted)');
+  console.log('  --model <id>               プロバイダー固有のモデルID（scripted では応答JSONのパス）');
+  console.log('  --base-url <url>           OpenAI互換サーバーのURL');
+  console.log('  --type-provider <T=p[:m]>  MBTIタイプ別のプロバイダー指定（複数可, ORCHESTRATOR も可）');
+  console.log('  --judge <provider[:model]> 審判モデルで各発言を7次元ルーブリック採点（LLM-as-judge）');
+  console.log('  --judge-weight <0-1>       審判モデル評価器の重み（既定: 0.3）');
+  console.log('  --concurrency <num>        experiment の同時実行数 (1-8, 既定: 仕様の concurrency)');
+  console.log('  --metrics-port <port>      実行中に http://127.0.0.1:<port>/metrics で OpenMetrics を公開');
+  console.log('  --metrics-file <path>      実行後に OpenMetrics テキストをファイルへ書き出し');
+  console.log('  --trace <otlp|file|off>    ターン・評価・最適化・総括を OpenTelemetry スパンとして出力');
+  console.log('  --trace-endpoint <url>     OTLP/HTTP の送信先 (既定: http://localhost:4318/v1/traces)');
+  console.log(`  --trace-file <path>        スパンの JSON Lines 出力先 (既定: ${DEFAULT_TRACE_FILE})`);
+  console.log('  --log-level <level>        ログレベル (debug/info/warn/error/silent, 既定: info)');
+  console.log('  --log-format <format>      ログ形式 (pretty: コンソール / json: JSON Lines / mastra: Mastra のロガー)');
+  console.log('  --quiet, -q                警告・エラーのみ表示（--log-level warn）');
+  console.log('  --verbose, -v              詳細ログを表示（--log-level debug）\n');
   
   console.log('例:');
   console.log('  npm run discussion -- --participants 12 --show-conversation');
   console.log('  npm run discussion -- --topic "リモートワークの未来" --no-realtime');
   console.log('  npm run discussion -- --participants 16 --show-realtime -c');
+  console.log('  npm run discussion -- --types INTJ,ENFP,ISTJ,ESFP');
+  console.log('  npm run discussion -- --participants 6 --quota NT=2,SJ=1 --exclude ESTP');
+  console.log('  npm run discussion -- --provider scripted  # AWSなしでオフライン実行');
+  console.log('  npm run discussion -- --provider scripted --seed 42  # 完全に再現可能な実行');
+  console.log('  npm run discussion -- --phase-plan brainstorm  # 短いブレインストーミング');
+  console.log('  npm run discussion -- --human 山田 --human-type INFP  # 人間参加者として議論に参加');
+  console.log('  npm run discussion -- --debate --topic "週4日勤務を導入すべきか" --pro-team ENTP,ENFP  # 賛成・反対に分かれてディベート');
+  console.log('  npm run discussion -- --topic "次期CRMの選定" --decision "Salesforce|HubSpot|自社開発" --voting ranked-choice  # 候補案に投票して決定');
+  console.log('  npm run discussion -- --language en --topic "The future of remote work"  # 英語で議論');
+  console.log('  npm run discussion -- --persona-file ./personas --personas skeptical-cfo  # カスタムペルソナを参加させる');
+  console.log('  npm run discussion -- --provider openai-compatible --model llama3.1 --type-provider INTJ=anthropic');
+  console.log('  npm run discussion -- --judge anthropic:claude-3-7-sonnet-20250219 --judge-weight 0.5  # 審判モデルで採点');
+  console.log('  npm run discussion -- experiment sweep.json --metrics-port 9464  # 実験中のメトリクスを Prometheus で収集');
+  console.log('  npm run discussion -- --provider scripted --trace file  # スパンを ./traces に JSON Lines で出力');
+  console.log('  npm run discussion -- --provider scripted --quiet  # 議論の進行ログを省略して結果のみ表示');
+  console.log('  npm run discussion -- --log-format json > discussion.log  # runId・MBTIタイプ・フェーズ・ターン付きの JSON Lines');
 }
 
 // ヘルプ表示チェック
@@ -388,4 +1162,16 @@ if (process.argv.includes('--help') || process.argv.includes('-h')) {
 }
 
 // メイン実行
-runDiscussion().catch(console.error); 
\ No newline at end of file
+if (positionals[0] === 'history') {
+  runHistoryCommand().catch(console.error);
+} else if (positionals[0] === 'experiment') {
+  withTelemetryExport(runExperimentCommand).catch(console.error);
+} else if (positionals[0] === 'compare') {
+  try {
+    runCompareCommand();
+  } catch (error) {
+    console.error(error);
+  }
+} else {
+  withTelemetryExport(runDiscussion).catch(console.error);
+} 
\ No newline at end of file
@@ -1,3 +1,4 @@
+import { pathToFileURL } from 'url';
 import { RealtimeFeedbackManager } from './core/realtime-feedback-manager';
 import { FeedbackConfigurationBuilder } from './config/feedback-configuration';
 import type { MBTIType } from './types/mbti-types';
@@ -35,6 +36,7 @@ export async function testFeedbackSystem(): Promise<void> {
     console.log(`総合スコア: ${(result.overall.overallScore * 100).toFixed(1)}%`);
     console.log(`信頼度: ${(result.confidence * 100).toFixed(1)}%`);
     console.log(`フィードバック: ${result.detailed.feedback}`);
+    await feedbackManager.shutdown();
 
     console.log('\n🎉 === フィードバックシステムテスト完了 ===');
     console.log('✅ 統合されたフィードバックシステムが正常に動作しています');
@@ -64,14 +66,16 @@ export async function quickTest(): Promise<void> {
     } as any);
 
     console.log(`✅ テスト成功 - スコア: ${(result.overall.overallScore * 100).toFixed(1)}%`);
+    // 監視タイマーを停止してプロセスを終了できるようにする
+    await manager.shutdown();
   } catch (error) {
     console.error(`❌ テスト失敗:`, error);
     throw error;
   }
 }
 
-// モジュールとして実行された場合のテスト実行
-if (require.main === module) {
+// 直接実行された場合のテスト実行（ESM のため import.meta.url とエントリーポイントを比較）
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
   quickTest()
     .then(() => console.log('テスト完了'))
     .catch(error => {
@@ -0,0 +1,73 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadConversationFromJson, restoreDiscussion } from '../utils/conversation-loader';
+
+/**
+ * 保存済み会話（JSON）の読み込み・検証・議論状態の復元のテスト
+ */
+
+const workDir = mkdtempSync(join(tmpdir(), 'm-ads-loader-'));
+after(() => rmSync(workDir, { recursive: true, force: true }));
+
+const savedConversation = {
+  topic: 'リモートワークはチームの創造性を高めるか',
+  participants: ['INTJ', 'ENFP'],
+  startTime: '2025-01-01T00:00:00.000Z',
+  endTime: '2025-01-01T00:10:00.000Z',
+  turns: [
+    { agentType: 'INTJ', message: '効率の観点から検討します。', weight: 1.2, qualityMetrics: { overallQuality: 90 } },
+    { agentType: 'ENFP', message: '雑談の機会が減る点が気になります。' }
+  ],
+  qualityReport: { overallScore: 0.8 },
+  metadata: {
+    participantCount: 2,
+    totalTurns: 2,
+    completedPhases: 1,
+    enabledFeatures: { realtimeOptimization: true, graphOptimization: false }
+  }
+};
+
+function writeConversation(name: string, data: unknown): string {
+  const filePath = join(workDir, name);
+  writeFileSync(filePath, JSON.stringify(data), 'utf8');
+  return filePath;
+}
+
+describe('loadConversationFromJson', () => {
+  it('日時を Date に復元し、未検証の項目も保持する', () => {
+    const data = loadConversationFromJson(writeConversation('valid.json', savedConversation));
+    assert.ok(data.startTime instanceof Date);
+    assert.equal(data.endTime.toISOString(), '2025-01-01T00:10:00.000Z');
+    assert.equal(data.qualityReport.overallScore, 0.8);
+  });
+
+  it('不正な日時はエラーにする', () => {
+    const filePath = writeConversation('invalid-date.json', { ...savedConversation, endTime: 'yesterday' });
+    assert.throws(() => loadConversationFromJson(filePath), /会話ファイルの形式が不正です: .*endTime: 日時の形式が不正です/);
+  });
+
+  it('ターンの必須項目や MBTI タイプが不正な場合は項目の位置を示してエラーにする', () => {
+    const missingMessage = writeConversation('missing-message.json', {
+      ...savedConversation,
+      turns: [{ agentType: 'INTJ' }]
+    });
+    assert.throws(() => loadConversationFromJson(missingMessage), /turns\.0\.message/);
+
+    const invalidType = writeConversation('invalid-type.json', { ...savedConversation, participants: ['INTJ', 'XXXX'] });
+    assert.throws(() => loadConversationFromJson(invalidType), /participants\.1/);
+  });
+});
+
+describe('restoreDiscussion', () => {
+  it('会話フローがない保存データはターンから重みと品質履歴を再構築する', () => {
+    const resumed = restoreDiscussion(loadConversationFromJson(writeConversation('restore.json', savedConversation)));
+    assert.equal(resumed.conversationFlow.length, 2);
+    assert.equal(resumed.conversationFlow[0].timestamp, '2025-01-01T00:00:00.000Z');
+    assert.equal(resumed.participantStates.INTJ?.weight, 1.2);
+    assert.deepEqual(resumed.participantStates.INTJ?.performanceHistory, [0.9]);
+    assert.equal(resumed.completedPhases, 1);
+  });
+});
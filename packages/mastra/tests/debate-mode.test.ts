@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { MBTIType } from '../types/mbti-types';
+import { getGroupFromType } from '../utils/mbti-characteristics';
+import { createSeededRandom } from '../utils/seeded-random';
+import { getDebateTeamMembers, resolveDebateSettings } from '../utils/debate-mode';
+
+/**
+ * ディベートモードの陣営割り当てのテスト
+ */
+
+const participantTypes: MBTIType[] = ['INTJ', 'ENTP', 'INFJ', 'ENFP', 'ISTJ', 'ESFJ', 'ISTP', 'ESFP'];
+
+describe('resolveDebateSettings', () => {
+  it('自動割り当ては陣営の人数と MBTI グループの偏りを揃える', () => {
+    const settings = resolveDebateSettings({}, participantTypes, 'ja', createSeededRandom(1));
+    const pro = getDebateTeamMembers(settings, 'pro');
+    const contra = getDebateTeamMembers(settings, 'contra');
+
+    assert.equal(pro.length, 4);
+    assert.equal(contra.length, 4);
+    // 各グループ2人ずつの参加者は、グループごとに両陣営へ1人ずつ分かれる
+    assert.deepEqual(pro.map(getGroupFromType).sort(), contra.map(getGroupFromType).sort());
+  });
+
+  it('同じシードで同じ割り当てになる', () => {
+    const assign = () => resolveDebateSettings({}, participantTypes, 'ja', createSeededRandom(42)).teams;
+    assert.deepEqual(assign(), assign());
+  });
+
+  it('指定された陣営を優先し、残りを人数の少ない陣営へ割り当てる', () => {
+    const settings = resolveDebateSettings(
+      { teams: { pro: ['INTJ', 'ENTP'] } },
+      ['INTJ', 'ENTP', 'INFJ', 'ENFP'],
+      'ja',
+      createSeededRandom(3)
+    );
+    assert.deepEqual(getDebateTeamMembers(settings, 'pro').sort(), ['ENTP', 'INTJ']);
+    assert.deepEqual(getDebateTeamMembers(settings, 'contra').sort(), ['ENFP', 'INFJ']);
+  });
+
+  it('立場の既定値を議論言語で付与する', () => {
+    const settings = resolveDebateSettings({ positions: { pro: '導入する' } }, ['INTJ', 'ENFP'], 'en', createSeededRandom(5));
+    assert.equal(settings.positions.pro, '導入する');
+    assert.equal(settings.positions.contra, 'Oppose the claim of the topic');
+  });
+
+  it('参加していないタイプや両陣営への重複指定はエラーにする', () => {
+    assert.throws(
+      () => resolveDebateSettings({ teams: { pro: ['ESTP'] } }, ['INTJ', 'ENFP']),
+      /参加していないタイプ/
+    );
+    assert.throws(
+      () => resolveDebateSettings({ teams: { pro: ['INTJ'], contra: ['INTJ'] } }, ['INTJ', 'ENFP']),
+      /両陣営に同じタイプ/
+    );
+  });
+
+  it('片方の陣営が空になる場合はエラーにする', () => {
+    assert.throws(
+      () => resolveDebateSettings({ teams: { pro: ['INTJ', 'ENFP'] } }, ['INTJ', 'ENFP']),
+      /側に参加者がいません/
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseBallot, tallyDecisionVotes, type DecisionSettings, type DecisionVote } from '../utils/decision-mode';
+
+/**
+ * 意思決定モードの投票読み取り・集計のテスト
+ */
+
+const options = ['案A', '案B', '案C'];
+
+const vote = (mbtiType: string, ranking: string[], weight: number = 1.0): DecisionVote => ({
+  mbtiType,
+  weight,
+  ranking,
+  rationale: '',
+  parsed: true
+});
+
+const abstention = (mbtiType: string): DecisionVote => ({
+  mbtiType,
+  weight: 1.0,
+  ranking: [],
+  rationale: '読み取れない応答',
+  parsed: false
+});
+
+describe('parseBallot', () => {
+  it('JSON の順位と理由を読み取り、未記載の候補案を末尾に補う', () => {
+    const ballot = parseBallot('投票します。{"ranking": ["案C", "案A"], "rationale": "実現性が高い"}', options);
+    assert.deepEqual(ballot, { ranking: ['案C', '案A', '案B'], rationale: '実現性が高い', parsed: true });
+  });
+
+  it('候補案の番号でも順位を読み取る', () => {
+    const ballot = parseBallot('{"ranking": ["2", "1", "3"], "rationale": "番号で回答"}', options);
+    assert.deepEqual(ballot.ranking, ['案B', '案A', '案C']);
+    assert.equal(ballot.parsed, true);
+  });
+
+  it('候補案の文言は正規化して照合し、部分一致では最長の候補案を採用する', () => {
+    const planOptions = ['Plan A', 'Plan AB', 'Plan C'];
+    assert.deepEqual(parseBallot('{"ranking": ["Plan AB が最適", " plan  c "]}', planOptions).ranking, ['Plan AB', 'Plan C', 'Plan A']);
+    assert.deepEqual(parseBallot('{"ranking": ["Ｐｌａｎ Ａ"]}', planOptions).ranking, ['Plan A', 'Plan AB', 'Plan C']);
+  });
+
+  it('互いに含まない複数の候補案に一致する項目は読み取らない', () => {
+    const ballot = parseBallot('{"ranking": ["Plan A か Plan C"], "rationale": "決めきれない"}', ['Plan A', 'Plan AB', 'Plan C']);
+    assert.equal(ballot.parsed, false);
+    assert.deepEqual(ballot.ranking, []);
+  });
+
+  it('JSON を読み取れない応答は棄権として空の順位を返す', () => {
+    const ballot = parseBallot('案Bが良いと思いますが、案Aも捨てがたいです。', options);
+    assert.equal(ballot.parsed, false);
+    assert.deepEqual(ballot.ranking, []);
+  });
+
+  it('候補案を1つも特定できない場合は棄権とする', () => {
+    const ballot = parseBallot('{"ranking": ["案Z"], "rationale": "候補外"}', options);
+    assert.equal(ballot.parsed, false);
+    assert.deepEqual(ballot.ranking, []);
+  });
+});
+
+describe('tallyDecisionVotes（weighted）', () => {
+  const settings: DecisionSettings = { options, votingMethod: 'weighted' };
+
+  it('動的重みで加重したボルダ得点で順位を決める', () => {
+    const result = tallyDecisionVotes(settings, [
+      vote('INTJ', ['案A', '案B', '案C'], 0.5),
+      vote('ENFP', ['案B', '案A', '案C'], 2.0)
+    ]);
+    assert.equal(result.winner, '案B');
+    assert.deepEqual(result.ranking.map(entry => entry.option), ['案B', '案A', '案C']);
+    assert.deepEqual(result.ranking[0].supporters, ['ENFP']);
+    assert.equal(result.validVotes, 2);
+  });
+
+  it('棄権票は集計から除外して記録する', () => {
+    const result = tallyDecisionVotes(settings, [vote('INTJ', ['案C', '案B', '案A']), abstention('ENFP')]);
+    assert.equal(result.winner, '案C');
+    assert.equal(result.validVotes, 1);
+    assert.deepEqual(result.abstentions, ['ENFP']);
+    assert.equal(result.votes.length, 2);
+  });
+
+  it('有効票がない場合は決定なしとする', () => {
+    const result = tallyDecisionVotes(settings, [abstention('INTJ'), abstention('ENFP')]);
+    assert.equal(result.winner, null);
+    assert.deepEqual(result.ranking, []);
+    assert.equal(result.validVotes, 0);
+    assert.deepEqual(result.abstentions, ['INTJ', 'ENFP']);
+  });
+});
+
+describe('tallyDecisionVotes（ranked-choice）', () => {
+  const settings: DecisionSettings = { options, votingMethod: 'ranked-choice' };
+
+  it('過半数に達するまで最少得票の候補案を除外して票を移す', () => {
+    const result = tallyDecisionVotes(settings, [
+      vote('INTJ', ['案A', '案B', '案C']),
+      vote('ENTJ', ['案A', '案C', '案B']),
+      vote('ENFP', ['案B', '案C', '案A']),
+      vote('INFP', ['案B', '案A', '案C']),
+      vote('ISTJ', ['案C', '案B', '案A'])
+    ]);
+
+    // 1回目: A=2, B=2, C=1 → C を除外し、ISTJ の票が B へ移る
+    assert.deepEqual(result.rounds, [{ 案A: 2, 案B: 2, 案C: 1 }, { 案A: 2, 案B: 3 }]);
+    assert.equal(result.winner, '案B');
+    assert.deepEqual(result.ranking.map(entry => entry.option), ['案B', '案A', '案C']);
+    assert.equal(result.ranking[0].score, 3 / 5);
+  });
+
+  it('第1ラウンドで過半数なら決選なしで決定する', () => {
+    const result = tallyDecisionVotes(settings, [
+      vote('INTJ', ['案C', '案A', '案B']),
+      vote('ENFP', ['案C', '案B', '案A']),
+      vote('ISTJ', ['案A', '案B', '案C'])
+    ]);
+    assert.equal(result.rounds?.length, 1);
+    assert.equal(result.winner, '案C');
+  });
+});
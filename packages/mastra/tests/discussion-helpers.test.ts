@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { MBTIGroup, MBTIType } from '../types/mbti-types';
+import { getGroupFromType } from '../utils/mbti-characteristics';
+import { createSeededRandom } from '../utils/seeded-random';
+import { reserveParticipantTypes, selectParticipantTypes } from '../utils/discussion-helpers';
+
+/**
+ * 参加者選択（明示リスト・グループ割当・除外・枠の確保）のテスト
+ */
+
+const countGroup = (types: MBTIType[], group: MBTIGroup) => types.filter(type => getGroupFromType(type) === group).length;
+
+describe('selectParticipantTypes', () => {
+  it('明示リストは参加者数より優先する', () => {
+    assert.deepEqual(selectParticipantTypes(4, { types: ['INTJ', 'ENFP'] }), ['INTJ', 'ENFP']);
+  });
+
+  it('グループ割当を満たし、残りの枠を割当のないグループから選ぶ', () => {
+    const selected = selectParticipantTypes(5, { groupQuotas: { NT: 2, SP: 1 } }, createSeededRandom(1));
+    assert.equal(selected.length, 5);
+    assert.equal(countGroup(selected, 'NT'), 2);
+    assert.equal(countGroup(selected, 'SP'), 1);
+  });
+
+  it('グループ割当の合計が参加者数を超える場合はエラーにする', () => {
+    assert.throws(
+      () => selectParticipantTypes(4, { groupQuotas: { NT: 4, SP: 4 } }),
+      /グループ割当の合計\(8\)が参加者数\(4\)を超えています/
+    );
+  });
+
+  it('全グループに割当があり合計が参加者数に満たない場合はエラーにする', () => {
+    assert.throws(
+      () => selectParticipantTypes(6, { groupQuotas: { NT: 1, NF: 1, SJ: 1, SP: 1 } }),
+      /参加者数\(6\)を満たせません/
+    );
+  });
+
+  it('除外指定により参加者数を満たせない場合はエラーにする', () => {
+    assert.throws(
+      () => selectParticipantTypes(14, { exclude: ['INTJ', 'INTP', 'ENTJ'] }),
+      /除外指定により参加者数\(14\)を満たせません/
+    );
+  });
+});
+
+describe('reserveParticipantTypes', () => {
+  it('確保したタイプをグループ割当から差し引く', () => {
+    const selection = reserveParticipantTypes({ groupQuotas: { NT: 2 } }, ['INTJ']);
+    assert.equal(selection.groupQuotas?.NT, 1);
+
+    const selected = selectParticipantTypes(3, selection, createSeededRandom(2));
+    assert.equal(countGroup([...selected, 'INTJ'], 'NT'), 2);
+    assert.ok(!selected.includes('INTJ'));
+  });
+
+  it('割当を使い切ったグループの残りのタイプは選択しない', () => {
+    const selected = selectParticipantTypes(3, reserveParticipantTypes({ groupQuotas: { NT: 1 } }, ['ENTP']), createSeededRandom(3));
+    assert.equal(selected.length, 3);
+    assert.equal(countGroup(selected, 'NT'), 0);
+  });
+
+  it('明示リストに含まれる確保タイプはリストから除く', () => {
+    const selection = reserveParticipantTypes({ types: ['INTJ', 'ENFP', 'ISTJ'] }, ['ENFP']);
+    assert.deepEqual(selection.types, ['INTJ', 'ISTJ']);
+    assert.ok(selection.exclude?.includes('ENFP'));
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mastra } from '../index';
+import { configureLogging } from '../utils/discussion-logger';
+
+/**
+ * 議論ワークフローのオフライン実行テスト（scripted プロバイダー・シード固定）
+ */
+
+configureLogging({ level: 'error' });
+
+async function runScriptedDiscussion(seed: number) {
+  const run = await mastra.getWorkflow('mbtiDiscussionWorkflow').createRunAsync();
+  const result = await run.start({
+    inputData: {
+      topic: 'リモートワークはチームの創造性を高めるか',
+      participantCount: 4,
+      enableRealtimeOptimization: true,
+      enableGraphOptimization: true,
+      qualityThreshold: 0.8,
+      saveConversation: false,
+      outputFormat: 'markdown',
+      outputDirectory: './conversations',
+      llm: { default: { provider: 'scripted' } },
+      seed,
+      decision: { options: ['全面リモート', 'ハイブリッド'] }
+    }
+  });
+
+  if (result.status !== 'success') {
+    assert.fail(`ワークフローの実行に失敗しました: ${result.status}`);
+  }
+  return result.result;
+}
+
+describe('mbtiDiscussionWorkflow（scripted）', () => {
+  it('標準フェーズプランで議論・評価・投票まで完了する', async () => {
+    const result = await runScriptedDiscussion(42);
+
+    assert.equal(result.participantTypes.length, 4);
+    assert.deepEqual(result.phases.map(phase => phase.type), ['initial', 'interaction', 'synthesis', 'consensus']);
+    assert.equal(result.conversationFlow.length, result.phases.reduce((sum, phase) => sum + phase.turns, 0));
+    result.conversationFlow
+      .filter(turn => turn.speakerKind !== 'orchestrator')
+      .forEach(turn => assert.ok(turn.phaseType, `フェーズ未記録のターン: ${turn.turnNumber}`));
+
+    assert.ok(result.decisionResult);
+    assert.equal(result.decisionResult.votes.length, 4);
+    assert.equal(result.history.mode, 'isolated');
+  });
+
+  it('同じシードで同じ会話になる', async () => {
+    const statements = async () => (await runScriptedDiscussion(7)).conversationFlow
+      .map(turn => `${turn.speakerMbtiType}: ${turn.statement}`);
+    assert.deepEqual(await statements(), await statements());
+  });
+});
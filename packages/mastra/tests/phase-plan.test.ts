@@ -0,0 +1,105 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  estimatePlanTurns,
+  getPhaseTurnBudget,
+  isOptimizedPhase,
+  resolvePhasePlan,
+  scheduleDiscussionPhases,
+  selectPhaseSpeaker,
+  type SelectableParticipant
+} from '../utils/phase-plan';
+
+/**
+ * フェーズプランの解決・スケジューリング・ターン予算のテスト
+ */
+
+const participants: SelectableParticipant[] = (['INTJ', 'ENFP', 'ISTJ'] as const).map(type => ({
+  type,
+  weight: 1.0,
+  lastSpokenTurn: 0,
+  performanceHistory: []
+}));
+
+describe('resolvePhasePlan', () => {
+  it('standard プリセットは初期ラウンド + 3フェーズで既定値を適用する', () => {
+    const plan = resolvePhasePlan('standard');
+    assert.deepEqual(plan.map(phase => phase.type), ['initial', 'interaction', 'synthesis', 'consensus']);
+    assert.equal(plan[0].speakerSelection, 'round-robin');
+    assert.equal(plan[1].speakerSelection, 'weighted');
+    assert.ok(plan.every(phase => phase.rounds === 1));
+  });
+
+  it('プリセットのフェーズ名を議論言語で付与する', () => {
+    assert.equal(resolvePhasePlan('standard', 'ja')[0].name, '初期議論');
+    assert.equal(resolvePhasePlan('standard', 'en')[0].name, 'Opening discussion');
+  });
+
+  it('不正なフェーズ配列はエラーにする', () => {
+    assert.throws(() => resolvePhasePlan([]), /フェーズプランの形式が不正です/);
+  });
+});
+
+describe('scheduleDiscussionPhases', () => {
+  const plan = resolvePhasePlan('standard', 'en');
+
+  it('新規実行ではプランの全フェーズを通し番号付きで並べる', () => {
+    const scheduled = scheduleDiscussionPhases(plan);
+    assert.deepEqual(scheduled.map(phase => phase.phaseNumber), [1, 2, 3, 4]);
+    assert.deepEqual(scheduled.map(phase => phase.definition), plan);
+  });
+
+  it('再開時は完了済みフェーズの次から追加フェーズ分を並べる', () => {
+    const scheduled = scheduleDiscussionPhases(plan, 2, 1);
+    assert.deepEqual(scheduled.map(phase => phase.phaseNumber), [3]);
+    assert.equal(scheduled[0].definition.type, 'synthesis');
+  });
+
+  it('プランの末尾を超えるフェーズは最後のフェーズを継続名で繰り返す', () => {
+    const scheduled = scheduleDiscussionPhases(plan, 4, 2, 'en');
+    assert.deepEqual(scheduled.map(phase => phase.phaseNumber), [5, 6]);
+    scheduled.forEach(phase => {
+      assert.equal(phase.definition.type, 'consensus');
+      assert.equal(phase.definition.name, 'Consensus building (continued)');
+    });
+  });
+});
+
+describe('ターン予算', () => {
+  it('turns 指定がなければ rounds × 参加者数', () => {
+    const [opening, rebuttal] = resolvePhasePlan('debate');
+    assert.equal(getPhaseTurnBudget(opening, 4), 4);
+    assert.equal(getPhaseTurnBudget(rebuttal, 4), 8);
+  });
+
+  it('turns 指定は rounds より優先する', () => {
+    const [phase] = resolvePhasePlan([{ name: 'fixed', type: 'interaction', rounds: 3, turns: 5 }]);
+    assert.equal(getPhaseTurnBudget(phase, 4), 5);
+  });
+
+  it('プラン全体の想定ターン数はフェーズ予算の合計', () => {
+    assert.equal(estimatePlanTurns(resolvePhasePlan('standard'), 3), 12);
+    assert.equal(estimatePlanTurns(resolvePhasePlan('debate'), 4), 4 + 8 + 8 + 4 + 8);
+  });
+
+  it('最適化の既定は初期フェーズ以外', () => {
+    const plan = resolvePhasePlan('standard');
+    assert.deepEqual(plan.map(isOptimizedPhase), [false, true, true, true]);
+  });
+});
+
+describe('selectPhaseSpeaker', () => {
+  it('round-robin はフェーズ内ターン番号の順に一巡する', () => {
+    const order = [0, 1, 2, 3].map(turn => selectPhaseSpeaker('round-robin', participants, turn, turn + 1, 'initial').participant.type);
+    assert.deepEqual(order, ['INTJ', 'ENFP', 'ISTJ', 'INTJ']);
+  });
+
+  it('選択理由を議論言語で返す', () => {
+    assert.equal(selectPhaseSpeaker('round-robin', participants, 1, 2, 'initial', Math.random, 'en').selectionReason, 'Round-robin (2/3)');
+    assert.equal(selectPhaseSpeaker('random', participants, 0, 1, 'interaction', () => 0, 'ja').selectionReason, 'ランダム選択');
+  });
+
+  it('参加者がいない場合はエラーにする', () => {
+    assert.throws(() => selectPhaseSpeaker('round-robin', [], 0, 1, 'initial'), /発言者を選択できる参加者がいません/);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createSeededRandom } from '../utils/seeded-random';
+import { selectPhaseSpeaker, type SelectableParticipant } from '../utils/phase-plan';
+
+/**
+ * シード付き乱数の再現性テスト
+ */
+
+const sample = (seed: number, count: number) => {
+  const random = createSeededRandom(seed);
+  return Array.from({ length: count }, () => random());
+};
+
+const participants: SelectableParticipant[] = (['INTJ', 'ENFP', 'ISTJ', 'ESFP'] as const).map(type => ({
+  type,
+  weight: 1.0,
+  lastSpokenTurn: 0,
+  performanceHistory: []
+}));
+
+describe('createSeededRandom', () => {
+  it('同じシードで同じ乱数列を返す', () => {
+    assert.deepEqual(sample(42, 20), sample(42, 20));
+  });
+
+  it('異なるシードでは異なる乱数列を返す', () => {
+    assert.notDeepEqual(sample(42, 20), sample(43, 20));
+  });
+
+  it('[0, 1) の範囲の値を返す', () => {
+    sample(7, 1000).forEach(value => {
+      assert.ok(value >= 0 && value < 1, `範囲外の値: ${value}`);
+    });
+  });
+
+  it('同じシードでランダム・重み付きの発言者選択が再現される', () => {
+    const select = (seed: number) => {
+      const random = createSeededRandom(seed);
+      return Array.from({ length: 10 }, (_, turn) => [
+        selectPhaseSpeaker('random', participants, turn, turn + 1, 'interaction', random).participant.type,
+        selectPhaseSpeaker('weighted', participants, turn, turn + 1, 'interaction', random).participant.type
+      ]);
+    };
+
+    assert.deepEqual(select(42), select(42));
+  });
+});
@@ -10,10 +10,13 @@ import {
   PerformanceMetrics 
 } from '../utils/graph-topology-optimizer';
 import type { MBTIType } from '../types/mbti-types';
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import { createSeededRandom } from '../utils/seeded-random';
+import { resolveDiscussionSession, type DiscussionSession } from '../utils/discussion-session';
+import { traceDiscussionSpan } from '../utils/discussion-tracing';
+import { createComponentLogger } from '../utils/discussion-logger';
 
-// グローバルなグラフインスタンスと最適化エンジン
-let discussionGraph: DiscussionGraph | null = null;
-let topologyOptimizer: GraphTopologyOptimizer | null = null;
+// グラフインスタンスと最適化エンジンは議論セッション単位で保持（RuntimeContext のセッションIDで解決）
 
 export const initializeGraphTool = createTool({
   id: 'initializeGraph',
@@ -25,7 +28,8 @@ export const initializeGraphTool = createTool({
       convergenceThreshold: z.number().default(0.001),
       learningRate: z.number().default(0.01),
       regularizationStrength: z.number().default(0.1)
-    }).optional()
+    }).optional(),
+    seed: z.number().int().optional().describe('Seed for reproducible graph construction and optimization')
   }),
   outputSchema: z.object({
     success: z.boolean(),
@@ -33,12 +37,13 @@ export const initializeGraphTool = createTool({
     graphId: z.string(),
     optimizationEnabled: z.boolean()
   }),
-  execute: async ({ context }) => {
-    discussionGraph = new DiscussionGraph();
-    
-    if (context.enableOptimization) {
-      topologyOptimizer = new GraphTopologyOptimizer(context.optimizationParams);
-    }
+  execute: async ({ context, runtimeContext }) => {
+    const session = resolveDiscussionSession(runtimeContext);
+    session.graphRandom = context.seed !== undefined ? createSeededRandom(context.seed) : Math.random;
+    session.graph = new DiscussionGraph(session.graphRandom);
+    session.topologyOptimizer = context.enableOptimization
+      ? new GraphTopologyOptimizer(context.optimizationParams, session.graphRandom)
+      : null;
     
     const graphId = `graph-${Date.now()}`;
     
@@ -75,10 +80,12 @@ export const addAgentToGraphTool = createTool({
       clusteringCoefficient: z.number()
     }).optional()
   }),
-  execute: async ({ context }) => {
-    if (!discussionGraph) {
-      discussionGraph = new DiscussionGraph();
+  execute: async ({ context, runtimeContext }) => {
+    const session = resolveDiscussionSession(runtimeContext);
+    if (!session.graph) {
+      session.graph = new DiscussionGraph(session.graphRandom);
     }
+    const discussionGraph = session.graph;
     
     const nodeId = discussionGraph.addAgent(context.mbtiType as MBTIType);
     discussionGraph.updateNodeWeight(nodeId, context.initialWeight);
@@ -87,9 +94,9 @@ export const addAgentToGraphTool = createTool({
     let graphMetrics;
     
     // 自動最適化が有効で3つ以上のノードがある場合に最適化を実行
-    if (context.autoOptimize && topologyOptimizer && discussionGraph.getSnapshot().length >= 3) {
+    if (context.autoOptimize && session.topologyOptimizer && discussionGraph.getSnapshot().length >= 3) {
       try {
-        await optimizeGraphStructure();
+        await optimizeGraphStructure(session, runtimeContext);
         optimizationApplied = true;
         
         // 最適化後のメトリクスを取得
@@ -100,7 +107,7 @@ export const addAgentToGraphTool = createTool({
           clusteringCoefficient: discussionGraph.getClusterCoefficient()
         };
       } catch (error) {
-        console.warn('Graph optimization failed:', error);
+        createComponentLogger('GraphManager', runtimeContext).warn('⚠️ グラフ最適化に失敗しました:', { error });
       }
     }
     
@@ -128,10 +135,10 @@ export const updateAgentWeightTool = createTool({
     optimizationTriggered: z.boolean(),
     qualityImprovement: z.number().optional()
   }),
-  execute: async ({ context }) => {
-    if (!discussionGraph) {
-      throw new Error('Graph not initialized');
-    }
+  execute: async ({ context, runtimeContext }) => {
+    const session = resolveDiscussionSession(runtimeContext);
+    const discussionGraph = requireDiscussionGraph(session);
+    const topologyOptimizer = session.topologyOptimizer;
     
     const previousWeight = discussionGraph.getNodeWeight(context.nodeId);
     discussionGraph.updateNodeWeight(context.nodeId, context.weight);
@@ -141,14 +148,14 @@ export const updateAgentWeightTool = createTool({
     
     if (context.triggerOptimization && topologyOptimizer) {
       try {
-        const beforeMetrics = getGraphMetrics();
-        await optimizeGraphStructure();
-        const afterMetrics = getGraphMetrics();
+        const beforeMetrics = getGraphMetrics(session);
+        await optimizeGraphStructure(session, runtimeContext);
+        const afterMetrics = getGraphMetrics(session);
         
         qualityImprovement = calculateQualityImprovement(beforeMetrics, afterMetrics);
         optimizationTriggered = true;
       } catch (error) {
-        console.warn('Optimization triggered by weight update failed:', error);
+        createComponentLogger('GraphManager', runtimeContext).warn('⚠️ 重み更新によるグラフ最適化に失敗しました:', { error });
       }
     }
     
@@ -195,10 +202,10 @@ export const getGraphMetricsTool = createTool({
       clusterTargetMet: z.boolean()
     })
   }),
-  execute: async ({ context }) => {
-    if (!discussionGraph) {
-      throw new Error('Graph not initialized');
-    }
+  execute: async ({ context, runtimeContext }) => {
+    const session = resolveDiscussionSession(runtimeContext);
+    const discussionGraph = requireDiscussionGraph(session);
+    const topologyOptimizer = session.topologyOptimizer;
     
     const snapshot = discussionGraph.getSnapshot();
     const basicMetrics = {
@@ -231,7 +238,7 @@ export const getGraphMetricsTool = createTool({
     
     let optimizationMetrics;
     if (context.includeOptimizationMetrics && topologyOptimizer) {
-      const graphStructure = convertToGraphStructure();
+      const graphStructure = convertToGraphStructure(session);
       const perfMetrics = topologyOptimizer.calculatePerformanceMetrics(graphStructure);
       
       optimizationMetrics = {
@@ -288,17 +295,17 @@ export const optimizeGraphTopologyTool = createTool({
       qualityScore: z.number()
     })
   }),
-  execute: async ({ context }) => {
-    if (!discussionGraph) {
-      throw new Error('Graph not initialized');
-    }
+  execute: async ({ context, runtimeContext }) => {
+    const session = resolveDiscussionSession(runtimeContext);
+    requireDiscussionGraph(session);
+    const topologyOptimizer = session.topologyOptimizer;
     
     if (!topologyOptimizer) {
       throw new Error('Graph topology optimizer not initialized');
     }
     
-    const beforeBasicMetrics = getGraphMetrics();
-    const beforeStructure = convertToGraphStructure();
+    const beforeBasicMetrics = getGraphMetrics(session);
+    const beforeStructure = convertToGraphStructure(session);
     const beforeAdvancedMetrics = topologyOptimizer.calculatePerformanceMetrics(beforeStructure);
     
     const beforeMetrics = {
@@ -335,17 +342,22 @@ export const optimizeGraphTopologyTool = createTool({
         temporal: []
       };
       
-      const optimizedStructure = await topologyOptimizer.optimizeTopology(
-        beforeStructure,
-        beforeAdvancedMetrics,
-        interactionHistory
+      const optimizedStructure = await traceDiscussionSpan(
+        runtimeContext,
+        'mads.graph.optimize',
+        { 'mads.graph.efficiency_before': beforeAdvancedMetrics.efficiency },
+        () => topologyOptimizer.optimizeTopology(
+          beforeStructure,
+          beforeAdvancedMetrics,
+          interactionHistory
+        )
       );
       
       // 最適化結果をグラフに適用
-      applyOptimizedStructure(optimizedStructure);
+      applyOptimizedStructure(session, optimizedStructure);
       
       // 最適化後のメトリクスを取得
-      const afterBasicMetrics = getGraphMetrics();
+      const afterBasicMetrics = getGraphMetrics(session);
       const afterAdvancedMetrics = topologyOptimizer.calculatePerformanceMetrics(optimizedStructure);
       
       afterMetrics = {
@@ -404,12 +416,11 @@ export const analyzeGraphPerformanceTool = createTool({
       estimatedTime: z.string()
     })).optional()
   }),
-  execute: async ({ context }) => {
-    if (!discussionGraph) {
-      throw new Error('Graph not initialized');
-    }
+  execute: async ({ context, runtimeContext }) => {
+    const session = resolveDiscussionSession(runtimeContext);
+    const discussionGraph = requireDiscussionGraph(session);
     
-    const metrics = getGraphMetrics();
+    const metrics = getGraphMetrics(session);
     const snapshot = discussionGraph.getSnapshot();
     
     // パフォーマンス分析
@@ -490,10 +501,18 @@ export const analyzeGraphPerformanceTool = createTool({
 });
 
 // ヘルパー関数
-async function optimizeGraphStructure(): Promise<void> {
-  if (!topologyOptimizer || !discussionGraph) return;
+function requireDiscussionGraph(session: DiscussionSession): DiscussionGraph {
+  if (!session.graph) {
+    throw new Error('Graph not initialized');
+  }
+  return session.graph;
+}
+
+async function optimizeGraphStructure(session: DiscussionSession, runtimeContext?: RuntimeContext): Promise<void> {
+  const { graph, topologyOptimizer } = session;
+  if (!topologyOptimizer || !graph) return;
   
-  const currentStructure = convertToGraphStructure();
+  const currentStructure = convertToGraphStructure(session);
   const currentMetrics = topologyOptimizer.calculatePerformanceMetrics(currentStructure);
   const interactionHistory: InteractionHistory = {
     interactions: new Map(),
@@ -501,19 +520,22 @@ async function optimizeGraphStructure(): Promise<void> {
     temporal: []
   };
   
-  const optimizedStructure = await topologyOptimizer.optimizeTopology(
-    currentStructure,
-    currentMetrics,
-    interactionHistory
+  const optimizedStructure = await traceDiscussionSpan(
+    runtimeContext,
+    'mads.graph.optimize',
+    { 'mads.graph.efficiency_before': currentMetrics.efficiency },
+    () => topologyOptimizer.optimizeTopology(
+      currentStructure,
+      currentMetrics,
+      interactionHistory
+    )
   );
   
-  applyOptimizedStructure(optimizedStructure);
+  applyOptimizedStructure(session, optimizedStructure);
 }
 
-function convertToGraphStructure(): GraphStructure {
-  if (!discussionGraph) {
-    throw new Error('Graph not initialized');
-  }
+function convertToGraphStructure(session: DiscussionSession): GraphStructure {
+  const discussionGraph = requireDiscussionGraph(session);
   
   const snapshot = discussionGraph.getSnapshot();
   const nodes = new Map();
@@ -527,7 +549,7 @@ function convertToGraphStructure(): GraphStructure {
       mbtiType: node.mbtiType,
       group: node.group,
       weight: node.weight,
-      embedding: new Array(16).fill(0).map(() => Math.random()),
+      embedding: new Array(16).fill(0).map(() => session.graphRandom()),
       clusterMembership: 0
     });
     nodeIndex.set(node.id, index);
@@ -558,19 +580,18 @@ function convertToGraphStructure(): GraphStructure {
   };
 }
 
-function applyOptimizedStructure(structure: GraphStructure): void {
+function applyOptimizedStructure(session: DiscussionSession, structure: GraphStructure): void {
+  const discussionGraph = session.graph;
   if (!discussionGraph) return;
   
   // 重みの更新（基本的な適用のみ）
   structure.nodes.forEach((node, nodeId) => {
-    discussionGraph!.updateNodeWeight(nodeId, node.weight);
+    discussionGraph.updateNodeWeight(nodeId, node.weight);
   });
 }
 
-function getGraphMetrics() {
-  if (!discussionGraph) {
-    throw new Error('Graph not initialized');
-  }
+function getGraphMetrics(session: DiscussionSession) {
+  const discussionGraph = requireDiscussionGraph(session);
   
   return {
     averagePathLength: discussionGraph.getAveragePathLength(),
@@ -585,11 +606,11 @@ function calculateQualityImprovement(before: any, after: any): number {
   return (pathImprovement + clusterImprovement) / 2;
 }
 
-// グラフのエクスポート関数（他のモジュールから使用するため）
-export function getDiscussionGraph(): DiscussionGraph | null {
-  return discussionGraph;
+// グラフのエクスポート関数（他のモジュールから使用するため、RuntimeContext 未指定時は共有セッション）
+export function getDiscussionGraph(runtimeContext?: RuntimeContext): DiscussionGraph | null {
+  return resolveDiscussionSession(runtimeContext).graph;
 }
 
-export function getTopologyOptimizer(): GraphTopologyOptimizer | null {
-  return topologyOptimizer;
-} 
\ No newline at end of file
+export function getTopologyOptimizer(runtimeContext?: RuntimeContext): GraphTopologyOptimizer | null {
+  return resolveDiscussionSession(runtimeContext).topologyOptimizer;
+}
@@ -8,9 +8,13 @@ import type {
 import { 
   ComprehensiveQualityEvaluator 
 } from '../utils/comprehensive-quality-evaluator';
+import { resolveDiscussionLanguage, type DiscussionLanguage } from '../utils/discussion-language';
 
-// 7次元品質評価エンジンのインスタンス
-const comprehensiveEvaluator = new ComprehensiveQualityEvaluator();
+// 7次元品質評価エンジンのインスタンス（議論言語ごと）
+const comprehensiveEvaluators: Record<DiscussionLanguage, ComprehensiveQualityEvaluator> = {
+  ja: new ComprehensiveQualityEvaluator('ja'),
+  en: new ComprehensiveQualityEvaluator('en')
+};
 
 // セマンティック多様性の計算（簡易版 - 後方互換性）
 function calculateSemanticDiversity(statements: DiscussionStatement[]): number {
@@ -334,13 +338,14 @@ export const evaluateComprehensiveQualityTool = createTool({
       })
     })
   }),
-  execute: async ({ context }) => {
+  execute: async ({ context, runtimeContext }) => {
     const statements: DiscussionStatement[] = context.statements.map(s => ({
       ...s,
       timestamp: new Date(s.timestamp)
     }));
     
-    // 7次元品質評価を実行
+    // 7次元品質評価を実行（議論言語の辞書で評価）
+    const comprehensiveEvaluator = comprehensiveEvaluators[resolveDiscussionLanguage(runtimeContext)];
     const sevenDimensionMetrics = await comprehensiveEvaluator.evaluateComprehensiveQuality(
       statements,
       context.context
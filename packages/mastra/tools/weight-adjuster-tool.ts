@@ -4,9 +4,9 @@ import type { MBTIType} from '../types/mbti-types';
 import { DiscussionContext } from '../types/mbti-types';
 import { calculateDynamicWeight, MBTI_CHARACTERISTICS } from '../utils/mbti-characteristics';
 import { getDiscussionGraph } from './graph-manager-tool';
+import { resolveDiscussionSession } from '../utils/discussion-session';
 
-// エージェントの相互作用履歴を管理
-const interactionHistory = new Map<string, number>();
+// エージェントの相互作用履歴は議論セッション単位で管理（RuntimeContext のセッションIDで解決）
 
 export const calculateAgentWeightTool = createTool({
   id: 'calculateAgentWeight',
@@ -29,7 +29,8 @@ export const calculateAgentWeightTool = createTool({
       interactionModifier: z.number()
     })
   }),
-  execute: async ({ context }) => {
+  execute: async ({ context, runtimeContext }) => {
+    const { interactionHistory } = resolveDiscussionSession(runtimeContext);
     const previousInteractions = interactionHistory.get(context.nodeId) || 0;
     const weight = calculateDynamicWeight(
       context.mbtiType as MBTIType,
@@ -68,7 +69,8 @@ export const recordInteractionTool = createTool({
     success: z.boolean(),
     totalInteractions: z.number()
   }),
-  execute: async ({ context }) => {
+  execute: async ({ context, runtimeContext }) => {
+    const { interactionHistory } = resolveDiscussionSession(runtimeContext);
     const currentCount = interactionHistory.get(context.nodeId) || 0;
     const newCount = currentCount + 1;
     interactionHistory.set(context.nodeId, newCount);
@@ -101,8 +103,9 @@ export const adjustAllAgentWeightsTool = createTool({
       newWeight: z.number()
     }))
   }),
-  execute: async ({ context }) => {
-    const graph = getDiscussionGraph();
+  execute: async ({ context, runtimeContext }) => {
+    const { interactionHistory } = resolveDiscussionSession(runtimeContext);
+    const graph = getDiscussionGraph(runtimeContext);
     if (!graph) {
       throw new Error('Discussion graph not initialized');
     }
@@ -156,8 +159,9 @@ export const getWeightDistributionTool = createTool({
     totalWeight: z.number(),
     averageWeight: z.number()
   }),
-  execute: async ({ context }) => {
-    const graph = getDiscussionGraph();
+  execute: async ({ context, runtimeContext }) => {
+    const { interactionHistory } = resolveDiscussionSession(runtimeContext);
+    const graph = getDiscussionGraph(runtimeContext);
     if (!graph) {
       throw new Error('Discussion graph not initialized');
     }
@@ -195,8 +199,8 @@ export const resetInteractionHistoryTool = createTool({
     success: z.boolean(),
     message: z.string()
   }),
-  execute: async () => {
-    interactionHistory.clear();
+  execute: async ({ runtimeContext }) => {
+    resolveDiscussionSession(runtimeContext).interactionHistory.clear();
     
     return {
       success: true,
@@ -1,4 +1,6 @@
 import type { MBTIType, DiscussionStatement } from './mbti-types';
+import type { DiscussionLanguage } from '../utils/discussion-language';
+import type { LLMSelection } from '../utils/llm-provider-registry';
 
 /**
  * フィードバックシステム統合型定義
@@ -31,6 +33,8 @@ export interface QualityScores {
   mbtiAlignment: number;
   overallScore: number;
   breakdown: QualityBreakdown;
+  // 審判モデル（LLM-as-judge）が採点した7次元スコア（審判評価器が有効な場合のみ）
+  judgedDimensions?: Partial<Record<SevenDimensionKey, number>>;
 }
 
 export interface QualityBreakdown {
@@ -54,6 +58,8 @@ export interface EvaluationContext {
   participants: ParticipantInfo[];
   previousFeedback?: DetailedFeedback;
   currentWeight: number;
+  // 議論言語（言語依存の評価ヒューリスティクスを切り替え、未指定時は日本語）
+  language?: DiscussionLanguage;
 }
 
 export interface StatementHistory {
@@ -127,6 +133,7 @@ export type EvaluatorType =
   | 'performance'
   | 'mbti-alignment'
   | 'progress-tracking'
+  | 'llm-judge'
   | 'custom';
 
 export interface EvaluatorConfig {
@@ -190,6 +197,8 @@ export interface SevenDimensionEvaluation {
   overallQuality: number;
 }
 
+export type SevenDimensionKey = Exclude<keyof SevenDimensionEvaluation, 'overallQuality'>;
+
 // ===========================================
 // システム最適化
 // ===========================================
@@ -236,6 +245,8 @@ export interface FeedbackConfiguration {
   enableRealtimeOptimization: boolean;
   performanceTarget: PerformanceTarget;
   adaptiveSettings: AdaptiveSettings;
+  // 審判モデル評価器の設定（未指定時は無効）
+  llmJudge?: LLMJudgeSettings;
 }
 
 export interface QualityThresholds {
@@ -252,6 +263,19 @@ export interface EvaluatorWeights {
   performance: number;
   mbtiAlignment: number;
   progressTracking: number;
+  llmJudge: number;
+}
+
+/**
+ * 審判モデル評価器の設定
+ */
+export interface LLMJudgeSettings {
+  // 審判モデル（未指定時は M_ADS_JUDGE_PROVIDER / M_ADS_JUDGE_MODEL、なければオーケストレーターのモデル）
+  model?: LLMSelection;
+  // 評価器チェーン内の重み（他の評価器の重みは合計1.0を保つよう縮小）
+  weight?: number;
+  // 発言単位の採点キャッシュの上限件数
+  cacheSize?: number;
 }
 
 export type OptimizationStrategy =
@@ -441,6 +465,8 @@ export interface AdaptivePromptParams {
   currentWeight: number;
   recentFeedback?: unknown[];
   progressTrend?: ProgressTrend;
+  // プロンプトの言語（未指定時は日本語）
+  language?: DiscussionLanguage;
 }
 
 export type ProgressTrend = 'improving' | 'stable' | 'declining';
@@ -45,9 +45,24 @@ export interface DiscussionStatement {
   relevance: number;
 }
 
+// 🎯 オーケストレーター介入の種別
+export type OrchestratorInterventionType = 'diversity_boost' | 'consistency_improvement' | 'convergence_facilitation';
+
 // 🆕 会話ターン用の型定義
 export interface DiscussionTurn {
-  agentType: MBTIType;
+  // オーケストレーター介入のターンは 'ORCHESTRATOR'
+  agentType: MBTIType | 'ORCHESTRATOR';
+  // 発言者の種別（未指定はエージェント）
+  speakerKind?: 'agent' | 'human' | 'orchestrator';
+  // 人間参加者の発言の場合の表示名
+  speakerName?: string;
+  // オーケストレーター介入の種別
+  interventionType?: OrchestratorInterventionType;
+  // ディベートモードの陣営と反論先のターン番号
+  debateSide?: 'pro' | 'contra';
+  rebuttalTo?: number;
+  // 発言したフェーズの種類
+  phaseType?: 'initial' | 'interaction' | 'synthesis' | 'consensus';
   message: string;
   timestamp?: string;
   weight?: number;
@@ -1,5 +1,292 @@
 import type { MBTIType, DiscussionStatement } from '../types/mbti-types';
 import type { PerformanceFeedback } from './performance-evaluator';
+import {
+  DEFAULT_DISCUSSION_LANGUAGE,
+  getLanguageProfile,
+  type DiscussionLanguage
+} from './discussion-language';
+
+type PromptPhase = 'initial' | 'interaction' | 'synthesis' | 'consensus';
+
+interface MBTIPhaseGuidance {
+  general: string;
+  initial: string;
+  interaction: string;
+  synthesis: string;
+  consensus: string;
+}
+
+/**
+ * プロンプト文言（議論言語ごと）
+ */
+interface AdaptivePromptText {
+  topic: (topic: string) => string;
+  // createAdaptivePhasePrompt
+  recentStatements: string;
+  adaptivePhaseInstructions: (mbtiType: MBTIType) => Record<PromptPhase, string>;
+  previousEvaluation: (score: string, feedback: string) => string;
+  improvementPoints: string;
+  useEvaluation: string;
+  weightHigh: (weight: string) => string;
+  weightLow: (weight: string) => string;
+  adaptiveClosing: (mbtiType: MBTIType) => string;
+  // createPhaseSpecificPrompt
+  recentFlow: string;
+  phaseSpecificInstructions: (mbtiType: MBTIType) => Record<PromptPhase, string> & { default: string };
+  preferenceGuidance: Record<'E' | 'I' | 'N' | 'S' | 'T' | 'F' | 'J' | 'P', string>;
+  highQuality: string;
+  timeConstraint: string;
+  focusArea: (area: string) => string;
+  guidanceHeading: (mbtiType: MBTIType) => string;
+  phaseSpecificClosing: string;
+  // createImprovementPrompt
+  currentSituation: string;
+  issuesHeading: string;
+  improvementInstructions: (mbtiType: MBTIType) => string;
+  // createStatementLevelAdaptivePrompt
+  participantIntro: (mbtiType: MBTIType, topic: string) => string;
+  statementPhaseInstructions: (mbtiType: MBTIType) => Record<PromptPhase, string>;
+  previousFeedback: string;
+  improving: string;
+  declining: string;
+  previousStrengths: string;
+  neededImprovements: string;
+  nextGuidance: string;
+  mbtiReinforcement: (traits: string) => string;
+  focusThisTime: string;
+  recentDiscussion: string;
+  buildOnRecent: string;
+  speechGuide: (mbtiType: MBTIType) => string;
+  qualityRequirements: (mbtiType: MBTIType) => string;
+  statementWeightHigh: (weight: string) => string;
+  statementWeightLow: (weight: string) => string;
+  // getMBTISpecificGuidance
+  mbtiGuidance: Partial<Record<MBTIType, MBTIPhaseGuidance>>;
+  genericGuidance: string;
+  earlyTurns: string;
+  lateTurns: string;
+}
+
+const PROMPT_TEXT: Record<DiscussionLanguage, AdaptivePromptText> = {
+  ja: {
+    topic: topic => `議論トピック: ${topic}`,
+    recentStatements: '最近の発言',
+    adaptivePhaseInstructions: mbtiType => ({
+      initial: `${mbtiType}として、このトピックについてあなたの独自の視点から初期意見を述べてください。`,
+      interaction: `他のエージェントの意見を踏まえ、建設的な相互作用を行ってください。`,
+      synthesis: `これまでの議論を統合し、より深い洞察を提供してください。`,
+      consensus: `最終的な合意形成に向けて、あなたの結論を述べてください。`
+    }),
+    previousEvaluation: (score, feedback) => `\n\n【前回の評価結果】\n評価スコア: ${score}%\nフィードバック: ${feedback}`,
+    improvementPoints: '改善点',
+    useEvaluation: '上記の評価を参考に、今回はより質の高い発言を心がけてください。',
+    weightHigh: weight => `【重要】あなたの発言の重要度が高く評価されています（重み: ${weight}）。議論をリードする積極的な発言をお願いします。`,
+    weightLow: weight => `【注意】発言の影響度を高めるため、より独創的で建設的な視点を提供してください（現在の重み: ${weight}）。`,
+    adaptiveClosing: mbtiType => `${mbtiType}の特性を活かした200-300文字の回答をお願いします。`,
+    recentFlow: '最近の議論の流れ',
+    phaseSpecificInstructions: mbtiType => ({
+      initial: `【初期発言フェーズ】\n${mbtiType}として、このトピックに対するあなたの独特な視点や経験を活かした初期見解を述べてください。`,
+      interaction: `【相互作用フェーズ】\n他の参加者の意見を踏まえつつ、建設的な議論を展開してください。異なる視点との対話を重視してください。`,
+      synthesis: `【統合フェーズ】\nこれまでの議論を踏まえ、より深い洞察や統合的な視点を提供してください。複数の意見をつなげる役割を果たしてください。`,
+      consensus: `【合意形成フェーズ】\n最終的な結論に向けて、あなたの立場を明確にし、合意可能な解決策を提示してください。`,
+      default: `【一般議論】\nトピックについて、あなたの${mbtiType}としての特性を活かした発言をしてください。`
+    }),
+    preferenceGuidance: {
+      E: '外向的な特性を活かし、積極的に意見を述べ、他者との相互作用を促進してください。',
+      I: '内向的な特性を活かし、深く考察した洞察に富んだ発言をしてください。',
+      N: '直感的な視点から、可能性や将来的な展望について言及してください。',
+      S: '具体的な事実や実践的な観点から、現実的な提案を行ってください。',
+      T: '論理的分析と客観的評価を重視した発言を心がけてください。',
+      F: '人間的価値観や感情的側面を考慮した発言を心がけてください。',
+      J: '構造化された意見と明確な結論を提示してください。',
+      P: '柔軟性と適応性を示し、複数の選択肢を提示してください。'
+    },
+    highQuality: '【高品質要求】今回は特に高い品質の発言が求められています。根拠を明確にし、論理的に構成された発言をお願いします。',
+    timeConstraint: '【時間制約】限られた時間内での発言のため、要点を簡潔にまとめてください。',
+    focusArea: area => `【焦点領域】特に「${area}」の観点を重視して発言してください。`,
+    guidanceHeading: mbtiType => `【${mbtiType}としての発言ガイダンス】`,
+    phaseSpecificClosing: '200-300文字で、あなたの特性を活かした質の高い発言をお願いします。',
+    currentSituation: '現在の議論状況',
+    issuesHeading: '【改善が必要な点】',
+    improvementInstructions: mbtiType =>
+      `【品質向上のための特別指示】\n` +
+      `${mbtiType}として、以下の点を特に意識して発言してください：\n` +
+      `• 具体的な根拠や例を含める\n` +
+      `• 議論の流れに沿った建設的な内容\n` +
+      `• あなたの専門性や特性を活かした独自の視点\n` +
+      `• 他の参加者の意見を踏まえた発展的な議論\n\n` +
+      `250-350文字で、質の高い発言をお願いします。`,
+    participantIntro: (mbtiType, topic) => `あなたは${mbtiType}タイプの議論参加者です。「${topic}」について議論しています。\n\n`,
+    statementPhaseInstructions: mbtiType => ({
+      initial: `【初期段階】あなたの個人的な見解を述べてください。${mbtiType}の特徴である直感的な洞察を活かして、独自の視点を提供してください。`,
+      interaction: `【対話段階】他の参加者の意見を参考にしながら、議論を深めてください。異なる視点との対話を通じて、新たな洞察を見つけてください。`,
+      synthesis: `【統合段階】これまでの議論を踏まえて、アイデアを統合し、より良い解決策を見つけてください。`,
+      consensus: `【合意段階】議論の結論に向けて、建設的な意見を述べてください。合意形成に貢献してください。`
+    }),
+    previousFeedback: '【前回の発言フィードバック】',
+    improving: '✅ 前回から改善が見られます。この調子を維持してください。',
+    declining: '⚠️ 発言品質の低下が見られます。今回は特に注意深く発言してください。',
+    previousStrengths: '💪 前回の強み',
+    neededImprovements: '🎯 改善が必要な点',
+    nextGuidance: '🚀 次回発言への具体的な指示',
+    mbtiReinforcement: traits => `🎭 MBTI特性の強化が必要: ${traits}の特性をより明確に表現してください。`,
+    focusThisTime: '🎯 今回特に注意する点',
+    recentDiscussion: '【最近の議論の流れ】',
+    buildOnRecent: '上記の発言を踏まえて、議論を発展させてください。特に他の参加者の視点を参考にしながら、建設的な議論を心がけてください。',
+    speechGuide: mbtiType => `【${mbtiType}としての発言ガイド】`,
+    qualityRequirements: mbtiType =>
+      `【発言品質の要件】\n` +
+      `- 発言長: 20-100語程度で簡潔にまとめてください\n` +
+      `- 具体性: 可能な限り具体的な例や数値を含めてください\n` +
+      `- 建設性: 他の参加者の発言を踏まえて議論を発展させてください\n` +
+      `- 一貫性: あなたの${mbtiType}特性を明確に表現してください\n`,
+    statementWeightHigh: weight => `💪 あなたの発言は高く評価されています（重み: ${weight}）。この品質を維持してください。`,
+    statementWeightLow: weight => `⚠️ 発言の品質向上が必要です（重み: ${weight}）。より質の高い発言を心がけてください。`,
+    mbtiGuidance: {
+      'INTJ': {
+        general: '戦略的で長期的な視点を持ち、体系的な分析を行ってください。',
+        initial: '問題の本質を見抜く洞察力を発揮し、独創的なアプローチを提案してください。',
+        interaction: '他者の意見を論理的に分析し、より効率的な解決策を提示してください。',
+        synthesis: '複雑な情報を整理し、一貫性のある統合案を作成してください。',
+        consensus: '長期的な影響を考慮した実用的な結論を導いてください。'
+      },
+      'INFJ': {
+        general: '人間の動機と感情を理解し、理想的なビジョンを描いてください。',
+        initial: '直感的洞察を活かして、問題の深層にある意味を探ってください。',
+        interaction: '他者の感情や価値観に共感し、調和的な議論を促進してください。',
+        synthesis: '理想と現実のバランスを取りながら、価値観に基づく統合を図ってください。',
+        consensus: '全員が納得できる価値観に基づいた合意を形成してください。'
+      },
+      // 他のMBTIタイプも同様に定義...
+      'ENTP': {
+        general: '革新的なアイデアと可能性を探求し、議論を活性化してください。',
+        initial: '既存の枠組みを疑問視し、新しい視点を提示してください。',
+        interaction: '他者のアイデアを発展させ、創造的な議論を展開してください。',
+        synthesis: '異なる視点を組み合わせて、革新的な解決策を提案してください。',
+        consensus: '柔軟性を保ちながら、実現可能性の高い合意を形成してください。'
+      },
+      'ISFJ': {
+        general: '他者への配慮を示し、実用的で安定した解決策を提案してください。',
+        initial: '過去の経験に基づいて、確実で実用的な意見を述べてください。',
+        interaction: '他者の意見を尊重し、調和を保ちながら支援的な発言をしてください。',
+        synthesis: '全員の意見を配慮して、バランスの取れた統合案を作成してください。',
+        consensus: '安定性と実用性を重視した合意形成に貢献してください。'
+      }
+    },
+    genericGuidance: '自分の特性を活かして、建設的な議論に参加してください。',
+    earlyTurns: '議論の方向性を決める重要な段階です。',
+    lateTurns: '議論が深まってきています。これまでの流れを活かしてください。'
+  },
+  en: {
+    topic: topic => `Discussion topic: ${topic}`,
+    recentStatements: 'Recent statements',
+    adaptivePhaseInstructions: mbtiType => ({
+      initial: `As an ${mbtiType}, share your initial opinion on this topic from your own distinctive perspective.`,
+      interaction: `Build on the other agents' opinions and engage with them constructively.`,
+      synthesis: `Integrate the discussion so far and offer deeper insights.`,
+      consensus: `State your conclusion with a view to reaching a final consensus.`
+    }),
+    previousEvaluation: (score, feedback) => `\n\n[Previous evaluation]\nScore: ${score}%\nFeedback: ${feedback}`,
+    improvementPoints: 'Points to improve',
+    useEvaluation: 'Use the evaluation above to make this statement of higher quality.',
+    weightHigh: weight => `[Important] Your statements are rated as highly influential (weight: ${weight}). Please lead the discussion with proactive contributions.`,
+    weightLow: weight => `[Note] To increase your influence, offer more original and constructive perspectives (current weight: ${weight}).`,
+    adaptiveClosing: mbtiType => `Please answer in about 80-120 words, drawing on your ${mbtiType} traits. Respond in English.`,
+    recentFlow: 'Recent flow of the discussion',
+    phaseSpecificInstructions: mbtiType => ({
+      initial: `[Opening phase]\nAs an ${mbtiType}, share your initial view on this topic, drawing on your distinctive perspective and experience.`,
+      interaction: `[Interaction phase]\nDevelop a constructive discussion that builds on the other participants' opinions. Prioritize dialogue with differing viewpoints.`,
+      synthesis: `[Synthesis phase]\nBuilding on the discussion so far, offer deeper insights or an integrative perspective. Help connect multiple opinions.`,
+      consensus: `[Consensus phase]\nMake your position clear and propose a solution everyone can agree on as the discussion moves toward a final conclusion.`,
+      default: `[General discussion]\nSpeak on the topic in a way that draws on your ${mbtiType} traits.`
+    }),
+    preferenceGuidance: {
+      E: 'Use your extraverted strengths: voice your views actively and encourage interaction with others.',
+      I: 'Use your introverted strengths: offer carefully considered, insightful remarks.',
+      N: 'From an intuitive perspective, address possibilities and future prospects.',
+      S: 'Make realistic proposals grounded in concrete facts and practical considerations.',
+      T: 'Emphasize logical analysis and objective evaluation.',
+      F: 'Take human values and emotional aspects into account.',
+      J: 'Present structured opinions and clear conclusions.',
+      P: 'Show flexibility and adaptability, and present several options.'
+    },
+    highQuality: '[High quality required] This statement needs to be of especially high quality. Make your reasoning explicit and structure it logically.',
+    timeConstraint: '[Time constraint] Time is limited, so summarize your key points concisely.',
+    focusArea: area => `[Focus area] Pay particular attention to the perspective of "${area}".`,
+    guidanceHeading: mbtiType => `[Guidance for you as an ${mbtiType}]`,
+    phaseSpecificClosing: 'Please give a high-quality statement of about 80-120 words that draws on your traits. Respond in English.',
+    currentSituation: 'Current state of the discussion',
+    issuesHeading: '[Points that need improvement]',
+    improvementInstructions: mbtiType =>
+      `[Special instructions for improving quality]\n` +
+      `As an ${mbtiType}, pay particular attention to the following:\n` +
+      `• Include concrete evidence or examples\n` +
+      `• Keep the content constructive and in line with the flow of the discussion\n` +
+      `• Offer a unique perspective that draws on your expertise and traits\n` +
+      `• Develop the discussion by building on the other participants' opinions\n\n` +
+      `Please give a high-quality statement of about 100-140 words. Respond in English.`,
+    participantIntro: (mbtiType, topic) => `You are a discussion participant of type ${mbtiType}. You are discussing "${topic}".\n\n`,
+    statementPhaseInstructions: mbtiType => ({
+      initial: `[Opening stage] Share your personal view. Draw on the intuitive insight characteristic of an ${mbtiType} to offer a distinctive perspective.`,
+      interaction: `[Dialogue stage] Deepen the discussion while taking the other participants' opinions into account. Find new insights through dialogue with differing viewpoints.`,
+      synthesis: `[Synthesis stage] Building on the discussion so far, integrate the ideas and look for a better solution.`,
+      consensus: `[Consensus stage] Offer constructive views toward the conclusion of the discussion and help build consensus.`
+    }),
+    previousFeedback: '[Feedback on your previous statement]',
+    improving: '✅ You have improved since last time. Keep it up.',
+    declining: '⚠️ The quality of your statements has declined. Be especially careful this time.',
+    previousStrengths: '💪 Previous strengths',
+    neededImprovements: '🎯 Points to improve',
+    nextGuidance: '🚀 Specific guidance for this statement',
+    mbtiReinforcement: traits => `🎭 Strengthen your MBTI traits: express the traits of ${traits} more clearly.`,
+    focusThisTime: '🎯 Pay particular attention to',
+    recentDiscussion: '[Recent flow of the discussion]',
+    buildOnRecent: 'Develop the discussion by building on the statements above. Keep it constructive and draw on the other participants\' perspectives.',
+    speechGuide: mbtiType => `[Speaking guide for you as an ${mbtiType}]`,
+    qualityRequirements: mbtiType =>
+      `[Statement quality requirements]\n` +
+      `- Length: keep it concise, about 20-100 words\n` +
+      `- Specificity: include concrete examples or figures where possible\n` +
+      `- Constructiveness: develop the discussion by building on other participants' statements\n` +
+      `- Consistency: clearly express your ${mbtiType} traits\n` +
+      `- Language: respond in English\n`,
+    statementWeightHigh: weight => `💪 Your statements are highly rated (weight: ${weight}). Maintain this quality.`,
+    statementWeightLow: weight => `⚠️ Your statement quality needs to improve (weight: ${weight}). Aim for higher-quality contributions.`,
+    mbtiGuidance: {
+      'INTJ': {
+        general: 'Take a strategic, long-term view and analyze systematically.',
+        initial: 'Use your insight into the essence of the problem and propose an original approach.',
+        interaction: 'Analyze the others\' opinions logically and present more efficient solutions.',
+        synthesis: 'Organize complex information and build a coherent integrated proposal.',
+        consensus: 'Reach a practical conclusion that accounts for long-term impact.'
+      },
+      'INFJ': {
+        general: 'Understand human motives and emotions, and describe an ideal vision.',
+        initial: 'Use your intuitive insight to explore the deeper meaning of the problem.',
+        interaction: 'Empathize with others\' feelings and values, and foster a harmonious discussion.',
+        synthesis: 'Balance ideals and reality while integrating on the basis of shared values.',
+        consensus: 'Build a values-based agreement that everyone can accept.'
+      },
+      'ENTP': {
+        general: 'Explore innovative ideas and possibilities, and energize the discussion.',
+        initial: 'Question existing frameworks and present new perspectives.',
+        interaction: 'Develop others\' ideas further and drive a creative discussion.',
+        synthesis: 'Combine differing perspectives into innovative solutions.',
+        consensus: 'Stay flexible while forming a highly feasible agreement.'
+      },
+      'ISFJ': {
+        general: 'Show consideration for others and propose practical, stable solutions.',
+        initial: 'Share reliable, practical opinions grounded in past experience.',
+        interaction: 'Respect others\' opinions and speak supportively while maintaining harmony.',
+        synthesis: 'Take everyone\'s views into account and build a balanced integrated proposal.',
+        consensus: 'Contribute to a consensus that values stability and practicality.'
+      }
+    },
+    genericGuidance: 'Draw on your traits and take part in the discussion constructively.',
+    earlyTurns: 'This is an important stage that sets the direction of the discussion.',
+    lateTurns: 'The discussion has deepened. Build on how it has developed so far.'
+  }
+};
 
 /**
  * 適応的プロンプト生成（評価結果を反映）
@@ -11,42 +298,43 @@ export function createAdaptivePhasePrompt(
   mbtiType: MBTIType,
   recentStatements: DiscussionStatement[],
   performanceFeedback?: PerformanceFeedback,
-  currentWeight?: number
+  currentWeight?: number,
+  language: DiscussionLanguage = DEFAULT_DISCUSSION_LANGUAGE
 ): string {
+  const text = PROMPT_TEXT[language];
+  const { listSeparator } = getLanguageProfile(language);
+
   const context = recentStatements.length > 0 ?
-    `\n\n最近の発言:\n${recentStatements.map(s => `${s.mbtiType}: ${s.content}`).join('\n\n')}` : '';
+    `\n\n${text.recentStatements}:\n${recentStatements.map(s => `${s.mbtiType}: ${s.content}`).join('\n\n')}` : '';
 
-  const phaseInstructions: Record<string, string> = {
-    initial: `${mbtiType}として、このトピックについてあなたの独自の視点から初期意見を述べてください。`,
-    interaction: `他のエージェントの意見を踏まえ、建設的な相互作用を行ってください。`,
-    synthesis: `これまでの議論を統合し、より深い洞察を提供してください。`,
-    consensus: `最終的な合意形成に向けて、あなたの結論を述べてください。`
-  };
+  const phaseInstructions: Record<string, string> = text.adaptivePhaseInstructions(mbtiType);
 
   // パフォーマンスフィードバックの統合
   let feedbackInstruction = '';
   if (performanceFeedback) {
-    feedbackInstruction = `\n\n【前回の評価結果】\n評価スコア: ${(performanceFeedback.overallScore * 100).toFixed(0)}%\n` +
-      `フィードバック: ${performanceFeedback.feedback}`;
+    feedbackInstruction = text.previousEvaluation(
+      (performanceFeedback.overallScore * 100).toFixed(0),
+      performanceFeedback.feedback
+    );
 
     if (performanceFeedback.improvementSuggestions.length > 0) {
-      feedbackInstruction += `\n改善点: ${performanceFeedback.improvementSuggestions.join('、')}`;
+      feedbackInstruction += `\n${text.improvementPoints}: ${performanceFeedback.improvementSuggestions.join(listSeparator)}`;
     }
 
-    feedbackInstruction += '\n\n上記の評価を参考に、今回はより質の高い発言を心がけてください。';
+    feedbackInstruction += `\n\n${text.useEvaluation}`;
   }
 
   // 重み情報の統合
   let weightInstruction = '';
   if (currentWeight && currentWeight !== 1.0) {
     if (currentWeight > 1.2) {
-      weightInstruction = `\n\n【重要】あなたの発言の重要度が高く評価されています（重み: ${currentWeight.toFixed(2)}）。議論をリードする積極的な発言をお願いします。`;
+      weightInstruction = `\n\n${text.weightHigh(currentWeight.toFixed(2))}`;
     } else if (currentWeight < 0.8) {
-      weightInstruction = `\n\n【注意】発言の影響度を高めるため、より独創的で建設的な視点を提供してください（現在の重み: ${currentWeight.toFixed(2)}）。`;
+      weightInstruction = `\n\n${text.weightLow(currentWeight.toFixed(2))}`;
     }
   }
 
-  return `議論トピック: ${topic}${context}\n\n${phaseInstructions[phase]}${feedbackInstruction}${weightInstruction}\n\n${mbtiType}の特性を活かした200-300文字の回答をお願いします。`;
+  return `${text.topic(topic)}${context}\n\n${phaseInstructions[phase]}${feedbackInstruction}${weightInstruction}\n\n${text.adaptiveClosing(mbtiType)}`;
 }
 
 /**
@@ -62,72 +350,41 @@ export function createPhaseSpecificPrompt(
     qualityThreshold?: number;
     timeConstraint?: number;
     focusArea?: string;
-  }
+  },
+  language: DiscussionLanguage = DEFAULT_DISCUSSION_LANGUAGE
 ): string {
-  const context = recentStatements.length > 0 ?
-    `\n\n最近の議論の流れ:\n${recentStatements.slice(-3).map(s => `${s.mbtiType}: ${s.content.substring(0, 120)}...`).join('\n\n')}` : '';
+  const text = PROMPT_TEXT[language];
 
-  let phaseInstructions = '';
-  let mbtiSpecificGuidance = '';
+  const context = recentStatements.length > 0 ?
+    `\n\n${text.recentFlow}:\n${recentStatements.slice(-3).map(s => `${s.mbtiType}: ${s.content.substring(0, 120)}...`).join('\n\n')}` : '';
 
   // フェーズ別指示
-  switch (phase) {
-    case 'initial':
-      phaseInstructions = `【初期発言フェーズ】\n${mbtiType}として、このトピックに対するあなたの独特な視点や経験を活かした初期見解を述べてください。`;
-      break;
-    case 'interaction':
-      phaseInstructions = `【相互作用フェーズ】\n他の参加者の意見を踏まえつつ、建設的な議論を展開してください。異なる視点との対話を重視してください。`;
-      break;
-    case 'synthesis':
-      phaseInstructions = `【統合フェーズ】\nこれまでの議論を踏まえ、より深い洞察や統合的な視点を提供してください。複数の意見をつなげる役割を果たしてください。`;
-      break;
-    case 'consensus':
-      phaseInstructions = `【合意形成フェーズ】\n最終的な結論に向けて、あなたの立場を明確にし、合意可能な解決策を提示してください。`;
-      break;
-    default:
-      phaseInstructions = `【一般議論】\nトピックについて、あなたの${mbtiType}としての特性を活かした発言をしてください。`;
-  }
+  const instructionsByPhase = text.phaseSpecificInstructions(mbtiType);
+  const phaseInstructions = instructionsByPhase[phase as PromptPhase] ?? instructionsByPhase.default;
 
   // MBTIタイプ別ガイダンス
-  if (mbtiType.includes('E')) {
-    mbtiSpecificGuidance += '外向的な特性を活かし、積極的に意見を述べ、他者との相互作用を促進してください。';
-  } else {
-    mbtiSpecificGuidance += '内向的な特性を活かし、深く考察した洞察に富んだ発言をしてください。';
-  }
-
-  if (mbtiType.includes('N')) {
-    mbtiSpecificGuidance += '直感的な視点から、可能性や将来的な展望について言及してください。';
-  } else {
-    mbtiSpecificGuidance += '具体的な事実や実践的な観点から、現実的な提案を行ってください。';
-  }
-
-  if (mbtiType.includes('T')) {
-    mbtiSpecificGuidance += '論理的分析と客観的評価を重視した発言を心がけてください。';
-  } else {
-    mbtiSpecificGuidance += '人間的価値観や感情的側面を考慮した発言を心がけてください。';
-  }
-
-  if (mbtiType.includes('J')) {
-    mbtiSpecificGuidance += '構造化された意見と明確な結論を提示してください。';
-  } else {
-    mbtiSpecificGuidance += '柔軟性と適応性を示し、複数の選択肢を提示してください。';
-  }
+  const { preferenceGuidance } = text;
+  let mbtiSpecificGuidance = '';
+  mbtiSpecificGuidance += mbtiType.includes('E') ? preferenceGuidance.E : preferenceGuidance.I;
+  mbtiSpecificGuidance += mbtiType.includes('N') ? preferenceGuidance.N : preferenceGuidance.S;
+  mbtiSpecificGuidance += mbtiType.includes('T') ? preferenceGuidance.T : preferenceGuidance.F;
+  mbtiSpecificGuidance += mbtiType.includes('J') ? preferenceGuidance.J : preferenceGuidance.P;
 
   // 特別なコンテキストの処理
   let specialInstructions = '';
   if (specialContext) {
     if (specialContext.qualityThreshold && specialContext.qualityThreshold > 0.8) {
-      specialInstructions += '\n\n【高品質要求】今回は特に高い品質の発言が求められています。根拠を明確にし、論理的に構成された発言をお願いします。';
+      specialInstructions += `\n\n${text.highQuality}`;
     }
     if (specialContext.timeConstraint && specialContext.timeConstraint < 300) {
-      specialInstructions += '\n\n【時間制約】限られた時間内での発言のため、要点を簡潔にまとめてください。';
+      specialInstructions += `\n\n${text.timeConstraint}`;
     }
     if (specialContext.focusArea) {
-      specialInstructions += `\n\n【焦点領域】特に「${specialContext.focusArea}」の観点を重視して発言してください。`;
+      specialInstructions += `\n\n${text.focusArea(specialContext.focusArea)}`;
     }
   }
 
-  return `議論トピック: ${topic}${context}\n\n${phaseInstructions}\n\n【${mbtiType}としての発言ガイダンス】\n${mbtiSpecificGuidance}${specialInstructions}\n\n200-300文字で、あなたの特性を活かした質の高い発言をお願いします。`;
+  return `${text.topic(topic)}${context}\n\n${phaseInstructions}\n\n${text.guidanceHeading(mbtiType)}\n${mbtiSpecificGuidance}${specialInstructions}\n\n${text.phaseSpecificClosing}`;
 }
 
 /**
@@ -138,27 +395,23 @@ export function createImprovementPrompt(
   topic: string,
   mbtiType: MBTIType,
   recentStatements: DiscussionStatement[],
-  qualityIssues: string[]
+  qualityIssues: string[],
+  language: DiscussionLanguage = DEFAULT_DISCUSSION_LANGUAGE
 ): string {
+  const text = PROMPT_TEXT[language];
+
   const context = recentStatements.length > 0 ?
-    `\n\n現在の議論状況:\n${recentStatements.slice(-2).map(s => `${s.mbtiType}: ${s.content.substring(0, 100)}...`).join('\n\n')}` : '';
+    `\n\n${text.currentSituation}:\n${recentStatements.slice(-2).map(s => `${s.mbtiType}: ${s.content.substring(0, 100)}...`).join('\n\n')}` : '';
 
   const improvementFocus = qualityIssues.length > 0 ?
-    `\n\n【改善が必要な点】\n${qualityIssues.map(issue => `• ${issue}`).join('\n')}` : '';
-
-  return `議論トピック: ${topic}${context}${improvementFocus}\n\n` +
-    `【品質向上のための特別指示】\n` +
-    `${mbtiType}として、以下の点を特に意識して発言してください：\n` +
-    `• 具体的な根拠や例を含める\n` +
-    `• 議論の流れに沿った建設的な内容\n` +
-    `• あなたの専門性や特性を活かした独自の視点\n` +
-    `• 他の参加者の意見を踏まえた発展的な議論\n\n` +
-    `250-350文字で、質の高い発言をお願いします。`;
+    `\n\n${text.issuesHeading}\n${qualityIssues.map(issue => `• ${issue}`).join('\n')}` : '';
+
+  return `${text.topic(topic)}${context}${improvementFocus}\n\n${text.improvementInstructions(mbtiType)}`;
 }
 
 // 🆕 発言単位のフィードバック履歴を活用したプロンプト生成
 export function createStatementLevelAdaptivePrompt(
-  phase: 'initial' | 'interaction' | 'synthesis' | 'consensus',
+  phase: PromptPhase,
   topic: string,
   mbtiType: MBTIType,
   recentStatements: DiscussionStatement[],
@@ -169,55 +422,54 @@ export function createStatementLevelAdaptivePrompt(
     totalParticipants: number;
     previousStatements: string[];
     recentMBTITypes: string[];
-  }
+  },
+  language: DiscussionLanguage = DEFAULT_DISCUSSION_LANGUAGE
 ): string {
-  let prompt = `あなたは${mbtiType}タイプの議論参加者です。「${topic}」について議論しています。\n\n`;
+  const text = PROMPT_TEXT[language];
+  const { listSeparator } = getLanguageProfile(language);
+
+  let prompt = text.participantIntro(mbtiType, topic);
 
   // 🎯 現在のフェーズ特有の指示
-  const phaseInstructions = {
-    'initial': `【初期段階】あなたの個人的な見解を述べてください。${mbtiType}の特徴である直感的な洞察を活かして、独自の視点を提供してください。`,
-    'interaction': `【対話段階】他の参加者の意見を参考にしながら、議論を深めてください。異なる視点との対話を通じて、新たな洞察を見つけてください。`,
-    'synthesis': `【統合段階】これまでの議論を踏まえて、アイデアを統合し、より良い解決策を見つけてください。`,
-    'consensus': `【合意段階】議論の結論に向けて、建設的な意見を述べてください。合意形成に貢献してください。`
-  };
+  const phaseInstructions = text.statementPhaseInstructions(mbtiType);
 
   prompt += phaseInstructions[phase] + '\n\n';
 
   // 🔍 詳細フィードバックに基づく具体的な改善指示
   if (detailedFeedback) {
-    prompt += `【前回の発言フィードバック】\n`;
+    prompt += `${text.previousFeedback}\n`;
 
     // 進捗状況
     const { progressTracking } = detailedFeedback;
     if (progressTracking.improvementTrend === 'improving') {
-      prompt += `✅ 前回から改善が見られます。この調子を維持してください。\n`;
+      prompt += `${text.improving}\n`;
     } else if (progressTracking.improvementTrend === 'declining') {
-      prompt += `⚠️ 発言品質の低下が見られます。今回は特に注意深く発言してください。\n`;
+      prompt += `${text.declining}\n`;
     }
 
     // 具体的な強みと弱点
     const { detailedAnalysis } = detailedFeedback;
     if (detailedAnalysis.strengths.length > 0) {
-      prompt += `💪 前回の強み: ${detailedAnalysis.strengths.join('、')}\n`;
+      prompt += `${text.previousStrengths}: ${detailedAnalysis.strengths.join(listSeparator)}\n`;
     }
     if (detailedAnalysis.weaknesses.length > 0) {
-      prompt += `🎯 改善が必要な点: ${detailedAnalysis.weaknesses.join('、')}\n`;
+      prompt += `${text.neededImprovements}: ${detailedAnalysis.weaknesses.join(listSeparator)}\n`;
     }
 
     // 次回発言への具体的ガイダンス
     if (detailedAnalysis.nextSpeechGuidance) {
-      prompt += `🚀 次回発言への具体的な指示: ${detailedAnalysis.nextSpeechGuidance}\n`;
+      prompt += `${text.nextGuidance}: ${detailedAnalysis.nextSpeechGuidance}\n`;
     }
 
     // MBTI特性との整合性
     const { mbtiAlignment } = detailedFeedback;
     if (mbtiAlignment.alignmentScore < 0.7) {
-      prompt += `🎭 MBTI特性の強化が必要: ${mbtiAlignment.alignmentGap.slice(0, 2).join('、')}の特性をより明確に表現してください。\n`;
+      prompt += `${text.mbtiReinforcement(mbtiAlignment.alignmentGap.slice(0, 2).join(listSeparator))}\n`;
     }
 
     // 推奨フォーカス
     if (progressTracking.recommendedFocus.length > 0) {
-      prompt += `🎯 今回特に注意する点: ${progressTracking.recommendedFocus.slice(0, 2).join('、')}\n`;
+      prompt += `${text.focusThisTime}: ${progressTracking.recommendedFocus.slice(0, 2).join(listSeparator)}\n`;
     }
 
     prompt += '\n';
@@ -225,29 +477,25 @@ export function createStatementLevelAdaptivePrompt(
 
   // 🤝 他の参加者の発言を踏まえた指示
   if (recentStatements.length > 0) {
-    prompt += `【最近の議論の流れ】\n`;
+    prompt += `${text.recentDiscussion}\n`;
     recentStatements.slice(-2).forEach((stmt, index) => {
       prompt += `${stmt.mbtiType}: ${stmt.content.substring(0, 80)}...\n`;
     });
-    prompt += `\n上記の発言を踏まえて、議論を発展させてください。特に他の参加者の視点を参考にしながら、建設的な議論を心がけてください。\n\n`;
+    prompt += `\n${text.buildOnRecent}\n\n`;
   }
 
   // 🎯 MBTI特性に基づく具体的なアドバイス
-  const mbtiSpecificGuidance = getMBTISpecificGuidance(mbtiType, phase, discussionContext);
-  prompt += `【${mbtiType}としての発言ガイド】\n${mbtiSpecificGuidance}\n\n`;
+  const mbtiSpecificGuidance = getMBTISpecificGuidance(mbtiType, phase, discussionContext, language);
+  prompt += `${text.speechGuide(mbtiType)}\n${mbtiSpecificGuidance}\n\n`;
 
   // 📊 発言品質の要件
-  prompt += `【発言品質の要件】\n`;
-  prompt += `- 発言長: 20-100語程度で簡潔にまとめてください\n`;
-  prompt += `- 具体性: 可能な限り具体的な例や数値を含めてください\n`;
-  prompt += `- 建設性: 他の参加者の発言を踏まえて議論を発展させてください\n`;
-  prompt += `- 一貫性: あなたの${mbtiType}特性を明確に表現してください\n`;
+  prompt += text.qualityRequirements(mbtiType);
 
   // 🎯 現在の重みと参加状況を反映
   if (currentWeight > 1.2) {
-    prompt += `\n💪 あなたの発言は高く評価されています（重み: ${currentWeight.toFixed(2)}）。この品質を維持してください。`;
+    prompt += `\n${text.statementWeightHigh(currentWeight.toFixed(2))}`;
   } else if (currentWeight < 0.8) {
-    prompt += `\n⚠️ 発言の品質向上が必要です（重み: ${currentWeight.toFixed(2)}）。より質の高い発言を心がけてください。`;
+    prompt += `\n${text.statementWeightLow(currentWeight.toFixed(2))}`;
   }
 
   return prompt;
@@ -257,58 +505,29 @@ export function createStatementLevelAdaptivePrompt(
 function getMBTISpecificGuidance(
   mbtiType: MBTIType,
   phase: string,
-  context: { turnNumber: number; totalParticipants: number; recentMBTITypes: string[] }
+  context: { turnNumber: number; totalParticipants: number; recentMBTITypes: string[] },
+  language: DiscussionLanguage
 ): string {
-  const guidance = {
-    'INTJ': {
-      general: '戦略的で長期的な視点を持ち、体系的な分析を行ってください。',
-      initial: '問題の本質を見抜く洞察力を発揮し、独創的なアプローチを提案してください。',
-      interaction: '他者の意見を論理的に分析し、より効率的な解決策を提示してください。',
-      synthesis: '複雑な情報を整理し、一貫性のある統合案を作成してください。',
-      consensus: '長期的な影響を考慮した実用的な結論を導いてください。'
-    },
-    'INFJ': {
-      general: '人間の動機と感情を理解し、理想的なビジョンを描いてください。',
-      initial: '直感的洞察を活かして、問題の深層にある意味を探ってください。',
-      interaction: '他者の感情や価値観に共感し、調和的な議論を促進してください。',
-      synthesis: '理想と現実のバランスを取りながら、価値観に基づく統合を図ってください。',
-      consensus: '全員が納得できる価値観に基づいた合意を形成してください。'
-    },
-    // 他のMBTIタイプも同様に定義...
-    'ENTP': {
-      general: '革新的なアイデアと可能性を探求し、議論を活性化してください。',
-      initial: '既存の枠組みを疑問視し、新しい視点を提示してください。',
-      interaction: '他者のアイデアを発展させ、創造的な議論を展開してください。',
-      synthesis: '異なる視点を組み合わせて、革新的な解決策を提案してください。',
-      consensus: '柔軟性を保ちながら、実現可能性の高い合意を形成してください。'
-    },
-    'ISFJ': {
-      general: '他者への配慮を示し、実用的で安定した解決策を提案してください。',
-      initial: '過去の経験に基づいて、確実で実用的な意見を述べてください。',
-      interaction: '他者の意見を尊重し、調和を保ちながら支援的な発言をしてください。',
-      synthesis: '全員の意見を配慮して、バランスの取れた統合案を作成してください。',
-      consensus: '安定性と実用性を重視した合意形成に貢献してください。'
-    }
-  };
+  const text = PROMPT_TEXT[language];
 
-  const typeGuidance = guidance[mbtiType as keyof typeof guidance];
+  const typeGuidance = text.mbtiGuidance[mbtiType];
   if (!typeGuidance) {
-    return '自分の特性を活かして、建設的な議論に参加してください。';
+    return text.genericGuidance;
   }
 
   let specificGuidance = typeGuidance.general;
 
   // フェーズ特有の指示を追加
-  const phaseSpecific = typeGuidance[phase as keyof typeof typeGuidance];
+  const phaseSpecific = typeGuidance[phase as keyof MBTIPhaseGuidance];
   if (phaseSpecific && typeof phaseSpecific === 'string') {
     specificGuidance += ` ${phaseSpecific}`;
   }
 
   // 議論の文脈に基づく追加指示
   if (context.turnNumber <= 2) {
-    specificGuidance += ' 議論の方向性を決める重要な段階です。';
+    specificGuidance += ` ${text.earlyTurns}`;
   } else if (context.turnNumber > context.totalParticipants * 2) {
-    specificGuidance += ' 議論が深まってきています。これまでの流れを活かしてください。';
+    specificGuidance += ` ${text.lateTurns}`;
   }
 
   return specificGuidance;
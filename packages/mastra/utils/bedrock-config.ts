@@ -23,6 +23,25 @@ export const BEDROCK_MODELS = {
 
 export type BedrockModelType = typeof BEDROCK_MODELS[keyof typeof BEDROCK_MODELS];
 
+/**
+ * モデル単価（USD / 100万トークン）
+ */
+export interface ModelPricing {
+  inputPerMillionTokens: number;
+  outputPerMillionTokens: number;
+}
+
+/**
+ * Bedrockモデルの既定単価（コスト見積もり用、M_ADS_MODEL_PRICING_FILE で上書き可能）
+ */
+export const BEDROCK_MODEL_PRICING: Record<BedrockModelType, ModelPricing> = {
+  [BEDROCK_MODELS.CLAUDE_3_7_SONNET]: { inputPerMillionTokens: 3, outputPerMillionTokens: 15 },
+  [BEDROCK_MODELS.CLAUDE_3_5_SONNET_V2]: { inputPerMillionTokens: 3, outputPerMillionTokens: 15 },
+  [BEDROCK_MODELS.CLAUDE_3_5_SONNET_V1]: { inputPerMillionTokens: 3, outputPerMillionTokens: 15 },
+  [BEDROCK_MODELS.CLAUDE_3_HAIKU]: { inputPerMillionTokens: 0.25, outputPerMillionTokens: 1.25 },
+  [BEDROCK_MODELS.CLAUDE_3_OPUS]: { inputPerMillionTokens: 15, outputPerMillionTokens: 75 }
+};
+
 /**
  * Bedrock設定オプション
  */
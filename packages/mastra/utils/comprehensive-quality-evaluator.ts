@@ -1,4 +1,10 @@
 import type { DiscussionStatement, MBTIType, QualityMetrics } from '../types/mbti-types';
+import {
+  DEFAULT_DISCUSSION_LANGUAGE,
+  getLanguageProfile,
+  measureStatementLength,
+  type DiscussionLanguage
+} from './discussion-language';
 import { MBTI_CHARACTERISTICS } from './mbti-characteristics';
 
 // 議論コンテキスト型定義
@@ -122,6 +128,400 @@ interface ConsensusProcessAnalysis {
   finalConsensusStrength: number;      // 最終合意強度
 }
 
+/**
+ * 品質評価のキーワード辞書（議論言語ごと、英語は小文字の語幹で部分一致）
+ */
+interface QualityLexicon {
+  discussionPhases: Record<'exploration' | 'analysis' | 'synthesis' | 'conclusion', string[]>;
+  problemDefinition: string[];
+  solution: string[];
+  action: string[];
+  conclusion: string[];
+  convergenceAgreement: string[];
+  convergenceConflict: string[];
+  emotional: string[];
+  cognitive: Record<'thinking' | 'feeling' | 'sensing' | 'intuition', string[]>;
+  positiveValues: string[];
+  negativeValues: string[];
+  tone: Record<'positive' | 'negative' | 'neutral' | 'analytical' | 'emotional', string[]>;
+  positionPositive: string[];
+  positionNegative: string[];
+  typeValues: Record<MBTIType, string[]>;
+  groupValues: Record<'NT' | 'NF' | 'SJ' | 'SP', string[]>;
+  directCooperation: string[];
+  agreementExpressions: string[];
+  constructiveAdditions: string[];
+  consideration: string[];
+  conflictIndicators: string[];
+  resolutionAttempts: string[];
+  constructiveConflict: string[];
+  logicalConnectors: string[];
+  causalExpressions: string[];
+  contrastExpressions: string[];
+  strongEvidence: string[];
+  expertExpressions: string[];
+  quantitativeExpressions: string[];
+  complexThinking: string[];
+  analyticalExpressions: string[];
+  abstractConcepts: string[];
+  clarityIndicators: string[];
+  structureIndicators: string[];
+  ambiguityIndicators: string[];
+  constructiveExpressions: string[];
+  positiveExpressions: string[];
+  negativeExpressions: string[];
+  biasWords: string[];
+  respectfulWords: string[];
+  disrespectfulWords: string[];
+  contradictionWords: string[];
+  entailmentWords: string[];
+  strongPositive: string[];
+  positive: string[];
+  constructive: string[];
+  strongNegative: string[];
+  negative: string[];
+  questioning: string[];
+  proposalWords: string[];
+  collaborationWords: string[];
+}
+
+const QUALITY_LEXICONS: Record<DiscussionLanguage, QualityLexicon> = {
+  ja: {
+    discussionPhases: {
+      exploration: ['探る', '検討', '調査', '分析', '理解'],
+      analysis: ['分析', '評価', '検証', '比較', '考察'],
+      synthesis: ['統合', '組み合わせ', '融合', 'まとめ', '総合'],
+      conclusion: ['結論', '決定', '合意', '最終', '確定']
+    },
+    problemDefinition: [
+      '問題', '課題', '目標', '目的', '狙い',
+      '何が', 'なぜ', 'どのように', '背景', '現状'
+    ],
+    solution: [
+      '解決', '対策', '方法', '手段', 'アプローチ',
+      '提案', '案', 'アイデア', '工夫', '改善'
+    ],
+    action: [
+      '実行', '実施', '導入', '適用', '活用',
+      'ステップ', '段階', 'プロセス', '計画'
+    ],
+    conclusion: [
+      '結論', 'まとめ', '総括', '要約', '最終的',
+      '決定', '合意', '確定', '採用', '選択'
+    ],
+    convergenceAgreement: ['賛成', '同意', '同感', 'その通り', '納得'],
+    convergenceConflict: ['反対', '違う', '疑問', '課題'],
+    emotional: ['怒', '悲', '喜', '驚', '恐', '嫌', '楽', '苦'],
+    cognitive: {
+      thinking: ['論理', '分析', '理由', '根拠', '証拠'],
+      feeling: ['感じ', '価値', '意味', '大切', '重要'],
+      sensing: ['事実', '具体', '経験', '実際', '現実'],
+      intuition: ['可能', '将来', '潜在', 'アイデア', '想像']
+    },
+    positiveValues: ['良い', '重要', '価値', '意義', '有益'],
+    negativeValues: ['問題', '課題', '困難', '不適'],
+    tone: {
+      positive: ['良い', '素晴らしい', '効果的', '有益', '価値'],
+      negative: ['問題', '困難', '課題', '不適', '悪い'],
+      neutral: ['考える', '思う', '検討', '分析', '評価'],
+      analytical: ['論理', '分析', '検証', '検討', 'データ'],
+      emotional: ['感じる', '思い', '気持ち', '印象', '直感']
+    },
+    positionPositive: ['賛成', '同意', '支持', '良い', '有効'],
+    positionNegative: ['反対', '問題', '困難', '不適', '課題'],
+    typeValues: {
+      // NT (Rational) - 論理と体系性を重視
+      INTJ: ['効率', '戦略', 'システム', '改善', '最適化', '体系的', '長期的'],
+      INTP: ['論理', '理論', '分析', '真理', '概念', '原理', '理解'],
+      ENTJ: ['目標', 'リーダーシップ', '成果', '組織', '戦略', '効率', '達成'],
+      ENTP: ['革新', '創造', '可能性', 'アイデア', '変化', '議論', '探求'],
+      // NF (Idealist) - 価値と人間性を重視
+      INFJ: ['調和', '意味', '成長', '理解', '洞察', '価値', '使命'],
+      INFP: ['真正性', '個人的', '価値観', '理想', '成長', '独創性', '意味'],
+      ENFJ: ['調和', '成長', '協力', '支援', '関係', '価値', '人間性'],
+      ENFP: ['可能性', 'インスピレーション', '創造', '自由', '価値', '多様性', '成長'],
+      // SJ (Guardian) - 安定と責任を重視
+      ISTJ: ['責任', '安定', '伝統', '信頼', '秩序', '継続性', '確実'],
+      ISFJ: ['配慮', '支援', '協力', '責任', '安定', '調和', '奉仕'],
+      ESTJ: ['組織', '効率', '実績', '責任', '秩序', '管理', '達成'],
+      ESFJ: ['調和', '協力', '責任', '支援', '関係', '安定', '配慮'],
+      // SP (Artisan) - 柔軟性と実用性を重視
+      ISTP: ['実用', '技術', '解決', '分析', '効率', '適応', '現実'],
+      ISFP: ['個人的', '美的', '体験', '価値', '調和', '自然', '真正'],
+      ESTP: ['行動', '現実', '実用', '適応', '体験', '効果', '即座'],
+      ESFP: ['楽しい', '人との', '前向き', '体験', '自由', 'エネルギー', '現在']
+    },
+    groupValues: {
+      NT: ['論理', '分析', '効率', '体系', '戦略'],
+      NF: ['価値', '意味', '成長', '調和', '人間'],
+      SJ: ['責任', '安定', '秩序', '継続', '信頼'],
+      SP: ['実用', '適応', '現実', '体験', '自由']
+    },
+    directCooperation: [
+      '協力', '共同', '連携', '協調', '一緒に', '共に',
+      'チーム', 'グループ', '皆で', 'みんなで'
+    ],
+    agreementExpressions: [
+      '賛成', '同意', '支持', '同感', 'その通り',
+      '良いアイデア', 'いい考え', '納得', '理解'
+    ],
+    constructiveAdditions: [
+      'さらに', '加えて', '補足', '追加', 'また',
+      'それに', 'そして', '同様に'
+    ],
+    consideration: [
+      '配慮', '思いやり', '尊重', '考慮', '理解',
+      'お疲れ', 'ありがとう', '感謝'
+    ],
+    conflictIndicators: [
+      '反対', '違う', '問題', '課題', '困難',
+      'しかし', 'ただし', 'とはいえ', '一方で'
+    ],
+    resolutionAttempts: [
+      '妥協', '折衷', '調整', 'バランス', '中間',
+      '両方', '組み合わせ', '統合', '融合',
+      '解決', '対処', '改善', '修正'
+    ],
+    constructiveConflict: [
+      '別の観点', '違う視点', '多角的', '多面的',
+      '慎重に', '検討', '考慮', '配慮'
+    ],
+    logicalConnectors: [
+      'なぜなら', 'したがって', 'そのため', 'つまり', 'このように',
+      'しかし', 'ただし', 'とはいえ', 'むしろ', '一方で',
+      'まず', '次に', '最後に', '第一に', '第二に'
+    ],
+    causalExpressions: ['原因', '結果', '影響', 'もたらす', '導く'],
+    contrastExpressions: ['比較', '対照', '違い', '共通', '類似'],
+    strongEvidence: [
+      'データ', '統計', '研究', '調査', '実験', '事例',
+      '具体例', '経験', '実績', '結果', '報告'
+    ],
+    expertExpressions: [
+      '専門家', '研究者', '学者', '権威', '文献',
+      '論文', '出典', '引用', '参考'
+    ],
+    quantitativeExpressions: [
+      '%', '割合', '数値', '比率', '増加', '減少',
+      '倍', '約', 'およそ', '程度'
+    ],
+    complexThinking: [
+      '多角的', '総合的', '包括的', '体系的',
+      '本質的', '根本的', '構造的', '戦略的'
+    ],
+    analyticalExpressions: [
+      '分析', '検討', '考察', '評価', '判断',
+      '要因', '背景', 'メカニズム', 'プロセス'
+    ],
+    abstractConcepts: [
+      '概念', '理論', '原理', '法則', 'フレームワーク',
+      'パラダイム', 'モデル', 'アプローチ'
+    ],
+    clarityIndicators: [
+      '具体的', '明確', '詳細', '明示的', '明らか',
+      '具体例', '例えば', '要するに', 'つまり'
+    ],
+    structureIndicators: [
+      '項目', 'ポイント', '観点', '要素', '側面',
+      '段階', 'ステップ', 'フェーズ'
+    ],
+    ambiguityIndicators: [
+      'たぶん', 'かもしれ', 'と思う', 'ような気', '微妙'
+    ],
+    constructiveExpressions: [
+      '提案', '改善', '解決', '対策', 'アイデア',
+      '工夫', '方法', '手段', 'アプローチ', '戦略'
+    ],
+    positiveExpressions: [
+      '可能', '実現', '効果的', '有効', '有益',
+      '価値', '意義', '重要', '必要'
+    ],
+    negativeExpressions: [
+      '無理', '不可能', '無意味', '問題', '欠点'
+    ],
+    biasWords: ['絶対', '必ず', '当然', '明らか', '常に', '決して'],
+    respectfulWords: ['思います', 'と考え', 'かもしれ', 'でしょう', 'いかが'],
+    disrespectfulWords: ['馬鹿', 'おかしい', '間違い', 'だめ'],
+    contradictionWords: ['しかし', 'でも', '反対', '違う'],
+    entailmentWords: ['そして', 'また', 'さらに', '同様'],
+    strongPositive: ['完全に賛成', '全面的に支持', '強く同意', 'その通りです'],
+    positive: ['賛成', '同意', '支持', '良いと思', 'いいアイデア'],
+    constructive: ['それに加えて', 'さらに', '補足すると', '同様に'],
+    strongNegative: ['完全に反対', '全く違う', '絶対に不可'],
+    negative: ['反対', '違う', '問題がある', '疑問に思う'],
+    questioning: ['本当に', 'しかし', 'ただし', '心配なのは'],
+    proposalWords: ['提案', '解決'],
+    collaborationWords: ['協力', '一緒に']
+  },
+  en: {
+    discussionPhases: {
+      exploration: ['explor', 'consider', 'investigat', 'analy', 'understand'],
+      analysis: ['analy', 'evaluat', 'verif', 'compar', 'examin'],
+      synthesis: ['integrat', 'combin', 'merg', 'summar', 'synthes'],
+      conclusion: ['conclu', 'decid', 'agree', 'final', 'settle']
+    },
+    problemDefinition: [
+      'problem', 'issue', 'goal', 'objective', 'aim',
+      'what ', 'why', 'how ', 'background', 'current'
+    ],
+    solution: [
+      'solution', 'solv', 'measure', 'method', 'approach',
+      'propos', 'option', 'idea', 'workaround', 'improv'
+    ],
+    action: [
+      'execut', 'implement', 'introduc', 'apply', 'leverag',
+      'step', 'stage', 'process', 'plan'
+    ],
+    conclusion: [
+      'conclu', 'in summary', 'overall', 'to summarize', 'ultimately',
+      'decid', 'agree', 'settle', 'adopt', 'choose'
+    ],
+    convergenceAgreement: ['agree', 'support', 'same view', 'exactly', 'convinced'],
+    convergenceConflict: ['disagree', 'oppose', 'doubt', 'concern'],
+    emotional: ['angry', 'sad', 'happy', 'surpris', 'afraid', 'hate', 'enjoy', 'frustrat'],
+    cognitive: {
+      thinking: ['logic', 'analy', 'reason', 'rationale', 'evidence'],
+      feeling: ['feel', 'value', 'meaning', 'care', 'important'],
+      sensing: ['fact', 'concrete', 'experience', 'actual', 'reality'],
+      intuition: ['possib', 'future', 'potential', 'idea', 'imagin']
+    },
+    positiveValues: ['good', 'important', 'value', 'meaningful', 'benefi'],
+    negativeValues: ['problem', 'issue', 'difficult', 'inappropriate'],
+    tone: {
+      positive: ['good', 'great', 'effective', 'benefi', 'value'],
+      negative: ['problem', 'difficult', 'issue', 'inappropriate', 'bad'],
+      neutral: ['think', 'believe', 'consider', 'analy', 'evaluat'],
+      analytical: ['logic', 'analy', 'verif', 'examin', 'data'],
+      emotional: ['feel', 'sense', 'emotion', 'impression', 'intuition']
+    },
+    positionPositive: ['agree', 'support', 'favor', 'good', 'effective'],
+    positionNegative: ['disagree', 'oppose', 'problem', 'difficult', 'issue'],
+    typeValues: {
+      // NT (Rational)
+      INTJ: ['efficien', 'strateg', 'system', 'improv', 'optimiz', 'systematic', 'long-term'],
+      INTP: ['logic', 'theor', 'analy', 'truth', 'concept', 'principle', 'understand'],
+      ENTJ: ['goal', 'leadership', 'result', 'organiz', 'strateg', 'efficien', 'achiev'],
+      ENTP: ['innovat', 'creat', 'possib', 'idea', 'change', 'debate', 'explor'],
+      // NF (Idealist)
+      INFJ: ['harmon', 'meaning', 'growth', 'understand', 'insight', 'value', 'mission'],
+      INFP: ['authentic', 'personal', 'values', 'ideal', 'growth', 'original', 'meaning'],
+      ENFJ: ['harmon', 'growth', 'cooperat', 'support', 'relationship', 'value', 'human'],
+      ENFP: ['possib', 'inspir', 'creat', 'freedom', 'value', 'divers', 'growth'],
+      // SJ (Guardian)
+      ISTJ: ['responsib', 'stab', 'tradition', 'trust', 'order', 'continu', 'reliab'],
+      ISFJ: ['consider', 'support', 'cooperat', 'responsib', 'stab', 'harmon', 'serv'],
+      ESTJ: ['organiz', 'efficien', 'track record', 'responsib', 'order', 'manag', 'achiev'],
+      ESFJ: ['harmon', 'cooperat', 'responsib', 'support', 'relationship', 'stab', 'consider'],
+      // SP (Artisan)
+      ISTP: ['practical', 'technic', 'solv', 'analy', 'efficien', 'adapt', 'reality'],
+      ISFP: ['personal', 'aesthetic', 'experience', 'value', 'harmon', 'natural', 'authentic'],
+      ESTP: ['action', 'reality', 'practical', 'adapt', 'experience', 'effect', 'immediate'],
+      ESFP: ['fun', 'people', 'positive', 'experience', 'freedom', 'energy', 'present']
+    },
+    groupValues: {
+      NT: ['logic', 'analy', 'efficien', 'system', 'strateg'],
+      NF: ['value', 'meaning', 'growth', 'harmon', 'human'],
+      SJ: ['responsib', 'stab', 'order', 'continu', 'trust'],
+      SP: ['practical', 'adapt', 'reality', 'experience', 'freedom']
+    },
+    directCooperation: [
+      'cooperat', 'collaborat', 'partner', 'coordinat', 'together', 'jointly',
+      'team', 'group', 'all of us', 'everyone'
+    ],
+    agreementExpressions: [
+      'agree', 'support', 'endorse', 'same view', 'exactly',
+      'good idea', 'great point', 'convinced', 'understand'
+    ],
+    constructiveAdditions: [
+      'furthermore', 'in addition', 'to add', 'additionally', 'also',
+      'moreover', 'building on', 'similarly'
+    ],
+    consideration: [
+      'consider', 'empath', 'respect', 'take into account', 'understand',
+      'appreciate', 'thank', 'grateful'
+    ],
+    conflictIndicators: [
+      'disagree', 'oppose', 'problem', 'issue', 'difficult',
+      'however', 'but ', 'that said', 'on the other hand'
+    ],
+    resolutionAttempts: [
+      'compromise', 'middle ground', 'adjust', 'balance', 'trade-off',
+      'both', 'combin', 'integrat', 'merg',
+      'solv', 'address', 'improv', 'revis'
+    ],
+    constructiveConflict: [
+      'another perspective', 'different view', 'multiple angles', 'multifaceted',
+      'carefully', 'consider', 'take into account', 'mindful'
+    ],
+    logicalConnectors: [
+      'because', 'therefore', 'as a result', 'in other words', 'thus',
+      'however', 'although', 'nevertheless', 'rather', 'on the other hand',
+      'first', 'next', 'finally', 'firstly', 'secondly'
+    ],
+    causalExpressions: ['cause', 'result', 'impact', 'lead to', 'bring about'],
+    contrastExpressions: ['compar', 'contrast', 'differen', 'in common', 'similar'],
+    strongEvidence: [
+      'data', 'statistic', 'research', 'survey', 'experiment', 'case',
+      'for instance', 'experience', 'track record', 'result', 'report'
+    ],
+    expertExpressions: [
+      'expert', 'researcher', 'scholar', 'authorit', 'literature',
+      'paper', 'source', 'cite', 'reference'
+    ],
+    quantitativeExpressions: [
+      '%', 'percent', 'ratio', 'rate', 'increas', 'decreas',
+      'times', 'about', 'approximately', 'roughly'
+    ],
+    complexThinking: [
+      'multifaceted', 'holistic', 'comprehensive', 'systematic',
+      'essential', 'fundamental', 'structural', 'strategic'
+    ],
+    analyticalExpressions: [
+      'analy', 'examin', 'consider', 'evaluat', 'judg',
+      'factor', 'background', 'mechanism', 'process'
+    ],
+    abstractConcepts: [
+      'concept', 'theor', 'principle', 'law', 'framework',
+      'paradigm', 'model', 'approach'
+    ],
+    clarityIndicators: [
+      'specific', 'clear', 'detail', 'explicit', 'evident',
+      'for instance', 'for example', 'in short', 'in other words'
+    ],
+    structureIndicators: [
+      'item', 'point', 'perspective', 'element', 'aspect',
+      'stage', 'step', 'phase'
+    ],
+    ambiguityIndicators: [
+      'maybe', 'might', 'i guess', 'sort of', 'unclear'
+    ],
+    constructiveExpressions: [
+      'propos', 'improv', 'solv', 'measure', 'idea',
+      'workaround', 'method', 'means', 'approach', 'strateg'
+    ],
+    positiveExpressions: [
+      'possib', 'achiev', 'effective', 'valid', 'benefi',
+      'value', 'meaningful', 'important', 'necessary'
+    ],
+    negativeExpressions: [
+      'impractical', 'impossible', 'pointless', 'problem', 'drawback'
+    ],
+    biasWords: ['absolutely', 'definitely', 'obviously', 'clearly', 'always', 'never'],
+    respectfulWords: ['i think', 'i believe', 'perhaps', 'would', 'what do you think'],
+    disrespectfulWords: ['stupid', 'ridiculous', 'wrong', 'nonsense'],
+    contradictionWords: ['however', 'but ', 'disagree', 'oppose'],
+    entailmentWords: ['and ', 'also', 'furthermore', 'similarly'],
+    strongPositive: ['completely agree', 'fully support', 'strongly agree', 'exactly right'],
+    positive: ['agree', 'support', 'good point', 'i like', 'good idea'],
+    constructive: ['in addition', 'furthermore', 'to add', 'similarly'],
+    strongNegative: ['completely disagree', 'totally wrong', 'absolutely not'],
+    negative: ['disagree', 'oppose', 'there is a problem', 'doubt'],
+    questioning: ['really', 'however', 'but ', 'my concern'],
+    proposalWords: ['propos', 'solv'],
+    collaborationWords: ['cooperat', 'together']
+  }
+};
+
 /**
  * 7次元品質評価エンジン
  */
@@ -129,8 +529,12 @@ export class ComprehensiveQualityEvaluator {
   private cognitivePatterns: Map<string, number[]>;
   private biasDetectionKeywords: Map<string, string[]>;
   private ethicalStandards: Map<string, number>;
+  private readonly language: DiscussionLanguage;
+  private readonly lexicon: QualityLexicon;
 
-  constructor() {
+  constructor(language: DiscussionLanguage = DEFAULT_DISCUSSION_LANGUAGE) {
+    this.language = language;
+    this.lexicon = QUALITY_LEXICONS[language];
     this.cognitivePatterns = this.initializeCognitivePatterns();
     this.biasDetectionKeywords = this.initializeBiasDetection();
     this.ethicalStandards = this.initializeEthicalStandards();
@@ -140,7 +544,7 @@ export class ComprehensiveQualityEvaluator {
    * 包括的品質評価の実行
    */
   async evaluateComprehensiveQuality(
-    statements: DiscussionStatement[],
+    rawStatements: DiscussionStatement[],
     discussionContext: {
       topic: string;
       duration: number;
@@ -148,6 +552,11 @@ export class ComprehensiveQualityEvaluator {
       expectedOutcome: string;
     }
   ): Promise<SevenDimensionQualityMetrics> {
+    // 英語の辞書は小文字で定義しているため、照合前に発言を小文字へ正規化
+    const statements = rawStatements.map(statement => ({
+      ...statement,
+      content: statement.content.toLowerCase()
+    }));
 
     // 1. Performance評価
     const performance = await this.evaluatePerformance(statements, discussionContext);
@@ -205,6 +614,21 @@ export class ComprehensiveQualityEvaluator {
     };
   }
 
+  /**
+   * ディベートの陣営評価（陣営の発言のみを対象に論証品質と対立解決を算出）
+   */
+  evaluateDebateSide(rawStatements: DiscussionStatement[]): { argumentStrength: number; conflictResolution: number } {
+    const statements = rawStatements.map(statement => ({
+      ...statement,
+      content: statement.content.toLowerCase()
+    }));
+
+    return {
+      argumentStrength: this.evaluateArgumentQuality(statements),
+      conflictResolution: this.evaluateConflictResolution(statements)
+    };
+  }
+
   /**
    * 1. Performance評価
    */
@@ -387,12 +811,7 @@ export class ComprehensiveQualityEvaluator {
     let structureScore = 0;
 
     // 議論の段階別指標
-    const discussionPhases = {
-      exploration: ['探る', '検討', '調査', '分析', '理解'],
-      analysis: ['分析', '評価', '検証', '比較', '考察'],
-      synthesis: ['統合', '組み合わせ', '融合', 'まとめ', '総合'],
-      conclusion: ['結論', '決定', '合意', '最終', '確定']
-    };
+    const discussionPhases = this.lexicon.discussionPhases;
 
     Object.entries(discussionPhases).forEach(([phase, keywords]) => {
       const phasePresent = keywords.some(keyword =>
@@ -419,10 +838,7 @@ export class ComprehensiveQualityEvaluator {
     }
 
     // 問題定義の表現
-    const definitionIndicators = [
-      '問題', '課題', '目標', '目的', '狙い',
-      '何が', 'なぜ', 'どのように', '背景', '現状'
-    ];
+    const definitionIndicators = this.lexicon.problemDefinition;
 
     definitionIndicators.forEach(indicator => {
       if (statements.some(stmt => stmt.content.includes(indicator))) {
@@ -437,10 +853,7 @@ export class ComprehensiveQualityEvaluator {
     let solutionScore = 0;
 
     // 解決策の表現
-    const solutionIndicators = [
-      '解決', '対策', '方法', '手段', 'アプローチ',
-      '提案', '案', 'アイデア', '工夫', '改善'
-    ];
+    const solutionIndicators = this.lexicon.solution;
 
     solutionIndicators.forEach(indicator => {
       const mentionCount = statements.filter(stmt =>
@@ -450,10 +863,7 @@ export class ComprehensiveQualityEvaluator {
     });
 
     // 具体的な行動指向の表現
-    const actionIndicators = [
-      '実行', '実施', '導入', '適用', '活用',
-      'ステップ', '段階', 'プロセス', '計画'
-    ];
+    const actionIndicators = this.lexicon.action;
 
     actionIndicators.forEach(indicator => {
       if (statements.some(stmt => stmt.content.includes(indicator))) {
@@ -465,10 +875,7 @@ export class ComprehensiveQualityEvaluator {
   }
 
   private evaluateConclusionPresence(statements: DiscussionStatement[]): number {
-    const conclusionIndicators = [
-      '結論', 'まとめ', '総括', '要約', '最終的',
-      '決定', '合意', '確定', '採用', '選択'
-    ];
+    const conclusionIndicators = this.lexicon.conclusion;
 
     // 議論の後半部分で結論表現があるかチェック
     const lastQuarter = statements.slice(Math.floor(statements.length * 0.75));
@@ -498,8 +905,8 @@ export class ComprehensiveQualityEvaluator {
     const lastThird = statements.slice(-Math.floor(statements.length / 3));
 
     // 合意的表現の増加を確認
-    const agreementWords = ['賛成', '同意', '同感', 'その通り', '納得'];
-    const conflictWords = ['反対', '違う', '疑問', '課題'];
+    const agreementWords = this.lexicon.convergenceAgreement;
+    const conflictWords = this.lexicon.convergenceConflict;
 
     const earlyAgreement = this.countWordsInStatements(firstThird, agreementWords);
     const lateAgreement = this.countWordsInStatements(lastThird, agreementWords);
@@ -566,7 +973,7 @@ export class ComprehensiveQualityEvaluator {
   }
 
   private evaluateEmotionalStability(statements: DiscussionStatement[]): number {
-    const emotionalWords = ['怒', '悲', '喜', '驚', '恐', '嫌', '楽', '苦'];
+    const emotionalWords = this.lexicon.emotional;
     const emotionalScores = statements.map(statement => {
       let emotionalCount = 0;
       emotionalWords.forEach(word => {
@@ -584,12 +991,7 @@ export class ComprehensiveQualityEvaluator {
   }
 
   private evaluateCognitiveProcessing(statements: DiscussionStatement[]): number {
-    const cognitiveIndicators = {
-      thinking: ['論理', '分析', '理由', '根拠', '証拠'],
-      feeling: ['感じ', '価値', '意味', '大切', '重要'],
-      sensing: ['事実', '具体', '経験', '実際', '現実'],
-      intuition: ['可能', '将来', '潜在', 'アイデア', '想像']
-    };
+    const cognitiveIndicators = this.lexicon.cognitive;
 
     let totalScore = 0;
     statements.forEach(statement => {
@@ -735,7 +1137,7 @@ export class ComprehensiveQualityEvaluator {
     // 名詞や重要な概念語を抽出（簡易版）
     return words.filter(word =>
       word.length > 3 &&
-      !['です', 'ます', 'だと', 'して', 'ある', 'いる', 'から', 'ため'].includes(word)
+      !getLanguageProfile(this.language).stopWords.includes(word)
     );
   }
 
@@ -744,8 +1146,8 @@ export class ComprehensiveQualityEvaluator {
     const mbtiType = statement.mbtiType;
 
     // 簡易的な価値観スコア計算
-    const positiveValues = ['良い', '重要', '価値', '意義', '有益'];
-    const negativeValues = ['問題', '課題', '困難', '不適'];
+    const positiveValues = this.lexicon.positiveValues;
+    const negativeValues = this.lexicon.negativeValues;
 
     let valueScore = 0.5; // 中立値
 
@@ -761,13 +1163,7 @@ export class ComprehensiveQualityEvaluator {
   }
 
   private analyzeTone(content: string): Record<string, number> {
-    const toneIndicators = {
-      positive: ['良い', '素晴らしい', '効果的', '有益', '価値'],
-      negative: ['問題', '困難', '課題', '不適', '悪い'],
-      neutral: ['考える', '思う', '検討', '分析', '評価'],
-      analytical: ['論理', '分析', '検証', '検討', 'データ'],
-      emotional: ['感じる', '思い', '気持ち', '印象', '直感']
-    };
+    const toneIndicators = this.lexicon.tone;
 
     const tone: Record<string, number> = {
       positive: 0, negative: 0, neutral: 0, analytical: 0, emotional: 0
@@ -788,8 +1184,8 @@ export class ComprehensiveQualityEvaluator {
   }
 
   private extractPosition(content: string): 'positive' | 'negative' | 'neutral' {
-    const positiveIndicators = ['賛成', '同意', '支持', '良い', '有効'];
-    const negativeIndicators = ['反対', '問題', '困難', '不適', '課題'];
+    const positiveIndicators = this.lexicon.positionPositive;
+    const negativeIndicators = this.lexicon.positionNegative;
 
     let positiveCount = 0;
     let negativeCount = 0;
@@ -808,37 +1204,13 @@ export class ComprehensiveQualityEvaluator {
   }
 
   private evaluateValueAlignment(statements: DiscussionStatement[]): number {
-    const valueKeywords = new Map<MBTIType, string[]>();
-
-    // NT (Rational) - 論理と体系性を重視
-    valueKeywords.set('INTJ', ['効率', '戦略', 'システム', '改善', '最適化', '体系的', '長期的']);
-    valueKeywords.set('INTP', ['論理', '理論', '分析', '真理', '概念', '原理', '理解']);
-    valueKeywords.set('ENTJ', ['目標', 'リーダーシップ', '成果', '組織', '戦略', '効率', '達成']);
-    valueKeywords.set('ENTP', ['革新', '創造', '可能性', 'アイデア', '変化', '議論', '探求']);
-
-    // NF (Idealist) - 価値と人間性を重視
-    valueKeywords.set('INFJ', ['調和', '意味', '成長', '理解', '洞察', '価値', '使命']);
-    valueKeywords.set('INFP', ['真正性', '個人的', '価値観', '理想', '成長', '独創性', '意味']);
-    valueKeywords.set('ENFJ', ['調和', '成長', '協力', '支援', '関係', '価値', '人間性']);
-    valueKeywords.set('ENFP', ['可能性', 'インスピレーション', '創造', '自由', '価値', '多様性', '成長']);
-
-    // SJ (Guardian) - 安定と責任を重視
-    valueKeywords.set('ISTJ', ['責任', '安定', '伝統', '信頼', '秩序', '継続性', '確実']);
-    valueKeywords.set('ISFJ', ['配慮', '支援', '協力', '責任', '安定', '調和', '奉仕']);
-    valueKeywords.set('ESTJ', ['組織', '効率', '実績', '責任', '秩序', '管理', '達成']);
-    valueKeywords.set('ESFJ', ['調和', '協力', '責任', '支援', '関係', '安定', '配慮']);
-
-    // SP (Artisan) - 柔軟性と実用性を重視
-    valueKeywords.set('ISTP', ['実用', '技術', '解決', '分析', '効率', '適応', '現実']);
-    valueKeywords.set('ISFP', ['個人的', '美的', '体験', '価値', '調和', '自然', '真正']);
-    valueKeywords.set('ESTP', ['行動', '現実', '実用', '適応', '体験', '効果', '即座']);
-    valueKeywords.set('ESFP', ['楽しい', '人との', '前向き', '体験', '自由', 'エネルギー', '現在']);
+    const valueKeywords = this.lexicon.typeValues;
 
     let alignmentScore = 0;
     let count = 0;
 
     statements.forEach(statement => {
-      const expectedValues = valueKeywords.get(statement.mbtiType) || [];
+      const expectedValues = valueKeywords[statement.mbtiType] || [];
       let matchCount = 0;
 
       expectedValues.forEach(value => {
@@ -863,10 +1235,7 @@ export class ComprehensiveQualityEvaluator {
     const mbtiType = statement.mbtiType;
 
     // 認知機能グループの共通価値
-    const ntValues = ['論理', '分析', '効率', '体系', '戦略'];
-    const nfValues = ['価値', '意味', '成長', '調和', '人間'];
-    const sjValues = ['責任', '安定', '秩序', '継続', '信頼'];
-    const spValues = ['実用', '適応', '現実', '体験', '自由'];
+    const { NT: ntValues, NF: nfValues, SJ: sjValues, SP: spValues } = this.lexicon.groupValues;
 
     let groupAlignment = 0;
 
@@ -901,37 +1270,25 @@ export class ComprehensiveQualityEvaluator {
       const content = statement.content;
 
       // 直接的な協力表現 (40%)
-      const directCooperation = [
-        '協力', '共同', '連携', '協調', '一緒に', '共に',
-        'チーム', 'グループ', '皆で', 'みんなで'
-      ];
+      const directCooperation = this.lexicon.directCooperation;
       directCooperation.forEach(word => {
         if (content.includes(word)) statementCooperation += 0.1;
       });
 
       // 同意・支持表現 (30%)
-      const agreementExpressions = [
-        '賛成', '同意', '支持', '同感', 'その通り',
-        '良いアイデア', 'いい考え', '納得', '理解'
-      ];
+      const agreementExpressions = this.lexicon.agreementExpressions;
       agreementExpressions.forEach(expr => {
         if (content.includes(expr)) statementCooperation += 0.075;
       });
 
       // 建設的な追加・補完 (20%)
-      const constructiveAdditions = [
-        'さらに', '加えて', '補足', '追加', 'また',
-        'それに', 'そして', '同様に'
-      ];
+      const constructiveAdditions = this.lexicon.constructiveAdditions;
       constructiveAdditions.forEach(addition => {
         if (content.includes(addition)) statementCooperation += 0.05;
       });
 
       // 他者への配慮 (10%)
-      const considerationExpressions = [
-        '配慮', '思いやり', '尊重', '考慮', '理解',
-        'お疲れ', 'ありがとう', '感謝'
-      ];
+      const considerationExpressions = this.lexicon.consideration;
       considerationExpressions.forEach(expr => {
         if (content.includes(expr)) statementCooperation += 0.025;
       });
@@ -952,10 +1309,7 @@ export class ComprehensiveQualityEvaluator {
       const content = statement.content;
 
       // 対立の検出
-      const conflictIndicators = [
-        '反対', '違う', '問題', '課題', '困難',
-        'しかし', 'ただし', 'とはいえ', '一方で'
-      ];
+      const conflictIndicators = this.lexicon.conflictIndicators;
 
       let hasConflict = false;
       conflictIndicators.forEach(indicator => {
@@ -966,21 +1320,14 @@ export class ComprehensiveQualityEvaluator {
         conflictDetected = true;
 
         // 対立解決の試み
-        const resolutionAttempts = [
-          '妥協', '折衷', '調整', 'バランス', '中間',
-          '両方', '組み合わせ', '統合', '融合',
-          '解決', '対処', '改善', '修正'
-        ];
+        const resolutionAttempts = this.lexicon.resolutionAttempts;
 
         resolutionAttempts.forEach(attempt => {
           if (content.includes(attempt)) resolutionScore += 0.1;
         });
 
         // 建設的な対立の表現
-        const constructiveConflict = [
-          '別の観点', '違う視点', '多角的', '多面的',
-          '慎重に', '検討', '考慮', '配慮'
-        ];
+        const constructiveConflict = this.lexicon.constructiveConflict;
 
         constructiveConflict.forEach(expr => {
           if (content.includes(expr)) resolutionScore += 0.05;
@@ -1040,24 +1387,20 @@ export class ComprehensiveQualityEvaluator {
     let structureScore = 0;
 
     // 論理的接続詞の検出
-    const logicalConnectors = [
-      'なぜなら', 'したがって', 'そのため', 'つまり', 'このように',
-      'しかし', 'ただし', 'とはいえ', 'むしろ', '一方で',
-      'まず', '次に', '最後に', '第一に', '第二に'
-    ];
+    const logicalConnectors = this.lexicon.logicalConnectors;
 
     logicalConnectors.forEach(connector => {
       if (content.includes(connector)) structureScore += 0.1;
     });
 
     // 因果関係の表現
-    const causalExpressions = ['原因', '結果', '影響', 'もたらす', '導く'];
+    const causalExpressions = this.lexicon.causalExpressions;
     causalExpressions.forEach(expr => {
       if (content.includes(expr)) structureScore += 0.1;
     });
 
     // 対比・比較の表現
-    const contrastExpressions = ['比較', '対照', '違い', '共通', '類似'];
+    const contrastExpressions = this.lexicon.contrastExpressions;
     contrastExpressions.forEach(expr => {
       if (content.includes(expr)) structureScore += 0.1;
     });
@@ -1069,30 +1412,21 @@ export class ComprehensiveQualityEvaluator {
     let evidenceScore = 0;
 
     // 強い証拠の指標
-    const strongEvidence = [
-      'データ', '統計', '研究', '調査', '実験', '事例',
-      '具体例', '経験', '実績', '結果', '報告'
-    ];
+    const strongEvidence = this.lexicon.strongEvidence;
 
     strongEvidence.forEach(evidence => {
       if (content.includes(evidence)) evidenceScore += 0.15;
     });
 
     // 専門的な表現
-    const expertExpressions = [
-      '専門家', '研究者', '学者', '権威', '文献',
-      '論文', '出典', '引用', '参考'
-    ];
+    const expertExpressions = this.lexicon.expertExpressions;
 
     expertExpressions.forEach(expr => {
       if (content.includes(expr)) evidenceScore += 0.1;
     });
 
     // 量的表現
-    const quantitativeExpressions = [
-      '%', '割合', '数値', '比率', '増加', '減少',
-      '倍', '約', 'およそ', '程度'
-    ];
+    const quantitativeExpressions = this.lexicon.quantitativeExpressions;
 
     quantitativeExpressions.forEach(expr => {
       if (content.includes(expr)) evidenceScore += 0.05;
@@ -1105,37 +1439,28 @@ export class ComprehensiveQualityEvaluator {
     let depthScore = 0;
 
     // 複雑な思考の指標
-    const complexThinking = [
-      '多角的', '総合的', '包括的', '体系的',
-      '本質的', '根本的', '構造的', '戦略的'
-    ];
+    const complexThinking = this.lexicon.complexThinking;
 
     complexThinking.forEach(indicator => {
       if (content.includes(indicator)) depthScore += 0.15;
     });
 
     // 分析的表現
-    const analyticalExpressions = [
-      '分析', '検討', '考察', '評価', '判断',
-      '要因', '背景', 'メカニズム', 'プロセス'
-    ];
+    const analyticalExpressions = this.lexicon.analyticalExpressions;
 
     analyticalExpressions.forEach(expr => {
       if (content.includes(expr)) depthScore += 0.1;
     });
 
     // 抽象度の高い概念
-    const abstractConcepts = [
-      '概念', '理論', '原理', '法則', 'フレームワーク',
-      'パラダイム', 'モデル', 'アプローチ'
-    ];
+    const abstractConcepts = this.lexicon.abstractConcepts;
 
     abstractConcepts.forEach(concept => {
       if (content.includes(concept)) depthScore += 0.1;
     });
 
     // 文章の長さボーナス（深い議論は通常長い）
-    const lengthBonus = Math.min(content.length / 300, 0.3);
+    const lengthBonus = Math.min(measureStatementLength(content, this.language) / 300, 0.3);
     depthScore += lengthBonus;
 
     return Math.min(depthScore, 1);
@@ -1145,29 +1470,21 @@ export class ComprehensiveQualityEvaluator {
     let clarityScore = 0.5; // ベースライン
 
     // 明確性の指標
-    const clarityIndicators = [
-      '具体的', '明確', '詳細', '明示的', '明らか',
-      '具体例', '例えば', '要するに', 'つまり'
-    ];
+    const clarityIndicators = this.lexicon.clarityIndicators;
 
     clarityIndicators.forEach(indicator => {
       if (content.includes(indicator)) clarityScore += 0.1;
     });
 
     // 構造化の指標
-    const structureIndicators = [
-      '項目', 'ポイント', '観点', '要素', '側面',
-      '段階', 'ステップ', 'フェーズ'
-    ];
+    const structureIndicators = this.lexicon.structureIndicators;
 
     structureIndicators.forEach(indicator => {
       if (content.includes(indicator)) clarityScore += 0.05;
     });
 
     // 曖昧性のペナルティ
-    const ambiguityIndicators = [
-      'たぶん', 'かもしれ', 'と思う', 'ような気', '微妙'
-    ];
+    const ambiguityIndicators = this.lexicon.ambiguityIndicators;
 
     ambiguityIndicators.forEach(indicator => {
       if (content.includes(indicator)) clarityScore -= 0.1;
@@ -1180,29 +1497,21 @@ export class ComprehensiveQualityEvaluator {
     let constructivenessScore = 0;
 
     // 建設的な表現
-    const constructiveExpressions = [
-      '提案', '改善', '解決', '対策', 'アイデア',
-      '工夫', '方法', '手段', 'アプローチ', '戦略'
-    ];
+    const constructiveExpressions = this.lexicon.constructiveExpressions;
 
     constructiveExpressions.forEach(expr => {
       if (content.includes(expr)) constructivenessScore += 0.15;
     });
 
     // 前向きな表現
-    const positiveExpressions = [
-      '可能', '実現', '効果的', '有効', '有益',
-      '価値', '意義', '重要', '必要'
-    ];
+    const positiveExpressions = this.lexicon.positiveExpressions;
 
     positiveExpressions.forEach(expr => {
       if (content.includes(expr)) constructivenessScore += 0.1;
     });
 
     // 否定的表現のペナルティ
-    const negativeExpressions = [
-      '無理', '不可能', '無意味', '問題', '欠点'
-    ];
+    const negativeExpressions = this.lexicon.negativeExpressions;
 
     negativeExpressions.forEach(expr => {
       if (content.includes(expr)) constructivenessScore -= 0.05;
@@ -1236,10 +1545,13 @@ export class ComprehensiveQualityEvaluator {
   private evaluateLinguisticQuality(statements: DiscussionStatement[]): number {
     let qualitySum = 0;
 
+    const profile = getLanguageProfile(this.language);
+
     statements.forEach(statement => {
-      const hasPunctuation = /[。！？]/.test(statement.content);
-      const hasConnectors = /[そして|しかし|また|さらに|一方]/.test(statement.content);
-      const appropriateLength = statement.content.length >= 20 && statement.content.length <= 200;
+      const hasPunctuation = (statement.content.match(profile.punctuation) || []).length > 0;
+      const hasConnectors = profile.connectors.test(statement.content);
+      const length = measureStatementLength(statement.content, this.language);
+      const appropriateLength = length >= 20 && length <= 200;
 
       let score = 0;
       if (hasPunctuation) score += 0.4;
@@ -1253,7 +1565,7 @@ export class ComprehensiveQualityEvaluator {
   }
 
   private evaluateBiasAvoidance(statements: DiscussionStatement[]): number {
-    const biasWords = ['絶対', '必ず', '当然', '明らか', '常に', '決して'];
+    const biasWords = this.lexicon.biasWords;
     let biasCount = 0;
     let totalWords = 0;
 
@@ -1273,8 +1585,8 @@ export class ComprehensiveQualityEvaluator {
   }
 
   private evaluateRespectfulness(statements: DiscussionStatement[]): number {
-    const respectfulWords = ['思います', 'と考え', 'かもしれ', 'でしょう', 'いかが'];
-    const disrespectfulWords = ['馬鹿', 'おかしい', '間違い', 'だめ'];
+    const respectfulWords = this.lexicon.respectfulWords;
+    const disrespectfulWords = this.lexicon.disrespectfulWords;
 
     let respectfulCount = 0;
     let disrespectfulCount = 0;
@@ -1474,8 +1786,8 @@ export class ComprehensiveQualityEvaluator {
     const content1 = stmt1.content.toLowerCase();
     const content2 = stmt2.content.toLowerCase();
 
-    const contradictionWords = ['しかし', 'でも', '反対', '違う'];
-    const entailmentWords = ['そして', 'また', 'さらに', '同様'];
+    const contradictionWords = this.lexicon.contradictionWords;
+    const entailmentWords = this.lexicon.entailmentWords;
 
     const hasContradiction = contradictionWords.some(word => content2.includes(word));
     const hasEntailment = entailmentWords.some(word => content2.includes(word));
@@ -1497,14 +1809,14 @@ export class ComprehensiveQualityEvaluator {
       let agreementChange = 0;
 
       // 強い肯定的表現
-      const strongPositive = ['完全に賛成', '全面的に支持', '強く同意', 'その通りです'];
-      const positive = ['賛成', '同意', '支持', '良いと思', 'いいアイデア'];
-      const constructive = ['それに加えて', 'さらに', '補足すると', '同様に'];
+      const strongPositive = this.lexicon.strongPositive;
+      const positive = this.lexicon.positive;
+      const constructive = this.lexicon.constructive;
 
       // 否定的・対立的表現
-      const strongNegative = ['完全に反対', '全く違う', '絶対に不可'];
-      const negative = ['反対', '違う', '問題がある', '疑問に思う'];
-      const questioning = ['本当に', 'しかし', 'ただし', '心配なのは'];
+      const strongNegative = this.lexicon.strongNegative;
+      const negative = this.lexicon.negative;
+      const questioning = this.lexicon.questioning;
 
       // より細かい合意レベルの判定
       strongPositive.forEach(expr => {
@@ -1532,11 +1844,11 @@ export class ComprehensiveQualityEvaluator {
       });
 
       // 🔧 追加要素: 内容の建設性
-      if (content.includes('提案') || content.includes('解決')) {
+      if (this.lexicon.proposalWords.some(word => content.includes(word))) {
         agreementChange += 0.05;
       }
 
-      if (content.includes('協力') || content.includes('一緒に')) {
+      if (this.lexicon.collaborationWords.some(word => content.includes(word))) {
         agreementChange += 0.04;
       }
 
@@ -0,0 +1,270 @@
+import { readFileSync, existsSync } from 'fs';
+import { resolve } from 'path';
+import { z } from 'zod';
+import type { MBTIType, DiscussionStatement } from '../types/mbti-types';
+import type { ConversationData, ParticipantStateSnapshot } from './conversation-saver';
+import type { ConversationFlowTurn } from './discussion-progress';
+import { phasePlanSchema, type PhasePlan } from './phase-plan';
+import { humanParticipantSchema, type HumanParticipant } from './human-participant';
+import { debateSettingsSchema, type DebateSettings } from './debate-mode';
+import { decisionSettingsSchema, type DecisionSettings } from './decision-mode';
+import { discussionLanguageSchema, type DiscussionLanguage } from './discussion-language';
+import { ALL_MBTI_TYPES } from './mbti-characteristics';
+import { isOrchestratorTurn, ORCHESTRATOR_AGENT_ID, ORCHESTRATOR_SPEAKER_TYPE } from './orchestrator-intervention';
+
+/**
+ * 保存済み会話（JSON）の読み込みと議論状態の復元
+ * saveConversationAsJson の出力からターン・重み・品質履歴を再構築し、
+ * ワークフローでの議論継続や再採点に使用する
+ */
+
+/**
+ * 復元された議論状態
+ */
+export interface ResumedDiscussion {
+  sourcePath: string;
+  data: ConversationData;
+  topic: string;
+  participantTypes: MBTIType[];
+  conversationFlow: ConversationFlowTurn[];
+  statements: DiscussionStatement[];
+  participantStates: Partial<Record<MBTIType, ParticipantStateSnapshot>>;
+  completedPhases: number;
+  phasePlan?: PhasePlan;
+  seed?: number;
+  humanParticipant?: HumanParticipant;
+  personas?: Partial<Record<MBTIType, string>>;
+  language?: DiscussionLanguage;
+  debate?: DebateSettings;
+  decision?: DecisionSettings;
+}
+
+// 旧形式（completedPhases 未記録）の保存データは標準の4フェーズ完了として扱う
+const DEFAULT_COMPLETED_PHASES = 4;
+
+const mbtiTypeSchema = z.enum(ALL_MBTI_TYPES as [MBTIType, ...MBTIType[]]);
+const phaseTypeSchema = z.enum(['initial', 'interaction', 'synthesis', 'consensus']);
+const speakerKindSchema = z.enum(['agent', 'human', 'orchestrator']);
+const interventionTypeSchema = z.enum(['diversity_boost', 'consistency_improvement', 'convergence_facilitation']);
+
+// ISO 8601 の日時文字列を Date へ復元
+const dateStringSchema = z.string()
+  .refine(value => !Number.isNaN(Date.parse(value)), { message: '日時の形式が不正です' })
+  .transform(value => new Date(value));
+
+// 旧形式のターン（conversationFlow がない保存データの復元元）
+const savedTurnSchema = z.object({
+  agentType: z.union([mbtiTypeSchema, z.literal(ORCHESTRATOR_SPEAKER_TYPE)]),
+  speakerKind: speakerKindSchema.optional(),
+  speakerName: z.string().optional(),
+  interventionType: interventionTypeSchema.optional(),
+  debateSide: z.enum(['pro', 'contra']).optional(),
+  rebuttalTo: z.number().int().optional(),
+  phaseType: phaseTypeSchema.optional(),
+  message: z.string(),
+  timestamp: z.string().optional(),
+  weight: z.number().optional(),
+  qualityMetrics: z.object({
+    overallQuality: z.number().optional(),
+    confidence: z.number().optional(),
+    relevance: z.number().optional()
+  }).optional()
+}).passthrough();
+
+// 再開時に引き継ぐ会話フロー（評価・重み・品質履歴の復元に使う項目のみ検証）
+const savedFlowTurnSchema = z.object({
+  turnNumber: z.number().int(),
+  speakerAgentId: z.string(),
+  speakerMbtiType: z.string(),
+  speakerKind: speakerKindSchema.optional(),
+  statement: z.string(),
+  timestamp: z.string(),
+  confidence: z.number(),
+  relevance: z.number(),
+  dynamicWeight: z.number(),
+  qualityContribution: z.number(),
+  realtimeOptimization: z.object({
+    weightAdjustment: z.number(),
+    graphOptimization: z.boolean(),
+    qualityImprovement: z.number()
+  })
+}).passthrough();
+
+const savedParticipantStateSchema = z.object({
+  mbtiType: mbtiTypeSchema,
+  weight: z.number(),
+  lastSpokenTurn: z.number(),
+  performanceHistory: z.array(z.number())
+});
+
+/**
+ * 保存済み会話（saveConversationAsJson の出力）のスキーマ
+ * 議論の復元に使う項目を検証し、品質レポート等のその他の項目はそのまま保持する
+ */
+const savedConversationSchema = z.object({
+  topic: z.string(),
+  participants: z.array(mbtiTypeSchema).min(1),
+  startTime: dateStringSchema,
+  endTime: dateStringSchema,
+  turns: z.array(savedTurnSchema),
+  qualityReport: z.object({}).passthrough(),
+  metadata: z.object({
+    participantCount: z.number().int(),
+    totalTurns: z.number().int(),
+    enabledFeatures: z.object({
+      realtimeOptimization: z.boolean(),
+      graphOptimization: z.boolean()
+    }),
+    seed: z.number().int().optional(),
+    completedPhases: z.number().int().min(0).optional(),
+    resumedFrom: z.string().optional(),
+    phasePlan: phasePlanSchema.optional(),
+    humanParticipant: humanParticipantSchema.optional(),
+    personas: z.record(mbtiTypeSchema, z.string()).optional(),
+    // debate-mode は本モジュールを読み込むため、循環参照の初期化順に依存しないよう遅延評価
+    debate: z.lazy(() => debateSettingsSchema).optional(),
+    decision: decisionSettingsSchema.optional()
+  }).passthrough(),
+  conversationFlow: z.array(savedFlowTurnSchema).optional(),
+  participantStates: z.array(savedParticipantStateSchema).optional()
+}).passthrough();
+
+/**
+ * JSONファイルから会話データを読み込み（スキーマで検証し、日付を復元）
+ */
+export function loadConversationFromJson(filePath: string): ConversationData {
+  const resolvedPath = resolve(filePath);
+  if (!existsSync(resolvedPath)) {
+    throw new Error(`会話ファイルが見つかりません: ${resolvedPath}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(resolvedPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`会話ファイルのJSON解析に失敗しました: ${resolvedPath} (${error})`);
+  }
+
+  const parsed = savedConversationSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`会話ファイルの形式が不正です: ${resolvedPath} (${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')})`);
+  }
+
+  return parsed.data as ConversationData;
+}
+
+/**
+ * 旧形式のターン（turns）から会話フローを再構築
+ */
+function rebuildConversationFlow(data: ConversationData): ConversationFlowTurn[] {
+  return data.turns.map((turn, index) => {
+    const weight = turn.weight ?? 1.0;
+    return {
+      turnNumber: index + 1,
+      speakerAgentId: turn.speakerKind === 'orchestrator' ? ORCHESTRATOR_AGENT_ID : `node-${turn.agentType}`,
+      speakerMbtiType: turn.agentType,
+      ...(turn.speakerKind ? { speakerKind: turn.speakerKind } : {}),
+      ...(turn.speakerName ? { speakerName: turn.speakerName } : {}),
+      ...(turn.interventionType ? { interventionType: turn.interventionType } : {}),
+      ...(turn.debateSide ? { debateSide: turn.debateSide } : {}),
+      ...(turn.rebuttalTo !== undefined ? { rebuttalTo: turn.rebuttalTo } : {}),
+      ...(turn.phaseType ? { phaseType: turn.phaseType } : {}),
+      statement: turn.message,
+      timestamp: turn.timestamp || data.startTime.toISOString(),
+      confidence: (turn.qualityMetrics?.confidence ?? 80) / 100,
+      relevance: (turn.qualityMetrics?.relevance ?? 80) / 100,
+      dynamicWeight: weight,
+      qualityContribution: (turn.qualityMetrics?.overallQuality ?? 80) / 100,
+      realtimeOptimization: {
+        weightAdjustment: weight - 1.0,
+        graphOptimization: false,
+        qualityImprovement: 0
+      }
+    };
+  });
+}
+
+/**
+ * 会話フローから参加者状態（重み・最終発言ターン・成績履歴）を再構築
+ */
+function rebuildParticipantStates(
+  participantTypes: MBTIType[],
+  conversationFlow: ConversationFlowTurn[]
+): Partial<Record<MBTIType, ParticipantStateSnapshot>> {
+  const states: Partial<Record<MBTIType, ParticipantStateSnapshot>> = {};
+
+  participantTypes.forEach(type => {
+    states[type] = { mbtiType: type, weight: 1.0, lastSpokenTurn: 0, performanceHistory: [] };
+  });
+
+  conversationFlow.forEach(turn => {
+    const state = states[turn.speakerMbtiType as MBTIType];
+    if (!state) return;
+    state.weight = turn.dynamicWeight;
+    state.lastSpokenTurn = turn.turnNumber;
+    state.performanceHistory.push(turn.qualityContribution);
+  });
+
+  return states;
+}
+
+/**
+ * 会話フローから評価用の発言リストを作成（オーケストレーター介入のターンは除外）
+ */
+export function toDiscussionStatements(conversationFlow: ConversationFlowTurn[]): DiscussionStatement[] {
+  return conversationFlow.filter(turn => !isOrchestratorTurn(turn)).map(turn => ({
+    agentId: turn.speakerAgentId,
+    mbtiType: turn.speakerMbtiType as MBTIType,
+    content: turn.statement,
+    timestamp: new Date(turn.timestamp),
+    confidence: turn.confidence,
+    relevance: turn.relevance
+  }));
+}
+
+/**
+ * 会話データから議論状態を復元
+ * conversationFlow / participantStates が保存されていればそれを優先し、
+ * なければ turns から再構築する
+ */
+export function restoreDiscussion(data: ConversationData, sourcePath: string = ''): ResumedDiscussion {
+  const participantTypes = data.participants;
+  const conversationFlow = data.conversationFlow && data.conversationFlow.length > 0
+    ? data.conversationFlow.map(turn => ({ ...turn }))
+    : rebuildConversationFlow(data);
+
+  const participantStates = data.participantStates && data.participantStates.length > 0
+    ? Object.fromEntries(data.participantStates.map(state => [state.mbtiType, {
+      ...state,
+      performanceHistory: [...state.performanceHistory]
+    }])) as Partial<Record<MBTIType, ParticipantStateSnapshot>>
+    : rebuildParticipantStates(participantTypes, conversationFlow);
+
+  const statements = toDiscussionStatements(conversationFlow);
+
+  return {
+    sourcePath,
+    data,
+    topic: data.topic,
+    participantTypes,
+    conversationFlow,
+    statements,
+    participantStates,
+    completedPhases: data.metadata?.completedPhases ?? DEFAULT_COMPLETED_PHASES,
+    phasePlan: data.metadata?.phasePlan,
+    seed: data.metadata?.seed,
+    humanParticipant: data.metadata?.humanParticipant,
+    personas: data.metadata?.personas,
+    debate: data.metadata?.debate,
+    decision: data.metadata?.decision,
+    // 不明な言語コードは無視（ワークフロー側で既定言語を使用）
+    language: discussionLanguageSchema.safeParse(data.metadata?.language).data
+  };
+}
+
+/**
+ * JSONファイルを読み込み、議論状態を復元
+ */
+export function loadDiscussionForResume(filePath: string): ResumedDiscussion {
+  return restoreDiscussion(loadConversationFromJson(filePath), resolve(filePath));
+}
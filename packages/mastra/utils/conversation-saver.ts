@@ -1,6 +1,29 @@
 import { writeFileSync, mkdirSync, existsSync } from 'fs';
 import { join, resolve } from 'path';
 import type { MBTIType, DiscussionTurn, ComprehensiveQualityReport } from '../types/mbti-types';
+import type { ConversationFlowTurn } from './discussion-progress';
+import type { PhasePlan } from './phase-plan';
+import type { HumanParticipant } from './human-participant';
+import { DEBATE_SIDES, type DebateResult, type DebateSettings } from './debate-mode';
+import { getVotingMethodLabel, type DecisionResult, type DecisionSettings } from './decision-mode';
+import { INTERVENTION_TYPE_LABELS } from './orchestrator-intervention';
+import { formatEstimatedCost, type LLMUsageSummary, type LLMUsageTotals } from './llm-usage';
+import type { HistorySnapshotReference } from '../core/history/history-store';
+import {
+  DEFAULT_DISCUSSION_LANGUAGE,
+  getLanguageProfile,
+  type DiscussionLanguage
+} from './discussion-language';
+
+/**
+ * 参加者状態のスナップショット（議論再開用）
+ */
+export interface ParticipantStateSnapshot {
+  mbtiType: MBTIType;
+  weight: number;
+  lastSpokenTurn: number;
+  performanceHistory: number[];
+}
 
 /**
  * 議論会話データ
@@ -15,6 +38,25 @@ export interface ConversationData {
   metadata: {
     participantCount: number;
     totalTurns: number;
+    // 🎲 再現用シード（同じシード・決定的モデルで同一の議論を再生可能）
+    seed?: number;
+    // 📚 開始時に読み込んだ学習履歴スナップショット（保存済み履歴はプロンプトに影響するため再現時に照合する）
+    history?: HistorySnapshotReference;
+    // 🔁 完了済みフェーズ数と再開元ファイル（議論再開用）
+    completedPhases?: number;
+    resumedFrom?: string;
+    // 🗺️ 実行したフェーズプラン（再開時に引き継ぐ）
+    phasePlan?: PhasePlan;
+    // 👤 人間参加者（表示名と担当MBTIタイプ）
+    humanParticipant?: HumanParticipant;
+    // 🎭 カスタムペルソナ（MBTIタイプ → ペルソナID、再開時に引き継ぐ）
+    personas?: Partial<Record<MBTIType, string>>;
+    // 🌐 議論言語（レポートの見出し・ラベルと再開時の言語、未指定は日本語）
+    language?: DiscussionLanguage;
+    // ⚔️ ディベートモードの立場と陣営の割り当て（再開時に引き継ぐ）
+    debate?: DebateSettings;
+    // 🗳️ 意思決定モードの候補案と投票方式（再開時に引き継ぐ）
+    decision?: DecisionSettings;
     enabledFeatures: {
       realtimeOptimization: boolean;
       graphOptimization: boolean;
@@ -30,6 +72,15 @@ export interface ConversationData {
     insights: string[];
     processCharacteristics: string[];
   };
+  // ⚔️ ディベートの陣営別採点と勝敗
+  debateResult?: DebateResult;
+  // 🗳️ 意思決定の投票結果（順位付きの決定とタイプ別の投票理由）
+  decisionResult?: DecisionResult;
+  // 🔁 議論再開用の完全な会話フローと参加者状態（JSON保存時に利用）
+  conversationFlow?: ConversationFlowTurn[];
+  participantStates?: ParticipantStateSnapshot[];
+  // 💰 LLM使用量（トークン数・レイテンシ・見積もりコスト）
+  usage?: LLMUsageSummary;
 }
 
 /**
@@ -42,11 +93,295 @@ function sanitizeFileName(input: string): string {
     .substring(0, 50);
 }
 
+// ===========================================
+// レポート文言（議論言語ごと）
+// ===========================================
+
+interface ReportLabels {
+  overviewHeading: string;
+  topic: string;
+  startTime: string;
+  endTime: string;
+  duration: string;
+  participantCountLabel: string;
+  participantCount: (count: number) => string;
+  totalTurnsLabel: string;
+  totalTurns: (count: number) => string;
+  interventions: (count: number) => string;
+  participantsHeading: string;
+  humanParticipant: string;
+  persona: string;
+  settingsHeading: string;
+  realtimeOptimization: string;
+  graphOptimization: string;
+  phasePlan: string;
+  seed: string;
+  learningHistoryLabel: string;
+  learningHistory: (history: HistorySnapshotReference) => string;
+  resumedFrom: string;
+  contentHeading: string;
+  qualityHeading: string;
+  overallScore: string;
+  sevenDimensions: string;
+  detailedMetrics: string;
+  realtimeHeading: string;
+  executionCountLabel: string;
+  executionCount: (count: number) => string;
+  qualityImprovement: string;
+  analysisHeading: string;
+  strengths: string;
+  improvements: string;
+  summaryHeading: string;
+  summaryOverview: string;
+  keyThemes: string;
+  progressAnalysis: string;
+  mbtiContributions: string;
+  consensus: string;
+  insights: string;
+  processCharacteristics: string;
+  intervention: string;
+  defaultInterventionLabel: string;
+  weight: string;
+  quality: string;
+  usageHeading: string;
+  usageTotal: string;
+  usageByAgent: string;
+  usageByPhase: string;
+  usageByModel: string;
+  usageOutsidePhase: string;
+  usageColumns: [string, string, string, string, string, string];
+  debateHeading: string;
+  debateSides: Record<'pro' | 'contra', string>;
+  debateColumns: [string, string, string, string, string, string, string, string];
+  debateWinner: (side: string, margin: number) => string;
+  debateDraw: (margin: number) => string;
+  debateUnscored: (sides: string) => string;
+  rebuttalTo: (turnNumber: number) => string;
+  decisionHeading: string;
+  decisionMethod: string;
+  decisionColumns: [string, string, string, string, string];
+  decisionWinner: (option: string, votes: number, abstentions: number) => string;
+  decisionNone: (abstentions: number) => string;
+  decisionVotesHeading: string;
+  decisionAbstained: string;
+  durationFormat: (minutes: number, seconds: number) => string;
+  agentDescriptions: Record<MBTIType, string>;
+  sevenDimensionNames: string[];
+  detailedMetricNames: string[];
+}
+
+const REPORT_LABELS: Record<DiscussionLanguage, ReportLabels> = {
+  ja: {
+    overviewHeading: '議論概要',
+    topic: 'トピック',
+    startTime: '開始時刻',
+    endTime: '終了時刻',
+    duration: '議論時間',
+    participantCountLabel: '参加者数',
+    participantCount: count => `${count}人`,
+    totalTurnsLabel: '総発言数',
+    totalTurns: count => `${count}回`,
+    interventions: count => `${count}回`,
+    participantsHeading: '参加エージェント',
+    humanParticipant: '人間参加者',
+    persona: 'カスタムペルソナ',
+    settingsHeading: 'システム設定',
+    realtimeOptimization: 'リアルタイム最適化',
+    graphOptimization: 'グラフ最適化',
+    phasePlan: 'フェーズプラン',
+    seed: 'シード',
+    learningHistoryLabel: '学習履歴',
+    learningHistory: history => history.savedAt
+      ? `${history.mode}（${history.savedAt} 保存・評価${history.evaluations}件）`
+      : `${history.mode}（保存済み履歴なし）`,
+    resumedFrom: '再開元',
+    contentHeading: '議論内容',
+    qualityHeading: '品質評価結果',
+    overallScore: '総合評価',
+    sevenDimensions: '7次元品質評価',
+    detailedMetrics: '詳細メトリクス',
+    realtimeHeading: 'リアルタイム最適化',
+    executionCountLabel: '実行回数',
+    executionCount: count => `${count}回`,
+    qualityImprovement: '品質改善度',
+    analysisHeading: '議論分析',
+    strengths: '強み',
+    improvements: '改善点',
+    summaryHeading: '議論総括',
+    summaryOverview: '総合概要',
+    keyThemes: '主要テーマ',
+    progressAnalysis: '議論進展分析',
+    mbtiContributions: 'MBTIタイプ別貢献',
+    consensus: '合意形成プロセス',
+    insights: '主要洞察',
+    processCharacteristics: 'プロセス特徴',
+    intervention: 'オーケストレーター介入',
+    defaultInterventionLabel: '議論の指導',
+    weight: '重み',
+    quality: '品質',
+    usageHeading: 'LLM使用量',
+    usageTotal: '合計',
+    usageByAgent: 'エージェント別',
+    usageByPhase: 'フェーズ別',
+    usageByModel: 'モデル別',
+    usageOutsidePhase: 'フェーズ外（投票・総括）',
+    usageColumns: ['対象', '呼び出し', '入力トークン', '出力トークン', '平均レイテンシ', '見積もりコスト'],
+    debateHeading: 'ディベート結果',
+    debateSides: { pro: '賛成', contra: '反対' },
+    debateColumns: ['陣営', '立場', 'メンバー', '発言', '反論', '論証の強さ', '対立解決', 'スコア'],
+    debateWinner: (side, margin) => `${side}側の勝ち（差 ${margin.toFixed(1)}pt）`,
+    debateDraw: margin => `引き分け（差 ${margin.toFixed(1)}pt）`,
+    debateUnscored: sides => `判定なし（発言のない陣営: ${sides}）`,
+    rebuttalTo: turnNumber => `Turn ${turnNumber} への反論`,
+    decisionHeading: '意思決定（投票結果）',
+    decisionMethod: '投票方式',
+    decisionColumns: ['順位', '候補案', 'スコア', '第1希望', '第1希望に選んだタイプ'],
+    decisionWinner: (option, votes, abstentions) => `決定: ${option}（有効票 ${votes}票 / 棄権 ${abstentions}票）`,
+    decisionNone: abstentions => `決定なし（有効票なし / 棄権 ${abstentions}票）`,
+    decisionVotesHeading: 'タイプ別の投票と理由',
+    decisionAbstained: '棄権（順位を読み取れず集計から除外）',
+    durationFormat: (minutes, seconds) => `${minutes}分${seconds}秒`,
+    agentDescriptions: {
+      'INTJ': 'Architect - 戦略的思考家',
+      'INTP': 'Thinker - 論理的分析者',
+      'ENTJ': 'Commander - 指揮官型リーダー',
+      'ENTP': 'Debater - 討論者・発明家',
+      'INFJ': 'Advocate - 提唱者・理想主義者',
+      'INFP': 'Mediator - 仲介者・価値観重視',
+      'ENFJ': 'Protagonist - 主人公・協調型',
+      'ENFP': 'Campaigner - 運動家・情熱家',
+      'ISTJ': 'Inspector - 管理者・責任感',
+      'ISFJ': 'Protector - 擁護者・思いやり',
+      'ESTJ': 'Executive - 幹部・効率重視',
+      'ESFJ': 'Consul - 領事・調和重視',
+      'ISTP': 'Virtuoso - 巨匠・実用主義',
+      'ISFP': 'Adventurer - 冒険家・芸術家',
+      'ESTP': 'Entrepreneur - 起業家・行動派',
+      'ESFP': 'Entertainer - エンターテイナー・楽天家'
+    },
+    sevenDimensionNames: [
+      'Performance (パフォーマンス)',
+      'Psychological (心理的適合性)',
+      'External Alignment (外部整合性)',
+      'Internal Consistency (内部一貫性)',
+      'Social Decision-making (社会的意思決定)',
+      'Content Quality (コンテンツ品質)',
+      'Ethics (倫理性)'
+    ],
+    detailedMetricNames: [
+      '多様性スコア', '一貫性スコア', '収束効率', 'MBTI整合性',
+      '相互作用品質', '論証品質', '参加バランス', '解決率'
+    ]
+  },
+  en: {
+    overviewHeading: 'Discussion Overview',
+    topic: 'Topic',
+    startTime: 'Started',
+    endTime: 'Ended',
+    duration: 'Duration',
+    participantCountLabel: 'Participants',
+    participantCount: count => `${count}`,
+    totalTurnsLabel: 'Total statements',
+    totalTurns: count => `${count}`,
+    interventions: count => `${count}`,
+    participantsHeading: 'Participating Agents',
+    humanParticipant: 'human participant',
+    persona: 'custom persona',
+    settingsHeading: 'System Settings',
+    realtimeOptimization: 'Realtime optimization',
+    graphOptimization: 'Graph optimization',
+    phasePlan: 'Phase plan',
+    seed: 'Seed',
+    learningHistoryLabel: 'Learning history',
+    learningHistory: history => history.savedAt
+      ? `${history.mode} (saved ${history.savedAt}, ${history.evaluations} evaluations)`
+      : `${history.mode} (no saved history)`,
+    resumedFrom: 'Resumed from',
+    contentHeading: 'Discussion',
+    qualityHeading: 'Quality Evaluation',
+    overallScore: 'Overall score',
+    sevenDimensions: '7-Dimension Quality Evaluation',
+    detailedMetrics: 'Detailed Metrics',
+    realtimeHeading: 'Realtime Optimization',
+    executionCountLabel: 'Runs',
+    executionCount: count => `${count}`,
+    qualityImprovement: 'Quality improvement',
+    analysisHeading: 'Discussion Analysis',
+    strengths: 'Strengths',
+    improvements: 'Areas for Improvement',
+    summaryHeading: 'Discussion Summary',
+    summaryOverview: 'Overview',
+    keyThemes: 'Key Themes',
+    progressAnalysis: 'Progress Analysis',
+    mbtiContributions: 'Contributions by MBTI Type',
+    consensus: 'Consensus Building',
+    insights: 'Key Insights',
+    processCharacteristics: 'Process Characteristics',
+    intervention: 'Orchestrator intervention',
+    defaultInterventionLabel: 'Discussion guidance',
+    weight: 'weight',
+    quality: 'Quality',
+    usageHeading: 'LLM Usage',
+    usageTotal: 'Total',
+    usageByAgent: 'By Agent',
+    usageByPhase: 'By Phase',
+    usageByModel: 'By Model',
+    usageOutsidePhase: 'Outside phases (vote, summary)',
+    usageColumns: ['Scope', 'Calls', 'Input tokens', 'Output tokens', 'Avg latency', 'Estimated cost'],
+    debateHeading: 'Debate Result',
+    debateSides: { pro: 'Pro', contra: 'Contra' },
+    debateColumns: ['Side', 'Position', 'Members', 'Statements', 'Rebuttals', 'Argument strength', 'Conflict resolution', 'Score'],
+    debateWinner: (side, margin) => `${side} side wins (margin ${margin.toFixed(1)}pt)`,
+    debateDraw: margin => `Draw (margin ${margin.toFixed(1)}pt)`,
+    debateUnscored: sides => `No decision (sides without statements: ${sides})`,
+    rebuttalTo: turnNumber => `rebuttal to Turn ${turnNumber}`,
+    decisionHeading: 'Decision (Vote Result)',
+    decisionMethod: 'Voting method',
+    decisionColumns: ['Rank', 'Option', 'Score', 'First choices', 'Types ranking it first'],
+    decisionWinner: (option, votes, abstentions) => `Decision: ${option} (${votes} valid votes / ${abstentions} abstentions)`,
+    decisionNone: abstentions => `No decision (no valid votes / ${abstentions} abstentions)`,
+    decisionVotesHeading: 'Ballots and rationale by type',
+    decisionAbstained: 'Abstained (ranking could not be read; excluded from the tally)',
+    durationFormat: (minutes, seconds) => `${minutes}m ${seconds}s`,
+    agentDescriptions: {
+      'INTJ': 'Architect - strategic thinker',
+      'INTP': 'Thinker - logical analyst',
+      'ENTJ': 'Commander - decisive leader',
+      'ENTP': 'Debater - debater and inventor',
+      'INFJ': 'Advocate - principled idealist',
+      'INFP': 'Mediator - values-driven',
+      'ENFJ': 'Protagonist - cooperative leader',
+      'ENFP': 'Campaigner - enthusiastic activist',
+      'ISTJ': 'Inspector - responsible organizer',
+      'ISFJ': 'Protector - caring defender',
+      'ESTJ': 'Executive - efficiency-focused',
+      'ESFJ': 'Consul - harmony-focused',
+      'ISTP': 'Virtuoso - pragmatic craftsperson',
+      'ISFP': 'Adventurer - artistic explorer',
+      'ESTP': 'Entrepreneur - action-oriented',
+      'ESFP': 'Entertainer - upbeat performer'
+    },
+    sevenDimensionNames: [
+      'Performance',
+      'Psychological',
+      'External Alignment',
+      'Internal Consistency',
+      'Social Decision-making',
+      'Content Quality',
+      'Ethics'
+    ],
+    detailedMetricNames: [
+      'Diversity', 'Consistency', 'Convergence efficiency', 'MBTI alignment',
+      'Interaction quality', 'Argument quality', 'Participation balance', 'Resolution rate'
+    ]
+  }
+};
+
 /**
  * 時間を読みやすい形式でフォーマット
  */
-function formatTime(date: Date): string {
-  return date.toLocaleString('ja-JP', {
+function formatTime(date: Date, language: DiscussionLanguage): string {
+  return date.toLocaleString(getLanguageProfile(language).locale, {
     year: 'numeric',
     month: '2-digit',
     day: '2-digit',
@@ -59,12 +394,12 @@ function formatTime(date: Date): string {
 /**
  * 議論時間を計算
  */
-function calculateDuration(start: Date, end: Date): string {
+function calculateDuration(start: Date, end: Date, labels: ReportLabels): string {
   const diffMs = end.getTime() - start.getTime();
   const diffSec = Math.round(diffMs / 1000);
   const minutes = Math.floor(diffSec / 60);
   const seconds = diffSec % 60;
-  return `${minutes}分${seconds}秒`;
+  return labels.durationFormat(minutes, seconds);
 }
 
 /**
@@ -120,63 +455,70 @@ export function saveConversationAsMarkdown(
 }
 
 /**
- * Markdownコンテンツ生成
+ * Markdownコンテンツ生成（見出し・ラベル・日時は議論言語に従う）
  */
 function generateMarkdownContent(data: ConversationData): string {
-  const { topic, participants, startTime, endTime, turns, qualityReport, metadata, discussionSummary } = data;
+  const { topic, participants, startTime, endTime, turns, qualityReport, metadata, discussionSummary, debateResult, decisionResult, usage } = data;
+  const language = metadata.language ?? DEFAULT_DISCUSSION_LANGUAGE;
+  const labels = REPORT_LABELS[language];
+  const interventionCount = countInterventions(turns);
   
   return `# MBTI Multi-Agent Discussion Record
 
-## 📋 **議論概要**
-
-- **トピック**: ${topic}
-- **開始時刻**: ${formatTime(startTime)}
-- **終了時刻**: ${formatTime(endTime)}
-- **議論時間**: ${calculateDuration(startTime, endTime)}
-- **参加者数**: ${metadata.participantCount}人
-- **総発言数**: ${metadata.totalTurns}回
+## 📋 **${labels.overviewHeading}**
 
-## 👥 **参加エージェント**
+- **${labels.topic}**: ${topic}
+- **${labels.startTime}**: ${formatTime(startTime, language)}
+- **${labels.endTime}**: ${formatTime(endTime, language)}
+- **${labels.duration}**: ${calculateDuration(startTime, endTime, labels)}
+- **${labels.participantCountLabel}**: ${labels.participantCount(metadata.participantCount)}
+- **${labels.totalTurnsLabel}**: ${labels.totalTurns(metadata.totalTurns)}
+${interventionCount > 0 ? `- **${labels.intervention}**: ${labels.interventions(interventionCount)}\n` : ''}
+## 👥 **${labels.participantsHeading}**
 
-${participants.map(type => `- **${type}**: ${getAgentDescription(type)}`).join('\n')}
+${participants.map(type => type === metadata.humanParticipant?.mbtiType
+  ? `- **${type}**: 👤 ${metadata.humanParticipant.name}（${labels.humanParticipant}）`
+  : metadata.personas?.[type]
+    ? `- **${type}**: 🎭 ${metadata.personas[type]}（${labels.persona}）`
+    : `- **${type}**: ${labels.agentDescriptions[type] || type}`).join('\n')}
 
-## ⚙️ **システム設定**
+## ⚙️ **${labels.settingsHeading}**
 
-- **リアルタイム最適化**: ${metadata.enabledFeatures.realtimeOptimization ? '✅ ON' : '❌ OFF'}
-- **グラフ最適化**: ${metadata.enabledFeatures.graphOptimization ? '✅ ON' : '❌ OFF'}
+- **${labels.realtimeOptimization}**: ${metadata.enabledFeatures.realtimeOptimization ? '✅ ON' : '❌ OFF'}
+- **${labels.graphOptimization}**: ${metadata.enabledFeatures.graphOptimization ? '✅ ON' : '❌ OFF'}
+${metadata.phasePlan ? `- **${labels.phasePlan}**: ${metadata.phasePlan.map(phase => phase.name).join(' → ')}\n` : ''}${metadata.seed !== undefined ? `- **${labels.seed}**: ${metadata.seed}\n` : ''}${metadata.history ? `- **${labels.learningHistoryLabel}**: ${labels.learningHistory(metadata.history)}\n` : ''}${metadata.resumedFrom ? `- **${labels.resumedFrom}**: ${metadata.resumedFrom}\n` : ''}
+${discussionSummary ? formatDiscussionSummary(discussionSummary, labels) : ''}${debateResult ? formatDebateResult(debateResult, labels) : ''}${decisionResult ? formatDecisionResult(decisionResult, labels, language) : ''}
 
-${discussionSummary ? formatDiscussionSummary(discussionSummary) : ''}
+## 💬 **${labels.contentHeading}**
 
-## 💬 **議論内容**
+${turns.map((turn, index) => formatTurn(turn, index + 1, language)).join('\n\n')}
 
-${turns.map((turn, index) => formatTurn(turn, index + 1)).join('\n\n')}
+## 📊 **${labels.qualityHeading}**
 
-## 📊 **品質評価結果**
+### 🏆 **${labels.overallScore}**: ${qualityReport.overallScore?.toFixed(1)}% (${qualityReport.grade || 'N/A'})
 
-### 🏆 **総合評価**: ${qualityReport.overallScore?.toFixed(1)}% (${qualityReport.grade || 'N/A'})
+### 📈 **${labels.sevenDimensions}**
+${formatQualityMetrics(qualityReport, labels)}
 
-### 📈 **7次元品質評価**
-${formatQualityMetrics(qualityReport)}
+### 📋 **${labels.detailedMetrics}**
+${formatDetailedMetrics(qualityReport, labels)}
 
-### 📋 **詳細メトリクス**
-${formatDetailedMetrics(qualityReport)}
+### ⚡ **${labels.realtimeHeading}**
+- **${labels.executionCountLabel}**: ${labels.executionCount(qualityReport.optimizationResults?.executionCount || 0)}
+- **${labels.qualityImprovement}**: ${qualityReport.optimizationResults?.improvementPercentage?.toFixed(1) || 'N/A'}%
+${usage && usage.total.calls > 0 ? formatUsage(usage, labels) : ''}
+## 🎯 **${labels.analysisHeading}**
 
-### ⚡ **リアルタイム最適化**
-- **実行回数**: ${qualityReport.optimizationResults?.executionCount || 0}回
-- **品質改善度**: ${qualityReport.optimizationResults?.improvementPercentage?.toFixed(1) || 'N/A'}%
-
-## 🎯 **議論分析**
-
-### 💪 **強み**
+### 💪 **${labels.strengths}**
 ${(qualityReport.strengths || []).map(s => `- ${s}`).join('\n')}
 
-### 🔧 **改善点**
+### 🔧 **${labels.improvements}**
 ${(qualityReport.improvements || []).map(i => `- ${i}`).join('\n')}
 
 ---
 
 *Generated by MBTI Multi-Agent Discussion System (M-ADS) Phase 2*  
-*Date: ${formatTime(new Date())}*
+*Date: ${formatTime(new Date(), language)}*
 `;
 }
 
@@ -191,111 +533,210 @@ function formatDiscussionSummary(summary: {
   consensus: string;
   insights: string[];
   processCharacteristics: string[];
-}): string {
-  return `## 📝 **議論総括**
+}, labels: ReportLabels): string {
+  return `## 📝 **${labels.summaryHeading}**
 
-### 🌟 **総合概要**
+### 🌟 **${labels.summaryOverview}**
 ${summary.overview}
 
-### 🎯 **主要テーマ**
+### 🎯 **${labels.keyThemes}**
 ${summary.keyThemes.map(theme => `- **${theme}**`).join('\n')}
 
-### 📈 **議論進展分析**
+### 📈 **${labels.progressAnalysis}**
 ${summary.progressAnalysis}
 
-### 🎭 **MBTIタイプ別貢献**
+### 🎭 **${labels.mbtiContributions}**
 ${Object.entries(summary.mbtiContributions).map(([type, contribution]) => 
   `- **${type}**: ${contribution}`
 ).join('\n')}
 
-### 🤝 **合意形成プロセス**
+### 🤝 **${labels.consensus}**
 ${summary.consensus}
 
-### 💡 **主要洞察**
+### 💡 **${labels.insights}**
 ${summary.insights.map(insight => `- ${insight}`).join('\n')}
 
-### 🔄 **プロセス特徴**
+### 🔄 **${labels.processCharacteristics}**
 ${summary.processCharacteristics.map(characteristic => `- ${characteristic}`).join('\n')}
 
 `;
 }
 
 /**
- * 発言をフォーマット
+ * ディベート結果をフォーマット（陣営別の採点表と勝敗）
  */
-function formatTurn(turn: DiscussionTurn, turnNumber: number): string {
-  const timestamp = turn.timestamp ? formatTime(new Date(turn.timestamp)) : '';
-  const weight = turn.weight !== undefined ? ` (重み: ${turn.weight.toFixed(2)})` : '';
-  const quality = turn.qualityMetrics ? ` | 品質: ${turn.qualityMetrics.overallQuality?.toFixed(1)}%` : '';
-  
-  return `### Turn ${turnNumber}: ${turn.agentType}${weight}
+function formatDebateResult(result: DebateResult, labels: ReportLabels): string {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const rows = DEBATE_SIDES.map(side => {
+    const sideResult = result.sides[side];
+    return `| ${labels.debateSides[side]} | ${sideResult.position} | ${sideResult.members.join(', ')} | ${sideResult.statements} | ${sideResult.rebuttals} | ` +
+      `${percent(sideResult.argumentStrength)} | ${percent(sideResult.conflictResolution)} | ${percent(sideResult.score)} |`;
+  });
+  const verdict = result.unscoredSides.length > 0
+    ? labels.debateUnscored(result.unscoredSides.map(side => labels.debateSides[side]).join(', '))
+    : result.winner === 'draw'
+      ? labels.debateDraw(result.margin * 100)
+      : labels.debateWinner(labels.debateSides[result.winner], result.margin * 100);
+
+  return `## ⚔️ **${labels.debateHeading}**
+
+| ${labels.debateColumns.join(' | ')} |
+|${labels.debateColumns.map(() => '---').join('|')}|
+${rows.join('\n')}
+
+**🏆 ${verdict}**
+
+`;
+}
+
+/**
+ * 意思決定の投票結果をフォーマット（順位表とタイプ別の投票・理由）
+ */
+function formatDecisionResult(result: DecisionResult, labels: ReportLabels, language: DiscussionLanguage): string {
+  const rows = result.ranking.map(entry =>
+    `| ${entry.rank} | ${entry.option} | ${(entry.score * 100).toFixed(1)}% | ${entry.firstChoiceVotes} | ${entry.supporters.join(', ') || '-'} |`
+  );
+  const votes = result.votes.map(vote =>
+    `- **${vote.mbtiType}** (×${vote.weight.toFixed(2)}): ${vote.parsed ? vote.ranking.join(' > ') : labels.decisionAbstained}\n  - ${vote.rationale.replace(/\s+/g, ' ')}`
+  );
+
+  return `## 🗳️ **${labels.decisionHeading}**
+
+- **${labels.decisionMethod}**: ${getVotingMethodLabel(result.votingMethod, language)}
+
+| ${labels.decisionColumns.join(' | ')} |
+|${labels.decisionColumns.map(() => '---').join('|')}|
+${rows.join('\n')}
+
+**${result.winner === null
+    ? `⚠️ ${labels.decisionNone(result.abstentions.length)}`
+    : `🏆 ${labels.decisionWinner(result.winner, result.validVotes, result.abstentions.length)}`}**
+
+### 🧾 **${labels.decisionVotesHeading}**
+${votes.join('\n')}
+
+`;
+}
+
+/**
+ * LLM使用量をフォーマット（合計・エージェント別・フェーズ別・モデル別の表）
+ */
+function formatUsage(usage: LLMUsageSummary, labels: ReportLabels): string {
+  const row = (scope: string, totals: LLMUsageTotals) =>
+    `| ${scope} | ${totals.calls} | ${totals.promptTokens.toLocaleString()} | ${totals.completionTokens.toLocaleString()} | ` +
+    `${Math.round(totals.latencyMs / Math.max(totals.calls, 1)).toLocaleString()} ms | ${formatEstimatedCost(totals)} |`;
+  const table = (rows: string[]) =>
+    `| ${labels.usageColumns.join(' | ')} |\n|${labels.usageColumns.map(() => '---').join('|')}|\n${rows.join('\n')}`;
+
+  return `
+## 💰 **${labels.usageHeading}**
+
+### 🧮 **${labels.usageTotal}**
+${table([row(labels.usageTotal, usage.total)])}
+
+### 🎭 **${labels.usageByAgent}**
+${table(Object.entries(usage.byAgent).map(([agent, totals]) => row(agent, totals)))}
+
+### 🗺️ **${labels.usageByPhase}**
+${table(usage.byPhase.map(entry => row(
+  entry.phase === null ? labels.usageOutsidePhase : `${entry.phase}. ${entry.phaseName ?? ''}`,
+  entry
+)))}
+
+### 🤖 **${labels.usageByModel}**
+${table(Object.entries(usage.byModel).map(([model, totals]) => row(model, totals)))}
+`;
+}
+
+/**
+ * オーケストレーター介入の回数を集計
+ */
+function countInterventions(turns: DiscussionTurn[]): number {
+  return turns.filter(turn => turn.speakerKind === 'orchestrator').length;
+}
+
+/**
+ * オーケストレーター介入をフォーマット（引用ブロックで発言と区別）
+ */
+function formatInterventionTurn(turn: DiscussionTurn, turnNumber: number, language: DiscussionLanguage): string {
+  const labels = REPORT_LABELS[language];
+  const timestamp = turn.timestamp ? formatTime(new Date(turn.timestamp), language) : '';
+  const label = turn.interventionType
+    ? `${INTERVENTION_TYPE_LABELS[language][turn.interventionType]}（${turn.interventionType}）`
+    : labels.defaultInterventionLabel;
+
+  return `### Turn ${turnNumber}: 🎯 ${labels.intervention} - ${label}
 *${timestamp}*
 
-${turn.message}
-${quality ? `\n*${quality}*` : ''}`;
+${turn.message.split('\n').map(line => `> ${line}`).join('\n')}`;
 }
 
 /**
- * エージェント説明を取得
+ * 発言をフォーマット
  */
-function getAgentDescription(type: MBTIType): string {
-  const descriptions: Record<MBTIType, string> = {
-    'INTJ': 'Architect - 戦略的思考家',
-    'INTP': 'Thinker - 論理的分析者',
-    'ENTJ': 'Commander - 指揮官型リーダー',
-    'ENTP': 'Debater - 討論者・発明家',
-    'INFJ': 'Advocate - 提唱者・理想主義者',
-    'INFP': 'Mediator - 仲介者・価値観重視',
-    'ENFJ': 'Protagonist - 主人公・協調型',
-    'ENFP': 'Campaigner - 運動家・情熱家',
-    'ISTJ': 'Inspector - 管理者・責任感',
-    'ISFJ': 'Protector - 擁護者・思いやり',
-    'ESTJ': 'Executive - 幹部・効率重視',
-    'ESFJ': 'Consul - 領事・調和重視',
-    'ISTP': 'Virtuoso - 巨匠・実用主義',
-    'ISFP': 'Adventurer - 冒険家・芸術家',
-    'ESTP': 'Entrepreneur - 起業家・行動派',
-    'ESFP': 'Entertainer - エンターテイナー・楽天家'
-  };
-  return descriptions[type] || type;
+function formatTurn(turn: DiscussionTurn, turnNumber: number, language: DiscussionLanguage): string {
+  if (turn.speakerKind === 'orchestrator') {
+    return formatInterventionTurn(turn, turnNumber, language);
+  }
+
+  const labels = REPORT_LABELS[language];
+  const timestamp = turn.timestamp ? formatTime(new Date(turn.timestamp), language) : '';
+  const weight = turn.weight !== undefined ? ` (${labels.weight}: ${turn.weight.toFixed(2)})` : '';
+  const quality = turn.qualityMetrics ? ` | ${labels.quality}: ${turn.qualityMetrics.overallQuality?.toFixed(1)}%` : '';
+  
+  const speaker = turn.speakerName ? `${turn.agentType}（👤 ${turn.speakerName}）` : turn.agentType;
+  const debate = turn.debateSide
+    ? ` [${labels.debateSides[turn.debateSide]}${turn.rebuttalTo !== undefined ? ` ↩️ ${labels.rebuttalTo(turn.rebuttalTo)}` : ''}]`
+    : '';
+
+  return `### Turn ${turnNumber}: ${speaker}${debate}${weight}
+*${timestamp}*
+
+${turn.message}
+${quality ? `\n*${quality}*` : ''}`;
 }
 
 /**
  * 品質メトリクスをフォーマット
  */
-function formatQualityMetrics(report: ComprehensiveQualityReport): string {
-  const metrics = [
-    { name: 'Performance (パフォーマンス)', value: report.performanceScore },
-    { name: 'Psychological (心理的適合性)', value: report.psychologicalScore },
-    { name: 'External Alignment (外部整合性)', value: report.externalAlignmentScore },
-    { name: 'Internal Consistency (内部一貫性)', value: report.internalConsistencyScore },
-    { name: 'Social Decision-making (社会的意思決定)', value: report.socialDecisionScore },
-    { name: 'Content Quality (コンテンツ品質)', value: report.contentQualityScore },
-    { name: 'Ethics (倫理性)', value: report.ethicsScore }
+function formatQualityMetrics(report: ComprehensiveQualityReport, labels: ReportLabels): string {
+  const values = [
+    report.performanceScore,
+    report.psychologicalScore,
+    report.externalAlignmentScore,
+    report.internalConsistencyScore,
+    report.socialDecisionScore,
+    report.contentQualityScore,
+    report.ethicsScore
   ];
 
-  return metrics
-    .filter(m => m.value !== undefined)
-    .map(m => `- **${m.name}**: ${(m.value! * 100).toFixed(1)}%`)
-    .join('\n');
+  return formatMetricList(labels.sevenDimensionNames, values);
 }
 
 /**
  * 詳細メトリクスをフォーマット
  */
-function formatDetailedMetrics(report: ComprehensiveQualityReport): string {
-  const metrics = [
-    { name: '多様性スコア', value: report.diversityScore },
-    { name: '一貫性スコア', value: report.consistencyScore },
-    { name: '収束効率', value: report.convergenceEfficiency },
-    { name: 'MBTI整合性', value: report.mbtiAlignmentScore },
-    { name: '相互作用品質', value: report.interactionQuality },
-    { name: '論証品質', value: report.argumentQuality },
-    { name: '参加バランス', value: report.participationBalance },
-    { name: '解決率', value: report.resolutionRate }
+function formatDetailedMetrics(report: ComprehensiveQualityReport, labels: ReportLabels): string {
+  const values = [
+    report.diversityScore,
+    report.consistencyScore,
+    report.convergenceEfficiency,
+    report.mbtiAlignmentScore,
+    report.interactionQuality,
+    report.argumentQuality,
+    report.participationBalance,
+    report.resolutionRate
   ];
 
-  return metrics
+  return formatMetricList(labels.detailedMetricNames, values);
+}
+
+/**
+ * 名前と値の組をMarkdownの箇条書きへ（未計測の値は除外）
+ */
+function formatMetricList(names: string[], values: Array<number | undefined>): string {
+  return names
+    .map((name, index) => ({ name, value: values[index] }))
     .filter(m => m.value !== undefined)
     .map(m => `- **${m.name}**: ${(m.value! * 100).toFixed(1)}%`)
     .join('\n');
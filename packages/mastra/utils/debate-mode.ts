@@ -0,0 +1,370 @@
+import { z } from 'zod';
+import type { MBTIGroup, MBTIType } from '../types/mbti-types';
+import type { DiscussionPhase } from '../types/feedback-system-types';
+import { ALL_MBTI_TYPES, getGroupFromType } from './mbti-characteristics';
+import { MBTI_GROUP_MEMBERS } from './discussion-helpers';
+import { selectPhaseSpeaker, type SelectableParticipant, type SpeakerSelectionPolicy } from './phase-plan';
+import { toDiscussionStatements } from './conversation-loader';
+import { isOrchestratorTurn } from './orchestrator-intervention';
+import { DEFAULT_DISCUSSION_LANGUAGE, type DiscussionLanguage } from './discussion-language';
+import type { ConversationFlowTurn } from './discussion-progress';
+import type { ComprehensiveQualityEvaluator } from './comprehensive-quality-evaluator';
+import type { RandomSource } from './seeded-random';
+
+/**
+ * ディベートモード
+ * 参加者を賛成（pro）・反対（contra）の陣営に分けて立場を割り当て、発言は陣営を交互に回す
+ * 立場表明（initial フェーズ）以降の発言は相手陣営の直前の発言への反論とし、反論先のターンを記録する
+ * 終了時は ComprehensiveQualityEvaluator の論証品質・対立解決の評価で陣営ごとの論証の強さを採点する
+ */
+
+// ===========================================
+// スキーマ定義
+// ===========================================
+
+export const DEBATE_SIDES = ['pro', 'contra'] as const;
+
+export const debateSideSchema = z.enum(DEBATE_SIDES);
+
+const debateMbtiTypeSchema = z.enum(ALL_MBTI_TYPES as [MBTIType, ...MBTIType[]]);
+
+/**
+ * ワークフロー入力用のディベート指定
+ * 陣営未指定の参加者は、各陣営の人数とMBTIグループの偏りが小さくなるよう割り当てる
+ */
+export const debateInputSchema = z.object({
+  positions: z.object({
+    pro: z.string().min(1).optional().describe('Position argued by the pro side'),
+    contra: z.string().min(1).optional().describe('Position argued by the contra side')
+  }).optional().describe('Positions of each side (default: for / against the topic)'),
+  teams: z.object({
+    pro: z.array(debateMbtiTypeSchema).optional(),
+    contra: z.array(debateMbtiTypeSchema).optional()
+  }).optional().describe('MBTI types fixed to each side; the remaining participants are assigned automatically')
+});
+
+/**
+ * 割り当て済みのディベート設定（議論状態・保存データに記録し、再開時に引き継ぐ）
+ */
+export const debateSettingsSchema = z.object({
+  positions: z.object({
+    pro: z.string(),
+    contra: z.string()
+  }),
+  teams: z.record(debateSideSchema).describe('MBTI type → assigned side')
+});
+
+/**
+ * 陣営ごとの採点結果
+ * argumentStrength は evaluateArgumentQuality、conflictResolution は evaluateConflictResolution を陣営の発言に適用した値
+ */
+export const debateSideResultSchema = z.object({
+  side: debateSideSchema,
+  position: z.string(),
+  members: z.array(z.string()),
+  statements: z.number(),
+  rebuttals: z.number().describe('Statements that rebut a specific opposing statement'),
+  argumentStrength: z.number(),
+  conflictResolution: z.number(),
+  score: z.number().describe('Weighted score used to decide the winner (0-1)')
+});
+
+export const debateResultSchema = z.object({
+  sides: z.object({
+    pro: debateSideResultSchema,
+    contra: debateSideResultSchema
+  }),
+  winner: z.enum(['pro', 'contra', 'draw']),
+  margin: z.number().describe('Score difference between the sides'),
+  unscoredSides: z.array(debateSideSchema).describe('Sides without any statements; the debate is judged a draw when not empty')
+});
+
+// ===========================================
+// 型定義
+// ===========================================
+
+export type DebateSide = typeof DEBATE_SIDES[number];
+export type DebateInput = z.input<typeof debateInputSchema>;
+export type DebateSettings = z.infer<typeof debateSettingsSchema>;
+export type DebateSideResult = z.infer<typeof debateSideResultSchema>;
+export type DebateResult = z.infer<typeof debateResultSchema>;
+
+/**
+ * 1ターン分のディベート情報（発言者の陣営・反論先・プロンプトに添える指示）
+ */
+export interface DebateTurnPlan {
+  side: DebateSide;
+  target?: ConversationFlowTurn;
+  guidance: string;
+}
+
+// 🏆 勝敗判定の重み（論証の強さを主、対立への建設的な向き合い方を従とする）
+export const DEBATE_SCORE_WEIGHTS = {
+  argumentStrength: 0.7,
+  conflictResolution: 0.3
+};
+
+// スコア差がこの値未満の場合は引き分け
+export const DEBATE_DRAW_MARGIN = 0.02;
+
+// ===========================================
+// 文言（議論言語ごと）
+// ===========================================
+
+interface DebateText {
+  sides: Record<DebateSide, string>;
+  defaultPositions: Record<DebateSide, string>;
+  heading: string;
+  assignment: (side: string, position: string) => string;
+  opening: string;
+  rebuttal: (turnNumber: number, speaker: string, statement: string) => string;
+  noTarget: string;
+  turnOf: (side: string) => string;
+}
+
+export const DEBATE_TEXT: Record<DiscussionLanguage, DebateText> = {
+  ja: {
+    sides: { pro: '賛成', contra: '反対' },
+    defaultPositions: {
+      pro: 'トピックの主張を支持する',
+      contra: 'トピックの主張に異議を唱える'
+    },
+    heading: '【ディベート】',
+    assignment: (side, position) => `あなたは${side}側です。立場: ${position}。自分の本心とは関係なく、割り当てられた立場を一貫して擁護してください。`,
+    opening: 'これは立場表明です。割り当てられた立場の主要な論点と根拠を示してください。',
+    rebuttal: (turnNumber, speaker, statement) =>
+      `相手陣営の Turn ${turnNumber}（${speaker}）の発言に反論してください。冒頭で「Turn ${turnNumber} への反論」と明示し、その発言の具体的な主張を取り上げて根拠を示しながら反駁してください。\n反論対象:\n「${statement}」`,
+    noTarget: '反論できる相手陣営の発言がまだないため、割り当てられた立場の論点を示してください。',
+    turnOf: side => `${side}側の番`
+  },
+  en: {
+    sides: { pro: 'Pro', contra: 'Contra' },
+    defaultPositions: {
+      pro: 'Support the claim of the topic',
+      contra: 'Oppose the claim of the topic'
+    },
+    heading: '[Debate]',
+    assignment: (side, position) => `You are on the ${side} side. Position: ${position}. Defend the assigned position consistently, regardless of your own view.`,
+    opening: 'This is your opening statement. Present the main points and evidence for your assigned position.',
+    rebuttal: (turnNumber, speaker, statement) =>
+      `Rebut the statement from the opposing side in Turn ${turnNumber} (${speaker}). Start with "Rebuttal to Turn ${turnNumber}", address its specific claims and support your counterarguments with evidence.\nStatement to rebut:\n"${statement}"`,
+    noTarget: 'There is no opposing statement to rebut yet, so present the points of your assigned position.',
+    turnOf: side => `${side} side's turn`
+  }
+};
+
+/**
+ * 陣営の表示名
+ */
+export function getDebateSideLabel(side: DebateSide, language: DiscussionLanguage = DEFAULT_DISCUSSION_LANGUAGE): string {
+  return DEBATE_TEXT[language].sides[side];
+}
+
+function oppositeSide(side: DebateSide): DebateSide {
+  return side === 'pro' ? 'contra' : 'pro';
+}
+
+// ===========================================
+// 陣営の割り当て
+// ===========================================
+
+/**
+ * ディベート指定から陣営と立場を決定
+ * 指定された陣営を優先し、残りの参加者は MBTI グループごとに人数の少ない陣営へ割り当てる
+ */
+export function resolveDebateSettings(
+  input: DebateInput,
+  participantTypes: MBTIType[],
+  language: DiscussionLanguage = DEFAULT_DISCUSSION_LANGUAGE,
+  random: RandomSource = Math.random
+): DebateSettings {
+  const teams: Partial<Record<MBTIType, DebateSide>> = {};
+
+  DEBATE_SIDES.forEach(side => {
+    (input.teams?.[side] ?? []).forEach(type => {
+      if (!participantTypes.includes(type)) {
+        throw new Error(`ディベートの${DEBATE_TEXT.ja.sides[side]}側に参加していないタイプが指定されています: ${type}`);
+      }
+      if (teams[type] && teams[type] !== side) {
+        throw new Error(`ディベートの両陣営に同じタイプが指定されています: ${type}`);
+      }
+      teams[type] = side;
+    });
+  });
+
+  const teamSize = (side: DebateSide, group?: MBTIGroup) => (Object.keys(teams) as MBTIType[])
+    .filter(type => teams[type] === side && (!group || getGroupFromType(type) === group)).length;
+
+  (Object.keys(MBTI_GROUP_MEMBERS) as MBTIGroup[]).forEach(group => {
+    const unassigned = participantTypes.filter(type => !teams[type] && getGroupFromType(type) === group);
+    while (unassigned.length > 0) {
+      const [type] = unassigned.splice(Math.floor(random() * unassigned.length), 1);
+      const sizeDifference = teamSize('pro') - teamSize('contra');
+      const groupDifference = teamSize('pro', group) - teamSize('contra', group);
+      teams[type] = sizeDifference !== 0
+        ? (sizeDifference < 0 ? 'pro' : 'contra')
+        : groupDifference !== 0
+          ? (groupDifference < 0 ? 'pro' : 'contra')
+          : (random() < 0.5 ? 'pro' : 'contra');
+    }
+  });
+
+  const emptySide = DEBATE_SIDES.find(side => teamSize(side) === 0);
+  if (emptySide) {
+    throw new Error(`ディベートの${DEBATE_TEXT.ja.sides[emptySide]}側に参加者がいません（参加者は2人以上、陣営指定は両側に必要です）`);
+  }
+
+  const defaults = DEBATE_TEXT[language].defaultPositions;
+  return {
+    positions: {
+      pro: input.positions?.pro ?? defaults.pro,
+      contra: input.positions?.contra ?? defaults.contra
+    },
+    teams: teams as Record<string, DebateSide>
+  };
+}
+
+/**
+ * 陣営ごとの参加タイプ
+ */
+export function getDebateTeamMembers(settings: DebateSettings, side: DebateSide): MBTIType[] {
+  return (Object.keys(settings.teams) as MBTIType[]).filter(type => settings.teams[type] === side);
+}
+
+// ===========================================
+// 発言者選択・反論先
+// ===========================================
+
+/**
+ * 次に発言する陣営（直前のディベート発言の反対側、最初は賛成側）
+ */
+export function nextDebateSide(conversationFlow: ConversationFlowTurn[]): DebateSide {
+  for (let index = conversationFlow.length - 1; index >= 0; index--) {
+    const side = conversationFlow[index].debateSide;
+    if (side) return oppositeSide(side);
+  }
+  return 'pro';
+}
+
+/**
+ * 次の陣営のメンバーからフェーズの選択ポリシーで発言者を選択
+ * round-robin は陣営が交互に回るため、陣営内の順番はフェーズ内ターン番号の半分で数える
+ */
+export function selectDebateSpeaker<T extends SelectableParticipant>(
+  settings: DebateSettings,
+  policy: SpeakerSelectionPolicy,
+  participants: T[],
+  conversationFlow: ConversationFlowTurn[],
+  turnIndexInPhase: number,
+  currentTurn: number,
+  phaseType: DiscussionPhase,
+  random: RandomSource = Math.random,
+  language: DiscussionLanguage = DEFAULT_DISCUSSION_LANGUAGE
+): { participant: T; selectionReason: string } {
+  const side = nextDebateSide(conversationFlow);
+  const members = participants.filter(p => settings.teams[p.type] === side);
+  // 陣営のメンバーが発言できない場合（エージェント未登録など）は全参加者から選択
+  const candidates = members.length > 0 ? members : participants;
+
+  const selection = selectPhaseSpeaker(policy, candidates, Math.floor(turnIndexInPhase / 2), currentTurn, phaseType, random, language);
+  return {
+    participant: selection.participant,
+    selectionReason: `${DEBATE_TEXT[language].turnOf(DEBATE_TEXT[language].sides[side])} / ${selection.selectionReason}`
+  };
+}
+
+/**
+ * 反論先（相手陣営の直近の発言、オーケストレーター介入は対象外）
+ */
+export function findRebuttalTarget(conversationFlow: ConversationFlowTurn[], side: DebateSide): ConversationFlowTurn | undefined {
+  for (let index = conversationFlow.length - 1; index >= 0; index--) {
+    const turn = conversationFlow[index];
+    if (!isOrchestratorTurn(turn) && turn.debateSide === oppositeSide(side)) return turn;
+  }
+  return undefined;
+}
+
+/**
+ * 発言者の陣営・反論先・プロンプトに添える指示を決定
+ * 立場表明（initial フェーズ）は反論先を持たず、それ以外のフェーズでは相手陣営の直近の発言を反論先とする
+ */
+export function planDebateTurn(
+  settings: DebateSettings,
+  mbtiType: MBTIType,
+  phaseType: DiscussionPhase,
+  conversationFlow: ConversationFlowTurn[],
+  language: DiscussionLanguage = DEFAULT_DISCUSSION_LANGUAGE
+): DebateTurnPlan {
+  const text = DEBATE_TEXT[language];
+  const side = settings.teams[mbtiType];
+  if (!side) {
+    throw new Error(`ディベートの陣営が割り当てられていないタイプです: ${mbtiType}`);
+  }
+
+  const target = phaseType === 'initial' ? undefined : findRebuttalTarget(conversationFlow, side);
+  const instruction = phaseType === 'initial'
+    ? text.opening
+    : target
+      ? text.rebuttal(target.turnNumber, target.speakerName ?? target.speakerMbtiType, target.statement)
+      : text.noTarget;
+
+  return {
+    side,
+    target,
+    guidance: `\n\n${text.heading}\n${text.assignment(text.sides[side], settings.positions[side])}\n${instruction}`
+  };
+}
+
+/**
+ * 会話フローのターンに記録するディベート情報（陣営・反論先のターン番号と発言者）
+ */
+export function toDebateTurnFields(plan: DebateTurnPlan): Pick<ConversationFlowTurn, 'debateSide' | 'rebuttalTo' | 'responseToAgent'> {
+  return plan.target
+    ? { debateSide: plan.side, rebuttalTo: plan.target.turnNumber, responseToAgent: plan.target.speakerAgentId }
+    : { debateSide: plan.side };
+}
+
+// ===========================================
+// 採点
+// ===========================================
+
+/**
+ * 陣営ごとの論証の強さを採点し、勝敗を判定
+ * 発言のない陣営がある場合は不戦勝とせず、unscoredSides に記録して引き分けとする
+ */
+export function evaluateDebate(
+  conversationFlow: ConversationFlowTurn[],
+  settings: DebateSettings,
+  evaluator: ComprehensiveQualityEvaluator
+): DebateResult {
+  const scoreSide = (side: DebateSide): DebateSideResult => {
+    const turns = conversationFlow.filter(turn => !isOrchestratorTurn(turn) && turn.debateSide === side);
+    const { argumentStrength, conflictResolution } = evaluator.evaluateDebateSide(toDiscussionStatements(turns));
+    const score = turns.length > 0
+      ? argumentStrength * DEBATE_SCORE_WEIGHTS.argumentStrength + conflictResolution * DEBATE_SCORE_WEIGHTS.conflictResolution
+      : 0;
+
+    return {
+      side,
+      position: settings.positions[side],
+      members: getDebateTeamMembers(settings, side),
+      statements: turns.length,
+      rebuttals: turns.filter(turn => turn.rebuttalTo !== undefined).length,
+      argumentStrength,
+      conflictResolution,
+      score
+    };
+  };
+
+  const pro = scoreSide('pro');
+  const contra = scoreSide('contra');
+  const margin = Math.abs(pro.score - contra.score);
+  const unscoredSides = [pro, contra].filter(result => result.statements === 0).map(result => result.side);
+
+  return {
+    sides: { pro, contra },
+    winner: unscoredSides.length > 0 || margin < DEBATE_DRAW_MARGIN ? 'draw' : pro.score > contra.score ? 'pro' : 'contra',
+    margin,
+    unscoredSides
+  };
+}
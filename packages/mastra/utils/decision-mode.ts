@@ -0,0 +1,358 @@
+import { z } from 'zod';
+import type { DiscussionStatement } from '../types/mbti-types';
+import { DEFAULT_DISCUSSION_LANGUAGE, type DiscussionLanguage } from './discussion-language';
+
+/**
+ * 意思決定モード
+ * ユーザーが指定した候補案について賛否を論じさせ、議論の最後に参加エージェントが全候補を順位付けして投票する
+ * 集計は動的重みによる加重ボルダ得点（weighted）または即時決選投票（ranked-choice）で行い、
+ * 順位付きの決定と MBTIタイプごとの投票理由を出力する。順位を読み取れない投票は棄権として集計から除外する
+ */
+
+// ===========================================
+// スキーマ定義
+// ===========================================
+
+export const DECISION_VOTING_METHODS = ['weighted', 'ranked-choice'] as const;
+
+export const decisionVotingMethodSchema = z.enum(DECISION_VOTING_METHODS);
+
+/**
+ * ワークフロー入力用の意思決定指定
+ */
+export const decisionInputSchema = z.object({
+  options: z.array(z.string().min(1)).min(2).describe('Candidate options to decide between (2 or more)'),
+  votingMethod: decisionVotingMethodSchema.optional()
+    .describe('weighted: Borda count weighted by dynamic weight (default) / ranked-choice: instant-runoff voting')
+});
+
+/**
+ * 確定した意思決定設定（議論状態・保存データに記録し、再開時に引き継ぐ）
+ */
+export const decisionSettingsSchema = z.object({
+  options: z.array(z.string()),
+  votingMethod: decisionVotingMethodSchema
+});
+
+/**
+ * 参加者1人分の投票
+ * parsed が false の投票は、応答から順位を読み取れなかった棄権票（ranking は空で集計に含めない）
+ */
+export const decisionVoteSchema = z.object({
+  mbtiType: z.string(),
+  weight: z.number().describe('Dynamic weight of the voter at the end of the discussion'),
+  ranking: z.array(z.string()).describe('Options from most to least preferred (empty for an abstention)'),
+  rationale: z.string(),
+  parsed: z.boolean()
+});
+
+export const decisionOptionResultSchema = z.object({
+  option: z.string(),
+  rank: z.number(),
+  score: z.number().describe('weighted: normalized weighted Borda score / ranked-choice: vote share in the last round the option remained (0-1)'),
+  firstChoiceVotes: z.number(),
+  supporters: z.array(z.string()).describe('MBTI types that ranked the option first')
+});
+
+export const decisionResultSchema = z.object({
+  votingMethod: decisionVotingMethodSchema,
+  winner: z.string().nullable().describe('Winning option, or null when no valid ballot was cast (no decision)'),
+  ranking: z.array(decisionOptionResultSchema).describe('Ranked options (empty when there is no decision)'),
+  votes: z.array(decisionVoteSchema),
+  validVotes: z.number().describe('Ballots counted in the tally'),
+  abstentions: z.array(z.string()).describe('MBTI types whose ballot could not be read'),
+  rounds: z.array(z.record(z.number())).optional().describe('ranked-choice: first-choice tallies of the remaining options per round')
+});
+
+export type DecisionVotingMethod = z.infer<typeof decisionVotingMethodSchema>;
+export type DecisionInput = z.infer<typeof decisionInputSchema>;
+export type DecisionSettings = z.infer<typeof decisionSettingsSchema>;
+export type DecisionVote = z.infer<typeof decisionVoteSchema>;
+export type DecisionOptionResult = z.infer<typeof decisionOptionResultSchema>;
+export type DecisionResult = z.infer<typeof decisionResultSchema>;
+
+// 投票プロンプトに含める直近の発言数と1発言あたりの最大文字数
+const BALLOT_CONTEXT_STATEMENTS = 8;
+const BALLOT_STATEMENT_MAX_LENGTH = 200;
+const FALLBACK_RATIONALE_MAX_LENGTH = 300;
+
+// ===========================================
+// 文言（議論言語ごと）
+// ===========================================
+
+interface DecisionText {
+  methods: Record<DecisionVotingMethod, string>;
+  heading: string;
+  options: string;
+  discussion: string;
+  ballot: (mbtiType: string, count: number) => string;
+  recentStatements: string;
+}
+
+export const DECISION_TEXT: Record<DiscussionLanguage, DecisionText> = {
+  ja: {
+    methods: { weighted: '動的重みによる加重投票', 'ranked-choice': '順位付き投票（即時決選）' },
+    heading: '【意思決定】',
+    options: '候補案:',
+    discussion: '候補案のどれを支持し、どれに反対するかを明確にし、それぞれの利点・リスク・トレードオフを根拠とともに述べてください。',
+    ballot: (mbtiType, count) =>
+      `議論は終了しました。${mbtiType}としての視点から、全${count}件の候補案を最も良いものから順に順位付けしてください。\n` +
+      '次の JSON のみで回答してください: {"ranking": [候補案の番号を良い順に], "rationale": "順位付けの理由（2〜3文）"}',
+    recentStatements: '議論の直近の発言:'
+  },
+  en: {
+    methods: { weighted: 'Weighted vote by dynamic weight', 'ranked-choice': 'Ranked-choice vote (instant runoff)' },
+    heading: '[Decision]',
+    options: 'Candidate options:',
+    discussion: 'Make clear which options you support and which you oppose, and explain the advantages, risks and trade-offs of each with evidence.',
+    ballot: (mbtiType, count) =>
+      `The discussion is over. From your perspective as ${mbtiType}, rank all ${count} candidate options from best to worst.\n` +
+      'Reply with JSON only: {"ranking": [option numbers from best to worst], "rationale": "reason for the ranking (2-3 sentences)"}',
+    recentStatements: 'Recent statements in the discussion:'
+  }
+};
+
+/**
+ * 投票方式の表示名
+ */
+export function getVotingMethodLabel(method: DecisionVotingMethod, language: DiscussionLanguage = DEFAULT_DISCUSSION_LANGUAGE): string {
+  return DECISION_TEXT[language].methods[method];
+}
+
+// ===========================================
+// 設定・プロンプト
+// ===========================================
+
+/**
+ * 意思決定指定から設定を決定（候補案の前後の空白を除き、重複は不可）
+ */
+export function resolveDecisionSettings(input: DecisionInput): DecisionSettings {
+  const options = input.options.map(option => option.trim()).filter(Boolean);
+  if (options.length < 2) {
+    throw new Error('意思決定の候補案は2つ以上指定してください');
+  }
+  const duplicated = options.find((option, index) => options.indexOf(option) !== index);
+  if (duplicated) {
+    throw new Error(`意思決定の候補案が重複しています: ${duplicated}`);
+  }
+
+  return {
+    options,
+    votingMethod: input.votingMethod ?? 'weighted'
+  };
+}
+
+function formatOptions(settings: DecisionSettings, language: DiscussionLanguage): string {
+  return `${DECISION_TEXT[language].options}\n${settings.options.map((option, index) => `${index + 1}. ${option}`).join('\n')}`;
+}
+
+/**
+ * 議論中の発言プロンプトに添える指示（候補案の一覧と賛否を論じる指示）
+ */
+export function createDecisionGuidance(settings: DecisionSettings, language: DiscussionLanguage = DEFAULT_DISCUSSION_LANGUAGE): string {
+  const text = DECISION_TEXT[language];
+  return `\n\n${text.heading}\n${formatOptions(settings, language)}\n${text.discussion}`;
+}
+
+/**
+ * 投票ラウンドのプロンプト（トピック・候補案・直近の発言と、JSON での順位付けの指示）
+ */
+export function createBallotPrompt(
+  settings: DecisionSettings,
+  topic: string,
+  mbtiType: string,
+  statements: DiscussionStatement[],
+  language: DiscussionLanguage = DEFAULT_DISCUSSION_LANGUAGE
+): string {
+  const text = DECISION_TEXT[language];
+  const recent = statements.slice(-BALLOT_CONTEXT_STATEMENTS)
+    .map(statement => `- ${statement.mbtiType}: ${statement.content.substring(0, BALLOT_STATEMENT_MAX_LENGTH)}`)
+    .join('\n');
+
+  return `${text.heading} ${topic}\n\n${formatOptions(settings, language)}\n\n` +
+    (recent ? `${text.recentStatements}\n${recent}\n\n` : '') +
+    text.ballot(mbtiType, settings.options.length);
+}
+
+// ===========================================
+// 投票の読み取り
+// ===========================================
+
+const ballotResponseSchema = z.object({
+  ranking: z.array(z.union([z.number(), z.string()])).min(1),
+  rationale: z.string().default('')
+});
+
+/**
+ * 候補案の照合用に文言を正規化（全角・半角の統一、前後の空白除去、連続する空白の圧縮、小文字化）
+ */
+function normalizeOptionText(text: string): string {
+  return text.normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * 候補案の番号（1始まり）または候補案の文言から候補案を特定
+ * 文言が一致しない場合は文中に含まれる候補案で照合し、他の一致候補を含む最長の候補案を採用する
+ * （「Plan AB が最適」は Plan A ではなく Plan AB）。互いに含まない候補案が複数含まれる場合は特定できないものとする
+ */
+function resolveBallotOption(entry: number | string, options: string[]): string | undefined {
+  const index = typeof entry === 'number' ? entry : Number(entry.trim());
+  if (Number.isInteger(index) && index >= 1 && index <= options.length) {
+    return options[index - 1];
+  }
+  if (typeof entry !== 'string') return undefined;
+
+  const normalizedEntry = normalizeOptionText(entry);
+  const exact = options.find(option => normalizeOptionText(option) === normalizedEntry);
+  if (exact) return exact;
+
+  const contained = options.filter(option => normalizedEntry.includes(normalizeOptionText(option)));
+  const longest = contained.filter(option => !contained.some(other =>
+    other !== option && normalizeOptionText(other).includes(normalizeOptionText(option))
+  ));
+  return longest.length === 1 ? longest[0] : undefined;
+}
+
+/**
+ * 応答テキストから投票を読み取る
+ * JSON の ranking に含まれない候補案は元の順で末尾に補う。
+ * JSON を読み取れない、または候補案を1つも特定できない場合は棄権（parsed: false・空の順位）とする
+ */
+export function parseBallot(text: string, options: string[]): { ranking: string[]; rationale: string; parsed: boolean } {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    try {
+      const parsed = ballotResponseSchema.safeParse(JSON.parse(text.slice(start, end + 1)));
+      if (parsed.success) {
+        const ranked: string[] = [];
+        parsed.data.ranking.forEach(entry => {
+          const option = resolveBallotOption(entry, options);
+          if (option && !ranked.includes(option)) ranked.push(option);
+        });
+        if (ranked.length > 0) {
+          return {
+            ranking: [...ranked, ...options.filter(option => !ranked.includes(option))],
+            rationale: parsed.data.rationale,
+            parsed: true
+          };
+        }
+      }
+    } catch {
+      // JSON として読み取れない応答は棄権とする
+    }
+  }
+
+  return {
+    ranking: [],
+    rationale: text.trim().substring(0, FALLBACK_RATIONALE_MAX_LENGTH),
+    parsed: false
+  };
+}
+
+// ===========================================
+// 集計
+// ===========================================
+
+/**
+ * 加重ボルダ得点（1位 = 1, 最下位 = 0 を投票者の動的重みで加重し、重みの合計で正規化）
+ */
+function calculateBordaScores(votes: DecisionVote[], options: string[], weighted: boolean): Record<string, number> {
+  const scores: Record<string, number> = {};
+  options.forEach(option => { scores[option] = 0; });
+  const totalWeight = votes.reduce((sum, vote) => sum + (weighted ? vote.weight : 1), 0);
+  if (totalWeight === 0 || options.length < 2) return scores;
+
+  votes.forEach(vote => {
+    vote.ranking.forEach((option, position) => {
+      scores[option] += (weighted ? vote.weight : 1) * (options.length - 1 - position) / (options.length - 1);
+    });
+  });
+  options.forEach(option => { scores[option] /= totalWeight; });
+  return scores;
+}
+
+/**
+ * 即時決選投票（残っている候補案の第1希望を数え、過半数に達するまで最少得票の候補案を除外）
+ * 同票の除外候補はボルダ得点の低い方、さらに同点なら後に指定された方を除外する
+ * 順位は最終ラウンドの得票順、続いて除外の遅い順
+ */
+function runInstantRunoff(votes: DecisionVote[], options: string[], bordaScores: Record<string, number>) {
+  const remaining = [...options];
+  const eliminated: string[] = [];
+  const rounds: Array<Record<string, number>> = [];
+  const lastShare: Record<string, number> = {};
+
+  while (remaining.length > 0) {
+    const tally: Record<string, number> = {};
+    remaining.forEach(option => { tally[option] = 0; });
+    votes.forEach(vote => {
+      const choice = vote.ranking.find(option => remaining.includes(option));
+      if (choice) tally[choice]++;
+    });
+    rounds.push(tally);
+    remaining.forEach(option => { lastShare[option] = votes.length > 0 ? tally[option] / votes.length : 0; });
+
+    const leader = Math.max(...remaining.map(option => tally[option]));
+    if (remaining.length === 1 || leader * 2 > votes.length) break;
+
+    const loser = [...remaining].sort((a, b) =>
+      tally[a] - tally[b] || bordaScores[a] - bordaScores[b] || options.indexOf(b) - options.indexOf(a)
+    )[0];
+    remaining.splice(remaining.indexOf(loser), 1);
+    eliminated.push(loser);
+  }
+
+  const finalTally = rounds[rounds.length - 1];
+  const finalOrder = [...remaining].sort((a, b) =>
+    finalTally[b] - finalTally[a] || bordaScores[b] - bordaScores[a] || options.indexOf(a) - options.indexOf(b)
+  );
+  return { order: [...finalOrder, ...eliminated.reverse()], rounds, scores: lastShare };
+}
+
+/**
+ * 投票を集計して順位付きの決定を作成
+ * 棄権票（parsed: false）は集計から除外し、有効票がない場合は決定なし（winner: null）とする
+ */
+export function tallyDecisionVotes(settings: DecisionSettings, votes: DecisionVote[]): DecisionResult {
+  const { options, votingMethod } = settings;
+  const validVotes = votes.filter(vote => vote.parsed && vote.ranking.length > 0);
+  const abstentions = votes.filter(vote => !validVotes.includes(vote)).map(vote => vote.mbtiType);
+
+  if (validVotes.length === 0) {
+    return { votingMethod, winner: null, ranking: [], votes, validVotes: 0, abstentions };
+  }
+
+  const bordaScores = calculateBordaScores(validVotes, options, votingMethod === 'weighted');
+  const firstChoices = (option: string) => validVotes.filter(vote => vote.ranking[0] === option);
+
+  let order: string[];
+  let scores: Record<string, number>;
+  let rounds: Array<Record<string, number>> | undefined;
+  if (votingMethod === 'ranked-choice') {
+    ({ order, rounds, scores } = runInstantRunoff(validVotes, options, bordaScores));
+  } else {
+    scores = bordaScores;
+    order = [...options].sort((a, b) =>
+      scores[b] - scores[a] || firstChoices(b).length - firstChoices(a).length || options.indexOf(a) - options.indexOf(b)
+    );
+  }
+
+  const ranking = order.map((option, index) => ({
+    option,
+    rank: index + 1,
+    score: scores[option],
+    firstChoiceVotes: firstChoices(option).length,
+    supporters: firstChoices(option).map(vote => vote.mbtiType)
+  }));
+
+  return {
+    votingMethod,
+    winner: ranking[0].option,
+    ranking,
+    votes,
+    validVotes: validVotes.length,
+    abstentions,
+    ...(rounds ? { rounds } : {})
+  };
+}
@@ -0,0 +1,291 @@
+import type { ResumedDiscussion } from './conversation-loader';
+import type { ConversationFlowTurn } from './discussion-progress';
+
+/**
+ * 議論実行の比較
+ * 同じトピックで実行した2件以上の議論を並べ、7次元スコア・発言バランス・重みの推移・
+ * 主要テーマ・設定の差分を1件目（基準）からの差として算出する
+ * CLI（保存済みJSON）と webapp（アーカイブ）はそれぞれ ComparableDiscussion に変換して利用する
+ */
+
+// ===========================================
+// 型定義
+// ===========================================
+
+export const SEVEN_DIMENSION_KEYS = [
+  'performanceScore',
+  'psychologicalScore',
+  'externalAlignmentScore',
+  'internalConsistencyScore',
+  'socialDecisionScore',
+  'contentQualityScore',
+  'ethicsScore'
+] as const;
+
+export type SevenDimensionKey = typeof SEVEN_DIMENSION_KEYS[number];
+
+export const SEVEN_DIMENSION_LABELS: Record<SevenDimensionKey, string> = {
+  performanceScore: 'パフォーマンス',
+  psychologicalScore: '心理的適合性',
+  externalAlignmentScore: '外部整合性',
+  internalConsistencyScore: '内部一貫性',
+  socialDecisionScore: '社会的意思決定',
+  contentQualityScore: 'コンテンツ品質',
+  ethicsScore: '倫理性'
+};
+
+/**
+ * 比較対象の議論（保存形式に依存しない正規化済みの形）
+ */
+export interface ComparableDiscussion {
+  label: string;
+  topic: string;
+  participantTypes: string[];
+  scores: Partial<Record<SevenDimensionKey | 'overallScore', number>>;
+  conversationFlow: Array<Pick<ConversationFlowTurn, 'turnNumber' | 'speakerMbtiType' | 'speakerKind' | 'dynamicWeight'>>;
+  keyThemes: string[];
+  // 比較する設定項目（表示用の値、未設定は undefined）
+  configuration: Record<string, string | number | boolean | undefined>;
+}
+
+// 値の並びは runs と同じ順序（該当なしは null）、差分は基準（1件目）との差
+export interface ComparisonRow {
+  values: Array<number | null>;
+  deltas: Array<number | null>;
+}
+
+export interface DiscussionComparison {
+  runs: Array<{ label: string; topic: string; totalStatements: number; overallScore: number | null }>;
+  sameTopic: boolean;
+  dimensions: Array<ComparisonRow & { key: SevenDimensionKey | 'overallScore'; label: string }>;
+  participationBalance: ComparisonRow;
+  participation: Array<ComparisonRow & { mbtiType: string }>;
+  weightTrajectories: Array<{ mbtiType: string; trajectories: number[][]; finalWeights: ComparisonRow }>;
+  themes: { common: string[]; uniqueByRun: string[][] };
+  configurationDifferences: Array<{ option: string; values: Array<string | number | boolean | undefined> }>;
+}
+
+// ===========================================
+// 比較
+// ===========================================
+
+/**
+ * 2件以上の議論を比較
+ */
+export function compareDiscussions(discussions: ComparableDiscussion[]): DiscussionComparison {
+  if (discussions.length < 2) {
+    throw new Error('比較には2件以上の議論が必要です');
+  }
+
+  const statementsByRun = discussions.map(discussion =>
+    discussion.conversationFlow.filter(turn => turn.speakerKind !== 'orchestrator')
+  );
+  const allTypes = Array.from(new Set(discussions.flatMap(discussion => discussion.participantTypes))).sort();
+
+  const dimensions = [...SEVEN_DIMENSION_KEYS, 'overallScore' as const].map(key => ({
+    key,
+    label: key === 'overallScore' ? '総合スコア' : SEVEN_DIMENSION_LABELS[key],
+    ...toRow(discussions.map(discussion => discussion.scores[key] ?? null))
+  }));
+
+  const participation = allTypes.map(mbtiType => ({
+    mbtiType,
+    ...toRow(discussions.map((discussion, index) => {
+      if (!discussion.participantTypes.includes(mbtiType)) return null;
+      const statements = statementsByRun[index];
+      return statements.length > 0
+        ? statements.filter(turn => turn.speakerMbtiType === mbtiType).length / statements.length
+        : 0;
+    }))
+  }));
+
+  const weightTrajectories = allTypes.map(mbtiType => {
+    const trajectories = statementsByRun.map(statements =>
+      statements.filter(turn => turn.speakerMbtiType === mbtiType).map(turn => turn.dynamicWeight)
+    );
+    return {
+      mbtiType,
+      trajectories,
+      finalWeights: toRow(trajectories.map(trajectory => trajectory.length > 0 ? trajectory[trajectory.length - 1] : null))
+    };
+  });
+
+  return {
+    runs: discussions.map((discussion, index) => ({
+      label: discussion.label,
+      topic: discussion.topic,
+      totalStatements: statementsByRun[index].length,
+      overallScore: discussion.scores.overallScore ?? null
+    })),
+    sameTopic: new Set(discussions.map(discussion => normalizeText(discussion.topic))).size === 1,
+    dimensions,
+    participationBalance: toRow(discussions.map((discussion, index) =>
+      calculateParticipationBalance(discussion.participantTypes, statementsByRun[index])
+    )),
+    participation,
+    weightTrajectories,
+    themes: compareThemes(discussions.map(discussion => discussion.keyThemes)),
+    configurationDifferences: diffConfigurations(discussions.map(discussion => discussion.configuration))
+  };
+}
+
+function toRow(values: Array<number | null>): ComparisonRow {
+  const baseline = values[0];
+  return {
+    values,
+    deltas: values.map(value => value === null || baseline === null ? null : value - baseline)
+  };
+}
+
+/**
+ * 発言バランス（参加タイプ間の発言数の変動係数から算出、1.0 = 完全に均等）
+ */
+function calculateParticipationBalance(
+  participantTypes: string[],
+  statements: ComparableDiscussion['conversationFlow']
+): number | null {
+  if (participantTypes.length === 0 || statements.length === 0) return null;
+
+  const counts = participantTypes.map(type => statements.filter(turn => turn.speakerMbtiType === type).length);
+  const mean = counts.reduce((sum, count) => sum + count, 0) / counts.length;
+  const variance = counts.reduce((sum, count) => sum + Math.pow(count - mean, 2), 0) / counts.length;
+  return Math.max(0, 1 - Math.sqrt(variance) / mean);
+}
+
+function normalizeText(text: string): string {
+  return text.trim().toLowerCase();
+}
+
+/**
+ * 主要テーマの共通部分と議論ごとの固有テーマ
+ */
+function compareThemes(themesByRun: string[][]): DiscussionComparison['themes'] {
+  const normalizedByRun = themesByRun.map(themes => new Set(themes.map(normalizeText)));
+
+  const common = themesByRun[0].filter(theme =>
+    normalizedByRun.every(themes => themes.has(normalizeText(theme)))
+  );
+  const uniqueByRun = themesByRun.map((themes, index) =>
+    themes.filter(theme =>
+      normalizedByRun.every((otherThemes, otherIndex) => otherIndex === index || !otherThemes.has(normalizeText(theme)))
+    )
+  );
+
+  return { common, uniqueByRun };
+}
+
+/**
+ * 値が異なる設定項目のみを抽出
+ */
+function diffConfigurations(
+  configurations: ComparableDiscussion['configuration'][]
+): DiscussionComparison['configurationDifferences'] {
+  const options = Array.from(new Set(configurations.flatMap(configuration => Object.keys(configuration))));
+
+  return options
+    .map(option => ({ option, values: configurations.map(configuration => configuration[option]) }))
+    .filter(({ values }) => new Set(values.map(value => JSON.stringify(value ?? null))).size > 1);
+}
+
+// ===========================================
+// 保存済みJSON（CLI）からの変換
+// ===========================================
+
+/**
+ * 復元した保存済み議論を比較用の形式へ変換
+ */
+export function toComparableDiscussion(resumed: ResumedDiscussion, label: string = resumed.sourcePath): ComparableDiscussion {
+  const { data } = resumed;
+  const report = data.qualityReport ?? {};
+  const metadata = data.metadata;
+
+  const scores: ComparableDiscussion['scores'] = {};
+  for (const key of SEVEN_DIMENSION_KEYS) {
+    const value = report[key] ?? report.comprehensiveMetrics?.[key];
+    if (typeof value === 'number') scores[key] = value;
+  }
+  if (typeof report.overallScore === 'number') scores.overallScore = report.overallScore;
+
+  return {
+    label,
+    topic: resumed.topic,
+    participantTypes: resumed.participantTypes,
+    scores,
+    conversationFlow: resumed.conversationFlow,
+    keyThemes: data.discussionSummary?.keyThemes ?? [],
+    configuration: {
+      '参加タイプ': [...resumed.participantTypes].sort().join(','),
+      '参加者数': metadata?.participantCount,
+      'シード': metadata?.seed,
+      'フェーズプラン': resumed.phasePlan?.map(phase => phase.name).join(' → '),
+      'リアルタイム最適化': metadata?.enabledFeatures?.realtimeOptimization,
+      'グラフ最適化': metadata?.enabledFeatures?.graphOptimization,
+      '人間参加者': resumed.humanParticipant
+        ? `${resumed.humanParticipant.name} (${resumed.humanParticipant.mbtiType})`
+        : undefined
+    }
+  };
+}
+
+// ===========================================
+// テキスト出力（CLI）
+// ===========================================
+
+const formatScore = (value: number | null) => value === null ? '-' : `${(value * 100).toFixed(1)}%`;
+const formatDelta = (value: number | null) =>
+  value === null ? '' : ` (${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)})`;
+
+function formatRow(label: string, row: ComparisonRow): string {
+  const cells = row.values.map((value, index) => `${formatScore(value)}${index > 0 ? formatDelta(row.deltas[index]) : ''}`);
+  return `  ${label}: ${cells.join(' | ')}`;
+}
+
+/**
+ * 比較結果をテキストで整形（差分は1件目との差、%ポイント）
+ */
+export function formatDiscussionComparison(comparison: DiscussionComparison): string {
+  const lines: string[] = [];
+
+  lines.push('📋 比較対象:');
+  comparison.runs.forEach((run, index) => {
+    lines.push(`  [${index + 1}] ${run.label}（${run.totalStatements}発言）${index === 0 ? ' ← 基準' : ''}`);
+  });
+  if (!comparison.sameTopic) {
+    lines.push('  ⚠️ トピックが異なる議論が含まれています:');
+    comparison.runs.forEach((run, index) => lines.push(`    [${index + 1}] ${run.topic}`));
+  }
+
+  lines.push('', '📊 7次元品質評価（差分は基準との差、%ポイント）:');
+  comparison.dimensions.forEach(dimension => lines.push(formatRow(dimension.label, dimension)));
+
+  lines.push('', '⚖️ 発言バランス:');
+  lines.push(formatRow('均等度', comparison.participationBalance));
+  comparison.participation.forEach(row => lines.push(formatRow(`${row.mbtiType} 発言割合`, row)));
+
+  lines.push('', '📈 重みの推移（発言時の重み）:');
+  comparison.weightTrajectories.forEach(({ mbtiType, trajectories, finalWeights }) => {
+    const cells = trajectories.map((trajectory, index) => {
+      if (trajectory.length === 0) return '-';
+      const path = trajectory.map(weight => weight.toFixed(2)).join('→');
+      const delta = finalWeights.deltas[index];
+      return index > 0 && delta !== null ? `${path} (最終${delta >= 0 ? '+' : ''}${delta.toFixed(2)})` : path;
+    });
+    lines.push(`  ${mbtiType}: ${cells.join(' | ')}`);
+  });
+
+  lines.push('', '💡 主要テーマ:');
+  lines.push(`  共通: ${comparison.themes.common.length > 0 ? comparison.themes.common.join(', ') : 'なし'}`);
+  comparison.themes.uniqueByRun.forEach((themes, index) => {
+    lines.push(`  [${index + 1}] のみ: ${themes.length > 0 ? themes.join(', ') : 'なし'}`);
+  });
+
+  lines.push('', '⚙️ 設定の違い:');
+  if (comparison.configurationDifferences.length === 0) {
+    lines.push('  なし');
+  }
+  comparison.configurationDifferences.forEach(({ option, values }) => {
+    lines.push(`  ${option}: ${values.map(value => value === undefined ? '(未設定)' : String(value)).join(' | ')}`);
+  });
+
+  return lines.join('\n');
+}
@@ -1,50 +1,173 @@
-import type { MBTIType, DiscussionStatement } from '../types/mbti-types';
-import { ALL_MBTI_TYPES } from './mbti-characteristics';
+import type { MBTIType, MBTIGroup, DiscussionStatement } from '../types/mbti-types';
+import { ALL_MBTI_TYPES, getGroupFromType } from './mbti-characteristics';
+import type { RandomSource } from './seeded-random';
+import { BUILTIN_PERSONAS } from '../agents/builtin-personas';
+import {
+  DEFAULT_DISCUSSION_LANGUAGE,
+  getLanguageProfile,
+  type DiscussionLanguage
+} from './discussion-language';
+
+/**
+ * MBTIグループ別のタイプ一覧
+ */
+export const MBTI_GROUP_MEMBERS: Record<MBTIGroup, MBTIType[]> = {
+  NT: ['INTJ', 'INTP', 'ENTJ', 'ENTP'],
+  NF: ['INFJ', 'INFP', 'ENFJ', 'ENFP'],
+  SJ: ['ISTJ', 'ISFJ', 'ESTJ', 'ESFJ'],
+  SP: ['ISTP', 'ISFP', 'ESTP', 'ESFP']
+};
+
+/**
+ * 参加者選択指定
+ * - types: 参加タイプを明示（指定時は participantCount より優先）
+ * - groupQuotas: グループ別の参加人数（残りの枠は指定のないグループから選択）
+ * - exclude: 参加させないタイプ
+ */
+export interface ParticipantSelection {
+  types?: MBTIType[];
+  groupQuotas?: Partial<Record<MBTIGroup, number>>;
+  exclude?: MBTIType[];
+}
+
+/**
+ * 候補からランダムに1つ選択
+ */
+function pickRandom<T>(candidates: T[], random: RandomSource): T {
+  return candidates[Math.floor(random() * candidates.length)];
+}
 
 /**
  * 多様性を考慮してMBTIタイプを選択する関数
  * 各グループ（NT, NF, SJ, SP）から最低1つずつ選択することで多様性を確保
  */
-export function selectDiverseMBTITypes(count: number): MBTIType[] {
-  const groups = {
-    NT: ['INTJ', 'INTP', 'ENTJ', 'ENTP'] as MBTIType[],
-    NF: ['INFJ', 'INFP', 'ENFJ', 'ENFP'] as MBTIType[],
-    SJ: ['ISTJ', 'ISFJ', 'ESTJ', 'ESFJ'] as MBTIType[],
-    SP: ['ISTP', 'ISFP', 'ESTP', 'ESFP'] as MBTIType[]
-  };
-
+export function selectDiverseMBTITypes(
+  count: number,
+  exclude: MBTIType[] = [],
+  random: RandomSource = Math.random
+): MBTIType[] {
   const selected: MBTIType[] = [];
-  const groupKeys = Object.keys(groups) as (keyof typeof groups)[];
+  const isAvailable = (type: MBTIType) => !selected.includes(type) && !exclude.includes(type);
+  const groupKeys = Object.keys(MBTI_GROUP_MEMBERS) as MBTIGroup[];
 
   // 各グループから最低1つは選択
   groupKeys.forEach(group => {
-    const availableTypes = groups[group].filter(type => !selected.includes(type));
+    const availableTypes = MBTI_GROUP_MEMBERS[group].filter(isAvailable);
     if (availableTypes.length > 0) {
-      selected.push(availableTypes[Math.floor(Math.random() * availableTypes.length)]);
+      selected.push(pickRandom(availableTypes, random));
     }
   });
 
   // 残りをランダムに選択
   while (selected.length < count) {
-    const remainingTypes = ALL_MBTI_TYPES.filter(type => !selected.includes(type));
+    const remainingTypes = ALL_MBTI_TYPES.filter(isAvailable);
     if (remainingTypes.length === 0) break;
-    selected.push(remainingTypes[Math.floor(Math.random() * remainingTypes.length)]);
+    selected.push(pickRandom(remainingTypes, random));
   }
 
   return selected.slice(0, count);
 }
 
 /**
- * MBTIタイプに対応するエージェント名を取得する関数
+ * 参加者選択指定に従ってMBTIタイプを選択する関数
+ * 明示リスト > グループ割当 > 多様性選択 の順に適用し、指定が満たせない場合はエラー
+ * グループ割当の合計が参加者数を超える場合、割当後に参加者数を満たせない場合もエラー
  */
-export function getAgentName(type: MBTIType): string {
-  const names: Record<MBTIType, string> = {
-    'INTJ': 'INTJ-Architect', 'INTP': 'INTP-Thinker', 'ENTJ': 'ENTJ-Commander', 'ENTP': 'ENTP-Debater',
-    'INFJ': 'INFJ-Advocate', 'INFP': 'INFP-Mediator', 'ENFJ': 'ENFJ-Protagonist', 'ENFP': 'ENFP-Campaigner',
-    'ISTJ': 'ISTJ-Inspector', 'ISFJ': 'ISFJ-Protector', 'ESTJ': 'ESTJ-Executive', 'ESFJ': 'ESFJ-Consul',
-    'ISTP': 'ISTP-Virtuoso', 'ISFP': 'ISFP-Adventurer', 'ESTP': 'ESTP-Entrepreneur', 'ESFP': 'ESFP-Entertainer'
+export function selectParticipantTypes(
+  count: number,
+  selection: ParticipantSelection = {},
+  random: RandomSource = Math.random
+): MBTIType[] {
+  const exclude = selection.exclude ?? [];
+
+  // 1. 明示リスト
+  if (selection.types && selection.types.length > 0) {
+    const types = Array.from(new Set(selection.types));
+    const excludedTypes = types.filter(type => exclude.includes(type));
+    if (excludedTypes.length > 0) {
+      throw new Error(`参加タイプと除外タイプが重複しています: ${excludedTypes.join(', ')}`);
+    }
+    return types;
+  }
+
+  // 2. グループ割当
+  const quotas = Object.entries(selection.groupQuotas ?? {})
+    .filter(([, quota]) => (quota ?? 0) > 0) as Array<[MBTIGroup, number]>;
+
+  if (quotas.length > 0) {
+    const quotaTotal = quotas.reduce((sum, [, quota]) => sum + quota, 0);
+    if (quotaTotal > count) {
+      throw new Error(`グループ割当の合計(${quotaTotal})が参加者数(${count})を超えています`);
+    }
+    const selected: MBTIType[] = [];
+
+    quotas.forEach(([group, quota]) => {
+      const availableTypes = MBTI_GROUP_MEMBERS[group].filter(type => !exclude.includes(type));
+      if (availableTypes.length < quota) {
+        throw new Error(`${group}グループの割当(${quota})が選択可能なタイプ数(${availableTypes.length})を超えています`);
+      }
+      while (selected.filter(type => getGroupFromType(type) === group).length < quota) {
+        selected.push(pickRandom(availableTypes.filter(type => !selected.includes(type)), random));
+      }
+    });
+
+    // 割当のないグループから残りの枠を選択
+    const quotaGroups = quotas.map(([group]) => group);
+    const fillTypes = ALL_MBTI_TYPES.filter(type =>
+      !quotaGroups.includes(getGroupFromType(type)) && !exclude.includes(type)
+    );
+    while (selected.length < count && fillTypes.some(type => !selected.includes(type))) {
+      selected.push(pickRandom(fillTypes.filter(type => !selected.includes(type)), random));
+    }
+    if (selected.length < count) {
+      throw new Error(`グループ割当と除外指定により参加者数(${count})を満たせません（選択可能: ${selected.length}タイプ）`);
+    }
+
+    return selected;
+  }
+
+  // 3. 多様性選択（除外を考慮）
+  const selected = selectDiverseMBTITypes(count, exclude, random);
+  if (selected.length < count) {
+    throw new Error(`除外指定により参加者数(${count})を満たせません（選択可能: ${selected.length}タイプ）`);
+  }
+  return selected;
+}
+
+/**
+ * 指定タイプをエージェント選択から除外した参加者選択指定を作成（人間参加者・カスタムペルソナの枠の確保）
+ * 明示リストに含まれる場合はその枠を確保したタイプが担当する
+ * グループ割当は確保したタイプの分だけ減らし、割当を使い切ったグループの残りのタイプは選択しない
+ */
+export function reserveParticipantTypes(selection: ParticipantSelection = {}, reservedTypes: MBTIType[]): ParticipantSelection {
+  const exclude = [...(selection.exclude ?? []), ...reservedTypes];
+  const groupQuotas = selection.groupQuotas ? { ...selection.groupQuotas } : undefined;
+
+  if (groupQuotas) {
+    reservedTypes.forEach(type => {
+      const group = getGroupFromType(type);
+      const quota = groupQuotas[group] ?? 0;
+      if (quota <= 0) return;
+      groupQuotas[group] = quota - 1;
+      if (quota === 1) {
+        exclude.push(...MBTI_GROUP_MEMBERS[group].filter(member => !exclude.includes(member)));
+      }
+    });
+  }
+
+  return {
+    ...selection,
+    types: selection.types?.filter(type => !reservedTypes.includes(type)),
+    groupQuotas,
+    exclude
   };
-  return names[type];
+}
+
+/**
+ * MBTIタイプに対応する組み込みエージェント名を取得する関数
+ */
+export function getAgentName(type: MBTIType): string {
+  return BUILTIN_PERSONAS[type].name ?? type;
 }
 
 /**
@@ -59,11 +182,15 @@ export function selectNextSpeakerByWeight(
     performanceHistory: number[];
   }>,
   currentTurn: number,
-  phase: string
+  phase: string,
+  random: RandomSource = Math.random,
+  language: DiscussionLanguage = DEFAULT_DISCUSSION_LANGUAGE
 ): {
   selectedParticipant: unknown;
   selectionReason: string;
 } {
+  const text = HELPER_TEXT[language];
+
   // 1. 重み調整（発言間隔を考慮）
   const adjustedWeights = participants.map(p => {
     let weight = p.weight;
@@ -93,19 +220,23 @@ export function selectNextSpeakerByWeight(
 
   // 2. 重み付き確率選択
   const totalWeight = adjustedWeights.reduce((sum, p) => sum + p.adjustedWeight, 0);
-  const random = Math.random() * totalWeight;
+  const threshold = random() * totalWeight;
 
   let cumulativeWeight = 0;
   for (const participant of adjustedWeights) {
     cumulativeWeight += participant.adjustedWeight;
-    if (random <= cumulativeWeight) {
-      const reason = `重み: ${participant.adjustedWeight.toFixed(2)} (基本: ${participant.weight.toFixed(2)}, ` +
-        `間隔: ${currentTurn - participant.lastSpokenTurn}ターン, ` +
-        `平均成績: ${(participant.performanceHistory.reduce((sum, score) => sum + score, 0) / Math.max(participant.performanceHistory.length, 1) * 100).toFixed(0)}%)`;
+    if (threshold <= cumulativeWeight) {
+      const averagePerformance = participant.performanceHistory.reduce((sum, score) => sum + score, 0) /
+        Math.max(participant.performanceHistory.length, 1);
 
       return {
         selectedParticipant: participant,
-        selectionReason: reason
+        selectionReason: text.weightedSelection(
+          participant.adjustedWeight.toFixed(2),
+          participant.weight.toFixed(2),
+          currentTurn - participant.lastSpokenTurn,
+          (averagePerformance * 100).toFixed(0)
+        )
       };
     }
   }
@@ -114,54 +245,178 @@ export function selectNextSpeakerByWeight(
   const fallback = adjustedWeights.reduce((max, p) => p.adjustedWeight > max.adjustedWeight ? p : max);
   return {
     selectedParticipant: fallback,
-    selectionReason: `フォールバック選択（最高重み: ${fallback.adjustedWeight.toFixed(2)}）`
+    selectionReason: text.fallbackSelection(fallback.adjustedWeight.toFixed(2))
   };
 }
 
+// ===========================================
+// 議論言語別の文言（フェーズプロンプト・レポート）
+// ===========================================
+
+interface DiscussionHelperText {
+  topic: (topic: string) => string;
+  recentStatements: string;
+  phaseInstructions: (mbtiType: MBTIType) => Record<string, string>;
+  closing: (mbtiType: MBTIType) => string;
+  strengths: {
+    diversity: string;
+    consistency: string;
+    ethics: string;
+    contentQuality: string;
+    fallback: string;
+  };
+  weaknesses: {
+    convergence: string;
+    participation: string;
+    resolution: string;
+    fallback: string;
+  };
+  reportSummary: (typeCount: number, turnCount: number, score: string) => string;
+  reportAnalysis: (improvement: string, highlights: string) => string;
+  weightedSelection: (adjustedWeight: string, baseWeight: string, turnsSinceLastSpoken: number, averagePerformance: string) => string;
+  fallbackSelection: (adjustedWeight: string) => string;
+}
+
+const HELPER_TEXT: Record<DiscussionLanguage, DiscussionHelperText> = {
+  ja: {
+    topic: topic => `議論トピック: ${topic}`,
+    recentStatements: '最近の発言',
+    phaseInstructions: mbtiType => ({
+      initial: `${mbtiType}として、このトピックについてあなたの独自の視点から初期意見を述べてください。`,
+      interaction: `他のエージェントの意見を踏まえ、建設的な相互作用を行ってください。`,
+      synthesis: `これまでの議論を統合し、より深い洞察を提供してください。`,
+      consensus: `最終的な合意形成に向けて、あなたの結論を述べてください。`
+    }),
+    closing: mbtiType => `${mbtiType}の特性を活かした200-300文字の回答をお願いします。`,
+    strengths: {
+      diversity: '優れた多様性を実現',
+      consistency: '高い論理的一貫性を維持',
+      ethics: '倫理的配慮が徹底',
+      contentQuality: '高品質なコンテンツを生成',
+      fallback: 'バランスの取れた議論を実現'
+    },
+    weaknesses: {
+      convergence: '合意形成の効率性要改善',
+      participation: '参加バランスの最適化が必要',
+      resolution: '解決率の向上が必要',
+      fallback: '特記すべき弱点なし'
+    },
+    reportSummary: (typeCount, turnCount, score) =>
+      `Phase 2完全版: ${typeCount}タイプによる${turnCount}ターンの高度な議論が完了。7次元品質評価で${score}%を達成。`,
+    reportAnalysis: (improvement, highlights) =>
+      `リアルタイム最適化により品質が${improvement}%向上。特に${highlights}の項目で高いスコアを達成。`,
+    weightedSelection: (adjustedWeight, baseWeight, turnsSinceLastSpoken, averagePerformance) =>
+      `重み: ${adjustedWeight} (基本: ${baseWeight}, 間隔: ${turnsSinceLastSpoken}ターン, 平均成績: ${averagePerformance}%)`,
+    fallbackSelection: adjustedWeight => `フォールバック選択（最高重み: ${adjustedWeight}）`
+  },
+  en: {
+    topic: topic => `Discussion topic: ${topic}`,
+    recentStatements: 'Recent statements',
+    phaseInstructions: mbtiType => ({
+      initial: `As an ${mbtiType}, share your initial opinion on this topic from your own distinctive perspective.`,
+      interaction: `Build on the other agents' opinions and engage with them constructively.`,
+      synthesis: `Integrate the discussion so far and offer deeper insights.`,
+      consensus: `State your conclusion with a view to reaching a final consensus.`
+    }),
+    closing: mbtiType => `Please answer in about 80-120 words, drawing on your ${mbtiType} traits. Respond in English.`,
+    strengths: {
+      diversity: 'Achieved excellent diversity',
+      consistency: 'Maintained strong logical consistency',
+      ethics: 'Thorough ethical consideration',
+      contentQuality: 'Produced high-quality content',
+      fallback: 'Achieved a balanced discussion'
+    },
+    weaknesses: {
+      convergence: 'Consensus building could be more efficient',
+      participation: 'Participation balance needs optimization',
+      resolution: 'Resolution rate needs improvement',
+      fallback: 'No notable weaknesses'
+    },
+    reportSummary: (typeCount, turnCount, score) =>
+      `Phase 2 full edition: completed an advanced ${turnCount}-turn discussion among ${typeCount} types, scoring ${score}% on the 7-dimension quality evaluation.`,
+    reportAnalysis: (improvement, highlights) =>
+      `Realtime optimization improved quality by ${improvement}%. Scores were especially high for ${highlights}.`,
+    weightedSelection: (adjustedWeight, baseWeight, turnsSinceLastSpoken, averagePerformance) =>
+      `Weight: ${adjustedWeight} (base: ${baseWeight}, gap: ${turnsSinceLastSpoken} turns, average score: ${averagePerformance}%)`,
+    fallbackSelection: adjustedWeight => `Fallback selection (highest weight: ${adjustedWeight})`
+  }
+};
+
 /**
  * 基本的なフェーズプロンプト生成
  */
-export function createPhasePrompt(phase: string, topic: string, mbtiType: MBTIType, recentStatements: DiscussionStatement[]): string {
+export function createPhasePrompt(
+  phase: string,
+  topic: string,
+  mbtiType: MBTIType,
+  recentStatements: DiscussionStatement[],
+  language: DiscussionLanguage = DEFAULT_DISCUSSION_LANGUAGE
+): string {
+  const text = HELPER_TEXT[language];
   const context = recentStatements.length > 0 ?
-    `\n\n最近の発言:\n${recentStatements.map(s => `${s.mbtiType}: ${s.content}`).join('\n\n')}` : '';
+    `\n\n${text.recentStatements}:\n${recentStatements.map(s => `${s.mbtiType}: ${s.content}`).join('\n\n')}` : '';
 
-  const phaseInstructions: Record<string, string> = {
-    initial: `${mbtiType}として、このトピックについてあなたの独自の視点から初期意見を述べてください。`,
-    interaction: `他のエージェントの意見を踏まえ、建設的な相互作用を行ってください。`,
-    synthesis: `これまでの議論を統合し、より深い洞察を提供してください。`,
-    consensus: `最終的な合意形成に向けて、あなたの結論を述べてください。`
-  };
+  const phaseInstructions = text.phaseInstructions(mbtiType);
 
-  return `議論トピック: ${topic}${context}\n\n${phaseInstructions[phase]}\n\n${mbtiType}の特性を活かした200-300文字の回答をお願いします。`;
+  return `${text.topic(topic)}${context}\n\n${phaseInstructions[phase]}\n\n${text.closing(mbtiType)}`;
 }
 
 /**
  * 品質メトリクスに基づく強みの生成
  */
-export function generateStrengths(metrics: unknown): string[] {
+export function generateStrengths(metrics: unknown, language: DiscussionLanguage = DEFAULT_DISCUSSION_LANGUAGE): string[] {
+  const labels = HELPER_TEXT[language].strengths;
   const strengths = [];
   // 型安全性向上：unknown型の安全なアクセス
   if (typeof metrics === 'object' && metrics !== null) {
     const m = metrics as any;
-    if (m.diversityScore >= 0.8) strengths.push('優れた多様性を実現');
-    if (m.consistencyScore >= 0.85) strengths.push('高い論理的一貫性を維持');
-    if (m.ethicsScore >= 0.9) strengths.push('倫理的配慮が徹底');
-    if (m.contentQualityScore >= 0.85) strengths.push('高品質なコンテンツを生成');
+    if (m.diversityScore >= 0.8) strengths.push(labels.diversity);
+    if (m.consistencyScore >= 0.85) strengths.push(labels.consistency);
+    if (m.ethicsScore >= 0.9) strengths.push(labels.ethics);
+    if (m.contentQualityScore >= 0.85) strengths.push(labels.contentQuality);
   }
-  return strengths.length > 0 ? strengths : ['バランスの取れた議論を実現'];
+  return strengths.length > 0 ? strengths : [labels.fallback];
 }
 
 /**
  * 品質メトリクスに基づく弱点の生成
  */
-export function generateWeaknesses(metrics: unknown): string[] {
+export function generateWeaknesses(metrics: unknown, language: DiscussionLanguage = DEFAULT_DISCUSSION_LANGUAGE): string[] {
+  const labels = HELPER_TEXT[language].weaknesses;
   const weaknesses = [];
   // 型安全性向上：unknown型の安全なアクセス
   if (typeof metrics === 'object' && metrics !== null) {
     const m = metrics as any;
-    if (m.convergenceEfficiency < 0.75) weaknesses.push('合意形成の効率性要改善');
-    if (m.participationBalance < 0.8) weaknesses.push('参加バランスの最適化が必要');
-    if (m.resolutionRate < 0.75) weaknesses.push('解決率の向上が必要');
+    if (m.convergenceEfficiency < 0.75) weaknesses.push(labels.convergence);
+    if (m.participationBalance < 0.8) weaknesses.push(labels.participation);
+    if (m.resolutionRate < 0.75) weaknesses.push(labels.resolution);
   }
-  return weaknesses.length > 0 ? weaknesses : ['特記すべき弱点なし'];
+  return weaknesses.length > 0 ? weaknesses : [labels.fallback];
+}
+
+/**
+ * 最終レポートの概要文を生成
+ */
+export function generateReportSummary(
+  typeCount: number,
+  turnCount: number,
+  comprehensiveScore: number,
+  language: DiscussionLanguage = DEFAULT_DISCUSSION_LANGUAGE
+): string {
+  return HELPER_TEXT[language].reportSummary(typeCount, turnCount, (comprehensiveScore * 100).toFixed(1));
+}
+
+/**
+ * 最終レポートの詳細分析文を生成（0.85以上の項目を高スコア項目として列挙）
+ */
+export function generateReportAnalysis(
+  qualityImprovement: number,
+  metrics: Record<string, number>,
+  language: DiscussionLanguage = DEFAULT_DISCUSSION_LANGUAGE
+): string {
+  const highlights = Object.entries(metrics)
+    .filter(([_, value]) => value >= 0.85)
+    .map(([key, _]) => key)
+    .join(getLanguageProfile(language).listSeparator);
+  return HELPER_TEXT[language].reportAnalysis((qualityImprovement * 100).toFixed(1), highlights);
 }
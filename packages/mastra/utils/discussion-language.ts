@@ -0,0 +1,124 @@
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import { z } from 'zod';
+
+/**
+ * 議論言語
+ * エージェントの指示文・フェーズプロンプト・オーケストレーターのプロンプト・議論総括・保存レポートと
+ * 言語に依存する評価ヒューリスティクス（句読点・接続詞・発言長）をまとめて切り替える
+ * ワークフローが RuntimeContext に設定し、エージェントやオーケストレーター呼び出しはそこから解決する
+ */
+
+// ===========================================
+// 型定義
+// ===========================================
+
+export const DISCUSSION_LANGUAGES = ['ja', 'en'] as const;
+
+export type DiscussionLanguage = typeof DISCUSSION_LANGUAGES[number];
+
+export const discussionLanguageSchema = z.enum(DISCUSSION_LANGUAGES);
+
+export const DEFAULT_DISCUSSION_LANGUAGE: DiscussionLanguage = 'ja';
+
+export interface LanguageProfile {
+  // 表示名（CLI・レポート用）
+  label: string;
+  // 日時フォーマットのロケール
+  locale: string;
+  // 列挙の区切り（「、」/ ", "）
+  listSeparator: string;
+  // 文末（文の分割に使用）
+  sentenceDelimiter: RegExp;
+  // 句読点（構造評価に使用）
+  punctuation: RegExp;
+  // 接続詞・談話標識
+  connectors: RegExp;
+  // 日本語の文字数へ換算する係数（評価の長さ閾値は日本語の文字数で定義）
+  lengthScale: number;
+  // 主題語の抽出から除外する機能語
+  stopWords: string[];
+}
+
+// ===========================================
+// 言語プロファイル
+// ===========================================
+
+export const LANGUAGE_PROFILES: Record<DiscussionLanguage, LanguageProfile> = {
+  ja: {
+    label: '日本語',
+    locale: 'ja-JP',
+    listSeparator: '、',
+    sentenceDelimiter: /[。！？]/,
+    punctuation: /[。！？、]/g,
+    connectors: /そして|しかし|また|さらに|一方/,
+    lengthScale: 1,
+    stopWords: ['です', 'ます', 'だと', 'して', 'ある', 'いる', 'から', 'ため']
+  },
+  en: {
+    label: 'English',
+    locale: 'en-US',
+    listSeparator: ', ',
+    sentenceDelimiter: /[.!?](?:\s|$)/,
+    punctuation: /[.,;:!?]/g,
+    connectors: /\b(?:and|but|however|moreover|furthermore|therefore|meanwhile|also|whereas)\b/i,
+    // 英語は概ね2.5文字で日本語1文字分の情報量（200-300文字 ≒ 80-120語）
+    lengthScale: 0.4,
+    stopWords: [
+      'this', 'that', 'with', 'from', 'have', 'they', 'their', 'there', 'which', 'would',
+      'could', 'should', 'about', 'these', 'those', 'been', 'were', 'will', 'also', 'into'
+    ]
+  }
+};
+
+/**
+ * 言語プロファイルを取得（未指定時は既定言語）
+ */
+export function getLanguageProfile(language: DiscussionLanguage = DEFAULT_DISCUSSION_LANGUAGE): LanguageProfile {
+  return LANGUAGE_PROFILES[language];
+}
+
+/**
+ * 発言長を日本語の文字数に換算（評価器の長さ閾値を言語によらず共通に使うため）
+ */
+export function measureStatementLength(statement: string, language: DiscussionLanguage = DEFAULT_DISCUSSION_LANGUAGE): number {
+  return Math.round(statement.trim().length * getLanguageProfile(language).lengthScale);
+}
+
+/**
+ * 文単位に分割（空文は除外）
+ */
+export function splitSentences(statement: string, language: DiscussionLanguage = DEFAULT_DISCUSSION_LANGUAGE): string[] {
+  return statement.split(getLanguageProfile(language).sentenceDelimiter).filter(sentence => sentence.trim().length > 0);
+}
+
+// ===========================================
+// RuntimeContext 連携
+// ===========================================
+
+/**
+ * RuntimeContext に議論言語を格納するキー（エージェントの指示文・オーケストレーターのプロンプトが参照）
+ */
+export const DISCUSSION_LANGUAGE_CONTEXT_KEY = 'mads:discussion-language';
+
+/**
+ * RuntimeContext に議論言語を設定
+ */
+export function bindDiscussionLanguage(runtimeContext: RuntimeContext, language: DiscussionLanguage): void {
+  runtimeContext.set(DISCUSSION_LANGUAGE_CONTEXT_KEY, language);
+}
+
+/**
+ * RuntimeContext の議論言語を取得（未設定・不明な値は既定言語）
+ */
+export function resolveDiscussionLanguage(runtimeContext?: RuntimeContext): DiscussionLanguage {
+  const parsed = discussionLanguageSchema.safeParse(runtimeContext?.get(DISCUSSION_LANGUAGE_CONTEXT_KEY));
+  return parsed.success ? parsed.data : DEFAULT_DISCUSSION_LANGUAGE;
+}
+
+/**
+ * Agent の instructions に渡す言語別の動的リゾルバーを作成
+ */
+export function createLocalizedInstructions(instructions: Record<DiscussionLanguage, string>) {
+  return ({ runtimeContext }: { runtimeContext: RuntimeContext }) =>
+    instructions[resolveDiscussionLanguage(runtimeContext)];
+}
@@ -0,0 +1,234 @@
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import type { IMastraLogger } from '@mastra/core/logger';
+import { DEFAULT_DISCUSSION_SESSION_ID, getDiscussionSessionId } from './discussion-session';
+
+/**
+ * 構造化ロガー
+ * コアクラス・ワークフローのログをレベル付きで出力し、runId・MBTIタイプ・フェーズ・ターンを構造化フィールドとして付与する
+ * 出力形式: pretty（既定、メッセージのみをコンソールへ）/ json（1行1レコードの JSON Lines）/ mastra（Mastra のロガーへ委譲）
+ */
+
+// ===========================================
+// 型定義
+// ===========================================
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'silent'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+export type LogRecordLevel = Exclude<LogLevel, 'silent'>;
+
+export const LOG_FORMATS = ['pretty', 'json', 'mastra'] as const;
+export type LogFormat = typeof LOG_FORMATS[number];
+
+/**
+ * 構造化フィールド（runId・mbtiType・phase・turn は議論の相関に使う共通キー）
+ */
+export interface LogFields {
+  runId?: string;
+  component?: string;
+  mbtiType?: string;
+  // フェーズ番号（フェーズプラン内の順序）と種類（initial / divergence / ...）
+  phase?: number;
+  phaseType?: string;
+  turn?: number;
+  error?: unknown;
+  [key: string]: unknown;
+}
+
+export interface LogRecord {
+  level: LogRecordLevel;
+  time: string;
+  msg: string;
+  fields: LogFields;
+}
+
+export type LogSink = (record: LogRecord) => void;
+
+export interface LoggingOptions {
+  level: LogLevel;
+  format: LogFormat;
+}
+
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Infinity
+};
+
+// ===========================================
+// 出力先
+// ===========================================
+
+function serializeError(error: unknown): unknown {
+  return error instanceof Error
+    ? { name: error.name, message: error.message, stack: error.stack }
+    : error;
+}
+
+function serializeFields(fields: LogFields): LogFields {
+  return fields.error === undefined ? fields : { ...fields, error: serializeError(fields.error) };
+}
+
+/**
+ * メッセージのみをコンソールへ出力（CLI 向け、エラーは従来どおり2番目の引数として表示）
+ */
+export const prettyLogSink: LogSink = ({ level, msg, fields }) => {
+  const write = level === 'error' ? console.error : level === 'warn' ? console.warn : console.log;
+  if (fields.error !== undefined) {
+    write(msg, fields.error);
+  } else {
+    write(msg);
+  }
+};
+
+/**
+ * 1行1レコードの JSON Lines を標準出力へ（サーバーログの機械処理向け）
+ */
+export const jsonLogSink: LogSink = ({ level, time, msg, fields }) => {
+  process.stdout.write(`${JSON.stringify({ time, level, msg, ...serializeFields(fields) })}\n`);
+};
+
+/**
+ * Mastra のロガー（PinoLogger など）へ委譲
+ */
+export function createMastraLogSink(logger: IMastraLogger): LogSink {
+  return ({ level, msg, fields }) => logger[level](msg, serializeFields(fields));
+}
+
+// ===========================================
+// ロギング設定
+// ===========================================
+
+let loggingOptions: LoggingOptions | undefined;
+let logSink: LogSink | undefined;
+let mastraLogSink: LogSink | undefined;
+
+/**
+ * 環境変数からロギング設定を解決
+ * M_ADS_LOG_LEVEL=debug|info|warn|error|silent（既定: info）, M_ADS_LOG_FORMAT=pretty|json|mastra（既定: pretty）
+ */
+export function resolveLoggingOptions(env: NodeJS.ProcessEnv = process.env): LoggingOptions {
+  const level = env.M_ADS_LOG_LEVEL ?? 'info';
+  const format = env.M_ADS_LOG_FORMAT ?? 'pretty';
+  if (!(LOG_LEVELS as readonly string[]).includes(level)) {
+    console.warn(`⚠️ M_ADS_LOG_LEVEL が不正です（info を使用）: ${level}（${LOG_LEVELS.join('/')}）`);
+  }
+  if (!(LOG_FORMATS as readonly string[]).includes(format)) {
+    console.warn(`⚠️ M_ADS_LOG_FORMAT が不正です（pretty を使用）: ${format}（${LOG_FORMATS.join('/')}）`);
+  }
+
+  return {
+    level: (LOG_LEVELS as readonly string[]).includes(level) ? level as LogLevel : 'info',
+    format: (LOG_FORMATS as readonly string[]).includes(format) ? format as LogFormat : 'pretty'
+  };
+}
+
+function resolveSink(format: LogFormat): LogSink {
+  if (format === 'json') return jsonLogSink;
+  if (format === 'mastra') return mastraLogSink ?? jsonLogSink;
+  return prettyLogSink;
+}
+
+/**
+ * ログレベル・出力形式を設定（作成済みのロガーにも即時反映）
+ */
+export function configureLogging(options: Partial<LoggingOptions> = {}): LoggingOptions {
+  loggingOptions = { ...(loggingOptions ?? resolveLoggingOptions()), ...options };
+  logSink = resolveSink(loggingOptions.format);
+  return loggingOptions;
+}
+
+/**
+ * 現在のロギング設定を取得（初回は環境変数の設定で初期化）
+ */
+export function getLoggingOptions(): LoggingOptions {
+  return loggingOptions ?? configureLogging();
+}
+
+/**
+ * 現在のログ出力先を取得（未設定の場合は現在の設定から解決）
+ */
+function getLogSink(): LogSink {
+  if (!logSink) {
+    logSink = resolveSink(getLoggingOptions().format);
+  }
+  return logSink;
+}
+
+/**
+ * mastra 形式で使う Mastra のロガーを登録（Mastra インスタンスの作成時に呼ぶ）
+ */
+export function registerMastraLogger(logger: IMastraLogger): void {
+  mastraLogSink = createMastraLogSink(logger);
+  if (loggingOptions?.format === 'mastra') {
+    logSink = mastraLogSink;
+  }
+}
+
+// ===========================================
+// ロガー
+// ===========================================
+
+/**
+ * 構造化ロガー（child でフィールドを引き継いだロガーを作成）
+ * レベル・出力先は出力時点の設定を参照するため、CLI 引数による設定変更は作成済みのロガーにも反映される
+ */
+export class DiscussionLogger {
+  constructor(readonly fields: LogFields = {}) {}
+
+  child(fields: LogFields): DiscussionLogger {
+    return new DiscussionLogger({ ...this.fields, ...fields });
+  }
+
+  isLevelEnabled(level: LogRecordLevel): boolean {
+    return LEVEL_PRIORITY[level] >= LEVEL_PRIORITY[getLoggingOptions().level];
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  private log(level: LogRecordLevel, message: string, fields: LogFields = {}): void {
+    if (!this.isLevelEnabled(level)) return;
+
+    const record: LogRecord = {
+      level,
+      time: new Date().toISOString(),
+      msg: message,
+      fields: { ...this.fields, ...fields }
+    };
+    try {
+      getLogSink()(record);
+    } catch (error) {
+      console.error('❌ ログ出力エラー:', error);
+    }
+  }
+}
+
+/**
+ * ルートロガー（コアクラスの既定のロガー）
+ */
+export const discussionLogger = new DiscussionLogger();
+
+/**
+ * コンポーネントのロガーを作成（RuntimeContext の議論セッションがあれば runId を付与）
+ */
+export function createComponentLogger(component: string, runtimeContext?: RuntimeContext): DiscussionLogger {
+  const sessionId = getDiscussionSessionId(runtimeContext);
+  return discussionLogger.child(sessionId === DEFAULT_DISCUSSION_SESSION_ID
+    ? { component }
+    : { runId: sessionId, component });
+}
@@ -0,0 +1,139 @@
+import type { DiscussionPhase } from '../types/feedback-system-types';
+import type { OrchestratorInterventionType } from '../types/mbti-types';
+import type { DebateSide } from './debate-mode';
+import { discussionLogger } from './discussion-logger';
+
+/**
+ * 議論進行イベント配信
+ * ワークフロー実行中のターン・重み変化・品質スコア・フェーズ遷移を
+ * runId 単位で購読できるようにする（SSE配信などで利用）
+ */
+
+// ===========================================
+// 型定義
+// ===========================================
+
+/**
+ * 会話フローの1ターン（ワークフロー出力の conversationFlow 要素）
+ */
+export interface ConversationFlowTurn {
+  turnNumber: number;
+  speakerAgentId: string;
+  speakerMbtiType: string;
+  // 人間参加者の発言は speakerKind: 'human' と表示名を持つ（未指定はエージェント）
+  // オーケストレーター介入は speakerKind: 'orchestrator' と介入種別を持つ（採点対象外）
+  speakerKind?: 'agent' | 'human' | 'orchestrator';
+  speakerName?: string;
+  interventionType?: OrchestratorInterventionType;
+  statement: string;
+  timestamp: string;
+  confidence: number;
+  relevance: number;
+  dynamicWeight: number;
+  qualityContribution: number;
+  realtimeOptimization: {
+    weightAdjustment: number;
+    graphOptimization: boolean;
+    qualityImprovement: number;
+  };
+  sevenDimensionEvaluation?: {
+    performance: number;
+    psychological: number;
+    externalAlignment: number;
+    internalConsistency: number;
+    socialDecisionMaking: number;
+    contentQuality: number;
+    ethics: number;
+    overallQuality: number;
+  };
+  responseToAgent?: string;
+  // ディベートモードの発言者の陣営と反論先のターン番号（反論先の発言者は responseToAgent）
+  debateSide?: DebateSide;
+  rebuttalTo?: number;
+  // 発言したフェーズの種類（再開時の再採点で使用、旧形式の保存データでは未記録）
+  phaseType?: DiscussionPhase;
+}
+
+/**
+ * 議論進行イベント
+ */
+export type DiscussionProgressEvent =
+  | {
+      type: 'phase';
+      phase: number;
+      totalPhases: number;
+      phaseType: DiscussionPhase;
+      phaseName: string;
+      turnNumber: number;
+    }
+  | {
+      type: 'turn';
+      turn: ConversationFlowTurn;
+    }
+  | {
+      type: 'weights';
+      turnNumber: number;
+      reason: 'optimization' | 'performance';
+      weights: Record<string, number>;
+    }
+  | {
+      type: 'quality';
+      turnNumber: number;
+      mbtiType: string;
+      scores: {
+        performance: number;
+        psychological: number;
+        contentQuality: number;
+        mbtiAlignment: number;
+        overallScore: number;
+      };
+    };
+
+export type DiscussionProgressListener = (event: DiscussionProgressEvent) => void;
+
+// ===========================================
+// 購読・配信
+// ===========================================
+
+const progressListeners = new Map<string, Set<DiscussionProgressListener>>();
+
+/**
+ * 指定runの進行イベントを購読（戻り値で購読解除）
+ */
+export function subscribeDiscussionProgress(
+  runId: string,
+  listener: DiscussionProgressListener
+): () => void {
+  let listeners = progressListeners.get(runId);
+  if (!listeners) {
+    listeners = new Set();
+    progressListeners.set(runId, listeners);
+  }
+  listeners.add(listener);
+
+  return () => {
+    const listeners = progressListeners.get(runId);
+    if (!listeners) return;
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      progressListeners.delete(runId);
+    }
+  };
+}
+
+/**
+ * 進行イベントを配信（購読者がいなければ何もしない）
+ */
+export function emitDiscussionProgress(runId: string, event: DiscussionProgressEvent): void {
+  const listeners = progressListeners.get(runId);
+  if (!listeners) return;
+
+  listeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      // 購読者側のエラーで議論を止めない
+      discussionLogger.child({ runId, component: 'DiscussionProgress' }).warn('⚠️ 進行イベント購読者でエラー:', { error });
+    }
+  });
+}
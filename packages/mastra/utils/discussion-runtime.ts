@@ -0,0 +1,202 @@
+import { RealtimeFeedbackManager } from '../core/realtime-feedback-manager';
+import { HistoryManager } from '../core/history/history-manager';
+import {
+  getHistoryStoreForMode,
+  type HistoryPersistenceMode,
+  type HistorySnapshotReference
+} from '../core/history/history-store';
+import { FeedbackConfigurationBuilder } from '../config/feedback-configuration';
+import type { FeedbackConfiguration, LLMJudgeSettings } from '../types/feedback-system-types';
+import { RealtimeOptimizer, createRealtimeOptimizer } from './realtime-optimizer';
+import { createSeededRandom, type RandomSource } from './seeded-random';
+import { discussionSessionRegistry } from './discussion-session';
+import { LLMUsageTracker, type LLMUsageRecord } from './llm-usage';
+import { DiscussionTracer } from './discussion-tracing';
+import { discussionLogger, type DiscussionLogger } from './discussion-logger';
+
+/**
+ * 議論実行ランタイム
+ * ワークフローの各ステップ間で受け渡せない（シリアライズできない）実行時オブジェクトを
+ * runId の議論セッションに保持する。ステップ間の議論状態そのものはステップの入出力で受け渡す
+ */
+
+// ===========================================
+// 型定義
+// ===========================================
+
+export interface DiscussionRuntime {
+  random: RandomSource;
+  realtimeFeedbackManager: RealtimeFeedbackManager;
+  // 統合フィードバックシステムが記録するエージェント別の評価・学習履歴
+  historyManager: HistoryManager;
+  realtimeOptimizer: RealtimeOptimizer;
+  // モデル呼び出しのトークン数・レイテンシ・見積もりコスト
+  usageTracker: LLMUsageTracker;
+  // ターン・評価・最適化・総括のスパン（runId のトレース）
+  tracer: DiscussionTracer;
+  // runId を付与した構造化ロガー（コアクラスにも子ロガーとして渡す）
+  logger: DiscussionLogger;
+  // 読み込んだ学習履歴スナップショット（実行メタデータに記録）
+  history: HistorySnapshotReference;
+}
+
+export interface DiscussionRuntimeOptions {
+  seed: number;
+  qualityThreshold: number;
+  enableRealtimeOptimization: boolean;
+  // 完了済みターン数（ランタイム再生成時の乱数列の派生に使用）
+  completedTurns?: number;
+  // 審判モデル評価器の設定（未指定時はヒューリスティック評価器のみ）
+  llmJudge?: LLMJudgeSettings;
+  // 記録済みの使用量（ランタイム再生成時に引き継ぐ）
+  usage?: LLMUsageRecord[];
+  // 学習履歴の永続化モード（未指定時は persistent）
+  historyMode?: HistoryPersistenceMode;
+}
+
+// ===========================================
+// ランタイム管理
+// ===========================================
+
+/**
+ * 統合フィードバックシステムを作成（履歴マネージャーはセッションのランタイムから参照できるよう外部で生成）
+ * 履歴ストアが設定されていれば、永続化モードに応じて学習履歴を議論をまたいで読み込み・保存する
+ */
+function createFeedbackManager(
+  config: FeedbackConfiguration,
+  random: RandomSource,
+  usageTracker: LLMUsageTracker,
+  logger: DiscussionLogger,
+  historyMode: HistoryPersistenceMode
+): RealtimeFeedbackManager {
+  const historyManager = new HistoryManager(
+    config.adaptiveSettings,
+    getHistoryStoreForMode(historyMode),
+    logger.child({ component: 'HistoryManager' })
+  );
+  return new RealtimeFeedbackManager(config, random, historyManager, usageTracker, logger);
+}
+
+/**
+ * 保存済みの学習履歴を読み込み、読み込んだスナップショットを記録（失敗時は空の履歴で継続）
+ */
+async function loadPersistedHistory(
+  historyManager: HistoryManager,
+  mode: HistoryPersistenceMode,
+  logger: DiscussionLogger
+): Promise<HistorySnapshotReference> {
+  try {
+    const snapshot = await historyManager.loadPersistedHistory();
+    return { mode, savedAt: snapshot?.savedAt ?? null, evaluations: snapshot?.globalHistory.length ?? 0 };
+  } catch (error) {
+    logger.warn('⚠️ 学習履歴の読み込みに失敗しました（空の履歴で継続）:', { error });
+    return { mode, savedAt: null, evaluations: 0 };
+  }
+}
+
+/**
+ * 審判モデル評価器の設定を適用（プリセット適用後に呼び出し、他の評価器の重みを縮小する）
+ */
+function withLLMJudge(builder: FeedbackConfigurationBuilder, settings?: LLMJudgeSettings): FeedbackConfigurationBuilder {
+  return settings ? builder.withLLMJudge(settings) : builder;
+}
+
+/**
+ * 統合フィードバックシステムを初期化（失敗時はより緩い設定で再試行）
+ */
+async function initializeFeedbackManager(
+  options: DiscussionRuntimeOptions,
+  random: RandomSource,
+  usageTracker: LLMUsageTracker,
+  logger: DiscussionLogger
+): Promise<RealtimeFeedbackManager> {
+  logger.info('🎯 統合フィードバックシステムを初期化中...');
+  const feedbackConfig = withLLMJudge(FeedbackConfigurationBuilder
+    .create()
+    .applyBalancedPreset()
+    .withQualityThresholds({
+      overallMinimum: Math.max(options.qualityThreshold * 0.8, 0.6), // 健全性チェック用に閾値を緩和
+      interventionThreshold: 0.5 // 介入閾値も緩和
+    })
+    .enableRealtimeOptimization(options.enableRealtimeOptimization), options.llmJudge)
+    .build();
+
+  const historyMode = options.historyMode ?? 'persistent';
+  const realtimeFeedbackManager = createFeedbackManager(feedbackConfig, random, usageTracker, logger, historyMode);
+
+  try {
+    await realtimeFeedbackManager.initialize();
+    logger.info('✅ 統合フィードバックシステム初期化完了');
+    return realtimeFeedbackManager;
+  } catch (error) {
+    logger.warn('⚠️ 統合フィードバックシステム初期化で警告:', { error });
+    logger.info('🔄 より緩い設定で再試行中...');
+    // 初期化途中で開始した監視タイマーを停止
+    await realtimeFeedbackManager.shutdown();
+
+    // より緩い設定で再試行
+    const fallbackConfig = withLLMJudge(FeedbackConfigurationBuilder
+      .create()
+      .applyEfficiencyPreset() // より緩い効率重視プリセット
+      .withQualityThresholds({
+        overallMinimum: 0.6,
+        interventionThreshold: 0.4
+      })
+      .enableRealtimeOptimization(options.enableRealtimeOptimization), options.llmJudge)
+      .build();
+
+    const fallbackManager = createFeedbackManager(fallbackConfig, random, usageTracker, logger, historyMode);
+    await fallbackManager.initialize();
+    logger.info('✅ フォールバック設定で統合フィードバックシステム初期化完了');
+    return fallbackManager;
+  }
+}
+
+/**
+ * 議論ランタイムを作成して runId のセッションに登録（既存のランタイムは停止して置き換え）
+ */
+export async function createDiscussionRuntime(
+  runId: string,
+  options: DiscussionRuntimeOptions
+): Promise<DiscussionRuntime> {
+  // 再生成時はシードと完了ターン数から乱数列を派生（同一プロセスでの連続実行とは異なる乱数列になる）
+  const random = createSeededRandom(options.completedTurns ? options.seed + options.completedTurns : options.seed);
+  const usageTracker = new LLMUsageTracker(options.usage);
+  const logger = discussionLogger.child({ runId });
+  const historyMode = options.historyMode ?? 'persistent';
+  const realtimeFeedbackManager = await initializeFeedbackManager(options, random, usageTracker, logger);
+  const runtime: DiscussionRuntime = {
+    random,
+    realtimeFeedbackManager,
+    historyManager: realtimeFeedbackManager.getHistoryManager(),
+    realtimeOptimizer: createRealtimeOptimizer(),
+    usageTracker,
+    tracer: new DiscussionTracer(runId, { 'mads.seed': options.seed, 'mads.resumed_turns': options.completedTurns ?? 0 }),
+    logger,
+    history: { mode: historyMode, savedAt: null, evaluations: 0 }
+  };
+
+  // 既存ランタイムの学習履歴を保存してから読み込む
+  await discussionSessionRegistry.replaceRuntime(runId, runtime);
+  runtime.history = await loadPersistedHistory(runtime.historyManager, historyMode, logger);
+  return runtime;
+}
+
+/**
+ * runId の議論ランタイムを取得
+ * ステップの再実行・別プロセスでの再開などで未登録の場合は再生成する
+ */
+export async function getDiscussionRuntime(
+  runId: string,
+  options: DiscussionRuntimeOptions
+): Promise<DiscussionRuntime> {
+  return discussionSessionRegistry.get(runId)?.runtime ?? createDiscussionRuntime(runId, options);
+}
+
+/**
+ * runId の議論セッション（ランタイム・グラフ・相互作用履歴）を解放
+ * 議論で追加された学習履歴は解放時に履歴ストアへ保存される
+ */
+export async function releaseDiscussionRuntime(runId: string): Promise<void> {
+  await discussionSessionRegistry.release(runId);
+}
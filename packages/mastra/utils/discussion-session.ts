@@ -0,0 +1,182 @@
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import type { DiscussionGraph } from './graph-utils';
+import type { GraphTopologyOptimizer } from './graph-topology-optimizer';
+import type { RandomSource } from './seeded-random';
+import type { DiscussionRuntime } from './discussion-runtime';
+
+/**
+ * 議論セッションレジストリ
+ * 同一プロセスで並行実行される議論同士がグラフ・重み・履歴を上書きしないよう、
+ * 議論ごとの実行時状態を runId（セッションID）単位で保持する。
+ * ワークフローは runId から、ツールは RuntimeContext に設定されたセッションIDから解決し、
+ * 議論の終了時に release で破棄する
+ */
+
+// ===========================================
+// 型定義
+// ===========================================
+
+export interface DiscussionSession {
+  id: string;
+  createdAt: Date;
+  // グラフ管理ツールの状態（initializeGraph で作成）
+  graph: DiscussionGraph | null;
+  topologyOptimizer: GraphTopologyOptimizer | null;
+  graphRandom: RandomSource;
+  // 重み調整ツールの相互作用履歴（nodeId → 発言回数）
+  interactionHistory: Map<string, number>;
+  // 議論ランタイム（統合フィードバック・履歴管理・最適化エンジン・乱数）
+  runtime?: DiscussionRuntime;
+}
+
+/**
+ * RuntimeContext にセッションIDを格納するキー（エージェント経由で呼ばれるツールが参照）
+ */
+export const DISCUSSION_SESSION_CONTEXT_KEY = 'mads:discussion-session-id';
+
+/**
+ * セッションID未設定時（ツールの単体実行など）に使う共有セッション
+ */
+export const DEFAULT_DISCUSSION_SESSION_ID = 'default';
+
+/**
+ * セッション破棄時に呼ばれるリスナー（セッション単位のキャッシュを持つモジュールが登録）
+ */
+export type DiscussionSessionReleaseListener = (sessionId: string) => void;
+
+// ===========================================
+// レジストリ
+// ===========================================
+
+export class DiscussionSessionRegistry {
+  private sessions = new Map<string, DiscussionSession>();
+  private releaseListeners = new Set<DiscussionSessionReleaseListener>();
+
+  /**
+   * セッション破棄時のリスナーを登録（戻り値で登録解除）
+   */
+  onRelease(listener: DiscussionSessionReleaseListener): () => void {
+    this.releaseListeners.add(listener);
+    return () => {
+      this.releaseListeners.delete(listener);
+    };
+  }
+
+  get(id: string): DiscussionSession | undefined {
+    return this.sessions.get(id);
+  }
+
+  /**
+   * セッションを取得（未登録なら作成）
+   */
+  getOrCreate(id: string): DiscussionSession {
+    let session = this.sessions.get(id);
+    if (!session) {
+      session = {
+        id,
+        createdAt: new Date(),
+        graph: null,
+        topologyOptimizer: null,
+        graphRandom: Math.random,
+        interactionHistory: new Map()
+      };
+      this.sessions.set(id, session);
+    }
+    return session;
+  }
+
+  has(id: string): boolean {
+    return this.sessions.has(id);
+  }
+
+  /**
+   * 登録中のセッション一覧
+   */
+  list(): Array<{ id: string; createdAt: Date; hasRuntime: boolean }> {
+    return Array.from(this.sessions.values()).map(session => ({
+      id: session.id,
+      createdAt: session.createdAt,
+      hasRuntime: session.runtime !== undefined
+    }));
+  }
+
+  /**
+   * セッションのランタイムを置き換え（既存のランタイムは学習履歴を保存して停止）
+   */
+  async replaceRuntime(id: string, runtime: DiscussionRuntime): Promise<void> {
+    const session = this.getOrCreate(id);
+    const previous = session.runtime;
+    session.runtime = runtime;
+    if (previous) {
+      await this.disposeRuntime(id, previous);
+    }
+  }
+
+  /**
+   * セッションを破棄（未保存の学習履歴を保存し、統合フィードバックシステムの監視タイマーも停止）
+   */
+  async release(id: string): Promise<boolean> {
+    this.releaseListeners.forEach(listener => listener(id));
+
+    const session = this.sessions.get(id);
+    if (!session) return false;
+
+    this.sessions.delete(id);
+    if (session.runtime) {
+      await this.disposeRuntime(id, session.runtime);
+    }
+    return true;
+  }
+
+  /**
+   * 全セッションを破棄
+   */
+  async releaseAll(): Promise<void> {
+    await Promise.all(Array.from(this.sessions.keys()).map(id => this.release(id)));
+  }
+
+  private async disposeRuntime(id: string, runtime: DiscussionRuntime): Promise<void> {
+    try {
+      await runtime.historyManager.persistHistory();
+    } catch (error) {
+      runtime.logger.warn(`⚠️ 学習履歴の保存に失敗しました（セッション: ${id}）:`, { error });
+    }
+    await runtime.realtimeFeedbackManager.shutdown();
+    await runtime.tracer.end();
+  }
+}
+
+export const discussionSessionRegistry = new DiscussionSessionRegistry();
+
+// ===========================================
+// RuntimeContext 連携
+// ===========================================
+
+/**
+ * RuntimeContext にセッションIDを設定（ステップから呼ぶエージェント・ツールが同じセッションを解決する）
+ */
+export function bindDiscussionSession(runtimeContext: RuntimeContext, sessionId: string): void {
+  runtimeContext.set(DISCUSSION_SESSION_CONTEXT_KEY, sessionId);
+}
+
+/**
+ * RuntimeContext からセッションIDを取得（未設定時は共有セッション）
+ */
+export function getDiscussionSessionId(runtimeContext?: RuntimeContext): string {
+  const sessionId = runtimeContext?.get(DISCUSSION_SESSION_CONTEXT_KEY);
+  return typeof sessionId === 'string' && sessionId.length > 0 ? sessionId : DEFAULT_DISCUSSION_SESSION_ID;
+}
+
+/**
+ * RuntimeContext のセッションを解決（未登録なら作成）
+ */
+export function resolveDiscussionSession(runtimeContext?: RuntimeContext): DiscussionSession {
+  return discussionSessionRegistry.getOrCreate(getDiscussionSessionId(runtimeContext));
+}
+
+/**
+ * 議論セッションを破棄（議論の完了・失敗・中止時に呼ぶ）
+ */
+export function releaseDiscussionSession(sessionId: string): Promise<boolean> {
+  return discussionSessionRegistry.release(sessionId);
+}
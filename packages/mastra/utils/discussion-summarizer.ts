@@ -1,9 +1,18 @@
+import type { RuntimeContext } from '@mastra/core/runtime-context';
 import type { DiscussionStatement, MBTIType } from '../types/mbti-types';
 import {
   analyzeParticipationPattern,
   analyzeConfidenceProgression,
   analyzeInteractionDensity
 } from './performance-evaluator';
+import {
+  getLanguageProfile,
+  resolveDiscussionLanguage,
+  type DiscussionLanguage
+} from './discussion-language';
+import { recordLLMUsage } from './llm-usage';
+import { traceDiscussionSpan } from './discussion-tracing';
+import { createComponentLogger } from './discussion-logger';
 
 /**
  * 議論総括の型定義
@@ -21,47 +30,64 @@ export interface DiscussionSummary {
 /**
  * 議論総括生成機能（LLMベース要約）
  * オーケストレーターが利用可能な場合はLLMベース、そうでなければフォールバック分析を使用
+ * プロンプト・フォールバック文言は RuntimeContext の議論言語に従う
  */
 export async function generateDiscussionSummary(
   statements: DiscussionStatement[],
   topic: string,
   participantTypes: MBTIType[],
   qualityMetrics: any,
-  orchestrator: any
+  orchestrator: any,
+  runtimeContext?: RuntimeContext
 ): Promise<DiscussionSummary> {
+  const language = resolveDiscussionLanguage(runtimeContext);
+
   if (!orchestrator) {
     // フォールバック：アルゴリズム的な分析
-    return generateFallbackSummary(statements, topic, participantTypes, qualityMetrics);
+    return generateFallbackSummary(statements, topic, participantTypes, qualityMetrics, language);
   }
 
+  const prompts = SUMMARY_PROMPTS[language];
+  // 🔭 セクションごとにトレースのスパンを記録
+  const section = <T>(name: string, run: () => Promise<T>) =>
+    traceDiscussionSpan(runtimeContext, 'mads.summary.section', { 'mads.summary.section': name }, run);
+
   try {
     // 🔍 主要テーマの抽出（LLMベース）
-    const keyThemes = await extractKeyThemesWithLLM(statements, topic, orchestrator);
+    const keyThemes = await section('keyThemes', () =>
+      extractKeyThemesWithLLM(statements, topic, orchestrator, prompts, runtimeContext));
 
     // 📊 議論進展の分析（LLMベース）
-    const progressAnalysis = await analyzeDiscussionProgressWithLLM(statements, orchestrator);
+    const progressAnalysis = await section('progressAnalysis', () =>
+      analyzeDiscussionProgressWithLLM(statements, orchestrator, prompts, runtimeContext));
 
     // 🎭 MBTIタイプ別貢献分析（LLMベース）
-    const mbtiContributions = await analyzeMBTIContributionsWithLLM(statements, participantTypes, orchestrator);
+    const mbtiContributions = await section('mbtiContributions', () =>
+      analyzeMBTIContributionsWithLLM(statements, participantTypes, orchestrator, prompts, runtimeContext));
 
     // 🤝 合意形成の分析（LLMベース）
-    const consensus = await analyzeConsensusBuildingWithLLM(statements, orchestrator);
+    const consensus = await section('consensus', () =>
+      analyzeConsensusBuildingWithLLM(statements, orchestrator, prompts, runtimeContext));
 
     // 💡 洞察の抽出（LLMベース）
-    const insights = await extractKeyInsightsWithLLM(statements, topic, qualityMetrics, orchestrator);
+    const insights = await section('insights', () =>
+      extractKeyInsightsWithLLM(statements, topic, qualityMetrics, orchestrator, prompts, runtimeContext));
 
     // 🔄 プロセス特徴の分析（LLMベース）
-    const processCharacteristics = await analyzeProcessCharacteristicsWithLLM(statements, participantTypes, orchestrator);
+    const processCharacteristics = await section('processCharacteristics', () =>
+      analyzeProcessCharacteristicsWithLLM(statements, participantTypes, orchestrator, prompts, runtimeContext));
 
     // 📝 総合概要の生成（LLMベース）
-    const overview = await generateOverviewWithLLM(
+    const overview = await section('overview', () => generateOverviewWithLLM(
       topic,
       statements,
       participantTypes,
       qualityMetrics,
       keyThemes,
-      orchestrator
-    );
+      orchestrator,
+      prompts,
+      runtimeContext
+    ));
 
     return {
       overview,
@@ -73,39 +99,53 @@ export async function generateDiscussionSummary(
       processCharacteristics
     };
   } catch (error) {
-    console.warn(`⚠️ LLMベース要約でエラーが発生、フォールバックを使用: ${error}`);
-    return generateFallbackSummary(statements, topic, participantTypes, qualityMetrics);
+    createComponentLogger('DiscussionSummarizer', runtimeContext)
+      .warn('⚠️ LLMベース要約でエラーが発生、フォールバックを使用:', { error });
+    return generateFallbackSummary(statements, topic, participantTypes, qualityMetrics, language);
   }
 }
 
-// ========== LLMベース分析関数群 ==========
+// ========== 議論言語別のプロンプト ==========
 
-/**
- * LLMベース総合概要生成
- */
-async function generateOverviewWithLLM(
-  topic: string,
-  statements: DiscussionStatement[],
-  participantTypes: MBTIType[],
-  qualityMetrics: any,
-  keyThemes: string[],
-  orchestrator: any
-): Promise<string> {
-  const conversationSample = statements.slice(0, 6).map((s, i) =>
-    `${i + 1}. ${s.mbtiType}: ${s.content.substring(0, 150)}...`
-  ).join('\n');
+interface SummaryPrompt {
+  system: string;
+  user: string;
+}
+
+interface SummaryPrompts {
+  overview: (params: {
+    topic: string;
+    participants: string;
+    participantCount: number;
+    statementCount: number;
+    keyThemes: string[];
+    diversity: string;
+    consistency: string;
+    conversationSample: string;
+  }) => SummaryPrompt;
+  keyThemes: (topic: string, content: string) => SummaryPrompt;
+  progress: (early: string, middle: string, late: string) => SummaryPrompt;
+  contribution: (type: MBTIType, samples: string, count: number) => SummaryPrompt;
+  consensus: (sampleContent: string) => SummaryPrompt;
+  insights: (topic: string, diversity: string, consistency: string, highlights: string) => SummaryPrompt;
+  characteristics: (participants: string, statementCount: number, averageConfidence: string) => SummaryPrompt;
+}
 
-  const prompt = `
+const SUMMARY_PROMPTS: Record<DiscussionLanguage, SummaryPrompts> = {
+  ja: {
+    overview: params => ({
+      system: 'あなたは議論の要約を専門とするアナリストです。簡潔で洞察に富んだ要約を提供してください。',
+      user: `
 以下のMBTI議論の総合概要を自然な日本語で200-250文字で要約してください。
 
-**議論トピック**: ${topic}
-**参加者**: ${participantTypes.join(', ')} (計${participantTypes.length}名)
-**総発言数**: ${statements.length}回
-**主要テーマ**: ${keyThemes.join('、')}
-**品質スコア**: ${(qualityMetrics.diversityScore * 100).toFixed(0)}%（多様性）、${(qualityMetrics.consistencyScore * 100).toFixed(0)}%（一貫性）
+**議論トピック**: ${params.topic}
+**参加者**: ${params.participants} (計${params.participantCount}名)
+**総発言数**: ${params.statementCount}回
+**主要テーマ**: ${params.keyThemes.join('、')}
+**品質スコア**: ${params.diversity}%（多様性）、${params.consistency}%（一貫性）
 
 **議論サンプル**:
-${conversationSample}
+${params.conversationSample}
 
 以下の観点を含めて要約してください：
 - 誰の発言が特徴的だったか
@@ -114,20 +154,241 @@ ${conversationSample}
 - 到達した結論や合意内容
 
 **回答は200-250文字の自然な日本語でお願いします。**
-`;
+`
+    }),
+    keyThemes: (topic, content) => ({
+      system: 'あなたは議論分析の専門家です。議論から重要なテーマを的確に抽出してください。',
+      user: `
+以下の議論内容から主要なテーマを3-5個抽出してください。
+
+**トピック**: ${topic}
+
+**議論内容**: ${content}...
+
+各テーマは1-2単語で簡潔に表現し、カンマ区切りで回答してください。
+例：効率性, 創造性, 協調性, 技術革新, 人間性
+`
+    }),
+    progress: (early, middle, late) => ({
+      system: 'あなたは議論の流れを分析する専門家です。議論の進展パターンを的確に分析してください。',
+      user: `
+以下の議論の進展パターンを分析し、100-150文字で要約してください。
+
+**序盤の議論**: ${early}
+
+**中盤の議論**: ${middle}
+
+**終盤の議論**: ${late}
+
+議論がどのように発展・深化したかを分析してください。
+`
+    }),
+    contribution: (type, samples, count) => ({
+      system: 'あなたはMBTI分析の専門家です。各タイプの特徴的な貢献を的確に分析してください。',
+      user: `
+${type}タイプの議論での貢献内容を50-80文字で要約してください。
+
+**${type}の発言例**: ${samples}
+**発言回数**: ${count}回
+
+このMBTIタイプがどのような視点・価値・スタイルで議論に貢献したかを簡潔に表現してください。
+`
+    }),
+    consensus: sampleContent => ({
+      system: 'あなたは合意形成プロセスの分析専門家です。議論の収束パターンを的確に分析してください。',
+      user: `
+以下の議論終盤での合意形成プロセスを分析し、80-120文字で要約してください。
+
+**終盤の議論**:
+${sampleContent}
+
+参加者がどのように合意に向かった（または多様性を維持した）かを分析してください。
+`
+    }),
+    insights: (topic, diversity, consistency, highlights) => ({
+      system: 'あなたは議論から価値ある洞察を抽出する専門家です。重要なポイントを的確に特定してください。',
+      user: `
+以下の高品質な議論から重要な洞察を2-3個抽出してください。
+
+**トピック**: ${topic}
+**品質スコア**: 多様性${diversity}%、一貫性${consistency}%
+
+**注目すべき発言**:
+${highlights}
+
+各洞察は30-50文字で表現し、リスト形式で回答してください。
+`
+    }),
+    characteristics: (participants, statementCount, averageConfidence) => ({
+      system: 'あなたは議論プロセス分析の専門家です。議論の構造的特徴を的確に特定してください。',
+      user: `
+以下の議論プロセスの特徴的なパターンを2-3個特定してください。
+
+**参加者**: ${participants}
+**議論スタイル**: ${statementCount}回の発言による多角的議論
+**品質傾向**: 平均確信度${averageConfidence}%
+
+議論の進行方式、参加パターン、意見交換の特徴を30-40文字で表現し、リスト形式で回答してください。
+`
+    })
+  },
+  en: {
+    overview: params => ({
+      system: 'You are an analyst who specializes in summarizing discussions. Provide concise, insightful summaries in English.',
+      user: `
+Summarize the following MBTI discussion in natural English in about 80-100 words.
+
+**Discussion topic**: ${params.topic}
+**Participants**: ${params.participants} (${params.participantCount} in total)
+**Total statements**: ${params.statementCount}
+**Key themes**: ${params.keyThemes.join(', ')}
+**Quality scores**: ${params.diversity}% (diversity), ${params.consistency}% (consistency)
+
+**Discussion sample**:
+${params.conversationSample}
+
+Cover the following points:
+- Whose statements stood out
+- Which claims and issues were developed
+- How the discussion flowed and what characterized it
+- The conclusions or agreements that were reached
+
+**Please answer in about 80-100 words of natural English.**
+`
+    }),
+    keyThemes: (topic, content) => ({
+      system: 'You are an expert in discussion analysis. Accurately extract the key themes from the discussion. Respond in English.',
+      user: `
+Extract 3-5 key themes from the following discussion.
+
+**Topic**: ${topic}
+
+**Discussion**: ${content}...
+
+Express each theme concisely in one or two words and answer as a comma-separated list.
+Example: efficiency, creativity, collaboration, innovation, humanity
+`
+    }),
+    progress: (early, middle, late) => ({
+      system: 'You are an expert in analyzing how discussions unfold. Accurately analyze the progression pattern. Respond in English.',
+      user: `
+Analyze how the following discussion progressed and summarize it in about 40-60 words.
+
+**Early discussion**: ${early}
+
+**Middle discussion**: ${middle}
+
+**Late discussion**: ${late}
+
+Describe how the discussion developed and deepened.
+`
+    }),
+    contribution: (type, samples, count) => ({
+      system: 'You are an MBTI analysis expert. Accurately analyze the characteristic contribution of each type. Respond in English.',
+      user: `
+Summarize the contribution of the ${type} type to the discussion in about 20-35 words.
+
+**Sample statements from ${type}**: ${samples}
+**Number of statements**: ${count}
+
+Briefly describe the perspective, values and style this MBTI type brought to the discussion.
+`
+    }),
+    consensus: sampleContent => ({
+      system: 'You are an expert in analyzing consensus-building processes. Accurately analyze how the discussion converged. Respond in English.',
+      user: `
+Analyze the consensus-building process in the late stage of the following discussion and summarize it in about 30-50 words.
+
+**Late discussion**:
+${sampleContent}
+
+Describe how the participants moved toward agreement (or maintained diversity).
+`
+    }),
+    insights: (topic, diversity, consistency, highlights) => ({
+      system: 'You are an expert in extracting valuable insights from discussions. Accurately identify the key points. Respond in English.',
+      user: `
+Extract 2-3 important insights from the following high-quality discussion.
+
+**Topic**: ${topic}
+**Quality scores**: diversity ${diversity}%, consistency ${consistency}%
+
+**Notable statements**:
+${highlights}
+
+Express each insight in about 12-20 words and answer as a list.
+`
+    }),
+    characteristics: (participants, statementCount, averageConfidence) => ({
+      system: 'You are an expert in analyzing discussion processes. Accurately identify the structural characteristics of the discussion. Respond in English.',
+      user: `
+Identify 2-3 characteristic patterns of the following discussion process.
+
+**Participants**: ${participants}
+**Discussion style**: multi-perspective discussion with ${statementCount} statements
+**Quality trend**: average confidence ${averageConfidence}%
+
+Describe how the discussion proceeded, participation patterns and how opinions were exchanged, each in about 12-16 words, as a list.
+`
+    })
+  }
+};
 
+// ========== LLMベース分析関数群 ==========
+
+/**
+ * オーケストレーターにプロンプトを送信し、応答テキストを返す
+ */
+async function generateWithPrompt(
+  orchestrator: any,
+  prompt: SummaryPrompt,
+  runtimeContext?: RuntimeContext
+): Promise<string> {
+  const startedAt = Date.now();
   const response = await orchestrator.generate([
     {
       role: 'system',
-      content: 'あなたは議論の要約を専門とするアナリストです。簡潔で洞察に富んだ要約を提供してください。'
+      content: prompt.system
     },
     {
       role: 'user',
-      content: prompt
+      content: prompt.user
     }
-  ]);
+  ], { runtimeContext });
+  recordLLMUsage(runtimeContext, response, { agent: 'ORCHESTRATOR', purpose: 'summary', latencyMs: Date.now() - startedAt });
+
+  return response.text;
+}
+
+/**
+ * LLMベース総合概要生成
+ */
+async function generateOverviewWithLLM(
+  topic: string,
+  statements: DiscussionStatement[],
+  participantTypes: MBTIType[],
+  qualityMetrics: any,
+  keyThemes: string[],
+  orchestrator: any,
+  prompts: SummaryPrompts,
+  runtimeContext?: RuntimeContext
+): Promise<string> {
+  const conversationSample = statements.slice(0, 6).map((s, i) =>
+    `${i + 1}. ${s.mbtiType}: ${s.content.substring(0, 150)}...`
+  ).join('\n');
 
-  return response.text.trim();
+  const prompt = prompts.overview({
+    topic,
+    participants: participantTypes.join(', '),
+    participantCount: participantTypes.length,
+    statementCount: statements.length,
+    keyThemes,
+    diversity: (qualityMetrics.diversityScore * 100).toFixed(0),
+    consistency: (qualityMetrics.consistencyScore * 100).toFixed(0),
+    conversationSample
+  });
+
+  return (await generateWithPrompt(orchestrator, prompt, runtimeContext)).trim();
 }
 
 /**
@@ -136,33 +397,15 @@ ${conversationSample}
 async function extractKeyThemesWithLLM(
   statements: DiscussionStatement[],
   topic: string,
-  orchestrator: any
+  orchestrator: any,
+  prompts: SummaryPrompts,
+  runtimeContext?: RuntimeContext
 ): Promise<string[]> {
   const allContent = statements.map(s => s.content).join(' ');
 
-  const prompt = `
-以下の議論内容から主要なテーマを3-5個抽出してください。
-
-**トピック**: ${topic}
-
-**議論内容**: ${allContent.substring(0, 2000)}...
-
-各テーマは1-2単語で簡潔に表現し、カンマ区切りで回答してください。
-例：効率性, 創造性, 協調性, 技術革新, 人間性
-`;
-
-  const response = await orchestrator.generate([
-    {
-      role: 'system',
-      content: 'あなたは議論分析の専門家です。議論から重要なテーマを的確に抽出してください。'
-    },
-    {
-      role: 'user',
-      content: prompt
-    }
-  ]);
+  const text = await generateWithPrompt(orchestrator, prompts.keyThemes(topic, allContent.substring(0, 2000)), runtimeContext);
 
-  return response.text.split(',').map((theme: string) => theme.trim()).filter((theme: string) => theme.length > 0).slice(0, 5);
+  return text.split(/[,、]/).map((theme: string) => theme.trim()).filter((theme: string) => theme.length > 0).slice(0, 5);
 }
 
 /**
@@ -170,36 +413,18 @@ async function extractKeyThemesWithLLM(
  */
 async function analyzeDiscussionProgressWithLLM(
   statements: DiscussionStatement[],
-  orchestrator: any
+  orchestrator: any,
+  prompts: SummaryPrompts,
+  runtimeContext?: RuntimeContext
 ): Promise<string> {
   const early = statements.slice(0, Math.floor(statements.length / 3));
   const middle = statements.slice(Math.floor(statements.length / 3), Math.floor(statements.length * 2 / 3));
   const late = statements.slice(Math.floor(statements.length * 2 / 3));
+  const sample = (part: DiscussionStatement[]) => part.map(s => `${s.mbtiType}: ${s.content.substring(0, 80)}`).join('｜');
 
-  const prompt = `
-以下の議論の進展パターンを分析し、100-150文字で要約してください。
-
-**序盤の議論**: ${early.map(s => `${s.mbtiType}: ${s.content.substring(0, 80)}`).join('｜')}
-
-**中盤の議論**: ${middle.map(s => `${s.mbtiType}: ${s.content.substring(0, 80)}`).join('｜')}
-
-**終盤の議論**: ${late.map(s => `${s.mbtiType}: ${s.content.substring(0, 80)}`).join('｜')}
-
-議論がどのように発展・深化したかを分析してください。
-`;
+  const text = await generateWithPrompt(orchestrator, prompts.progress(sample(early), sample(middle), sample(late)), runtimeContext);
 
-  const response = await orchestrator.generate([
-    {
-      role: 'system',
-      content: 'あなたは議論の流れを分析する専門家です。議論の進展パターンを的確に分析してください。'
-    },
-    {
-      role: 'user',
-      content: prompt
-    }
-  ]);
-
-  return response.text.trim();
+  return text.trim();
 }
 
 /**
@@ -208,7 +433,9 @@ async function analyzeDiscussionProgressWithLLM(
 async function analyzeMBTIContributionsWithLLM(
   statements: DiscussionStatement[],
   participantTypes: MBTIType[],
-  orchestrator: any
+  orchestrator: any,
+  prompts: SummaryPrompts,
+  runtimeContext?: RuntimeContext
 ): Promise<Record<string, string>> {
   const contributions: Record<string, string> = {};
 
@@ -218,27 +445,13 @@ async function analyzeMBTIContributionsWithLLM(
 
     const sampleStatements = typeStatements.slice(0, 3).map(s => s.content.substring(0, 100)).join('｜');
 
-    const prompt = `
-${type}タイプの議論での貢献内容を50-80文字で要約してください。
-
-**${type}の発言例**: ${sampleStatements}
-**発言回数**: ${typeStatements.length}回
-
-このMBTIタイプがどのような視点・価値・スタイルで議論に貢献したかを簡潔に表現してください。
-`;
-
-    const response = await orchestrator.generate([
-      {
-        role: 'system',
-        content: 'あなたはMBTI分析の専門家です。各タイプの特徴的な貢献を的確に分析してください。'
-      },
-      {
-        role: 'user',
-        content: prompt
-      }
-    ]);
+    const text = await generateWithPrompt(
+      orchestrator,
+      prompts.contribution(type, sampleStatements, typeStatements.length),
+      runtimeContext
+    );
 
-    contributions[type] = response.text.trim();
+    contributions[type] = text.trim();
   }
 
   return contributions;
@@ -249,32 +462,16 @@ ${type}タイプの議論での貢献内容を50-80文字で要約してくだ
  */
 async function analyzeConsensusBuildingWithLLM(
   statements: DiscussionStatement[],
-  orchestrator: any
+  orchestrator: any,
+  prompts: SummaryPrompts,
+  runtimeContext?: RuntimeContext
 ): Promise<string> {
   const laterStatements = statements.slice(-Math.floor(statements.length / 2));
   const sampleContent = laterStatements.map(s => `${s.mbtiType}: ${s.content.substring(0, 120)}`).join('\n');
 
-  const prompt = `
-以下の議論終盤での合意形成プロセスを分析し、80-120文字で要約してください。
-
-**終盤の議論**:
-${sampleContent}
-
-参加者がどのように合意に向かった（または多様性を維持した）かを分析してください。
-`;
+  const text = await generateWithPrompt(orchestrator, prompts.consensus(sampleContent), runtimeContext);
 
-  const response = await orchestrator.generate([
-    {
-      role: 'system',
-      content: 'あなたは合意形成プロセスの分析専門家です。議論の収束パターンを的確に分析してください。'
-    },
-    {
-      role: 'user',
-      content: prompt
-    }
-  ]);
-
-  return response.text.trim();
+  return text.trim();
 }
 
 /**
@@ -284,7 +481,9 @@ async function extractKeyInsightsWithLLM(
   statements: DiscussionStatement[],
   topic: string,
   qualityMetrics: any,
-  orchestrator: any
+  orchestrator: any,
+  prompts: SummaryPrompts,
+  runtimeContext?: RuntimeContext
 ): Promise<string[]> {
   const highlightStatements = statements
     .sort((a, b) => b.confidence - a.confidence)
@@ -292,30 +491,18 @@ async function extractKeyInsightsWithLLM(
     .map(s => `${s.mbtiType}: ${s.content}`)
     .join('\n\n');
 
-  const prompt = `
-以下の高品質な議論から重要な洞察を2-3個抽出してください。
-
-**トピック**: ${topic}
-**品質スコア**: 多様性${(qualityMetrics.diversityScore * 100).toFixed(0)}%、一貫性${(qualityMetrics.consistencyScore * 100).toFixed(0)}%
-
-**注目すべき発言**:
-${highlightStatements}
-
-各洞察は30-50文字で表現し、リスト形式で回答してください。
-`;
-
-  const response = await orchestrator.generate([
-    {
-      role: 'system',
-      content: 'あなたは議論から価値ある洞察を抽出する専門家です。重要なポイントを的確に特定してください。'
-    },
-    {
-      role: 'user',
-      content: prompt
-    }
-  ]);
+  const text = await generateWithPrompt(
+    orchestrator,
+    prompts.insights(
+      topic,
+      (qualityMetrics.diversityScore * 100).toFixed(0),
+      (qualityMetrics.consistencyScore * 100).toFixed(0),
+      highlightStatements
+    ),
+    runtimeContext
+  );
 
-  return response.text
+  return text
     .split('\n')
     .map((line: string) => line.replace(/^[-•*]\s*/, '').trim())
     .filter((insight: string) => insight.length > 10)
@@ -328,36 +515,148 @@ ${highlightStatements}
 async function analyzeProcessCharacteristicsWithLLM(
   statements: DiscussionStatement[],
   participantTypes: MBTIType[],
-  orchestrator: any
+  orchestrator: any,
+  prompts: SummaryPrompts,
+  runtimeContext?: RuntimeContext
 ): Promise<string[]> {
-  const prompt = `
-以下の議論プロセスの特徴的なパターンを2-3個特定してください。
+  const averageConfidence = (statements.reduce((sum, s) => sum + s.confidence, 0) / statements.length * 100).toFixed(0);
 
-**参加者**: ${participantTypes.join(', ')}
-**議論スタイル**: ${statements.length}回の発言による多角的議論
-**品質傾向**: 平均確信度${(statements.reduce((sum, s) => sum + s.confidence, 0) / statements.length * 100).toFixed(0)}%
-
-議論の進行方式、参加パターン、意見交換の特徴を30-40文字で表現し、リスト形式で回答してください。
-`;
-
-  const response = await orchestrator.generate([
-    {
-      role: 'system',
-      content: 'あなたは議論プロセス分析の専門家です。議論の構造的特徴を的確に特定してください。'
-    },
-    {
-      role: 'user',
-      content: prompt
-    }
-  ]);
+  const text = await generateWithPrompt(
+    orchestrator,
+    prompts.characteristics(participantTypes.join(', '), statements.length, averageConfidence),
+    runtimeContext
+  );
 
-  return response.text
+  return text
     .split('\n')
     .map((line: string) => line.replace(/^[-•*]\s*/, '').trim())
     .filter((characteristic: string) => characteristic.length > 10)
     .slice(0, 3);
 }
 
+// ========== フォールバック：議論言語別の文言 ==========
+
+interface FallbackText {
+  commonKeywords: string[];
+  themeRules: Array<{ keywords: string[]; theme: string }>;
+  phasePattern: Record<'high' | 'stable' | 'exploratory', (phase: number) => string>;
+  progressSummary: (phases: number, patterns: string, rich: boolean) => string;
+  contribution: Record<'NT' | 'NF' | 'SJ' | 'SP', (count: number, quality: string) => string>;
+  consensusKeywords: string[];
+  consensus: Record<'active' | 'gradual' | 'diverse', string>;
+  insights: Record<'diversity' | 'consistency' | 'socialDecision' | 'balanced' | 'qualityProgression', string>;
+  characteristics: Record<'balancedGroups' | 'confidenceRising' | 'highInteraction' | 'structured', string>;
+  qualityLevel: Record<'excellent' | 'high' | 'standard', string>;
+  overview: (params: {
+    topic: string;
+    typeCount: number;
+    groups: string;
+    statementCount: number;
+    qualityLevel: string;
+    themes: string;
+    score: string;
+  }) => string;
+}
+
+const FALLBACK_TEXT: Record<DiscussionLanguage, FallbackText> = {
+  ja: {
+    commonKeywords: ['効率', '革新', '協力', '分析', '価値', '実現', '解決', '戦略', '感情', '論理'],
+    themeRules: [
+      { keywords: ['技術', 'システム'], theme: '技術的観点' },
+      { keywords: ['人間', '社会'], theme: '人間・社会的観点' },
+      { keywords: ['将来', '未来'], theme: '将来展望' },
+      { keywords: ['課題', '問題'], theme: '課題解決' }
+    ],
+    phasePattern: {
+      high: phase => `フェーズ${phase}：高品質な議論`,
+      stable: phase => `フェーズ${phase}：安定した議論`,
+      exploratory: phase => `フェーズ${phase}：探索的議論`
+    },
+    progressSummary: (phases, patterns, rich) =>
+      `議論は${phases}つのフェーズに分かれて進行。${patterns}。全体として${rich ? '充実した' : '効率的な'}議論プロセスを実現。`,
+    contribution: {
+      NT: (count, quality) => `戦略的・分析的視点から${count}回の発言。論理的構造化に貢献（品質: ${quality}%）`,
+      NF: (count, quality) => `価値観・人間的視点から${count}回の発言。議論の意味付けに貢献（品質: ${quality}%）`,
+      SJ: (count, quality) => `実践的・組織的視点から${count}回の発言。具体化・体系化に貢献（品質: ${quality}%）`,
+      SP: (count, quality) => `柔軟・適応的視点から${count}回の発言。現実的解決策に貢献（品質: ${quality}%）`
+    },
+    consensusKeywords: ['同意', '合意', '賛成', '理解', '納得', '結論', 'まとめ'],
+    consensus: {
+      active: `終盤で活発な合意形成が見られ、参加者間の理解が深化。建設的な収束プロセスを実現。`,
+      gradual: `段階的な合意形成が進行し、一定の共通理解が形成された。`,
+      diverse: `多様な視点が維持されつつ、各論点での理解が深化。継続議論の基盤が構築された。`
+    },
+    insights: {
+      diversity: 'MBTIタイプの多様性が議論の豊かさを大幅に向上させた',
+      consistency: '論理的一貫性を保ちながら創造的議論が実現された',
+      socialDecision: '協調的意思決定プロセスが効果的に機能した',
+      balanced: 'バランスの取れた参加により包括的な議論が実現',
+      qualityProgression: '議論の進行とともに発言品質が向上するパターンを確認'
+    },
+    characteristics: {
+      balancedGroups: '4つの認知スタイル群がバランス良く参加',
+      confidenceRising: '議論の進行とともに参加者の確信度が向上',
+      highInteraction: '高い相互作用密度による活発な議論',
+      structured: '構造化された順序立った議論進行'
+    },
+    qualityLevel: {
+      excellent: '非常に高品質',
+      high: '高品質',
+      standard: '標準的'
+    },
+    overview: params =>
+      `「${params.topic}」について、${params.typeCount}のMBTIタイプ（${params.groups}）が${params.statementCount}回の発言を通じて${params.qualityLevel}な議論を展開。主要テーマは${params.themes}など。総合品質スコア${params.score}%を達成し、多角的視点による包括的な議論が実現された。`
+  },
+  en: {
+    commonKeywords: ['efficiency', 'innovation', 'cooperation', 'analysis', 'value', 'implementation', 'solution', 'strategy', 'emotion', 'logic'],
+    themeRules: [
+      { keywords: ['technolog', 'system'], theme: 'Technical perspective' },
+      { keywords: ['human', 'societ', 'social'], theme: 'Human and social perspective' },
+      { keywords: ['future', 'long-term'], theme: 'Future outlook' },
+      { keywords: ['challenge', 'problem', 'issue'], theme: 'Problem solving' }
+    ],
+    phasePattern: {
+      high: phase => `phase ${phase}: high-quality discussion`,
+      stable: phase => `phase ${phase}: steady discussion`,
+      exploratory: phase => `phase ${phase}: exploratory discussion`
+    },
+    progressSummary: (phases, patterns, rich) =>
+      `The discussion proceeded in ${phases} phases (${patterns}). Overall it was ${rich ? 'a rich' : 'an efficient'} discussion process.`,
+    contribution: {
+      NT: (count, quality) => `${count} statements from a strategic, analytical perspective; contributed logical structure (quality: ${quality}%)`,
+      NF: (count, quality) => `${count} statements from a values-driven, human perspective; gave the discussion meaning (quality: ${quality}%)`,
+      SJ: (count, quality) => `${count} statements from a practical, organizational perspective; made ideas concrete and systematic (quality: ${quality}%)`,
+      SP: (count, quality) => `${count} statements from a flexible, adaptive perspective; contributed realistic solutions (quality: ${quality}%)`
+    },
+    consensusKeywords: ['agree', 'consensus', 'support', 'understand', 'convinced', 'conclu', 'summar'],
+    consensus: {
+      active: 'Active consensus building emerged in the late stage, deepening mutual understanding and producing a constructive convergence.',
+      gradual: 'Consensus formed gradually, establishing a degree of shared understanding.',
+      diverse: 'Diverse perspectives were preserved while understanding of each issue deepened, laying a foundation for further discussion.'
+    },
+    insights: {
+      diversity: 'The diversity of MBTI types greatly enriched the discussion',
+      consistency: 'The discussion stayed creative while maintaining logical consistency',
+      socialDecision: 'The collaborative decision-making process worked effectively',
+      balanced: 'Balanced participation led to a comprehensive discussion',
+      qualityProgression: 'Statement quality improved as the discussion progressed'
+    },
+    characteristics: {
+      balancedGroups: 'All four cognitive style groups participated in good balance',
+      confidenceRising: 'Participant confidence increased as the discussion progressed',
+      highInteraction: 'A lively discussion driven by dense interaction',
+      structured: 'A structured, orderly progression of the discussion'
+    },
+    qualityLevel: {
+      excellent: 'very high-quality',
+      high: 'high-quality',
+      standard: 'standard'
+    },
+    overview: params =>
+      `On "${params.topic}", ${params.typeCount} MBTI types (${params.groups}) held a ${params.qualityLevel} discussion over ${params.statementCount} statements. Key themes included ${params.themes}. The discussion reached an overall quality score of ${params.score}% and achieved a comprehensive, multi-perspective exchange.`
+  }
+};
+
 // ========== フォールバック：アルゴリズム的な分析（元の実装） ==========
 
 /**
@@ -367,25 +666,29 @@ function generateFallbackSummary(
   statements: DiscussionStatement[],
   topic: string,
   participantTypes: MBTIType[],
-  qualityMetrics: any
+  qualityMetrics: any,
+  language: DiscussionLanguage
 ): DiscussionSummary {
+  const text = FALLBACK_TEXT[language];
+  const { listSeparator } = getLanguageProfile(language);
+
   // 🔍 主要テーマの抽出
-  const keyThemes = extractKeyThemes(statements, topic);
+  const keyThemes = extractKeyThemes(statements, topic, text);
 
   // 📊 議論進展の分析
-  const progressAnalysis = analyzeDiscussionProgress(statements);
+  const progressAnalysis = analyzeDiscussionProgress(statements, text, listSeparator);
 
   // 🎭 MBTIタイプ別貢献分析
-  const mbtiContributions = analyzeMBTIContributions(statements, participantTypes);
+  const mbtiContributions = analyzeMBTIContributions(statements, participantTypes, text);
 
   // 🤝 合意形成の分析
-  const consensus = analyzeConsensusBuilding(statements);
+  const consensus = analyzeConsensusBuilding(statements, text);
 
   // 💡 洞察の抽出
-  const insights = extractKeyInsights(statements, qualityMetrics);
+  const insights = extractKeyInsights(statements, qualityMetrics, text);
 
   // 🔄 プロセス特徴の分析
-  const processCharacteristics = analyzeProcessCharacteristics(statements, participantTypes);
+  const processCharacteristics = analyzeProcessCharacteristics(statements, participantTypes, text);
 
   // 📝 総合概要の生成
   const overview = generateOverview(
@@ -393,7 +696,9 @@ function generateFallbackSummary(
     participantTypes,
     statements.length,
     qualityMetrics,
-    keyThemes
+    keyThemes,
+    text,
+    listSeparator
   );
 
   return {
@@ -410,23 +715,21 @@ function generateFallbackSummary(
 /**
  * 主要テーマ抽出（アルゴリズム的）
  */
-function extractKeyThemes(statements: DiscussionStatement[], topic: string): string[] {
+function extractKeyThemes(statements: DiscussionStatement[], topic: string, text: FallbackText): string[] {
   const themes = new Set<string>();
-  const commonKeywords = ['効率', '革新', '協力', '分析', '価値', '実現', '解決', '戦略', '感情', '論理'];
 
   statements.forEach(statement => {
     const content = statement.content.toLowerCase();
-    commonKeywords.forEach(keyword => {
+    text.commonKeywords.forEach(keyword => {
       if (content.includes(keyword)) {
         themes.add(keyword);
       }
     });
 
     // 追加的なテーマ検出ロジック
-    if (content.includes('技術') || content.includes('システム')) themes.add('技術的観点');
-    if (content.includes('人間') || content.includes('社会')) themes.add('人間・社会的観点');
-    if (content.includes('将来') || content.includes('未来')) themes.add('将来展望');
-    if (content.includes('課題') || content.includes('問題')) themes.add('課題解決');
+    text.themeRules.forEach(rule => {
+      if (rule.keywords.some(keyword => content.includes(keyword))) themes.add(rule.theme);
+    });
   });
 
   return Array.from(themes).slice(0, 5); // 上位5テーマ
@@ -435,7 +738,7 @@ function extractKeyThemes(statements: DiscussionStatement[], topic: string): str
 /**
  * 議論進展分析（アルゴリズム的）
  */
-function analyzeDiscussionProgress(statements: DiscussionStatement[]): string {
+function analyzeDiscussionProgress(statements: DiscussionStatement[], text: FallbackText, listSeparator: string): string {
   const phases = Math.ceil(statements.length / 4);
   const progressPatterns = [];
 
@@ -445,21 +748,21 @@ function analyzeDiscussionProgress(statements: DiscussionStatement[]): string {
     const avgRelevance = phaseStatements.reduce((sum, s) => sum + s.relevance, 0) / phaseStatements.length;
 
     if (avgConfidence > 0.8 && avgRelevance > 0.8) {
-      progressPatterns.push(`フェーズ${i + 1}：高品質な議論`);
+      progressPatterns.push(text.phasePattern.high(i + 1));
     } else if (avgConfidence > 0.7) {
-      progressPatterns.push(`フェーズ${i + 1}：安定した議論`);
+      progressPatterns.push(text.phasePattern.stable(i + 1));
     } else {
-      progressPatterns.push(`フェーズ${i + 1}：探索的議論`);
+      progressPatterns.push(text.phasePattern.exploratory(i + 1));
     }
   }
 
-  return `議論は${phases}つのフェーズに分かれて進行。${progressPatterns.join('、')}。全体として${statements.length > 12 ? '充実した' : '効率的な'}議論プロセスを実現。`;
+  return text.progressSummary(phases, progressPatterns.join(listSeparator), statements.length > 12);
 }
 
 /**
  * MBTIタイプ別貢献分析（アルゴリズム的）
  */
-function analyzeMBTIContributions(statements: DiscussionStatement[], participantTypes: MBTIType[]): Record<string, string> {
+function analyzeMBTIContributions(statements: DiscussionStatement[], participantTypes: MBTIType[], text: FallbackText): Record<string, string> {
   const contributions: Record<string, string> = {};
 
   participantTypes.forEach(type => {
@@ -468,18 +771,19 @@ function analyzeMBTIContributions(statements: DiscussionStatement[], participant
 
     const avgConfidence = typeStatements.reduce((sum, s) => sum + s.confidence, 0) / typeStatements.length;
     const contributionLevel = typeStatements.length;
+    const quality = (avgConfidence * 100).toFixed(0);
 
     // MBTIタイプの特性に基づく貢献分析
     let contributionDescription = '';
 
     if (type.includes('NT')) {
-      contributionDescription = `戦略的・分析的視点から${contributionLevel}回の発言。論理的構造化に貢献（品質: ${(avgConfidence * 100).toFixed(0)}%）`;
+      contributionDescription = text.contribution.NT(contributionLevel, quality);
     } else if (type.includes('NF')) {
-      contributionDescription = `価値観・人間的視点から${contributionLevel}回の発言。議論の意味付けに貢献（品質: ${(avgConfidence * 100).toFixed(0)}%）`;
+      contributionDescription = text.contribution.NF(contributionLevel, quality);
     } else if (type.includes('SJ')) {
-      contributionDescription = `実践的・組織的視点から${contributionLevel}回の発言。具体化・体系化に貢献（品質: ${(avgConfidence * 100).toFixed(0)}%）`;
+      contributionDescription = text.contribution.SJ(contributionLevel, quality);
     } else if (type.includes('SP')) {
-      contributionDescription = `柔軟・適応的視点から${contributionLevel}回の発言。現実的解決策に貢献（品質: ${(avgConfidence * 100).toFixed(0)}%）`;
+      contributionDescription = text.contribution.SP(contributionLevel, quality);
     }
 
     contributions[type] = contributionDescription;
@@ -491,14 +795,13 @@ function analyzeMBTIContributions(statements: DiscussionStatement[], participant
 /**
  * 合意形成分析（アルゴリズム的）
  */
-function analyzeConsensusBuilding(statements: DiscussionStatement[]): string {
+function analyzeConsensusBuilding(statements: DiscussionStatement[], text: FallbackText): string {
   const laterStatements = statements.slice(-Math.floor(statements.length / 3));
-  const consensusKeywords = ['同意', '合意', '賛成', '理解', '納得', '結論', 'まとめ'];
 
   let consensusCount = 0;
   laterStatements.forEach(statement => {
     const content = statement.content.toLowerCase();
-    consensusKeywords.forEach(keyword => {
+    text.consensusKeywords.forEach(keyword => {
       if (content.includes(keyword)) consensusCount++;
     });
   });
@@ -506,41 +809,41 @@ function analyzeConsensusBuilding(statements: DiscussionStatement[]): string {
   const consensusRate = consensusCount / laterStatements.length;
 
   if (consensusRate > 0.3) {
-    return `終盤で活発な合意形成が見られ、参加者間の理解が深化。建設的な収束プロセスを実現。`;
+    return text.consensus.active;
   } else if (consensusRate > 0.1) {
-    return `段階的な合意形成が進行し、一定の共通理解が形成された。`;
+    return text.consensus.gradual;
   } else {
-    return `多様な視点が維持されつつ、各論点での理解が深化。継続議論の基盤が構築された。`;
+    return text.consensus.diverse;
   }
 }
 
 /**
  * 洞察抽出（アルゴリズム的）
  */
-function extractKeyInsights(statements: DiscussionStatement[], qualityMetrics: any): string[] {
+function extractKeyInsights(statements: DiscussionStatement[], qualityMetrics: any, text: FallbackText): string[] {
   const insights = [];
 
   // 品質メトリクスに基づく洞察
   if (qualityMetrics.diversityScore >= 0.85) {
-    insights.push('MBTIタイプの多様性が議論の豊かさを大幅に向上させた');
+    insights.push(text.insights.diversity);
   }
 
   if (qualityMetrics.consistencyScore >= 0.85) {
-    insights.push('論理的一貫性を保ちながら創造的議論が実現された');
+    insights.push(text.insights.consistency);
   }
 
   if (qualityMetrics.socialDecisionScore >= 0.8) {
-    insights.push('協調的意思決定プロセスが効果的に機能した');
+    insights.push(text.insights.socialDecision);
   }
 
   // 議論パターンに基づく洞察
   const participationPattern = analyzeParticipationPattern(statements);
   if (participationPattern.balanced) {
-    insights.push('バランスの取れた参加により包括的な議論が実現');
+    insights.push(text.insights.balanced);
   }
 
   if (participationPattern.qualityProgression) {
-    insights.push('議論の進行とともに発言品質が向上するパターンを確認');
+    insights.push(text.insights.qualityProgression);
   }
 
   return insights.slice(0, 4); // 上位4つの洞察
@@ -549,7 +852,7 @@ function extractKeyInsights(statements: DiscussionStatement[], qualityMetrics: a
 /**
  * プロセス特徴分析（アルゴリズム的）
  */
-function analyzeProcessCharacteristics(statements: DiscussionStatement[], participantTypes: MBTIType[]): string[] {
+function analyzeProcessCharacteristics(statements: DiscussionStatement[], participantTypes: MBTIType[], text: FallbackText): string[] {
   const characteristics = [];
 
   // 参加パターン分析
@@ -565,21 +868,21 @@ function analyzeProcessCharacteristics(statements: DiscussionStatement[], partic
     .map(([group, _]) => group);
 
   if (dominantGroups.length >= 3) {
-    characteristics.push('4つの認知スタイル群がバランス良く参加');
+    characteristics.push(text.characteristics.balancedGroups);
   }
 
   // 議論の動的特性
   const avgConfidenceProgression = analyzeConfidenceProgression(statements);
   if (avgConfidenceProgression > 0.05) {
-    characteristics.push('議論の進行とともに参加者の確信度が向上');
+    characteristics.push(text.characteristics.confidenceRising);
   }
 
   // 相互作用パターン
   const interactionDensity = analyzeInteractionDensity(statements);
   if (interactionDensity > 0.7) {
-    characteristics.push('高い相互作用密度による活発な議論');
+    characteristics.push(text.characteristics.highInteraction);
   } else {
-    characteristics.push('構造化された順序立った議論進行');
+    characteristics.push(text.characteristics.structured);
   }
 
   return characteristics;
@@ -593,7 +896,9 @@ function generateOverview(
   participantTypes: MBTIType[],
   statementCount: number,
   qualityMetrics: any,
-  keyThemes: string[]
+  keyThemes: string[],
+  text: FallbackText,
+  listSeparator: string
 ): string {
   const typeGroups = {
     NT: participantTypes.filter(t => t.includes('NT')).length,
@@ -605,10 +910,18 @@ function generateOverview(
   const dominantGroups = Object.entries(typeGroups)
     .filter(([_, count]) => count > 0)
     .map(([group, count]) => `${group}(${count})`)
-    .join('、');
+    .join(listSeparator);
 
-  const qualityLevel = qualityMetrics.diversityScore >= 0.85 ? '非常に高品質' :
-    qualityMetrics.diversityScore >= 0.75 ? '高品質' : '標準的';
+  const qualityLevel = qualityMetrics.diversityScore >= 0.85 ? text.qualityLevel.excellent :
+    qualityMetrics.diversityScore >= 0.75 ? text.qualityLevel.high : text.qualityLevel.standard;
 
-  return `「${topic}」について、${participantTypes.length}のMBTIタイプ（${dominantGroups}）が${statementCount}回の発言を通じて${qualityLevel}な議論を展開。主要テーマは${keyThemes.slice(0, 3).join('、')}など。総合品質スコア${(qualityMetrics.diversityScore * 100).toFixed(0)}%を達成し、多角的視点による包括的な議論が実現された。`;
+  return text.overview({
+    topic,
+    typeCount: participantTypes.length,
+    groups: dominantGroups,
+    statementCount,
+    qualityLevel,
+    themes: keyThemes.slice(0, 3).join(listSeparator),
+    score: (qualityMetrics.diversityScore * 100).toFixed(0)
+  });
 }
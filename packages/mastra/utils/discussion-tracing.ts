@@ -0,0 +1,288 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { appendFileSync, mkdirSync } from 'fs';
+import { dirname, resolve } from 'path';
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import {
+  context as otelContext,
+  trace,
+  SpanStatusCode,
+  type Attributes,
+  type Span,
+  type Tracer
+} from '@opentelemetry/api';
+import { ExportResultCode, hrTimeToMilliseconds, type ExportResult } from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BasicTracerProvider,
+  BatchSpanProcessor,
+  type ReadableSpan,
+  type SpanExporter
+} from '@opentelemetry/sdk-trace-base';
+import { discussionSessionRegistry, getDiscussionSessionId } from './discussion-session';
+
+/**
+ * 議論トレーシング（OpenTelemetry）
+ * ターン・評価・最適化・総括の処理時間をスパンとして記録し、OTLP コレクターまたは JSON Lines ファイルへ出力する
+ * 1回の議論は runId を持つルートスパン（mads.discussion）を起点とする1つのトレースになる
+ */
+
+// ===========================================
+// 型定義
+// ===========================================
+
+export const TRACE_EXPORTERS = ['off', 'otlp', 'file'] as const;
+export type TraceExporterKind = typeof TRACE_EXPORTERS[number];
+
+export interface TracingOptions {
+  exporter: TraceExporterKind;
+  // OTLP/HTTP の送信先（未指定時は OTEL_EXPORTER_OTLP_TRACES_ENDPOINT / OTEL_EXPORTER_OTLP_ENDPOINT、既定は localhost:4318）
+  endpoint?: string;
+  // file 出力先（JSON Lines、1行1スパン）
+  filePath?: string;
+  serviceName?: string;
+}
+
+export const DEFAULT_TRACE_FILE = './traces/m-ads-traces.jsonl';
+export const DEFAULT_TRACE_SERVICE_NAME = 'm-ads';
+
+/**
+ * スパン属性のキー
+ */
+export const TRACE_ATTRIBUTES = {
+  runId: 'mads.run_id',
+  mbtiType: 'mads.mbti_type',
+  phase: 'mads.phase',
+  phaseName: 'mads.phase.name',
+  phaseType: 'mads.phase.type',
+  turn: 'mads.turn'
+} as const;
+
+// ===========================================
+// JSON ファイル出力
+// ===========================================
+
+/**
+ * スパンを JSON Lines で追記するエクスポーター
+ */
+export class JsonFileSpanExporter implements SpanExporter {
+  readonly filePath: string;
+
+  constructor(filePath: string = DEFAULT_TRACE_FILE) {
+    this.filePath = resolve(filePath);
+    mkdirSync(dirname(this.filePath), { recursive: true });
+  }
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    try {
+      const lines = spans.map(span => JSON.stringify(toJsonSpan(span))).join('\n');
+      appendFileSync(this.filePath, `${lines}\n`, 'utf8');
+      resultCallback({ code: ExportResultCode.SUCCESS });
+    } catch (error) {
+      resultCallback({ code: ExportResultCode.FAILED, error: error as Error });
+    }
+  }
+
+  async shutdown(): Promise<void> {}
+
+  async forceFlush(): Promise<void> {}
+}
+
+function toJsonSpan(span: ReadableSpan) {
+  const { traceId, spanId } = span.spanContext();
+  return {
+    traceId,
+    spanId,
+    parentSpanId: span.parentSpanContext?.spanId,
+    name: span.name,
+    startTime: new Date(hrTimeToMilliseconds(span.startTime)).toISOString(),
+    endTime: new Date(hrTimeToMilliseconds(span.endTime)).toISOString(),
+    durationMs: hrTimeToMilliseconds(span.duration),
+    status: {
+      code: SpanStatusCode[span.status.code],
+      message: span.status.message
+    },
+    attributes: span.attributes,
+    events: span.events.map(event => ({
+      name: event.name,
+      time: new Date(hrTimeToMilliseconds(event.time)).toISOString(),
+      attributes: event.attributes
+    })),
+    service: span.resource.attributes['service.name']
+  };
+}
+
+// ===========================================
+// トレーサー設定
+// ===========================================
+
+let tracerProvider: BasicTracerProvider | undefined;
+let tracer: Tracer | undefined;
+
+/**
+ * 環境変数からトレーシング設定を解決
+ * M_ADS_TRACE_EXPORTER=otlp|file|off（既定: off）, M_ADS_TRACE_FILE（file の出力先）
+ */
+export function resolveTracingOptions(env: NodeJS.ProcessEnv = process.env): TracingOptions {
+  const exporter = env.M_ADS_TRACE_EXPORTER ?? 'off';
+  if (!(TRACE_EXPORTERS as readonly string[]).includes(exporter)) {
+    console.warn(`⚠️ M_ADS_TRACE_EXPORTER が不正です（トレース出力なし）: ${exporter}（${TRACE_EXPORTERS.join('/')}）`);
+    return { exporter: 'off' };
+  }
+
+  return {
+    exporter: exporter as TraceExporterKind,
+    filePath: env.M_ADS_TRACE_FILE
+  };
+}
+
+/**
+ * トレース出力先を設定（既存のプロバイダーは未送信のスパンを送信して停止）
+ * off の場合はグローバルに登録された TracerProvider（mastra dev の計装など）へ委譲し、未登録なら記録しない
+ */
+export function configureTracing(options: TracingOptions = resolveTracingOptions()): void {
+  const previous = tracerProvider;
+  tracerProvider = undefined;
+  void previous?.shutdown().catch(error => console.warn('⚠️ トレーサーの停止に失敗しました:', error));
+
+  if (options.exporter === 'off') {
+    tracer = trace.getTracer(DEFAULT_TRACE_SERVICE_NAME);
+    return;
+  }
+
+  const exporter: SpanExporter = options.exporter === 'otlp'
+    ? new OTLPTraceExporter(options.endpoint ? { url: options.endpoint } : {})
+    : new JsonFileSpanExporter(options.filePath);
+
+  tracerProvider = new BasicTracerProvider({
+    resource: resourceFromAttributes({ 'service.name': options.serviceName ?? DEFAULT_TRACE_SERVICE_NAME }),
+    spanProcessors: [new BatchSpanProcessor(exporter)]
+  });
+  tracer = tracerProvider.getTracer(DEFAULT_TRACE_SERVICE_NAME);
+
+  console.log(`🔭 トレース出力: ${options.exporter === 'otlp'
+    ? `OTLP (${options.endpoint ?? process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT ?? process.env.OTEL_EXPORTER_OTLP_ENDPOINT ?? 'http://localhost:4318'})`
+    : (exporter as JsonFileSpanExporter).filePath}`);
+}
+
+/**
+ * M-ADS のトレーサーを取得（初回は環境変数の設定で初期化）
+ */
+export function getDiscussionTracer(): Tracer {
+  if (!tracer) {
+    configureTracing();
+  }
+  if (!tracer) {
+    throw new Error('トレーサーを初期化できませんでした');
+  }
+  return tracer;
+}
+
+/**
+ * 未送信のスパンを出力先へ送信
+ */
+export async function flushTracing(): Promise<void> {
+  try {
+    await tracerProvider?.forceFlush();
+  } catch (error) {
+    console.warn('⚠️ トレースの送信に失敗しました:', error);
+  }
+}
+
+// ===========================================
+// 議論トレーサー
+// ===========================================
+
+/**
+ * 議論1回分のトレーサー（議論ランタイムが保持）
+ * スパンの親は明示指定 → withSpan 実行中のスパン → ルートスパンの順に解決する
+ */
+export class DiscussionTracer {
+  private readonly root: Span;
+  private readonly activeSpan = new AsyncLocalStorage<Span>();
+  private ended = false;
+
+  constructor(
+    readonly runId: string,
+    attributes: Attributes = {},
+    private readonly tracer: Tracer = getDiscussionTracer()
+  ) {
+    this.root = tracer.startSpan('mads.discussion', {
+      attributes: { [TRACE_ATTRIBUTES.runId]: runId, ...attributes }
+    });
+  }
+
+  get traceId(): string {
+    return this.root.spanContext().traceId;
+  }
+
+  /**
+   * スパンを記録しているか（トレース出力なしの場合は false）
+   */
+  get recording(): boolean {
+    return this.root.isRecording();
+  }
+
+  /**
+   * スパンを開始（終了は呼び出し側で span.end()）
+   */
+  startSpan(name: string, attributes: Attributes = {}, parent?: Span): Span {
+    const parentSpan = parent ?? this.activeSpan.getStore() ?? this.root;
+    return this.tracer.startSpan(
+      name,
+      { attributes: { [TRACE_ATTRIBUTES.runId]: this.runId, ...attributes } },
+      trace.setSpan(otelContext.active(), parentSpan)
+    );
+  }
+
+  /**
+   * スパン内で処理を実行（例外はスパンに記録して再送出）
+   * 処理中に開始したスパンはこのスパンの子になる
+   */
+  async withSpan<T>(
+    name: string,
+    attributes: Attributes,
+    run: (span: Span) => Promise<T> | T,
+    parent?: Span
+  ): Promise<T> {
+    const span = this.startSpan(name, attributes, parent);
+    try {
+      return await this.activeSpan.run(span, () => run(span));
+    } catch (error) {
+      span.recordException(error as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * ルートスパンを終了して送信（議論ランタイムの破棄時に呼ぶ）
+   */
+  async end(attributes: Attributes = {}): Promise<void> {
+    if (this.ended) return;
+    this.ended = true;
+    this.root.setAttributes(attributes);
+    this.root.end();
+    await flushTracing();
+  }
+}
+
+// ===========================================
+// RuntimeContext 連携
+// ===========================================
+
+/**
+ * RuntimeContext のセッションの議論トレーサーでスパンを記録（議論ランタイム外では処理のみ実行）
+ * トレーサーはスナップショットに保存できないため、RuntimeContext にはセッションIDのみを持たせて解決する
+ */
+export async function traceDiscussionSpan<T>(
+  runtimeContext: RuntimeContext | undefined,
+  name: string,
+  attributes: Attributes,
+  run: (span?: Span) => Promise<T> | T
+): Promise<T> {
+  const tracer = discussionSessionRegistry.get(getDiscussionSessionId(runtimeContext))?.runtime?.tracer;
+  return tracer ? tracer.withSpan(name, attributes, run) : run();
+}
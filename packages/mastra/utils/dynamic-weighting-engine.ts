@@ -1,5 +1,13 @@
 import type { MBTIType, MBTIGroup, DiscussionContext } from '../types/mbti-types';
-import { MBTI_CHARACTERISTICS, getGroupFromType, PHASE_WEIGHT_MODIFIERS } from './mbti-characteristics';
+import { ALL_MBTI_TYPES, MBTI_CHARACTERISTICS, getGroupFromType, PHASE_WEIGHT_MODIFIERS } from './mbti-characteristics';
+import {
+  calculateTfIdfTopicRelevance,
+  calculateTopicRelevance,
+  getTopicSimilarityProvider,
+  TOPIC_RELEVANCE_MAX_BOOST,
+  type TopicRelevance,
+  type TopicSimilarityProvider
+} from './topic-relevance';
 
 /**
  * Big Five特性スコア
@@ -117,6 +125,7 @@ export class DynamicWeightingEngine {
   private interactionHistory: Map<string, number> = new Map();
   private performanceHistory: Map<string, number[]> = new Map();
   private contextualModifiers: Map<string, ModifierMatrix> = new Map();
+  private topicRelevanceCache: Map<string, TopicRelevance> = new Map();
   private settings: DynamicAdjustmentSettings;
 
   constructor(settings?: Partial<DynamicAdjustmentSettings>) {
@@ -129,6 +138,18 @@ export class DynamicWeightingEngine {
     };
   }
 
+  /**
+   * 類似度プロバイダー（埋め込みモデル等）で話題関連性を算出してキャッシュ
+   */
+  async prepareTopicRelevance(
+    topic: string,
+    provider: TopicSimilarityProvider = getTopicSimilarityProvider()
+  ): Promise<TopicRelevance> {
+    const relevance = await calculateTopicRelevance(topic, ALL_MBTI_TYPES, provider);
+    this.topicRelevanceCache.set(topic, relevance);
+    return relevance;
+  }
+
   /**
    * Big Five統合重み計算
    */
@@ -218,47 +239,15 @@ export class DynamicWeightingEngine {
 
   /**
    * 話題関連性の計算
+   * prepareTopicRelevance で算出済みの値を使い、未算出のトピックはオフラインの TF-IDF で算出
    */
   private calculateTopicRelevance(mbtiType: MBTIType, topic: string): number {
-    const characteristics = MBTI_CHARACTERISTICS[mbtiType];
-    const topicLower = topic.toLowerCase();
-    
-    // 各MBTIタイプの得意分野に基づく関連性スコア
-    let relevanceScore = 1.0;
-    
-    // NT: 戦略、システム、技術関連の話題
-    if (characteristics.group === 'NT') {
-      if (topicLower.includes('戦略') || topicLower.includes('システム') || 
-          topicLower.includes('技術') || topicLower.includes('分析')) {
-        relevanceScore *= 1.2;
-      }
+    let relevance = this.topicRelevanceCache.get(topic);
+    if (!relevance) {
+      relevance = calculateTfIdfTopicRelevance(topic);
+      this.topicRelevanceCache.set(topic, relevance);
     }
-    
-    // NF: 人間関係、価値観、創造性関連の話題
-    if (characteristics.group === 'NF') {
-      if (topicLower.includes('人') || topicLower.includes('価値') || 
-          topicLower.includes('創造') || topicLower.includes('意味')) {
-        relevanceScore *= 1.2;
-      }
-    }
-    
-    // SJ: 組織、計画、実装関連の話題
-    if (characteristics.group === 'SJ') {
-      if (topicLower.includes('組織') || topicLower.includes('計画') || 
-          topicLower.includes('実装') || topicLower.includes('管理')) {
-        relevanceScore *= 1.2;
-      }
-    }
-    
-    // SP: 実用性、現実性、行動関連の話題
-    if (characteristics.group === 'SP') {
-      if (topicLower.includes('実用') || topicLower.includes('行動') || 
-          topicLower.includes('現実') || topicLower.includes('実践')) {
-        relevanceScore *= 1.2;
-      }
-    }
-    
-    return Math.min(relevanceScore, 1.5); // 最大50%の向上
+    return relevance.types[mbtiType]?.modifier ?? 1.0;
   }
 
   /**
@@ -308,7 +297,7 @@ export class DynamicWeightingEngine {
     const dataConfidence = Math.min(1.0, (interactions + performances.length) / 10);
     
     // 文脈適合度に基づく信頼度
-    const contextConfidence = this.calculateTopicRelevance(mbtiType, context.topic) / 1.5;
+    const contextConfidence = this.calculateTopicRelevance(mbtiType, context.topic) / (1 + TOPIC_RELEVANCE_MAX_BOOST);
     
     return (dataConfidence + contextConfidence) / 2;
   }
@@ -342,6 +331,7 @@ export class DynamicWeightingEngine {
     this.interactionHistory.clear();
     this.performanceHistory.clear();
     this.contextualModifiers.clear();
+    this.topicRelevanceCache.clear();
   }
 
   /**
@@ -0,0 +1,417 @@
+import { z } from 'zod';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import type { MBTIType } from '../types/mbti-types';
+import type { advancedMBTIDiscussionWorkflow } from '../workflows/mbti-discussion-workflow';
+import { ALL_MBTI_TYPES } from './mbti-characteristics';
+import { phasePlanInputSchema } from './phase-plan';
+import { llmRunConfigSchema } from './llm-provider-registry';
+import { discussionLanguageSchema } from './discussion-language';
+
+/**
+ * バッチ実験ランナー
+ * トピック × 参加者セット × 機能フラグ × 繰り返し回数の全組み合わせを同時実行数を制限して実行し、
+ * 条件ごとに comprehensiveMetrics の各指標の平均・分散を集計する
+ */
+
+// ===========================================
+// スキーマ定義
+// ===========================================
+
+const mbtiTypeSchema = z.enum(ALL_MBTI_TYPES as [MBTIType, ...MBTIType[]]);
+
+export const experimentParticipantSetSchema = z.object({
+  label: z.string().optional().describe('Display name of the participant set'),
+  participantCount: z.number().int().min(4).max(16).optional().describe('Number of MBTI types (workflow default: 8)'),
+  types: z.array(mbtiTypeSchema).min(2).max(16).optional().describe('Explicit MBTI types (overrides participantCount)'),
+  groupQuotas: z.object({
+    NT: z.number().int().min(0).max(4).optional(),
+    NF: z.number().int().min(0).max(4).optional(),
+    SJ: z.number().int().min(0).max(4).optional(),
+    SP: z.number().int().min(0).max(4).optional()
+  }).optional(),
+  exclude: z.array(mbtiTypeSchema).optional()
+});
+
+/**
+ * 機能フラグ（指定した項目の値の全組み合わせを実行、未指定はワークフローの既定値）
+ */
+export const experimentFeatureFlagsSchema = z.object({
+  enableRealtimeOptimization: z.array(z.boolean()).min(1).optional(),
+  enableGraphOptimization: z.array(z.boolean()).min(1).optional(),
+  qualityThreshold: z.array(z.number().min(0.5).max(1.0)).min(1).optional(),
+  phasePlan: z.array(phasePlanInputSchema).min(1).optional()
+});
+
+export const experimentSpecSchema = z.object({
+  name: z.string().min(1).describe('Experiment name (used for the result file name)'),
+  topics: z.array(z.string().min(1)).min(1),
+  participantSets: z.array(experimentParticipantSetSchema).min(1).default([{}]),
+  featureFlags: experimentFeatureFlagsSchema.default({}),
+  repetitions: z.number().int().min(1).max(50).default(1).describe('Runs per condition'),
+  concurrency: z.number().int().min(1).max(8).default(2).describe('Maximum number of discussions running at once'),
+  baseSeed: z.number().int().optional().describe('Seed of the first repetition (repetition n uses baseSeed + n for paired comparison)'),
+  llm: llmRunConfigSchema.optional(),
+  language: discussionLanguageSchema.optional().describe('Discussion language of every run (workflow default: ja)'),
+  saveConversations: z.boolean().default(false).describe('Also save each discussion as JSON'),
+  outputDirectory: z.string().default('./experiments')
+});
+
+// ===========================================
+// 型定義
+// ===========================================
+
+export type ExperimentSpec = z.infer<typeof experimentSpecSchema>;
+export type ExperimentSpecInput = z.input<typeof experimentSpecSchema>;
+export type ExperimentParticipantSet = z.infer<typeof experimentParticipantSetSchema>;
+export type ExperimentFeatureFlags = z.infer<typeof experimentFeatureFlagsSchema>;
+
+type FlagName = keyof ExperimentFeatureFlags;
+type FlagValues = { [K in FlagName]?: NonNullable<ExperimentFeatureFlags[K]>[number] };
+
+// 集計対象の指標（comprehensiveMetrics + 総合スコア）
+export const EXPERIMENT_METRICS = [
+  'performanceScore',
+  'psychologicalScore',
+  'externalAlignmentScore',
+  'internalConsistencyScore',
+  'socialDecisionScore',
+  'contentQualityScore',
+  'ethicsScore',
+  'diversityScore',
+  'consistencyScore',
+  'convergenceEfficiency',
+  'mbtiAlignmentScore',
+  'interactionQuality',
+  'argumentQuality',
+  'participationBalance',
+  'resolutionRate',
+  'overallScore'
+] as const;
+
+export type ExperimentMetric = typeof EXPERIMENT_METRICS[number];
+
+export interface ExperimentRunPlan {
+  index: number;
+  conditionId: string;
+  topic: string;
+  participantSetLabel: string;
+  participantSet: ExperimentParticipantSet;
+  flags: FlagValues;
+  repetition: number;
+  seed?: number;
+}
+
+export interface ExperimentRunRecord extends ExperimentRunPlan {
+  status: 'success' | 'failed';
+  durationMs: number;
+  resultSeed?: number;
+  participantTypes?: string[];
+  metrics?: Record<ExperimentMetric, number>;
+  grade?: string;
+  error?: string;
+}
+
+export interface ExperimentConditionAggregate {
+  conditionId: string;
+  topic: string;
+  participantSetLabel: string;
+  flags: FlagValues;
+  runs: number;
+  failed: number;
+  // 平均と不偏分散（成功した実行が1件以下の場合の分散は0）
+  metrics: Record<ExperimentMetric, { mean: number; variance: number }> | null;
+}
+
+export interface ExperimentResult {
+  name: string;
+  startedAt: string;
+  finishedAt: string;
+  spec: ExperimentSpec;
+  runs: ExperimentRunRecord[];
+  aggregates: ExperimentConditionAggregate[];
+}
+
+export interface ExperimentRunOptions {
+  // 同時実行数（spec.concurrency より優先）
+  concurrency?: number;
+  onRunComplete?: (record: ExperimentRunRecord, completed: number, total: number) => void;
+}
+
+type DiscussionWorkflow = typeof advancedMBTIDiscussionWorkflow;
+
+// ===========================================
+// 実行計画
+// ===========================================
+
+/**
+ * 機能フラグの全組み合わせを展開
+ */
+function expandFeatureFlags(featureFlags: ExperimentFeatureFlags): FlagValues[] {
+  return (Object.keys(featureFlags) as FlagName[]).reduce<FlagValues[]>((combinations, flag) => {
+    const values = featureFlags[flag];
+    if (!values) return combinations;
+    return combinations.flatMap(combination => values.map(value => ({ ...combination, [flag]: value })));
+  }, [{}]);
+}
+
+export function formatFlagValues(flags: FlagValues): string {
+  const entries = Object.entries(flags).map(([flag, value]) =>
+    `${flag}=${typeof value === 'object' ? (value as Array<{ name: string }>).map(phase => phase.name).join('→') : value}`
+  );
+  return entries.length > 0 ? entries.join(', ') : '既定';
+}
+
+function formatParticipantSetLabel(participantSet: ExperimentParticipantSet, index: number): string {
+  if (participantSet.label) return participantSet.label;
+  if (participantSet.types) return participantSet.types.join(',');
+  if (participantSet.participantCount) return `${participantSet.participantCount}タイプ`;
+  return `参加者セット${index + 1}`;
+}
+
+/**
+ * 実験仕様を実行単位（条件 × 繰り返し）に展開
+ */
+export function planExperimentRuns(spec: ExperimentSpec): ExperimentRunPlan[] {
+  const flagCombinations = expandFeatureFlags(spec.featureFlags);
+  const plans: ExperimentRunPlan[] = [];
+
+  spec.topics.forEach(topic => {
+    spec.participantSets.forEach((participantSet, setIndex) => {
+      const participantSetLabel = formatParticipantSetLabel(participantSet, setIndex);
+      flagCombinations.forEach(flags => {
+        const conditionId = `${topic} / ${participantSetLabel} / ${formatFlagValues(flags)}`;
+        for (let repetition = 0; repetition < spec.repetitions; repetition++) {
+          plans.push({
+            index: plans.length,
+            conditionId,
+            topic,
+            participantSetLabel,
+            participantSet,
+            flags,
+            repetition,
+            seed: spec.baseSeed !== undefined ? spec.baseSeed + repetition : undefined
+          });
+        }
+      });
+    });
+  });
+
+  return plans;
+}
+
+// ===========================================
+// 実行
+// ===========================================
+
+/**
+ * 同時実行数を制限してタスクを実行（結果はタスクと同じ順序）
+ */
+async function runWithConcurrency<T>(tasks: Array<() => Promise<T>>, concurrency: number): Promise<T[]> {
+  const results = new Array<T>(tasks.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < tasks.length) {
+      const index = nextIndex++;
+      results[index] = await tasks[index]();
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, tasks.length) }, worker));
+  return results;
+}
+
+async function executeRun(
+  workflow: DiscussionWorkflow,
+  spec: ExperimentSpec,
+  plan: ExperimentRunPlan
+): Promise<ExperimentRunRecord> {
+  const startedAt = Date.now();
+  const { label: _label, participantCount, ...selection } = plan.participantSet;
+  const participants = selection.types || selection.groupQuotas || selection.exclude ? selection : undefined;
+
+  try {
+    const run = await workflow.createRunAsync();
+    const workflowResult = await run.start({
+      inputData: {
+        topic: plan.topic,
+        participantCount: participantCount ?? 8,
+        participants,
+        enableRealtimeOptimization: plan.flags.enableRealtimeOptimization ?? true,
+        enableGraphOptimization: plan.flags.enableGraphOptimization ?? true,
+        qualityThreshold: plan.flags.qualityThreshold ?? 0.8,
+        phasePlan: plan.flags.phasePlan,
+        saveConversation: spec.saveConversations,
+        outputFormat: 'json',
+        outputDirectory: join(spec.outputDirectory, 'conversations'),
+        llm: spec.llm,
+        language: spec.language,
+        seed: plan.seed
+      }
+    });
+
+    if (workflowResult.status !== 'success') {
+      throw new Error(workflowResult.status === 'failed'
+        ? String(workflowResult.error)
+        : `ワークフローが完了しませんでした: ${workflowResult.status}`);
+    }
+
+    const { result } = workflowResult;
+    return {
+      ...plan,
+      status: 'success',
+      durationMs: Date.now() - startedAt,
+      resultSeed: result.seed,
+      participantTypes: result.participantTypes,
+      metrics: { ...result.comprehensiveMetrics, overallScore: result.advancedReport.overallScore },
+      grade: result.advancedReport.grade
+    };
+  } catch (error) {
+    return {
+      ...plan,
+      status: 'failed',
+      durationMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * 実験を実行して条件ごとに集計
+ */
+export async function runExperiment(
+  workflow: DiscussionWorkflow,
+  specInput: ExperimentSpecInput,
+  options: ExperimentRunOptions = {}
+): Promise<ExperimentResult> {
+  const spec = experimentSpecSchema.parse(specInput);
+  const plans = planExperimentRuns(spec);
+  const concurrency = options.concurrency ?? spec.concurrency;
+  const startedAt = new Date().toISOString();
+
+  console.log(`🧪 実験「${spec.name}」を開始: ${plans.length}実行（同時実行数: ${concurrency}）`);
+
+  let completed = 0;
+  const runs = await runWithConcurrency(plans.map(plan => async () => {
+    const record = await executeRun(workflow, spec, plan);
+    completed++;
+    options.onRunComplete?.(record, completed, plans.length);
+    return record;
+  }), concurrency);
+
+  return {
+    name: spec.name,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    spec,
+    runs,
+    aggregates: aggregateExperimentRuns(runs)
+  };
+}
+
+// ===========================================
+// 集計
+// ===========================================
+
+function calculateMeanAndVariance(values: number[]): { mean: number; variance: number } {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.length > 1
+    ? values.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / (values.length - 1)
+    : 0;
+  return { mean, variance };
+}
+
+/**
+ * 条件ごとに各指標の平均・分散を集計（実行計画の順序を維持）
+ */
+export function aggregateExperimentRuns(runs: ExperimentRunRecord[]): ExperimentConditionAggregate[] {
+  const byCondition = new Map<string, ExperimentRunRecord[]>();
+  runs.forEach(run => {
+    byCondition.set(run.conditionId, [...(byCondition.get(run.conditionId) ?? []), run]);
+  });
+
+  return Array.from(byCondition.values()).map(conditionRuns => {
+    const [first] = conditionRuns;
+    const succeeded = conditionRuns.flatMap(run => run.metrics ? [run.metrics] : []);
+    const metrics = succeeded.length > 0
+      ? Object.fromEntries(EXPERIMENT_METRICS.map(metric => [
+          metric,
+          calculateMeanAndVariance(succeeded.map(runMetrics => runMetrics[metric]))
+        ])) as ExperimentConditionAggregate['metrics']
+      : null;
+
+    return {
+      conditionId: first.conditionId,
+      topic: first.topic,
+      participantSetLabel: first.participantSetLabel,
+      flags: first.flags,
+      runs: conditionRuns.length,
+      failed: conditionRuns.length - succeeded.length,
+      metrics
+    };
+  });
+}
+
+// ===========================================
+// 出力
+// ===========================================
+
+/**
+ * 集計表（Markdown形式、行: 指標 / 列: 条件、セルは「平均（分散）」）
+ */
+export function formatExperimentTable(result: ExperimentResult): string {
+  const lines: string[] = [];
+
+  lines.push('条件:');
+  result.aggregates.forEach((aggregate, index) => {
+    const failed = aggregate.failed > 0 ? `、失敗${aggregate.failed}` : '';
+    lines.push(`- [${index + 1}] ${aggregate.conditionId}（n=${aggregate.runs - aggregate.failed}${failed}）`);
+  });
+
+  lines.push('', '平均（不偏分散）:', '');
+  lines.push(`| 指標 | ${result.aggregates.map((_, index) => `[${index + 1}]`).join(' | ')} |`);
+  lines.push(`| --- | ${result.aggregates.map(() => '---').join(' | ')} |`);
+  EXPERIMENT_METRICS.forEach(metric => {
+    const cells = result.aggregates.map(aggregate => {
+      const stats = aggregate.metrics?.[metric];
+      return stats ? `${stats.mean.toFixed(3)} (${stats.variance.toFixed(4)})` : '-';
+    });
+    lines.push(`| ${metric} | ${cells.join(' | ')} |`);
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * 実験結果をJSON（全実行の記録）とMarkdown（集計表）で保存
+ */
+export function saveExperimentResult(
+  result: ExperimentResult,
+  outputDir: string = result.spec.outputDirectory
+): { jsonPath: string; markdownPath: string } {
+  const resolvedOutputDir = resolve(outputDir);
+  if (!existsSync(resolvedOutputDir)) {
+    mkdirSync(resolvedOutputDir, { recursive: true });
+  }
+
+  const timestamp = result.startedAt.slice(0, 19).replace(/[:-]/g, '');
+  const nameSafe = result.name.replace(/[^\w-]/g, '_').substring(0, 50);
+  const jsonPath = join(resolvedOutputDir, `experiment_${timestamp}_${nameSafe}.json`);
+  const markdownPath = join(resolvedOutputDir, `experiment_${timestamp}_${nameSafe}.md`);
+
+  writeFileSync(jsonPath, JSON.stringify(result, null, 2), 'utf8');
+  writeFileSync(markdownPath, [
+    `# 実験: ${result.name}`,
+    '',
+    `- 開始: ${result.startedAt}`,
+    `- 終了: ${result.finishedAt}`,
+    `- 実行数: ${result.runs.length}（失敗: ${result.runs.filter(run => run.status === 'failed').length}）`,
+    `- 繰り返し: ${result.spec.repetitions}回${result.spec.baseSeed !== undefined ? `（シード ${result.spec.baseSeed}〜）` : ''}`,
+    '',
+    formatExperimentTable(result),
+    ''
+  ].join('\n'), 'utf8');
+
+  return { jsonPath, markdownPath };
+}
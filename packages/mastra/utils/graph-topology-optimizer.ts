@@ -1,5 +1,7 @@
 import type { MBTIType, MBTIGroup, DiscussionContext, QualityMetrics } from '../types/mbti-types';
 import { MBTI_CHARACTERISTICS, GROUP_COMPATIBILITY, getGroupFromType } from './mbti-characteristics';
+import type { RandomSource } from './seeded-random';
+import { discussionLogger } from './discussion-logger';
 
 /**
  * グラフ構造の表現
@@ -123,8 +125,10 @@ export class GraphTopologyOptimizer {
   private interactionHistory: InteractionHistory;
   private optimizationParams: VEMOptimizationParams;
   private performanceHistory: PerformanceMetrics[];
+  private random: RandomSource;
 
-  constructor(params?: Partial<VEMOptimizationParams>) {
+  constructor(params?: Partial<VEMOptimizationParams>, random: RandomSource = Math.random) {
+    this.random = random;
     this.optimizationParams = {
       maxIterations: 100,
       convergenceThreshold: 0.001,
@@ -187,7 +191,8 @@ export class GraphTopologyOptimizer {
       // 収束判定
       const logLikelihood = this.calculateLogLikelihood(currentStructure);
       if (Math.abs(logLikelihood - previousLogLikelihood) < this.optimizationParams.convergenceThreshold) {
-        console.log(`VEM optimization converged at iteration ${iteration}`);
+        discussionLogger.child({ component: 'GraphTopologyOptimizer' })
+          .debug(`VEM optimization converged at iteration ${iteration}`, { iteration });
         break;
       }
       
@@ -384,7 +389,7 @@ export class GraphTopologyOptimizer {
     // グラフ畳み込みによる埋め込み更新（簡略化）
     structure.nodes.forEach((node, nodeId) => {
       if (!node.embedding) {
-        node.embedding = new Array(16).fill(0).map(() => Math.random());
+        node.embedding = new Array(16).fill(0).map(() => this.random());
       }
     });
   }
@@ -518,7 +523,7 @@ export class GraphTopologyOptimizer {
     for (let i = 0; i < nodes.length; i++) {
       for (let j = i + 2; j < nodes.length; j++) {
         const edgeId = `${nodes[i]}-${nodes[j]}`;
-        if (!structure.edges.has(edgeId) && Math.random() < 0.1) {
+        if (!structure.edges.has(edgeId) && this.random() < 0.1) {
           structure.edges.set(edgeId, {
             from: nodes[i],
             to: nodes[j],
@@ -4,14 +4,17 @@ import { v4 as uuidv4 } from 'uuid';
 import type { GraphNode, MBTIType} from '../types/mbti-types';
 import { MBTIGroup } from '../types/mbti-types';
 import { GROUP_COMPATIBILITY, getGroupFromType } from './mbti-characteristics';
+import type { RandomSource } from './seeded-random';
 
 export class DiscussionGraph {
   private graph: Graph;
   private nodeMap: Map<string, GraphNode>;
+  private random: RandomSource;
 
-  constructor() {
+  constructor(random: RandomSource = Math.random) {
     this.graph = new Graph();
     this.nodeMap = new Map();
+    this.random = random;
   }
 
   addAgent(mbtiType: MBTIType): string {
@@ -145,7 +148,7 @@ export class DiscussionGraph {
       for (let j = i + 1; j < nodes.length; j++) {
         if (!this.graph.hasEdge(nodes[i].id, nodes[j].id)) {
           const compatibility = GROUP_COMPATIBILITY[nodes[i].group][nodes[j].group];
-          if (compatibility > 0.6 && Math.random() < 0.3) {
+          if (compatibility > 0.6 && this.random() < 0.3) {
             this.graph.addEdge(nodes[i].id, nodes[j].id, { weight: compatibility });
             nodes[i].connections.set(nodes[j].id, compatibility);
             nodes[j].connections.set(nodes[i].id, compatibility);
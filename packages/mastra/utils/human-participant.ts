@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import type { MBTIType } from '../types/mbti-types';
+import { ALL_MBTI_TYPES } from './mbti-characteristics';
+import type { ParticipantSelection } from './discussion-helpers';
+import type { RandomSource } from './seeded-random';
+
+/**
+ * 人間参加者（Human-in-the-loop）
+ * 実際のユーザーを発言者として議論に参加させる。ワークフローは人間の発言ターンで中断（suspend）し、
+ * CLI・webapp から受け取った発言で再開（resume）して、エージェントの発言と同じく統合フィードバックで採点する
+ */
+
+// ===========================================
+// スキーマ定義
+// ===========================================
+
+const humanMbtiTypeSchema = z.enum(ALL_MBTI_TYPES as [MBTIType, ...MBTIType[]]);
+
+/**
+ * ワークフロー入力用の人間参加者指定
+ * mbtiType 未指定時はエージェントと重複しないタイプを割り当てる（評価・重み管理のキーに使用）
+ */
+export const humanParticipantInputSchema = z.object({
+  name: z.string().min(1).default('あなた').describe('Display name of the human participant'),
+  mbtiType: humanMbtiTypeSchema.optional().describe('MBTI type of the human participant (reserved from agent selection)')
+});
+
+/**
+ * 割り当て済みの人間参加者
+ */
+export const humanParticipantSchema = z.object({
+  name: z.string(),
+  mbtiType: humanMbtiTypeSchema,
+  typeAssigned: z.boolean().describe('True when the MBTI type was assigned automatically')
+});
+
+/**
+ * 人間の発言待ちで中断した際のペイロード（suspend）
+ */
+export const humanTurnRequestSchema = z.object({
+  participantName: z.string(),
+  mbtiType: z.string(),
+  topic: z.string(),
+  turnNumber: z.number(),
+  phase: z.number(),
+  phaseName: z.string(),
+  phaseType: z.enum(['initial', 'interaction', 'synthesis', 'consensus']),
+  selectionReason: z.string(),
+  guidance: z.string().describe('Phase instruction with recent statements')
+});
+
+/**
+ * 再開時に受け取る人間の発言（resume）
+ * turnNumber は中断時のペイロードの値（どの発言待ちへの応答かを照合する）
+ */
+export const humanTurnResponseSchema = z.object({
+  turnNumber: z.number().describe('Turn number of the suspended human turn'),
+  statement: z.string().trim().min(1).describe('Statement of the human participant')
+});
+
+// 人間の発言待ちで中断するステップ（run.resume の step に指定）
+export const HUMAN_TURN_STEP_ID = 'run-discussion-phase';
+
+// ===========================================
+// 型定義
+// ===========================================
+
+export type HumanParticipantInput = z.input<typeof humanParticipantInputSchema>;
+export type HumanParticipant = z.infer<typeof humanParticipantSchema>;
+export type HumanTurnRequest = z.infer<typeof humanTurnRequestSchema>;
+export type HumanTurnResponse = z.infer<typeof humanTurnResponseSchema>;
+
+// ===========================================
+// 参加者割り当て
+// ===========================================
+
+/**
+ * 人間参加者のMBTIタイプを決定
+ * 未指定時は明示リスト・除外指定に含まれないタイプからランダムに割り当てる
+ */
+export function resolveHumanParticipant(
+  input: { name: string; mbtiType?: MBTIType },
+  selection: ParticipantSelection = {},
+  random: RandomSource = Math.random
+): HumanParticipant {
+  if (input.mbtiType) {
+    return { name: input.name, mbtiType: input.mbtiType, typeAssigned: false };
+  }
+
+  const unavailableTypes = [...(selection.types ?? []), ...(selection.exclude ?? [])];
+  const candidates = ALL_MBTI_TYPES.filter(type => !unavailableTypes.includes(type));
+  if (candidates.length === 0) {
+    throw new Error('人間参加者に割り当てられるMBTIタイプがありません（mbtiType を指定してください）');
+  }
+
+  const mbtiType = candidates[Math.floor(random() * candidates.length)];
+  return { name: input.name, mbtiType, typeAssigned: true };
+}
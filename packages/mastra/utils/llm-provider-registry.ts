@@ -0,0 +1,286 @@
+import { readFileSync } from 'fs';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import type { LanguageModelV1 } from '@ai-sdk/provider';
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import { z } from 'zod';
+
+import type { MBTIType } from '../types/mbti-types';
+import {
+  createBedrockModel,
+  createMBTIOptimizedModel,
+  MBTI_MODEL_PREFERENCES,
+  type BedrockModelType
+} from './bedrock-config';
+import { createScriptedModel } from './scripted-language-model';
+import {
+  DEFAULT_DISCUSSION_SESSION_ID,
+  discussionSessionRegistry,
+  getDiscussionSessionId
+} from './discussion-session';
+
+/**
+ * LLMプロバイダーレジストリ
+ * Bedrock / Anthropic直接 / OpenAI互換ローカルサーバー / スクリプト応答モデルを
+ * 実行単位・MBTIタイプ単位で切り替え可能にする
+ */
+
+// ===========================================
+// 型定義
+// ===========================================
+
+/**
+ * 組み込みプロバイダーID（registerで独自プロバイダーも追加可能）
+ */
+export type BuiltinLLMProviderId = 'bedrock' | 'anthropic' | 'openai-compatible' | 'scripted';
+
+/**
+ * モデル選択の対象（MBTIタイプまたはオーケストレーター）
+ */
+export type AgentModelKey = MBTIType | 'ORCHESTRATOR';
+
+/**
+ * 1エージェント分のモデル選択
+ */
+export const llmSelectionSchema = z.object({
+  provider: z.string().describe('Provider id (bedrock | anthropic | openai-compatible | scripted | custom)'),
+  model: z.string().optional().describe('Provider specific model id'),
+  baseURL: z.string().optional().describe('Base URL for OpenAI-compatible servers'),
+  responses: z.array(z.string()).optional().describe('Canned responses for the scripted provider')
+});
+
+/**
+ * 実行単位のモデル設定（perType が default より優先）
+ */
+export const llmRunConfigSchema = z.object({
+  default: llmSelectionSchema.optional(),
+  perType: z.record(llmSelectionSchema).optional()
+});
+
+export type LLMSelection = z.infer<typeof llmSelectionSchema>;
+export type LLMRunConfiguration = z.infer<typeof llmRunConfigSchema>;
+
+/**
+ * プロバイダーファクトリー
+ */
+export interface LLMProviderFactory {
+  id: string;
+  description: string;
+  createModel(selection: LLMSelection, agentKey: AgentModelKey): LanguageModelV1;
+}
+
+/**
+ * RuntimeContext に実行単位のモデル設定を格納するキー
+ */
+export const LLM_RUNTIME_CONTEXT_KEY = 'm-ads-llm-config';
+
+// ===========================================
+// レジストリ
+// ===========================================
+
+export class LLMProviderRegistry {
+  private providers = new Map<string, LLMProviderFactory>();
+  // 議論セッション（runId）単位のモデルキャッシュ
+  // ステップごとに設定オブジェクトが複製されてもスクリプト応答の呼び出し順を議論全体で引き継ぎ、
+  // 並行実行・連続実行される議論同士では呼び出し順を共有しない
+  private modelCache = new Map<string, Map<AgentModelKey, LanguageModelV1>>();
+
+  /**
+   * プロバイダーを登録（同一IDは上書き）
+   */
+  register(factory: LLMProviderFactory): this {
+    this.providers.set(factory.id, factory);
+    return this;
+  }
+
+  /**
+   * プロバイダーを削除
+   */
+  unregister(id: string): boolean {
+    return this.providers.delete(id);
+  }
+
+  has(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  /**
+   * 登録済みプロバイダー一覧
+   */
+  list(): Array<{ id: string; description: string }> {
+    return Array.from(this.providers.values()).map(({ id, description }) => ({ id, description }));
+  }
+
+  /**
+   * 選択内容からモデルを作成
+   */
+  createModel(selection: LLMSelection, agentKey: AgentModelKey): LanguageModelV1 {
+    const factory = this.providers.get(selection.provider);
+    if (!factory) {
+      throw new Error(`未登録のLLMプロバイダーです: ${selection.provider} (登録済み: ${Array.from(this.providers.keys()).join(', ')})`);
+    }
+    return factory.createModel(selection, agentKey);
+  }
+
+  /**
+   * 実行設定に基づきエージェントのモデルを解決（セッション内では同じモデルを再利用）
+   */
+  resolveModel(agentKey: AgentModelKey, config: LLMRunConfiguration, sessionId: string): LanguageModelV1 {
+    let cache = this.modelCache.get(sessionId);
+    if (!cache) {
+      cache = new Map();
+      this.modelCache.set(sessionId, cache);
+    }
+
+    const cached = cache.get(agentKey);
+    if (cached) return cached;
+
+    const selection = config.perType?.[agentKey] ?? config.default ?? { provider: 'bedrock' };
+    const model = this.createModel(selection, agentKey);
+    cache.set(agentKey, model);
+    return model;
+  }
+
+  /**
+   * セッションのモデルキャッシュを破棄（議論セッションの解放時に呼ばれる）
+   */
+  releaseSession(sessionId: string): boolean {
+    return this.modelCache.delete(sessionId);
+  }
+}
+
+// ===========================================
+// 組み込みプロバイダー
+// ===========================================
+
+const bedrockProvider: LLMProviderFactory = {
+  id: 'bedrock',
+  description: 'Amazon Bedrock (Claude)',
+  createModel(selection, agentKey) {
+    if (selection.model) {
+      return createBedrockModel(selection.model as BedrockModelType);
+    }
+    return agentKey === 'ORCHESTRATOR'
+      ? createBedrockModel(MBTI_MODEL_PREFERENCES.ORCHESTRATOR)
+      : createMBTIOptimizedModel(agentKey);
+  }
+};
+
+const anthropicProvider: LLMProviderFactory = {
+  id: 'anthropic',
+  description: 'Anthropic API (ANTHROPIC_API_KEY)',
+  createModel(selection) {
+    const anthropic = createAnthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+    return anthropic(selection.model || process.env.ANTHROPIC_MODEL || 'claude-3-7-sonnet-20250219');
+  }
+};
+
+const openAICompatibleProvider: LLMProviderFactory = {
+  id: 'openai-compatible',
+  description: 'OpenAI互換ローカルサーバー (Ollama, LM Studio, vLLM 等)',
+  createModel(selection) {
+    const provider = createOpenAICompatible({
+      name: 'openai-compatible',
+      baseURL: selection.baseURL || process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:11434/v1',
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY
+    });
+    return provider.chatModel(selection.model || process.env.OPENAI_COMPATIBLE_MODEL || 'llama3.1');
+  }
+};
+
+/**
+ * スクリプトファイル（JSON）から応答を読み込み
+ * 形式: string[] または { [MBTIタイプ | "ORCHESTRATOR" | "default"]: string[] }
+ */
+function loadScriptedResponses(filePath: string, agentKey: AgentModelKey): string[] | undefined {
+  const script = JSON.parse(readFileSync(filePath, 'utf-8')) as string[] | Record<string, string[]>;
+  if (Array.isArray(script)) return script;
+  return script[agentKey] ?? script.default;
+}
+
+const scriptedProvider: LLMProviderFactory = {
+  id: 'scripted',
+  description: 'スクリプト応答モデル（決定的・オフライン）',
+  createModel(selection, agentKey) {
+    const scriptFile = selection.model || process.env.M_ADS_SCRIPTED_RESPONSES_FILE;
+    const responses = selection.responses ?? (scriptFile ? loadScriptedResponses(scriptFile, agentKey) : undefined);
+    return createScriptedModel(agentKey, { responses });
+  }
+};
+
+/**
+ * 組み込みプロバイダーを登録したレジストリを作成
+ */
+export function createDefaultLLMProviderRegistry(): LLMProviderRegistry {
+  return new LLMProviderRegistry()
+    .register(bedrockProvider)
+    .register(anthropicProvider)
+    .register(openAICompatibleProvider)
+    .register(scriptedProvider);
+}
+
+/**
+ * 共通レジストリ
+ */
+export const llmProviderRegistry = createDefaultLLMProviderRegistry();
+
+discussionSessionRegistry.onRelease(sessionId => {
+  llmProviderRegistry.releaseSession(sessionId);
+});
+
+// ===========================================
+// エージェント用モデル解決
+// ===========================================
+
+/**
+ * 環境変数から既定の実行設定を構築
+ * M_ADS_LLM_PROVIDER / M_ADS_LLM_MODEL（未指定時はBedrock）
+ */
+function createEnvironmentRunConfiguration(): LLMRunConfiguration {
+  const provider = process.env.M_ADS_LLM_PROVIDER;
+  if (!provider) return {};
+  return {
+    default: {
+      provider,
+      model: process.env.M_ADS_LLM_MODEL || undefined
+    }
+  };
+}
+
+let environmentRunConfiguration: LLMRunConfiguration | null = null;
+
+/**
+ * 実行設定（RuntimeContext優先、なければ環境変数）でモデルを解決
+ * モデルは RuntimeContext の議論セッション単位でキャッシュする
+ */
+export function resolveAgentModel(
+  agentKey: AgentModelKey,
+  runtimeContext?: RuntimeContext
+): LanguageModelV1 {
+  const sessionId = getDiscussionSessionId(runtimeContext);
+  const runConfig = runtimeContext?.get(LLM_RUNTIME_CONTEXT_KEY) as LLMRunConfiguration | undefined;
+  if (runConfig) {
+    return llmProviderRegistry.resolveModel(agentKey, runConfig, sessionId);
+  }
+
+  if (!environmentRunConfiguration) {
+    environmentRunConfiguration = createEnvironmentRunConfiguration();
+  }
+  return llmProviderRegistry.resolveModel(agentKey, environmentRunConfiguration, sessionId);
+}
+
+/**
+ * Agent の model に渡す動的リゾルバーを作成
+ */
+export function createAgentModelResolver(agentKey: AgentModelKey) {
+  return ({ runtimeContext }: { runtimeContext: RuntimeContext }) =>
+    resolveAgentModel(agentKey, runtimeContext);
+}
+
+/**
+ * 環境変数由来の実行設定と共有セッションのモデルキャッシュをリセット（テスト用）
+ */
+export function resetEnvironmentModelCache(): void {
+  environmentRunConfiguration = null;
+  llmProviderRegistry.releaseSession(DEFAULT_DISCUSSION_SESSION_ID);
+}
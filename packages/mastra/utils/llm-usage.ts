@@ -0,0 +1,326 @@
+import { readFileSync } from 'fs';
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import { z } from 'zod';
+
+import { BEDROCK_MODEL_PRICING, type ModelPricing } from './bedrock-config';
+
+/**
+ * LLM使用量・コスト計測
+ * 各モデル呼び出しのトークン数・レイテンシを記録し、エージェント別・フェーズ別・実行全体で集計する
+ * コストはモデル単価表（既定はBedrockモデルの単価）から見積もる
+ */
+
+// ===========================================
+// 型定義
+// ===========================================
+
+/**
+ * 呼び出しの用途
+ */
+export const llmCallPurposeSchema = z.enum(['turn', 'intervention', 'summary', 'judge', 'vote']);
+
+/**
+ * 1回のモデル呼び出しの記録（議論状態に保存するためシリアライズ可能な値のみ）
+ */
+export const llmUsageRecordSchema = z.object({
+  agent: z.string().describe('MBTI type, ORCHESTRATOR or JUDGE'),
+  purpose: llmCallPurposeSchema,
+  model: z.string(),
+  phase: z.number().optional(),
+  phaseName: z.string().optional(),
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  totalTokens: z.number(),
+  latencyMs: z.number(),
+  estimatedCostUSD: z.number().optional().describe('Undefined when the model has no price in the price table')
+});
+
+export const llmUsageTotalsSchema = z.object({
+  calls: z.number(),
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  totalTokens: z.number(),
+  latencyMs: z.number(),
+  estimatedCostUSD: z.number(),
+  unpricedCalls: z.number().describe('Calls excluded from the cost estimate (no price for the model)')
+});
+
+export const llmUsageSummarySchema = z.object({
+  total: llmUsageTotalsSchema,
+  byAgent: z.record(llmUsageTotalsSchema),
+  byPhase: z.array(llmUsageTotalsSchema.extend({
+    phase: z.number().nullable(),
+    phaseName: z.string().nullable().describe('Null for calls outside a phase (summary)')
+  })),
+  byPurpose: z.record(llmUsageTotalsSchema),
+  byModel: z.record(llmUsageTotalsSchema)
+});
+
+export type LLMCallPurpose = z.infer<typeof llmCallPurposeSchema>;
+export type LLMUsageRecord = z.infer<typeof llmUsageRecordSchema>;
+export type LLMUsageTotals = z.infer<typeof llmUsageTotalsSchema>;
+export type LLMUsageSummary = z.infer<typeof llmUsageSummarySchema>;
+
+/**
+ * generate の応答のうち使用量の取得に使う部分
+ */
+export interface LLMUsageResponse {
+  usage?: {
+    promptTokens?: number;
+    completionTokens?: number;
+    totalTokens?: number;
+  };
+  response?: {
+    modelId?: string;
+  };
+}
+
+export interface LLMCallInfo {
+  agent: string;
+  purpose: LLMCallPurpose;
+  latencyMs: number;
+}
+
+// ===========================================
+// モデル単価表
+// ===========================================
+
+export class ModelPriceTable {
+  private prices = new Map<string, ModelPricing>();
+
+  constructor(prices: Record<string, ModelPricing> = {}) {
+    Object.entries(prices).forEach(([modelId, pricing]) => this.set(modelId, pricing));
+  }
+
+  /**
+   * モデル単価を登録（同一モデルIDは上書き）
+   */
+  set(modelId: string, pricing: ModelPricing): this {
+    this.prices.set(modelId, pricing);
+    return this;
+  }
+
+  /**
+   * モデル単価を取得
+   * 完全一致がなければ、モデルIDを含む登録済みID（例: Anthropic直接のIDに対するBedrockのID）の単価を使う
+   */
+  get(modelId: string): ModelPricing | undefined {
+    const exact = this.prices.get(modelId);
+    if (exact) return exact;
+
+    const matched = Array.from(this.prices.keys()).find(registeredId => registeredId.includes(modelId));
+    return matched ? this.prices.get(matched) : undefined;
+  }
+
+  /**
+   * JSONファイルから単価を読み込み
+   * 形式: { [モデルID]: { inputPerMillionTokens, outputPerMillionTokens } }
+   */
+  load(filePath: string): this {
+    const raw = JSON.parse(readFileSync(filePath, 'utf-8')) as Record<string, Partial<ModelPricing>>;
+    Object.entries(raw).forEach(([modelId, pricing]) => {
+      if (typeof pricing?.inputPerMillionTokens !== 'number' || typeof pricing.outputPerMillionTokens !== 'number') {
+        throw new Error(`モデル単価の形式が不正です: ${modelId}（inputPerMillionTokens / outputPerMillionTokens が必要です）`);
+      }
+      this.set(modelId, { inputPerMillionTokens: pricing.inputPerMillionTokens, outputPerMillionTokens: pricing.outputPerMillionTokens });
+    });
+    return this;
+  }
+
+  /**
+   * 呼び出しコストを見積もり（単価未登録のモデルは undefined）
+   */
+  estimate(modelId: string, promptTokens: number, completionTokens: number): number | undefined {
+    const pricing = this.get(modelId);
+    if (!pricing) return undefined;
+    return (promptTokens * pricing.inputPerMillionTokens + completionTokens * pricing.outputPerMillionTokens) / 1_000_000;
+  }
+
+  list(): Array<{ modelId: string } & ModelPricing> {
+    return Array.from(this.prices.entries()).map(([modelId, pricing]) => ({ modelId, ...pricing }));
+  }
+}
+
+/**
+ * 既定の単価表を作成（Bedrockモデルの単価 + M_ADS_MODEL_PRICING_FILE）
+ */
+export function createDefaultModelPriceTable(): ModelPriceTable {
+  const table = new ModelPriceTable(BEDROCK_MODEL_PRICING);
+  const pricingFile = process.env.M_ADS_MODEL_PRICING_FILE;
+  if (pricingFile) {
+    try {
+      table.load(pricingFile);
+    } catch (error) {
+      console.warn(`⚠️ モデル単価ファイルの読み込みに失敗しました（既定の単価を使用）: ${pricingFile}`, error);
+    }
+  }
+  return table;
+}
+
+/**
+ * 共通単価表
+ */
+export const modelPriceTable = createDefaultModelPriceTable();
+
+// ===========================================
+// 使用量トラッカー
+// ===========================================
+
+const toTokenCount = (value: number | undefined): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : 0;
+
+/**
+ * 議論1回分の使用量トラッカー
+ * 記録時点のフェーズ（setPhase）を各記録に付与する
+ */
+export class LLMUsageTracker {
+  private records: LLMUsageRecord[];
+  private currentPhase?: { phase: number; phaseName: string };
+
+  constructor(records: LLMUsageRecord[] = [], private readonly priceTable: ModelPriceTable = modelPriceTable) {
+    this.records = [...records];
+  }
+
+  /**
+   * 以降の記録に付与するフェーズを設定（未指定でフェーズ外）
+   */
+  setPhase(phase?: { phase: number; phaseName: string }): void {
+    this.currentPhase = phase;
+  }
+
+  /**
+   * generate の応答から使用量を記録
+   */
+  recordResponse(response: LLMUsageResponse, call: LLMCallInfo): LLMUsageRecord {
+    const promptTokens = toTokenCount(response.usage?.promptTokens);
+    const completionTokens = toTokenCount(response.usage?.completionTokens);
+    const model = response.response?.modelId ?? 'unknown';
+
+    const record: LLMUsageRecord = {
+      agent: call.agent,
+      purpose: call.purpose,
+      model,
+      phase: this.currentPhase?.phase,
+      phaseName: this.currentPhase?.phaseName,
+      promptTokens,
+      completionTokens,
+      totalTokens: toTokenCount(response.usage?.totalTokens) || promptTokens + completionTokens,
+      latencyMs: call.latencyMs,
+      estimatedCostUSD: this.priceTable.estimate(model, promptTokens, completionTokens)
+    };
+    this.records.push(record);
+    return record;
+  }
+
+  getRecords(): LLMUsageRecord[] {
+    return [...this.records];
+  }
+
+  summarize(): LLMUsageSummary {
+    return summarizeLLMUsage(this.records);
+  }
+}
+
+// ===========================================
+// 集計
+// ===========================================
+
+function createEmptyTotals(): LLMUsageTotals {
+  return {
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    latencyMs: 0,
+    estimatedCostUSD: 0,
+    unpricedCalls: 0
+  };
+}
+
+function addToTotals(totals: LLMUsageTotals, record: LLMUsageRecord): void {
+  totals.calls++;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.totalTokens += record.totalTokens;
+  totals.latencyMs += record.latencyMs;
+  if (record.estimatedCostUSD === undefined) {
+    totals.unpricedCalls++;
+  } else {
+    totals.estimatedCostUSD += record.estimatedCostUSD;
+  }
+}
+
+function addToGroup(groups: Record<string, LLMUsageTotals>, key: string, record: LLMUsageRecord): void {
+  if (!groups[key]) {
+    groups[key] = createEmptyTotals();
+  }
+  addToTotals(groups[key], record);
+}
+
+/**
+ * 使用量の記録をエージェント別・フェーズ別・用途別・モデル別に集計
+ * フェーズ別は実行順（フェーズ外の呼び出しは phase: null として末尾）
+ */
+export function summarizeLLMUsage(records: LLMUsageRecord[]): LLMUsageSummary {
+  const summary: LLMUsageSummary = {
+    total: createEmptyTotals(),
+    byAgent: {},
+    byPhase: [],
+    byPurpose: {},
+    byModel: {}
+  };
+
+  records.forEach(record => {
+    addToTotals(summary.total, record);
+    addToGroup(summary.byAgent, record.agent, record);
+    addToGroup(summary.byPurpose, record.purpose, record);
+    addToGroup(summary.byModel, record.model, record);
+
+    const phase = record.phase ?? null;
+    let phaseTotals = summary.byPhase.find(entry => entry.phase === phase);
+    if (!phaseTotals) {
+      phaseTotals = { phase, phaseName: record.phaseName ?? null, ...createEmptyTotals() };
+      summary.byPhase.push(phaseTotals);
+    }
+    addToTotals(phaseTotals, record);
+  });
+
+  summary.byPhase.sort((a, b) => (a.phase ?? Number.MAX_SAFE_INTEGER) - (b.phase ?? Number.MAX_SAFE_INTEGER));
+  return summary;
+}
+
+/**
+ * 見積もりコストを表示用に整形
+ */
+export function formatEstimatedCost(totals: LLMUsageTotals): string {
+  const cost = `$${totals.estimatedCostUSD.toFixed(4)}`;
+  return totals.unpricedCalls > 0 ? `${cost} (+${totals.unpricedCalls} unpriced)` : cost;
+}
+
+// ===========================================
+// RuntimeContext 連携
+// ===========================================
+
+/**
+ * RuntimeContext に議論の使用量トラッカーを格納するキー
+ */
+export const LLM_USAGE_CONTEXT_KEY = 'mads:llm-usage-tracker';
+
+/**
+ * RuntimeContext に使用量トラッカーを設定（ステップから呼ぶ総括・介入が同じトラッカーに記録する）
+ */
+export function bindLLMUsageTracker(runtimeContext: RuntimeContext, tracker: LLMUsageTracker): void {
+  runtimeContext.set(LLM_USAGE_CONTEXT_KEY, tracker);
+}
+
+/**
+ * RuntimeContext の使用量トラッカーに応答の使用量を記録（トラッカー未設定時は何もしない）
+ */
+export function recordLLMUsage(
+  runtimeContext: RuntimeContext | undefined,
+  response: LLMUsageResponse,
+  call: LLMCallInfo
+): void {
+  const tracker = runtimeContext?.get(LLM_USAGE_CONTEXT_KEY) as LLMUsageTracker | undefined;
+  tracker?.recordResponse(response, call);
+}
@@ -1,14 +1,77 @@
-import type { DiscussionStatement } from '../types/mbti-types';
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import type { DiscussionStatement, OrchestratorInterventionType } from '../types/mbti-types';
+import type { ConversationFlowTurn } from './discussion-progress';
+import { resolveDiscussionLanguage, type DiscussionLanguage } from './discussion-language';
+import { recordLLMUsage } from './llm-usage';
+import { createComponentLogger } from './discussion-logger';
 
 /**
  * オーケストレーター介入結果の型定義
  */
 export interface OrchestratorIntervention {
     interventionExecuted: boolean;
-    interventionType: string;
+    interventionType: OrchestratorInterventionType | 'none' | 'error';
     guidance: string;
 }
 
+// 介入ターンの発言者（会話フロー上の speakerMbtiType / speakerAgentId）
+export const ORCHESTRATOR_SPEAKER_TYPE = 'ORCHESTRATOR';
+export const ORCHESTRATOR_AGENT_ID = 'M-ADS-Orchestrator';
+
+/**
+ * 介入種別の表示名（議論言語ごと）
+ */
+export const INTERVENTION_TYPE_LABELS: Record<DiscussionLanguage, Record<OrchestratorInterventionType, string>> = {
+    ja: {
+        diversity_boost: '多様性の促進',
+        consistency_improvement: '論理的一貫性の改善',
+        convergence_facilitation: '合意形成の促進'
+    },
+    en: {
+        diversity_boost: 'Diversity boost',
+        consistency_improvement: 'Consistency improvement',
+        convergence_facilitation: 'Convergence facilitation'
+    }
+};
+
+/**
+ * 介入プロンプトの文言（議論言語ごと、スコアは%表記の文字列）
+ */
+const INTERVENTION_PROMPTS: Record<DiscussionLanguage, {
+    guidance: Record<OrchestratorInterventionType, (score: string) => string>;
+    system: string;
+    request: (guidancePrompt: string, recentStatements: string) => string;
+}> = {
+    ja: {
+        guidance: {
+            diversity_boost: score => `議論の多様性が不足しています（${score}%）。` +
+                `参加者により多角的な視点や異なる解釈を促すための指導をお願いします。`,
+            consistency_improvement: score => `議論の論理的一貫性に課題があります（${score}%）。` +
+                `議論の構造化と論点の整理を行ってください。`,
+            convergence_facilitation: score => `合意形成が困難な状況です（${score}%）。` +
+                `共通点の発見と建設的な解決策の模索を促進してください。`
+        },
+        system: `あなたは議論の品質を監視し、必要に応じて参加者を指導するオーケストレーターです。`,
+        request: (guidancePrompt, recentStatements) => `${guidancePrompt}\n\n現在の議論状況:\n` +
+            `最近の発言: ${recentStatements}\n\n` +
+            `具体的な改善指導を200文字以内で提供してください。`
+    },
+    en: {
+        guidance: {
+            diversity_boost: score => `The discussion lacks diversity (${score}%). ` +
+                `Please guide the participants toward more varied perspectives and alternative interpretations.`,
+            consistency_improvement: score => `The discussion has logical consistency issues (${score}%). ` +
+                `Please structure the discussion and organize the key points.`,
+            convergence_facilitation: score => `Consensus is proving difficult (${score}%). ` +
+                `Please help the participants find common ground and explore constructive solutions.`
+        },
+        system: `You are the orchestrator who monitors the quality of the discussion and guides participants when needed. Respond in English.`,
+        request: (guidancePrompt, recentStatements) => `${guidancePrompt}\n\nCurrent state of the discussion:\n` +
+            `Recent statements: ${recentStatements}\n\n` +
+            `Provide specific guidance for improvement in 80 words or fewer.`
+    }
+};
+
 /**
  * オーケストレーター介入システム
  * 品質メトリクスに基づいて必要に応じて議論を指導
@@ -17,7 +80,8 @@ export async function executeOrchestratorIntervention(
     orchestrator: any,
     qualityMetrics: any,
     currentPhase: string,
-    statements: DiscussionStatement[]
+    statements: DiscussionStatement[],
+    runtimeContext?: RuntimeContext
 ): Promise<OrchestratorIntervention> {
     // 介入条件の判定
     const needsIntervention =
@@ -34,36 +98,39 @@ export async function executeOrchestratorIntervention(
     }
 
     // 介入タイプの決定
-    let interventionType = '';
-    let guidancePrompt = '';
+    let interventionType: OrchestratorInterventionType = 'diversity_boost';
+    let score = 0;
 
     if (qualityMetrics.diversityScore < 0.6) {
         interventionType = 'diversity_boost';
-        guidancePrompt = `議論の多様性が不足しています（${(qualityMetrics.diversityScore * 100).toFixed(0)}%）。` +
-            `参加者により多角的な視点や異なる解釈を促すための指導をお願いします。`;
+        score = qualityMetrics.diversityScore;
     } else if (qualityMetrics.consistencyScore < 0.7) {
         interventionType = 'consistency_improvement';
-        guidancePrompt = `議論の論理的一貫性に課題があります（${(qualityMetrics.consistencyScore * 100).toFixed(0)}%）。` +
-            `議論の構造化と論点の整理を行ってください。`;
+        score = qualityMetrics.consistencyScore;
     } else if (qualityMetrics.convergenceEfficiency < 0.5) {
         interventionType = 'convergence_facilitation';
-        guidancePrompt = `合意形成が困難な状況です（${(qualityMetrics.convergenceEfficiency * 100).toFixed(0)}%）。` +
-            `共通点の発見と建設的な解決策の模索を促進してください。`;
+        score = qualityMetrics.convergenceEfficiency;
     }
 
+    const prompts = INTERVENTION_PROMPTS[resolveDiscussionLanguage(runtimeContext)];
+    const guidancePrompt = prompts.guidance[interventionType]((score * 100).toFixed(0));
+
     try {
+        const startedAt = Date.now();
         const response = await orchestrator.generate([
             {
                 role: 'system',
-                content: `あなたは議論の品質を監視し、必要に応じて参加者を指導するオーケストレーターです。`
+                content: prompts.system
             },
             {
                 role: 'user',
-                content: `${guidancePrompt}\n\n現在の議論状況:\n` +
-                    `最近の発言: ${statements.slice(-3).map(s => `${s.mbtiType}: ${s.content.substring(0, 100)}...`).join('\n')}\n\n` +
-                    `具体的な改善指導を200文字以内で提供してください。`
+                content: prompts.request(
+                    guidancePrompt,
+                    statements.slice(-3).map(s => `${s.mbtiType}: ${s.content.substring(0, 100)}...`).join('\n')
+                )
             }
-        ]);
+        ], { runtimeContext });
+        recordLLMUsage(runtimeContext, response, { agent: 'ORCHESTRATOR', purpose: 'intervention', latencyMs: Date.now() - startedAt });
 
         return {
             interventionExecuted: true,
@@ -72,7 +139,8 @@ export async function executeOrchestratorIntervention(
         };
 
     } catch (error) {
-        console.warn(`⚠️ オーケストレーター介入でエラーが発生: ${error}`);
+        createComponentLogger('OrchestratorIntervention', runtimeContext)
+            .warn('⚠️ オーケストレーター介入でエラーが発生:', { error });
         return {
             interventionExecuted: false,
             interventionType: 'error',
@@ -81,6 +149,45 @@ export async function executeOrchestratorIntervention(
     }
 }
 
+/**
+ * 実行された介入を会話フローのターンとして作成（介入なし・エラー時はnull）
+ * 発言ではないため品質スコア・重みは0とし、評価・参加バランスの集計からは除外する
+ */
+export function createInterventionTurn(
+    intervention: OrchestratorIntervention,
+    turnNumber: number
+): ConversationFlowTurn | null {
+    if (!intervention.interventionExecuted || intervention.interventionType === 'none' || intervention.interventionType === 'error') {
+        return null;
+    }
+
+    return {
+        turnNumber,
+        speakerAgentId: ORCHESTRATOR_AGENT_ID,
+        speakerMbtiType: ORCHESTRATOR_SPEAKER_TYPE,
+        speakerKind: 'orchestrator',
+        interventionType: intervention.interventionType,
+        statement: intervention.guidance,
+        timestamp: new Date().toISOString(),
+        confidence: 0,
+        relevance: 0,
+        dynamicWeight: 0,
+        qualityContribution: 0,
+        realtimeOptimization: {
+            weightAdjustment: 0,
+            graphOptimization: false,
+            qualityImprovement: 0
+        }
+    };
+}
+
+/**
+ * オーケストレーター介入のターンか判定
+ */
+export function isOrchestratorTurn(turn: Pick<ConversationFlowTurn, 'speakerKind'>): boolean {
+    return turn.speakerKind === 'orchestrator';
+}
+
 /**
  * 特定の問題パターンに対する介入戦略
  */
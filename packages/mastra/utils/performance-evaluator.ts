@@ -1,5 +1,6 @@
 import type { MBTIType, DiscussionStatement } from '../types/mbti-types';
 import type { ComprehensiveQualityEvaluator } from './comprehensive-quality-evaluator';
+import { discussionLogger } from './discussion-logger';
 
 /**
  * パフォーマンスフィードバック結果の型定義
@@ -272,7 +273,7 @@ async function evaluateStatementWith7Dimensions(
       overallQuality: evaluation.overallQuality
     };
   } catch (error) {
-    console.warn('7次元品質評価でエラーが発生しました:', error);
+    discussionLogger.child({ component: 'PerformanceEvaluator' }).warn('⚠️ 7次元品質評価でエラーが発生しました:', { error });
     // エラー時のフォールバック
     return {
       performance: 0.7,
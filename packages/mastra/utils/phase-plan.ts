@@ -0,0 +1,297 @@
+import { z } from 'zod';
+import type { MBTIType } from '../types/mbti-types';
+import type { DiscussionPhase } from '../types/feedback-system-types';
+import { selectNextSpeakerByWeight } from './discussion-helpers';
+import type { RandomSource } from './seeded-random';
+import { DEFAULT_DISCUSSION_LANGUAGE, type DiscussionLanguage } from './discussion-language';
+
+/**
+ * 宣言的フェーズプラン
+ * フェーズ名・ターン予算・発言者選択ポリシー・終了条件をワークフロー入力で指定し、
+ * ワークフローを編集せずに短いブレスト・長い討論・合意形成のみの議論などを実行できるようにする
+ */
+
+// ===========================================
+// スキーマ定義
+// ===========================================
+
+/**
+ * 発言者選択ポリシー
+ * - round-robin: 参加者順に発言（初期ラウンド向け）
+ * - weighted: 重み・発言間隔・成績・フェーズ適応性による確率選択
+ * - random: 一様ランダム選択
+ */
+export const speakerSelectionPolicySchema = z.enum(['round-robin', 'weighted', 'random']);
+
+/**
+ * フェーズ終了条件（指標が閾値以上になった時点でターン予算を残して終了）
+ * - convergence: 議論全体の合意形成度（7次元評価の consensusBuilding）
+ * - quality: フェーズ内発言の平均品質
+ */
+export const phaseExitConditionSchema = z.object({
+  metric: z.enum(['convergence', 'quality']).describe('Metric checked after each turn'),
+  threshold: z.number().min(0).max(1).describe('Exit the phase when the metric reaches this value'),
+  minTurns: z.number().int().min(1).default(1).describe('Minimum turns before the exit condition is checked')
+});
+
+export const phaseDefinitionSchema = z.object({
+  name: z.string().min(1).describe('Display name of the phase'),
+  type: z.enum(['initial', 'interaction', 'synthesis', 'consensus']).describe('Phase type used for prompts and evaluation'),
+  rounds: z.number().int().min(1).max(8).default(1).describe('Turn budget in rounds (one round = one turn per participant)'),
+  turns: z.number().int().min(1).max(128).optional().describe('Absolute turn budget (overrides rounds)'),
+  speakerSelection: speakerSelectionPolicySchema.default('weighted').describe('Speaker selection policy'),
+  optimize: z.boolean().optional().describe('Run realtime optimization and weight adjustment (default: all but initial phases)'),
+  exitCondition: phaseExitConditionSchema.optional().describe('Early exit condition')
+});
+
+export const phasePlanSchema = z.array(phaseDefinitionSchema).min(1).max(12);
+
+export const PHASE_PLAN_PRESET_NAMES = ['standard', 'brainstorm', 'debate', 'consensus-only'] as const;
+
+/**
+ * ワークフロー入力用（プリセット名または明示的なフェーズ配列）
+ */
+export const phasePlanInputSchema = z.union([z.enum(PHASE_PLAN_PRESET_NAMES), phasePlanSchema]);
+
+// ===========================================
+// 型定義
+// ===========================================
+
+export type SpeakerSelectionPolicy = z.infer<typeof speakerSelectionPolicySchema>;
+export type PhaseExitCondition = z.infer<typeof phaseExitConditionSchema>;
+export type PhaseDefinition = z.infer<typeof phaseDefinitionSchema>;
+export type PhasePlan = PhaseDefinition[];
+export type PhasePlanPresetName = typeof PHASE_PLAN_PRESET_NAMES[number];
+export type PhasePlanDefinitionInput = z.input<typeof phasePlanSchema>;
+export type PhasePlanInput = z.input<typeof phasePlanInputSchema>;
+
+/**
+ * 実行順に並べたフェーズ（通し番号付き）
+ */
+export interface ScheduledPhase {
+  phaseNumber: number;
+  definition: PhaseDefinition;
+}
+
+/**
+ * フェーズの実行結果
+ */
+export interface PhaseExecutionResult {
+  phase: number;
+  name: string;
+  type: DiscussionPhase;
+  turns: number;
+  turnBudget: number;
+  exitedEarly: boolean;
+  exitMetricValue?: number;
+}
+
+/**
+ * 発言者選択の対象となる参加者
+ */
+export interface SelectableParticipant {
+  type: MBTIType;
+  weight: number;
+  lastSpokenTurn: number;
+  performanceHistory: number[];
+}
+
+// ===========================================
+// 文言（議論言語ごと）
+// ===========================================
+
+type PresetPhaseName =
+  | 'initial' | 'interaction' | 'synthesis' | 'consensus'
+  | 'ideation' | 'ideaDevelopment'
+  | 'openingStatement' | 'rebuttal' | 'counterRebuttal' | 'issueSynthesis';
+
+interface PhasePlanText {
+  phaseNames: Record<PresetPhaseName, string>;
+  continued: (name: string) => string;
+  roundRobin: (position: number, total: number) => string;
+  random: string;
+}
+
+const PHASE_PLAN_TEXT: Record<DiscussionLanguage, PhasePlanText> = {
+  ja: {
+    phaseNames: {
+      initial: '初期議論',
+      interaction: '相互議論',
+      synthesis: '統合',
+      consensus: '合意形成',
+      ideation: 'アイデア出し',
+      ideaDevelopment: 'アイデア発展',
+      openingStatement: '立場表明',
+      rebuttal: '反論',
+      counterRebuttal: '再反論',
+      issueSynthesis: '論点統合'
+    },
+    continued: name => `${name}（継続）`,
+    roundRobin: (position, total) => `順番発言（${position}/${total}）`,
+    random: 'ランダム選択'
+  },
+  en: {
+    phaseNames: {
+      initial: 'Opening discussion',
+      interaction: 'Interaction',
+      synthesis: 'Synthesis',
+      consensus: 'Consensus building',
+      ideation: 'Ideation',
+      ideaDevelopment: 'Idea development',
+      openingStatement: 'Opening statements',
+      rebuttal: 'Rebuttal',
+      counterRebuttal: 'Counter-rebuttal',
+      issueSynthesis: 'Issue synthesis'
+    },
+    continued: name => `${name} (continued)`,
+    roundRobin: (position, total) => `Round-robin (${position}/${total})`,
+    random: 'Random selection'
+  }
+};
+
+// ===========================================
+// プリセット
+// ===========================================
+
+/**
+ * プリセットのフェーズプランを議論言語のフェーズ名で作成（standard は従来の「初期ラウンド + 3フェーズ」と同等）
+ */
+function createPhasePlanPresets(names: Record<PresetPhaseName, string>): Record<PhasePlanPresetName, PhasePlanDefinitionInput> {
+  return {
+    standard: [
+      { name: names.initial, type: 'initial', speakerSelection: 'round-robin' },
+      { name: names.interaction, type: 'interaction' },
+      { name: names.synthesis, type: 'synthesis' },
+      { name: names.consensus, type: 'consensus' }
+    ],
+    brainstorm: [
+      { name: names.ideation, type: 'initial', speakerSelection: 'round-robin' },
+      { name: names.ideaDevelopment, type: 'interaction', speakerSelection: 'random' }
+    ],
+    debate: [
+      { name: names.openingStatement, type: 'initial', speakerSelection: 'round-robin' },
+      { name: names.rebuttal, type: 'interaction', rounds: 2 },
+      { name: names.counterRebuttal, type: 'interaction', rounds: 2 },
+      { name: names.issueSynthesis, type: 'synthesis' },
+      { name: names.consensus, type: 'consensus', rounds: 2, exitCondition: { metric: 'convergence', threshold: 0.8, minTurns: 2 } }
+    ],
+    'consensus-only': [
+      { name: names.consensus, type: 'consensus', rounds: 3, exitCondition: { metric: 'convergence', threshold: 0.75, minTurns: 2 } }
+    ]
+  };
+}
+
+/**
+ * 議論言語別のプリセットのフェーズプラン
+ */
+export const PHASE_PLAN_PRESETS: Record<DiscussionLanguage, Record<PhasePlanPresetName, PhasePlanDefinitionInput>> = {
+  ja: createPhasePlanPresets(PHASE_PLAN_TEXT.ja.phaseNames),
+  en: createPhasePlanPresets(PHASE_PLAN_TEXT.en.phaseNames)
+};
+
+// ===========================================
+// プラン解決
+// ===========================================
+
+/**
+ * プリセット名またはフェーズ配列からフェーズプランを解決（既定値を適用、プリセットのフェーズ名は議論言語で付与）
+ */
+export function resolvePhasePlan(
+  input: PhasePlanInput = 'standard',
+  language: DiscussionLanguage = DEFAULT_DISCUSSION_LANGUAGE
+): PhasePlan {
+  const definitions = typeof input === 'string' ? PHASE_PLAN_PRESETS[language][input] : input;
+  if (!definitions) {
+    throw new Error(`不明なフェーズプランです: ${input} (利用可能: ${PHASE_PLAN_PRESET_NAMES.join(', ')})`);
+  }
+
+  const parsed = phasePlanSchema.safeParse(definitions);
+  if (!parsed.success) {
+    throw new Error(`フェーズプランの形式が不正です: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * 実行するフェーズ列を決定
+ * 再開時は完了済みフェーズの次から additionalPhases 分を実行し、
+ * プランの末尾を超える継続フェーズは最後のフェーズ定義を繰り返す
+ */
+export function scheduleDiscussionPhases(
+  plan: PhasePlan,
+  completedPhases: number = 0,
+  additionalPhases: number = plan.length - completedPhases,
+  language: DiscussionLanguage = DEFAULT_DISCUSSION_LANGUAGE
+): ScheduledPhase[] {
+  const lastDefinition = plan[plan.length - 1];
+  const scheduled: ScheduledPhase[] = [];
+
+  for (let index = completedPhases; index < completedPhases + additionalPhases; index++) {
+    const definition = plan[index] ?? { ...lastDefinition, name: PHASE_PLAN_TEXT[language].continued(lastDefinition.name) };
+    scheduled.push({ phaseNumber: index + 1, definition });
+  }
+
+  return scheduled;
+}
+
+/**
+ * フェーズのターン予算を算出
+ */
+export function getPhaseTurnBudget(definition: PhaseDefinition, participantCount: number): number {
+  return definition.turns ?? definition.rounds * participantCount;
+}
+
+/**
+ * フェーズでリアルタイム最適化・重み調整を行うか（未指定時は初期フェーズ以外で実行）
+ */
+export function isOptimizedPhase(definition: PhaseDefinition): boolean {
+  return definition.optimize ?? definition.type !== 'initial';
+}
+
+/**
+ * プラン全体の想定ターン数（終了条件による早期終了は考慮しない）
+ */
+export function estimatePlanTurns(plan: PhasePlan, participantCount: number): number {
+  return plan.reduce((sum, definition) => sum + getPhaseTurnBudget(definition, participantCount), 0);
+}
+
+// ===========================================
+// 発言者選択
+// ===========================================
+
+/**
+ * フェーズの発言者選択ポリシーに従って次の発言者を選択
+ * @param turnIndexInPhase フェーズ内のターン番号（0始まり、round-robin の順序に使用）
+ */
+export function selectPhaseSpeaker<T extends SelectableParticipant>(
+  policy: SpeakerSelectionPolicy,
+  participants: T[],
+  turnIndexInPhase: number,
+  currentTurn: number,
+  phaseType: DiscussionPhase,
+  random: RandomSource = Math.random,
+  language: DiscussionLanguage = DEFAULT_DISCUSSION_LANGUAGE
+): { participant: T; selectionReason: string } {
+  if (participants.length === 0) {
+    throw new Error('発言者を選択できる参加者がいません');
+  }
+
+  const text = PHASE_PLAN_TEXT[language];
+  switch (policy) {
+    case 'round-robin': {
+      const index = turnIndexInPhase % participants.length;
+      return { participant: participants[index], selectionReason: text.roundRobin(index + 1, participants.length) };
+    }
+    case 'random': {
+      const participant = participants[Math.floor(random() * participants.length)];
+      return { participant, selectionReason: text.random };
+    }
+    case 'weighted': {
+      const selection = selectNextSpeakerByWeight(participants, currentTurn, phaseType, random, language);
+      // 選択結果は重み計算用のコピーのため、元の参加者オブジェクトへ対応付ける
+      const selectedType = (selection.selectedParticipant as SelectableParticipant).type;
+      const participant = participants.find(p => p.type === selectedType) ?? participants[0];
+      return { participant, selectionReason: selection.selectionReason };
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import type {
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1StreamPart
+} from '@ai-sdk/provider';
+
+/**
+ * スクリプト応答モデル
+ * 定型応答を順番に返す決定的なLanguageModelV1実装
+ * AWS認証情報なしでワークフロー全体をオフライン実行するために使用
+ */
+
+/**
+ * スクリプト応答オプション
+ */
+export interface ScriptedModelOptions {
+  // 順番に返す定型応答（末尾に達したら先頭へ循環）
+  responses?: string[];
+  // 応答生成関数（responses より優先）
+  responder?: (prompt: string, callIndex: number) => string;
+}
+
+/**
+ * デフォルト応答の素材（エージェント名と呼び出し回数から決定的に選択）
+ */
+const DEFAULT_RESPONSE_POOL = [
+  'まず前提となる課題を整理し、長期的な影響と短期的な効果を分けて考えることが重要だと思います。',
+  '具体的な事例を踏まえると、関係者それぞれの立場や価値観を尊重した段階的な導入が現実的です。',
+  'これまでの意見に共通するのは柔軟性の確保であり、評価基準を明確にした上で検証を重ねるべきです。',
+  '一方でリスクも見逃せません。想定外の影響に備えて、見直しの仕組みを最初から組み込むことを提案します。',
+  '議論を統合すると、目的の共有、小さな実験、結果に基づく改善という流れで合意できるのではないでしょうか。'
+];
+
+/**
+ * 文字列から決定的なハッシュ値を算出
+ */
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * プロンプトをプレーンテキストへ変換
+ */
+function promptToText(options: LanguageModelV1CallOptions): string {
+  return options.prompt.map(message => {
+    if (typeof message.content === 'string') {
+      return message.content;
+    }
+    return message.content
+      .map(part => ('text' in part && typeof part.text === 'string' ? part.text : ''))
+      .join('');
+  }).join('\n');
+}
+
+/**
+ * スクリプト応答モデル
+ */
+export class ScriptedLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = 'v1' as const;
+  readonly provider = 'scripted';
+  readonly defaultObjectGenerationMode = undefined;
+  readonly modelId: string;
+
+  private callCount = 0;
+  private readonly options: ScriptedModelOptions;
+
+  constructor(modelId: string, options: ScriptedModelOptions = {}) {
+    this.modelId = modelId;
+    this.options = options;
+  }
+
+  /**
+   * 次の応答テキストを取得
+   */
+  private nextResponse(prompt: string): string {
+    const callIndex = this.callCount++;
+
+    if (this.options.responder) {
+      return this.options.responder(prompt, callIndex);
+    }
+
+    const responses = this.options.responses;
+    if (responses && responses.length > 0) {
+      return responses[callIndex % responses.length];
+    }
+
+    const poolIndex = (hashString(this.modelId) + callIndex) % DEFAULT_RESPONSE_POOL.length;
+    return `${this.modelId}の視点から述べます。${DEFAULT_RESPONSE_POOL[poolIndex]}`;
+  }
+
+  async doGenerate(options: LanguageModelV1CallOptions) {
+    const prompt = promptToText(options);
+    const text = this.nextResponse(prompt);
+
+    return {
+      text,
+      finishReason: 'stop' as const,
+      usage: {
+        promptTokens: prompt.length,
+        completionTokens: text.length
+      },
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} }
+    };
+  }
+
+  async doStream(options: LanguageModelV1CallOptions) {
+    const { text, usage, rawCall } = await this.doGenerate(options);
+
+    const stream = new ReadableStream<LanguageModelV1StreamPart>({
+      start(controller) {
+        controller.enqueue({ type: 'text-delta', textDelta: text });
+        controller.enqueue({ type: 'finish', finishReason: 'stop', usage });
+        controller.close();
+      }
+    });
+
+    return { stream, rawCall };
+  }
+
+  /**
+   * 呼び出し回数をリセット（同一スクリプトの再生用）
+   */
+  reset(): void {
+    this.callCount = 0;
+  }
+}
+
+/**
+ * スクリプト応答モデルを作成
+ */
+export function createScriptedModel(
+  modelId: string,
+  options?: ScriptedModelOptions
+): ScriptedLanguageModel {
+  return new ScriptedLanguageModel(modelId, options);
+}
@@ -0,0 +1,31 @@
+/**
+ * シード付き疑似乱数生成器
+ * 同じシードで同じ乱数列を再現し、議論実行の再現性を確保する
+ */
+
+/**
+ * 乱数ソース（Math.random 互換: [0, 1) の値を返す）
+ */
+export type RandomSource = () => number;
+
+/**
+ * ランダムなシード値を生成（シード未指定の実行でも記録・再生できるようにする）
+ */
+export function generateRandomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+/**
+ * シード付き乱数ソースを作成（Mulberry32）
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
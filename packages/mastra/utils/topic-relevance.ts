@@ -0,0 +1,310 @@
+import type { EmbeddingModelV1 } from '@ai-sdk/provider';
+import type { MBTIGroup, MBTIType } from '../types/mbti-types';
+import { ALL_MBTI_TYPES, MBTI_CHARACTERISTICS } from './mbti-characteristics';
+import { discussionLogger } from './discussion-logger';
+
+/**
+ * 話題関連性
+ * 議論トピックと各MBTIタイプのプロフィール（MBTI_CHARACTERISTICS + グループの得意分野）の類似度から
+ * タイプ別の重み修正係数を算出する
+ * 類似度の計算方法は差し替え可能（既定はオフラインで動作する TF-IDF、埋め込みモデルも利用可能）
+ */
+
+// ===========================================
+// 型定義
+// ===========================================
+
+export interface TopicSimilarityProvider {
+  id: string;
+  /** クエリと各文書の類似度（文書と同じ順序、大きいほど類似） */
+  similarities(query: string, documents: string[]): Promise<number[]>;
+}
+
+export interface TopicRelevanceScore {
+  similarity: number;
+  // 重みに掛ける修正係数（1.0 〜 1.0 + TOPIC_RELEVANCE_MAX_BOOST）
+  modifier: number;
+}
+
+export interface TopicRelevance {
+  provider: string;
+  types: Partial<Record<MBTIType, TopicRelevanceScore>>;
+}
+
+// 最も関連性の高いタイプへの重みの上乗せ幅（最も低いタイプは1.0）
+export const TOPIC_RELEVANCE_MAX_BOOST = 0.2;
+
+// ===========================================
+// タイプ別プロフィール
+// ===========================================
+
+/**
+ * グループの得意分野（日英の同義語を含めて英語のトピックや言い換えにも対応）
+ */
+export const GROUP_TOPIC_KEYWORDS: Record<MBTIGroup, string[]> = {
+  NT: [
+    '戦略', 'システム', '技術', '分析', '論理', '理論', '設計', '効率', '科学', 'イノベーション',
+    'strategy', 'strategic', 'system', 'technology', 'technical', 'analysis', 'analytics',
+    'logic', 'theory', 'architecture', 'efficiency', 'science', 'engineering', 'innovation'
+  ],
+  NF: [
+    '人間', '人間関係', '価値観', '創造性', '意味', '倫理', '共感', '幸福', '教育', '文化',
+    'people', 'human', 'values', 'creativity', 'creative', 'meaning', 'ethics', 'empathy',
+    'wellbeing', 'education', 'relationships', 'purpose', 'culture', 'society'
+  ],
+  SJ: [
+    '組織', '計画', '実装', '管理', '制度', '規則', '手順', '品質', '安全', '伝統',
+    'organization', 'planning', 'plan', 'implementation', 'management', 'policy', 'regulation',
+    'rules', 'process', 'quality', 'safety', 'compliance', 'tradition', 'stability'
+  ],
+  SP: [
+    '実用', '行動', '現実', '実践', '体験', '経験', '現場', '柔軟', '即応', '危機',
+    'practical', 'action', 'reality', 'practice', 'experience', 'hands-on', 'field',
+    'flexibility', 'adaptability', 'crisis', 'tools', 'performance', 'sports', 'design'
+  ]
+};
+
+/**
+ * 類似度計算に使うタイプのプロフィール文書
+ */
+export function buildTypeProfile(mbtiType: MBTIType): string {
+  const characteristics = MBTI_CHARACTERISTICS[mbtiType];
+  return [
+    characteristics.communicationStyle.focus,
+    characteristics.communicationStyle.approach,
+    characteristics.communicationStyle.preference,
+    characteristics.decisionMaking.primary,
+    characteristics.decisionMaking.secondary,
+    characteristics.cognitiveFunction.dominant,
+    characteristics.cognitiveFunction.auxiliary,
+    ...GROUP_TOPIC_KEYWORDS[characteristics.group]
+  ].join(' ');
+}
+
+// ===========================================
+// TF-IDF（既定・オフライン）
+// ===========================================
+
+const ENGLISH_STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'that', 'this', 'what', 'how', 'why', 'are', 'was', 'will',
+  'should', 'can', 'about', 'into', 'our', 'their', 'its', 'future', 'impact', 'role'
+]);
+
+// 英単語の簡易語幹化（strategy / strategic、system / systems 等を同一視）
+const ENGLISH_SUFFIXES = ['ations', 'ation', 'ities', 'ity', 'ing', 'ies', 'ic', 'al', 'ed', 'es', 's', 'y'];
+
+function stemEnglishWord(word: string): string {
+  for (const suffix of ENGLISH_SUFFIXES) {
+    if (word.length - suffix.length >= 4 && word.endsWith(suffix)) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+/**
+ * 英単語は語幹、日本語は漢字・カタカナの連続を文字bigram（1文字のみの場合はその文字）に分割
+ * ひらがな（助詞等）は除外
+ */
+export function tokenizeForTopicRelevance(text: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /[a-z0-9]+(?:-[a-z0-9]+)*|[㐀-䶿一-鿿゠-ヿ]+/g;
+  const normalized = text.normalize('NFKC').toLowerCase();
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(normalized)) !== null) {
+    const token = match[0];
+    if (/^[a-z0-9-]+$/.test(token)) {
+      if (token.length >= 3 && !ENGLISH_STOP_WORDS.has(token)) {
+        tokens.push(stemEnglishWord(token));
+      }
+    } else if (token.length === 1) {
+      tokens.push(token);
+    } else {
+      for (let index = 0; index < token.length - 1; index++) {
+        tokens.push(token.slice(index, index + 2));
+      }
+    }
+  }
+
+  return tokens;
+}
+
+function countTerms(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  tokens.forEach(token => counts.set(token, (counts.get(token) ?? 0) + 1));
+  return counts;
+}
+
+/**
+ * 文書集合から求めたIDFによるTF-IDFベクトルのコサイン類似度（同期版）
+ */
+export function calculateTfIdfSimilarities(query: string, documents: string[]): number[] {
+  const documentTerms = documents.map(document => countTerms(tokenizeForTopicRelevance(document)));
+  const documentFrequency = new Map<string, number>();
+  documentTerms.forEach(terms => terms.forEach((_, term) => {
+    documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+  }));
+
+  // 平滑化IDF（文書集合に現れない語は無視）
+  const toVector = (terms: Map<string, number>) => {
+    const vector = new Map<string, number>();
+    terms.forEach((count, term) => {
+      const frequency = documentFrequency.get(term);
+      if (frequency) {
+        vector.set(term, count * (Math.log((1 + documents.length) / (1 + frequency)) + 1));
+      }
+    });
+    return vector;
+  };
+  const norm = (vector: Map<string, number>) => {
+    let sum = 0;
+    vector.forEach(value => { sum += value * value; });
+    return Math.sqrt(sum);
+  };
+
+  const queryVector = toVector(countTerms(tokenizeForTopicRelevance(query)));
+  const queryNorm = norm(queryVector);
+
+  return documentTerms.map(terms => {
+    const documentVector = toVector(terms);
+    const denominator = queryNorm * norm(documentVector);
+    if (denominator === 0) return 0;
+
+    let dot = 0;
+    queryVector.forEach((value, term) => { dot += value * (documentVector.get(term) ?? 0); });
+    return dot / denominator;
+  });
+}
+
+export class TfIdfSimilarityProvider implements TopicSimilarityProvider {
+  readonly id = 'tfidf';
+
+  async similarities(query: string, documents: string[]): Promise<number[]> {
+    return calculateTfIdfSimilarities(query, documents);
+  }
+}
+
+// ===========================================
+// 埋め込みモデル
+// ===========================================
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < Math.min(a.length, b.length); index++) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * 埋め込みモデル（AI SDK の EmbeddingModelV1）による類似度
+ * プロフィール文書の埋め込みはプロバイダー単位でキャッシュする
+ */
+export function createEmbeddingSimilarityProvider(
+  model: EmbeddingModelV1<string>,
+  id: string = `embedding:${model.provider}:${model.modelId}`
+): TopicSimilarityProvider {
+  const documentEmbeddings = new Map<string, number[]>();
+
+  const embed = async (values: string[]): Promise<number[][]> => {
+    const batchSize = model.maxEmbeddingsPerCall ?? values.length;
+    const embeddings: number[][] = [];
+    for (let start = 0; start < values.length; start += batchSize) {
+      const result = await model.doEmbed({ values: values.slice(start, start + batchSize) });
+      embeddings.push(...result.embeddings);
+    }
+    return embeddings;
+  };
+
+  return {
+    id,
+    async similarities(query: string, documents: string[]): Promise<number[]> {
+      const missingDocuments = documents.filter(document => !documentEmbeddings.has(document));
+      const [queryEmbedding, ...embeddings] = await embed([query, ...missingDocuments]);
+      missingDocuments.forEach((document, index) => documentEmbeddings.set(document, embeddings[index]));
+
+      return documents.map(document => {
+        const documentEmbedding = documentEmbeddings.get(document);
+        if (!documentEmbedding) {
+          throw new Error(`埋め込みを取得できなかった文書があります: ${document.slice(0, 50)}`);
+        }
+        return cosineSimilarity(queryEmbedding, documentEmbedding);
+      });
+    }
+  };
+}
+
+// ===========================================
+// 既定プロバイダーの設定
+// ===========================================
+
+const defaultTopicSimilarityProvider = new TfIdfSimilarityProvider();
+let configuredTopicSimilarityProvider: TopicSimilarityProvider = defaultTopicSimilarityProvider;
+
+/**
+ * 話題関連性に使う類似度プロバイダーを設定（null で既定の TF-IDF に戻す）
+ */
+export function setTopicSimilarityProvider(provider: TopicSimilarityProvider | null): void {
+  configuredTopicSimilarityProvider = provider ?? defaultTopicSimilarityProvider;
+}
+
+export function getTopicSimilarityProvider(): TopicSimilarityProvider {
+  return configuredTopicSimilarityProvider;
+}
+
+// ===========================================
+// 関連性の算出
+// ===========================================
+
+/**
+ * 類似度を修正係数へ変換（全16タイプ内での相対値、差がない場合はすべて1.0）
+ */
+function toRelevanceScores(similarities: number[]): TopicRelevanceScore[] {
+  const max = Math.max(...similarities);
+  const min = Math.min(...similarities);
+  const range = max - min;
+
+  return similarities.map(similarity => ({
+    similarity,
+    modifier: range > 1e-9 ? 1 + TOPIC_RELEVANCE_MAX_BOOST * (similarity - min) / range : 1.0
+  }));
+}
+
+function pickTypes(scores: TopicRelevanceScore[], types: MBTIType[]): TopicRelevance['types'] {
+  const relevance: TopicRelevance['types'] = {};
+  types.forEach(type => {
+    relevance[type] = scores[ALL_MBTI_TYPES.indexOf(type)];
+  });
+  return relevance;
+}
+
+/**
+ * オフラインの TF-IDF による話題関連性（同期版）
+ */
+export function calculateTfIdfTopicRelevance(topic: string, types: MBTIType[] = ALL_MBTI_TYPES): TopicRelevance {
+  const scores = toRelevanceScores(calculateTfIdfSimilarities(topic, ALL_MBTI_TYPES.map(buildTypeProfile)));
+  return { provider: defaultTopicSimilarityProvider.id, types: pickTypes(scores, types) };
+}
+
+/**
+ * 設定済みプロバイダーによる話題関連性（失敗時は TF-IDF にフォールバック）
+ */
+export async function calculateTopicRelevance(
+  topic: string,
+  types: MBTIType[] = ALL_MBTI_TYPES,
+  provider: TopicSimilarityProvider = getTopicSimilarityProvider()
+): Promise<TopicRelevance> {
+  try {
+    const similarities = await provider.similarities(topic, ALL_MBTI_TYPES.map(buildTypeProfile));
+    return { provider: provider.id, types: pickTypes(toRelevanceScores(similarities), types) };
+  } catch (error) {
+    discussionLogger.child({ component: 'TopicRelevance' })
+      .warn(`⚠️ 話題関連性の算出に失敗したため TF-IDF で代替します (${provider.id}):`, { provider: provider.id, error });
+    return calculateTfIdfTopicRelevance(topic, types);
+  }
+}
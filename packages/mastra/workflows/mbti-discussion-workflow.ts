@@ -1,4 +1,6 @@
 import { createWorkflow, createStep } from '@mastra/core/workflows';
+import type { Mastra } from '@mastra/core/mastra';
+import type { RuntimeContext } from '@mastra/core/runtime-context';
 import { z } from 'zod';
 
 // 🔧 分割されたモジュールのインポート
@@ -13,12 +15,14 @@ import type {
 } from '../types/mbti-types';
 
 import {
-  selectDiverseMBTITypes,
+  selectParticipantTypes,
+  reserveParticipantTypes,
   getAgentName,
-  selectNextSpeakerByWeight,
   createPhasePrompt,
   generateStrengths,
-  generateWeaknesses
+  generateWeaknesses,
+  generateReportSummary,
+  generateReportAnalysis
 } from '../utils/discussion-helpers';
 
 import {
@@ -34,34 +38,126 @@ import {
 } from '../utils/adaptive-prompt-generator';
 
 import {
-  executeOrchestratorIntervention
+  executeOrchestratorIntervention,
+  createInterventionTurn,
+  isOrchestratorTurn
 } from '../utils/orchestrator-intervention';
 
-import {
-  RealtimeOptimizer,
-  createRealtimeOptimizer
-} from '../utils/realtime-optimizer';
-
 import {
   generateDiscussionSummary,
   type DiscussionSummary
 } from '../utils/discussion-summarizer';
 
-import { saveConversationAsMarkdown, saveConversationAsJson, type ConversationData } from '../utils/conversation-saver';
+import {
+  emitDiscussionProgress,
+  type ConversationFlowTurn
+} from '../utils/discussion-progress';
+
+import { generateRandomSeed } from '../utils/seeded-random';
+import { loadDiscussionForResume, toDiscussionStatements } from '../utils/conversation-loader';
+import {
+  phaseDefinitionSchema,
+  phasePlanInputSchema,
+  phasePlanSchema,
+  resolvePhasePlan,
+  scheduleDiscussionPhases,
+  getPhaseTurnBudget,
+  isOptimizedPhase,
+  selectPhaseSpeaker,
+  type ScheduledPhase
+} from '../utils/phase-plan';
+import {
+  createDiscussionRuntime,
+  getDiscussionRuntime,
+  releaseDiscussionRuntime,
+  type DiscussionRuntime
+} from '../utils/discussion-runtime';
+import { bindDiscussionSession, discussionSessionRegistry } from '../utils/discussion-session';
+import {
+  bindDiscussionLanguage,
+  discussionLanguageSchema,
+  DEFAULT_DISCUSSION_LANGUAGE,
+  type DiscussionLanguage
+} from '../utils/discussion-language';
+import {
+  humanParticipantInputSchema,
+  humanParticipantSchema,
+  humanTurnRequestSchema,
+  humanTurnResponseSchema,
+  resolveHumanParticipant
+} from '../utils/human-participant';
+import {
+  debateInputSchema,
+  debateSettingsSchema,
+  debateResultSchema,
+  resolveDebateSettings,
+  selectDebateSpeaker,
+  planDebateTurn,
+  toDebateTurnFields,
+  evaluateDebate,
+  getDebateTeamMembers,
+  getDebateSideLabel,
+  type DebateTurnPlan
+} from '../utils/debate-mode';
+import {
+  decisionInputSchema,
+  decisionSettingsSchema,
+  decisionResultSchema,
+  resolveDecisionSettings,
+  createDecisionGuidance,
+  createBallotPrompt,
+  parseBallot,
+  tallyDecisionVotes,
+  getVotingMethodLabel,
+  type DecisionVote
+} from '../utils/decision-mode';
+import { personaRegistry } from '../agents/agent-factory';
+import { HISTORY_PERSISTENCE_MODES, type HistoryPersistenceMode } from '../core/history/history-store';
+
+import {
+  llmRunConfigSchema,
+  LLM_RUNTIME_CONTEXT_KEY
+} from '../utils/llm-provider-registry';
+import { TRACE_ATTRIBUTES } from '../utils/discussion-tracing';
+import {
+  bindLLMUsageTracker,
+  formatEstimatedCost,
+  llmUsageRecordSchema,
+  llmUsageSummarySchema,
+  recordLLMUsage,
+  summarizeLLMUsage
+} from '../utils/llm-usage';
+
+import {
+  saveConversationAsMarkdown,
+  saveConversationAsJson,
+  type ConversationData,
+  type ParticipantStateSnapshot
+} from '../utils/conversation-saver';
 import { ComprehensiveQualityEvaluator } from '../utils/comprehensive-quality-evaluator';
+import { calculateTopicRelevance } from '../utils/topic-relevance';
 
 // 🆕 統合フィードバックシステム
-import { RealtimeFeedbackManager } from '../core/realtime-feedback-manager';
-import { FeedbackConfigurationBuilder } from '../config/feedback-configuration';
 import type { EvaluationContext } from '../types/feedback-system-types';
+import { llmJudgeSettingsSchema } from '../core/evaluators/llm-judge-evaluator';
+import { discussionLogger, type DiscussionLogger } from '../utils/discussion-logger';
 
 // 🆕 拡張された対話スキーマ（7次元評価統合）
 const enhancedConversationSchema = z.object({
   turnNumber: z.number(),
   speakerAgentId: z.string(),
   speakerMbtiType: z.string(),
+  // 🆕 発言者の種別と表示名（人間参加者の発言・オーケストレーター介入を区別）
+  speakerKind: z.enum(['agent', 'human', 'orchestrator']).optional(),
+  speakerName: z.string().optional(),
+  interventionType: z.enum(['diversity_boost', 'consistency_improvement', 'convergence_facilitation']).optional(),
   statement: z.string(),
   responseToAgent: z.string().optional(),
+  // 🆕 ディベートモードの陣営と反論先のターン番号
+  debateSide: z.enum(['pro', 'contra']).optional(),
+  rebuttalTo: z.number().optional(),
+  // 🆕 発言したフェーズの種類（再開時の再採点で使用）
+  phaseType: z.enum(['initial', 'interaction', 'synthesis', 'consensus']).optional(),
   timestamp: z.string(),
   confidence: z.number(),
   relevance: z.number(),
@@ -85,607 +181,1277 @@ const enhancedConversationSchema = z.object({
   })
 });
 
-// 🔧 品質評価エンジンのインスタンス作成
-const qualityEvaluator = new ComprehensiveQualityEvaluator();
-
-// ✨ Phase 2 完全版ステップ（大幅に簡素化）
-const executeAdvancedMBTIDiscussionStep = createStep({
-  id: 'execute-advanced-mbti-discussion',
-  description: 'Execute advanced MBTI discussion with 16 agents, 7D quality evaluation, realtime optimization, and conversation saving',
-  inputSchema: z.object({
-    topic: z.string().describe('The topic for discussion'),
-    participantCount: z.number().min(4).max(16).default(8).describe('Number of MBTI types to include'),
-    enableRealtimeOptimization: z.boolean().default(true).describe('Enable realtime optimization'),
-    enableGraphOptimization: z.boolean().default(true).describe('Enable graph topology optimization'),
-    qualityThreshold: z.number().min(0.5).max(1.0).default(0.8).describe('Minimum quality threshold'),
-    // 🆕 会話保存オプション
-    saveConversation: z.boolean().default(false).describe('Save conversation to file'),
-    outputFormat: z.enum(['markdown', 'json']).default('markdown').describe('Output format for saved conversation'),
-    outputDirectory: z.string().default('./conversations').describe('Directory to save conversation files')
-  }),
-  outputSchema: z.object({
-    topic: z.string(),
-    participantTypes: z.array(z.string()),
-    totalStatements: z.number(),
-    totalTurns: z.number(),
-    conversationFlow: z.array(enhancedConversationSchema),
-    comprehensiveMetrics: z.object({
-      // 7次元品質評価
-      performanceScore: z.number(),
-      psychologicalScore: z.number(),
-      externalAlignmentScore: z.number(),
-      internalConsistencyScore: z.number(),
-      socialDecisionScore: z.number(),
-      contentQualityScore: z.number(),
-      ethicsScore: z.number(),
-
-      // 従来メトリクス
-      diversityScore: z.number(),
-      consistencyScore: z.number(),
-      convergenceEfficiency: z.number(),
-      mbtiAlignmentScore: z.number(),
-      interactionQuality: z.number(),
-
-      // 新規メトリクス
-      argumentQuality: z.number(),
-      participationBalance: z.number(),
-      resolutionRate: z.number()
-    }),
-    realtimeOptimization: z.object({
-      optimizationCount: z.number(),
-      qualityImprovement: z.number(),
-      weightAdjustments: z.record(z.number()),
-      graphOptimizations: z.number(),
-      recommendations: z.array(z.string())
-    }),
-    advancedReport: z.object({
-      summary: z.string(),
-      strengths: z.array(z.string()),
-      weaknesses: z.array(z.string()),
-      overallScore: z.number(),
-      grade: z.string(),
-      detailedAnalysis: z.string(),
-      mbtiTypeAnalysis: z.record(z.object({
-        participationRate: z.number(),
-        qualityContribution: z.number(),
-        characteristicAlignment: z.number()
-      }))
-    }),
-    // 🆕 議論総括セクション
-    discussionSummary: z.object({
-      overview: z.string().describe('議論全体の総合概要'),
-      keyThemes: z.array(z.string()).describe('議論で扱われた主要テーマ'),
-      progressAnalysis: z.string().describe('議論の進展パターン分析'),
-      mbtiContributions: z.record(z.string()).describe('MBTIタイプ別の具体的貢献内容'),
-      consensus: z.string().describe('合意形成プロセスの分析'),
-      insights: z.array(z.string()).describe('議論から得られた重要な洞察'),
-      processCharacteristics: z.array(z.string()).describe('議論プロセスの特徴的パターン')
-    }),
-    // 🆕 会話保存結果
-    conversationSaved: z.object({
-      saved: z.boolean(),
-      filePath: z.string().optional(),
-      fileSize: z.string().optional(),
-      format: z.string().optional(),
-      error: z.string().optional()
-    }).optional()
-  }),
-  execute: async ({ inputData, mastra }) => {
-    const workflowStartTime = new Date();
-    console.log(`\n🚀 Phase 2 完全版 MBTI議論システム開始`);
-    console.log(`🎯 議論トピック: ${inputData.topic}`);
-    console.log(`👥 参加者数: ${inputData.participantCount}`);
-    console.log(`⚡ リアルタイム最適化: ${inputData.enableRealtimeOptimization ? 'ON' : 'OFF'}`);
-    console.log(`🔗 グラフ最適化: ${inputData.enableGraphOptimization ? 'ON' : 'OFF'}`);
-    if (inputData.saveConversation) {
-      console.log(`💾 会話保存: ON (${inputData.outputFormat.toUpperCase()}形式)`);
-      console.log(`📁 出力先: ${inputData.outputDirectory}`);
-    }
+// 🆕 参加者選択スキーマ（明示リスト・グループ割当・除外）
+const mbtiTypeSchema = z.enum([
+  'INTJ', 'INTP', 'ENTJ', 'ENTP',
+  'INFJ', 'INFP', 'ENFJ', 'ENFP',
+  'ISTJ', 'ISFJ', 'ESTJ', 'ESFJ',
+  'ISTP', 'ISFP', 'ESTP', 'ESFP'
+]);
+
+const participantSelectionSchema = z.object({
+  types: z.array(mbtiTypeSchema).min(2).max(16).optional().describe('Explicit MBTI types to include (overrides participantCount)'),
+  groupQuotas: z.object({
+    NT: z.number().int().min(0).max(4).optional(),
+    NF: z.number().int().min(0).max(4).optional(),
+    SJ: z.number().int().min(0).max(4).optional(),
+    SP: z.number().int().min(0).max(4).optional()
+  }).optional().describe('Number of participants per MBTI group; remaining slots are filled from the other groups'),
+  exclude: z.array(mbtiTypeSchema).optional().describe('MBTI types that must not participate')
+});
 
-    // 🔧 初期化
-    const statements: DiscussionStatement[] = [];
-    const conversationFlow: Array<{
-      turnNumber: number;
-      speakerAgentId: string;
-      speakerMbtiType: string;
-      statement: string;
-      timestamp: string;
-      confidence: number;
-      relevance: number;
-      dynamicWeight: number;
-      qualityContribution: number;
-      realtimeOptimization: {
-        weightAdjustment: number;
-        graphOptimization: boolean;
-        qualityImprovement: number;
-      };
-      sevenDimensionEvaluation?: {
-        performance: number;
-        psychological: number;
-        externalAlignment: number;
-        internalConsistency: number;
-        socialDecisionMaking: number;
-        contentQuality: number;
-        ethics: number;
-        overallQuality: number;
-      };
-      responseToAgent?: string;
-    }> = [];
-    const realtimeOptimizer = createRealtimeOptimizer();
-
-    // 🆕 統合フィードバックシステム初期化
-    console.log('🎯 統合フィードバックシステムを初期化中...');
-    const feedbackConfig = FeedbackConfigurationBuilder
-      .create()
-      .applyBalancedPreset()
-      .withQualityThresholds({
-        overallMinimum: Math.max(inputData.qualityThreshold * 0.8, 0.6), // 健全性チェック用に閾値を緩和
-        interventionThreshold: 0.5 // 介入閾値も緩和
-      })
-      .enableRealtimeOptimization(inputData.enableRealtimeOptimization)
-      .build();
-
-    const realtimeFeedbackManager = new RealtimeFeedbackManager(feedbackConfig);
+// 🆕 議論再開スキーマ（保存済みJSONからの継続・再採点）
+const resumeSchema = z.object({
+  filePath: z.string().describe('Path to a conversation JSON saved by saveConversationAsJson'),
+  additionalPhases: z.number().int().min(0).max(8).default(1).describe('Number of phases to continue (0 = re-score only)'),
+  rescoreTurns: z.boolean().default(false).describe('Re-evaluate restored turns with the current evaluators')
+});
 
-    try {
-      await realtimeFeedbackManager.initialize();
-      console.log('✅ 統合フィードバックシステム初期化完了');
-    } catch (error) {
-      console.warn('⚠️ 統合フィードバックシステム初期化で警告:', error);
-      console.log('🔄 より緩い設定で再試行中...');
-
-      // より緩い設定で再試行
-      const fallbackConfig = FeedbackConfigurationBuilder
-        .create()
-        .applyEfficiencyPreset() // より緩い効率重視プリセット
-        .withQualityThresholds({
-          overallMinimum: 0.6,
-          interventionThreshold: 0.4
-        })
-        .enableRealtimeOptimization(inputData.enableRealtimeOptimization)
-        .build();
-
-      const fallbackManager = new RealtimeFeedbackManager(fallbackConfig);
-      await fallbackManager.initialize();
-
-      // マネージャーを置き換え
-      Object.assign(realtimeFeedbackManager, fallbackManager);
-      console.log('✅ フォールバック設定で統合フィードバックシステム初期化完了');
-    }
+// 🆕 フェーズ実行結果スキーマ
+const phaseResultSchema = z.object({
+  phase: z.number(),
+  name: z.string(),
+  type: z.string(),
+  turns: z.number(),
+  turnBudget: z.number(),
+  exitedEarly: z.boolean(),
+  exitMetricValue: z.number().optional()
+});
 
-    let turnNumber = 1;
-    let optimizationCount = 0;
-    let totalQualityImprovement = 0;
-    const weightAdjustments: Record<string, number> = {};
-    let graphOptimizations = 0;
-    const allRecommendations: string[] = [];
+const participantStateSchema = z.object({
+  mbtiType: z.string(),
+  weight: z.number(),
+  lastSpokenTurn: z.number(),
+  performanceHistory: z.array(z.number())
+});
 
-    // 🎯 参加エージェント選択
-    const selectedTypes = selectDiverseMBTITypes(inputData.participantCount);
-    console.log(`📊 選択されたMBTIタイプ: ${selectedTypes.join(', ')}`);
+// 🆕 話題関連性（トピックとタイプのプロフィールの類似度、初期重みの修正係数）
+const topicRelevanceSchema = z.object({
+  provider: z.string().describe('Similarity provider used (tfidf, embedding:...)'),
+  types: z.record(z.object({
+    similarity: z.number(),
+    modifier: z.number()
+  }))
+});
 
-    // 🔧 オーケストレーター取得
-    const orchestrator = mastra?.getAgent('M-ADS-Orchestrator');
+// 🔧 品質評価エンジンのインスタンス作成（議論言語ごと）
+const qualityEvaluators: Record<DiscussionLanguage, ComprehensiveQualityEvaluator> = {
+  ja: new ComprehensiveQualityEvaluator('ja'),
+  en: new ComprehensiveQualityEvaluator('en')
+};
+
+// 🎯 発言プロンプトに添えるオーケストレーター指導の見出し（議論言語ごと）
+const ORCHESTRATOR_GUIDANCE_HEADINGS: Record<DiscussionLanguage, string> = {
+  ja: '【オーケストレーターからの指導】',
+  en: '[Guidance from the orchestrator]'
+};
+
+// ===========================================
+// スキーマ定義（ワークフロー入出力・ステップ間の議論状態）
+// ===========================================
+
+// 🆕 ワークフロー入力スキーマ
+const discussionInputSchema = z.object({
+  topic: z.string().describe('The topic for discussion'),
+  participantCount: z.number().min(4).max(16).default(8).describe('Number of MBTI types to include (including the human participant)'),
+  participants: participantSelectionSchema.optional().describe('Participant selection (explicit list, group quotas, exclusions)'),
+  enableRealtimeOptimization: z.boolean().default(true).describe('Enable realtime optimization'),
+  enableGraphOptimization: z.boolean().default(true).describe('Enable graph topology optimization'),
+  qualityThreshold: z.number().min(0.5).max(1.0).default(0.8).describe('Minimum quality threshold'),
+  // 🆕 会話保存オプション
+  saveConversation: z.boolean().default(true).describe('Save conversation to file'),
+  outputFormat: z.enum(['markdown', 'json']).default('markdown').describe('Output format for saved conversation'),
+  outputDirectory: z.string().default('./conversations').describe('Directory to save conversation files'),
+  // 🆕 LLMプロバイダー選択（実行単位・MBTIタイプ単位）
+  llm: llmRunConfigSchema.optional().describe('LLM provider selection for this run (default and per MBTI type)'),
+  // 🆕 審判モデル評価器（LLM-as-judge、指定時のみ評価器チェーンに追加）
+  llmJudge: llmJudgeSettingsSchema.optional().describe('Grade statements with a judge model in addition to the heuristic evaluators'),
+  // 🆕 再現用シード（未指定時は自動生成して結果に記録）
+  seed: z.number().int().optional().describe('Seed for reproducible participant and speaker selection'),
+  // 🆕 保存済み議論の再開・再採点
+  resume: resumeSchema.optional().describe('Resume or re-score a discussion saved as JSON'),
+  // 🆕 学習履歴の永続化モード（シード指定・再開時は保存済み履歴の影響を受けないよう isolated が既定）
+  historyMode: z.enum(HISTORY_PERSISTENCE_MODES).optional().describe('Learning history persistence (default: isolated for seeded or resumed runs, otherwise persistent)'),
+  // 🆕 宣言的フェーズプラン（プリセット名またはフェーズ配列）
+  phasePlan: phasePlanInputSchema.optional().describe('Phase plan preset name or explicit phases (default: standard)'),
+  // 🆕 人間参加者（発言ターンでワークフローを中断し、入力を受けて再開）
+  humanParticipant: humanParticipantInputSchema.optional().describe('A real user joining as a speaker (the workflow suspends on their turns)'),
+  // 🆕 議論言語（プロンプト・総括・保存レポート・評価ヒューリスティクスを切り替え）
+  language: discussionLanguageSchema.optional().describe('Discussion language (default: ja, or the language of the resumed discussion)'),
+  // 🆕 カスタムペルソナ（ペルソナレジストリに登録済みのID、各ペルソナが自分のMBTIタイプの枠を担当）
+  personas: z.array(z.string()).optional().describe('Registered custom persona ids; each one takes the slot of its MBTI type'),
+  // 🆕 ディベートモード（賛成・反対の陣営に分かれて交互に反論し、陣営ごとの論証の強さを採点）
+  debate: debateInputSchema.optional().describe('Structured debate with pro/contra teams (default phase plan: debate)'),
+  // 🆕 意思決定モード（候補案の賛否を論じ、最後の投票ラウンドで順位付きの決定を作成）
+  decision: decisionInputSchema.optional().describe('Candidate options argued for and against, ranked by a final voting round')
+});
 
-    // 🎭 参加エージェント準備
-    const participants = selectedTypes.map(type => {
-      const agentName = getAgentName(type);
-      return {
-        type,
-        name: agentName,
-        agent: mastra?.getAgent(agentName),
-        weight: 1.0,
-        lastSpokenTurn: 0,
-        performanceHistory: [] as number[],
-        feedbackHistory: [] as PerformanceFeedback[],
-        previousStatements: [] as string[],
-        previousDiscussionStatements: [] as DiscussionStatement[]
-      };
-    }).filter(p => p.agent);
+const comprehensiveMetricsSchema = z.object({
+  // 7次元品質評価
+  performanceScore: z.number(),
+  psychologicalScore: z.number(),
+  externalAlignmentScore: z.number(),
+  internalConsistencyScore: z.number(),
+  socialDecisionScore: z.number(),
+  contentQualityScore: z.number(),
+  ethicsScore: z.number(),
+
+  // 従来メトリクス
+  diversityScore: z.number(),
+  consistencyScore: z.number(),
+  convergenceEfficiency: z.number(),
+  mbtiAlignmentScore: z.number(),
+  interactionQuality: z.number(),
+
+  // 新規メトリクス
+  argumentQuality: z.number(),
+  participationBalance: z.number(),
+  resolutionRate: z.number()
+});
 
-    console.log(`✅ ${participants.length}体のエージェントが準備完了`);
+const discussionSummarySchema = z.object({
+  overview: z.string().describe('議論全体の総合概要'),
+  keyThemes: z.array(z.string()).describe('議論で扱われた主要テーマ'),
+  progressAnalysis: z.string().describe('議論の進展パターン分析'),
+  mbtiContributions: z.record(z.string()).describe('MBTIタイプ別の具体的貢献内容'),
+  consensus: z.string().describe('合意形成プロセスの分析'),
+  insights: z.array(z.string()).describe('議論から得られた重要な洞察'),
+  processCharacteristics: z.array(z.string()).describe('議論プロセスの特徴的パターン')
+});
 
-    // 🔄 Phase 1: 初期議論ラウンド
-    console.log(`\n===== Phase 1: 初期議論（多様性重視）=====`);
+// 🆕 議論が使った学習履歴スナップショット
+const historySnapshotReferenceSchema = z.object({
+  mode: z.enum(HISTORY_PERSISTENCE_MODES),
+  savedAt: z.string().nullable().describe('Saved time of the loaded history snapshot (null when none was loaded)'),
+  evaluations: z.number().describe('Evaluations in the loaded history snapshot')
+});
 
-    for (const participant of participants) {
-      // 🆕 適応的プロンプト生成（統合フィードバックシステムを使用）
-      const adaptivePrompt = await realtimeFeedbackManager.generateAdaptivePrompt({
-        mbtiType: participant.type,
-        topic: inputData.topic,
-        phase: 'initial',
-        currentWeight: participant.weight
-      });
+// 🆕 ステップ間で受け渡す議論状態（シリアライズ可能な値のみ）
+const discussionStateSchema = z.object({
+  topic: z.string(),
+  seed: z.number(),
+  startedAt: z.string().describe('Workflow start time (ISO 8601)'),
+  settings: z.object({
+    enableRealtimeOptimization: z.boolean(),
+    enableGraphOptimization: z.boolean(),
+    qualityThreshold: z.number(),
+    saveConversation: z.boolean(),
+    outputFormat: z.enum(['markdown', 'json']),
+    outputDirectory: z.string(),
+    llm: llmRunConfigSchema.optional(),
+    llmJudge: llmJudgeSettingsSchema.optional(),
+    language: discussionLanguageSchema,
+    historyMode: z.enum(HISTORY_PERSISTENCE_MODES)
+  }),
+  history: historySnapshotReferenceSchema.describe('Learning history snapshot this run started from'),
+  participantTypes: z.array(mbtiTypeSchema),
+  humanParticipant: humanParticipantSchema.optional(),
+  personas: z.record(z.string()).optional().describe('MBTI type → custom persona id taking that slot'),
+  topicRelevance: topicRelevanceSchema,
+  debate: debateSettingsSchema.optional().describe('Debate positions and team assignment'),
+  decision: decisionSettingsSchema.optional().describe('Candidate options and voting method'),
+  phasePlan: phasePlanSchema,
+  scheduledPhases: z.array(z.object({
+    phaseNumber: z.number(),
+    definition: phaseDefinitionSchema
+  })),
+  nextPhaseIndex: z.number().describe('Index of the next scheduled phase to run'),
+  completedPhases: z.number(),
+  // 🆕 実行途中のフェーズ（人間の発言待ちで中断した位置）
+  currentPhase: z.object({
+    turnIndex: z.number().describe('Turn index within the phase to continue from'),
+    startIndex: z.number().describe('Conversation flow index where the phase started')
+  }).optional(),
+  pendingHumanTurn: humanTurnRequestSchema.optional().describe('Human turn waiting for input'),
+  resumedFrom: z.string().optional(),
+  conversationFlow: z.array(enhancedConversationSchema),
+  participantStates: z.array(participantStateSchema),
+  phases: z.array(phaseResultSchema),
+  optimization: z.object({
+    optimizationCount: z.number(),
+    totalQualityImprovement: z.number(),
+    weightAdjustments: z.record(z.number()),
+    graphOptimizations: z.number(),
+    recommendations: z.array(z.string())
+  }),
+  // 🆕 モデル呼び出しの使用量（トークン数・レイテンシ・見積もりコスト）
+  usage: z.array(llmUsageRecordSchema).optional().describe('LLM calls made so far in this run')
+});
 
-      const response = await participant.agent!.generate([
-        { role: 'user', content: adaptivePrompt }
-      ]);
+// 🆕 最終評価後の議論状態
+const evaluatedDiscussionStateSchema = discussionStateSchema.extend({
+  evaluation: z.object({
+    comprehensiveMetrics: comprehensiveMetricsSchema,
+    overallScore: z.number(),
+    grade: z.string(),
+    mbtiTypeAnalysis: z.record(z.object({
+      participationRate: z.number(),
+      qualityContribution: z.number(),
+      characteristicAlignment: z.number()
+    }))
+  }),
+  debateResult: debateResultSchema.optional(),
+  decisionResult: decisionResultSchema.optional()
+});
 
-      // 🔥 統合フィードバック評価（RealtimeFeedbackManagerを使用）
-      const evaluationContext: EvaluationContext = {
-        statement: response.text,
-        topic: inputData.topic,
-        mbtiType: participant.type,
-        phase: 'initial',
-        turnNumber: turnNumber,
-        history: {
-          recentStatements: [],
-          agentStatements: [],
-          performanceHistory: [],
-          feedbackHistory: []
-        },
-        participants: participants.map(p => ({
-          mbtiType: p.type,
-          currentWeight: p.weight,
-          participationCount: 1,
-          averageQuality: 0.8,
-          lastActivity: new Date()
-        })),
-        currentWeight: participant.weight
-      };
+// 🆕 総括生成後の議論状態
+const summarizedDiscussionStateSchema = evaluatedDiscussionStateSchema.extend({
+  discussionSummary: discussionSummarySchema
+});
 
-      const feedbackResult = await realtimeFeedbackManager.evaluateStatement(evaluationContext);
-
-      // 下位互換性のため、旧形式のdetailedPerformanceFeedbackを構築
-      const detailedPerformanceFeedback = {
-        overallScore: feedbackResult.detailed.sevenDimensionEvaluation?.overallQuality || 0.8,
-        feedback: feedbackResult.detailed.feedback,
-        improvementSuggestions: feedbackResult.detailed.improvements || [],
-        mbtiAlignment: feedbackResult.detailed.mbtiAlignment || {
-          alignmentScore: 0.8,
-          expectedCharacteristics: [],
-          demonstratedCharacteristics: [],
-          alignmentGap: [],
-          recommendedFocus: []
-        },
-        detailedAnalysis: {
-          nextSpeechGuidance: feedbackResult.nextGuidance || `${participant.type}として次回の発言を改善してください`,
-          strengths: feedbackResult.detailed.improvements || [],
-          weaknesses: [],
-          specificImprovements: [],
-          qualityTrend: 'stable' as const
-        },
-        sevenDimensionEvaluation: feedbackResult.detailed.sevenDimensionEvaluation || {
-          performance: 0.8,
-          psychological: 0.8,
-          externalAlignment: 0.8,
-          internalConsistency: 0.8,
-          socialDecisionMaking: 0.8,
-          contentQuality: 0.8,
-          ethics: 0.8,
-          overallQuality: 0.8
-        },
-        progressTracking: {
-          improvementTrend: 'stable' as 'improving' | 'stable' | 'declining',
-          consistencyScore: 0.8,
-          recommendedFocus: [],
-          milestones: []
-        }
-      };
+// 🆕 ワークフロー出力スキーマ
+const discussionOutputSchema = z.object({
+  topic: z.string(),
+  seed: z.number().describe('Seed used for this run'),
+  language: discussionLanguageSchema.describe('Discussion language used for prompts, summary and report'),
+  history: historySnapshotReferenceSchema.describe('Learning history snapshot this run started from'),
+  participantTypes: z.array(z.string()),
+  humanParticipant: humanParticipantSchema.optional(),
+  personas: z.record(z.string()).optional().describe('MBTI type → custom persona id taking that slot'),
+  topicRelevance: topicRelevanceSchema.describe('Per-type topic relevance used for the initial weights'),
+  totalStatements: z.number(),
+  totalTurns: z.number(),
+  completedPhases: z.number(),
+  phasePlan: phasePlanSchema.describe('Resolved phase plan (saved for resuming)'),
+  phases: z.array(phaseResultSchema).describe('Phases executed in this run'),
+  debate: debateSettingsSchema.optional().describe('Debate positions and team assignment (saved for resuming)'),
+  debateResult: debateResultSchema.optional().describe('Per-side argument strength and winner of the debate'),
+  decision: decisionSettingsSchema.optional().describe('Candidate options and voting method (saved for resuming)'),
+  decisionResult: decisionResultSchema.optional().describe('Ranked decision with each voter\'s ballot and rationale'),
+  conversationFlow: z.array(enhancedConversationSchema),
+  participantStates: z.array(participantStateSchema),
+  comprehensiveMetrics: comprehensiveMetricsSchema,
+  realtimeOptimization: z.object({
+    optimizationCount: z.number(),
+    qualityImprovement: z.number(),
+    weightAdjustments: z.record(z.number()),
+    graphOptimizations: z.number(),
+    recommendations: z.array(z.string())
+  }),
+  advancedReport: z.object({
+    summary: z.string(),
+    strengths: z.array(z.string()),
+    weaknesses: z.array(z.string()),
+    overallScore: z.number(),
+    grade: z.string(),
+    detailedAnalysis: z.string(),
+    mbtiTypeAnalysis: z.record(z.object({
+      participationRate: z.number(),
+      qualityContribution: z.number(),
+      characteristicAlignment: z.number()
+    }))
+  }),
+  // 🆕 議論総括セクション
+  discussionSummary: discussionSummarySchema,
+  // 🆕 LLM使用量（エージェント別・フェーズ別・実行全体のトークン数と見積もりコスト）
+  usage: llmUsageSummarySchema,
+  // 🆕 会話保存結果
+  conversationSaved: z.object({
+    saved: z.boolean(),
+    filePath: z.string().optional(),
+    fileSize: z.string().optional(),
+    format: z.string().optional(),
+    error: z.string().optional()
+  })
+});
 
-      const statement: DiscussionStatement = {
-        agentId: `node-${participant.type}`,
-        mbtiType: participant.type,
-        content: response.text,
-        timestamp: new Date(),
-        confidence: detailedPerformanceFeedback.overallScore,
-        relevance: detailedPerformanceFeedback.overallScore
-      };
+type DiscussionState = z.infer<typeof discussionStateSchema>;
+
+// 人間の発言待ちで中断した議論状態の保存先（RuntimeContext はスナップショットと共に永続化される）
+const SUSPENDED_DISCUSSION_STATE_KEY = 'mads:suspended-discussion-state';
+
+// ===========================================
+// ステップ共通処理
+// ===========================================
+
+/**
+ * 議論状態からランタイム取得オプションを作成
+ */
+function getRuntimeOptions(state: DiscussionState) {
+  return {
+    seed: state.seed,
+    qualityThreshold: state.settings.qualityThreshold,
+    enableRealtimeOptimization: state.settings.enableRealtimeOptimization,
+    completedTurns: state.conversationFlow.length,
+    llmJudge: state.settings.llmJudge,
+    usage: state.usage,
+    historyMode: state.settings.historyMode
+  };
+}
+
+/**
+ * ステップで使う議論ランタイムを取得し、使用量トラッカーを RuntimeContext に設定
+ */
+async function getStepRuntime(runtimeContext: RuntimeContext, state: DiscussionState, runId: string): Promise<DiscussionRuntime> {
+  const runtime = await getDiscussionRuntime(runId, getRuntimeOptions(state));
+  bindLLMUsageTracker(runtimeContext, runtime.usageTracker);
+  return runtime;
+}
+
+/**
+ * LLMプロバイダー設定をRuntimeContextへ登録（エージェントのモデル解決に使用）
+ * ステップの再開時にもモデル解決できるよう、各ステップで議論状態から設定する
+ */
+function applyLLMConfiguration(runtimeContext: RuntimeContext, state: DiscussionState): void {
+  if (state.settings.llm) {
+    runtimeContext.set(LLM_RUNTIME_CONTEXT_KEY, state.settings.llm);
+  }
+}
+
+/**
+ * ステップ実行前の RuntimeContext 準備
+ * LLM設定に加え、エージェントが呼ぶツールが runId の議論セッションを解決できるようセッションIDを、
+ * エージェントの指示文・オーケストレーターのプロンプトが参照する議論言語を設定する
+ */
+function prepareStepContext(runtimeContext: RuntimeContext, state: DiscussionState, runId: string): void {
+  applyLLMConfiguration(runtimeContext, state);
+  bindDiscussionSession(runtimeContext, runId);
+  bindDiscussionLanguage(runtimeContext, state.settings.language);
+}
+
+/**
+ * 議論状態から発言可能な参加者（エージェント・人間参加者）を準備
+ */
+function prepareParticipants(mastra: Mastra | undefined, state: DiscussionState) {
+  return state.participantStates.map(participantState => {
+    const type = participantState.mbtiType as MBTIType;
+    const humanParticipant = type === state.humanParticipant?.mbtiType ? state.humanParticipant : undefined;
+    const isHuman = humanParticipant !== undefined;
+    // カスタムペルソナのエージェントはペルソナレジストリから、組み込みタイプは Mastra から解決
+    const personaId = state.personas?.[type];
+    const persona = personaId ? personaRegistry.require(personaId) : undefined;
+    const agentName = persona ? persona.agentName : getAgentName(type);
+    return {
+      type,
+      name: humanParticipant ? humanParticipant.name : agentName,
+      agent: isHuman ? undefined : persona ? persona.agent : mastra?.getAgent(agentName),
+      isHuman,
+      weight: participantState.weight,
+      lastSpokenTurn: participantState.lastSpokenTurn,
+      performanceHistory: [...participantState.performanceHistory]
+    };
+  }).filter(p => p.agent || p.isHuman);
+}
+
+type DiscussionParticipant = ReturnType<typeof prepareParticipants>[number];
+
+/**
+ * 参加エージェントの状態をスナップショット化（ステップ出力・保存・再開用）
+ */
+function snapshotParticipants(participants: DiscussionParticipant[]): ParticipantStateSnapshot[] {
+  return participants.map(p => ({
+    mbtiType: p.type,
+    weight: p.weight,
+    lastSpokenTurn: p.lastSpokenTurn,
+    performanceHistory: [...p.performanceHistory]
+  }));
+}
+
+/**
+ * 7次元品質評価を実行
+ */
+function evaluateDiscussionQuality(state: DiscussionState, statements: DiscussionStatement[], phase: string, expectedOutcome: string) {
+  return qualityEvaluators[state.settings.language].evaluateComprehensiveQuality(
+    statements,
+    {
+      topic: state.topic,
+      duration: (new Date().getTime() - new Date(state.startedAt).getTime()) / 1000,
+      phase,
+      expectedOutcome
+    }
+  );
+}
+
+/**
+ * フェーズ開始前のリアルタイム最適化（重み調整・推奨事項の集計）
+ * 算出した品質メトリクスを返す（オーケストレーター介入の判定に使用）
+ */
+async function runRealtimeOptimization(
+  state: DiscussionState,
+  runtime: DiscussionRuntime,
+  participants: DiscussionParticipant[],
+  phaseNumber: number,
+  runId: string
+): Promise<ComprehensiveQualityReport> {
+  const logger = runtime.logger.child({ phase: phaseNumber });
+  logger.info(`⚡ リアルタイム最適化実行中...`);
+
+  const statements = toDiscussionStatements(state.conversationFlow);
+  const realQualityMetrics = await evaluateDiscussionQuality(state, statements, `Phase ${phaseNumber}`, 'consensus building');
+
+  const qualityMetrics: ComprehensiveQualityReport = {
+    comprehensiveMetrics: {
+      performanceScore: realQualityMetrics.performance.overallPerformance,
+      psychologicalScore: realQualityMetrics.psychological.psychologicalRealism,
+      externalAlignmentScore: realQualityMetrics.externalAlignment.externalConsistency,
+      internalConsistencyScore: realQualityMetrics.internalConsistency.internalHarmony,
+      socialDecisionScore: realQualityMetrics.socialDecisionMaking.socialIntelligence,
+      contentQualityScore: realQualityMetrics.contentQuality.argumentQuality,
+      ethicsScore: realQualityMetrics.ethics.ethicalStandard,
+      diversityScore: realQualityMetrics.contentQuality.semanticDiversity,
+      consistencyScore: realQualityMetrics.internalConsistency.logicalCoherence,
+      convergenceEfficiency: realQualityMetrics.socialDecisionMaking.consensusBuilding,
+      mbtiAlignmentScore: realQualityMetrics.psychological.personalityConsistency,
+      interactionQuality: realQualityMetrics.socialDecisionMaking.cooperationLevel,
+      argumentQuality: realQualityMetrics.contentQuality.argumentQuality,
+      participationBalance: 0.8,
+      resolutionRate: realQualityMetrics.performance.taskCompletionRate
+    },
+    detailedAnalysis: `7次元品質評価による詳細分析完了`,
+    recommendations: [],
+    qualityGrade: realQualityMetrics.overallQuality >= 0.9 ? 'A' : 'B',
+    overallScore: realQualityMetrics.overallQuality
+  };
+
+  const mockGraphStructure: GraphStructure = {
+    nodes: new Set(state.participantTypes),
+    edges: new Map(),
+    clusters: new Map()
+  };
+
+  const mockContext: WeightingContext = {
+    discussionPhase: 'analysis',
+    topicRelevance: new Map(),
+    participationHistory: [],
+    qualityMetrics: qualityMetrics.comprehensiveMetrics || {
+      diversityScore: 0.8,
+      consistencyScore: 0.8,
+      convergenceEfficiency: 0.8,
+      mbtiAlignmentScore: 0.8,
+      interactionQuality: 0.8,
+      argumentQuality: 0.8,
+      participationBalance: 0.8,
+      resolutionRate: 0.8
+    }
+  };
+
+  const optimization = await runtime.realtimeOptimizer.optimizeInRealtime(
+    statements,
+    mockGraphStructure,
+    qualityMetrics,
+    mockContext
+  );
+
+  state.optimization.optimizationCount++;
+  state.optimization.totalQualityImprovement += optimization.qualityImprovement;
+  state.optimization.recommendations.push(...optimization.recommendations);
+
+  // 重み調整を適用
+  optimization.adjustedWeights.forEach((weight, type) => {
+    const participant = participants.find(p => p.type === type);
+    if (participant) {
+      participant.weight = weight;
+      state.optimization.weightAdjustments[type] = weight;
+    }
+  });
 
-      // 履歴を更新（DiscussionStatement形式も含む）
-      participant.feedbackHistory.push(detailedPerformanceFeedback);
-      participant.previousStatements.push(response.text);
-      participant.previousDiscussionStatements.push(statement);
-      participant.performanceHistory.push(detailedPerformanceFeedback.overallScore);
-      participant.lastSpokenTurn = turnNumber;
-
-      statements.push(statement);
-
-      conversationFlow.push({
-        turnNumber: turnNumber++,
-        speakerAgentId: statement.agentId,
-        speakerMbtiType: statement.mbtiType,
-        statement: statement.content,
-        timestamp: statement.timestamp.toISOString(),
-        confidence: statement.confidence,
-        relevance: statement.relevance,
-        dynamicWeight: participant.weight,
-        qualityContribution: detailedPerformanceFeedback.overallScore,
-        // 🆕 7次元評価結果を型安全に追加
-        sevenDimensionEvaluation: detailedPerformanceFeedback.sevenDimensionEvaluation ? {
-          performance: detailedPerformanceFeedback.sevenDimensionEvaluation.performance || 0.8,
-          psychological: detailedPerformanceFeedback.sevenDimensionEvaluation.psychological || 0.8,
-          externalAlignment: detailedPerformanceFeedback.sevenDimensionEvaluation.externalAlignment || 0.8,
-          internalConsistency: detailedPerformanceFeedback.sevenDimensionEvaluation.internalConsistency || 0.8,
-          socialDecisionMaking: detailedPerformanceFeedback.sevenDimensionEvaluation.socialDecisionMaking || 0.8,
-          contentQuality: detailedPerformanceFeedback.sevenDimensionEvaluation.contentQuality || 0.8,
-          ethics: detailedPerformanceFeedback.sevenDimensionEvaluation.ethics || 0.8,
-          overallQuality: detailedPerformanceFeedback.sevenDimensionEvaluation.overallQuality || 0.8
-        } : undefined,
-        realtimeOptimization: {
-          weightAdjustment: 0,
-          graphOptimization: false,
-          qualityImprovement: 0
-        }
-      });
+  emitDiscussionProgress(runId, {
+    type: 'weights',
+    turnNumber: state.conversationFlow.length + 1,
+    reason: 'optimization',
+    weights: Object.fromEntries(participants.map(p => [p.type, p.weight]))
+  });
+
+  if (optimization.optimizedGraph) {
+    state.optimization.graphOptimizations++;
+  }
 
-      console.log(`\n💬 ${participant.type} (重み: ${participant.weight.toFixed(2)}, 成績: ${(detailedPerformanceFeedback.overallScore * 100).toFixed(0)}%): ${response.text.substring(0, 100)}...`);
-      console.log(`📊 フィードバック: ${detailedPerformanceFeedback.feedback}`);
-      console.log(`🎯 次回への指示: ${detailedPerformanceFeedback.detailedAnalysis.nextSpeechGuidance}`);
-      console.log(`📈 7次元評価: P${(detailedPerformanceFeedback.sevenDimensionEvaluation.performance * 100).toFixed(0)}% | 心${(detailedPerformanceFeedback.sevenDimensionEvaluation.psychological * 100).toFixed(0)}% | 品${(detailedPerformanceFeedback.sevenDimensionEvaluation.contentQuality * 100).toFixed(0)}% | 協${(detailedPerformanceFeedback.sevenDimensionEvaluation.socialDecisionMaking * 100).toFixed(0)}%`);
+  logger.info(`✅ 最適化完了 - 品質改善: ${(optimization.qualityImprovement * 100).toFixed(1)}%`, {
+    qualityImprovement: optimization.qualityImprovement
+  });
+  logger.debug(`📋 推奨事項: ${optimization.recommendations.join(', ')}`, { recommendations: optimization.recommendations });
+
+  return qualityMetrics;
+}
+
+/**
+ * 品質メトリクスに基づくオーケストレーター介入
+ * 介入した場合は指導内容を会話フローのターンとして記録する（採点・発言者選択の対象外）
+ */
+async function runOrchestratorIntervention(
+  state: DiscussionState,
+  qualityMetrics: ComprehensiveQualityReport,
+  phaseName: string,
+  context: {
+    mastra: Mastra | undefined;
+    runId: string;
+    runtimeContext: RuntimeContext;
+    logger: DiscussionLogger;
+  }
+): Promise<void> {
+  const { mastra, runId, runtimeContext, logger } = context;
+  const orchestrator = mastra?.getAgent('M-ADS-Orchestrator');
+
+  const intervention = await executeOrchestratorIntervention(
+    orchestrator,
+    qualityMetrics.comprehensiveMetrics,
+    phaseName,
+    toDiscussionStatements(state.conversationFlow),
+    runtimeContext
+  );
+
+  const interventionTurn = createInterventionTurn(intervention, state.conversationFlow.length + 1);
+  if (!interventionTurn) return;
+
+  state.conversationFlow.push(interventionTurn);
+  emitDiscussionProgress(runId, { type: 'turn', turn: interventionTurn });
+
+  logger.info(`🎯 オーケストレーター介入（${intervention.interventionType}）: ${intervention.guidance.substring(0, 120)}...`, {
+    turn: interventionTurn.turnNumber,
+    interventionType: intervention.interventionType
+  });
+}
+
+/**
+ * フェーズ定義に従って1フェーズ分の議論を実行し、議論状態を更新
+ * （最適化・発言者選択・適応的プロンプト・統合フィードバック評価・終了条件）
+ * 人間参加者が選ばれた場合は発言待ち（pendingHumanTurn）を記録して中断し、
+ * humanStatement を受け取った再実行でそのターンから継続する
+ */
+async function executeDiscussionPhase(
+  state: DiscussionState,
+  scheduledPhase: ScheduledPhase,
+  context: {
+    mastra: Mastra | undefined;
+    runId: string;
+    runtimeContext: RuntimeContext;
+    runtime: DiscussionRuntime;
+    humanStatement?: string;
+  }
+): Promise<void> {
+  const { mastra, runId, runtimeContext, runtime, humanStatement } = context;
+  const { phaseNumber, definition } = scheduledPhase;
+  const participants = prepareParticipants(mastra, state);
+  const conversationFlow = state.conversationFlow;
+
+  const currentPhaseType = definition.type;
+  const optimizePhase = isOptimizedPhase(definition);
+  const turnBudget = getPhaseTurnBudget(definition, participants.length);
+  const lastPhase = state.completedPhases + state.scheduledPhases.length - state.nextPhaseIndex;
+  // 人間の発言待ちで中断したフェーズは中断位置から継続（最適化・フェーズ開始通知は再実行しない）
+  const resumedPhase = state.currentPhase;
+  runtime.usageTracker.setPhase({ phase: phaseNumber, phaseName: definition.name });
+  runtime.realtimeFeedbackManager.setCurrentPhase(definition.type);
+  const phaseAttributes = {
+    [TRACE_ATTRIBUTES.phase]: phaseNumber,
+    [TRACE_ATTRIBUTES.phaseName]: definition.name,
+    [TRACE_ATTRIBUTES.phaseType]: currentPhaseType
+  };
+  const phaseLogger = runtime.logger.child({ phase: phaseNumber, phaseType: currentPhaseType });
+  const phaseSpan = runtime.tracer.startSpan('mads.phase', {
+    ...phaseAttributes,
+    'mads.phase.turn_budget': turnBudget,
+    'mads.phase.resumed': resumedPhase !== undefined
+  });
+
+  if (resumedPhase) {
+    phaseLogger.info(`\n===== Phase ${phaseNumber}: ${definition.name} を再開（${resumedPhase.turnIndex + 1}ターン目から）=====`, {
+      phaseName: definition.name,
+      resumedTurnIndex: resumedPhase.turnIndex
+    });
+  } else {
+    phaseLogger.info(`\n===== Phase ${phaseNumber}: ${definition.name}（${currentPhaseType} / 最大${turnBudget}ターン / ${definition.speakerSelection}）=====`, {
+      phaseName: definition.name,
+      turnBudget,
+      speakerSelection: definition.speakerSelection
+    });
+
+    // ⚡ リアルタイム最適化実行（品質に課題があればオーケストレーターが介入）
+    if (optimizePhase && state.settings.enableRealtimeOptimization && conversationFlow.length > 0) {
+      const qualityMetrics = await runtime.tracer.withSpan('mads.optimization', phaseAttributes, async span => {
+        const metrics = await runRealtimeOptimization(state, runtime, participants, phaseNumber, runId);
+        span.setAttributes({
+          'mads.score.overall': metrics.overallScore ?? 0,
+          'mads.optimization.count': state.optimization.optimizationCount,
+          'mads.optimization.graph_optimizations': state.optimization.graphOptimizations
+        });
+        return metrics;
+      }, phaseSpan);
+      await runtime.tracer.withSpan('mads.intervention', phaseAttributes, () =>
+        runOrchestratorIntervention(state, qualityMetrics, definition.name, { mastra, runId, runtimeContext, logger: phaseLogger }),
+        phaseSpan
+      );
     }
 
-    // 🔄 Phase 2-4: 反復的議論＋リアルタイム最適化
-    for (let phase = 2; phase <= 4; phase++) {
-      console.log(`\n===== Phase ${phase}: 反復議論＋リアルタイム最適化 =====`);
-
-      // ⚡ リアルタイム最適化実行
-      if (inputData.enableRealtimeOptimization && statements.length > 0) {
-        console.log(`⚡ リアルタイム最適化実行中...`);
-
-        const realQualityMetrics = await qualityEvaluator.evaluateComprehensiveQuality(
-          statements,
-          {
-            topic: inputData.topic,
-            duration: (new Date().getTime() - workflowStartTime.getTime()) / 1000,
-            phase: `Phase ${phase}`,
-            expectedOutcome: 'consensus building'
-          }
-        );
+    // 💬 このフェーズの議論実行
+    emitDiscussionProgress(runId, {
+      type: 'phase',
+      phase: phaseNumber,
+      totalPhases: lastPhase,
+      phaseType: currentPhaseType,
+      phaseName: definition.name,
+      turnNumber: conversationFlow.length + 1
+    });
 
-        const qualityMetrics: ComprehensiveQualityReport = {
-          comprehensiveMetrics: {
-            performanceScore: realQualityMetrics.performance.overallPerformance,
-            psychologicalScore: realQualityMetrics.psychological.psychologicalRealism,
-            externalAlignmentScore: realQualityMetrics.externalAlignment.externalConsistency,
-            internalConsistencyScore: realQualityMetrics.internalConsistency.internalHarmony,
-            socialDecisionScore: realQualityMetrics.socialDecisionMaking.socialIntelligence,
-            contentQualityScore: realQualityMetrics.contentQuality.argumentQuality,
-            ethicsScore: realQualityMetrics.ethics.ethicalStandard,
-            diversityScore: realQualityMetrics.contentQuality.semanticDiversity,
-            consistencyScore: realQualityMetrics.internalConsistency.logicalCoherence,
-            convergenceEfficiency: realQualityMetrics.socialDecisionMaking.consensusBuilding,
-            mbtiAlignmentScore: realQualityMetrics.psychological.personalityConsistency,
-            interactionQuality: realQualityMetrics.socialDecisionMaking.cooperationLevel,
-            argumentQuality: realQualityMetrics.contentQuality.argumentQuality,
-            participationBalance: 0.8,
-            resolutionRate: realQualityMetrics.performance.taskCompletionRate
-          },
-          detailedAnalysis: `7次元品質評価による詳細分析完了`,
-          recommendations: [],
-          qualityGrade: realQualityMetrics.overallQuality >= 0.9 ? 'A' : 'B',
-          overallScore: realQualityMetrics.overallQuality
-        };
+    phaseLogger.debug(`\n🎯 ${definition.speakerSelection}選択による${currentPhaseType}議論開始`);
+  }
 
-        const mockGraphStructure: GraphStructure = {
-          nodes: new Set(selectedTypes),
-          edges: new Map(),
-          clusters: new Map()
-        };
+  const phaseStartIndex = resumedPhase?.startIndex ?? conversationFlow.length;
+  let exitMetricValue: number | undefined;
+
+  // 🎯 フェーズ直前のオーケストレーター介入はこのフェーズの発言プロンプトへ反映
+  const precedingTurn = conversationFlow[phaseStartIndex - 1];
+  const interventionGuidance = precedingTurn && isOrchestratorTurn(precedingTurn)
+    ? `\n\n${ORCHESTRATOR_GUIDANCE_HEADINGS[state.settings.language]}\n${precedingTurn.statement}`
+    : '';
+  // 🗳️ 意思決定モードでは候補案の一覧と賛否を論じる指示を全ターンの発言プロンプトへ添える
+  const decisionGuidance = state.decision ? createDecisionGuidance(state.decision, state.settings.language) : '';
+
+  for (let turnIndex = resumedPhase?.turnIndex ?? 0; turnIndex < turnBudget; turnIndex++) {
+    const turnNumber = conversationFlow.length + 1;
+    const pendingHumanTurn = state.pendingHumanTurn;
+    const turnAttributes = { ...phaseAttributes, [TRACE_ATTRIBUTES.turn]: turnNumber };
+    const turnSpan = runtime.tracer.startSpan('mads.turn', turnAttributes, phaseSpan);
+    const turnLogger = phaseLogger.child({ turn: turnNumber });
+    let participant: DiscussionParticipant;
+    let statement: string;
+    let debateTurn: DebateTurnPlan | undefined;
+
+    if (pendingHumanTurn && humanStatement !== undefined) {
+      // 👤 中断前に選択済みの人間参加者の発言を採用
+      const pendingParticipant = participants.find(p => p.type === pendingHumanTurn.mbtiType);
+      if (!pendingParticipant) {
+        throw new Error(`発言待ちの人間参加者 ${pendingHumanTurn.mbtiType} が議論の参加者に見つかりません`);
+      }
+      participant = pendingParticipant;
+      turnSpan.setAttributes({ [TRACE_ATTRIBUTES.mbtiType]: participant.type, 'mads.turn.human': true });
+      statement = humanStatement;
+      debateTurn = state.debate &&
+        planDebateTurn(state.debate, participant.type, currentPhaseType, conversationFlow, state.settings.language);
+      state.pendingHumanTurn = undefined;
+      state.currentPhase = undefined;
+    } else {
+      // 🆕 フェーズの選択ポリシーで発言者選択（ディベートモードでは陣営を交互に回し、陣営内で選択）
+      const selection = state.debate
+        ? selectDebateSpeaker(
+          state.debate,
+          definition.speakerSelection,
+          participants,
+          conversationFlow,
+          turnIndex,
+          turnNumber,
+          currentPhaseType,
+          runtime.random,
+          state.settings.language
+        )
+        : selectPhaseSpeaker(
+          definition.speakerSelection,
+          participants,
+          turnIndex,
+          turnNumber,
+          currentPhaseType,
+          runtime.random,
+          state.settings.language
+        );
+      participant = selection.participant;
+      turnSpan.setAttributes({ [TRACE_ATTRIBUTES.mbtiType]: participant.type, 'mads.turn.human': participant.isHuman });
+
+      // ⚔️ 陣営の立場と反論先（相手陣営の直近の発言）を発言プロンプトへ反映
+      debateTurn = state.debate &&
+        planDebateTurn(state.debate, participant.type, currentPhaseType, conversationFlow, state.settings.language);
+      const debateGuidance = debateTurn?.guidance ?? '';
+      if (debateTurn) {
+        turnSpan.setAttributes({
+          'mads.debate.side': debateTurn.side,
+          ...(debateTurn.target ? { 'mads.debate.rebuttal_to': debateTurn.target.turnNumber } : {})
+        });
+        turnLogger.debug(`⚔️ ${getDebateSideLabel(debateTurn.side, state.settings.language)}側${debateTurn.target ? ` → Turn ${debateTurn.target.turnNumber}（${debateTurn.target.speakerMbtiType}）への反論` : ''}`, {
+          mbtiType: participant.type,
+          debateSide: debateTurn.side,
+          rebuttalTo: debateTurn.target?.turnNumber
+        });
+      }
 
-        const mockContext: WeightingContext = {
-          discussionPhase: 'analysis',
-          topicRelevance: new Map(),
-          participationHistory: [],
-          qualityMetrics: qualityMetrics.comprehensiveMetrics || {
-            diversityScore: 0.8,
-            consistencyScore: 0.8,
-            convergenceEfficiency: 0.8,
-            mbtiAlignmentScore: 0.8,
-            interactionQuality: 0.8,
-            argumentQuality: 0.8,
-            participationBalance: 0.8,
-            resolutionRate: 0.8
-          }
+      turnLogger.debug(`\n🔍 発言者選択結果: ${participant.type}${participant.isHuman ? `（👤 ${participant.name}）` : ''}`, {
+        mbtiType: participant.type
+      });
+      turnLogger.debug(`📊 選択理由: ${selection.selectionReason}`, { mbtiType: participant.type });
+
+      // 👤 人間参加者のターンでは発言待ちを記録して中断（ステップ側で suspend）
+      if (participant.isHuman) {
+        state.pendingHumanTurn = {
+          participantName: participant.name,
+          mbtiType: participant.type,
+          topic: state.topic,
+          turnNumber,
+          phase: phaseNumber,
+          phaseName: definition.name,
+          phaseType: currentPhaseType,
+          selectionReason: selection.selectionReason,
+          guidance: createPhasePrompt(
+            currentPhaseType,
+            state.topic,
+            participant.type,
+            toDiscussionStatements(conversationFlow).slice(-3),
+            state.settings.language
+          ) +
+            debateGuidance +
+            decisionGuidance +
+            interventionGuidance
         };
+        state.currentPhase = { turnIndex, startIndex: phaseStartIndex };
+        state.participantStates = snapshotParticipants(participants);
+        turnLogger.info(`⏸️ ${participant.name}（${participant.type}）の発言を待機します`, { mbtiType: participant.type });
+        turnSpan.setAttribute('mads.turn.awaiting_human', true);
+        turnSpan.end();
+        phaseSpan.setAttribute('mads.phase.suspended', true);
+        phaseSpan.end();
+        return;
+      }
 
-        const optimization = await realtimeOptimizer.optimizeInRealtime(
-          statements,
-          mockGraphStructure,
-          qualityMetrics,
-          mockContext
-        );
+      // 🆕 適応的プロンプト生成（統合フィードバックシステムを使用）
+      const adaptivePrompt = await runtime.realtimeFeedbackManager.generateAdaptivePrompt({
+        mbtiType: participant.type,
+        topic: state.topic,
+        phase: currentPhaseType,
+        currentWeight: participant.weight,
+        language: state.settings.language
+      });
 
-        optimizationCount++;
-        totalQualityImprovement += optimization.qualityImprovement;
-        allRecommendations.push(...optimization.recommendations);
-
-        // 重み調整を適用
-        optimization.adjustedWeights.forEach((weight, type) => {
-          const participant = participants.find(p => p.type === type);
-          if (participant) {
-            participant.weight = weight;
-            weightAdjustments[type] = weight;
-          }
+      const speaker = participant;
+      const speakerAgent = speaker.agent;
+      if (!speakerAgent) {
+        throw new Error(`${speaker.type} のエージェントが登録されていないため発言を生成できません`);
+      }
+      statement = await runtime.tracer.withSpan('mads.agent.generate', { ...turnAttributes, [TRACE_ATTRIBUTES.mbtiType]: speaker.type }, async span => {
+        const startedAt = Date.now();
+        const response = await speakerAgent.generate([
+          { role: 'user', content: adaptivePrompt + debateGuidance + decisionGuidance + interventionGuidance }
+        ], { runtimeContext });
+        recordLLMUsage(runtimeContext, response, { agent: speaker.type, purpose: 'turn', latencyMs: Date.now() - startedAt });
+        span.setAttributes({
+          'mads.llm.model': response.response?.modelId ?? 'unknown',
+          'mads.llm.prompt_tokens': response.usage?.promptTokens ?? 0,
+          'mads.llm.completion_tokens': response.usage?.completionTokens ?? 0
         });
+        return response.text;
+      }, turnSpan);
+    }
 
-        if (optimization.optimizedGraph) {
-          graphOptimizations++;
-        }
+    // 🔥 統合フィードバック評価（RealtimeFeedbackManagerを使用、人間の発言も同様に採点）
+    const evaluationContext: EvaluationContext = {
+      statement,
+      topic: state.topic,
+      mbtiType: participant.type,
+      phase: currentPhaseType,
+      turnNumber: turnNumber,
+      history: {
+        recentStatements: [],
+        agentStatements: [],
+        performanceHistory: [],
+        feedbackHistory: []
+      },
+      participants: participants.map(p => ({
+        mbtiType: p.type,
+        currentWeight: p.weight,
+        participationCount: 1,
+        averageQuality: 0.8,
+        lastActivity: new Date()
+      })),
+      currentWeight: participant.weight,
+      language: state.settings.language
+    };
 
-        console.log(`✅ 最適化完了 - 品質改善: ${(optimization.qualityImprovement * 100).toFixed(1)}%`);
-        console.log(`📋 推奨事項: ${optimization.recommendations.join(', ')}`);
+    const feedbackResult = await runtime.tracer.withSpan('mads.evaluation', { ...turnAttributes, [TRACE_ATTRIBUTES.mbtiType]: participant.type }, async span => {
+      const result = await runtime.realtimeFeedbackManager.evaluateStatement(evaluationContext);
+      span.setAttributes({
+        'mads.score.overall': result.overall.overallScore,
+        'mads.score.performance': result.overall.performance,
+        'mads.score.psychological': result.overall.psychological,
+        'mads.score.content_quality': result.overall.contentQuality,
+        'mads.score.mbti_alignment': result.overall.mbtiAlignment
+      });
+      return result;
+    }, turnSpan);
+    emitDiscussionProgress(runId, {
+      type: 'quality',
+      turnNumber,
+      mbtiType: participant.type,
+      scores: {
+        performance: feedbackResult.overall.performance,
+        psychological: feedbackResult.overall.psychological,
+        contentQuality: feedbackResult.overall.contentQuality,
+        mbtiAlignment: feedbackResult.overall.mbtiAlignment,
+        overallScore: feedbackResult.overall.overallScore
       }
+    });
 
-      // 💬 このフェーズの議論実行
-      const phaseTypeMapping = {
-        2: 'interaction',
-        3: 'synthesis',
-        4: 'consensus'
-      } as const;
-      const currentPhaseType = phaseTypeMapping[phase as keyof typeof phaseTypeMapping];
+    // 下位互換性のため、旧形式のdetailedPerformanceFeedbackを構築
+    const detailedPerformanceFeedback = {
+      overallScore: feedbackResult.detailed.sevenDimensionEvaluation?.overallQuality || 0.8,
+      feedback: feedbackResult.detailed.feedback,
+      improvementSuggestions: feedbackResult.detailed.improvements || [],
+      detailedAnalysis: {
+        nextSpeechGuidance: feedbackResult.nextGuidance || `${participant.type}として次回の発言を改善してください`
+      },
+      sevenDimensionEvaluation: feedbackResult.detailed.sevenDimensionEvaluation || {
+        performance: 0.8,
+        psychological: 0.8,
+        externalAlignment: 0.8,
+        internalConsistency: 0.8,
+        socialDecisionMaking: 0.8,
+        contentQuality: 0.8,
+        ethics: 0.8,
+        overallQuality: 0.8
+      },
+      progressTracking: {
+        improvementTrend: 'stable' as 'improving' | 'stable' | 'declining'
+      }
+    };
 
-      console.log(`\n🎯 重み付けベース選択による${currentPhaseType}議論開始`);
+    // 履歴を更新
+    participant.performanceHistory.push(detailedPerformanceFeedback.overallScore);
+    participant.lastSpokenTurn = turnNumber;
+
+    // 🆕 重み動的調整（進捗に基づく、最適化対象フェーズのみ）
+    if (optimizePhase) {
+      const improvementTrend = detailedPerformanceFeedback.progressTracking.improvementTrend;
+      if (improvementTrend === 'improving') {
+        participant.weight *= 1.15;
+      } else if (improvementTrend === 'declining') {
+        participant.weight *= 0.85;
+      } else if (detailedPerformanceFeedback.overallScore > 0.85) {
+        participant.weight *= 1.1;
+      } else if (detailedPerformanceFeedback.overallScore < 0.6) {
+        participant.weight *= 0.9;
+      }
 
-      const phaseParticipantCount = Math.min(participants.length, inputData.participantCount);
+      emitDiscussionProgress(runId, {
+        type: 'weights',
+        turnNumber,
+        reason: 'performance',
+        weights: { [participant.type]: participant.weight }
+      });
+    }
 
-      for (let speakerIndex = 0; speakerIndex < phaseParticipantCount; speakerIndex++) {
-        // 🆕 重み付けベースでエージェント選択
-        const speakerSelection = selectNextSpeakerByWeight(
-          participants,
-          turnNumber,
-          currentPhaseType
-        );
+    const { optimizationCount, totalQualityImprovement, graphOptimizations } = state.optimization;
+    const evaluation = detailedPerformanceFeedback.sevenDimensionEvaluation;
+    const flowTurn: ConversationFlowTurn = {
+      turnNumber,
+      speakerAgentId: participant.isHuman ? `human-${participant.type}` : `node-${participant.type}`,
+      speakerMbtiType: participant.type,
+      ...(participant.isHuman ? { speakerKind: 'human' as const, speakerName: participant.name } : {}),
+      ...(debateTurn ? toDebateTurnFields(debateTurn) : {}),
+      phaseType: currentPhaseType,
+      statement,
+      timestamp: new Date().toISOString(),
+      confidence: detailedPerformanceFeedback.overallScore,
+      relevance: detailedPerformanceFeedback.overallScore,
+      dynamicWeight: participant.weight,
+      qualityContribution: detailedPerformanceFeedback.overallScore,
+      // 🆕 7次元評価結果を型安全に追加
+      sevenDimensionEvaluation: {
+        performance: evaluation.performance || 0.8,
+        psychological: evaluation.psychological || 0.8,
+        externalAlignment: evaluation.externalAlignment || 0.8,
+        internalConsistency: evaluation.internalConsistency || 0.8,
+        socialDecisionMaking: evaluation.socialDecisionMaking || 0.8,
+        contentQuality: evaluation.contentQuality || 0.8,
+        ethics: evaluation.ethics || 0.8,
+        overallQuality: evaluation.overallQuality || 0.8
+      },
+      realtimeOptimization: optimizePhase ? {
+        weightAdjustment: participant.weight - 1.0,
+        graphOptimization: graphOptimizations > 0,
+        qualityImprovement: totalQualityImprovement / Math.max(optimizationCount, 1)
+      } : {
+        weightAdjustment: 0,
+        graphOptimization: false,
+        qualityImprovement: 0
+      }
+    };
+    conversationFlow.push(flowTurn);
+    emitDiscussionProgress(runId, { type: 'turn', turn: flowTurn });
+
+    const speakerLogger = turnLogger.child({ mbtiType: participant.type });
+    speakerLogger.info(`💬 ${participant.isHuman ? `👤 ${participant.name} / ` : ''}${participant.type} (重み: ${participant.weight.toFixed(2)}, 成績: ${(detailedPerformanceFeedback.overallScore * 100).toFixed(0)}%)`, {
+      weight: participant.weight,
+      score: detailedPerformanceFeedback.overallScore,
+      human: participant.isHuman
+    });
+    speakerLogger.info(`📝 発言: ${statement.substring(0, 120)}...`);
+    speakerLogger.debug(`🎯 次回への指示: ${detailedPerformanceFeedback.detailedAnalysis.nextSpeechGuidance}`);
+    speakerLogger.info(`📈 7次元評価: P${(evaluation.performance * 100).toFixed(0)}% | 心${(evaluation.psychological * 100).toFixed(0)}% | 品${(evaluation.contentQuality * 100).toFixed(0)}% | 協${(evaluation.socialDecisionMaking * 100).toFixed(0)}%`, {
+      scores: evaluation
+    });
+    turnSpan.setAttributes({
+      'mads.score.overall': detailedPerformanceFeedback.overallScore,
+      'mads.weight': participant.weight
+    });
+    turnSpan.end();
+
+    // 🏁 フェーズ終了条件の判定
+    const exitCondition = definition.exitCondition;
+    if (exitCondition && turnIndex + 1 >= exitCondition.minTurns && turnIndex + 1 < turnBudget) {
+      const metricValue = exitCondition.metric === 'convergence'
+        ? (await evaluateDiscussionQuality(state, toDiscussionStatements(conversationFlow), `Phase ${phaseNumber}`, 'consensus building'))
+          .socialDecisionMaking.consensusBuilding
+        : conversationFlow.slice(phaseStartIndex).reduce((sum, turn) => sum + turn.qualityContribution, 0) /
+          (conversationFlow.length - phaseStartIndex);
+
+      if (metricValue >= exitCondition.threshold) {
+        exitMetricValue = metricValue;
+        turnLogger.info(`🏁 終了条件を満たしたためフェーズを終了: ${exitCondition.metric} ${(metricValue * 100).toFixed(1)}% ≥ ${(exitCondition.threshold * 100).toFixed(1)}%`, {
+          metric: exitCondition.metric,
+          value: metricValue,
+          threshold: exitCondition.threshold
+        });
+        break;
+      }
+    }
+  }
 
-        // 型安全性向上：selectedParticipantの型アサーション
-        const selectedParticipant = speakerSelection.selectedParticipant as any;
+  state.participantStates = snapshotParticipants(participants);
+  state.phases.push({
+    phase: phaseNumber,
+    name: definition.name,
+    type: currentPhaseType,
+    turns: conversationFlow.length - phaseStartIndex,
+    turnBudget,
+    exitedEarly: exitMetricValue !== undefined,
+    exitMetricValue
+  });
+  state.nextPhaseIndex++;
+  state.completedPhases = phaseNumber;
+  phaseSpan.setAttributes({
+    'mads.phase.turns': conversationFlow.length - phaseStartIndex,
+    'mads.phase.exited_early': exitMetricValue !== undefined
+  });
+  phaseSpan.end();
+}
+
+// ===========================================
+// ステップ定義
+// ===========================================
+
+// 🎯 Step 1: 参加者選択（保存済み議論の復元・再採点、フェーズプラン解決、ランタイム初期化）
+const selectParticipantsStep = createStep({
+  id: 'select-participants',
+  description: 'Select or restore MBTI participants, resolve the phase plan and initialize the discussion runtime',
+  inputSchema: discussionInputSchema,
+  outputSchema: discussionStateSchema,
+  execute: async ({ inputData, mastra, runId, runtimeContext }) => {
+    const workflowStartTime = new Date();
 
-        console.log(`\n🔍 重み付け選択結果: ${selectedParticipant?.type || 'Unknown'}`);
-        console.log(`📊 選択理由: ${speakerSelection.selectionReason}`);
+    // 🔁 保存済み議論の復元（トピック・参加者・ターン・重み・品質履歴）
+    const resumed = inputData.resume ? loadDiscussionForResume(inputData.resume.filePath) : null;
+    const topic = resumed?.topic ?? inputData.topic;
 
-        // 🆕 適応的プロンプト生成（統合フィードバックシステムを使用）
-        const adaptivePrompt = await realtimeFeedbackManager.generateAdaptivePrompt({
-          mbtiType: selectedParticipant?.type || 'INTJ',
-          topic: inputData.topic,
-          phase: currentPhaseType,
-          currentWeight: selectedParticipant?.weight || 1.0
-        });
+    const logger = discussionLogger.child({ runId });
+    logger.info(`\n🚀 Phase 2 完全版 MBTI議論システム開始`);
+    if (resumed) {
+      logger.info(`🔁 議論再開: ${resumed.sourcePath} (${resumed.conversationFlow.length}ターン / ${resumed.completedPhases}フェーズ完了済み)`);
+    }
+    logger.info(`🎯 議論トピック: ${topic}`);
+    logger.info(`👥 参加者数: ${inputData.participants?.types?.length ?? inputData.participantCount}`);
+    logger.info(`⚡ リアルタイム最適化: ${inputData.enableRealtimeOptimization ? 'ON' : 'OFF'}`);
+    logger.info(`🔗 グラフ最適化: ${inputData.enableGraphOptimization ? 'ON' : 'OFF'}`);
+    if (inputData.saveConversation) {
+      logger.info(`💾 会話保存: ON (${inputData.outputFormat.toUpperCase()}形式)`);
+      logger.info(`📁 出力先: ${inputData.outputDirectory}`);
+    }
+    if (inputData.llm) {
+      logger.info(`🤖 LLMプロバイダー: ${inputData.llm.default?.provider ?? 'bedrock'}` +
+        (inputData.llm.perType ? ` (タイプ別指定: ${Object.keys(inputData.llm.perType).join(', ')})` : ''));
+    }
 
-        const response = await selectedParticipant?.agent?.generate([
-          { role: 'user', content: adaptivePrompt }
-        ]) || { text: 'System error in agent response' };
+    // 🎲 シード付き乱数（参加者選択・発言者選択・最適化で共有）
+    const seed = inputData.seed ?? resumed?.seed ?? generateRandomSeed();
+    logger.info(`🎲 シード: ${seed}`);
+
+    // 📚 学習履歴の永続化モード（シード指定・再開した議論は保存済み履歴を読み書きせず、同じ入力で再現できるようにする）
+    const historyMode: HistoryPersistenceMode = inputData.historyMode ??
+      (inputData.seed !== undefined || resumed ? 'isolated' : 'persistent');
+
+    // 🌐 議論言語（再開時は保存済みの言語を引き継ぐ）
+    const language: DiscussionLanguage = inputData.language ?? resumed?.language ?? DEFAULT_DISCUSSION_LANGUAGE;
+    logger.info(`🌐 議論言語: ${language}`);
+
+    // 🔧 ランタイム初期化（統合フィードバックシステム・最適化エンジン・乱数）
+    const runtime = await createDiscussionRuntime(runId, {
+      seed,
+      qualityThreshold: inputData.qualityThreshold,
+      enableRealtimeOptimization: inputData.enableRealtimeOptimization,
+      llmJudge: inputData.llmJudge,
+      historyMode
+    });
+    try {
+      logger.info(`📚 学習履歴: ${historyMode}` +
+        (runtime.history.savedAt ? ` (${runtime.history.savedAt} 保存・評価${runtime.history.evaluations}件)` : ''), { history: runtime.history });
+
+      // 👤 人間参加者（タイプ未指定時は参加エージェントと重複しないタイプを割り当て、再開時は保存済みのタイプを引き継ぐ）
+      const humanParticipant = inputData.humanParticipant
+        ? resolveHumanParticipant(
+          { name: inputData.humanParticipant.name, mbtiType: inputData.humanParticipant.mbtiType ?? resumed?.humanParticipant?.mbtiType },
+          resumed ? { types: resumed.participantTypes } : inputData.participants,
+          runtime.random
+        )
+        : undefined;
+      if (humanParticipant) {
+        logger.info(`👤 人間参加者: ${humanParticipant.name} (${humanParticipant.mbtiType}${humanParticipant.typeAssigned ? '・自動割当' : ''})`);
+      }
 
-        // 🔥 統合フィードバック評価（RealtimeFeedbackManagerを使用）
-        const evaluationContext: EvaluationContext = {
-          statement: response.text,
-          topic: inputData.topic,
-          mbtiType: selectedParticipant?.type || 'INTJ',
-          phase: currentPhaseType,
-          turnNumber: turnNumber,
-          history: {
-            recentStatements: [],
-            agentStatements: [],
-            performanceHistory: [],
-            feedbackHistory: []
-          },
-          participants: participants.map(p => ({
-            mbtiType: p.type,
-            currentWeight: p.weight,
-            participationCount: 1,
-            averageQuality: 0.8,
-            lastActivity: new Date()
-          })),
-          currentWeight: selectedParticipant?.weight || 1.0
-        };
+      // 🎭 カスタムペルソナ（再開時は保存済みの割当を引き継ぐ。エージェントは発言時にペルソナレジストリから解決）
+      const personas = personaRegistry.assignToTypes(inputData.personas ?? Object.values(resumed?.personas ?? {}));
+      const personaTypes = Object.keys(personas) as MBTIType[];
+      if (humanParticipant && personaTypes.includes(humanParticipant.mbtiType)) {
+        throw new Error(`人間参加者のタイプ ${humanParticipant.mbtiType} にペルソナ ${personas[humanParticipant.mbtiType]} が指定されています`);
+      }
+      if (personaTypes.length > 0) {
+        logger.info(`🎭 カスタムペルソナ: ${personaTypes.map(type => `${type}=${personas[type]}`).join(', ')}`);
+      }
 
-        const feedbackResult = await realtimeFeedbackManager.evaluateStatement(evaluationContext);
-
-        // 下位互換性のため、旧形式のdetailedPerformanceFeedbackを構築
-        const detailedPerformanceFeedback = {
-          overallScore: feedbackResult.detailed.sevenDimensionEvaluation?.overallQuality || 0.8,
-          feedback: feedbackResult.detailed.feedback,
-          improvementSuggestions: feedbackResult.detailed.improvements || [],
-          mbtiAlignment: feedbackResult.detailed.mbtiAlignment || {
-            alignmentScore: 0.8,
-            expectedCharacteristics: [],
-            demonstratedCharacteristics: [],
-            alignmentGap: [],
-            recommendedFocus: []
-          },
-          detailedAnalysis: {
-            nextSpeechGuidance: feedbackResult.nextGuidance || `${selectedParticipant?.type}として次回の発言を改善してください`,
-            strengths: feedbackResult.detailed.improvements || [],
-            weaknesses: [],
-            specificImprovements: [],
-            qualityTrend: 'stable' as const
-          },
-          sevenDimensionEvaluation: feedbackResult.detailed.sevenDimensionEvaluation || {
-            performance: 0.8,
-            psychological: 0.8,
-            externalAlignment: 0.8,
-            internalConsistency: 0.8,
-            socialDecisionMaking: 0.8,
-            contentQuality: 0.8,
-            ethics: 0.8,
-            overallQuality: 0.8
-          },
-          progressTracking: {
-            improvementTrend: 'stable' as 'improving' | 'stable' | 'declining',
-            consistencyScore: 0.8,
-            recommendedFocus: [],
-            milestones: []
-          }
-        };
+      // 🎯 参加エージェント選択（人間参加者・ペルソナのタイプはエージェント選択から除外し、参加者数の枠を確保する）
+      const reservedTypes = humanParticipant ? [humanParticipant.mbtiType, ...personaTypes] : personaTypes;
+      const selectedTypes = resumed
+        ? [...resumed.participantTypes]
+        : selectParticipantTypes(inputData.participantCount - reservedTypes.length, reserveParticipantTypes(inputData.participants, reservedTypes), runtime.random);
+      reservedTypes.forEach(type => {
+        if (!selectedTypes.includes(type)) {
+          selectedTypes.push(type);
+        }
+      });
+      logger.info(`📊 選択されたMBTIタイプ: ${selectedTypes.join(', ')}`);
+
+      // ⚔️ ディベートモード（再開時は保存済みの陣営・立場を引き継ぐ）
+      const debate = resumed?.debate ??
+        (inputData.debate ? resolveDebateSettings(inputData.debate, selectedTypes, language, runtime.random) : undefined);
+      if (debate) {
+        (['pro', 'contra'] as const).forEach(side => {
+          logger.info(`⚔️ ${getDebateSideLabel(side, language)}側（${debate.positions[side]}）: ${getDebateTeamMembers(debate, side).join(', ')}`);
+        });
+      }
 
-        const statement: DiscussionStatement = {
-          agentId: `node-${selectedParticipant?.type || 'UNKNOWN'}`,
-          mbtiType: selectedParticipant?.type || 'INTJ',
-          content: response.text,
-          timestamp: new Date(),
-          confidence: detailedPerformanceFeedback.overallScore,
-          relevance: detailedPerformanceFeedback.overallScore
-        };
+      // 🗳️ 意思決定モード（再開時は保存済みの候補案・投票方式を引き継ぐ）
+      const decision = resumed?.decision ?? (inputData.decision ? resolveDecisionSettings(inputData.decision) : undefined);
+      if (decision) {
+        logger.info(`🗳️ 意思決定の候補案（${getVotingMethodLabel(decision.votingMethod, language)}）: ${decision.options.join(' / ')}`);
+      }
 
-        // 履歴を更新（DiscussionStatement形式も含む）
-        if (selectedParticipant) {
-          selectedParticipant.feedbackHistory?.push(detailedPerformanceFeedback);
-          selectedParticipant.previousStatements?.push(response.text);
-          selectedParticipant.previousDiscussionStatements?.push(statement);
-          selectedParticipant.performanceHistory?.push(detailedPerformanceFeedback.overallScore);
-          selectedParticipant.lastSpokenTurn = turnNumber;
-
-          // 🆕 重み動的調整（進捗に基づく）
-          const improvementTrend = detailedPerformanceFeedback.progressTracking.improvementTrend;
-          if (improvementTrend === 'improving') {
-            selectedParticipant.weight *= 1.15;
-          } else if (improvementTrend === 'declining') {
-            selectedParticipant.weight *= 0.85;
-          } else if (detailedPerformanceFeedback.overallScore > 0.85) {
-            selectedParticipant.weight *= 1.1;
-          } else if (detailedPerformanceFeedback.overallScore < 0.6) {
-            selectedParticipant.weight *= 0.9;
-          }
+      // 🗺️ フェーズプラン（再開時は保存済みプランを引き継ぎ、完了済みフェーズの次から指定フェーズ数だけ継続）
+      // ディベートモードでプラン未指定の場合は debate プリセット（立場表明 → 反論 → 再反論 → 論点統合 → 合意形成）
+      const phasePlan = resolvePhasePlan(inputData.phasePlan ?? resumed?.phasePlan ?? (debate ? 'debate' : 'standard'), language);
+      const scheduledPhases = resumed
+        ? scheduleDiscussionPhases(phasePlan, resumed.completedPhases, inputData.resume?.additionalPhases ?? 0, language)
+        : scheduleDiscussionPhases(phasePlan, 0, phasePlan.length, language);
+      logger.info(`🗺️ フェーズプラン: ${phasePlan.map(phase => phase.name).join(' → ')}`);
+
+      // 🧭 話題関連性（トピックと各タイプのプロフィールの類似度から初期重みを補正）
+      const topicRelevance = await calculateTopicRelevance(topic, selectedTypes);
+      logger.info(`🧭 話題関連性 (${topicRelevance.provider}): ${selectedTypes
+        .map(type => `${type}×${(topicRelevance.types[type]?.modifier ?? 1.0).toFixed(2)}`)
+        .join(', ')}`);
+
+      const state: DiscussionState = {
+        topic,
+        seed,
+        startedAt: workflowStartTime.toISOString(),
+        settings: {
+          enableRealtimeOptimization: inputData.enableRealtimeOptimization,
+          enableGraphOptimization: inputData.enableGraphOptimization,
+          qualityThreshold: inputData.qualityThreshold,
+          saveConversation: inputData.saveConversation,
+          outputFormat: inputData.outputFormat,
+          outputDirectory: inputData.outputDirectory,
+          llm: inputData.llm,
+          llmJudge: inputData.llmJudge,
+          language,
+          historyMode
+        },
+        history: runtime.history,
+        participantTypes: selectedTypes,
+        humanParticipant,
+        personas: personaTypes.length > 0 ? personas : undefined,
+        topicRelevance,
+        debate,
+        decision,
+        phasePlan,
+        scheduledPhases,
+        nextPhaseIndex: 0,
+        completedPhases: resumed?.completedPhases ?? 0,
+        resumedFrom: resumed?.sourcePath,
+        conversationFlow: resumed ? [...resumed.conversationFlow] : [],
+        participantStates: [],
+        phases: [],
+        optimization: {
+          optimizationCount: 0,
+          totalQualityImprovement: 0,
+          weightAdjustments: {},
+          graphOptimizations: 0,
+          recommendations: []
         }
+      };
 
-        statements.push(statement);
-
-        conversationFlow.push({
-          turnNumber: turnNumber++,
-          speakerAgentId: statement.agentId,
-          speakerMbtiType: statement.mbtiType,
-          statement: statement.content,
-          timestamp: statement.timestamp.toISOString(),
-          confidence: statement.confidence,
-          relevance: statement.relevance,
-          dynamicWeight: selectedParticipant?.weight || 1.0,
-          qualityContribution: detailedPerformanceFeedback.overallScore,
-          // 🆕 7次元評価結果を型安全に追加
-          sevenDimensionEvaluation: detailedPerformanceFeedback.sevenDimensionEvaluation ? {
-            performance: detailedPerformanceFeedback.sevenDimensionEvaluation.performance || 0.8,
-            psychological: detailedPerformanceFeedback.sevenDimensionEvaluation.psychological || 0.8,
-            externalAlignment: detailedPerformanceFeedback.sevenDimensionEvaluation.externalAlignment || 0.8,
-            internalConsistency: detailedPerformanceFeedback.sevenDimensionEvaluation.internalConsistency || 0.8,
-            socialDecisionMaking: detailedPerformanceFeedback.sevenDimensionEvaluation.socialDecisionMaking || 0.8,
-            contentQuality: detailedPerformanceFeedback.sevenDimensionEvaluation.contentQuality || 0.8,
-            ethics: detailedPerformanceFeedback.sevenDimensionEvaluation.ethics || 0.8,
-            overallQuality: detailedPerformanceFeedback.sevenDimensionEvaluation.overallQuality || 0.8
-          } : undefined,
-          realtimeOptimization: {
-            weightAdjustment: (selectedParticipant?.weight || 1.0) - 1.0,
-            graphOptimization: graphOptimizations > 0,
-            qualityImprovement: totalQualityImprovement / Math.max(optimizationCount, 1)
-          }
-        });
+      // 🎭 参加エージェント準備（復元した重み・最終発言ターン・成績履歴を引き継ぎ、新規参加は話題関連性を初期重みとする）
+      state.participantStates = selectedTypes.map(type => {
+        const restoredState = resumed?.participantStates[type];
+        return {
+          mbtiType: type,
+          weight: restoredState?.weight ?? topicRelevance.types[type]?.modifier ?? 1.0,
+          lastSpokenTurn: restoredState?.lastSpokenTurn ?? 0,
+          performanceHistory: [...(restoredState?.performanceHistory ?? [])]
+        };
+      });
+      const participants = prepareParticipants(mastra, state);
+      state.participantStates = snapshotParticipants(participants);
+
+      logger.info(`✅ ${participants.filter(p => !p.isHuman).length}体のエージェントが準備完了`);
+
+      // 🔁 復元ターンの再採点（現在の評価器で品質を再評価、フェーズ未記録のターンは initial として扱う）
+      if (resumed && inputData.resume?.rescoreTurns) {
+        const conversationFlow = state.conversationFlow;
+        logger.info(`\n🔁 復元した${conversationFlow.length}ターンを再採点中...`);
+        for (let index = 0; index < conversationFlow.length; index++) {
+          const flowTurn = conversationFlow[index];
+          if (isOrchestratorTurn(flowTurn)) continue;
+          const mbtiType = flowTurn.speakerMbtiType as MBTIType;
+          const feedbackResult = await runtime.realtimeFeedbackManager.evaluateStatement({
+            statement: flowTurn.statement,
+            topic,
+            mbtiType,
+            phase: flowTurn.phaseType ?? 'initial',
+            turnNumber: flowTurn.turnNumber,
+            history: {
+              recentStatements: [],
+              agentStatements: [],
+              performanceHistory: [],
+              feedbackHistory: []
+            },
+            participants: participants.map(p => ({
+              mbtiType: p.type,
+              currentWeight: p.weight,
+              participationCount: 1,
+              averageQuality: 0.8,
+              lastActivity: new Date()
+            })),
+            currentWeight: flowTurn.dynamicWeight,
+            language
+          });
+
+          const evaluation = feedbackResult.detailed.sevenDimensionEvaluation;
+          const overallScore = evaluation?.overallQuality || feedbackResult.overall.overallScore;
+          conversationFlow[index] = {
+            ...flowTurn,
+            confidence: overallScore,
+            relevance: overallScore,
+            qualityContribution: overallScore,
+            sevenDimensionEvaluation: evaluation ?? flowTurn.sevenDimensionEvaluation
+          };
+          emitDiscussionProgress(runId, {
+            type: 'quality',
+            turnNumber: flowTurn.turnNumber,
+            mbtiType,
+            scores: {
+              performance: feedbackResult.overall.performance,
+              psychological: feedbackResult.overall.psychological,
+              contentQuality: feedbackResult.overall.contentQuality,
+              mbtiAlignment: feedbackResult.overall.mbtiAlignment,
+              overallScore: feedbackResult.overall.overallScore
+            }
+          });
+        }
 
-        console.log(`💬 ${selectedParticipant?.type || 'Unknown'} (調整後重み: ${(selectedParticipant?.weight || 1.0).toFixed(2)}, 成績: ${(detailedPerformanceFeedback.overallScore * 100).toFixed(0)}%)`);
-        console.log(`📝 発言: ${response.text.substring(0, 120)}...`);
-        console.log(`🎯 次回への指示: ${detailedPerformanceFeedback.detailedAnalysis.nextSpeechGuidance}`);
-        console.log(`📈 7次元評価: P${(detailedPerformanceFeedback.sevenDimensionEvaluation.performance * 100).toFixed(0)}% | 心${(detailedPerformanceFeedback.sevenDimensionEvaluation.psychological * 100).toFixed(0)}% | 品${(detailedPerformanceFeedback.sevenDimensionEvaluation.contentQuality * 100).toFixed(0)}% | 協${(detailedPerformanceFeedback.sevenDimensionEvaluation.socialDecisionMaking * 100).toFixed(0)}%`);
+        // 成績履歴を再採点結果で置き換え
+        state.participantStates = state.participantStates.map(participantState => ({
+          ...participantState,
+          performanceHistory: conversationFlow
+            .filter(turn => turn.speakerMbtiType === participantState.mbtiType)
+            .map(turn => turn.qualityContribution)
+        }));
       }
+
+      return state;
+    } catch (error) {
+      // 初期化に失敗した実行のセッション（キャッシュ済みモデル・トレーサー等）を解放
+      await releaseDiscussionRuntime(runId);
+      throw error;
     }
+  }
+});
 
-    // 📊 最終品質評価
-    console.log(`\n📊 最終7次元品質評価実行中...`);
+// 🔄 Step 2: 初期議論ラウンド（プラン先頭の initial フェーズ、再開時は通常スキップ）
+// 人間参加者の発言待ちになった場合はそこで終了し、続きは反復フェーズのステップで中断・再開する
+const initialRoundStep = createStep({
+  id: 'initial-round',
+  description: 'Run the leading initial phases of the phase plan (round-robin opening statements by default)',
+  inputSchema: discussionStateSchema,
+  outputSchema: discussionStateSchema,
+  execute: async ({ inputData, mastra, runId, runtimeContext }) => {
+    const state: DiscussionState = structuredClone(inputData);
+    prepareStepContext(runtimeContext, state, runId);
+    const runtime = await getStepRuntime(runtimeContext, state, runId);
+
+    while (!state.pendingHumanTurn && state.nextPhaseIndex < state.scheduledPhases.length &&
+      state.scheduledPhases[state.nextPhaseIndex].definition.type === 'initial') {
+      await executeDiscussionPhase(state, state.scheduledPhases[state.nextPhaseIndex], {
+        mastra, runId, runtimeContext, runtime
+      });
+    }
 
-    const finalQualityEvaluation = await qualityEvaluator.evaluateComprehensiveQuality(
-      statements,
-      {
-        topic: inputData.topic,
-        duration: (new Date().getTime() - workflowStartTime.getTime()) / 1000,
-        phase: 'final',
-        expectedOutcome: 'comprehensive consensus'
-      }
-    );
+    state.usage = runtime.usageTracker.getRecords();
+    return state;
+  }
+});
+
+// 🔁 Step 3: 反復議論フェーズ（1回の実行で1フェーズ、全フェーズ完了までワークフローでループ）
+// 人間参加者の発言待ちでは suspend し、resume で受け取った発言を採点してフェーズを継続する
+const runDiscussionPhaseStep = createStep({
+  id: 'run-discussion-phase',
+  description: 'Run the next scheduled phase with realtime optimization, speaker selection policy and exit condition (suspends on human turns)',
+  inputSchema: discussionStateSchema,
+  outputSchema: discussionStateSchema,
+  suspendSchema: humanTurnRequestSchema,
+  resumeSchema: humanTurnResponseSchema,
+  execute: async ({ inputData, mastra, runId, runtimeContext, resumeData, suspend }) => {
+    // 再開時の inputData はループ開始時の状態のため、中断時に保存した議論状態から継続する
+    // （resumeData はループの以降の反復にも渡されるため、発言待ちのターン番号と照合する）
+    const suspendedState = runtimeContext.get(SUSPENDED_DISCUSSION_STATE_KEY) as DiscussionState | undefined;
+    const humanResponse = resumeData ? humanTurnResponseSchema.parse(resumeData) : undefined;
+    const resumedTurn = humanResponse !== undefined &&
+      suspendedState?.pendingHumanTurn?.turnNumber === humanResponse.turnNumber
+      ? { state: suspendedState, statement: humanResponse.statement }
+      : undefined;
+    const isHumanTurnResumed = resumedTurn !== undefined;
+    if (isHumanTurnResumed) {
+      runtimeContext.delete(SUSPENDED_DISCUSSION_STATE_KEY);
+    }
+    const state: DiscussionState = structuredClone(resumedTurn?.state ?? inputData);
+
+    // 👤 人間参加者の発言待ち（入力を受けるまで中断）
+    if (state.pendingHumanTurn && !isHumanTurnResumed) {
+      runtimeContext.set(SUSPENDED_DISCUSSION_STATE_KEY, state);
+      await suspend(state.pendingHumanTurn);
+      return state;
+    }
+
+    if (state.nextPhaseIndex >= state.scheduledPhases.length) {
+      return state;
+    }
+
+    prepareStepContext(runtimeContext, state, runId);
+    const runtime = await getStepRuntime(runtimeContext, state, runId);
+    await executeDiscussionPhase(state, state.scheduledPhases[state.nextPhaseIndex], {
+      mastra, runId, runtimeContext, runtime,
+      humanStatement: resumedTurn?.statement
+    });
+
+    state.usage = runtime.usageTracker.getRecords();
+    return state;
+  }
+});
+
+// 📊 Step 4: 最終7次元品質評価
+const evaluateDiscussionStep = createStep({
+  id: 'evaluate-discussion',
+  description: 'Evaluate the whole discussion with the 7-dimension quality evaluator',
+  inputSchema: discussionStateSchema,
+  outputSchema: evaluatedDiscussionStateSchema,
+  execute: async ({ inputData, runId }) => {
+    const logger = discussionLogger.child({ runId });
+    logger.info(`\n📊 最終7次元品質評価実行中...`);
+
+    const statements = toDiscussionStatements(inputData.conversationFlow);
+    const finalQualityEvaluation = await evaluateDiscussionQuality(inputData, statements, 'final', 'comprehensive consensus');
 
     // 参加バランスを実際に計算
     const participationMap = new Map<string, number>();
@@ -729,7 +1495,7 @@ const executeAdvancedMBTIDiscussionStep = createStep({
 
     // 📊 MBTIタイプ別分析
     const mbtiAnalysis: Record<string, any> = {};
-    selectedTypes.forEach(type => {
+    inputData.participantTypes.forEach(type => {
       const typeStatements = statements.filter(s => s.mbtiType === type);
       mbtiAnalysis[type] = {
         participationRate: typeStatements.length / statements.length,
@@ -738,16 +1504,181 @@ const executeAdvancedMBTIDiscussionStep = createStep({
       };
     });
 
-    // 🆕 議論総括の生成
-    console.log(`\n📝 議論総括を生成中...`);
-    const discussionSummary = await generateDiscussionSummary(
-      statements,
-      inputData.topic,
-      selectedTypes,
-      finalMetrics,
-      orchestrator
+    // ⚔️ ディベートの陣営別採点（論証の強さ・対立解決）と勝敗判定
+    const debateResult = inputData.debate
+      ? evaluateDebate(inputData.conversationFlow, inputData.debate, qualityEvaluators[inputData.settings.language])
+      : undefined;
+    if (debateResult) {
+      const { pro, contra } = debateResult.sides;
+      if (debateResult.unscoredSides.length > 0) {
+        logger.warn(`⚠️ 発言のない陣営があるため勝敗を判定できません: ${debateResult.unscoredSides.map(side => getDebateSideLabel(side, inputData.settings.language)).join(', ')}`);
+      }
+      logger.info(`⚔️ ディベート採点: 賛成 ${(pro.score * 100).toFixed(1)}% / 反対 ${(contra.score * 100).toFixed(1)}% → ${debateResult.winner === 'draw' ? '引き分け' : `${getDebateSideLabel(debateResult.winner, inputData.settings.language)}側の勝ち`}`, {
+        winner: debateResult.winner,
+        margin: debateResult.margin,
+        unscoredSides: debateResult.unscoredSides
+      });
+    }
+
+    return {
+      ...inputData,
+      evaluation: {
+        comprehensiveMetrics: finalMetrics,
+        overallScore: comprehensiveScore,
+        grade,
+        mbtiTypeAnalysis: mbtiAnalysis
+      },
+      debateResult
+    };
+  }
+});
+
+// 🗳️ Step 5: 意思決定の投票ラウンド（意思決定モードのみ）
+// 参加エージェントが全候補案を順位付けし、投票方式に従って集計する（人間参加者は投票しない）
+const decisionVoteStep = createStep({
+  id: 'decision-vote',
+  description: 'Let each participating agent rank the candidate options and tally the ballots (decision mode only)',
+  inputSchema: evaluatedDiscussionStateSchema,
+  outputSchema: evaluatedDiscussionStateSchema,
+  execute: async ({ inputData, mastra, runId, runtimeContext }) => {
+    const decision = inputData.decision;
+    if (!decision) return inputData;
+
+    prepareStepContext(runtimeContext, inputData, runId);
+    const runtime = await getStepRuntime(runtimeContext, inputData, runId);
+    runtime.usageTracker.setPhase(undefined);
+    const language = inputData.settings.language;
+    const statements = toDiscussionStatements(inputData.conversationFlow);
+
+    runtime.logger.info(`\n🗳️ 意思決定の投票ラウンド（${getVotingMethodLabel(decision.votingMethod, language)}）...`);
+    const participants = prepareParticipants(mastra, inputData);
+    if (inputData.humanParticipant) {
+      runtime.logger.info(`👤 ${inputData.humanParticipant.name}（${inputData.humanParticipant.mbtiType}）は投票ラウンドの対象外です`);
+    }
+
+    // 投票者の重みは議論終了時の動的重み（発言ごとの成績・リアルタイム最適化で調整済み）
+    const votes: DecisionVote[] = [];
+    for (const voter of participants.filter(p => !p.isHuman)) {
+      const voterLogger = runtime.logger.child({ mbtiType: voter.type });
+      const voterAgent = voter.agent;
+      if (!voterAgent) {
+        throw new Error(`${voter.type} のエージェントが登録されていないため投票できません`);
+      }
+      try {
+        const text = await runtime.tracer.withSpan('mads.decision.vote', { [TRACE_ATTRIBUTES.mbtiType]: voter.type }, async span => {
+          const startedAt = Date.now();
+          const response = await voterAgent.generate([
+            { role: 'user', content: createBallotPrompt(decision, inputData.topic, voter.type, statements, language) }
+          ], { runtimeContext });
+          recordLLMUsage(runtimeContext, response, { agent: voter.type, purpose: 'vote', latencyMs: Date.now() - startedAt });
+          span.setAttributes({
+            'mads.llm.model': response.response?.modelId ?? 'unknown',
+            'mads.llm.prompt_tokens': response.usage?.promptTokens ?? 0,
+            'mads.llm.completion_tokens': response.usage?.completionTokens ?? 0
+          });
+          return response.text;
+        });
+
+        const ballot = parseBallot(text, decision.options);
+        if (!ballot.parsed) {
+          voterLogger.warn(`⚠️ ${voter.type} の投票から順位を読み取れません（棄権として集計から除外）`);
+        }
+        votes.push({ mbtiType: voter.type, weight: voter.weight, ...ballot });
+        voterLogger.debug(`🗳️ ${voter.type}（重み ${voter.weight.toFixed(2)}）: ${ballot.ranking.join(' > ')}`, { ranking: ballot.ranking });
+      } catch (error) {
+        // 応答を得られなかった投票者も棄権として記録し、有効票と棄権の合計を投票者数に一致させる
+        votes.push({ mbtiType: voter.type, weight: voter.weight, ranking: [], rationale: '', parsed: false });
+        voterLogger.warn(`⚠️ ${voter.type} の投票に失敗しました（棄権として集計から除外）`, { error });
+      }
+    }
+
+    const decisionResult = tallyDecisionVotes(decision, votes);
+    if (decisionResult.winner === null) {
+      runtime.logger.warn(`⚠️ 有効票がないため決定なし（棄権 ${decisionResult.abstentions.length}票）`, {
+        abstentions: decisionResult.abstentions
+      });
+    } else {
+      runtime.logger.info(`🏆 決定: ${decisionResult.winner}（有効票 ${decisionResult.validVotes}票 / 棄権 ${decisionResult.abstentions.length}票）`, {
+        winner: decisionResult.winner,
+        validVotes: decisionResult.validVotes,
+        abstentions: decisionResult.abstentions
+      });
+    }
+    decisionResult.ranking.forEach(entry => {
+      runtime.logger.info(`  ${entry.rank}. ${entry.option} - ${(entry.score * 100).toFixed(1)}% / 第1希望 ${entry.firstChoiceVotes}票`);
+    });
+
+    return {
+      ...inputData,
+      decisionResult,
+      usage: runtime.usageTracker.getRecords()
+    };
+  }
+});
+
+// 📝 Step 6: 議論総括の生成
+const summarizeDiscussionStep = createStep({
+  id: 'summarize-discussion',
+  description: 'Generate the discussion summary with the orchestrator agent',
+  inputSchema: evaluatedDiscussionStateSchema,
+  outputSchema: summarizedDiscussionStateSchema,
+  execute: async ({ inputData, mastra, runId, runtimeContext }) => {
+    prepareStepContext(runtimeContext, inputData, runId);
+    const runtime = await getStepRuntime(runtimeContext, inputData, runId);
+    runtime.usageTracker.setPhase(undefined);
+
+    // 🔧 オーケストレーター取得
+    const orchestrator = mastra?.getAgent('M-ADS-Orchestrator');
+
+    runtime.logger.info(`\n📝 議論総括を生成中...`);
+    const discussionSummary: DiscussionSummary = await runtime.tracer.withSpan(
+      'mads.summary',
+      { 'mads.statements': inputData.conversationFlow.length, 'mads.summary.llm': orchestrator !== undefined },
+      () => generateDiscussionSummary(
+        toDiscussionStatements(inputData.conversationFlow),
+        inputData.topic,
+        inputData.participantTypes,
+        inputData.evaluation.comprehensiveMetrics,
+        orchestrator,
+        runtimeContext
+      )
     );
 
+    return {
+      ...inputData,
+      discussionSummary: {
+        overview: discussionSummary.overview || '議論全体の概要',
+        keyThemes: discussionSummary.keyThemes || [],
+        progressAnalysis: discussionSummary.progressAnalysis || '議論の進展分析',
+        mbtiContributions: discussionSummary.mbtiContributions || {},
+        consensus: discussionSummary.consensus || '合意形成の分析',
+        insights: discussionSummary.insights || [],
+        processCharacteristics: discussionSummary.processCharacteristics || []
+      },
+      usage: runtime.usageTracker.getRecords()
+    };
+  }
+});
+
+// 💾 Step 7: 会話保存と最終結果の組み立て
+const saveConversationStep = createStep({
+  id: 'save-conversation',
+  description: 'Save the conversation (markdown/json) and assemble the final discussion report',
+  inputSchema: summarizedDiscussionStateSchema,
+  outputSchema: discussionOutputSchema,
+  execute: async ({ inputData, runId }) => {
+    const { settings, evaluation, discussionSummary, conversationFlow, optimization, debateResult, decisionResult } = inputData;
+    const logger = discussionLogger.child({ runId });
+    const usage = summarizeLLMUsage(inputData.usage ?? []);
+    const finalMetrics = evaluation.comprehensiveMetrics;
+    const comprehensiveScore = evaluation.overallScore;
+    const grade = evaluation.grade;
+    const selectedTypes = inputData.participantTypes;
+    const participantStates = inputData.participantStates.map(state => ({
+      ...state,
+      mbtiType: state.mbtiType as MBTIType
+    }));
+
     // 💾 会話保存処理
     let conversationSaveResult: {
       saved: boolean;
@@ -759,17 +1690,22 @@ const executeAdvancedMBTIDiscussionStep = createStep({
       saved: false
     };
 
-    if (inputData.saveConversation && conversationFlow.length > 0) {
+    if (settings.saveConversation && conversationFlow.length > 0) {
       try {
-        console.log(`\n💾 会話保存を実行中...`);
+        logger.info(`\n💾 会話保存を実行中...`);
 
         const conversationData: ConversationData = {
           topic: inputData.topic,
           participants: selectedTypes,
-          startTime: workflowStartTime,
+          startTime: new Date(inputData.startedAt),
           endTime: new Date(),
           turns: conversationFlow.map((turn: any) => ({
             agentType: turn?.speakerMbtiType || 'Unknown',
+            speakerKind: turn?.speakerKind,
+            speakerName: turn?.speakerName,
+            interventionType: turn?.interventionType,
+            debateSide: turn?.debateSide,
+            rebuttalTo: turn?.rebuttalTo,
             message: turn?.statement || '',
             timestamp: turn?.timestamp || new Date().toISOString(),
             weight: turn?.dynamicWeight || 1.0,
@@ -780,47 +1716,48 @@ const executeAdvancedMBTIDiscussionStep = createStep({
             }
           })),
           qualityReport: {
-            performanceScore: finalMetrics.performanceScore,
-            psychologicalScore: finalMetrics.psychologicalScore,
-            externalAlignmentScore: finalMetrics.externalAlignmentScore,
-            internalConsistencyScore: finalMetrics.internalConsistencyScore,
-            socialDecisionScore: finalMetrics.socialDecisionScore,
-            contentQualityScore: finalMetrics.contentQualityScore,
-            ethicsScore: finalMetrics.ethicsScore,
-            diversityScore: finalMetrics.diversityScore,
-            consistencyScore: finalMetrics.consistencyScore,
-            convergenceEfficiency: finalMetrics.convergenceEfficiency,
-            mbtiAlignmentScore: finalMetrics.mbtiAlignmentScore,
-            interactionQuality: finalMetrics.interactionQuality,
-            argumentQuality: finalMetrics.argumentQuality,
-            participationBalance: finalMetrics.participationBalance,
-            resolutionRate: finalMetrics.resolutionRate,
+            ...finalMetrics,
             overallScore: comprehensiveScore,
             grade,
-            strengths: generateStrengths(finalMetrics),
-            improvements: generateWeaknesses(finalMetrics),
+            strengths: generateStrengths(finalMetrics, settings.language),
+            improvements: generateWeaknesses(finalMetrics, settings.language),
             optimizationResults: {
-              executionCount: optimizationCount,
-              improvementPercentage: totalQualityImprovement * 100,
-              recommendations: allRecommendations
+              executionCount: optimization.optimizationCount,
+              improvementPercentage: optimization.totalQualityImprovement * 100,
+              recommendations: optimization.recommendations
             }
           },
           metadata: {
-            participantCount: inputData.participantCount,
+            participantCount: selectedTypes.length,
             totalTurns: conversationFlow.length,
+            seed: inputData.seed,
+            language: settings.language,
+            history: inputData.history,
+            completedPhases: inputData.completedPhases,
+            phasePlan: inputData.phasePlan,
+            resumedFrom: inputData.resumedFrom,
+            humanParticipant: inputData.humanParticipant,
+            personas: inputData.personas,
+            debate: inputData.debate,
+            decision: inputData.decision,
             enabledFeatures: {
-              realtimeOptimization: inputData.enableRealtimeOptimization,
-              graphOptimization: inputData.enableGraphOptimization
+              realtimeOptimization: settings.enableRealtimeOptimization,
+              graphOptimization: settings.enableGraphOptimization
             }
           },
-          discussionSummary
+          discussionSummary,
+          debateResult,
+          decisionResult,
+          conversationFlow,
+          participantStates,
+          usage
         };
 
         let savedPath: string;
-        if (inputData.outputFormat === 'json') {
-          savedPath = saveConversationAsJson(conversationData, inputData.outputDirectory);
+        if (settings.outputFormat === 'json') {
+          savedPath = saveConversationAsJson(conversationData, settings.outputDirectory);
         } else {
-          savedPath = saveConversationAsMarkdown(conversationData, inputData.outputDirectory);
+          savedPath = saveConversationAsMarkdown(conversationData, settings.outputDirectory);
         }
 
         let fileSize = '0 KB';
@@ -836,10 +1773,10 @@ const executeAdvancedMBTIDiscussionStep = createStep({
           saved: true,
           filePath: savedPath,
           fileSize,
-          format: inputData.outputFormat
+          format: settings.outputFormat
         };
 
-        console.log(`✅ 会話保存完了: ${savedPath} (${fileSize})`);
+        logger.info(`✅ 会話保存完了: ${savedPath} (${fileSize})`, { filePath: savedPath });
 
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -847,136 +1784,109 @@ const executeAdvancedMBTIDiscussionStep = createStep({
           saved: false,
           error: errorMessage
         };
-        console.error(`❌ 会話保存エラー: ${errorMessage}`);
+        logger.error(`❌ 会話保存エラー: ${errorMessage}`);
       }
     }
 
-    console.log(`\n🎉 Phase 2 完全版議論完了!`);
-    console.log(`📊 総合スコア: ${(comprehensiveScore * 100).toFixed(1)}% (グレード: ${grade})`);
-    console.log(`⚡ リアルタイム最適化: ${optimizationCount}回実行`);
-    console.log(`📈 品質改善度: ${(totalQualityImprovement * 100).toFixed(1)}%`);
-    console.log(`🔍 主要テーマ: ${discussionSummary.keyThemes.join('、')}`);
-    console.log(`💡 主要洞察: ${discussionSummary.insights.slice(0, 2).join('、')}`);
-    console.log(`🎭 7次元最終評価: P${(finalMetrics.performanceScore * 100).toFixed(0)}% | 心${(finalMetrics.psychologicalScore * 100).toFixed(0)}% | 品${(finalMetrics.contentQualityScore * 100).toFixed(0)}% | 協${(finalMetrics.socialDecisionScore * 100).toFixed(0)}% | 倫${(finalMetrics.ethicsScore * 100).toFixed(0)}%`);
+    // 🔭 ルートスパンに結果を記録して終了（トレースIDで runId の議論を横断検索できる）
+    const tracer = discussionSessionRegistry.get(runId)?.runtime?.tracer;
+    if (tracer?.recording) {
+      await tracer.end({
+        'mads.score.overall': comprehensiveScore,
+        'mads.grade': grade,
+        'mads.statements': conversationFlow.filter(turn => !isOrchestratorTurn(turn)).length,
+        'mads.tokens.total': usage.total.totalTokens
+      });
+      logger.info(`🔭 トレースID: ${tracer.traceId} (runId: ${runId})`, { traceId: tracer.traceId });
+    }
+
+    // 🧹 議論セッション（ランタイム・グラフ・相互作用履歴）を解放
+    await releaseDiscussionRuntime(runId);
+
+    logger.info(`\n🎉 Phase 2 完全版議論完了!`, { score: comprehensiveScore, grade, totalTokens: usage.total.totalTokens });
+    logger.info(`📊 総合スコア: ${(comprehensiveScore * 100).toFixed(1)}% (グレード: ${grade})`);
+    logger.info(`⚡ リアルタイム最適化: ${optimization.optimizationCount}回実行`);
+    logger.info(`📈 品質改善度: ${(optimization.totalQualityImprovement * 100).toFixed(1)}%`);
+    logger.info(`🔍 主要テーマ: ${discussionSummary.keyThemes.join('、')}`);
+    logger.info(`💡 主要洞察: ${discussionSummary.insights.slice(0, 2).join('、')}`);
+    logger.info(`💰 LLM使用量: ${usage.total.calls}回 / ${usage.total.totalTokens.toLocaleString()}トークン / 見積もり ${formatEstimatedCost(usage.total)}`);
+    logger.info(`🎭 7次元最終評価: P${(finalMetrics.performanceScore * 100).toFixed(0)}% | 心${(finalMetrics.psychologicalScore * 100).toFixed(0)}% | 品${(finalMetrics.contentQualityScore * 100).toFixed(0)}% | 協${(finalMetrics.socialDecisionScore * 100).toFixed(0)}% | 倫${(finalMetrics.ethicsScore * 100).toFixed(0)}%`);
 
-    const result = {
+    return {
       topic: inputData.topic,
+      seed: inputData.seed,
+      language: settings.language,
+      history: inputData.history,
       participantTypes: selectedTypes.map(type => type as string), // MBTIType[] → string[]変換
-      totalStatements: statements.length,
-      totalTurns: turnNumber - 1,
+      humanParticipant: inputData.humanParticipant,
+      personas: inputData.personas,
+      topicRelevance: inputData.topicRelevance,
+      totalStatements: conversationFlow.filter(turn => !isOrchestratorTurn(turn)).length,
+      totalTurns: conversationFlow.length,
+      completedPhases: inputData.completedPhases,
+      phasePlan: inputData.phasePlan,
+      phases: inputData.phases,
+      debate: inputData.debate,
+      debateResult,
+      decision: inputData.decision,
+      decisionResult,
       conversationFlow,
+      participantStates: inputData.participantStates,
       comprehensiveMetrics: finalMetrics,
       realtimeOptimization: {
-        optimizationCount,
-        qualityImprovement: totalQualityImprovement,
-        weightAdjustments,
-        graphOptimizations,
-        recommendations: allRecommendations
+        optimizationCount: optimization.optimizationCount,
+        qualityImprovement: optimization.totalQualityImprovement,
+        weightAdjustments: optimization.weightAdjustments,
+        graphOptimizations: optimization.graphOptimizations,
+        recommendations: optimization.recommendations
       },
       advancedReport: {
-        summary: `Phase 2完全版: ${selectedTypes.length}タイプによる${turnNumber - 1}ターンの高度な議論が完了。7次元品質評価で${(comprehensiveScore * 100).toFixed(1)}%を達成。`,
-        strengths: generateStrengths(finalMetrics),
-        weaknesses: generateWeaknesses(finalMetrics),
+        summary: generateReportSummary(selectedTypes.length, conversationFlow.length, comprehensiveScore, settings.language),
+        strengths: generateStrengths(finalMetrics, settings.language),
+        weaknesses: generateWeaknesses(finalMetrics, settings.language),
         overallScore: comprehensiveScore,
         grade,
-        detailedAnalysis: `リアルタイム最適化により品質が${(totalQualityImprovement * 100).toFixed(1)}%向上。特に${Object.entries(finalMetrics).filter(([_, v]) => v >= 0.85).map(([k, _]) => k).join('、')}の項目で高いスコアを達成。`,
-        mbtiTypeAnalysis: mbtiAnalysis
+        detailedAnalysis: generateReportAnalysis(optimization.totalQualityImprovement, finalMetrics, settings.language),
+        mbtiTypeAnalysis: evaluation.mbtiTypeAnalysis
       },
-      discussionSummary: {
-        overview: discussionSummary.overview || '議論全体の概要',
-        keyThemes: discussionSummary.keyThemes || [],
-        progressAnalysis: discussionSummary.progressAnalysis || '議論の進展分析',
-        mbtiContributions: discussionSummary.mbtiContributions || {},
-        consensus: discussionSummary.consensus || '合意形成の分析',
-        insights: discussionSummary.insights || [],
-        processCharacteristics: discussionSummary.processCharacteristics || []
-      }
-    };
-
-    return {
-      ...result,
+      discussionSummary,
+      usage,
       conversationSaved: conversationSaveResult
     };
   }
 });
 
+// ===========================================
+// ワークフロー定義
+// ===========================================
+
 // 🚀 Phase 2 完全版ワークフロー
+// 参加者選択 → 初期ラウンド → 反復フェーズ（全フェーズ完了までループ）→ 評価 → 投票（意思決定モード）→ 総括 → 保存
 export const advancedMBTIDiscussionWorkflow = createWorkflow({
   id: 'advanced-mbti-discussion-workflow',
   description: 'Phase 2 Complete: Advanced MBTI Discussion System with 16 agents, 7D quality evaluation, and realtime optimization',
-  inputSchema: z.object({
-    topic: z.string().describe('The topic for discussion'),
-    participantCount: z.number().min(4).max(16).default(8),
-    enableRealtimeOptimization: z.boolean().default(true),
-    enableGraphOptimization: z.boolean().default(true),
-    qualityThreshold: z.number().min(0.5).max(1.0).default(0.8),
-    saveConversation: z.boolean().default(true).describe('Save conversation to file'),
-    outputFormat: z.enum(['markdown', 'json']).default('markdown').describe('Output format for saved conversation'),
-    outputDirectory: z.string().default('./conversations').describe('Directory to save conversation files')
-  }),
-  outputSchema: z.object({
-    topic: z.string(),
-    participantTypes: z.array(z.string()),
-    totalStatements: z.number(),
-    totalTurns: z.number(),
-    conversationFlow: z.array(enhancedConversationSchema),
-    comprehensiveMetrics: z.object({
-      performanceScore: z.number(),
-      psychologicalScore: z.number(),
-      externalAlignmentScore: z.number(),
-      internalConsistencyScore: z.number(),
-      socialDecisionScore: z.number(),
-      contentQualityScore: z.number(),
-      ethicsScore: z.number(),
-      diversityScore: z.number(),
-      consistencyScore: z.number(),
-      convergenceEfficiency: z.number(),
-      mbtiAlignmentScore: z.number(),
-      interactionQuality: z.number(),
-      argumentQuality: z.number(),
-      participationBalance: z.number(),
-      resolutionRate: z.number()
-    }),
-    realtimeOptimization: z.object({
-      optimizationCount: z.number(),
-      qualityImprovement: z.number(),
-      weightAdjustments: z.record(z.number()),
-      graphOptimizations: z.number(),
-      recommendations: z.array(z.string())
-    }),
-    advancedReport: z.object({
-      summary: z.string(),
-      strengths: z.array(z.string()),
-      weaknesses: z.array(z.string()),
-      overallScore: z.number(),
-      grade: z.string(),
-      detailedAnalysis: z.string(),
-      mbtiTypeAnalysis: z.record(z.object({
-        participationRate: z.number(),
-        qualityContribution: z.number(),
-        characteristicAlignment: z.number()
-      }))
-    }),
-    discussionSummary: z.object({
-      overview: z.string().describe('議論全体の総合概要'),
-      keyThemes: z.array(z.string()).describe('議論で扱われた主要テーマ'),
-      progressAnalysis: z.string().describe('議論の進展パターン分析'),
-      mbtiContributions: z.record(z.string()).describe('MBTIタイプ別の具体的貢献内容'),
-      consensus: z.string().describe('合意形成プロセスの分析'),
-      insights: z.array(z.string()).describe('議論から得られた重要な洞察'),
-      processCharacteristics: z.array(z.string()).describe('議論プロセスの特徴的パターン')
-    }),
-    conversationSaved: z.object({
-      saved: z.boolean(),
-      filePath: z.string().optional(),
-      fileSize: z.string().optional(),
-      format: z.string().optional(),
-      error: z.string().optional()
-    })
-  })
+  inputSchema: discussionInputSchema,
+  outputSchema: discussionOutputSchema
 })
-  .then(executeAdvancedMBTIDiscussionStep)
+  .then(selectParticipantsStep)
+  .then(initialRoundStep)
+  .dountil(runDiscussionPhaseStep, async ({ inputData }) => inputData.nextPhaseIndex >= inputData.scheduledPhases.length)
+  .then(evaluateDiscussionStep)
+  .then(decisionVoteStep)
+  .then(summarizeDiscussionStep)
+  .then(saveConversationStep)
   .commit();
 
 // 🔄 既存ワークフローも保持（後方互換性）
 export const mbtiDiscussionWorkflow = advancedMBTIDiscussionWorkflow;
+
+// 🧩 個別ステップ（差し替え・個別実行・観測用）
+export {
+  selectParticipantsStep,
+  initialRoundStep,
+  runDiscussionPhaseStep,
+  evaluateDiscussionStep,
+  decisionVoteStep,
+  summarizeDiscussionStep,
+  saveConversationStep
+};
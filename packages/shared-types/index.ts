@@ -0,0 +1,4 @@
+// @m-ads/shared-types
+// mastra / webapp 間で共有する型定義のエントリーポイント
+
+export * from './types/m-ads';
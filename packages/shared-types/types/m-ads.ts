@@ -0,0 +1,500 @@
+// M-ADS (MBTI Multi-Agent Discussion System) Types
+// Mastraワークフローとの統合用型定義
+
+export type MBTIType = 
+  | 'INTJ' | 'INTP' | 'ENTJ' | 'ENTP'  // NT (Rational)
+  | 'INFJ' | 'INFP' | 'ENFJ' | 'ENFP'  // NF (Idealist)
+  | 'ISTJ' | 'ISFJ' | 'ESTJ' | 'ESFJ'  // SJ (Guardian)
+  | 'ISTP' | 'ISFP' | 'ESTP' | 'ESFP'; // SP (Artisan)
+
+export type MBTIGroup = 'NT' | 'NF' | 'SJ' | 'SP';
+
+export type DiscussionPhase = 'brainstorming' | 'analysis' | 'synthesis' | 'conclusion';
+
+// 🌐 議論言語（エージェントの指示文・プロンプト・総括・レポート・評価ヒューリスティクスを切り替え）
+export type DiscussionLanguage = 'ja' | 'en';
+
+// 🎯 オーケストレーター介入の種別
+export type OrchestratorInterventionType = 'diversity_boost' | 'consistency_improvement' | 'convergence_facilitation';
+
+// 🔄 会話ターン（Mastraワークフローの結果形式）
+export interface ConversationTurn {
+  turnNumber: number;
+  speakerAgentId: string;
+  // オーケストレーター介入のターンは 'ORCHESTRATOR'
+  speakerMbtiType: MBTIType | 'ORCHESTRATOR';
+  // 人間参加者の発言は speakerKind: 'human' と表示名を持つ（未指定はエージェント）
+  // オーケストレーター介入は speakerKind: 'orchestrator' と介入種別を持つ（採点対象外）
+  speakerKind?: 'agent' | 'human' | 'orchestrator';
+  speakerName?: string;
+  interventionType?: OrchestratorInterventionType;
+  statement: string;
+  responseToAgent?: string;
+  // ⚔️ ディベートモードの陣営と反論先のターン番号
+  debateSide?: DebateSide;
+  rebuttalTo?: number;
+  // 発言したフェーズの種類（再開時の再採点で使用）
+  phaseType?: 'initial' | 'interaction' | 'synthesis' | 'consensus';
+  timestamp: string;
+  confidence: number;
+  relevance: number;
+  dynamicWeight: number;
+  qualityContribution: number;
+  sevenDimensionEvaluation?: {
+    performance: number;
+    psychological: number;
+    externalAlignment: number;
+    internalConsistency: number;
+    socialDecisionMaking: number;
+    contentQuality: number;
+    ethics: number;
+    overallQuality: number;
+  };
+  realtimeOptimization: {
+    weightAdjustment: number;
+    graphOptimization: boolean;
+    qualityImprovement: number;
+  };
+}
+
+// 📊 品質メトリクス（7次元＋従来メトリクス）
+export interface ComprehensiveMetrics {
+  // 7次元品質評価
+  performanceScore: number;
+  psychologicalScore: number;
+  externalAlignmentScore: number;
+  internalConsistencyScore: number;
+  socialDecisionScore: number;
+  contentQualityScore: number;
+  ethicsScore: number;
+
+  // 従来メトリクス
+  diversityScore: number;
+  consistencyScore: number;
+  convergenceEfficiency: number;
+  mbtiAlignmentScore: number;
+  interactionQuality: number;
+
+  // 新規メトリクス
+  argumentQuality: number;
+  participationBalance: number;
+  resolutionRate: number;
+}
+
+// ⚡ リアルタイム最適化結果
+export interface RealtimeOptimization {
+  optimizationCount: number;
+  qualityImprovement: number;
+  weightAdjustments: Record<string, number>;
+  graphOptimizations: number;
+  recommendations: string[];
+}
+
+// 🏆 総合評価レポート
+export interface AdvancedReport {
+  summary: string;
+  strengths: string[];
+  weaknesses: string[];
+  overallScore: number;
+  grade: string;
+  detailedAnalysis: string;
+  mbtiTypeAnalysis: Record<string, {
+    participationRate: number;
+    qualityContribution: number;
+    characteristicAlignment: number;
+  }>;
+}
+
+// 💬 議論総括
+export interface DiscussionSummary {
+  overview: string;
+  keyThemes: string[];
+  progressAnalysis: string;
+  mbtiContributions: Record<string, string>;
+  consensus: string;
+  insights: string[];
+  processCharacteristics: string[];
+}
+
+// 💾 会話保存結果
+export interface ConversationSaved {
+  saved: boolean;
+  filePath?: string;
+  fileSize?: string;
+  format?: string;
+  error?: string;
+}
+
+// 🧭 話題関連性（トピックと各タイプのプロフィールの類似度、初期重みの修正係数）
+export interface TopicRelevance {
+  provider: string;
+  types: Partial<Record<MBTIType, { similarity: number; modifier: number }>>;
+}
+
+// 💰 LLM使用量の集計値（estimatedCostUSD は単価未登録の呼び出しを除く）
+export interface LLMUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  estimatedCostUSD: number;
+  unpricedCalls: number;
+}
+
+// 💰 LLM使用量（実行全体・MBTIタイプ別・フェーズ別・用途別・モデル別）
+export interface LLMUsageSummary {
+  total: LLMUsageTotals;
+  byAgent: Record<string, LLMUsageTotals>;
+  byPhase: Array<LLMUsageTotals & { phase: number | null; phaseName: string | null }>;
+  byPurpose: Record<string, LLMUsageTotals>;
+  byModel: Record<string, LLMUsageTotals>;
+}
+
+// 🏷️ 結果の出所（live: Mastraワークフロー実行 / mock: フォールバック）
+export type DiscussionResultSource = 'live' | 'mock';
+
+// 🎯 Mastraワークフロー実行結果の完全型定義
+export interface DiscussionResult {
+  source: DiscussionResultSource;
+  fallbackReason?: string;
+  topic: string;
+  seed?: number;
+  language?: DiscussionLanguage;
+  participantTypes: MBTIType[];
+  humanParticipant?: HumanParticipant;
+  // 🎭 カスタムペルソナが担当したタイプ（MBTIタイプ → ペルソナID）
+  personas?: Partial<Record<MBTIType, string>>;
+  topicRelevance?: TopicRelevance;
+  totalStatements: number;
+  totalTurns: number;
+  conversationFlow: ConversationTurn[];
+  comprehensiveMetrics: ComprehensiveMetrics;
+  realtimeOptimization: RealtimeOptimization;
+  advancedReport: AdvancedReport;
+  discussionSummary: DiscussionSummary;
+  phases?: PhaseExecutionResult[];
+  conversationSaved?: ConversationSaved;
+  usage?: LLMUsageSummary;
+  debate?: DebateSettings;
+  debateResult?: DebateResult;
+  decision?: DecisionSettings;
+  decisionResult?: DecisionResult;
+  // アーカイブ保存時のID（/archive/[id] で参照）
+  archiveId?: string;
+}
+
+// 👥 参加者選択指定（types 指定時は participantCount より優先）
+export interface ParticipantSelection {
+  types?: MBTIType[];
+  groupQuotas?: Partial<Record<MBTIGroup, number>>;
+  exclude?: MBTIType[];
+}
+
+// 🤖 LLMプロバイダー選択（bedrock / anthropic / openai-compatible / scripted）
+export interface LLMSelection {
+  provider: string;
+  model?: string;
+  baseURL?: string;
+  responses?: string[];
+}
+
+// 🤖 実行単位のLLM設定（perType が default より優先）
+export interface LLMRunConfiguration {
+  default?: LLMSelection;
+  perType?: Partial<Record<MBTIType | 'ORCHESTRATOR', LLMSelection>>;
+}
+
+// 🗺️ フェーズ定義（ターン予算・発言者選択ポリシー・終了条件）
+export interface PhaseDefinition {
+  name: string;
+  type: 'initial' | 'interaction' | 'synthesis' | 'consensus';
+  rounds?: number;
+  turns?: number;
+  speakerSelection?: 'round-robin' | 'weighted' | 'random';
+  optimize?: boolean;
+  exitCondition?: {
+    metric: 'convergence' | 'quality';
+    threshold: number;
+    minTurns?: number;
+  };
+}
+
+// 🗺️ フェーズプラン（プリセット名またはフェーズ定義の配列）
+export type PhasePlanPresetName = 'standard' | 'brainstorm' | 'debate' | 'consensus-only';
+export type PhasePlanInput = PhasePlanPresetName | PhaseDefinition[];
+
+// 🗺️ フェーズ実行結果
+export interface PhaseExecutionResult {
+  phase: number;
+  name: string;
+  type: string;
+  turns: number;
+  turnBudget: number;
+  exitedEarly: boolean;
+  exitMetricValue?: number;
+}
+
+// 👤 人間参加者（mbtiType 未指定時は参加エージェントと重複しないタイプを割り当て）
+export interface HumanParticipantConfig {
+  name: string;
+  mbtiType?: MBTIType;
+}
+
+// 👤 割り当て済みの人間参加者
+export interface HumanParticipant {
+  name: string;
+  mbtiType: MBTIType;
+  typeAssigned: boolean;
+}
+
+// 👤 人間参加者の発言待ち（ワークフロー中断時のペイロード + 再開用の runId）
+export interface HumanTurnRequest {
+  runId: string;
+  participantName: string;
+  mbtiType: MBTIType;
+  topic: string;
+  turnNumber: number;
+  phase: number;
+  phaseName: string;
+  phaseType: 'initial' | 'interaction' | 'synthesis' | 'consensus';
+  selectionReason: string;
+  guidance: string;
+}
+
+// 👤 人間参加者の発言（再開時に送信）
+export interface HumanTurnInput {
+  runId: string;
+  turnNumber: number;
+  statement: string;
+}
+
+// ⚔️ ディベートの陣営（pro: 賛成 / contra: 反対）
+export type DebateSide = 'pro' | 'contra';
+
+// ⚔️ ディベートモード指定（teams 未指定のタイプは MBTIグループが偏らないよう自動で振り分け）
+export interface DebateConfig {
+  positions?: Partial<Record<DebateSide, string>>;
+  teams?: Partial<Record<DebateSide, MBTIType[]>>;
+}
+
+// ⚔️ 確定したディベート設定（teams は MBTIタイプ → 陣営）
+export interface DebateSettings {
+  positions: Record<DebateSide, string>;
+  teams: Partial<Record<MBTIType, DebateSide>>;
+}
+
+// ⚔️ 陣営別の採点結果（score は論証の強さと対立解消の加重平均）
+export interface DebateSideResult {
+  side: DebateSide;
+  position: string;
+  members: MBTIType[];
+  statements: number;
+  rebuttals: number;
+  argumentStrength: number;
+  conflictResolution: number;
+  score: number;
+}
+
+// ⚔️ ディベート結果
+export interface DebateResult {
+  sides: Record<DebateSide, DebateSideResult>;
+  winner: DebateSide | 'draw';
+  margin: number;
+  unscoredSides?: DebateSide[];  // 発言のない陣営（空でない場合は判定なしの引き分け）
+}
+
+// 🗳️ 意思決定の投票方式（weighted: 動的重みによる加重ボルダ得点 / ranked-choice: 即時決選投票）
+export type DecisionVotingMethod = 'weighted' | 'ranked-choice';
+
+// 🗳️ 意思決定モード指定（候補案は2つ以上、votingMethod 未指定は weighted）
+export interface DecisionConfig {
+  options: string[];
+  votingMethod?: DecisionVotingMethod;
+}
+
+// 🗳️ 確定した意思決定設定
+export interface DecisionSettings {
+  options: string[];
+  votingMethod: DecisionVotingMethod;
+}
+
+// 🗳️ 参加者1人分の投票（parsed: false は応答から順位を読み取れなかった棄権票で、ranking は空）
+export interface DecisionVote {
+  mbtiType: MBTIType;
+  weight: number;
+  ranking: string[];
+  rationale: string;
+  parsed: boolean;
+}
+
+// 🗳️ 候補案ごとの集計結果（supporters は第1希望に選んだタイプ）
+export interface DecisionOptionResult {
+  option: string;
+  rank: number;
+  score: number;
+  firstChoiceVotes: number;
+  supporters: MBTIType[];
+}
+
+// 🗳️ 意思決定の投票結果（rounds は ranked-choice の各ラウンドの第1希望の票数）
+// 有効票がない場合は winner が null（決定なし）で ranking は空。validVotes・abstentions は以前のアーカイブには含まれない
+export interface DecisionResult {
+  votingMethod: DecisionVotingMethod;
+  winner: string | null;
+  ranking: DecisionOptionResult[];
+  votes: DecisionVote[];
+  validVotes?: number;
+  abstentions?: MBTIType[];
+  rounds?: Array<Record<string, number>>;
+}
+
+// 🗄️ 議論アーカイブ（一覧表示用の要約）
+export interface ArchivedDiscussionSummary {
+  id: string;
+  archivedAt: string;
+  topic: string;
+  source: DiscussionResultSource;
+  participantTypes: MBTIType[];
+  humanParticipant?: HumanParticipant;
+  totalTurns: number;
+  overallScore: number;
+  grade: string;
+  overview: string;
+  // 全文検索時に一致した箇所の抜粋
+  matchSnippet?: string;
+}
+
+// 🗄️ 保存済みの議論（設定・結果・全発言）
+export interface ArchivedDiscussion extends Omit<ArchivedDiscussionSummary, 'matchSnippet'> {
+  config: DiscussionConfig;
+  result: DiscussionResult;
+}
+
+// 🗄️ アーカイブ検索条件（types は全タイプを含む議論、q は空白区切りの全語を含む議論）
+export interface DiscussionArchiveQuery {
+  topic?: string;
+  types?: MBTIType[];
+  minScore?: number;
+  maxScore?: number;
+  q?: string;
+}
+
+// 🔧 ワークフロー実行パラメータ
+export interface DiscussionConfig {
+  topic: string;
+  participantCount: number;
+  participants?: ParticipantSelection;
+  seed?: number;
+  language?: DiscussionLanguage;
+  // 🎭 参加させるカスタムペルソナID（mastra 側のペルソナレジストリに登録済みのもの）
+  personas?: string[];
+  phasePlan?: PhasePlanInput;
+  humanParticipant?: HumanParticipantConfig;
+  debate?: DebateConfig;
+  decision?: DecisionConfig;
+  enableRealtimeOptimization: boolean;
+  enableGraphOptimization: boolean;
+  qualityThreshold: number;
+  saveConversation: boolean;
+  outputFormat: 'markdown' | 'json';
+  outputDirectory: string;
+  llm?: LLMRunConfiguration;
+}
+
+// 📈 ダッシュボード用のリアルタイム状態
+export interface DiscussionState {
+  status: 'idle' | 'running' | 'completed' | 'error';
+  config?: DiscussionConfig;
+  result?: DiscussionResult;
+  error?: string;
+  liveConversation: ConversationTurn[];
+  pendingHumanTurn?: HumanTurnRequest;
+  progress: {
+    currentPhase: DiscussionPhase;
+    currentTurn: number;
+    totalExpectedTurns: number;
+    progressPercentage: number;
+  };
+  liveMetrics: {
+    activeSpeaker?: MBTIType;
+    latestWeight: Partial<Record<MBTIType, number>>;
+    qualityTrend: number[];
+    optimizationCount: number;
+  };
+}
+
+// 🎨 UIコンポーネント用の型定義
+export interface MBTIAgentStatus {
+  type: MBTIType;
+  group: MBTIGroup;
+  isActive: boolean;
+  currentWeight: number;
+  participationCount: number;
+  averageQuality: number;
+  lastActivity?: Date;
+}
+
+// 📊 チャート用データ型
+export interface QualityChartData {
+  name: string;
+  value: number;
+  fullMark: number;
+}
+
+export interface WeightHistoryData {
+  turnNumber: number;
+  [key: string]: number | string; // MBTITypeをキーとした重み値
+}
+
+export interface ParticipationData {
+  mbtiType: MBTIType;
+  count: number;
+  percentage: number;
+  quality: number;
+}
+
+// 🔄 API レスポンス型
+export interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  timestamp: string;
+}
+
+// 📡 リアルタイム通信用（SSE / WebSocket 共通）
+export interface ProgressEventData {
+  phase: DiscussionPhase;
+  phaseNumber: number;
+  phaseName?: string;
+  totalPhases: number;
+  turnNumber: number;
+}
+
+export type MetricsEventData =
+  | {
+      kind: 'weights';
+      turnNumber: number;
+      reason: 'optimization' | 'performance';
+      weights: Partial<Record<MBTIType, number>>;
+    }
+  | {
+      kind: 'quality';
+      turnNumber: number;
+      mbtiType: MBTIType;
+      scores: {
+        performance: number;
+        psychological: number;
+        contentQuality: number;
+        mbtiAlignment: number;
+        overallScore: number;
+      };
+    };
+
+export type WSMessage =
+  | { type: 'progress'; data: ProgressEventData; timestamp: string }
+  | { type: 'turn'; data: ConversationTurn; timestamp: string }
+  | { type: 'metrics'; data: MetricsEventData; timestamp: string }
+  | { type: 'human-turn'; data: HumanTurnRequest; timestamp: string }
+  | { type: 'completion'; data: DiscussionResult; timestamp: string }
+  | { type: 'error'; data: { message: string }; timestamp: string };
\ No newline at end of file
@@ -1,7 +1,13 @@
+import path from "path";
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // 📦 monorepoルート（packages/mastra, packages/shared-types を解決対象に含める）
+  outputFileTracingRoot: path.join(__dirname, "../.."),
+  // 🔗 monorepo内のTypeScriptパッケージ（main: index.ts）をトランスパイル対象にする
+  transpilePackages: ["@m-ads/shared-types", "@m-ads/mastra-workflows"],
+  // 🧩 ネイティブバイナリ・動的requireを含むMastra依存はバンドルせずNodeで解決
+  serverExternalPackages: ["@mastra/core", "@mastra/libsql", "@mastra/loggers", "@libsql/client", "libsql"],
 };
 
 export default nextConfig;
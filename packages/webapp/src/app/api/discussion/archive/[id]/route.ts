@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getArchivedDiscussion } from '../../../../../lib/discussion-archive';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 議論アーカイブ詳細API（設定・結果・全発言）
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const discussion = await getArchivedDiscussion(id);
+
+    if (!discussion) {
+      return NextResponse.json({
+        success: false,
+        error: `アーカイブが見つかりません: ${id}`,
+        timestamp: new Date().toISOString()
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: discussion,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('❌ 議論アーカイブ詳細 エラー:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : '内部サーバーエラー',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listArchivedDiscussions, parseArchiveQuery } from '../../../../lib/discussion-archive';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 議論アーカイブ一覧API
+ * クエリ: topic（トピック部分一致）/ type（参加タイプ、複数可）/ minScore・maxScore（総合スコア0-1）/ q（全文検索）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const query = parseArchiveQuery(request.nextUrl.searchParams);
+    const discussions = await listArchivedDiscussions(query);
+
+    return NextResponse.json({
+      success: true,
+      data: discussions,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('❌ 議論アーカイブ一覧 エラー:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : '内部サーバーエラー',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
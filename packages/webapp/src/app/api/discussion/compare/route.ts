@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { compareArchivedDiscussions } from '../../../../lib/discussion-comparison';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 議論比較API
+ * クエリ: id（アーカイブID、2件以上・複数指定またはカンマ区切り、1件目が基準）
+ */
+export async function GET(request: NextRequest) {
+  const ids = request.nextUrl.searchParams.getAll('id')
+    .flatMap(value => value.split(','))
+    .map(value => value.trim())
+    .filter(value => value.length > 0);
+
+  if (ids.length < 2) {
+    return NextResponse.json({
+      success: false,
+      error: '比較には2件以上のアーカイブIDを指定してください',
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  try {
+    const compared = await compareArchivedDiscussions(ids);
+    if ('missingIds' in compared) {
+      return NextResponse.json({
+        success: false,
+        error: `アーカイブが見つかりません: ${compared.missingIds.join(', ')}`,
+        timestamp: new Date().toISOString()
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: compared.comparison,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('❌ 議論比較 エラー:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : '内部サーバーエラー',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
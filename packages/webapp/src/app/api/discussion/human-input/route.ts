@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { HumanTurnInput } from '@m-ads/shared-types';
+import { submitHumanInput } from '../../../../lib/human-input';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 人間参加者の発言送信API
+ * ストリーミングAPIで human-turn を受信したクライアントが発言を送信し、中断中のワークフローを再開させる
+ */
+export async function POST(request: NextRequest) {
+  let input: HumanTurnInput;
+  try {
+    input = await request.json();
+  } catch {
+    return NextResponse.json({
+      success: false,
+      error: 'リクエストボディをJSONとして解析できません',
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  if (!input?.runId || typeof input.turnNumber !== 'number') {
+    return NextResponse.json({
+      success: false,
+      error: 'runId と turnNumber は必須です',
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  const error = submitHumanInput(input);
+  if (error) {
+    return NextResponse.json({
+      success: false,
+      error,
+      timestamp: new Date().toISOString()
+    }, { status: 409 });
+  }
+
+  console.log(`👤 人間参加者の発言を受理 (run: ${input.runId}, ターン${input.turnNumber})`);
+
+  return NextResponse.json({
+    success: true,
+    timestamp: new Date().toISOString()
+  });
+}
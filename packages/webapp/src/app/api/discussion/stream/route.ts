@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { DiscussionConfig, WSMessage } from '@m-ads/shared-types';
+import { executeDiscussion } from '../../../../lib/discussion-runner';
+import { validateDiscussionConfig } from '../../../../lib/discussion-config';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * M-ADS議論ストリーミングAPI（Server-Sent Events）
+ * ターン・重み変化・品質スコア・フェーズ遷移を発生順に WSMessage として配信し、
+ * 最後に completion（DiscussionResult）を送って終了する
+ * 人間参加者の発言ターンでは human-turn を送り、/api/discussion/human-input への送信を待って再開する
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({
+      success: false,
+      error: 'リクエストボディをJSONとして解析できません',
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  const validationError = validateDiscussionConfig(body);
+  if (validationError) {
+    return NextResponse.json({
+      success: false,
+      error: validationError,
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+  const config = body as DiscussionConfig;
+
+  console.log('📡 M-ADS議論ストリーミング開始:', config.topic);
+
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (message: WSMessage) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`));
+      };
+
+      try {
+        const result = await executeDiscussion(config, send, abortController.signal);
+        send({ type: 'completion', data: result, timestamp: new Date().toISOString() });
+        console.log(`✅ M-ADS議論ストリーミング完了 (source: ${result.source})`);
+      } catch (error) {
+        console.error('❌ M-ADS議論ストリーミング エラー:', error);
+        send({
+          type: 'error',
+          data: { message: error instanceof Error ? error.message : '内部サーバーエラー' },
+          timestamp: new Date().toISOString()
+        });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      // クライアント切断後は送信しない（人間参加者の発言待ちは取り消して議論を中止、それ以外は最後まで実行される）
+      closed = true;
+      abortController.abort();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
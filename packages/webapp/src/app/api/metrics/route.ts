@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * メトリクスAPI（Prometheus のスクレイプ先）
+ * 議論実行で記録された処理時間・エラー数・品質スコア・メモリ使用量を OpenMetrics テキスト形式で返す
+ */
+export async function GET() {
+  try {
+    // 🎯 議論実行と同じモジュールのレジストリを参照するため、ワークフローと同じパッケージから動的インポート
+    const { renderOpenMetrics, OPENMETRICS_CONTENT_TYPE } = await import('@m-ads/mastra-workflows');
+
+    return new NextResponse(renderOpenMetrics(), {
+      headers: { 'Content-Type': OPENMETRICS_CONTENT_TYPE }
+    });
+  } catch (error) {
+    console.error('❌ メトリクスAPI エラー:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : '内部サーバーエラー',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,202 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ApiResponse, ArchivedDiscussion } from '@m-ads/shared-types';
+import ConversationDisplay from '../../../components/conversation-display';
+import WeightVisualization, { buildWeightData } from '../../../components/weight-visualization';
+import UsageSummary from '../../../components/usage-summary';
+import DebateSummary from '../../../components/debate-summary';
+import DecisionSummary from '../../../components/decision-summary';
+
+export default function ArchivedDiscussionPage() {
+  const { id } = useParams<{ id: string }>();
+  const [discussion, setDiscussion] = useState<ArchivedDiscussion | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'conversation' | 'weights' | 'usage'>('conversation');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/discussion/archive/${encodeURIComponent(id)}`);
+        const body: ApiResponse<ArchivedDiscussion> = await response.json();
+        if (!response.ok || !body.success || !body.data) {
+          throw new Error(body.error || `HTTP error! status: ${response.status}`);
+        }
+        setDiscussion(body.data);
+      } catch (loadError) {
+        setError(loadError instanceof Error ? loadError.message : 'アーカイブの取得に失敗しました');
+      }
+    };
+    load();
+  }, [id]);
+
+  const result = discussion?.result;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* ヘッダー */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-8 py-6 flex items-center justify-between">
+          <div className="min-w-0">
+            <h1 className="text-3xl font-bold text-gray-900">{discussion?.topic ?? '議論アーカイブ'}</h1>
+            {discussion && (
+              <p className="text-gray-600 mt-1">
+                {new Date(discussion.archivedAt).toLocaleString('ja-JP')} に実行
+                {result?.seed !== undefined && <> ・ シード: <span className="font-mono">{result.seed}</span></>}
+              </p>
+            )}
+          </div>
+          <Link href="/archive" className="text-sm font-medium text-blue-600 hover:text-blue-800">
+            ← アーカイブ一覧へ戻る
+          </Link>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto p-8">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 mb-8">
+            <h3 className="text-lg font-medium text-red-800 mb-2">エラーが発生しました</h3>
+            <p className="text-red-700">{error}</p>
+          </div>
+        )}
+
+        {!discussion && !error && (
+          <div className="text-center py-8 text-gray-500">読み込み中...</div>
+        )}
+
+        {discussion && result && (
+          <>
+            {/* モック結果の注意表示 */}
+            {result.source === 'mock' && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-8">
+                <p className="text-sm text-yellow-800">
+                  ⚠️ この結果はモックデータです（Mastraワークフローは実行されていません）
+                  {result.fallbackReason && `: ${result.fallbackReason}`}
+                </p>
+              </div>
+            )}
+
+            {/* 概要 */}
+            <div className="bg-white rounded-lg shadow-md p-6 mb-8 space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="text-center p-4 bg-blue-50 rounded-lg">
+                  <div className="text-2xl font-bold text-blue-600">{result.participantTypes.length}</div>
+                  <div className="text-sm text-gray-600">参加タイプ</div>
+                </div>
+                <div className="text-center p-4 bg-green-50 rounded-lg">
+                  <div className="text-2xl font-bold text-green-600">{result.totalTurns}</div>
+                  <div className="text-sm text-gray-600">総ターン数</div>
+                </div>
+                <div className="text-center p-4 bg-purple-50 rounded-lg">
+                  <div className="text-2xl font-bold text-purple-600">{result.advancedReport.grade}</div>
+                  <div className="text-sm text-gray-600">総合評価</div>
+                </div>
+                <div className="text-center p-4 bg-yellow-50 rounded-lg">
+                  <div className="text-2xl font-bold text-yellow-600">
+                    {(result.advancedReport.overallScore * 100).toFixed(0)}%
+                  </div>
+                  <div className="text-sm text-gray-600">総合スコア</div>
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-lg font-medium mb-3">参加MBTIタイプ</h3>
+                <div className="flex flex-wrap gap-2">
+                  {result.participantTypes.map((type) => (
+                    <span key={type} className="px-3 py-1 bg-blue-100 text-blue-800 rounded-full text-sm font-medium">
+                      {type}
+                      {type === result.humanParticipant?.mbtiType && ` 👤 ${result.humanParticipant.name}`}
+                    </span>
+                  ))}
+                </div>
+              </div>
+
+              {result.debate && (
+                <div>
+                  <h3 className="text-lg font-medium mb-3">ディベート結果</h3>
+                  <DebateSummary debate={result.debate} debateResult={result.debateResult} />
+                </div>
+              )}
+
+              {result.decision && (
+                <div>
+                  <h3 className="text-lg font-medium mb-3">意思決定</h3>
+                  <DecisionSummary decision={result.decision} decisionResult={result.decisionResult} />
+                </div>
+              )}
+
+              <div>
+                <h3 className="text-lg font-medium mb-3">議論サマリー</h3>
+                <p className="text-gray-700 mb-4">{result.discussionSummary.overview}</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <h4 className="font-medium text-gray-800 mb-2">主要テーマ</h4>
+                    <ul className="space-y-1">
+                      {result.discussionSummary.keyThemes.map((theme, index) => (
+                        <li key={index} className="text-sm text-gray-600">• {theme}</li>
+                      ))}
+                    </ul>
+                  </div>
+                  <div>
+                    <h4 className="font-medium text-gray-800 mb-2">重要な洞察</h4>
+                    <ul className="space-y-1">
+                      {result.discussionSummary.insights.map((insight, index) => (
+                        <li key={index} className="text-sm text-gray-600">• {insight}</li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+                {result.discussionSummary.consensus && (
+                  <div className="mt-4">
+                    <h4 className="font-medium text-gray-800 mb-2">合意事項</h4>
+                    <p className="text-sm text-gray-600">{result.discussionSummary.consensus}</p>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* 会話・重みづけ */}
+            <div className="bg-white rounded-lg shadow-md mb-8">
+              <div className="border-b border-gray-200">
+                <nav className="flex space-x-8 px-6">
+                  {[
+                    { id: 'conversation', label: '会話', icon: '💬' },
+                    { id: 'weights', label: '重みづけ', icon: '⚖️' },
+                    { id: 'usage', label: '使用量', icon: '💰' }
+                  ].map(tab => (
+                    <button
+                      key={tab.id}
+                      onClick={() => setActiveTab(tab.id as 'conversation' | 'weights' | 'usage')}
+                      className={`py-4 px-2 border-b-2 font-medium text-sm transition-colors ${
+                        activeTab === tab.id
+                          ? 'border-blue-500 text-blue-600'
+                          : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                      }`}
+                    >
+                      <span className="mr-2">{tab.icon}</span>
+                      {tab.label}
+                    </button>
+                  ))}
+                </nav>
+              </div>
+
+              <div className="p-6">
+                {activeTab === 'conversation' && (
+                  <ConversationDisplay conversationFlow={result.conversationFlow} />
+                )}
+                {activeTab === 'weights' && (
+                  <WeightVisualization weightData={buildWeightData(result)} showHistory={true} />
+                )}
+                {activeTab === 'usage' && (
+                  <UsageSummary usage={result.usage} />
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { ApiResponse } from '@m-ads/shared-types';
+import type { ComparisonRow, DiscussionComparison } from '@m-ads/mastra-workflows';
+
+const formatScore = (value: number | null) => value === null ? '-' : `${(value * 100).toFixed(1)}%`;
+
+// 差分（基準との差、%ポイント）の表示
+function Delta({ value }: { value: number | null }) {
+  if (value === null) return null;
+  const color = value > 0.005 ? 'text-green-600' : value < -0.005 ? 'text-red-600' : 'text-gray-500';
+  return (
+    <span className={`ml-1 text-xs ${color}`}>
+      ({value >= 0 ? '+' : ''}{(value * 100).toFixed(1)})
+    </span>
+  );
+}
+
+// 比較表の1行（1列目が基準）
+function ComparisonCells({ row }: { row: ComparisonRow }) {
+  return (
+    <>
+      {row.values.map((value, index) => (
+        <td key={index} className="px-3 py-2 text-sm text-gray-800 whitespace-nowrap">
+          {formatScore(value)}
+          {index > 0 && <Delta value={row.deltas[index]} />}
+        </td>
+      ))}
+    </>
+  );
+}
+
+function ComparisonView() {
+  const searchParams = useSearchParams();
+  const ids = searchParams.get('ids') ?? '';
+  const [comparison, setComparison] = useState<DiscussionComparison | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/discussion/compare?id=${encodeURIComponent(ids)}`);
+        const body: ApiResponse<DiscussionComparison> = await response.json();
+        if (!response.ok || !body.success || !body.data) {
+          throw new Error(body.error || `HTTP error! status: ${response.status}`);
+        }
+        setComparison(body.data);
+      } catch (loadError) {
+        setError(loadError instanceof Error ? loadError.message : '比較結果の取得に失敗しました');
+      }
+    };
+    load();
+  }, [ids]);
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+        <h3 className="text-lg font-medium text-red-800 mb-2">エラーが発生しました</h3>
+        <p className="text-red-700">{error}</p>
+      </div>
+    );
+  }
+
+  if (!comparison) {
+    return <div className="text-center py-8 text-gray-500">読み込み中...</div>;
+  }
+
+  const headerCells = comparison.runs.map((run, index) => (
+    <th key={index} className="px-3 py-2 text-left text-xs font-medium text-gray-600">
+      [{index + 1}]{index === 0 && ' 基準'}
+    </th>
+  ));
+
+  return (
+    <div className="space-y-8">
+      {/* 比較対象 */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold mb-4">比較対象</h2>
+        <ul className="space-y-1 text-sm text-gray-700">
+          {comparison.runs.map((run, index) => (
+            <li key={index}>
+              <span className="font-medium">[{index + 1}]</span> {run.label} ・ {run.totalStatements}発言
+              {!comparison.sameTopic && <span className="text-gray-500"> ・ {run.topic}</span>}
+            </li>
+          ))}
+        </ul>
+        {!comparison.sameTopic && (
+          <p className="mt-3 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md px-3 py-2">
+            ⚠️ トピックが異なる議論が含まれています
+          </p>
+        )}
+      </div>
+
+      {/* 7次元品質評価・発言バランス */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold mb-4">📊 品質評価と発言バランス</h2>
+        <p className="text-xs text-gray-500 mb-3">括弧内は基準との差（%ポイント）</p>
+        <div className="overflow-x-auto">
+          <table className="min-w-full">
+            <thead className="border-b">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-600">項目</th>
+                {headerCells}
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {comparison.dimensions.map(dimension => (
+                <tr key={dimension.key}>
+                  <td className="px-3 py-2 text-sm font-medium text-gray-700">{dimension.label}</td>
+                  <ComparisonCells row={dimension} />
+                </tr>
+              ))}
+              <tr>
+                <td className="px-3 py-2 text-sm font-medium text-gray-700">発言の均等度</td>
+                <ComparisonCells row={comparison.participationBalance} />
+              </tr>
+              {comparison.participation.map(row => (
+                <tr key={row.mbtiType}>
+                  <td className="px-3 py-2 text-sm text-gray-600">{row.mbtiType} 発言割合</td>
+                  <ComparisonCells row={row} />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* 重みの推移 */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold mb-4">⚖️ 重みの推移（発言時の重み）</h2>
+        <div className="overflow-x-auto">
+          <table className="min-w-full">
+            <thead className="border-b">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-600">タイプ</th>
+                {headerCells}
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {comparison.weightTrajectories.map(({ mbtiType, trajectories, finalWeights }) => (
+                <tr key={mbtiType}>
+                  <td className="px-3 py-2 text-sm font-medium text-gray-700">{mbtiType}</td>
+                  {trajectories.map((trajectory, index) => (
+                    <td key={index} className="px-3 py-2 text-sm text-gray-800 font-mono">
+                      {trajectory.length > 0 ? trajectory.map(weight => weight.toFixed(2)).join(' → ') : '-'}
+                      {index > 0 && finalWeights.deltas[index] !== null && (
+                        <span className="ml-1 text-xs text-gray-500">
+                          (最終 {finalWeights.deltas[index]! >= 0 ? '+' : ''}{finalWeights.deltas[index]!.toFixed(2)})
+                        </span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* 主要テーマ */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold mb-4">💡 主要テーマ</h2>
+        <div className="space-y-3 text-sm">
+          <div>
+            <span className="font-medium text-gray-800">共通: </span>
+            <span className="text-gray-600">
+              {comparison.themes.common.length > 0 ? comparison.themes.common.join('、') : 'なし'}
+            </span>
+          </div>
+          {comparison.themes.uniqueByRun.map((themes, index) => (
+            <div key={index}>
+              <span className="font-medium text-gray-800">[{index + 1}] のみ: </span>
+              <span className="text-gray-600">{themes.length > 0 ? themes.join('、') : 'なし'}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* 設定の違い */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold mb-4">⚙️ 設定の違い</h2>
+        {comparison.configurationDifferences.length === 0 ? (
+          <p className="text-sm text-gray-500">設定の違いはありません</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead className="border-b">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-600">設定</th>
+                  {headerCells}
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {comparison.configurationDifferences.map(({ option, values }) => (
+                  <tr key={option}>
+                    <td className="px-3 py-2 text-sm font-medium text-gray-700">{option}</td>
+                    {values.map((value, index) => (
+                      <td key={index} className="px-3 py-2 text-sm text-gray-800">
+                        {value === undefined ? '(未設定)' : String(value)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function ArchiveComparePage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* ヘッダー */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-8 py-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">議論の比較</h1>
+            <p className="text-gray-600 mt-1">同じトピックの議論を並べて1件目との差分を表示</p>
+          </div>
+          <Link href="/archive" className="text-sm font-medium text-blue-600 hover:text-blue-800">
+            ← アーカイブ一覧へ戻る
+          </Link>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto p-8">
+        {/* useSearchParams はクライアント側でのみ解決されるため Suspense で囲む */}
+        <Suspense fallback={<div className="text-center py-8 text-gray-500">読み込み中...</div>}>
+          <ComparisonView />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
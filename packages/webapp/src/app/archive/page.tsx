@@ -0,0 +1,283 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ApiResponse, ArchivedDiscussionSummary, DiscussionArchiveQuery, MBTIType } from '@m-ads/shared-types';
+
+// 絞り込みに使うMBTIタイプ
+const ARCHIVE_MBTI_TYPES: MBTIType[] = [
+  'INTJ', 'INTP', 'ENTJ', 'ENTP',
+  'INFJ', 'INFP', 'ENFJ', 'ENFP',
+  'ISTJ', 'ISFJ', 'ESTJ', 'ESFJ',
+  'ISTP', 'ISFP', 'ESTP', 'ESFP'
+];
+
+/**
+ * 検索条件をAPIのクエリ文字列へ変換
+ */
+const toSearchParams = (query: DiscussionArchiveQuery): string => {
+  const params = new URLSearchParams();
+  if (query.topic) params.set('topic', query.topic);
+  query.types?.forEach(type => params.append('type', type));
+  if (query.minScore !== undefined) params.set('minScore', String(query.minScore));
+  if (query.maxScore !== undefined) params.set('maxScore', String(query.maxScore));
+  if (query.q) params.set('q', query.q);
+  return params.toString();
+};
+
+export default function ArchivePage() {
+  const [query, setQuery] = useState<DiscussionArchiveQuery>({});
+  const [discussions, setDiscussions] = useState<ArchivedDiscussionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // 比較対象として選択した議論（選択順、1件目が比較の基準）
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const search = useCallback(async (searchQuery: DiscussionArchiveQuery) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/discussion/archive?${toSearchParams(searchQuery)}`);
+      const body: ApiResponse<ArchivedDiscussionSummary[]> = await response.json();
+      if (!response.ok || !body.success || !body.data) {
+        throw new Error(body.error || `HTTP error! status: ${response.status}`);
+      }
+      setDiscussions(body.data);
+    } catch (searchError) {
+      setError(searchError instanceof Error ? searchError.message : 'アーカイブの取得に失敗しました');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    search({});
+  }, [search]);
+
+  const toggleType = (type: MBTIType) => {
+    setQuery(prev => {
+      const types = prev.types ?? [];
+      const nextTypes = types.includes(type) ? types.filter(t => t !== type) : [...types, type];
+      return { ...prev, types: nextTypes.length > 0 ? nextTypes : undefined };
+    });
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]);
+  };
+
+  const handleReset = () => {
+    setQuery({});
+    search({});
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* ヘッダー */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-8 py-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">議論アーカイブ</h1>
+            <p className="text-gray-600 mt-1">過去に実行した議論の検索・閲覧</p>
+          </div>
+          <Link href="/" className="text-sm font-medium text-blue-600 hover:text-blue-800">
+            ← ダッシュボードへ戻る
+          </Link>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto p-8">
+        {/* 検索条件 */}
+        <form
+          className="bg-white rounded-lg shadow-md p-6 mb-8 space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            search(query);
+          }}
+        >
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">全文検索（トピック・総括・発言）</label>
+              <input
+                type="text"
+                value={query.q ?? ''}
+                onChange={(e) => setQuery(prev => ({ ...prev, q: e.target.value || undefined }))}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="キーワード（空白区切りですべてを含む議論）"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">トピック</label>
+              <input
+                type="text"
+                value={query.topic ?? ''}
+                onChange={(e) => setQuery(prev => ({ ...prev, topic: e.target.value || undefined }))}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="トピックの一部"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              参加タイプ（選択したすべてのタイプが参加した議論）
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {ARCHIVE_MBTI_TYPES.map(type => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => toggleType(type)}
+                  className={`px-3 py-1 rounded-full text-sm font-medium border transition-colors ${
+                    query.types?.includes(type)
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {type}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 md:w-1/2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">最低スコア（%）</label>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={query.minScore !== undefined ? Math.round(query.minScore * 100) : ''}
+                onChange={(e) => setQuery(prev => ({
+                  ...prev,
+                  minScore: e.target.value === '' ? undefined : parseInt(e.target.value) / 100
+                }))}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">最高スコア（%）</label>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={query.maxScore !== undefined ? Math.round(query.maxScore * 100) : ''}
+                onChange={(e) => setQuery(prev => ({
+                  ...prev,
+                  maxScore: e.target.value === '' ? undefined : parseInt(e.target.value) / 100
+                }))}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+
+          <div className="flex space-x-4">
+            <button
+              type="submit"
+              disabled={isLoading}
+              className={`px-6 py-2 rounded-md font-medium transition-colors text-white ${
+                isLoading ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {isLoading ? '検索中...' : '検索'}
+            </button>
+            <button
+              type="button"
+              onClick={handleReset}
+              className="px-6 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-md font-medium transition-colors"
+            >
+              条件をクリア
+            </button>
+          </div>
+        </form>
+
+        {/* エラー表示 */}
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8">
+            <p className="text-red-700">{error}</p>
+          </div>
+        )}
+
+        {/* 検索結果 */}
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="text-sm text-gray-600">{discussions.length}件の議論</div>
+            {selectedIds.length >= 2 ? (
+              <Link
+                href={`/archive/compare?ids=${selectedIds.join(',')}`}
+                className="px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+              >
+                🔍 選択した{selectedIds.length}件を比較
+              </Link>
+            ) : (
+              <span className="text-sm text-gray-500">比較する議論を2件以上選択してください（1件目が基準）</span>
+            )}
+          </div>
+
+          {!isLoading && discussions.length === 0 && !error && (
+            <div className="text-center py-8 text-gray-500">
+              該当する議論がありません
+            </div>
+          )}
+
+          {discussions.map(discussion => (
+            <div key={discussion.id} className="flex items-start space-x-3">
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(discussion.id)}
+                onChange={() => toggleSelected(discussion.id)}
+                className="mt-7"
+                aria-label={`${discussion.topic} を比較対象にする`}
+              />
+              <Link
+                href={`/archive/${discussion.id}`}
+                className="flex-1 block bg-white rounded-lg shadow-md p-6 hover:shadow-lg transition-shadow"
+              >
+                <div className="flex items-start justify-between">
+                  <div className="flex-1 min-w-0">
+                    <h2 className="text-lg font-semibold text-gray-900">{discussion.topic}</h2>
+                    <p className="text-sm text-gray-500 mt-1">
+                      {new Date(discussion.archivedAt).toLocaleString('ja-JP')} ・ {discussion.totalTurns}ターン
+                      {discussion.humanParticipant && ` ・ 👤 ${discussion.humanParticipant.name}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3 ml-4">
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                        discussion.source === 'live'
+                          ? 'bg-green-100 text-green-800'
+                          : 'bg-yellow-100 text-yellow-800'
+                      }`}
+                    >
+                      {discussion.source === 'live' ? 'LIVE' : 'MOCK'}
+                    </span>
+                    <span className="text-2xl font-bold text-purple-600">{discussion.grade}</span>
+                    <span className="text-lg font-bold text-yellow-600">
+                      {(discussion.overallScore * 100).toFixed(0)}%
+                    </span>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {discussion.participantTypes.map(type => (
+                    <span key={type} className="px-2 py-0.5 bg-blue-100 text-blue-800 rounded-full text-xs font-medium">
+                      {type}
+                    </span>
+                  ))}
+                </div>
+
+                <p className="text-sm text-gray-700 mt-3 line-clamp-2">{discussion.overview}</p>
+
+                {discussion.matchSnippet && (
+                  <p className="text-sm text-gray-600 mt-2 bg-yellow-50 border border-yellow-200 rounded-md px-3 py-2">
+                    🔍 {discussion.matchSnippet}
+                  </p>
+                )}
+              </Link>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
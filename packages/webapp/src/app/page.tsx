@@ -3,11 +3,39 @@
 import { useState } from 'react';
 import { useDiscussion } from '../hooks/use-discussion';
 import ConversationDisplay from '../components/conversation-display';
-import WeightVisualization from '../components/weight-visualization';
-import { DiscussionConfig } from '../m-ads';
+import Link from 'next/link';
+import WeightVisualization, { buildWeightData } from '../components/weight-visualization';
+import ParticipantSelector from '../components/participant-selector';
+import HumanTurnInput from '../components/human-turn-input';
+import UsageSummary from '../components/usage-summary';
+import DebateSummary from '../components/debate-summary';
+import DecisionSummary, { VOTING_METHOD_LABELS } from '../components/decision-summary';
+import { DecisionVotingMethod, DiscussionConfig, DiscussionLanguage, MBTIType, PhasePlanPresetName } from '@m-ads/shared-types';
+
+// フェーズプランのプリセット
+const PHASE_PLAN_OPTIONS: { value: PhasePlanPresetName; label: string }[] = [
+  { value: 'standard', label: '標準（初期議論 → 相互議論 → 統合 → 合意形成）' },
+  { value: 'brainstorm', label: 'ブレインストーミング（短時間のアイデア出し）' },
+  { value: 'debate', label: '討論（反論・再反論を含む長い議論）' },
+  { value: 'consensus-only', label: '合意形成のみ（収束で早期終了）' }
+];
+
+// 議論言語
+const LANGUAGE_OPTIONS: { value: DiscussionLanguage; label: string }[] = [
+  { value: 'ja', label: '日本語' },
+  { value: 'en', label: 'English' }
+];
+
+// 人間参加者が選択できるMBTIタイプ
+const HUMAN_MBTI_TYPES: MBTIType[] = [
+  'INTJ', 'INTP', 'ENTJ', 'ENTP',
+  'INFJ', 'INFP', 'ENFJ', 'ENFP',
+  'ISTJ', 'ISFJ', 'ESTJ', 'ESFJ',
+  'ISTP', 'ISFP', 'ESTP', 'ESFP'
+];
 
 export default function Dashboard() {
-  const { state, startDiscussion, resetDiscussion, isRunning, isCompleted, hasError } = useDiscussion();
+  const { state, startDiscussion, submitHumanTurn, resetDiscussion, isRunning, isCompleted, hasError } = useDiscussion();
   const [config, setConfig] = useState<DiscussionConfig>({
     topic: 'AIが人間の創造性にもたらす影響について',
     participantCount: 8,
@@ -43,24 +71,6 @@ export default function Dashboard() {
     }
   };
 
-  // 重みデータを準備
-  const prepareWeightData = () => {
-    if (!state.result) return [];
-    
-    return state.result.participantTypes.map((type) => {
-      const analysis = state.result!.advancedReport.mbtiTypeAnalysis[type];
-      const weightAdjustment = state.result!.realtimeOptimization.weightAdjustments[type] || 1.0;
-      
-      return {
-        mbtiType: type,
-        currentWeight: weightAdjustment,
-        initialWeight: 1.0,
-        participationCount: Math.round(analysis.participationRate * state.result!.totalTurns),
-        averageQuality: analysis.qualityContribution
-      };
-    });
-  };
-
   return (
     <div className="min-h-screen bg-gray-50">
       {/* ヘッダー */}
@@ -77,6 +87,32 @@ export default function Dashboard() {
               <div className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor()} bg-opacity-10`}>
                 {getStatusText()}
               </div>
+              {state.result && (
+                <div
+                  className={`px-3 py-1 rounded-full text-sm font-medium ${
+                    state.result.source === 'live'
+                      ? 'bg-green-100 text-green-800'
+                      : 'bg-yellow-100 text-yellow-800'
+                  }`}
+                  title={state.result.fallbackReason}
+                >
+                  {state.result.source === 'live' ? 'LIVE' : 'MOCK'}
+                </div>
+              )}
+              {state.result?.archiveId && (
+                <Link
+                  href={`/archive/${state.result.archiveId}`}
+                  className="px-3 py-1 rounded-full text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50"
+                >
+                  アーカイブで表示
+                </Link>
+              )}
+              <Link
+                href="/archive"
+                className="px-3 py-1 rounded-md text-sm font-medium text-blue-600 hover:text-blue-800"
+              >
+                🗄️ 過去の議論
+              </Link>
             </div>
           </div>
         </div>
@@ -115,7 +151,7 @@ export default function Dashboard() {
                 value={config.participantCount}
                 onChange={(e) => setConfig(prev => ({ ...prev, participantCount: parseInt(e.target.value) }))}
                 className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
-                disabled={isRunning}
+                disabled={isRunning || !!config.participants?.types}
               />
               <div className="flex justify-between text-xs text-gray-500 mt-1">
                 <span>4タイプ</span>
@@ -144,6 +180,219 @@ export default function Dashboard() {
               </div>
             </div>
 
+            {/* 参加者選択 */}
+            <div className="md:col-span-2">
+              <h3 className="text-lg font-medium mb-3">参加者選択</h3>
+              <ParticipantSelector
+                value={config.participants}
+                participantCount={config.participantCount}
+                onChange={(participants) => setConfig(prev => ({ ...prev, participants }))}
+                disabled={isRunning}
+              />
+            </div>
+
+            {/* 再現用シード */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                再現用シード（任意）
+              </label>
+              <input
+                type="number"
+                step={1}
+                value={config.seed ?? ''}
+                onChange={(e) => setConfig(prev => ({
+                  ...prev,
+                  seed: e.target.value === '' ? undefined : parseInt(e.target.value)
+                }))}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="未指定時は自動生成"
+                disabled={isRunning}
+              />
+            </div>
+
+            {/* 議論言語 */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                議論言語
+              </label>
+              <select
+                value={config.language ?? 'ja'}
+                onChange={(e) => setConfig(prev => ({ ...prev, language: e.target.value as DiscussionLanguage }))}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={isRunning}
+              >
+                {LANGUAGE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* フェーズプラン */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                フェーズプラン
+              </label>
+              <select
+                value={typeof config.phasePlan === 'string' ? config.phasePlan : 'standard'}
+                onChange={(e) => setConfig(prev => ({ ...prev, phasePlan: e.target.value as PhasePlanPresetName }))}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={isRunning}
+              >
+                {PHASE_PLAN_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* 人間参加者 */}
+            <div className="md:col-span-2">
+              <h3 className="text-lg font-medium mb-3">人間参加者</h3>
+              <div className="flex flex-wrap items-center gap-4">
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={!!config.humanParticipant}
+                    onChange={(e) => setConfig(prev => ({
+                      ...prev,
+                      humanParticipant: e.target.checked ? { name: 'あなた' } : undefined
+                    }))}
+                    className="mr-2"
+                    disabled={isRunning}
+                  />
+                  <span className="text-sm">議論に参加する（自分の発言ターンで入力待ち）</span>
+                </label>
+
+                {config.humanParticipant && (
+                  <>
+                    <input
+                      type="text"
+                      value={config.humanParticipant.name}
+                      onChange={(e) => setConfig(prev => ({
+                        ...prev,
+                        humanParticipant: { ...prev.humanParticipant!, name: e.target.value }
+                      }))}
+                      className="p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      placeholder="表示名"
+                      disabled={isRunning}
+                    />
+                    <select
+                      value={config.humanParticipant.mbtiType ?? ''}
+                      onChange={(e) => setConfig(prev => ({
+                        ...prev,
+                        humanParticipant: {
+                          ...prev.humanParticipant!,
+                          mbtiType: e.target.value === '' ? undefined : e.target.value as MBTIType
+                        }
+                      }))}
+                      className="p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      disabled={isRunning}
+                    >
+                      <option value="">タイプ自動割当</option>
+                      {HUMAN_MBTI_TYPES.map(type => (
+                        <option key={type} value={type}>{type}</option>
+                      ))}
+                    </select>
+                  </>
+                )}
+              </div>
+            </div>
+
+            {/* ディベートモード */}
+            <div className="md:col-span-2">
+              <h3 className="text-lg font-medium mb-3">ディベートモード</h3>
+              <div className="flex flex-wrap items-center gap-4">
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={!!config.debate}
+                    onChange={(e) => setConfig(prev => ({
+                      ...prev,
+                      debate: e.target.checked ? {} : undefined
+                    }))}
+                    className="mr-2"
+                    disabled={isRunning}
+                  />
+                  <span className="text-sm">賛成・反対の陣営に分けて交互に反論する</span>
+                </label>
+
+                {config.debate && (
+                  <>
+                    <input
+                      type="text"
+                      value={config.debate.positions?.pro ?? ''}
+                      onChange={(e) => setConfig(prev => ({
+                        ...prev,
+                        debate: { ...prev.debate, positions: { ...prev.debate?.positions, pro: e.target.value || undefined } }
+                      }))}
+                      className="flex-1 p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      placeholder="賛成側の立場（省略時: トピックの主張を支持する）"
+                      disabled={isRunning}
+                    />
+                    <input
+                      type="text"
+                      value={config.debate.positions?.contra ?? ''}
+                      onChange={(e) => setConfig(prev => ({
+                        ...prev,
+                        debate: { ...prev.debate, positions: { ...prev.debate?.positions, contra: e.target.value || undefined } }
+                      }))}
+                      className="flex-1 p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      placeholder="反対側の立場（省略時: トピックの主張に異議を唱える）"
+                      disabled={isRunning}
+                    />
+                  </>
+                )}
+              </div>
+            </div>
+
+            {/* 意思決定モード */}
+            <div className="md:col-span-2">
+              <h3 className="text-lg font-medium mb-3">意思決定モード</h3>
+              <div className="flex flex-wrap items-start gap-4">
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={!!config.decision}
+                    onChange={(e) => setConfig(prev => ({
+                      ...prev,
+                      decision: e.target.checked ? { options: [] } : undefined
+                    }))}
+                    className="mr-2"
+                    disabled={isRunning}
+                  />
+                  <span className="text-sm">候補案の賛否を論じ、最後に投票して順位を決める</span>
+                </label>
+
+                {config.decision && (
+                  <>
+                    <textarea
+                      value={config.decision.options.join('\n')}
+                      onChange={(e) => setConfig(prev => ({
+                        ...prev,
+                        decision: { ...prev.decision!, options: e.target.value.split('\n') }
+                      }))}
+                      className="flex-1 p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      rows={3}
+                      placeholder="候補案（1行に1つ、2つ以上）"
+                      disabled={isRunning}
+                    />
+                    <select
+                      value={config.decision.votingMethod ?? 'weighted'}
+                      onChange={(e) => setConfig(prev => ({
+                        ...prev,
+                        decision: { ...prev.decision!, votingMethod: e.target.value as DecisionVotingMethod }
+                      }))}
+                      className="p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      disabled={isRunning}
+                    >
+                      {(Object.keys(VOTING_METHOD_LABELS) as DecisionVotingMethod[]).map(method => (
+                        <option key={method} value={method}>{VOTING_METHOD_LABELS[method]}</option>
+                      ))}
+                    </select>
+                  </>
+                )}
+              </div>
+            </div>
+
             {/* オプション設定 */}
             <div className="md:col-span-2">
               <h3 className="text-lg font-medium mb-3">最適化オプション</h3>
@@ -244,7 +493,34 @@ export default function Dashboard() {
                   />
                 </div>
               </div>
+
+              <div className="flex items-center justify-between text-sm text-gray-600">
+                <span>
+                  ターン: {state.progress.currentTurn} / {state.progress.totalExpectedTurns}
+                </span>
+                {state.liveMetrics.activeSpeaker && (
+                  <span>直近の発言者: {state.liveMetrics.activeSpeaker}</span>
+                )}
+                <span>最適化: {state.liveMetrics.optimizationCount}回</span>
+              </div>
             </div>
+
+            {/* 人間参加者の発言待ち */}
+            {state.pendingHumanTurn && (
+              <div className="mt-6">
+                <HumanTurnInput request={state.pendingHumanTurn} onSubmit={submitHumanTurn} />
+              </div>
+            )}
+
+            {/* ストリーミング中の会話 */}
+            {state.liveConversation.length > 0 && (
+              <div className="mt-6">
+                <ConversationDisplay
+                  conversationFlow={state.liveConversation}
+                  isRealtime={true}
+                />
+              </div>
+            )}
           </div>
         )}
 
@@ -259,6 +535,16 @@ export default function Dashboard() {
         {/* 結果表示 */}
         {isCompleted && state.result && (
           <>
+            {/* モック結果の注意表示 */}
+            {state.result.source === 'mock' && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-8">
+                <p className="text-sm text-yellow-800">
+                  ⚠️ この結果はモックデータです（Mastraワークフローは実行されていません）
+                  {state.result.fallbackReason && `: ${state.result.fallbackReason}`}
+                </p>
+              </div>
+            )}
+
             {/* タブナビゲーション */}
             <div className="bg-white rounded-lg shadow-md mb-8">
               <div className="border-b border-gray-200">
@@ -318,11 +604,59 @@ export default function Dashboard() {
                         {state.result.participantTypes.map((type) => (
                           <span key={type} className="px-3 py-1 bg-blue-100 text-blue-800 rounded-full text-sm font-medium">
                             {type}
+                            {type === state.result!.humanParticipant?.mbtiType && ` 👤 ${state.result!.humanParticipant.name}`}
                           </span>
                         ))}
                       </div>
+                      {state.result.seed !== undefined && (
+                        <div className="mt-3 flex items-center space-x-3 text-sm text-gray-600">
+                          <span>シード: <span className="font-mono">{state.result.seed}</span></span>
+                          <button
+                            onClick={() => setConfig(prev => ({ ...prev, seed: state.result!.seed }))}
+                            className="px-2 py-1 border border-gray-300 rounded-md hover:bg-gray-50"
+                          >
+                            このシードで再実行設定
+                          </button>
+                        </div>
+                      )}
                     </div>
 
+                    {/* フェーズ実行結果 */}
+                    {state.result.phases && state.result.phases.length > 0 && (
+                      <div>
+                        <h3 className="text-lg font-medium mb-3">フェーズ</h3>
+                        <div className="space-y-1 text-sm text-gray-700">
+                          {state.result.phases.map(phase => (
+                            <div key={phase.phase} className="flex items-center space-x-3">
+                              <span className="font-medium">Phase {phase.phase}: {phase.name}</span>
+                              <span className="text-gray-500">{phase.turns}/{phase.turnBudget}ターン</span>
+                              {phase.exitedEarly && (
+                                <span className="px-2 py-0.5 bg-green-100 text-green-800 rounded-full text-xs">
+                                  終了条件達成 {((phase.exitMetricValue ?? 0) * 100).toFixed(0)}%
+                                </span>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* ディベート結果 */}
+                    {state.result.debate && (
+                      <div>
+                        <h3 className="text-lg font-medium mb-3">ディベート結果</h3>
+                        <DebateSummary debate={state.result.debate} debateResult={state.result.debateResult} />
+                      </div>
+                    )}
+
+                    {/* 意思決定 */}
+                    {state.result.decision && (
+                      <div>
+                        <h3 className="text-lg font-medium mb-3">意思決定</h3>
+                        <DecisionSummary decision={state.result.decision} decisionResult={state.result.decisionResult} />
+                      </div>
+                    )}
+
                     {/* 議論サマリー */}
                     <div>
                       <h3 className="text-lg font-medium mb-3">議論サマリー</h3>
@@ -362,7 +696,7 @@ export default function Dashboard() {
                 {/* 重みづけタブ */}
                 {activeTab === 'weights' && (
                   <WeightVisualization 
-                    weightData={prepareWeightData()}
+                    weightData={buildWeightData(state.result)}
                     showHistory={true}
                   />
                 )}
@@ -447,6 +781,11 @@ export default function Dashboard() {
                         </div>
                       </div>
                     </div>
+
+                    <div>
+                      <h3 className="text-lg font-medium mb-4">LLM使用量・見積もりコスト</h3>
+                      <UsageSummary usage={state.result.usage} />
+                    </div>
                   </div>
                 )}
               </div>
@@ -2,7 +2,8 @@
 
 import React from 'react';
 
-import { ConversationTurn } from '../../../types/m-ads';
+import { ConversationTurn, OrchestratorInterventionType } from '@m-ads/shared-types';
+import { DEBATE_SIDE_BADGE_COLORS, DEBATE_SIDE_LABELS } from './debate-summary';
 
 interface ConversationDisplayProps {
   conversationFlow: ConversationTurn[];
@@ -68,6 +69,36 @@ const getMBTIBadgeColor = (mbtiType: string) => {
   return badgeColors[mbtiType as keyof typeof badgeColors] || 'bg-gray-100 text-gray-700';
 };
 
+// オーケストレーター介入の種別表示名
+const INTERVENTION_LABELS: Record<OrchestratorInterventionType, string> = {
+  diversity_boost: '多様性の促進',
+  consistency_improvement: '論理的一貫性の改善',
+  convergence_facilitation: '合意形成の促進'
+};
+
+// オーケストレーター介入（発言ではないため評価メトリクスは表示しない）
+const InterventionTurnCard = ({ turn }: { turn: ConversationTurn }) => (
+  <div className="border-l-4 border-l-amber-500 bg-amber-50 p-4 rounded-r-lg transition-all duration-300">
+    <div className="flex items-center space-x-3 mb-3">
+      <span className="px-2 py-1 rounded-full text-xs font-semibold bg-amber-600 text-white">
+        🎯 オーケストレーター介入
+      </span>
+      {turn.interventionType && (
+        <span className="px-2 py-1 rounded-full text-xs font-semibold bg-amber-100 text-amber-800">
+          {INTERVENTION_LABELS[turn.interventionType]}
+        </span>
+      )}
+      <span className="text-sm text-gray-600">
+        ターン {turn.turnNumber}
+      </span>
+      <span className="text-xs text-gray-500">
+        {new Date(turn.timestamp).toLocaleTimeString('ja-JP')}
+      </span>
+    </div>
+    <p className="text-gray-800 leading-relaxed italic">{turn.statement}</p>
+  </div>
+);
+
 export default function ConversationDisplay({ conversationFlow, isRealtime = false }: ConversationDisplayProps) {
   if (!conversationFlow || conversationFlow.length === 0) {
     return (
@@ -90,7 +121,9 @@ export default function ConversationDisplay({ conversationFlow, isRealtime = fal
       </div>
 
       <div className="space-y-4 max-h-96 overflow-y-auto">
-        {conversationFlow.map((turn, index) => (
+        {conversationFlow.map((turn, index) => turn.speakerKind === 'orchestrator' ? (
+          <InterventionTurnCard key={`turn-${turn.turnNumber}-${index}`} turn={turn} />
+        ) : (
           <div
             key={`turn-${turn.turnNumber}-${index}`}
             className={`border-l-4 p-4 rounded-r-lg ${getMBTIColor(turn.speakerMbtiType)} transition-all duration-300`}
@@ -101,6 +134,16 @@ export default function ConversationDisplay({ conversationFlow, isRealtime = fal
                 <span className={`px-2 py-1 rounded-full text-xs font-semibold ${getMBTIBadgeColor(turn.speakerMbtiType)}`}>
                   {turn.speakerMbtiType}
                 </span>
+                {turn.speakerKind === 'human' && (
+                  <span className="px-2 py-1 rounded-full text-xs font-semibold bg-gray-800 text-white">
+                    👤 {turn.speakerName ?? '人間参加者'}
+                  </span>
+                )}
+                {turn.debateSide && (
+                  <span className={`px-2 py-1 rounded-full text-xs font-semibold ${DEBATE_SIDE_BADGE_COLORS[turn.debateSide]}`}>
+                    ⚔️ {DEBATE_SIDE_LABELS[turn.debateSide]}
+                  </span>
+                )}
                 <span className="text-sm text-gray-600">
                   ターン {turn.turnNumber}
                 </span>
@@ -134,7 +177,9 @@ export default function ConversationDisplay({ conversationFlow, isRealtime = fal
             {turn.responseToAgent && (
               <div className="mb-2 text-xs text-gray-600">
                 <span className="bg-gray-100 px-2 py-1 rounded">
-                  💬 {turn.responseToAgent} への返答
+                  {turn.rebuttalTo !== undefined
+                    ? `↩️ ターン ${turn.rebuttalTo}（${turn.responseToAgent}）への反論`
+                    : `💬 ${turn.responseToAgent} への返答`}
                 </span>
               </div>
             )}
@@ -0,0 +1,106 @@
+'use client';
+
+import React from 'react';
+import { DebateResult, DebateSettings, DebateSide, DebateSideResult } from '@m-ads/shared-types';
+
+interface DebateSummaryProps {
+  debate?: DebateSettings;
+  debateResult?: DebateResult;
+}
+
+export const DEBATE_SIDE_LABELS: Record<DebateSide, string> = {
+  pro: '賛成',
+  contra: '反対'
+};
+
+export const DEBATE_SIDE_BADGE_COLORS: Record<DebateSide, string> = {
+  pro: 'bg-sky-100 text-sky-800',
+  contra: 'bg-rose-100 text-rose-800'
+};
+
+const SIDE_BAR_COLORS: Record<DebateSide, string> = {
+  pro: 'bg-sky-500',
+  contra: 'bg-rose-500'
+};
+
+const SIDES: DebateSide[] = ['pro', 'contra'];
+
+/**
+ * 陣営ごとの採点カード（立場・メンバー・発言数・反論数・論証の強さ・対立解消・総合スコア）
+ */
+function DebateSideCard({ result, isWinner }: { result: DebateSideResult; isWinner: boolean }) {
+  const scores = [
+    { label: '論証の強さ', value: result.argumentStrength },
+    { label: '対立解消', value: result.conflictResolution },
+    { label: '総合スコア', value: result.score }
+  ];
+
+  return (
+    <div className={`p-4 border rounded-lg ${isWinner ? 'border-yellow-400 bg-yellow-50' : ''}`}>
+      <div className="flex items-center justify-between mb-2">
+        <span className={`px-2 py-1 rounded-full text-xs font-semibold ${DEBATE_SIDE_BADGE_COLORS[result.side]}`}>
+          {DEBATE_SIDE_LABELS[result.side]}側
+        </span>
+        {isWinner && <span className="text-sm font-semibold text-yellow-700">🏆 優勢</span>}
+      </div>
+      <p className="text-sm text-gray-800 mb-2">{result.position}</p>
+      <div className="text-xs text-gray-600 mb-3">
+        {result.members.join(', ')} ・ 発言 {result.statements} ・ 反論 {result.rebuttals}
+      </div>
+      <div className="space-y-2">
+        {scores.map(({ label, value }) => (
+          <div key={label} className="flex items-center space-x-2 text-sm">
+            <span className="w-20 text-gray-600">{label}</span>
+            <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div className={`h-full ${SIDE_BAR_COLORS[result.side]}`} style={{ width: `${value * 100}%` }} />
+            </div>
+            <span className="w-12 text-right font-medium text-gray-700">{(value * 100).toFixed(1)}%</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function DebateSummary({ debate, debateResult }: DebateSummaryProps) {
+  if (!debate) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      {debateResult ? (
+        <>
+          <div className="text-center text-gray-800">
+            {debateResult.unscoredSides && debateResult.unscoredSides.length > 0
+              ? `⚠️ 判定なし（発言のない陣営: ${debateResult.unscoredSides.map(side => `${DEBATE_SIDE_LABELS[side]}側`).join('、')}）`
+              : debateResult.winner === 'draw'
+              ? '⚖️ 引き分け'
+              : `🏆 ${DEBATE_SIDE_LABELS[debateResult.winner]}側が優勢`}
+            <span className="ml-2 text-sm text-gray-600">（差 {(debateResult.margin * 100).toFixed(1)}%）</span>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {SIDES.map(side => (
+              <DebateSideCard
+                key={side}
+                result={debateResult.sides[side]}
+                isWinner={debateResult.winner === side}
+              />
+            ))}
+          </div>
+        </>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {SIDES.map(side => (
+            <div key={side} className="p-4 border rounded-lg">
+              <span className={`px-2 py-1 rounded-full text-xs font-semibold ${DEBATE_SIDE_BADGE_COLORS[side]}`}>
+                {DEBATE_SIDE_LABELS[side]}側
+              </span>
+              <p className="mt-2 text-sm text-gray-800">{debate.positions[side]}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
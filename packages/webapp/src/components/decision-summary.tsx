@@ -0,0 +1,109 @@
+'use client';
+
+import React from 'react';
+import { DecisionResult, DecisionSettings, DecisionVotingMethod } from '@m-ads/shared-types';
+
+interface DecisionSummaryProps {
+  decision?: DecisionSettings;
+  decisionResult?: DecisionResult;
+}
+
+export const VOTING_METHOD_LABELS: Record<DecisionVotingMethod, string> = {
+  weighted: '動的重みによる加重投票',
+  'ranked-choice': '順位付き投票（即時決選）'
+};
+
+/**
+ * 意思決定の投票結果（順位表・即時決選のラウンド・タイプ別の投票と理由）
+ */
+export default function DecisionSummary({ decision, decisionResult }: DecisionSummaryProps) {
+  if (!decision) {
+    return null;
+  }
+
+  if (!decisionResult) {
+    return (
+      <div className="text-sm text-gray-700">
+        候補案: {decision.options.join(' / ')}（{VOTING_METHOD_LABELS[decision.votingMethod]}）
+      </div>
+    );
+  }
+
+  // 以前のアーカイブは有効票・棄権を記録していない（順位を読み取れなかった投票も集計済み）
+  const validVotes = decisionResult.validVotes ?? decisionResult.votes.length;
+  const abstentions = decisionResult.abstentions?.length ?? 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="text-center text-gray-800">
+        {decisionResult.winner === null
+          ? <>⚠️ <span className="font-semibold">決定なし</span>（有効票なし）</>
+          : <>🏆 決定: <span className="font-semibold">{decisionResult.winner}</span></>}
+        <span className="ml-2 text-sm text-gray-600">
+          （{VOTING_METHOD_LABELS[decisionResult.votingMethod]} / 有効票 {validVotes}票 / 棄権 {abstentions}票）
+        </span>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-600 border-b">
+            <th className="py-1 pr-2">順位</th>
+            <th className="py-1 pr-2">候補案</th>
+            <th className="py-1 pr-2">スコア</th>
+            <th className="py-1 pr-2 text-right">第1希望</th>
+            <th className="py-1">第1希望に選んだタイプ</th>
+          </tr>
+        </thead>
+        <tbody>
+          {decisionResult.ranking.map(entry => (
+            <tr key={entry.option} className={`border-b last:border-0 ${entry.rank === 1 ? 'bg-yellow-50' : ''}`}>
+              <td className="py-1 pr-2 font-medium text-gray-700">{entry.rank}</td>
+              <td className="py-1 pr-2 text-gray-800">{entry.option}</td>
+              <td className="py-1 pr-2">
+                <div className="flex items-center space-x-2">
+                  <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                    <div className="h-full bg-blue-500" style={{ width: `${entry.score * 100}%` }} />
+                  </div>
+                  <span className="text-gray-600 whitespace-nowrap">{(entry.score * 100).toFixed(1)}%</span>
+                </div>
+              </td>
+              <td className="py-1 pr-2 text-right">{entry.firstChoiceVotes}</td>
+              <td className="py-1 text-gray-600">{entry.supporters.join(', ') || '-'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {decisionResult.rounds && decisionResult.rounds.length > 1 && (
+        <div>
+          <h4 className="font-medium text-gray-800 mb-2">決選ラウンド</h4>
+          <div className="space-y-1 text-sm text-gray-600">
+            {decisionResult.rounds.map((round, index) => (
+              <div key={index}>
+                ラウンド {index + 1}: {Object.entries(round).map(([option, votes]) => `${option} ${votes}票`).join(' / ')}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <h4 className="font-medium text-gray-800 mb-2">タイプ別の投票と理由</h4>
+        <ul className="space-y-2">
+          {decisionResult.votes.map(vote => (
+            <li key={vote.mbtiType} className="text-sm">
+              <div className="flex items-center space-x-2">
+                <span className="px-2 py-0.5 bg-blue-100 text-blue-800 rounded-full text-xs font-semibold">{vote.mbtiType}</span>
+                <span className="text-xs text-gray-500">重み {vote.weight.toFixed(2)}</span>
+                {vote.parsed
+                  ? <span className="text-gray-700">{vote.ranking.join(' > ')}</span>
+                  : <span className="text-xs text-gray-400">棄権（順位を読み取れず集計から除外）</span>}
+              </div>
+              <p className="mt-1 text-gray-600">{vote.rationale}</p>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import React, { useState } from 'react';
+import { HumanTurnRequest } from '@m-ads/shared-types';
+
+interface HumanTurnInputProps {
+  request: HumanTurnRequest;
+  onSubmit: (statement: string) => Promise<void>;
+}
+
+export default function HumanTurnInput({ request, onSubmit }: HumanTurnInputProps) {
+  const [statement, setStatement] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // 送信済みのターン（採点結果の turn を受信するまで再送信しない）
+  const [submittedTurn, setSubmittedTurn] = useState<number | null>(null);
+  const isSubmitted = submittedTurn === request.turnNumber;
+
+  const handleSubmit = async () => {
+    if (!statement.trim()) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(statement.trim());
+      setStatement('');
+      setSubmittedTurn(request.turnNumber);
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : '発言の送信に失敗しました');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="border-2 border-blue-400 rounded-lg p-4 bg-blue-50">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold text-blue-900">
+          👤 {request.participantName}（{request.mbtiType}）の発言ターンです
+        </h3>
+        <span className="text-sm text-blue-700">
+          Phase {request.phase}: {request.phaseName} / ターン {request.turnNumber}
+        </span>
+      </div>
+
+      {/* フェーズの指示と直近の発言 */}
+      <pre className="whitespace-pre-wrap text-sm text-gray-700 bg-white border border-blue-200 rounded-md p-3 mb-3 max-h-48 overflow-y-auto">
+        {request.guidance}
+      </pre>
+
+      <textarea
+        value={statement}
+        onChange={(e) => setStatement(e.target.value)}
+        className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        rows={4}
+        placeholder="あなたの発言を入力してください..."
+        disabled={isSubmitting || isSubmitted}
+      />
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+      <div className="mt-3 flex items-center justify-between">
+        <span className="text-xs text-gray-500">選択理由: {request.selectionReason}</span>
+        <button
+          onClick={handleSubmit}
+          disabled={isSubmitting || isSubmitted || !statement.trim()}
+          className={`px-4 py-2 rounded-md font-medium transition-colors text-white ${
+            isSubmitting || isSubmitted || !statement.trim()
+              ? 'bg-gray-400 cursor-not-allowed'
+              : 'bg-blue-600 hover:bg-blue-700'
+          }`}
+        >
+          {isSubmitting ? '送信中...' : isSubmitted ? '採点中...' : '発言する'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import React, { useState } from 'react';
+import { MBTIGroup, MBTIType, ParticipantSelection } from '@m-ads/shared-types';
+
+interface ParticipantSelectorProps {
+  value?: ParticipantSelection;
+  participantCount: number;
+  onChange: (selection: ParticipantSelection | undefined) => void;
+  disabled?: boolean;
+}
+
+type SelectionMode = 'auto' | 'explicit' | 'quota';
+
+// MBTIグループ別タイプ一覧
+const MBTI_GROUPS: { name: MBTIGroup; label: string; types: MBTIType[] }[] = [
+  { name: 'NT', label: 'Rational', types: ['INTJ', 'INTP', 'ENTJ', 'ENTP'] },
+  { name: 'NF', label: 'Idealist', types: ['INFJ', 'INFP', 'ENFJ', 'ENFP'] },
+  { name: 'SJ', label: 'Guardian', types: ['ISTJ', 'ISFJ', 'ESTJ', 'ESFJ'] },
+  { name: 'SP', label: 'Artisan', types: ['ISTP', 'ISFP', 'ESTP', 'ESFP'] }
+];
+
+const getInitialMode = (value?: ParticipantSelection): SelectionMode => {
+  if (value?.types && value.types.length > 0) return 'explicit';
+  if (value?.groupQuotas) return 'quota';
+  return 'auto';
+};
+
+const toggleType = (types: MBTIType[] | undefined, type: MBTIType): MBTIType[] => {
+  const current = types ?? [];
+  return current.includes(type) ? current.filter(t => t !== type) : [...current, type];
+};
+
+// 空の指定は undefined に正規化（ワークフロー側で従来の多様性選択を使用）
+const normalize = (selection: ParticipantSelection): ParticipantSelection | undefined => {
+  const normalized: ParticipantSelection = {};
+  if (selection.types && selection.types.length > 0) normalized.types = selection.types;
+  if (selection.groupQuotas && Object.values(selection.groupQuotas).some(quota => (quota ?? 0) > 0)) {
+    normalized.groupQuotas = selection.groupQuotas;
+  }
+  if (selection.exclude && selection.exclude.length > 0) normalized.exclude = selection.exclude;
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+};
+
+export default function ParticipantSelector({ value, participantCount, onChange, disabled }: ParticipantSelectorProps) {
+  const [mode, setMode] = useState<SelectionMode>(() => getInitialMode(value));
+
+  const handleModeChange = (nextMode: SelectionMode) => {
+    setMode(nextMode);
+    // モード切替時は他モードの指定を破棄（除外指定は明示リスト以外で維持）
+    onChange(normalize({ exclude: nextMode === 'explicit' ? undefined : value?.exclude }));
+  };
+
+  const handleTypeClick = (type: MBTIType) => {
+    if (mode === 'explicit') {
+      onChange(normalize({ ...value, types: toggleType(value?.types, type) }));
+    } else {
+      onChange(normalize({ ...value, exclude: toggleType(value?.exclude, type) }));
+    }
+  };
+
+  const handleQuotaChange = (group: MBTIGroup, quota: number) => {
+    onChange(normalize({ ...value, groupQuotas: { ...value?.groupQuotas, [group]: quota } }));
+  };
+
+  const getTypeButtonClass = (type: MBTIType) => {
+    if (mode === 'explicit' && value?.types?.includes(type)) {
+      return 'bg-blue-600 text-white border-blue-600';
+    }
+    if (mode !== 'explicit' && value?.exclude?.includes(type)) {
+      return 'bg-red-100 text-red-700 border-red-300 line-through';
+    }
+    return 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50';
+  };
+
+  const quotaTotal = Object.values(value?.groupQuotas ?? {}).reduce<number>((sum, quota) => sum + (quota ?? 0), 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-4">
+        {([
+          { mode: 'auto', label: '自動選択（多様性重視）' },
+          { mode: 'explicit', label: 'タイプを指定' },
+          { mode: 'quota', label: 'グループ割当' }
+        ] as { mode: SelectionMode; label: string }[]).map(option => (
+          <label key={option.mode} className="flex items-center text-sm">
+            <input
+              type="radio"
+              name="participant-selection-mode"
+              checked={mode === option.mode}
+              onChange={() => handleModeChange(option.mode)}
+              className="mr-2"
+              disabled={disabled}
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {mode === 'explicit' && `参加させるタイプを選択してください（${value?.types?.length ?? 0}タイプ選択中）`}
+        {mode === 'quota' && `グループ別の人数を指定してください（割当合計 ${quotaTotal}、残り ${Math.max(participantCount - quotaTotal, 0)} 枠は割当のないグループから選択）`}
+        {mode === 'auto' && `${participantCount}タイプを各グループから自動選択します`}
+        {mode !== 'explicit' && ' / クリックしたタイプは除外されます'}
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {MBTI_GROUPS.map(group => (
+          <div key={group.name} className="border border-gray-200 rounded-md p-3">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-gray-700">{group.name} ({group.label})</span>
+              {mode === 'quota' && (
+                <input
+                  type="number"
+                  min={0}
+                  max={4}
+                  value={value?.groupQuotas?.[group.name] ?? 0}
+                  onChange={(e) => handleQuotaChange(group.name, Math.min(Math.max(parseInt(e.target.value) || 0, 0), 4))}
+                  className="w-14 text-sm border border-gray-300 rounded-md px-2 py-1"
+                  disabled={disabled}
+                />
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {group.types.map(type => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => handleTypeClick(type)}
+                  className={`text-xs font-medium border rounded-md px-2 py-1 transition-colors ${getTypeButtonClass(type)}`}
+                  disabled={disabled}
+                >
+                  {type}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
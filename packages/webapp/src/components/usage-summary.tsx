@@ -0,0 +1,111 @@
+'use client';
+
+import React from 'react';
+import { LLMUsageSummary, LLMUsageTotals } from '@m-ads/shared-types';
+
+interface UsageSummaryProps {
+  usage?: LLMUsageSummary;
+}
+
+const formatCost = (totals: LLMUsageTotals) =>
+  `$${totals.estimatedCostUSD.toFixed(4)}${totals.unpricedCalls > 0 ? ` (+${totals.unpricedCalls}件 単価未登録)` : ''}`;
+
+const formatLatency = (totals: LLMUsageTotals) =>
+  `${Math.round(totals.latencyMs / Math.max(totals.calls, 1)).toLocaleString()} ms`;
+
+/**
+ * LLM使用量の集計表（対象ごとの呼び出し数・トークン数・平均レイテンシ・見積もりコスト）
+ */
+function UsageTable({ title, rows }: { title: string; rows: Array<{ label: string; totals: LLMUsageTotals }> }) {
+  const maxTokens = Math.max(...rows.map(row => row.totals.totalTokens), 1);
+
+  return (
+    <div>
+      <h4 className="font-medium text-gray-800 mb-2">{title}</h4>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-600 border-b">
+            <th className="py-1 pr-2">対象</th>
+            <th className="py-1 pr-2 text-right">呼び出し</th>
+            <th className="py-1 pr-2">トークン（入力 + 出力）</th>
+            <th className="py-1 pr-2 text-right">平均レイテンシ</th>
+            <th className="py-1 text-right">見積もりコスト</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ label, totals }) => (
+            <tr key={label} className="border-b last:border-0">
+              <td className="py-1 pr-2 font-medium text-gray-700">{label}</td>
+              <td className="py-1 pr-2 text-right">{totals.calls}</td>
+              <td className="py-1 pr-2">
+                <div className="flex items-center space-x-2">
+                  <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-500"
+                      style={{ width: `${(totals.totalTokens / maxTokens) * 100}%` }}
+                    />
+                  </div>
+                  <span className="text-gray-600 whitespace-nowrap">
+                    {totals.promptTokens.toLocaleString()} + {totals.completionTokens.toLocaleString()}
+                  </span>
+                </div>
+              </td>
+              <td className="py-1 pr-2 text-right">{formatLatency(totals)}</td>
+              <td className="py-1 text-right">{formatCost(totals)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function UsageSummary({ usage }: UsageSummaryProps) {
+  if (!usage || usage.total.calls === 0) {
+    return (
+      <div className="text-center py-4 text-gray-500">
+        使用量データがありません
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* 実行全体 */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="text-center p-4 border rounded-lg">
+          <div className="text-lg font-bold text-blue-600">{usage.total.calls}</div>
+          <div className="text-sm text-gray-600">モデル呼び出し</div>
+        </div>
+        <div className="text-center p-4 border rounded-lg">
+          <div className="text-lg font-bold text-green-600">{usage.total.totalTokens.toLocaleString()}</div>
+          <div className="text-sm text-gray-600">総トークン数</div>
+        </div>
+        <div className="text-center p-4 border rounded-lg">
+          <div className="text-lg font-bold text-purple-600">{formatLatency(usage.total)}</div>
+          <div className="text-sm text-gray-600">平均レイテンシ</div>
+        </div>
+        <div className="text-center p-4 border rounded-lg">
+          <div className="text-lg font-bold text-red-600">{formatCost(usage.total)}</div>
+          <div className="text-sm text-gray-600">見積もりコスト</div>
+        </div>
+      </div>
+
+      <UsageTable
+        title="エージェント別"
+        rows={Object.entries(usage.byAgent).map(([agent, totals]) => ({ label: agent, totals }))}
+      />
+      <UsageTable
+        title="フェーズ別"
+        rows={usage.byPhase.map(entry => ({
+          label: entry.phase === null ? 'フェーズ外（投票・総括）' : `${entry.phase}. ${entry.phaseName ?? ''}`,
+          totals: entry
+        }))}
+      />
+      <UsageTable
+        title="モデル別"
+        rows={Object.entries(usage.byModel).map(([model, totals]) => ({ label: model, totals }))}
+      />
+    </div>
+  );
+}
@@ -1,9 +1,9 @@
 'use client';
 
 import React from 'react';
-import { MBTIType } from '../../../types/m-ads';
+import { DiscussionResult, MBTIType } from '@m-ads/shared-types';
 
-interface WeightData {
+export interface WeightData {
   mbtiType: MBTIType;
   currentWeight: number;
   initialWeight?: number;
@@ -16,6 +16,24 @@ interface WeightVisualizationProps {
   showHistory?: boolean;
 }
 
+/**
+ * 議論結果から重みデータを作成（ダッシュボード・アーカイブ詳細で共用）
+ */
+export function buildWeightData(result: DiscussionResult): WeightData[] {
+  return result.participantTypes.map((type) => {
+    const analysis = result.advancedReport.mbtiTypeAnalysis[type];
+    const weightAdjustment = result.realtimeOptimization.weightAdjustments[type] || 1.0;
+
+    return {
+      mbtiType: type,
+      currentWeight: weightAdjustment,
+      initialWeight: 1.0,
+      participationCount: Math.round((analysis?.participationRate ?? 0) * result.totalTurns),
+      averageQuality: analysis?.qualityContribution ?? 0
+    };
+  });
+}
+
 // MBTIグループ分類
 const getMBTIGroup = (mbtiType: string) => {
   if (['INTJ', 'INTP', 'ENTJ', 'ENTP'].includes(mbtiType)) return { name: 'NT', label: 'Rational', color: 'blue' };
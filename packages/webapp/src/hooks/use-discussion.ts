@@ -1,58 +1,193 @@
 import { useState, useCallback } from 'react';
-import { DiscussionConfig, DiscussionResult, DiscussionState, ApiResponse } from '../types/m-ads';
+import { DiscussionConfig, DiscussionState, HumanTurnInput, PhaseDefinition, PhasePlanPresetName, WSMessage } from '@m-ads/shared-types';
 
-export function useDiscussion() {
-  const [state, setState] = useState<DiscussionState>({
-    status: 'idle',
-    progress: {
-      currentPhase: 'brainstorming',
-      currentTurn: 0,
-      totalExpectedTurns: 0,
-      progressPercentage: 0
-    },
-    liveMetrics: {
-      latestWeight: {},
-      qualityTrend: [],
-      optimizationCount: 0
+const createInitialState = (): DiscussionState => ({
+  status: 'idle',
+  liveConversation: [],
+  progress: {
+    currentPhase: 'brainstorming',
+    currentTurn: 0,
+    totalExpectedTurns: 0,
+    progressPercentage: 0
+  },
+  liveMetrics: {
+    latestWeight: {},
+    qualityTrend: [],
+    optimizationCount: 0
+  }
+});
+
+// プリセット別のフェーズ構成（ラウンド数）
+const PRESET_PHASE_ROUNDS: Record<PhasePlanPresetName, number[]> = {
+  standard: [1, 1, 1, 1],
+  brainstorm: [1, 1],
+  debate: [1, 2, 2, 1, 2],
+  'consensus-only': [3]
+};
+
+/**
+ * フェーズプランから想定ターン数を推定（終了条件による早期終了は考慮しない）
+ */
+const estimateExpectedTurns = (config: DiscussionConfig): number => {
+  const explicitTypes = config.participants?.types;
+  const humanType = config.humanParticipant?.mbtiType;
+  // 明示リストに含まれない人間参加者は追加の1枠として数える
+  const participantCount = explicitTypes?.length
+    ? explicitTypes.length + (config.humanParticipant && (!humanType || !explicitTypes.includes(humanType)) ? 1 : 0)
+    : config.participantCount;
+  const phasePlan = config.phasePlan ?? 'standard';
+  const phases: Pick<PhaseDefinition, 'rounds' | 'turns'>[] = typeof phasePlan === 'string'
+    ? PRESET_PHASE_ROUNDS[phasePlan].map(rounds => ({ rounds }))
+    : phasePlan;
+  return phases.reduce((sum, phase) => sum + (phase.turns ?? (phase.rounds ?? 1) * participantCount), 0);
+};
+
+/**
+ * SSEレスポンスを読み取り、data行をWSMessageとして通知
+ */
+async function readServerSentEvents(
+  response: Response,
+  onMessage: (message: WSMessage) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('ストリーミングレスポンスを取得できませんでした');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // イベントは空行区切り
+    let separatorIndex = buffer.indexOf('\n\n');
+    while (separatorIndex !== -1) {
+      const rawEvent = buffer.slice(0, separatorIndex);
+      buffer = buffer.slice(separatorIndex + 2);
+
+      const data = rawEvent
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+
+      if (data) {
+        onMessage(JSON.parse(data) as WSMessage);
+      }
+
+      separatorIndex = buffer.indexOf('\n\n');
     }
-  });
+  }
+}
+
+export function useDiscussion() {
+  const [state, setState] = useState<DiscussionState>(createInitialState);
+
+  /**
+   * ストリーミングメッセージを状態へ反映
+   */
+  const applyMessage = useCallback((message: WSMessage) => {
+    setState(prev => {
+      switch (message.type) {
+        case 'progress':
+          return {
+            ...prev,
+            progress: {
+              ...prev.progress,
+              currentPhase: message.data.phase
+            }
+          };
+
+        case 'turn': {
+          const currentTurn = message.data.turnNumber;
+          return {
+            ...prev,
+            liveConversation: [...prev.liveConversation, message.data],
+            pendingHumanTurn: prev.pendingHumanTurn?.turnNumber === currentTurn ? undefined : prev.pendingHumanTurn,
+            progress: {
+              ...prev.progress,
+              currentTurn,
+              progressPercentage: Math.min((currentTurn / Math.max(prev.progress.totalExpectedTurns, 1)) * 100, 100)
+            },
+            liveMetrics: {
+              ...prev.liveMetrics,
+              // オーケストレーター介入は発言者として扱わない
+              activeSpeaker: message.data.speakerMbtiType === 'ORCHESTRATOR'
+                ? prev.liveMetrics.activeSpeaker
+                : message.data.speakerMbtiType
+            }
+          };
+        }
+
+        case 'metrics':
+          if (message.data.kind === 'weights') {
+            return {
+              ...prev,
+              liveMetrics: {
+                ...prev.liveMetrics,
+                latestWeight: { ...prev.liveMetrics.latestWeight, ...message.data.weights },
+                optimizationCount: prev.liveMetrics.optimizationCount + (message.data.reason === 'optimization' ? 1 : 0)
+              }
+            };
+          }
+          return {
+            ...prev,
+            liveMetrics: {
+              ...prev.liveMetrics,
+              qualityTrend: [...prev.liveMetrics.qualityTrend, message.data.scores.overallScore]
+            }
+          };
+
+        case 'human-turn':
+          return {
+            ...prev,
+            pendingHumanTurn: message.data
+          };
+
+        case 'completion':
+          return {
+            ...prev,
+            status: 'completed',
+            result: message.data,
+            pendingHumanTurn: undefined,
+            liveMetrics: { ...prev.liveMetrics, activeSpeaker: undefined },
+            progress: {
+              ...prev.progress,
+              progressPercentage: 100
+            }
+          };
+
+        case 'error':
+          return {
+            ...prev,
+            status: 'error',
+            error: message.data.message,
+            pendingHumanTurn: undefined
+          };
+      }
+    });
+  }, []);
 
   const startDiscussion = useCallback(async (config: DiscussionConfig) => {
-    setState(prev => ({
-      ...prev,
+    setState({
+      ...createInitialState(),
       status: 'running',
       config,
-      error: undefined,
       progress: {
         currentPhase: 'brainstorming',
         currentTurn: 0,
-        totalExpectedTurns: config.participantCount * 4, // 推定ターン数
+        totalExpectedTurns: estimateExpectedTurns(config), // 推定ターン数
         progressPercentage: 0
       }
-    }));
+    });
 
     try {
-      // シミュレーション用のプログレス更新
-      const updateProgress = (phase: 'brainstorming' | 'analysis' | 'synthesis' | 'conclusion', turn: number) => {
-        setState(prev => ({
-          ...prev,
-          progress: {
-            ...prev.progress,
-            currentPhase: phase,
-            currentTurn: turn,
-            progressPercentage: Math.min((turn / (config.participantCount * 4)) * 100, 100)
-          }
-        }));
-      };
-
-      // フェーズ別にプログレスを更新
-      for (let phase of ['brainstorming', 'analysis', 'synthesis', 'conclusion'] as const) {
-        updateProgress(phase, state.progress.currentTurn + config.participantCount);
-        await new Promise(resolve => setTimeout(resolve, 1000)); // 1秒待機
-      }
-
-      // 議論実行API呼び出し
-      const response = await fetch('/api/discussion', {
+      // 議論ストリーミングAPI呼び出し
+      const response = await fetch('/api/discussion/stream', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -60,21 +195,18 @@ export function useDiscussion() {
         body: JSON.stringify(config)
       });
 
-      const apiResponse: ApiResponse<DiscussionResult> = await response.json();
-
-      if (!apiResponse.success) {
-        throw new Error(apiResponse.error || '議論の実行に失敗しました');
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.error || '議論の実行に失敗しました');
       }
 
-      setState(prev => ({
-        ...prev,
-        status: 'completed',
-        result: apiResponse.data,
-        progress: {
-          ...prev.progress,
-          progressPercentage: 100
-        }
-      }));
+      await readServerSentEvents(response, applyMessage);
+
+      // completion / error を受信せずに終了した場合
+      setState(prev => prev.status === 'running'
+        ? { ...prev, status: 'error', error: 'ストリーミングが途中で終了しました' }
+        : prev
+      );
 
     } catch (error) {
       console.error('議論実行エラー:', error);
@@ -84,31 +216,47 @@ export function useDiscussion() {
         error: error instanceof Error ? error.message : '不明なエラーが発生しました'
       }));
     }
-  }, []);
+  }, [applyMessage]);
 
-  const resetDiscussion = useCallback(() => {
-    setState({
-      status: 'idle',
-      progress: {
-        currentPhase: 'brainstorming',
-        currentTurn: 0,
-        totalExpectedTurns: 0,
-        progressPercentage: 0
+  /**
+   * 人間参加者の発言を送信（受理されるとワークフローが再開し、turn として配信される）
+   */
+  const submitHumanTurn = useCallback(async (statement: string) => {
+    const pendingHumanTurn = state.pendingHumanTurn;
+    if (!pendingHumanTurn) {
+      throw new Error('発言待ちのターンがありません');
+    }
+
+    const input: HumanTurnInput = {
+      runId: pendingHumanTurn.runId,
+      turnNumber: pendingHumanTurn.turnNumber,
+      statement
+    };
+    const response = await fetch('/api/discussion/human-input', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
       },
-      liveMetrics: {
-        latestWeight: {},
-        qualityTrend: [],
-        optimizationCount: 0
-      }
+      body: JSON.stringify(input)
     });
+
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => null);
+      throw new Error(errorBody?.error || '発言の送信に失敗しました');
+    }
+  }, [state.pendingHumanTurn]);
+
+  const resetDiscussion = useCallback(() => {
+    setState(createInitialState());
   }, []);
 
   return {
     state,
     startDiscussion,
+    submitHumanTurn,
     resetDiscussion,
     isRunning: state.status === 'running',
     isCompleted: state.status === 'completed',
     hasError: state.status === 'error'
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,195 @@
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, readdir, writeFile } from 'fs/promises';
+import path from 'path';
+import type {
+  ArchivedDiscussion,
+  ArchivedDiscussionSummary,
+  DiscussionArchiveQuery,
+  DiscussionConfig,
+  DiscussionResult,
+  MBTIType
+} from '@m-ads/shared-types';
+
+/**
+ * 議論アーカイブモジュール
+ * 実行済みの議論（設定・結果・全発言）を1件1ファイルのJSONとして保存し、
+ * トピック・参加タイプ・スコアによる絞り込みと全文検索を提供する
+ */
+
+// 保存先（M_ADS_ARCHIVE_DIR で変更可能）
+export function getArchiveDirectory(): string {
+  return path.resolve(process.env.M_ADS_ARCHIVE_DIR || './discussion-archive');
+}
+
+// パス操作を防ぐためIDは英数字とハイフンのみ許可
+const ARCHIVE_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+// 全文検索の抜粋の前後文字数
+const SNIPPET_CONTEXT_LENGTH = 40;
+
+/**
+ * 議論結果をアーカイブに保存してIDを返す
+ */
+export async function archiveDiscussion(
+  config: DiscussionConfig,
+  result: DiscussionResult
+): Promise<string> {
+  const archivedAt = new Date();
+  const id = `${archivedAt.toISOString().replace(/[-:.TZ]/g, '').slice(0, 14)}-${randomUUID().slice(0, 8)}`;
+  const archived: ArchivedDiscussion = {
+    ...toSummary(id, archivedAt.toISOString(), result),
+    config,
+    result: { ...result, archiveId: id }
+  };
+
+  const directory = getArchiveDirectory();
+  await mkdir(directory, { recursive: true });
+  await writeFile(path.join(directory, `${id}.json`), JSON.stringify(archived, null, 2), 'utf8');
+  return id;
+}
+
+/**
+ * 保存済みの議論を取得（存在しない・不正なIDはnull）
+ */
+export async function getArchivedDiscussion(id: string): Promise<ArchivedDiscussion | null> {
+  if (!ARCHIVE_ID_PATTERN.test(id)) return null;
+
+  try {
+    const json = await readFile(path.join(getArchiveDirectory(), `${id}.json`), 'utf8');
+    return JSON.parse(json) as ArchivedDiscussion;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * 保存済みの議論を検索（新しい順）
+ */
+export async function listArchivedDiscussions(
+  query: DiscussionArchiveQuery = {}
+): Promise<ArchivedDiscussionSummary[]> {
+  const archives = await loadAllArchives();
+  const terms = (query.q ?? '').toLowerCase().split(/\s+/).filter(term => term.length > 0);
+
+  return archives
+    .filter(archive => matchesFilters(archive, query))
+    .flatMap(archive => {
+      const summary = toSummary(archive.id, archive.archivedAt, archive.result);
+      if (terms.length === 0) return [summary];
+
+      const texts = collectSearchableTexts(archive);
+      const matchesAllTerms = terms.every(term => texts.some(text => text.toLowerCase().includes(term)));
+      if (!matchesAllTerms) return [];
+
+      return [{ ...summary, matchSnippet: createSnippet(texts, terms[0]) }];
+    })
+    .sort((a, b) => b.archivedAt.localeCompare(a.archivedAt));
+}
+
+/**
+ * URLクエリパラメータから検索条件を構築
+ * topic / type（複数指定・カンマ区切り可）/ minScore / maxScore（0-1）/ q
+ */
+export function parseArchiveQuery(params: URLSearchParams): DiscussionArchiveQuery {
+  const types = params.getAll('type')
+    .flatMap(value => value.split(','))
+    .map(value => value.trim().toUpperCase())
+    .filter(value => value.length > 0) as MBTIType[];
+  const parseScore = (value: string | null) => {
+    if (value === null || value === '') return undefined;
+    const score = Number(value);
+    return Number.isFinite(score) ? score : undefined;
+  };
+
+  return {
+    topic: params.get('topic') || undefined,
+    types: types.length > 0 ? types : undefined,
+    minScore: parseScore(params.get('minScore')),
+    maxScore: parseScore(params.get('maxScore')),
+    q: params.get('q') || undefined
+  };
+}
+
+async function loadAllArchives(): Promise<ArchivedDiscussion[]> {
+  const directory = getArchiveDirectory();
+  let fileNames: string[];
+  try {
+    fileNames = await readdir(directory);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const archives = await Promise.all(
+    fileNames
+      .filter(fileName => fileName.endsWith('.json'))
+      .map(async fileName => {
+        try {
+          return JSON.parse(await readFile(path.join(directory, fileName), 'utf8')) as ArchivedDiscussion;
+        } catch (error) {
+          console.warn(`⚠️ アーカイブの読み込みをスキップ: ${fileName}`, error);
+          return null;
+        }
+      })
+  );
+  return archives.filter((archive): archive is ArchivedDiscussion => archive !== null);
+}
+
+function toSummary(id: string, archivedAt: string, result: DiscussionResult): ArchivedDiscussionSummary {
+  return {
+    id,
+    archivedAt,
+    topic: result.topic,
+    source: result.source,
+    participantTypes: result.participantTypes,
+    humanParticipant: result.humanParticipant,
+    totalTurns: result.totalTurns,
+    overallScore: result.advancedReport.overallScore,
+    grade: result.advancedReport.grade,
+    overview: result.discussionSummary.overview
+  };
+}
+
+function matchesFilters(archive: ArchivedDiscussion, query: DiscussionArchiveQuery): boolean {
+  if (query.topic && !archive.topic.toLowerCase().includes(query.topic.toLowerCase())) {
+    return false;
+  }
+  if (query.types && !query.types.every(type => archive.participantTypes.includes(type))) {
+    return false;
+  }
+  if (query.minScore !== undefined && archive.overallScore < query.minScore) {
+    return false;
+  }
+  if (query.maxScore !== undefined && archive.overallScore > query.maxScore) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 全文検索の対象（トピック・総括・全発言）
+ */
+function collectSearchableTexts(archive: ArchivedDiscussion): string[] {
+  const summary = archive.result.discussionSummary;
+  return [
+    archive.topic,
+    summary.overview,
+    summary.consensus,
+    ...summary.keyThemes,
+    ...summary.insights,
+    ...archive.result.conversationFlow.map(turn => turn.statement)
+  ].filter((text): text is string => typeof text === 'string' && text.length > 0);
+}
+
+function createSnippet(texts: string[], term: string): string | undefined {
+  for (const text of texts) {
+    const index = text.toLowerCase().indexOf(term);
+    if (index === -1) continue;
+
+    const start = Math.max(0, index - SNIPPET_CONTEXT_LENGTH);
+    const end = Math.min(text.length, index + term.length + SNIPPET_CONTEXT_LENGTH);
+    return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+  }
+  return undefined;
+}
@@ -0,0 +1,68 @@
+import type { ArchivedDiscussion } from '@m-ads/shared-types';
+// 比較ロジックのみを参照（パッケージのエントリーポイントは Mastra を初期化するため個別モジュールを読み込む）
+import {
+  compareDiscussions,
+  SEVEN_DIMENSION_KEYS,
+  type ComparableDiscussion,
+  type DiscussionComparison
+} from '@m-ads/mastra-workflows/utils/discussion-comparison';
+import { getArchivedDiscussion } from './discussion-archive';
+
+/**
+ * 議論アーカイブの比較モジュール
+ * 保存済みの議論を比較用の形式へ変換し、1件目を基準とした差分を算出する
+ */
+
+/**
+ * アーカイブの議論を比較用の形式へ変換
+ */
+export function toComparableDiscussion(archived: ArchivedDiscussion): ComparableDiscussion {
+  const { config, result } = archived;
+  const scores: ComparableDiscussion['scores'] = { overallScore: result.advancedReport.overallScore };
+  SEVEN_DIMENSION_KEYS.forEach(key => {
+    scores[key] = result.comprehensiveMetrics[key];
+  });
+
+  return {
+    label: `${new Date(archived.archivedAt).toLocaleString('ja-JP')} (${archived.id})`,
+    topic: result.topic,
+    participantTypes: result.participantTypes,
+    scores,
+    conversationFlow: result.conversationFlow,
+    keyThemes: result.discussionSummary.keyThemes,
+    configuration: {
+      '結果の出所': result.source,
+      '参加タイプ': [...result.participantTypes].sort().join(','),
+      '参加者数': config.participantCount,
+      '参加者選択': config.participants ? JSON.stringify(config.participants) : undefined,
+      'シード': result.seed ?? config.seed,
+      'フェーズプラン': Array.isArray(config.phasePlan)
+        ? config.phasePlan.map(phase => phase.name).join(' → ')
+        : config.phasePlan,
+      'リアルタイム最適化': config.enableRealtimeOptimization,
+      'グラフ最適化': config.enableGraphOptimization,
+      '品質閾値': config.qualityThreshold,
+      'LLMプロバイダー': config.llm?.default?.provider,
+      '人間参加者': result.humanParticipant
+        ? `${result.humanParticipant.name} (${result.humanParticipant.mbtiType})`
+        : undefined
+    }
+  };
+}
+
+/**
+ * アーカイブIDを指定して議論を比較（見つからないIDがあれば missingIds を返す）
+ */
+export async function compareArchivedDiscussions(
+  ids: string[]
+): Promise<{ comparison: DiscussionComparison } | { missingIds: string[] }> {
+  const archives = await Promise.all(ids.map(id => getArchivedDiscussion(id)));
+  const missingIds = ids.filter((_, index) => archives[index] === null);
+  if (missingIds.length > 0) {
+    return { missingIds };
+  }
+
+  return {
+    comparison: compareDiscussions(archives.map(archived => toComparableDiscussion(archived!)))
+  };
+}
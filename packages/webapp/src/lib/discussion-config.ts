@@ -0,0 +1,305 @@
+import type { DiscussionConfig, MBTIType } from '@m-ads/shared-types';
+
+/**
+ * 議論設定の検証モジュール
+ * リクエストボディ（任意のJSON）を各フィールドの型から検証し、
+ * ワークフローへ渡す前に不正な設定を 400 として返せるようにする
+ */
+
+const MBTI_TYPES: readonly string[] = [
+  'INTJ', 'INTP', 'ENTJ', 'ENTP',
+  'INFJ', 'INFP', 'ENFJ', 'ENFP',
+  'ISTJ', 'ISFJ', 'ESTJ', 'ESFJ',
+  'ISTP', 'ISFP', 'ESTP', 'ESFP'
+];
+const MBTI_GROUPS: readonly string[] = ['NT', 'NF', 'SJ', 'SP'];
+const PHASE_PLAN_PRESETS: readonly string[] = ['standard', 'brainstorm', 'debate', 'consensus-only'];
+const PHASE_TYPES: readonly string[] = ['initial', 'interaction', 'synthesis', 'consensus'];
+const SPEAKER_SELECTIONS: readonly string[] = ['round-robin', 'weighted', 'random'];
+const EXIT_METRICS: readonly string[] = ['convergence', 'quality'];
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isMBTITypeArray = (value: unknown): value is MBTIType[] =>
+  isStringArray(value) && value.every(item => MBTI_TYPES.includes(item));
+
+const isIntegerInRange = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+const isOptional = (value: unknown, guard: (value: unknown) => boolean): boolean =>
+  value === undefined || guard(value);
+
+/**
+ * 議論設定のバリデーション（エラーメッセージ、問題なければnull）
+ * null を返した入力は DiscussionConfig として扱える
+ */
+export function validateDiscussionConfig(input: unknown): string | null {
+  const shapeError = validateConfigShape(input);
+  if (shapeError) {
+    return shapeError;
+  }
+  const config = input as DiscussionConfig;
+
+  if (config.topic.trim().length === 0) {
+    return 'トピックは必須です';
+  }
+
+  // 参加タイプを明示した場合はそのリストで実行するため、参加者数の範囲は明示リストがない場合のみ検証
+  const selection = config.participants;
+  const explicitTypes = selection?.types && selection.types.length > 0 ? selection.types : undefined;
+  if (!explicitTypes && (config.participantCount < 4 || config.participantCount > 16)) {
+    return '参加者数は4-16の範囲で指定してください';
+  }
+
+  if (explicitTypes) {
+    if (explicitTypes.length < 2) {
+      return '参加タイプは2つ以上指定してください';
+    }
+    const excludedTypes = explicitTypes.filter(type => selection?.exclude?.includes(type));
+    if (excludedTypes.length > 0) {
+      return `参加タイプと除外タイプが重複しています: ${excludedTypes.join(', ')}`;
+    }
+  }
+
+  if (Array.isArray(config.phasePlan) && config.phasePlan.length === 0) {
+    return 'フェーズプランには1つ以上のフェーズを指定してください';
+  }
+
+  const human = config.humanParticipant;
+  if (human) {
+    if (human.name.trim().length === 0) {
+      return '人間参加者の表示名は必須です';
+    }
+    if (human.mbtiType && selection?.exclude?.includes(human.mbtiType)) {
+      return `人間参加者のタイプが除外タイプに含まれています: ${human.mbtiType}`;
+    }
+  }
+
+  const debateTeams = config.debate?.teams;
+  if (debateTeams) {
+    const overlappingTypes = (debateTeams.pro ?? []).filter(type => debateTeams.contra?.includes(type));
+    if (overlappingTypes.length > 0) {
+      return `賛成側と反対側の陣営が重複しています: ${overlappingTypes.join(', ')}`;
+    }
+  }
+
+  const decision = config.decision;
+  if (decision) {
+    const options = decision.options.map(option => option.trim()).filter(Boolean);
+    if (options.length < 2) {
+      return '意思決定の候補案は2つ以上指定してください';
+    }
+    const duplicated = options.find((option, index) => options.indexOf(option) !== index);
+    if (duplicated) {
+      return `意思決定の候補案が重複しています: ${duplicated}`;
+    }
+  }
+
+  const quotaTotal = Object.values(selection?.groupQuotas ?? {}).reduce<number>((sum, quota) => sum + (quota ?? 0), 0);
+  if (!explicitTypes && quotaTotal > config.participantCount) {
+    return `グループ割当の合計(${quotaTotal})が参加者数(${config.participantCount})を超えています`;
+  }
+
+  return null;
+}
+
+/**
+ * 各フィールドの型・列挙値・数値範囲を検証（値同士の整合性は validateDiscussionConfig で検証）
+ */
+function validateConfigShape(input: unknown): string | null {
+  if (!isObject(input)) {
+    return '議論設定はオブジェクトで指定してください';
+  }
+
+  if (typeof input.topic !== 'string') {
+    return 'トピックは必須です';
+  }
+
+  if (typeof input.participantCount !== 'number' || !Number.isInteger(input.participantCount)) {
+    return '参加者数は整数で指定してください';
+  }
+
+  const selectionError = validateParticipantSelection(input.participants);
+  if (selectionError) {
+    return selectionError;
+  }
+
+  if (!isOptional(input.seed, value => Number.isSafeInteger(value))) {
+    return 'シードは整数で指定してください';
+  }
+
+  if (input.language !== undefined && input.language !== 'ja' && input.language !== 'en') {
+    return '議論言語は ja または en で指定してください';
+  }
+
+  if (!isOptional(input.personas, isStringArray)) {
+    return 'ペルソナIDは文字列の配列で指定してください';
+  }
+
+  const phasePlanError = validatePhasePlan(input.phasePlan);
+  if (phasePlanError) {
+    return phasePlanError;
+  }
+
+  const human = input.humanParticipant;
+  if (human !== undefined) {
+    if (!isObject(human) || typeof human.name !== 'string') {
+      return '人間参加者の表示名は必須です';
+    }
+    if (human.mbtiType !== undefined && !MBTI_TYPES.includes(String(human.mbtiType))) {
+      return `人間参加者のタイプが不正です: ${String(human.mbtiType)}`;
+    }
+  }
+
+  const debateError = validateDebate(input.debate);
+  if (debateError) {
+    return debateError;
+  }
+
+  const decision = input.decision;
+  if (decision !== undefined) {
+    if (!isObject(decision) || !isStringArray(decision.options)) {
+      return '意思決定の候補案は文字列の配列で指定してください';
+    }
+    if (decision.votingMethod !== undefined && decision.votingMethod !== 'weighted' && decision.votingMethod !== 'ranked-choice') {
+      return '投票方式は weighted または ranked-choice で指定してください';
+    }
+  }
+
+  const invalidFlag = (['enableRealtimeOptimization', 'enableGraphOptimization', 'saveConversation'] as const)
+    .find(key => !isOptional(input[key], value => typeof value === 'boolean'));
+  if (invalidFlag) {
+    return `${invalidFlag} は真偽値で指定してください`;
+  }
+
+  if (!isOptional(input.qualityThreshold, value => typeof value === 'number' && value >= 0.5 && value <= 1.0)) {
+    return '品質閾値は0.5-1.0の範囲で指定してください';
+  }
+
+  if (input.outputFormat !== undefined && input.outputFormat !== 'markdown' && input.outputFormat !== 'json') {
+    return '出力形式は markdown または json で指定してください';
+  }
+
+  if (!isOptional(input.outputDirectory, value => typeof value === 'string')) {
+    return '出力ディレクトリは文字列で指定してください';
+  }
+
+  return validateLLMConfiguration(input.llm);
+}
+
+function validateParticipantSelection(selection: unknown): string | null {
+  if (selection === undefined) {
+    return null;
+  }
+  if (!isObject(selection)) {
+    return '参加者選択の形式が不正です';
+  }
+  if (!isOptional(selection.types, isMBTITypeArray)) {
+    return '参加タイプはMBTIタイプの配列で指定してください';
+  }
+  if (!isOptional(selection.exclude, isMBTITypeArray)) {
+    return '除外タイプはMBTIタイプの配列で指定してください';
+  }
+
+  const quotas = selection.groupQuotas;
+  if (quotas === undefined) {
+    return null;
+  }
+  if (!isObject(quotas)) {
+    return 'グループ割当の形式が不正です';
+  }
+  const invalidQuota = Object.entries(quotas)
+    .find(([group, quota]) => !MBTI_GROUPS.includes(group) || !isOptional(quota, value => isIntegerInRange(value, 0, 4)));
+  if (invalidQuota) {
+    return `グループ割当は0-4の整数で指定してください: ${invalidQuota[0]}`;
+  }
+  return null;
+}
+
+function validatePhasePlan(phasePlan: unknown): string | null {
+  if (phasePlan === undefined) {
+    return null;
+  }
+  if (typeof phasePlan === 'string') {
+    return PHASE_PLAN_PRESETS.includes(phasePlan) ? null : `フェーズプランのプリセットが不正です: ${phasePlan}`;
+  }
+  if (!Array.isArray(phasePlan)) {
+    return 'フェーズプランはプリセット名またはフェーズの配列で指定してください';
+  }
+
+  const isValidExitCondition = (value: unknown) =>
+    isObject(value) &&
+    typeof value.metric === 'string' && EXIT_METRICS.includes(value.metric) &&
+    typeof value.threshold === 'number' && value.threshold >= 0 && value.threshold <= 1 &&
+    isOptional(value.minTurns, minTurns => isIntegerInRange(minTurns, 1, Number.MAX_SAFE_INTEGER));
+
+  for (const phase of phasePlan) {
+    if (!isObject(phase) || typeof phase.name !== 'string' || phase.name.length === 0 || typeof phase.type !== 'string' || !PHASE_TYPES.includes(phase.type)) {
+      return 'フェーズには名前（name）と種類（type）が必要です';
+    }
+    if (
+      !isOptional(phase.rounds, value => isIntegerInRange(value, 1, 8)) ||
+      !isOptional(phase.turns, value => isIntegerInRange(value, 1, 128)) ||
+      !isOptional(phase.speakerSelection, value => typeof value === 'string' && SPEAKER_SELECTIONS.includes(value)) ||
+      !isOptional(phase.optimize, value => typeof value === 'boolean') ||
+      !isOptional(phase.exitCondition, isValidExitCondition)
+    ) {
+      return `フェーズの設定が不正です: ${phase.name}`;
+    }
+  }
+  return null;
+}
+
+function validateDebate(debate: unknown): string | null {
+  if (debate === undefined) {
+    return null;
+  }
+  if (!isObject(debate)) {
+    return 'ディベート設定の形式が不正です';
+  }
+
+  const { positions, teams } = debate;
+  if (positions !== undefined && (
+    !isObject(positions) ||
+    !isOptional(positions.pro, value => typeof value === 'string') ||
+    !isOptional(positions.contra, value => typeof value === 'string')
+  )) {
+    return 'ディベートの立場は文字列で指定してください';
+  }
+  if (teams !== undefined && (
+    !isObject(teams) ||
+    !isOptional(teams.pro, isMBTITypeArray) ||
+    !isOptional(teams.contra, isMBTITypeArray)
+  )) {
+    return 'ディベートの陣営はMBTIタイプの配列で指定してください';
+  }
+  return null;
+}
+
+function validateLLMConfiguration(llm: unknown): string | null {
+  if (llm === undefined) {
+    return null;
+  }
+
+  const isLLMSelection = (value: unknown) =>
+    isObject(value) &&
+    typeof value.provider === 'string' &&
+    isOptional(value.model, model => typeof model === 'string') &&
+    isOptional(value.baseURL, baseURL => typeof baseURL === 'string') &&
+    isOptional(value.responses, isStringArray);
+
+  if (
+    !isObject(llm) ||
+    !isOptional(llm.default, isLLMSelection) ||
+    !isOptional(llm.perType, perType => isObject(perType) && Object.values(perType).every(isLLMSelection))
+  ) {
+    return 'LLM設定の形式が不正です（provider は必須）';
+  }
+  return null;
+}
@@ -0,0 +1,301 @@
+import type {
+  DiscussionConfig,
+  DiscussionPhase,
+  DiscussionResult,
+  ConversationTurn,
+  DebateResult,
+  DebateSideResult,
+  DecisionResult,
+  HumanParticipant,
+  HumanTurnRequest,
+  MBTIType,
+  TopicRelevance,
+  WSMessage
+} from '@m-ads/shared-types';
+import type { DiscussionProgressEvent } from '@m-ads/mastra-workflows';
+import { createMockResult } from './mock-discussion';
+import { waitForHumanInput, cancelHumanInput } from './human-input';
+import { archiveDiscussion } from './discussion-archive';
+
+/**
+ * Mastraワークフロー実行モジュール
+ * @m-ads/mastra-workflows パッケージ経由で advancedMBTIDiscussionWorkflow を実行し、
+ * webapp の DiscussionResult 形式へ変換する
+ */
+
+export type ProgressMessageHandler = (message: WSMessage) => void;
+
+/**
+ * 実行モード（M_ADS_DISCUSSION_MODE=mock で常にモックを返す）
+ */
+export function isMockModeForced(): boolean {
+  return process.env.M_ADS_DISCUSSION_MODE === 'mock';
+}
+
+/**
+ * 議論を実行（強制モック or ワークフロー実行、失敗時はモックでフォールバック）
+ * 結果はアーカイブに保存し、archiveId を付与して返す
+ * signal の中止（クライアント切断）で人間参加者の発言待ちを取り消し、議論を中止する
+ */
+export async function executeDiscussion(
+  config: DiscussionConfig,
+  onProgress?: ProgressMessageHandler,
+  signal?: AbortSignal
+): Promise<DiscussionResult> {
+  const result = await runDiscussionWithFallback(config, onProgress, signal);
+  return withArchive(config, result);
+}
+
+async function runDiscussionWithFallback(
+  config: DiscussionConfig,
+  onProgress?: ProgressMessageHandler,
+  signal?: AbortSignal
+): Promise<DiscussionResult> {
+  if (isMockModeForced()) {
+    console.log('🧪 M_ADS_DISCUSSION_MODE=mock のためモックデータを返却');
+    return createMockResult(config, 'M_ADS_DISCUSSION_MODE=mock');
+  }
+
+  console.log('🔄 Mastraワークフロー実行開始...');
+  try {
+    return await runLiveDiscussion(config, onProgress, signal);
+  } catch (mastraError) {
+    // 人間参加者を含む議論（発言待ちのタイムアウト・切断による中止など）はモックで代替できないためエラーとして返す
+    if (config.humanParticipant) {
+      throw mastraError;
+    }
+
+    console.error('⚠️ Mastraワークフロー実行失敗、モックデータでフォールバック:', mastraError);
+
+    // フォールバック：Mastra実行失敗時はモックデータを返す
+    return createMockResult(
+      config,
+      mastraError instanceof Error ? mastraError.message : String(mastraError)
+    );
+  }
+}
+
+/**
+ * 議論結果をアーカイブに保存（保存失敗時も結果はそのまま返す）
+ */
+async function withArchive(config: DiscussionConfig, result: DiscussionResult): Promise<DiscussionResult> {
+  try {
+    const archiveId = await archiveDiscussion(config, result);
+    console.log(`🗄️ 議論をアーカイブに保存しました (id: ${archiveId})`);
+    return { ...result, archiveId };
+  } catch (error) {
+    console.warn('⚠️ 議論アーカイブの保存に失敗しました:', error);
+    return result;
+  }
+}
+
+/**
+ * ワークフローを実行して DiscussionResult を返す
+ * 人間参加者の発言ターンで中断した場合は human-turn メッセージを送り、発言を受けて再開する
+ * signal が中止されると発言待ちを取り消して例外を投げる
+ * 失敗時は例外を投げる（フォールバックは呼び出し側で判断）
+ */
+export async function runLiveDiscussion(
+  config: DiscussionConfig,
+  onProgress?: ProgressMessageHandler,
+  signal?: AbortSignal
+): Promise<DiscussionResult> {
+  // 🎯 Bedrock / LibSQL の初期化をリクエスト時まで遅延させるため動的インポート
+  const {
+    mastra,
+    subscribeDiscussionProgress,
+    resolvePhasePlan,
+    releaseDiscussionSession,
+    HUMAN_TURN_STEP_ID
+  } = await import('@m-ads/mastra-workflows');
+  const workflow = mastra.getWorkflow('mbtiDiscussionWorkflow');
+
+  const run = await workflow.createRunAsync();
+
+  // 📡 進行イベントを購読（ターン・重み・品質・フェーズ遷移）
+  const unsubscribe = onProgress
+    ? subscribeDiscussionProgress(run.runId, event => onProgress(toWSMessage(event)))
+    : undefined;
+
+  // 🔌 クライアント切断時は発言待ちを取り消す（タイムアウトまで待たない）
+  const cancelPendingInput = () => cancelHumanInput(run.runId);
+  signal?.addEventListener('abort', cancelPendingInput);
+
+  try {
+    let workflowResult = await run.start({
+      inputData: {
+        topic: config.topic,
+        // 参加タイプを明示した場合は参加者数を使わないため、ワークフローの範囲（4-16）に収めて渡す
+        participantCount: config.participants?.types?.length
+          ? Math.min(Math.max(config.participants.types.length, 4), 16)
+          : config.participantCount,
+        participants: config.participants,
+        seed: config.seed,
+        language: config.language,
+        personas: config.personas,
+        // 明示的なフェーズ配列は既定値を適用して検証（プリセット名はそのまま渡す）
+        phasePlan: Array.isArray(config.phasePlan) ? resolvePhasePlan(config.phasePlan) : config.phasePlan,
+        humanParticipant: config.humanParticipant,
+        debate: config.debate,
+        // 候補案は1行1件の入力をそのまま受けるため、空行と前後の空白を除いて渡す
+        decision: config.decision && {
+          ...config.decision,
+          options: config.decision.options.map(option => option.trim()).filter(Boolean)
+        },
+        enableRealtimeOptimization: config.enableRealtimeOptimization,
+        enableGraphOptimization: config.enableGraphOptimization,
+        qualityThreshold: config.qualityThreshold,
+        saveConversation: config.saveConversation,
+        outputFormat: config.outputFormat,
+        outputDirectory: config.outputDirectory,
+        llm: config.llm
+      }
+    });
+
+    // 👤 人間参加者の発言ターンで中断 → クライアントへ通知し、発言を受けて再開
+    while (workflowResult.status === 'suspended') {
+      const suspendedStep = workflowResult.steps[HUMAN_TURN_STEP_ID];
+      if (!onProgress || suspendedStep?.status !== 'suspended') {
+        throw new Error('人間参加者を含む議論はストリーミングAPI（/api/discussion/stream）で実行してください');
+      }
+
+      if (signal?.aborted) {
+        throw new Error('クライアントが切断したため議論を中止しました');
+      }
+
+      const request = suspendedStep.suspendPayload as Omit<HumanTurnRequest, 'runId'>;
+      onProgress({
+        type: 'human-turn',
+        data: { ...request, runId: run.runId },
+        timestamp: new Date().toISOString()
+      });
+
+      const statement = await waitForHumanInput(run.runId, request.turnNumber);
+      workflowResult = await run.resume({
+        step: HUMAN_TURN_STEP_ID,
+        resumeData: { turnNumber: request.turnNumber, statement }
+      });
+    }
+
+    if (workflowResult.status === 'failed') {
+      throw new Error(`Mastraワークフローの実行に失敗しました: ${String(workflowResult.error)}`);
+    }
+
+    return toDiscussionResult(workflowResult.result);
+  } finally {
+    unsubscribe?.();
+    signal?.removeEventListener('abort', cancelPendingInput);
+    cancelHumanInput(run.runId);
+    // 失敗・中止時も議論セッションを解放（完了時はワークフロー側で解放済み）
+    await releaseDiscussionSession(run.runId);
+  }
+}
+
+type WorkflowOutput = Omit<DiscussionResult, 'source' | 'fallbackReason' | 'participantTypes' | 'humanParticipant' | 'topicRelevance' | 'conversationFlow' | 'debateResult' | 'decisionResult'> & {
+  participantTypes: string[];
+  humanParticipant?: Omit<HumanParticipant, 'mbtiType'> & { mbtiType: string };
+  topicRelevance: { provider: string; types: Record<string, { similarity: number; modifier: number }> };
+  conversationFlow: Array<Omit<ConversationTurn, 'speakerMbtiType'> & { speakerMbtiType: string }>;
+  debateResult?: Omit<DebateResult, 'sides'> & {
+    sides: Record<keyof DebateResult['sides'], Omit<DebateSideResult, 'members'> & { members: string[] }>;
+  };
+  decisionResult?: Omit<DecisionResult, 'ranking' | 'votes' | 'abstentions'> & {
+    ranking: Array<Omit<DecisionResult['ranking'][number], 'supporters'> & { supporters: string[] }>;
+    votes: Array<Omit<DecisionResult['votes'][number], 'mbtiType'> & { mbtiType: string }>;
+    abstentions: string[];
+  };
+};
+
+/**
+ * ワークフロー出力（zodスキーマ由来の string 型）を DiscussionResult へ変換
+ */
+export function toDiscussionResult(output: WorkflowOutput): DiscussionResult {
+  return {
+    source: 'live',
+    topic: output.topic,
+    seed: output.seed,
+    language: output.language,
+    personas: output.personas,
+    participantTypes: output.participantTypes as MBTIType[],
+    humanParticipant: output.humanParticipant && {
+      ...output.humanParticipant,
+      mbtiType: output.humanParticipant.mbtiType as MBTIType
+    },
+    topicRelevance: output.topicRelevance as TopicRelevance,
+    totalStatements: output.totalStatements,
+    totalTurns: output.totalTurns,
+    conversationFlow: output.conversationFlow.map(turn => ({
+      ...turn,
+      speakerMbtiType: turn.speakerMbtiType as ConversationTurn['speakerMbtiType']
+    })),
+    comprehensiveMetrics: output.comprehensiveMetrics,
+    realtimeOptimization: output.realtimeOptimization,
+    advancedReport: output.advancedReport,
+    discussionSummary: output.discussionSummary,
+    phases: output.phases,
+    usage: output.usage,
+    debate: output.debate,
+    debateResult: output.debateResult as DebateResult | undefined,
+    decision: output.decision,
+    decisionResult: output.decisionResult as DecisionResult | undefined,
+    conversationSaved: output.conversationSaved
+  };
+}
+
+// ワークフローのフェーズ種別 → ダッシュボード表示用フェーズ
+const PHASE_BY_TYPE: Record<string, DiscussionPhase> = {
+  initial: 'brainstorming',
+  interaction: 'analysis',
+  synthesis: 'synthesis',
+  consensus: 'conclusion'
+};
+
+/**
+ * ワークフローの進行イベントを WSMessage へ変換
+ */
+export function toWSMessage(event: DiscussionProgressEvent): WSMessage {
+  const timestamp = new Date().toISOString();
+
+  switch (event.type) {
+    case 'phase':
+      return {
+        type: 'progress',
+        data: {
+          phase: PHASE_BY_TYPE[event.phaseType] ?? 'conclusion',
+          phaseNumber: event.phase,
+          phaseName: event.phaseName,
+          totalPhases: event.totalPhases,
+          turnNumber: event.turnNumber
+        },
+        timestamp
+      };
+    case 'turn':
+      return {
+        type: 'turn',
+        data: { ...event.turn, speakerMbtiType: event.turn.speakerMbtiType as ConversationTurn['speakerMbtiType'] },
+        timestamp
+      };
+    case 'weights':
+      return {
+        type: 'metrics',
+        data: {
+          kind: 'weights',
+          turnNumber: event.turnNumber,
+          reason: event.reason,
+          weights: event.weights as Partial<Record<MBTIType, number>>
+        },
+        timestamp
+      };
+    case 'quality':
+      return {
+        type: 'metrics',
+        data: {
+          kind: 'quality',
+          turnNumber: event.turnNumber,
+          mbtiType: event.mbtiType as MBTIType,
+          scores: event.scores
+        },
+        timestamp
+      };
+  }
+}
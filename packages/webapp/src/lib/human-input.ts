@@ -0,0 +1,76 @@
+import type { HumanTurnInput } from '@m-ads/shared-types';
+
+/**
+ * 人間参加者の発言受付モジュール
+ * ストリーミング実行中のワークフローが人間の発言ターンで中断している間、
+ * 発言送信API（/api/discussion/human-input）から受け取った発言を実行側へ受け渡す
+ */
+
+interface PendingHumanInput {
+  turnNumber: number;
+  resolve: (statement: string) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// 発言待ちの既定タイムアウト（10分）
+export const HUMAN_INPUT_TIMEOUT_MS = 10 * 60 * 1000;
+
+// 開発サーバーのホットリロードやルートごとのモジュール評価でも共有されるよう globalThis に保持
+const globalForHumanInput = globalThis as typeof globalThis & {
+  __madsPendingHumanInputs?: Map<string, PendingHumanInput>;
+};
+const pendingInputs = globalForHumanInput.__madsPendingHumanInputs ??= new Map<string, PendingHumanInput>();
+
+/**
+ * 指定runの人間参加者の発言を待機（タイムアウト時は例外）
+ */
+export function waitForHumanInput(
+  runId: string,
+  turnNumber: number,
+  timeoutMs: number = HUMAN_INPUT_TIMEOUT_MS
+): Promise<string> {
+  cancelHumanInput(runId);
+
+  return new Promise<string>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      pendingInputs.delete(runId);
+      reject(new Error(`人間参加者の発言待ちがタイムアウトしました（${Math.round(timeoutMs / 1000)}秒）`));
+    }, timeoutMs);
+
+    pendingInputs.set(runId, { turnNumber, resolve, reject, timer });
+  });
+}
+
+/**
+ * 人間参加者の発言を受け付け（該当する発言待ちがなければエラーメッセージ、受理時はnull）
+ */
+export function submitHumanInput(input: HumanTurnInput): string | null {
+  const pending = pendingInputs.get(input.runId);
+  if (!pending) {
+    return '発言待ちの議論が見つかりません';
+  }
+  if (pending.turnNumber !== input.turnNumber) {
+    return `発言待ちのターンと一致しません（待機中: ターン${pending.turnNumber}）`;
+  }
+  if (typeof input.statement !== 'string' || input.statement.trim().length === 0) {
+    return '発言は必須です';
+  }
+
+  clearTimeout(pending.timer);
+  pendingInputs.delete(input.runId);
+  pending.resolve(input.statement.trim());
+  return null;
+}
+
+/**
+ * 指定runの発言待ちを取り消し（クライアント切断時など）
+ */
+export function cancelHumanInput(runId: string): void {
+  const pending = pendingInputs.get(runId);
+  if (!pending) return;
+
+  clearTimeout(pending.timer);
+  pendingInputs.delete(runId);
+  pending.reject(new Error('人間参加者の発言待ちが取り消されました'));
+}